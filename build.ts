@@ -138,6 +138,8 @@ const result = await Bun.build({
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
     "__CONVEX_URL__": JSON.stringify(process.env.VITE_CONVEX_URL || ""),
+    "__AUTH_ISSUER__": JSON.stringify(process.env.AUTH_ISSUER_URL || ""),
+    "__AUTH_CLIENT_ID__": JSON.stringify(process.env.AUTH_CLIENT_ID || ""),
   },
   ...cliConfig,
 });
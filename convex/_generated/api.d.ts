@@ -8,14 +8,27 @@
  * @module
  */
 
+import type * as access from "../access.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as calculationImport from "../calculationImport.js";
 import type * as calculations from "../calculations.js";
+import type * as changeLog from "../changeLog.js";
+import type * as crm from "../crm.js";
+import type * as crons from "../crons.js";
 import type * as companies from "../companies.js";
+import type * as customArchetypes from "../customArchetypes.js";
+import type * as functions from "../functions.js";
 import type * as http from "../http.js";
+import type * as members from "../members.js";
 import type * as migrations from "../migrations.js";
+import type * as shareLinks from "../shareLinks.js";
+import type * as snapshots from "../snapshots.js";
 import type * as useCases from "../useCases.js";
 import type * as valueItems from "../valueItems.js";
+import type * as webhooks from "../webhooks.js";
 import type * as zapActions from "../zapActions.js";
 import type * as zapRunCache from "../zapRunCache.js";
+import type * as zapSync from "../zapSync.js";
 
 import type {
   ApiFromModules,
@@ -24,14 +37,27 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  access: typeof access;
+  apiKeys: typeof apiKeys;
+  calculationImport: typeof calculationImport;
   calculations: typeof calculations;
+  changeLog: typeof changeLog;
+  crm: typeof crm;
+  crons: typeof crons;
   companies: typeof companies;
+  customArchetypes: typeof customArchetypes;
+  functions: typeof functions;
   http: typeof http;
+  members: typeof members;
   migrations: typeof migrations;
+  shareLinks: typeof shareLinks;
+  snapshots: typeof snapshots;
   useCases: typeof useCases;
   valueItems: typeof valueItems;
+  webhooks: typeof webhooks;
   zapActions: typeof zapActions;
   zapRunCache: typeof zapRunCache;
+  zapSync: typeof zapSync;
 }>;
 
 /**
@@ -0,0 +1,213 @@
+import { ConvexError } from "convex/values";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { ApiKeyCtx } from "./functions";
+import { hasRole, normalizeEmail, parseAdminEmails, type MemberRole } from "../src/utils/access";
+import { API_KEY_SCOPE_ROLE, type ApiKeyScope } from "../src/utils/apiKeys";
+
+// ============================================================
+// Access checks — every public query and mutation goes through
+// one of these. Identity comes from the OIDC provider configured
+// in auth.config.ts, or from an API key; roles come from the
+// memberships table, or the key's scope.
+// ============================================================
+
+export type AccessErrorCode = "UNAUTHENTICATED" | "FORBIDDEN";
+
+/** Thrown as ConvexError so HTTP actions can map it to 401/403 */
+export function accessError(code: AccessErrorCode, message: string) {
+  return new ConvexError({ code, message });
+}
+
+export function isAccessError(e: unknown): e is ConvexError<{ code: AccessErrorCode; message: string }> {
+  return (
+    e instanceof ConvexError &&
+    typeof e.data === "object" &&
+    e.data !== null &&
+    (e.data.code === "UNAUTHENTICATED" || e.data.code === "FORBIDDEN")
+  );
+}
+
+export interface Viewer {
+  email: string; // For API keys, "api-key:" + the key's hint
+  name?: string;
+  isAdmin: boolean; // Listed in ADMIN_EMAILS: owner of every company
+  apiKey?: { id: Id<"apiKeys">; companyId: Id<"companies">; scope: ApiKeyScope };
+}
+
+type Ctx = Pick<QueryCtx, "auth" | "db"> & ApiKeyCtx;
+
+/** Value item writes are checked separately so a key can be limited to them */
+type Resource = "valueItems";
+
+/** The signed-in user or calling API key, or null */
+export async function getViewer(ctx: Ctx): Promise<Viewer | null> {
+  if (ctx.apiKeyGrant !== undefined) return await getApiKeyViewer(ctx, ctx.apiKeyGrant);
+
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity?.email || identity.emailVerified === false) return null;
+  const email = normalizeEmail(identity.email);
+  return { email, name: identity.name, isAdmin: parseAdminEmails(process.env.ADMIN_EMAILS).includes(email) };
+}
+
+/** The key behind a grant the HTTP router issued for a request it counted */
+async function getApiKeyViewer(ctx: Ctx, apiKeyGrant: string): Promise<Viewer> {
+  const grant = await ctx.db
+    .query("apiKeyGrants")
+    .withIndex("by_token", (q) => q.eq("token", apiKeyGrant))
+    .unique();
+  const key = grant && grant.expiresAt > Date.now() ? await ctx.db.get(grant.apiKeyId) : null;
+  if (!key || key.revokedAt !== undefined) throw accessError("UNAUTHENTICATED", "Invalid or revoked API key");
+  return {
+    email: `api-key:${key.hint}`,
+    name: key.name,
+    isAdmin: false,
+    apiKey: { id: key._id, companyId: key.companyId, scope: key.scope },
+  };
+}
+
+export async function requireViewer(ctx: Ctx): Promise<Viewer> {
+  const viewer = await getViewer(ctx);
+  if (!viewer) throw accessError("UNAUTHENTICATED", "Sign in to continue");
+  return viewer;
+}
+
+/** For what only people may do, like creating companies or issuing API keys */
+export async function requireUser(ctx: Ctx): Promise<Viewer> {
+  const viewer = await requireViewer(ctx);
+  if (viewer.apiKey) throw accessError("FORBIDDEN", "API keys can't do this; sign in instead");
+  return viewer;
+}
+
+export async function getCompanyRole(
+  ctx: Ctx,
+  viewer: Viewer,
+  companyId: Id<"companies">,
+  resource?: Resource
+): Promise<MemberRole | null> {
+  if (viewer.apiKey) {
+    const { scope } = viewer.apiKey;
+    if (viewer.apiKey.companyId !== companyId) return null;
+    return scope === "value_items:write" && resource === "valueItems" ? "editor" : API_KEY_SCOPE_ROLE[scope];
+  }
+  if (viewer.isAdmin) return "owner";
+  const membership = await ctx.db
+    .query("memberships")
+    .withIndex("by_companyId", (q) => q.eq("companyId", companyId).eq("email", viewer.email))
+    .unique();
+  return membership?.role ?? null;
+}
+
+/** A calculator's company decides access; one without a company belongs to its creator */
+export async function getCalculationRole(
+  ctx: Ctx,
+  viewer: Viewer,
+  calculation: Doc<"calculations">,
+  resource?: Resource
+): Promise<MemberRole | null> {
+  if (viewer.isAdmin) return "owner";
+  if (calculation.companyId) return await getCompanyRole(ctx, viewer, calculation.companyId, resource);
+  return calculation.createdBy === viewer.email ? "owner" : null;
+}
+
+export async function requireCompanyRole(ctx: Ctx, companyId: Id<"companies">, required: MemberRole) {
+  const viewer = await requireViewer(ctx);
+  const company = await ctx.db.get(companyId);
+  if (!company) throw new Error("Company not found");
+  const role = await getCompanyRole(ctx, viewer, companyId);
+  if (!hasRole(role, required)) {
+    throw accessError("FORBIDDEN", `You need ${required} access to ${company.name}`);
+  }
+  return { viewer, company, role: role! };
+}
+
+export async function requireCalculationRole(
+  ctx: Ctx,
+  calculationId: Id<"calculations">,
+  required: MemberRole,
+  resource?: Resource
+) {
+  const viewer = await requireViewer(ctx);
+  const calculation = await ctx.db.get(calculationId);
+  if (!calculation) throw new Error("Calculation not found");
+  const role = await getCalculationRole(ctx, viewer, calculation, resource);
+  if (!hasRole(role, required)) {
+    throw accessError("FORBIDDEN", `You need ${required} access to "${calculation.name}"`);
+  }
+  return { viewer, calculation, role: role! };
+}
+
+/** Value items and use cases need the role on the calculator they belong to */
+export async function requireChildRole<T extends "valueItems" | "useCases">(
+  ctx: Ctx,
+  table: T,
+  id: Id<T>,
+  required: MemberRole
+): Promise<Doc<T>> {
+  const doc = (await ctx.db.get(id)) as Doc<T> | null;
+  if (!doc) throw new Error(table === "valueItems" ? "Value item not found" : "Use case not found");
+  await requireCalculationRole(ctx, doc.calculationId, required, table === "valueItems" ? "valueItems" : undefined);
+  return doc;
+}
+
+/**
+ * For reads: the document if the viewer may see it, otherwise null, so a
+ * calculator you can't access looks the same as one that doesn't exist.
+ */
+export async function readableCalculation(ctx: Ctx, calculation: Doc<"calculations"> | null) {
+  if (!calculation) return null;
+  const viewer = await requireViewer(ctx);
+  return hasRole(await getCalculationRole(ctx, viewer, calculation), "viewer") ? calculation : null;
+}
+
+export async function readableCompany(ctx: Ctx, company: Doc<"companies"> | null) {
+  if (!company) return null;
+  const viewer = await requireViewer(ctx);
+  return hasRole(await getCompanyRole(ctx, viewer, company._id), "viewer") ? company : null;
+}
+
+/** Value items and use cases take their calculator's access */
+export async function readableChild<T extends Doc<"valueItems"> | Doc<"useCases">>(ctx: Ctx, doc: T | null) {
+  if (!doc) return null;
+  return (await readableCalculation(ctx, await ctx.db.get(doc.calculationId))) ? doc : null;
+}
+
+/** Calculators the viewer can see: their companies' plus their own unfiled ones */
+export async function listReadableCalculations(ctx: Ctx) {
+  const viewer = await requireViewer(ctx);
+  if (viewer.isAdmin) return await ctx.db.query("calculations").order("desc").collect();
+  if (viewer.apiKey) {
+    const companyId = viewer.apiKey.companyId;
+    const calculations = await ctx.db
+      .query("calculations")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+      .collect();
+    return calculations.sort((a, b) => b._creationTime - a._creationTime);
+  }
+
+  const calculations: Doc<"calculations">[] = [];
+  for (const companyId of await listMemberCompanyIds(ctx, viewer)) {
+    calculations.push(
+      ...(await ctx.db
+        .query("calculations")
+        .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+        .collect())
+    );
+  }
+  const own = await ctx.db
+    .query("calculations")
+    .withIndex("by_createdBy", (q) => q.eq("createdBy", viewer.email))
+    .collect();
+  calculations.push(...own.filter((c) => !c.companyId));
+  return calculations.sort((a, b) => b._creationTime - a._creationTime);
+}
+
+export async function listMemberCompanyIds(ctx: Ctx, viewer: Viewer): Promise<Id<"companies">[]> {
+  if (viewer.apiKey) return [viewer.apiKey.companyId];
+  if (viewer.isAdmin) return (await ctx.db.query("companies").collect()).map((c) => c._id);
+  const memberships = await ctx.db
+    .query("memberships")
+    .withIndex("by_email", (q) => q.eq("email", viewer.email))
+    .collect();
+  return memberships.map((m) => m.companyId);
+}
@@ -0,0 +1,141 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { query, mutation } from "./functions";
+import { requireCompanyRole, requireUser } from "./access";
+import { generateShareToken } from "../src/utils/access";
+import {
+  API_KEY_GRANT_TTL_MS,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  MAX_RATE_LIMIT_PER_MINUTE,
+  apiKeyHint,
+  checkRateLimit,
+  generateApiKey,
+  hashApiKey,
+} from "../src/utils/apiKeys";
+
+const scopeValidator = v.union(v.literal("read"), v.literal("value_items:write"), v.literal("admin"));
+
+// ============================================================
+// Queries
+// ============================================================
+
+/** A company's keys, newest first. Never includes the key or its hash. */
+export const listByCompany = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    await requireUser(ctx);
+    await requireCompanyRole(ctx, companyId, "owner");
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+      .collect();
+    return keys
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(({ hash: _hash, windowStart: _windowStart, windowCount: _windowCount, ...key }) => key);
+  },
+});
+
+// ============================================================
+// Mutations (owners only, signed in — keys can't issue keys)
+// ============================================================
+
+/** Returns the key itself. It is not stored and can't be shown again. */
+export const create = mutation({
+  args: {
+    companyId: v.id("companies"),
+    name: v.string(),
+    scope: scopeValidator,
+    rateLimitPerMinute: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireUser(ctx);
+    await requireCompanyRole(ctx, args.companyId, "owner");
+
+    const name = args.name.trim();
+    if (!name) throw new Error("API key name is required");
+    const rateLimitPerMinute = args.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+    if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE) {
+      throw new Error(`rateLimitPerMinute must be a whole number from 1 to ${MAX_RATE_LIMIT_PER_MINUTE}`);
+    }
+
+    const key = generateApiKey();
+    const id = await ctx.db.insert("apiKeys", {
+      companyId: args.companyId,
+      name,
+      hash: await hashApiKey(key),
+      hint: apiKeyHint(key),
+      scope: args.scope,
+      rateLimitPerMinute,
+      createdBy: viewer.email,
+      createdAt: Date.now(),
+    });
+    return { id, key };
+  },
+});
+
+/** Takes effect on the key's next request. The record stays for its last-used date. */
+export const revoke = mutation({
+  args: { id: v.id("apiKeys") },
+  handler: async (ctx, { id }) => {
+    const key = await ctx.db.get(id);
+    if (!key) throw new Error("API key not found");
+    await requireUser(ctx);
+    await requireCompanyRole(ctx, key.companyId, "owner");
+    if (key.revokedAt === undefined) await ctx.db.patch(id, { revokedAt: Date.now() });
+  },
+});
+
+// ============================================================
+// Internal — called by the HTTP router once per request
+// ============================================================
+
+/**
+ * Count a request against the key's rate limit, note when it was last used
+ * and issue the grant the request's queries and mutations run with.
+ */
+export const recordUse = internalMutation({
+  args: { key: v.string() },
+  handler: async (ctx, { key }) => {
+    const hash = await hashApiKey(key);
+    const apiKey = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_hash", (q) => q.eq("hash", hash))
+      .unique();
+    if (!apiKey || apiKey.revokedAt !== undefined) return { ok: false as const, retryAfterSeconds: null };
+
+    const now = Date.now();
+    const window =
+      apiKey.windowStart !== undefined
+        ? { windowStart: apiKey.windowStart, windowCount: apiKey.windowCount ?? 0 }
+        : undefined;
+    const result = checkRateLimit(window, apiKey.rateLimitPerMinute, now);
+    if (!result.allowed) return { ok: false as const, retryAfterSeconds: result.retryAfterSeconds };
+
+    await ctx.db.patch(apiKey._id, { ...result.window, lastUsedAt: now });
+
+    // Grants of requests that ended without releasing theirs
+    const grants = await ctx.db
+      .query("apiKeyGrants")
+      .withIndex("by_apiKeyId", (q) => q.eq("apiKeyId", apiKey._id))
+      .collect();
+    for (const grant of grants) {
+      if (grant.expiresAt <= now) await ctx.db.delete(grant._id);
+    }
+
+    const grant = generateShareToken(40);
+    await ctx.db.insert("apiKeyGrants", { apiKeyId: apiKey._id, token: grant, expiresAt: now + API_KEY_GRANT_TTL_MS });
+    return { ok: true as const, grant };
+  },
+});
+
+/** Called once the request is answered */
+export const releaseGrant = internalMutation({
+  args: { grant: v.string() },
+  handler: async (ctx, { grant }) => {
+    const doc = await ctx.db
+      .query("apiKeyGrants")
+      .withIndex("by_token", (q) => q.eq("token", grant))
+      .unique();
+    if (doc) await ctx.db.delete(doc._id);
+  },
+});
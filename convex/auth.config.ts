@@ -0,0 +1,10 @@
+// Sign-in via any OpenID Connect provider (Okta, Google Workspace, Auth0...).
+// Convex validates the provider's ID tokens; set these with `npx convex env set`.
+export default {
+  providers: [
+    {
+      domain: process.env.AUTH_ISSUER_URL,
+      applicationID: process.env.AUTH_CLIENT_ID,
+    },
+  ],
+};
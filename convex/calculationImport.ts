@@ -0,0 +1,380 @@
+// ============================================================
+// Calculation payloads — create a calculation with its value
+// items and use cases in one call. Shared by POST /api/calculations
+// and the spreadsheet importer so both follow the same path.
+// Bundles (POST /api/calculations/import) recreate a calculator
+// exported from this or another deployment.
+// ============================================================
+
+import { v } from "convex/values";
+import { action } from "./functions";
+import type { ActionCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { isAccessError } from "./access";
+import { ROI_BENCHMARK_PACK_ID } from "../src/data/schemaResponse";
+import { computesSameValue, isCustomArchetype } from "../src/utils/customArchetypes";
+import {
+  ARCHETYPE_DIMENSION,
+  type CalculationBundle,
+  type CalculationPayload,
+} from "../src/types/roi";
+
+/** A payload problem, with the HTTP status the REST API should answer with */
+export class CalculationPayloadError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "CalculationPayloadError";
+  }
+}
+
+/** Built-in archetype names and custom keys a company doesn't define */
+async function findInvalidArchetypes(
+  ctx: ActionCtx,
+  archetypes: string[],
+  companyId: Id<"companies"> | undefined
+): Promise<string[]> {
+  const validArchetypes = Object.keys(ARCHETYPE_DIMENSION);
+  const customKeys = new Set<string>();
+  if (companyId && archetypes.some(isCustomArchetype)) {
+    for (const custom of await ctx.runQuery(api.customArchetypes.listByCompany, { companyId })) {
+      customKeys.add(custom.key);
+    }
+  }
+  return archetypes.filter((archetype) => !validArchetypes.includes(archetype) && !customKeys.has(archetype));
+}
+
+/** Run the writes that fill in a new calculation, deleting it again if any fail */
+async function deleteOnFailure<T>(ctx: ActionCtx, calculationId: Id<"calculations">, fill: () => Promise<T>): Promise<T> {
+  try {
+    return await fill();
+  } catch (e) {
+    await ctx.runMutation(api.calculations.remove, { id: calculationId });
+    throw e;
+  }
+}
+
+/**
+ * Create a calculation from a payload. Archetypes, custom keys included, are
+ * checked against the company before anything is written, and the calculation
+ * is deleted again if a later write fails. Use cases link to value items
+ * created in the same payload by name.
+ */
+export async function createCalculationFromPayload(
+  ctx: ActionCtx,
+  payload: CalculationPayload
+): Promise<{ calculationId: Id<"calculations">; shortId: string; importedUseCaseIds: string[] }> {
+  if (!payload.name || typeof payload.name !== "string") {
+    throw new CalculationPayloadError("name is required and must be a string");
+  }
+
+  // Resolve companyId from either companyId (Convex ID) or companyShortId
+  let companyId: Id<"companies"> | undefined;
+  if (payload.companyId) {
+    companyId = payload.companyId as Id<"companies">;
+  } else if (payload.companyShortId) {
+    const company = await ctx.runQuery(api.companies.getByShortId, { shortId: payload.companyShortId });
+    if (!company) throw new CalculationPayloadError(`Company not found with shortId "${payload.companyShortId}"`, 404);
+    companyId = company._id;
+  }
+
+  const [invalid] = await findInvalidArchetypes(ctx, (payload.valueItems ?? []).map((item) => item.archetype), companyId);
+  if (invalid !== undefined) {
+    const message = isCustomArchetype(invalid)
+      ? companyId
+        ? `Custom archetype "${invalid}" not found for this company`
+        : `Custom archetype "${invalid}" requires a company (companyId or companyShortId)`
+      : `Invalid archetype "${invalid}"`;
+    throw new CalculationPayloadError(message, 400, {
+      validArchetypes: Object.keys(ARCHETYPE_DIMENSION),
+      schemaUrl: "/api/schema",
+    });
+  }
+
+  const result = await ctx.runMutation(api.calculations.create, {
+    name: payload.name,
+    role: payload.role,
+    priorityOrder: payload.priorityOrder,
+    benchmarkPackId: payload.benchmarkPackId ?? ROI_BENCHMARK_PACK_ID,
+    currentSpend: payload.currentSpend,
+    proposedSpend: payload.proposedSpend,
+    implementationCost: payload.implementationCost,
+    ...(companyId && { companyId }),
+    ...(payload.assumptions && { assumptions: payload.assumptions }),
+  });
+  const calculationId = result.id;
+
+  const importedUseCaseIds = await deleteOnFailure(ctx, calculationId, () =>
+    fillCalculationFromPayload(ctx, calculationId, payload)
+  );
+  return { calculationId, shortId: result.shortId, importedUseCaseIds };
+}
+
+async function fillCalculationFromPayload(
+  ctx: ActionCtx,
+  calculationId: Id<"calculations">,
+  payload: CalculationPayload
+): Promise<string[]> {
+  // Create value items
+  const createdItemIds = new Map<string, Id<"valueItems">>(); // name → id
+  if (payload.valueItems && payload.valueItems.length > 0) {
+    let results;
+    try {
+      results = await ctx.runMutation(api.valueItems.createBatch, {
+        calculationId,
+        items: payload.valueItems.map((item) => ({
+          archetype: item.archetype,
+          name: item.name,
+          description: item.description,
+          inputs: item.inputs ?? {},
+          manualAnnualValue: item.manualAnnualValue,
+        })),
+      });
+    } catch (e) {
+      if (isAccessError(e)) throw e;
+      throw new CalculationPayloadError(e instanceof Error ? e.message : "Failed to create value items", 400, {
+        schemaUrl: "/api/schema",
+      });
+    }
+    payload.valueItems.forEach((item, i) => createdItemIds.set(item.name, results[i]!.id));
+  }
+
+  // Create use cases, linking value items by name
+  for (const uc of payload.useCases ?? []) {
+    const ucResult = await ctx.runMutation(api.useCases.create, {
+      calculationId,
+      name: uc.name,
+      department: uc.department,
+      status: uc.status ?? "identified",
+      implementationEffort: uc.implementationEffort ?? "medium",
+      description: uc.description,
+      metrics: uc.metrics,
+      goLiveMonth: uc.goLiveMonth,
+      rampMonths: uc.rampMonths,
+    });
+
+    for (const itemName of uc.valueItemNames ?? []) {
+      const itemId = createdItemIds.get(itemName);
+      if (itemId) {
+        await ctx.runMutation(api.valueItems.update, { id: itemId, useCaseId: ucResult.id });
+      }
+    }
+  }
+
+  // Import existing use cases by ID (shared references, not clones)
+  const importedUseCaseIds: string[] = [];
+  for (const ucId of payload.importUseCaseIds ?? []) {
+    try {
+      await ctx.runMutation(api.useCases.addToCalculation, {
+        calculationId,
+        useCaseId: ucId as Id<"useCases">,
+      });
+      importedUseCaseIds.push(ucId);
+    } catch {
+      // Skip duplicates or invalid IDs silently
+    }
+  }
+
+  return importedUseCaseIds;
+}
+
+/** Bundle-local ids mapped to the records created for them */
+export interface BundleIdMap {
+  useCases: Record<string, string>;
+  valueItems: Record<string, string>;
+  customArchetypes: Record<string, string>; // bundle key → company key
+}
+
+async function runStep<T>(step: Promise<T>, fallback: string): Promise<T> {
+  try {
+    return await step;
+  } catch (e) {
+    if (isAccessError(e)) throw e;
+    throw new CalculationPayloadError(e instanceof Error ? e.message : fallback);
+  }
+}
+
+/**
+ * Create a calculation from an upgraded bundle (see upgradeCalculationBundle).
+ * Custom archetypes are matched to the company's that compute the same value,
+ * by key and then by label, and created when there is none; every
+ * bundle-local id is remapped to the new records. If any write fails the
+ * calculation and the archetypes created for it are deleted again.
+ */
+export async function importCalculationBundle(
+  ctx: ActionCtx,
+  bundle: CalculationBundle,
+  options: { companyId?: Id<"companies"> } = {}
+): Promise<{ calculationId: Id<"calculations">; shortId: string; idMap: BundleIdMap }> {
+  const { companyId } = options;
+  const { calculation } = bundle;
+  const idMap: BundleIdMap = { useCases: {}, valueItems: {}, customArchetypes: {} };
+
+  const customArchetypes = bundle.customArchetypes ?? [];
+  const createdArchetypeIds: Id<"customArchetypes">[] = [];
+  if (customArchetypes.length > 0 && !companyId) {
+    throw new CalculationPayloadError("This bundle uses custom archetypes; import it into a company (?company=shortId)");
+  }
+
+  try {
+    if (companyId && customArchetypes.length > 0) {
+      const existing = await ctx.runQuery(api.customArchetypes.listByCompany, { companyId });
+      for (const { key, ...definition } of customArchetypes) {
+        // A same-keyed archetype with another formula would change the imported totals
+        const same = existing.filter((a) => computesSameValue(a, definition));
+        const match = same.find((a) => a.key === key) ?? same.find((a) => a.label === definition.label.trim());
+        if (match) {
+          idMap.customArchetypes[key] = match.key;
+          continue;
+        }
+        const created = await runStep(
+          ctx.runMutation(api.customArchetypes.create, { companyId, ...definition }),
+          `Failed to create custom archetype "${definition.label}"`
+        );
+        createdArchetypeIds.push(created.id);
+        idMap.customArchetypes[key] = created.key;
+      }
+    }
+
+    const result = await ctx.runMutation(api.calculations.create, {
+      name: calculation.name,
+      role: calculation.role,
+      priorityOrder: calculation.priorityOrder,
+      benchmarkPackId: calculation.benchmarkPackId ?? ROI_BENCHMARK_PACK_ID,
+      currentSpend: calculation.currentSpend,
+      proposedSpend: calculation.proposedSpend,
+      implementationCost: calculation.implementationCost,
+      ...(companyId && { companyId }),
+      assumptions: calculation.assumptions,
+    });
+    const calculationId = result.id;
+
+    await deleteOnFailure(ctx, calculationId, () => fillCalculationFromBundle(ctx, calculationId, bundle, idMap));
+    return { calculationId, shortId: result.shortId, idMap };
+  } catch (e) {
+    for (const id of createdArchetypeIds) {
+      await ctx.runMutation(api.customArchetypes.remove, { id });
+    }
+    throw e;
+  }
+}
+
+async function fillCalculationFromBundle(
+  ctx: ActionCtx,
+  calculationId: Id<"calculations">,
+  bundle: CalculationBundle,
+  idMap: BundleIdMap
+): Promise<void> {
+  const { calculation } = bundle;
+
+  for (const uc of bundle.useCases) {
+    const created = await runStep(
+      ctx.runMutation(api.useCases.create, {
+        calculationId,
+        name: uc.name,
+        department: uc.department,
+        status: uc.status,
+        implementationEffort: uc.implementationEffort,
+        description: uc.description,
+        metrics: uc.metrics,
+        architecture: uc.architecture,
+        goLiveMonth: uc.goLiveMonth,
+        rampMonths: uc.rampMonths,
+      }),
+      `Failed to create use case "${uc.name}"`
+    );
+    idMap.useCases[uc.id] = created.id;
+  }
+
+  if (bundle.valueItems.length > 0) {
+    const created = await runStep(
+      ctx.runMutation(api.valueItems.createBatch, {
+        calculationId,
+        items: bundle.valueItems.map((item) => ({
+          archetype: idMap.customArchetypes[item.archetype] ?? item.archetype,
+          name: item.name,
+          description: item.description,
+          inputs: item.inputs,
+          manualAnnualValue: item.manualAnnualValue,
+          ...(item.useCaseId && { useCaseId: idMap.useCases[item.useCaseId] as Id<"useCases"> }),
+        })),
+      }),
+      "Failed to create value items"
+    );
+    bundle.valueItems.forEach((item, i) => (idMap.valueItems[item.id] = created[i]!.id));
+  }
+
+  if (calculation.talkingPoints?.length) {
+    await ctx.runMutation(api.calculations.updateTalkingPoints, { id: calculationId, talkingPoints: calculation.talkingPoints });
+  }
+  if (calculation.obfuscation) {
+    await ctx.runMutation(api.calculations.updateObfuscation, { id: calculationId, obfuscation: calculation.obfuscation });
+  }
+  if (calculation.scenarios?.length) {
+    // Overrides for items that aren't in the bundle are dropped
+    const scenarios = calculation.scenarios.map((scenario) => ({
+      ...scenario,
+      ...(scenario.itemOverrides && {
+        itemOverrides: scenario.itemOverrides
+          .filter((o) => idMap.valueItems[o.valueItemId])
+          .map((o) => ({ ...o, valueItemId: idMap.valueItems[o.valueItemId]! })),
+      }),
+    }));
+    await runStep(ctx.runMutation(api.calculations.updateScenarios, { id: calculationId, scenarios }), "Invalid scenarios");
+    if (calculation.activeScenarioId) {
+      await ctx.runMutation(api.calculations.setActiveScenario, {
+        id: calculationId,
+        activeScenarioId: calculation.activeScenarioId,
+      });
+    }
+  }
+}
+
+const inputValidator = v.object({
+  value: v.number(),
+  confidence: v.optional(v.string()),
+  source: v.optional(v.string()),
+});
+
+export const importCalculation = action({
+  args: {
+    payload: v.object({
+      name: v.string(),
+      companyId: v.optional(v.string()),
+      companyShortId: v.optional(v.string()),
+      role: v.optional(v.string()),
+      proposedSpend: v.optional(v.number()),
+      valueItems: v.optional(
+        v.array(
+          v.object({
+            archetype: v.string(),
+            name: v.string(),
+            description: v.optional(v.string()),
+            inputs: v.optional(v.record(v.string(), inputValidator)),
+            manualAnnualValue: v.optional(v.number()),
+          })
+        )
+      ),
+      useCases: v.optional(
+        v.array(
+          v.object({
+            name: v.string(),
+            department: v.optional(v.string()),
+            status: v.optional(v.string()),
+            implementationEffort: v.optional(v.string()),
+            description: v.optional(v.string()),
+            valueItemNames: v.optional(v.array(v.string())),
+          })
+        )
+      ),
+    }),
+  },
+  handler: async (ctx, { payload }) => {
+    const { shortId } = await createCalculationFromPayload(ctx, payload);
+    return { shortId };
+  },
+});
@@ -1,5 +1,14 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation } from "./functions";
+import { trackChanges } from "./changeLog";
+import {
+  listReadableCalculations,
+  readableCalculation,
+  requireCalculationRole,
+  requireCompanyRole,
+  requireViewer,
+} from "./access";
+import { calculationEventData, emitWebhookEvent } from "./webhooks";
 
 function generateShortId(): string {
   const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
@@ -14,29 +23,61 @@ const DEFAULT_ASSUMPTIONS = {
   projectionYears: 3,
   realizationRamp: [0.5, 1, 1],
   annualGrowthRate: 0.1,
+  discountRate: 0.1,
+  fteHoursPerMonth: 160,
 };
 
+const assumptionsValidator = v.object({
+  projectionYears: v.number(),
+  realizationRamp: v.array(v.number()),
+  annualGrowthRate: v.number(),
+  discountRate: v.optional(v.number()),
+  fteHoursPerMonth: v.optional(v.number()),
+});
+
+const scenarioIdValidator = v.union(
+  v.literal("conservative"),
+  v.literal("expected"),
+  v.literal("aggressive")
+);
+
+const scenarioValidator = v.object({
+  id: scenarioIdValidator,
+  name: v.string(),
+  assumptions: assumptionsValidator,
+  itemOverrides: v.optional(
+    v.array(
+      v.object({
+        valueItemId: v.string(),
+        inputs: v.any(),
+      })
+    )
+  ),
+});
+
+/** Calculators the signed-in user can see, newest first */
 export const list = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("calculations").order("desc").collect();
+    return await listReadableCalculations(ctx);
   },
 });
 
 export const get = query({
   args: { id: v.id("calculations") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await readableCalculation(ctx, await ctx.db.get(args.id));
   },
 });
 
 export const getByShortId = query({
   args: { shortId: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const calculation = await ctx.db
       .query("calculations")
       .withIndex("by_shortId", (q) => q.eq("shortId", args.shortId))
       .unique();
+    return await readableCalculation(ctx, calculation);
   },
 });
 
@@ -48,16 +89,15 @@ export const create = mutation({
     benchmarkPackId: v.optional(v.string()),
     currentSpend: v.optional(v.number()),
     proposedSpend: v.optional(v.number()),
+    implementationCost: v.optional(v.number()),
     companyId: v.optional(v.id("companies")),
-    assumptions: v.optional(
-      v.object({
-        projectionYears: v.number(),
-        realizationRamp: v.array(v.number()),
-        annualGrowthRate: v.number(),
-      })
-    ),
+    assumptions: v.optional(assumptionsValidator),
   },
   handler: async (ctx, args) => {
+    const viewer = await requireViewer(ctx);
+    // API keys belong to one company; what they create goes there
+    const companyId = args.companyId ?? viewer.apiKey?.companyId;
+    if (companyId) await requireCompanyRole(ctx, companyId, "editor");
     const now = Date.now();
 
     let shortId = generateShortId();
@@ -73,9 +113,10 @@ export const create = mutation({
         .unique();
     }
 
-    const id = await ctx.db.insert("calculations", {
+    const id = await trackChanges(ctx, "calculations.create").insert("calculations", {
       name: args.name,
       shortId,
+      createdBy: viewer.email,
       createdAt: now,
       updatedAt: now,
       assumptions: args.assumptions ?? DEFAULT_ASSUMPTIONS,
@@ -84,7 +125,8 @@ export const create = mutation({
       benchmarkPackId: args.benchmarkPackId,
       currentSpend: args.currentSpend,
       proposedSpend: args.proposedSpend,
-      companyId: args.companyId,
+      implementationCost: args.implementationCost,
+      companyId,
       talkingPoints: [
         "Automation delivers measurable value across 5 dimensions",
         "ROI projections use conservative realization estimates",
@@ -92,6 +134,14 @@ export const create = mutation({
       ],
     });
 
+    const calculation = await ctx.db.get(id);
+    if (calculation) {
+      await emitWebhookEvent(ctx, companyId, "calculation.created", {
+        calculation: await calculationEventData(ctx, calculation),
+        createdBy: viewer.email,
+      });
+    }
+
     return { id, shortId };
   },
 });
@@ -99,22 +149,74 @@ export const create = mutation({
 export const updateName = mutation({
   args: { id: v.id("calculations"), name: v.string() },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, { name: args.name, updatedAt: Date.now() });
+    await requireCalculationRole(ctx, args.id, "editor");
+    await trackChanges(ctx, "calculations.updateName").patch("calculations", args.id, {
+      name: args.name,
+      updatedAt: Date.now(),
+    });
   },
 });
 
 export const updateAssumptions = mutation({
   args: {
     id: v.id("calculations"),
-    assumptions: v.object({
-      projectionYears: v.number(),
-      realizationRamp: v.array(v.number()),
-      annualGrowthRate: v.number(),
-    }),
+    assumptions: assumptionsValidator,
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
+    const { calculation } = await requireCalculationRole(ctx, args.id, "editor");
+
+    // Base assumptions are the "expected" scenario — keep them in step
+    const scenarios = calculation.scenarios?.map((s) =>
+      s.id === "expected" ? { ...s, assumptions: args.assumptions } : s
+    );
+
+    await trackChanges(ctx, "calculations.updateAssumptions").patch("calculations", args.id, {
       assumptions: args.assumptions,
+      ...(scenarios && { scenarios }),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const updateScenarios = mutation({
+  args: {
+    id: v.id("calculations"),
+    scenarios: v.array(scenarioValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.id, "editor");
+    for (const scenario of args.scenarios) {
+      for (const override of scenario.itemOverrides ?? []) {
+        const inputs = override.inputs as Record<string, unknown>;
+        if (typeof inputs !== "object" || inputs === null) {
+          throw new Error(`Invalid overrides for value item ${override.valueItemId}`);
+        }
+        for (const [key, value] of Object.entries(inputs)) {
+          if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new Error(`Override "${key}" must be a number`);
+          }
+        }
+      }
+    }
+
+    const expected = args.scenarios.find((s) => s.id === "expected");
+    await trackChanges(ctx, "calculations.updateScenarios").patch("calculations", args.id, {
+      scenarios: args.scenarios,
+      ...(expected && { assumptions: expected.assumptions }),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const setActiveScenario = mutation({
+  args: {
+    id: v.id("calculations"),
+    activeScenarioId: v.optional(scenarioIdValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.id, "editor");
+    await trackChanges(ctx, "calculations.setActiveScenario").patch("calculations", args.id, {
+      activeScenarioId: args.activeScenarioId,
       updatedAt: Date.now(),
     });
   },
@@ -125,10 +227,15 @@ export const updateInvestment = mutation({
     id: v.id("calculations"),
     currentSpend: v.optional(v.number()),
     proposedSpend: v.optional(v.number()),
+    implementationCost: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const { id, ...updates } = args;
-    await ctx.db.patch(id, { ...updates, updatedAt: Date.now() });
+    await requireCalculationRole(ctx, id, "editor");
+    await trackChanges(ctx, "calculations.updateInvestment").patch("calculations", id, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
   },
 });
 
@@ -138,7 +245,8 @@ export const updateTalkingPoints = mutation({
     talkingPoints: v.array(v.string()),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
+    await requireCalculationRole(ctx, args.id, "editor");
+    await trackChanges(ctx, "calculations.updateTalkingPoints").patch("calculations", args.id, {
       talkingPoints: args.talkingPoints,
       updatedAt: Date.now(),
     });
@@ -155,7 +263,8 @@ export const updateObfuscation = mutation({
     }),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
+    await requireCalculationRole(ctx, args.id, "editor");
+    await trackChanges(ctx, "calculations.updateObfuscation").patch("calculations", args.id, {
       obfuscation: args.obfuscation,
       updatedAt: Date.now(),
     });
@@ -169,7 +278,8 @@ export const updateRole = mutation({
     priorityOrder: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
+    await requireCalculationRole(ctx, args.id, "editor");
+    await trackChanges(ctx, "calculations.updateRole").patch("calculations", args.id, {
       role: args.role,
       priorityOrder: args.priorityOrder,
       updatedAt: Date.now(),
@@ -180,8 +290,12 @@ export const updateRole = mutation({
 export const listByCompany = query({
   args: { companyId: v.id("companies") },
   handler: async (ctx, { companyId }) => {
-    const all = await ctx.db.query("calculations").order("desc").collect();
-    return all.filter((c) => c.companyId === companyId);
+    await requireCompanyRole(ctx, companyId, "viewer");
+    return await ctx.db
+      .query("calculations")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .collect();
   },
 });
 
@@ -191,7 +305,12 @@ export const updateCompanyId = mutation({
     companyId: v.optional(v.id("companies")),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
+    // Moving a calculator changes who can see it: it needs editor rights on both sides
+    await requireCalculationRole(ctx, args.id, "editor");
+    if (args.companyId) await requireCompanyRole(ctx, args.companyId, "editor");
+
+    const tracked = trackChanges(ctx, "calculations.updateCompanyId");
+    await tracked.patch("calculations", args.id, {
       companyId: args.companyId,
       updatedAt: Date.now(),
     });
@@ -203,7 +322,7 @@ export const updateCompanyId = mutation({
       .collect();
     for (const uc of useCases) {
       if (uc.companyId !== args.companyId) {
-        await ctx.db.patch(uc._id, { companyId: args.companyId });
+        await tracked.patch("useCases", uc._id, { companyId: args.companyId });
       }
     }
   },
@@ -212,13 +331,16 @@ export const updateCompanyId = mutation({
 export const remove = mutation({
   args: { id: v.id("calculations") },
   handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.id, "editor");
+    const tracked = trackChanges(ctx, "calculations.remove");
+
     // Delete all value items
     const valueItems = await ctx.db
       .query("valueItems")
       .withIndex("by_calculationId", (q) => q.eq("calculationId", args.id))
       .collect();
     for (const item of valueItems) {
-      await ctx.db.delete(item._id);
+      await tracked.delete("valueItems", item._id);
     }
 
     // Delete all use cases
@@ -227,7 +349,7 @@ export const remove = mutation({
       .withIndex("by_calculationId", (q) => q.eq("calculationId", args.id))
       .collect();
     for (const uc of useCases) {
-      await ctx.db.delete(uc._id);
+      await tracked.delete("useCases", uc._id);
     }
 
     // Delete all zap run cache entries
@@ -239,6 +361,37 @@ export const remove = mutation({
       await ctx.db.delete(cache._id);
     }
 
-    await ctx.db.delete(args.id);
+    // ...and their daily history and sync log
+    const zapRunDays = await ctx.db
+      .query("zapRunDays")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.id))
+      .collect();
+    for (const day of zapRunDays) {
+      await ctx.db.delete(day._id);
+    }
+    const zapSyncRuns = await ctx.db
+      .query("zapSyncRuns")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.id))
+      .collect();
+    for (const run of zapSyncRuns) {
+      await ctx.db.delete(run._id);
+    }
+
+    // Live share links stop working with the calculator; snapshot links keep their frozen copy
+    const shareLinks = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.id))
+      .collect();
+    for (const link of shareLinks) {
+      if (!link.snapshotId) await ctx.db.delete(link._id);
+    }
+
+    const crmLink = await ctx.db
+      .query("crmLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.id))
+      .unique();
+    if (crmLink) await ctx.db.delete(crmLink._id);
+
+    await tracked.delete("calculations", args.id);
   },
 });
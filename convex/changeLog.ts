@@ -0,0 +1,192 @@
+import { v } from "convex/values";
+import type { WithoutSystemFields } from "convex/server";
+import { query, mutation } from "./functions";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getViewer, requireCalculationRole } from "./access";
+import {
+  diffFields,
+  getChangeAction,
+  getStateAt,
+  planRestore,
+  type ChangeEntity,
+  type ChangeLogEntry,
+  type HistoryState,
+} from "../src/utils/history";
+
+type TrackedTable = "calculations" | "valueItems" | "useCases";
+
+const ENTITY: Record<TrackedTable, ChangeEntity> = {
+  calculations: "calculation",
+  valueItems: "valueItem",
+  useCases: "useCase",
+};
+
+/** Who is making the change, for the log */
+export async function getActor(ctx: MutationCtx): Promise<string> {
+  return (await getViewer(ctx))?.email ?? "anonymous";
+}
+
+/**
+ * Writes to calculations, value items and use cases that also append to the
+ * change log. Every mutation on those tables goes through one of these, named
+ * after itself, so history can explain and undo each change.
+ */
+export function trackChanges(ctx: MutationCtx, operation: string) {
+  const at = Date.now();
+  let actor: string | undefined;
+
+  async function log<T extends TrackedTable>(table: T, id: Id<T>, before: Doc<T> | null, after: Doc<T> | null) {
+    const changes = diffFields(before, after);
+    const doc = after ?? before;
+    if (changes.length === 0 || !doc) return;
+    actor ??= await getActor(ctx);
+    await ctx.db.insert("changeLog", {
+      calculationId: (table === "calculations" ? id : (doc as Record<string, unknown>).calculationId) as Id<"calculations">,
+      entity: ENTITY[table],
+      entityId: id,
+      action: getChangeAction(before, after),
+      changes,
+      operation,
+      actor,
+      at,
+    });
+  }
+
+  return {
+    async insert<T extends TrackedTable>(table: T, value: WithoutSystemFields<Doc<T>>): Promise<Id<T>> {
+      const id = (await ctx.db.insert(table, value as any)) as Id<T>;
+      await log(table, id, null, (await ctx.db.get(id)) as Doc<T> | null);
+      return id;
+    },
+    async patch<T extends TrackedTable>(table: T, id: Id<T>, value: Partial<Doc<T>>) {
+      const before = (await ctx.db.get(id)) as Doc<T> | null;
+      await ctx.db.patch(id, value as any);
+      await log(table, id, before, (await ctx.db.get(id)) as Doc<T> | null);
+    },
+    async delete<T extends TrackedTable>(table: T, id: Id<T>) {
+      const before = (await ctx.db.get(id)) as Doc<T> | null;
+      await ctx.db.delete(id);
+      await log(table, id, before, null);
+    },
+  };
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+/**
+ * Latest changes to a calculator, newest first. Includes edits to shared
+ * use cases it references that were made from their own calculator.
+ */
+export const listByCalculation = query({
+  args: { calculationId: v.id("calculations"), limit: v.optional(v.number()) },
+  handler: async (ctx, { calculationId, limit = 500 }) => {
+    const { calculation } = await requireCalculationRole(ctx, calculationId, "viewer");
+
+    const entries = await ctx.db
+      .query("changeLog")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .order("desc")
+      .take(limit);
+
+    for (const useCaseId of calculation.useCaseIds ?? []) {
+      const useCase = await ctx.db.get(useCaseId);
+      if (!useCase || useCase.calculationId === calculationId) continue;
+      entries.push(
+        ...(await ctx.db
+          .query("changeLog")
+          .withIndex("by_entityId", (q) => q.eq("entityId", useCaseId))
+          .collect())
+      );
+    }
+
+    return entries.sort((a, b) => b.at - a.at || b._creationTime - a._creationTime).slice(0, limit);
+  },
+});
+
+// ============================================================
+// Restore
+// ============================================================
+
+/**
+ * Put a calculator back the way it was at `at`. The restore is itself a logged
+ * change, so it can be undone the same way. Deleted value items and use cases
+ * come back with new ids.
+ */
+export const restore = mutation({
+  args: { calculationId: v.id("calculations"), at: v.number() },
+  handler: async (ctx, { calculationId, at }) => {
+    const { calculation } = await requireCalculationRole(ctx, calculationId, "editor");
+
+    const current: HistoryState = {
+      calculation,
+      valueItems: await ctx.db
+        .query("valueItems")
+        .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+        .collect(),
+      useCases: await ctx.db
+        .query("useCases")
+        .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+        .collect(),
+    };
+    const entries = await ctx.db
+      .query("changeLog")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId).gt("at", at))
+      .collect();
+    if (entries.length === 0) return { changed: 0 };
+
+    const plan = planRestore(current, getStateAt(current, entries as unknown as ChangeLogEntry[], at));
+
+    const tracked = trackChanges(ctx, "changeLog.restore");
+    const now = Date.now();
+    const newIds = new Map<string, string>();
+    const remap = (id: unknown) => (typeof id === "string" ? (newIds.get(id) ?? id) : id);
+
+    // Recreate deleted use cases first so value items can link to them
+    for (const { _id, _creationTime, ...doc } of plan.useCases.create) {
+      const id = await tracked.insert("useCases", { ...doc, updatedAt: now } as WithoutSystemFields<Doc<"useCases">>);
+      newIds.set(_id, id);
+    }
+    for (const { _id, _creationTime, ...doc } of plan.valueItems.create) {
+      const id = await tracked.insert("valueItems", {
+        ...doc,
+        useCaseId: remap(doc.useCaseId),
+      } as WithoutSystemFields<Doc<"valueItems">>);
+      newIds.set(_id, id);
+    }
+    for (const { id, fields } of plan.useCases.update) {
+      await tracked.patch("useCases", id as Id<"useCases">, { ...fields, updatedAt: now });
+    }
+    for (const { id, fields } of plan.valueItems.update) {
+      await tracked.patch("valueItems", id as Id<"valueItems">, {
+        ...fields,
+        ...("useCaseId" in fields && { useCaseId: remap(fields.useCaseId) }),
+      } as Partial<Doc<"valueItems">>);
+    }
+    for (const id of plan.valueItems.delete) await tracked.delete("valueItems", id as Id<"valueItems">);
+    for (const id of plan.useCases.delete) await tracked.delete("useCases", id as Id<"useCases">);
+
+    // References to recreated documents point at their new ids
+    const fields: Record<string, unknown> = { ...plan.calculation };
+    if (newIds.size > 0) {
+      const target = { ...calculation, ...plan.calculation };
+      fields.useCaseIds = (target.useCaseIds as string[] | undefined)?.map(remap);
+      fields.scenarios = (target.scenarios as Doc<"calculations">["scenarios"])?.map((s) => ({
+        ...s,
+        ...(s.itemOverrides && {
+          itemOverrides: s.itemOverrides.map((o) => ({ ...o, valueItemId: remap(o.valueItemId) as string })),
+        }),
+      }));
+    }
+    await tracked.patch("calculations", calculationId, { ...fields, updatedAt: now } as Partial<Doc<"calculations">>);
+
+    return {
+      changed:
+        Object.keys(plan.calculation).length +
+        plan.valueItems.create.length + plan.valueItems.update.length + plan.valueItems.delete.length +
+        plan.useCases.create.length + plan.useCases.update.length + plan.useCases.delete.length,
+    };
+  },
+});
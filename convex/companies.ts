@@ -1,5 +1,6 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation } from "./functions";
+import { listMemberCompanyIds, readableCompany, requireCompanyRole, requireUser, requireViewer } from "./access";
 
 function generateShortId(): string {
   const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
@@ -10,27 +11,31 @@ function generateShortId(): string {
   return result;
 }
 
+/** Companies the signed-in user is a member of */
 export const list = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("companies").collect();
+    const viewer = await requireViewer(ctx);
+    const companies = await Promise.all((await listMemberCompanyIds(ctx, viewer)).map((id) => ctx.db.get(id)));
+    return companies.filter((c): c is NonNullable<typeof c> => c !== null);
   },
 });
 
 export const getById = query({
   args: { id: v.id("companies") },
   handler: async (ctx, { id }) => {
-    return await ctx.db.get(id);
+    return await readableCompany(ctx, await ctx.db.get(id));
   },
 });
 
 export const getByShortId = query({
   args: { shortId: v.string() },
   handler: async (ctx, { shortId }) => {
-    return await ctx.db
+    const company = await ctx.db
       .query("companies")
       .withIndex("by_shortId", (q) => q.eq("shortId", shortId))
       .unique();
+    return await readableCompany(ctx, company);
   },
 });
 
@@ -41,6 +46,8 @@ export const create = mutation({
     employeeCount: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const viewer = await requireUser(ctx);
+
     let shortId = generateShortId();
     let existing = await ctx.db
       .query("companies")
@@ -63,6 +70,15 @@ export const create = mutation({
       createdAt: now,
       updatedAt: now,
     });
+
+    // The creator owns the company
+    await ctx.db.insert("memberships", {
+      companyId: id,
+      email: viewer.email,
+      role: "owner",
+      addedBy: viewer.email,
+      createdAt: now,
+    });
     return { id, shortId };
   },
 });
@@ -75,6 +91,7 @@ export const update = mutation({
     employeeCount: v.optional(v.number()),
   },
   handler: async (ctx, { id, ...updates }) => {
+    await requireCompanyRole(ctx, id, "editor");
     const filtered = Object.fromEntries(
       Object.entries(updates).filter(([, v]) => v !== undefined)
     );
@@ -82,16 +99,57 @@ export const update = mutation({
   },
 });
 
+export const updateDepartmentHeadcounts = mutation({
+  args: {
+    id: v.id("companies"),
+    departmentHeadcounts: v.array(v.object({ department: v.string(), headcount: v.number() })),
+  },
+  handler: async (ctx, { id, departmentHeadcounts }) => {
+    await requireCompanyRole(ctx, id, "editor");
+    const seen = new Set<string>();
+    for (const entry of departmentHeadcounts) {
+      const key = entry.department.trim().toLowerCase();
+      if (!key) throw new Error("Department name is required");
+      if (seen.has(key)) throw new Error(`Duplicate department "${entry.department}"`);
+      if (!Number.isFinite(entry.headcount) || entry.headcount < 0) {
+        throw new Error(`Invalid headcount for "${entry.department}". Must be 0 or more`);
+      }
+      seen.add(key);
+    }
+    await ctx.db.patch(id, {
+      departmentHeadcounts: departmentHeadcounts.map((e) => ({ ...e, department: e.department.trim() })),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
 export const remove = mutation({
   args: { id: v.id("companies") },
   handler: async (ctx, { id }) => {
+    await requireCompanyRole(ctx, id, "owner");
+
     // Unlink all calculations from this company
-    const calculations = await ctx.db.query("calculations").collect();
+    const calculations = await ctx.db
+      .query("calculations")
+      .withIndex("by_companyId", (q) => q.eq("companyId", id))
+      .collect();
     for (const calc of calculations) {
-      if (calc.companyId === id) {
-        await ctx.db.patch(calc._id, { companyId: undefined });
-      }
+      await ctx.db.patch(calc._id, { companyId: undefined });
     }
+
+    const memberships = await ctx.db
+      .query("memberships")
+      .withIndex("by_companyId", (q) => q.eq("companyId", id))
+      .collect();
+    for (const membership of memberships) {
+      await ctx.db.delete(membership._id);
+    }
+
+    const crmConfig = await ctx.db
+      .query("crmConfigs")
+      .withIndex("by_companyId", (q) => q.eq("companyId", id))
+      .unique();
+    if (crmConfig) await ctx.db.delete(crmConfig._id);
     await ctx.db.delete(id);
   },
 });
@@ -0,0 +1,272 @@
+// ============================================================
+// CRM opportunity sync
+//
+// A company owner picks the CRM and maps calculator metrics to
+// opportunity fields. Editors link a calculator to an opportunity
+// and sync it: metrics are pushed to the opportunity, and the
+// account's industry and employee count are pulled into the
+// company.
+//
+// Env vars required: SALESFORCE_INSTANCE_URL and
+// SALESFORCE_ACCESS_TOKEN, or HUBSPOT_ACCESS_TOKEN
+// ============================================================
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { query, mutation, action } from "./functions";
+import { requireCalculationRole, requireCompanyRole, requireUser } from "./access";
+import { listCalculatorItems } from "./valueItems";
+import { listCalculatorUseCases } from "./useCases";
+import { computeSummary } from "../src/utils/fullCalculation";
+import {
+  buildCrmMetrics,
+  createHubSpotAdapter,
+  createSalesforceAdapter,
+  syncOpportunity,
+  type CrmAdapter,
+  type CrmProvider,
+  type CrmSyncResult,
+} from "../src/utils/crm";
+import type { UseCase, ValueItem } from "../src/types/roi";
+
+const providerValidator = v.union(v.literal("salesforce"), v.literal("hubspot"));
+
+const opportunityFieldsValidator = v.object({
+  annualValue: v.optional(v.string()),
+  roiMultiple: v.optional(v.string()),
+  npv: v.optional(v.string()),
+  topDimension: v.optional(v.string()),
+});
+
+const accountFieldsValidator = v.object({
+  industry: v.optional(v.string()),
+  employeeCount: v.optional(v.string()),
+});
+
+// Salesforce API names and HubSpot internal property names
+const FIELD_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Trim the field names, drop blanks and reject anything that isn't an API name */
+function cleanFields<T extends Record<string, string | undefined>>(fields: T): T {
+  const cleaned: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const name = value?.trim();
+    if (!name) continue;
+    if (!FIELD_NAME.test(name)) throw new Error(`"${name}" isn't a valid CRM field name`);
+    cleaned[key] = name;
+  }
+  return cleaned as T;
+}
+
+async function getConfigForCompany(ctx: Pick<QueryCtx, "db">, companyId: Id<"companies">) {
+  return await ctx.db
+    .query("crmConfigs")
+    .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+    .unique();
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+/** The company's CRM mapping, or null when it has none. Members can see it; owners change it. */
+export const getConfig = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    await requireCompanyRole(ctx, companyId, "viewer");
+    return await getConfigForCompany(ctx, companyId);
+  },
+});
+
+/** A calculator's opportunity link and its company's CRM, for the sync card */
+export const getLink = query({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    const { calculation } = await requireCalculationRole(ctx, calculationId, "viewer");
+    const config = calculation.companyId ? await getConfigForCompany(ctx, calculation.companyId) : null;
+    const link = await ctx.db
+      .query("crmLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .unique();
+    return { provider: config?.provider ?? null, link };
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+export const saveConfig = mutation({
+  args: {
+    companyId: v.id("companies"),
+    provider: providerValidator,
+    opportunityFields: opportunityFieldsValidator,
+    accountFields: accountFieldsValidator,
+  },
+  handler: async (ctx, { companyId, provider, ...fields }) => {
+    const viewer = await requireUser(ctx);
+    await requireCompanyRole(ctx, companyId, "owner");
+    const opportunityFields = cleanFields(fields.opportunityFields);
+    const accountFields = cleanFields(fields.accountFields);
+    if (Object.keys(opportunityFields).length === 0 && Object.keys(accountFields).length === 0) {
+      throw new Error("Map at least one opportunity or account field");
+    }
+
+    const config = { provider, opportunityFields, accountFields, updatedBy: viewer.email, updatedAt: Date.now() };
+    const existing = await getConfigForCompany(ctx, companyId);
+    if (existing) {
+      await ctx.db.replace(existing._id, { companyId, ...config });
+      return existing._id;
+    }
+    return await ctx.db.insert("crmConfigs", { companyId, ...config });
+  },
+});
+
+export const removeConfig = mutation({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    await requireUser(ctx);
+    await requireCompanyRole(ctx, companyId, "owner");
+    const existing = await getConfigForCompany(ctx, companyId);
+    if (existing) await ctx.db.delete(existing._id);
+  },
+});
+
+/** Link the calculator to an opportunity, or pass null to unlink it */
+export const linkOpportunity = mutation({
+  args: { calculationId: v.id("calculations"), opportunityId: v.union(v.string(), v.null()) },
+  handler: async (ctx, { calculationId, opportunityId }) => {
+    await requireCalculationRole(ctx, calculationId, "editor");
+    const existing = await ctx.db
+      .query("crmLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .unique();
+
+    const id = opportunityId?.trim();
+    if (!id) {
+      if (existing) await ctx.db.delete(existing._id);
+      return;
+    }
+    if (existing) {
+      if (existing.opportunityId !== id) {
+        // A different opportunity starts without the previous one's sync history
+        await ctx.db.replace(existing._id, { calculationId, opportunityId: id, createdAt: existing.createdAt });
+      }
+      return;
+    }
+    await ctx.db.insert("crmLinks", { calculationId, opportunityId: id, createdAt: Date.now() });
+  },
+});
+
+// ============================================================
+// Sync — an action, since it calls out to the CRM
+// ============================================================
+
+/** Everything a sync needs, checked for editor access */
+export const getSyncTarget = internalQuery({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    const { viewer, calculation } = await requireCalculationRole(ctx, calculationId, "editor");
+    if (!calculation.companyId) throw new Error("Link the calculator to a company to sync it with a CRM");
+    const config = await getConfigForCompany(ctx, calculation.companyId);
+    if (!config) throw new Error("This company has no CRM set up. An owner can set one up on the company page.");
+    const link = await ctx.db
+      .query("crmLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .unique();
+    if (!link) throw new Error("Link the calculator to an opportunity first");
+
+    const valueItems = await listCalculatorItems(ctx, calculationId);
+    const useCases = await listCalculatorUseCases(ctx, calculationId);
+    const summary = computeSummary(
+      valueItems as unknown as ValueItem[],
+      calculation.assumptions,
+      calculation.proposedSpend,
+      calculation.implementationCost,
+      useCases as unknown as UseCase[]
+    );
+    return {
+      email: viewer.email,
+      linkId: link._id,
+      opportunityId: link.opportunityId,
+      config,
+      metrics: buildCrmMetrics(summary, calculation.proposedSpend),
+    };
+  },
+});
+
+export const recordSync = internalMutation({
+  args: {
+    linkId: v.id("crmLinks"),
+    companyId: v.optional(v.id("companies")),
+    email: v.string(),
+    pushed: v.optional(v.record(v.string(), v.union(v.string(), v.number()))),
+    industry: v.optional(v.string()),
+    employeeCount: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, { linkId, companyId, email, pushed, industry, employeeCount, error }) => {
+    const link = await ctx.db.get(linkId);
+    if (!link) return;
+    const now = Date.now();
+    if (error) {
+      await ctx.db.patch(linkId, { lastError: error });
+      return;
+    }
+    await ctx.db.patch(linkId, { lastSyncedAt: now, lastSyncedBy: email, lastPushed: pushed, lastError: undefined });
+
+    if (companyId && (industry !== undefined || employeeCount !== undefined)) {
+      const profile = Object.fromEntries(
+        Object.entries({ industry, employeeCount }).filter(([, value]) => value !== undefined)
+      );
+      await ctx.db.patch(companyId, { ...profile, updatedAt: now });
+    }
+  },
+});
+
+function createCrmAdapter(provider: CrmProvider): CrmAdapter {
+  if (provider === "salesforce") {
+    const instanceUrl = process.env.SALESFORCE_INSTANCE_URL;
+    const token = process.env.SALESFORCE_ACCESS_TOKEN;
+    if (!instanceUrl || !token) {
+      throw new Error("SALESFORCE_INSTANCE_URL and SALESFORCE_ACCESS_TOKEN environment variables are not set");
+    }
+    return createSalesforceAdapter(instanceUrl, token);
+  }
+  const token = process.env.HUBSPOT_ACCESS_TOKEN;
+  if (!token) throw new Error("HUBSPOT_ACCESS_TOKEN environment variable is not set");
+  return createHubSpotAdapter(token);
+}
+
+/**
+ * Push the calculator's metrics to its linked opportunity and pull the
+ * account's industry and employee count into the company. A failure is
+ * recorded on the link and rethrown.
+ */
+export const syncCalculation = action({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }): Promise<CrmSyncResult> => {
+    const target = await ctx.runQuery(internal.crm.getSyncTarget, { calculationId });
+    const { config } = target;
+
+    let result: CrmSyncResult;
+    try {
+      result = await syncOpportunity(createCrmAdapter(config.provider), config, target.opportunityId, target.metrics);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      await ctx.runMutation(internal.crm.recordSync, { linkId: target.linkId, email: target.email, error });
+      throw e;
+    }
+
+    await ctx.runMutation(internal.crm.recordSync, {
+      linkId: target.linkId,
+      email: target.email,
+      pushed: result.pushed,
+      ...(result.account ? { companyId: config.companyId, ...result.account } : {}),
+    });
+    return result;
+  },
+});
@@ -0,0 +1,10 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Keeps realization numbers fresh without anyone pressing refresh. Each
+// calculator is synced hourly at most, later while it's backing off.
+crons.interval("sync Zap run data", { minutes: 15 }, internal.zapActions.syncScheduledZapData);
+
+export default crons;
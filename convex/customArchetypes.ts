@@ -0,0 +1,172 @@
+import { v } from "convex/values";
+import { query, mutation } from "./functions";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { customArchetypeDefinition } from "./schema";
+import { trackChanges } from "./changeLog";
+import { requireCompanyRole } from "./access";
+import {
+  isCustomArchetype,
+  toCustomArchetypeKey,
+  validateCustomArchetype,
+} from "../src/utils/customArchetypes";
+import { ARCHETYPE_DIMENSION, type Archetype, type CustomArchetypeDefinition } from "../src/types/roi";
+
+const { key: _key, ...definitionArgs } = customArchetypeDefinition;
+
+/** The definition copied onto value items (no ids or timestamps) */
+export function toDefinition(doc: Doc<"customArchetypes">) {
+  return {
+    key: doc.key,
+    label: doc.label,
+    ...(doc.description !== undefined && { description: doc.description }),
+    dimension: doc.dimension,
+    fields: doc.fields,
+    formula: doc.formula,
+    ...(doc.traceTemplate !== undefined && { traceTemplate: doc.traceTemplate }),
+  };
+}
+
+function assertValid(def: Omit<Doc<"customArchetypes">, "_id" | "_creationTime" | "companyId" | "createdAt" | "updatedAt">) {
+  const errors = validateCustomArchetype(def as unknown as CustomArchetypeDefinition);
+  if (errors.length > 0) throw new Error(`Invalid custom archetype: ${errors.join("; ")}`);
+}
+
+async function listForCompany(ctx: MutationCtx, companyId: Id<"companies">) {
+  return await ctx.db
+    .query("customArchetypes")
+    .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+    .collect();
+}
+
+/** Value items across the company's calculators that use a custom archetype */
+async function findValueItems(ctx: MutationCtx, companyId: Id<"companies">, key: string) {
+  const calculations = await ctx.db
+    .query("calculations")
+    .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+    .collect();
+  const items: Doc<"valueItems">[] = [];
+  for (const calc of calculations) {
+    const calcItems = await ctx.db
+      .query("valueItems")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calc._id))
+      .collect();
+    items.push(...calcItems.filter((item) => item.archetype === key));
+  }
+  return items;
+}
+
+/**
+ * Resolve the dimension (and custom definition) for an archetype on a calculation.
+ * Custom keys must exist on the calculation's company.
+ */
+export async function resolveArchetype(
+  ctx: MutationCtx,
+  calculationId: Id<"calculations">,
+  archetype: string
+): Promise<{ dimension: string; customArchetype?: ReturnType<typeof toDefinition> }> {
+  const dimension = ARCHETYPE_DIMENSION[archetype as Archetype] as string | undefined;
+  if (dimension) return { dimension };
+
+  if (isCustomArchetype(archetype)) {
+    const calculation = await ctx.db.get(calculationId);
+    if (!calculation?.companyId) {
+      throw new Error(`Custom archetype "${archetype}" requires the calculator to be linked to a company`);
+    }
+    const custom = (await listForCompany(ctx, calculation.companyId)).find((a) => a.key === archetype);
+    if (!custom) throw new Error(`Custom archetype "${archetype}" not found for this company`);
+    return { dimension: custom.dimension, customArchetype: toDefinition(custom) };
+  }
+
+  throw new Error(
+    `Invalid archetype "${archetype}". Valid archetypes: ${Object.keys(ARCHETYPE_DIMENSION).join(", ")}, or a company custom archetype key`
+  );
+}
+
+export const listByCompany = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    await requireCompanyRole(ctx, companyId, "viewer");
+    return await ctx.db
+      .query("customArchetypes")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+      .collect();
+  },
+});
+
+export const create = mutation({
+  args: {
+    companyId: v.id("companies"),
+    ...definitionArgs,
+  },
+  handler: async (ctx, { companyId, ...def }) => {
+    await requireCompanyRole(ctx, companyId, "editor");
+    assertValid({ ...def, key: "" });
+
+    // Keys come from the label and stay fixed after creation
+    const taken = new Set((await listForCompany(ctx, companyId)).map((a) => a.key));
+    const baseKey = toCustomArchetypeKey(def.label);
+    let key: string = baseKey;
+    for (let n = 2; taken.has(key); n++) key = `${baseKey}_${n}`;
+
+    const now = Date.now();
+    const id = await ctx.db.insert("customArchetypes", {
+      companyId,
+      key,
+      ...def,
+      label: def.label.trim(),
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { id, key };
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("customArchetypes"),
+    label: v.optional(v.string()),
+    description: v.optional(v.string()),
+    dimension: v.optional(v.string()),
+    fields: v.optional(definitionArgs.fields),
+    formula: v.optional(v.string()),
+    traceTemplate: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, ...updates }) => {
+    const existing = await ctx.db.get(id);
+    if (!existing) throw new Error("Custom archetype not found");
+    await requireCompanyRole(ctx, existing.companyId, "editor");
+
+    const filtered = Object.fromEntries(
+      Object.entries(updates).filter(([, v]) => v !== undefined)
+    ) as Partial<typeof updates>;
+    const next = { ...existing, ...filtered, ...(filtered.label !== undefined && { label: filtered.label.trim() }) };
+    assertValid(next);
+
+    await ctx.db.patch(id, { ...filtered, label: next.label, updatedAt: Date.now() });
+
+    // Keep value items using this archetype in sync
+    const definition = toDefinition({ ...existing, ...next });
+    const tracked = trackChanges(ctx, "customArchetypes.update");
+    for (const item of await findValueItems(ctx, existing.companyId, existing.key)) {
+      await tracked.patch("valueItems", item._id, { dimension: definition.dimension, customArchetype: definition });
+    }
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("customArchetypes") },
+  handler: async (ctx, { id }) => {
+    const existing = await ctx.db.get(id);
+    if (!existing) throw new Error("Custom archetype not found");
+    await requireCompanyRole(ctx, existing.companyId, "editor");
+
+    const inUse = await findValueItems(ctx, existing.companyId, existing.key);
+    if (inUse.length > 0) {
+      throw new Error(
+        `"${existing.label}" is used by ${inUse.length} value item${inUse.length !== 1 ? "s" : ""}. Change or delete them first`
+      );
+    }
+    await ctx.db.delete(id);
+  },
+});
@@ -0,0 +1,61 @@
+import { v } from "convex/values";
+import {
+  action as baseAction,
+  mutation as baseMutation,
+  query as baseQuery,
+  type ActionCtx,
+} from "./_generated/server";
+import { accessError } from "./access";
+
+// ============================================================
+// Public function builders. Same as the generated ones, plus an
+// optional `apiKeyGrant` argument: the HTTP router counts each API
+// key request and issues a grant for it (internal.apiKeys.recordUse),
+// which its queries and mutations are called with (see
+// withApiKeyGrant). convex/access.ts checks the grant in place of a
+// signed-in user. Handlers never see the argument.
+// ============================================================
+
+/** Set on the ctx of queries and mutations called for an API key request */
+export interface ApiKeyCtx {
+  apiKeyGrant?: string;
+}
+
+type Definition = {
+  args?: Record<string, unknown>;
+  handler: (ctx: unknown, args: Record<string, unknown>) => unknown;
+};
+
+function acceptApiKeyGrant<Builder>(builder: Builder, attach: (ctx: never, grant: string) => unknown): Builder {
+  const wrapped = (definition: Definition) =>
+    (builder as (definition: Definition) => unknown)({
+      ...definition,
+      args: { ...definition.args, apiKeyGrant: v.optional(v.string()) },
+      handler: (ctx, { apiKeyGrant, ...args }) =>
+        definition.handler(typeof apiKeyGrant === "string" ? attach(ctx as never, apiKeyGrant) : ctx, args),
+    });
+  return wrapped as Builder;
+}
+
+export const query = acceptApiKeyGrant(baseQuery, (ctx: object, apiKeyGrant) => ({ ...ctx, apiKeyGrant }));
+export const mutation = acceptApiKeyGrant(baseMutation, (ctx: object, apiKeyGrant) => ({ ...ctx, apiKeyGrant }));
+
+// Actions call internal functions, which take no grant, so API keys can't run them
+export const action = acceptApiKeyGrant(baseAction, () => {
+  throw accessError("FORBIDDEN", "API keys can't run actions; sign in instead");
+});
+
+/**
+ * An HTTP action ctx whose runQuery/runMutation/runAction send the grant
+ * along. Only for API routes, which call public functions alone.
+ */
+export function withApiKeyGrant(ctx: ActionCtx, apiKeyGrant: string): ActionCtx {
+  type Run = (ref: unknown, args?: Record<string, unknown>) => Promise<unknown>;
+  const send = (run: Run) => (ref: unknown, args?: Record<string, unknown>) => run(ref, { ...args, apiKeyGrant });
+  return {
+    ...ctx,
+    runQuery: send((ref, args) => ctx.runQuery(ref as never, args as never)) as ActionCtx["runQuery"],
+    runMutation: send((ref, args) => ctx.runMutation(ref as never, args as never)) as ActionCtx["runMutation"],
+    runAction: send((ref, args) => ctx.runAction(ref as never, args as never)) as ActionCtx["runAction"],
+  };
+}
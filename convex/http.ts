@@ -1,25 +1,56 @@
 import { httpRouter } from "convex/server";
-import { httpAction } from "./_generated/server";
-import { api } from "./_generated/api";
+import { httpAction, type ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
 import {
   buildRoiSchemaDimensions,
   ROI_BENCHMARK_PACK_ID,
   ROI_SCHEMA_UPDATED_AT,
   ROI_SCHEMA_VERSION,
 } from "../src/data/schemaResponse";
+import {
+  API_COMPONENTS,
+  API_ENDPOINT_GUIDE,
+  API_ROUTES,
+  ARCHITECTURE_TYPES,
+  EFFORT_LEVELS,
+  USE_CASE_STATUSES,
+  buildApiOpenApiDocument,
+} from "../src/data/apiRoutes";
+import { matchApiRoute, validateApiRequest } from "../src/utils/openapi";
+import { calculateSensitivity } from "../src/utils/sensitivity";
+import { buildFullCalculation, computeSummary } from "../src/utils/fullCalculation";
+import { isCustomArchetype } from "../src/utils/customArchetypes";
+import { BundleError, buildCalculationBundle, bundleFileName, upgradeCalculationBundle } from "../src/utils/bundle";
+import { CalculationPayloadError, createCalculationFromPayload, importCalculationBundle } from "./calculationImport";
+import { isAccessError } from "./access";
+import { withApiKeyGrant } from "./functions";
+import { calculateCompanyAggregate, calculateItemAnnualValue } from "../src/utils/calculations";
+import {
+  ARCHETYPE_DIMENSION,
+  type CalculationPayload,
+  type CustomArchetypeDefinition,
+  type ValueItem,
+} from "../src/types/roi";
 
 const http = httpRouter();
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
-};
+/**
+ * Browsers may only call the API from ALLOWED_ORIGIN (e.g. https://roi.example.com,
+ * or * to allow any). Unset, only server-side clients can call it.
+ */
+function corsHeaders(): Record<string, string> {
+  const origin = process.env.ALLOWED_ORIGIN;
+  return {
+    ...(origin && { "Access-Control-Allow-Origin": origin }),
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-API-Key",
+  };
+}
 
 function jsonResponse(data: unknown, status = 200) {
   return new Response(JSON.stringify(data), {
     status,
-    headers: { "Content-Type": "application/json", ...corsHeaders },
+    headers: { "Content-Type": "application/json", ...corsHeaders() },
   });
 }
 
@@ -27,6 +58,63 @@ function errorResponse(message: string, status = 400, details?: Record<string, u
   return jsonResponse({ error: message, ...details }, status);
 }
 
+/**
+ * httpAction for API routes. Callers sign in with `Authorization: Bearer <ID token>`
+ * or send `X-API-Key`; when a query or mutation refuses them the route answers 401
+ * or 403. Each API key request counts against the key's per-minute limit.
+ */
+function apiAction(handler: (ctx: ActionCtx, request: Request) => Promise<Response>) {
+  return httpAction(async (ctx, request) => {
+    try {
+      const apiKey = request.headers.get("X-API-Key");
+      if (!apiKey) return (await checkRequest(request)) ?? (await handler(ctx, request));
+
+      const use = await ctx.runMutation(internal.apiKeys.recordUse, { key: apiKey });
+      if (!use.ok && use.retryAfterSeconds !== null) {
+        return new Response(
+          JSON.stringify({ error: "Rate limit exceeded for this API key", retryAfterSeconds: use.retryAfterSeconds }),
+          {
+            status: 429,
+            headers: {
+              "Content-Type": "application/json",
+              "Retry-After": String(use.retryAfterSeconds),
+              ...corsHeaders(),
+            },
+          }
+        );
+      }
+      if (!use.ok) return errorResponse("Invalid or revoked API key", 401);
+      try {
+        return (await checkRequest(request)) ?? (await handler(withApiKeyGrant(ctx, use.grant), request));
+      } finally {
+        await ctx.runMutation(internal.apiKeys.releaseGrant, { grant: use.grant });
+      }
+    } catch (e) {
+      if (isAccessError(e)) return errorResponse(e.data.message, e.data.code === "UNAUTHENTICATED" ? 401 : 403);
+      throw e;
+    }
+  });
+}
+
+/**
+ * Check the query and JSON body against the route's schemas in src/data/apiRoutes.ts.
+ * Returns a 400 listing every problem, or null to let the handler run.
+ */
+async function checkRequest(request: Request): Promise<Response | null> {
+  const url = new URL(request.url);
+  const route = matchApiRoute(API_ROUTES, request.method, url.pathname);
+  if (!route) return null;
+
+  let body: unknown;
+  if (route.body) {
+    body = await parseBody<unknown>(request.clone());
+    if (body === null) return errorResponse("Request body must be JSON", 400, { schemaUrl: "/api/openapi.json" });
+  }
+  const errors = validateApiRequest(route, { query: url.searchParams, body }, API_COMPONENTS);
+  if (errors.length === 0) return null;
+  return errorResponse(`Invalid request: ${errors[0]}`, 400, { errors, schemaUrl: "/api/openapi.json" });
+}
+
 async function parseBody<T>(request: Request): Promise<T | null> {
   try {
     return await request.json();
@@ -36,159 +124,16 @@ async function parseBody<T>(request: Request): Promise<T | null> {
 }
 
 // ============================================================
-// Archetype → Dimension mapping + calculation engine (server-side)
+// Validation (request schemas live in src/data/apiRoutes.ts, value math
+// in src/utils/calculations.ts, the API summary and /full payload in
+// src/utils/fullCalculation.ts)
 // ============================================================
 
-const ARCHETYPE_DIMENSIONS: Record<string, string> = {
-  pipeline_velocity: "revenue_impact",
-  revenue_capture: "revenue_impact",
-  revenue_expansion: "revenue_impact",
-  time_to_revenue: "revenue_impact",
-  process_acceleration: "speed_cycle_time",
-  handoff_elimination: "speed_cycle_time",
-  task_elimination: "productivity",
-  task_simplification: "productivity",
-  context_surfacing: "productivity",
-  labor_avoidance: "cost_avoidance",
-  tool_consolidation: "cost_avoidance",
-  error_rework_elimination: "cost_avoidance",
-  compliance_assurance: "risk_quality",
-  data_integrity: "risk_quality",
-  incident_prevention: "risk_quality",
-  process_consistency: "risk_quality",
-};
-
-const VALID_ARCHETYPES = Object.keys(ARCHETYPE_DIMENSIONS);
-const VALID_STATUSES = ["identified", "in_progress", "deployed", "future"];
-const VALID_EFFORTS = ["low", "medium", "high"];
-
-function getVal(inputs: Record<string, { value: number }>, key: string): number {
-  return inputs?.[key]?.value ?? 0;
-}
-
-// Server-side calculation (mirrors src/utils/calculations.ts)
-function calculateArchetypeValue(archetype: string, inputs: Record<string, { value: number }>): number {
-  switch (archetype) {
-    case "pipeline_velocity":
-      return getVal(inputs, "dealsPerQuarter") * getVal(inputs, "avgDealValue") * getVal(inputs, "conversionLift") * 4;
-    case "revenue_capture":
-      return getVal(inputs, "annualRevenue") * getVal(inputs, "leakageRate") * getVal(inputs, "captureImprovement");
-    case "revenue_expansion":
-      return getVal(inputs, "customerBase") * getVal(inputs, "expansionRate") * getVal(inputs, "avgExpansionValue") * getVal(inputs, "lift");
-    case "time_to_revenue":
-      return getVal(inputs, "newCustomersPerYear") * getVal(inputs, "revenuePerCustomer") * getVal(inputs, "daysAccelerated") / 365;
-    case "process_acceleration":
-      return getVal(inputs, "processesPerMonth") * (getVal(inputs, "timeBeforeHrs") - getVal(inputs, "timeAfterHrs")) * getVal(inputs, "hourlyRate") * 12;
-    case "handoff_elimination":
-      return getVal(inputs, "handoffsPerMonth") * getVal(inputs, "avgQueueTimeHrs") * getVal(inputs, "hourlyRateOfWaitingParty") * 12;
-    case "task_elimination":
-      return getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesPerTask") * (getVal(inputs, "hourlyRate") / 60) * 12;
-    case "task_simplification":
-      return getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesSavedPerTask") * (getVal(inputs, "hourlyRate") / 60) * 12;
-    case "context_surfacing": {
-      const meetings = getVal(inputs, "meetingsAvoidedPerMonth") * getVal(inputs, "attendeesPerMeeting") * getVal(inputs, "meetingDurationHrs") * getVal(inputs, "meetingHourlyRate") * 12;
-      const searches = getVal(inputs, "searchesAvoidedPerMonth") * getVal(inputs, "avgSearchTimeMin") * (getVal(inputs, "searchHourlyRate") / 60) * 12;
-      return meetings + searches;
-    }
-    case "labor_avoidance":
-      return getVal(inputs, "ftesAvoided") * getVal(inputs, "fullyLoadedAnnualCost");
-    case "tool_consolidation":
-      return getVal(inputs, "toolsEliminated") * getVal(inputs, "annualLicenseCostPerTool");
-    case "error_rework_elimination":
-      return getVal(inputs, "errorsPerMonth") * getVal(inputs, "avgCostPerError") * getVal(inputs, "reductionRate") * 12;
-    case "compliance_assurance":
-      return getVal(inputs, "expectedViolationsPerYear") * getVal(inputs, "avgPenaltyPerViolation") * getVal(inputs, "reductionRate");
-    case "data_integrity":
-      return getVal(inputs, "recordsPerMonth") * getVal(inputs, "errorRate") * getVal(inputs, "costPerError") * getVal(inputs, "reductionRate") * 12;
-    case "incident_prevention":
-      return getVal(inputs, "incidentsPerYear") * getVal(inputs, "avgCostPerIncident") * getVal(inputs, "reductionRate");
-    case "process_consistency":
-      return getVal(inputs, "processesPerMonth") * getVal(inputs, "defectRate") * getVal(inputs, "costPerDefect") * getVal(inputs, "reductionRate") * 12;
-    default:
-      return 0;
-  }
-}
-
-function computeItemValue(item: { archetype: string; inputs: Record<string, unknown>; manualAnnualValue?: number }) {
-  if (item.manualAnnualValue != null) return item.manualAnnualValue;
-  return calculateArchetypeValue(item.archetype, (item.inputs ?? {}) as Record<string, { value: number }>);
-}
-
-function computeSummary(
-  valueItems: Array<{ archetype: string; dimension: string; inputs: unknown; manualAnnualValue?: number }>,
-  assumptions: { projectionYears: number; realizationRamp: number[]; annualGrowthRate: number },
-  currentSpend?: number,
-  proposedSpend?: number
-) {
-  const dimensionTotals: Record<string, number> = {};
-  let totalAnnualValue = 0;
-  let hoursSavedPerMonth = 0;
-
-  for (const item of valueItems) {
-    const value = computeItemValue(item as { archetype: string; inputs: Record<string, unknown>; manualAnnualValue?: number });
-    totalAnnualValue += value;
-    dimensionTotals[item.dimension] = (dimensionTotals[item.dimension] ?? 0) + value;
-
-    // Hours saved for time-related archetypes
-    const inputs = (item.inputs ?? {}) as Record<string, { value: number }>;
-    if (item.archetype === "task_elimination") {
-      hoursSavedPerMonth += (getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesPerTask")) / 60;
-    } else if (item.archetype === "task_simplification") {
-      hoursSavedPerMonth += (getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesSavedPerTask")) / 60;
-    } else if (item.archetype === "process_acceleration") {
-      hoursSavedPerMonth += getVal(inputs, "processesPerMonth") * (getVal(inputs, "timeBeforeHrs") - getVal(inputs, "timeAfterHrs"));
-    } else if (item.archetype === "handoff_elimination") {
-      hoursSavedPerMonth += getVal(inputs, "handoffsPerMonth") * getVal(inputs, "avgQueueTimeHrs");
-    }
-  }
-
-  const investment = proposedSpend ?? 0;
-  const roiMultiple = investment > 0 ? totalAnnualValue / investment : null;
-
-  const projection = [];
-  let cumValue = 0, cumInvestment = 0;
-  for (let i = 0; i < assumptions.projectionYears; i++) {
-    const growth = Math.pow(1 + assumptions.annualGrowthRate, i);
-    const ramp = assumptions.realizationRamp[i] ?? 1;
-    const value = totalAnnualValue * growth * ramp;
-    cumValue += value;
-    cumInvestment += investment;
-    projection.push({
-      year: i + 1,
-      value: Math.round(value),
-      investment: investment,
-      netValue: Math.round(value - investment),
-      cumulativeValue: Math.round(cumValue),
-      cumulativeInvestment: Math.round(cumInvestment),
-      cumulativeNetValue: Math.round(cumValue - cumInvestment),
-    });
-  }
-
-  const dims = ["revenue_impact", "speed_cycle_time", "productivity", "cost_avoidance", "risk_quality"];
-  const dimLabels: Record<string, string> = {
-    revenue_impact: "Revenue Impact", speed_cycle_time: "Speed / Cycle Time",
-    productivity: "Productivity", cost_avoidance: "Cost Avoidance", risk_quality: "Risk & Quality",
-  };
-  const dimColors: Record<string, string> = {
-    revenue_impact: "#10B981", speed_cycle_time: "#3B82F6",
-    productivity: "#FF4A00", cost_avoidance: "#8B5CF6", risk_quality: "#EF4444",
-  };
+const VALID_ARCHETYPES = Object.keys(ARCHETYPE_DIMENSION);
 
-  return {
-    totalAnnualValue: Math.round(totalAnnualValue),
-    dimensionTotals: dims.map((d) => ({
-      dimension: d,
-      label: dimLabels[d],
-      total: Math.round(dimensionTotals[d] ?? 0),
-      itemCount: valueItems.filter((i) => i.dimension === d).length,
-      color: dimColors[d],
-      percentage: totalAnnualValue > 0 ? Math.round(((dimensionTotals[d] ?? 0) / totalAnnualValue) * 100) : 0,
-    })),
-    roiMultiple: roiMultiple ? Math.round(roiMultiple * 100) / 100 : null,
-    hoursSavedPerMonth: Math.round(hoursSavedPerMonth),
-    fteEquivalent: Math.round((hoursSavedPerMonth / 160) * 100) / 100,
-    projection,
-  };
+/** Built-in archetype or a company custom archetype key (resolved by the mutation) */
+function isKnownArchetype(archetype: string): boolean {
+  return VALID_ARCHETYPES.includes(archetype) || isCustomArchetype(archetype);
 }
 
 // ============================================================
@@ -200,64 +145,16 @@ const SCHEMA_RESPONSE = {
   schemaUpdatedAt: ROI_SCHEMA_UPDATED_AT,
   benchmarkPackId: ROI_BENCHMARK_PACK_ID,
   dimensions: buildRoiSchemaDimensions(),
-  validStatuses: VALID_STATUSES,
-  validEffortLevels: VALID_EFFORTS,
-  architectureTypes: ["zap", "interface", "table", "agent"],
+  validStatuses: USE_CASE_STATUSES,
+  validEffortLevels: EFFORT_LEVELS,
+  architectureTypes: ARCHITECTURE_TYPES,
   confidenceTiers: {
     A: "Customer-provided data — highest credibility",
     B: "Published benchmark with named study and methodology",
     C: "Estimated from industry patterns — validate with customer",
     D: "Unsourced — directional only, flag for validation",
   },
-  endpoints: {
-    companies: {
-      list: { method: "GET", path: "/api/companies", description: "List all companies" },
-      get: { method: "GET", path: "/api/companies/:shortId", description: "Get company with its calculators" },
-      create: { method: "POST", path: "/api/companies", body: { name: "required", industry: "optional", employeeCount: "optional" } },
-      update: { method: "PUT", path: "/api/companies/:shortId", body: { name: "optional", industry: "optional", employeeCount: "optional" } },
-      aggregate: { method: "GET", path: "/api/companies/:shortId/aggregate", description: "Company-level totals across all calculators" },
-      useCases: { method: "GET", path: "/api/companies/:shortId/use-cases", description: "All company use cases with _id, totalAnnualValue, valueItemCount, sourceCalculator, referencedByCalculators. Use this to discover use cases available for import." },
-    },
-    calculations: {
-      list: { method: "GET", path: "/api/calculations", description: "List all calculations" },
-      get: { method: "GET", path: "/api/calculations/:shortId", description: "Basic calculation data" },
-      getFull: { method: "GET", path: "/api/calculations/:shortId/full", description: "Full calculation with computed values, use cases, and summary" },
-      create: {
-        method: "POST", path: "/api/calculations",
-        description: "Create a calculator. Supports nested value items, use cases, and importing shared use cases in one call.",
-        body: {
-          name: "required",
-          companyShortId: "optional — links calculator to a company by short ID",
-          companyId: "optional — links calculator to a company by Convex ID",
-          role: "optional",
-          proposedSpend: "optional",
-          currentSpend: "optional",
-          importUseCaseIds: "optional — array of use case _ids to import as shared references (get IDs from GET /api/companies/:shortId/use-cases)",
-          valueItems: "optional — array of { archetype, name, inputs, ... } to create new value items",
-          useCases: "optional — array of { name, department, status, ... } to create new use cases. Use valueItemNames to link to value items by name.",
-        },
-      },
-      update: { method: "PUT", path: "/api/calculations/:shortId" },
-      delete: { method: "DELETE", path: "/api/calculations/:shortId" },
-    },
-    valueItems: {
-      list: { method: "GET", path: "/api/calculations/:shortId/value-items" },
-      create: { method: "POST", path: "/api/calculations/:shortId/value-items", body: { archetype: "required — one of 16 archetypes", name: "required", inputs: "required — archetype-specific key-value pairs" } },
-      createBatch: { method: "POST", path: "/api/calculations/:shortId/value-items/batch", body: { items: "array of value item objects" } },
-      update: { method: "PUT", path: "/api/calculations/:shortId/value-items/:itemShortId", body: { name: "optional", description: "optional", archetype: "optional", inputs: "optional", manualAnnualValue: "optional", useCaseId: "optional — use case _id to link this value item to" } },
-      delete: { method: "DELETE", path: "/api/calculations/:shortId/value-items/:itemShortId" },
-    },
-    useCases: {
-      list: { method: "GET", path: "/api/calculations/:shortId/use-cases", description: "Use cases in this calculator (includes shared ones)" },
-      create: { method: "POST", path: "/api/calculations/:shortId/use-cases", body: { name: "required", department: "optional", status: "optional (default: identified)", implementationEffort: "optional (default: medium)" } },
-      import: { method: "POST", path: "/api/calculations/:shortId/use-cases/import", description: "Add an existing company use case to this calculator as a shared reference. No data is copied — edits reflect everywhere.", body: { useCaseId: "required — _id from GET /api/companies/:shortId/use-cases" } },
-      update: { method: "PUT", path: "/api/calculations/:shortId/use-cases/:ucShortId", description: "Edit a use case. Changes apply to all calculators referencing it." },
-      delete: { method: "DELETE", path: "/api/calculations/:shortId/use-cases/:ucShortId", description: "Default: unlinks from this calculator only. Add ?permanent=true to delete permanently from all calculators." },
-    },
-    templates: {
-      get: { method: "GET", path: "/api/templates/:archetype", description: "Pre-filled template with input prompts and defaults for an archetype" },
-    },
-  },
+  endpoints: API_ENDPOINT_GUIDE,
   workflow: {
     description: "Recommended workflow for AI agents creating calculators",
     steps: [
@@ -277,37 +174,49 @@ const SCHEMA_RESPONSE = {
 http.route({
   path: "/api/companies",
   method: "OPTIONS",
-  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders })),
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
 });
 
 http.route({
   pathPrefix: "/api/companies/",
   method: "OPTIONS",
-  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders })),
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
 });
 
 http.route({
   path: "/api/schema",
   method: "OPTIONS",
-  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders })),
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
+});
+
+http.route({
+  path: "/api/openapi.json",
+  method: "OPTIONS",
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
 });
 
 http.route({
   pathPrefix: "/api/templates/",
   method: "OPTIONS",
-  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders })),
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
 });
 
 http.route({
   path: "/api/calculations",
   method: "OPTIONS",
-  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders })),
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
 });
 
 http.route({
   pathPrefix: "/api/calculations/",
   method: "OPTIONS",
-  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders })),
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
+});
+
+http.route({
+  pathPrefix: "/api/snapshots/",
+  method: "OPTIONS",
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
 });
 
 // ============================================================
@@ -317,7 +226,56 @@ http.route({
 http.route({
   path: "/api/schema",
   method: "GET",
-  handler: httpAction(async () => jsonResponse(SCHEMA_RESPONSE)),
+  handler: apiAction(async (ctx, request) => {
+    // ?company=:shortId adds that company's custom archetypes to the taxonomy
+    const companyShortId = new URL(request.url).searchParams.get("company");
+    if (!companyShortId) return jsonResponse(SCHEMA_RESPONSE);
+
+    const company = await ctx.runQuery(api.companies.getByShortId, { shortId: companyShortId });
+    if (!company) return errorResponse("Company not found", 404);
+    const customArchetypes = await ctx.runQuery(api.customArchetypes.listByCompany, { companyId: company._id });
+    return jsonResponse({
+      ...SCHEMA_RESPONSE,
+      company: { shortId: company.shortId, name: company.name },
+      dimensions: buildRoiSchemaDimensions(customArchetypes as unknown as CustomArchetypeDefinition[]),
+    });
+  }),
+});
+
+// ============================================================
+// GET /api/openapi.json — OpenAPI 3 document from the route table
+// ============================================================
+
+http.route({
+  path: "/api/openapi.json",
+  method: "GET",
+  handler: apiAction(async (ctx, request) => {
+    // ?company=:shortId adds value item schemas for that company's custom archetypes
+    const companyShortId = new URL(request.url).searchParams.get("company");
+    if (!companyShortId) return jsonResponse(buildApiOpenApiDocument());
+
+    const company = await ctx.runQuery(api.companies.getByShortId, { shortId: companyShortId });
+    if (!company) return errorResponse("Company not found", 404);
+    const customArchetypes = await ctx.runQuery(api.customArchetypes.listByCompany, { companyId: company._id });
+    return jsonResponse(buildApiOpenApiDocument(customArchetypes as unknown as CustomArchetypeDefinition[]));
+  }),
+});
+
+// ============================================================
+// GET /api/snapshots/:shortId — Frozen /full payload
+// ============================================================
+
+http.route({
+  pathPrefix: "/api/snapshots/",
+  method: "GET",
+  handler: apiAction(async (ctx, request) => {
+    const match = new URL(request.url).pathname.match(/^\/api\/snapshots\/([a-z0-9]+)$/);
+    if (!match) return errorResponse("Unknown endpoint", 404);
+
+    const snapshot = await ctx.runQuery(api.snapshots.getByShortId, { shortId: match[1]! });
+    if (!snapshot) return errorResponse("Snapshot not found", 404);
+    return jsonResponse(snapshot);
+  }),
 });
 
 // ============================================================
@@ -327,7 +285,7 @@ http.route({
 http.route({
   pathPrefix: "/api/templates/",
   method: "GET",
-  handler: httpAction(async (_ctx, request) => {
+  handler: apiAction(async (_ctx, request) => {
     const url = new URL(request.url);
     const archetype = url.pathname.replace("/api/templates/", "");
 
@@ -380,7 +338,7 @@ http.route({
 http.route({
   path: "/api/calculations",
   method: "GET",
-  handler: httpAction(async (ctx) => {
+  handler: apiAction(async (ctx) => {
     const calculations = await ctx.runQuery(api.calculations.list);
     return jsonResponse(calculations);
   }),
@@ -393,162 +351,46 @@ http.route({
 http.route({
   path: "/api/calculations",
   method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    const body = await parseBody<{
-      name?: string;
-      companyId?: string;
-      companyShortId?: string;
-      role?: string;
-      priorityOrder?: string[];
-      currentSpend?: number;
-      proposedSpend?: number;
-      benchmarkPackId?: string;
-      assumptions?: Record<string, unknown>;
-      importUseCaseIds?: string[];
-      valueItems?: Array<{
-        archetype: string;
-        name: string;
-        description?: string;
-        inputs?: Record<string, unknown>;
-        manualAnnualValue?: number;
-      }>;
-      useCases?: Array<{
-        name: string;
-        department?: string;
-        status?: string;
-        implementationEffort?: string;
-        description?: string;
-        metrics?: Array<{ name: string; before?: string; after?: string; improvement?: string }>;
-        valueItemNames?: string[];
-      }>;
-    }>(request);
-
+  handler: apiAction(async (ctx, request) => {
+    const body = await parseBody<CalculationPayload>(request);
     if (!body?.name) {
       return errorResponse("name is required and must be a string");
     }
 
-    // Resolve companyId from either companyId (Convex ID) or companyShortId
-    let resolvedCompanyId: string | undefined;
-    if (body.companyId) {
-      resolvedCompanyId = body.companyId;
-    } else if (body.companyShortId) {
-      const company = await ctx.runQuery(api.companies.getByShortId, { shortId: body.companyShortId });
-      if (!company) return errorResponse(`Company not found with shortId "${body.companyShortId}"`, 404);
-      resolvedCompanyId = company._id;
+    let created;
+    try {
+      created = await createCalculationFromPayload(ctx, body);
+    } catch (e) {
+      if (e instanceof CalculationPayloadError) return errorResponse(e.message, e.status, e.details);
+      throw e;
     }
+    const { calculationId, shortId, importedUseCaseIds } = created;
 
-    // Create calculation
-    const result = await ctx.runMutation(api.calculations.create, {
-      name: body.name,
-      role: body.role,
-      priorityOrder: body.priorityOrder,
-      benchmarkPackId: body.benchmarkPackId ?? ROI_BENCHMARK_PACK_ID,
-      currentSpend: body.currentSpend,
-      proposedSpend: body.proposedSpend,
-      ...(resolvedCompanyId && { companyId: resolvedCompanyId as any }),
-      ...(body.assumptions && { assumptions: body.assumptions as { projectionYears: number; realizationRamp: number[]; annualGrowthRate: number } }),
-    });
-
-    const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId: result.shortId });
+    const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
     if (!calculation) return errorResponse("Failed to create calculation", 500);
 
-    // Create value items if provided
-    const createdItemNames: Map<string, string> = new Map(); // name → Convex ID
-    if (body.valueItems && body.valueItems.length > 0) {
-      const batchItems = [];
-      for (const item of body.valueItems) {
-        if (!VALID_ARCHETYPES.includes(item.archetype)) {
-          return errorResponse(`Invalid archetype "${item.archetype}"`, 400, {
-            validArchetypes: VALID_ARCHETYPES,
-            schemaUrl: "/api/schema",
-          });
-        }
-        batchItems.push({
-          archetype: item.archetype,
-          name: item.name,
-          description: item.description,
-          inputs: item.inputs ?? {},
-          manualAnnualValue: item.manualAnnualValue,
-        });
-      }
-
-      const results = await ctx.runMutation(api.valueItems.createBatch, {
-        calculationId: calculation._id,
-        items: batchItems,
-      });
-
-      // Map names to IDs for use case linking
-      for (let i = 0; i < body.valueItems.length; i++) {
-        createdItemNames.set(body.valueItems[i]!.name, results[i]!.id);
-      }
-    }
-
-    // Create use cases if provided
-    if (body.useCases && body.useCases.length > 0) {
-      for (const uc of body.useCases) {
-        const ucResult = await ctx.runMutation(api.useCases.create, {
-          calculationId: calculation._id,
-          name: uc.name,
-          department: uc.department,
-          status: uc.status ?? "identified",
-          implementationEffort: uc.implementationEffort ?? "medium",
-          description: uc.description,
-          metrics: uc.metrics,
-        });
-
-        // Link value items by name
-        if (uc.valueItemNames && uc.valueItemNames.length > 0) {
-          for (const itemName of uc.valueItemNames) {
-            const itemId = createdItemNames.get(itemName);
-            if (itemId) {
-              await ctx.runMutation(api.valueItems.update, {
-                id: itemId as any,
-                useCaseId: ucResult.id,
-              });
-            }
-          }
-        }
-      }
-    }
-
-    // Import existing use cases by ID (shared references, not clones)
-    const importedUseCases: string[] = [];
-    if (body.importUseCaseIds && body.importUseCaseIds.length > 0) {
-      for (const ucId of body.importUseCaseIds) {
-        try {
-          await ctx.runMutation(api.useCases.addToCalculation, {
-            calculationId: calculation._id,
-            useCaseId: ucId as any,
-          });
-          importedUseCases.push(ucId);
-        } catch (e: any) {
-          // Skip duplicates or invalid IDs silently
-        }
-      }
-    }
-
     // Return full calculation with computed values
-    const updatedCalc = await ctx.runQuery(api.calculations.getByShortId, { shortId: result.shortId });
-    const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
-    const useCases = await ctx.runQuery(api.useCases.listByCalculation, { calculationId: calculation._id });
+    const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId });
+    const useCases = await ctx.runQuery(api.useCases.listByCalculation, { calculationId });
     const summary = computeSummary(
       valueItems as any,
       calculation.assumptions,
-      calculation.currentSpend,
-      calculation.proposedSpend
+      calculation.proposedSpend,
+      calculation.implementationCost,
+      useCases
     );
 
     return jsonResponse({
-      calculation: updatedCalc,
+      calculation,
       valueItems: valueItems.map((vi) => ({
         ...vi,
         computed: {
-          annualValue: computeItemValue(vi as any),
+          annualValue: calculateItemAnnualValue(vi as any),
         },
       })),
       useCases,
       summary,
-      ...(importedUseCases.length > 0 && { importedUseCaseIds: importedUseCases }),
+      ...(importedUseCaseIds.length > 0 && { importedUseCaseIds }),
     }, 201);
   }),
 });
@@ -560,7 +402,7 @@ http.route({
 http.route({
   pathPrefix: "/api/calculations/",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -573,19 +415,42 @@ http.route({
 
       const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
       const useCases = await ctx.runQuery(api.useCases.listByCalculation, { calculationId: calculation._id });
-      const summary = computeSummary(valueItems as any, calculation.assumptions, calculation.currentSpend, calculation.proposedSpend);
+      const company = calculation.companyId ? await ctx.runQuery(api.companies.getById, { id: calculation.companyId }) : null;
 
-      return jsonResponse({
-        calculation,
-        valueItems: valueItems.map((vi) => ({
-          ...vi,
-          computed: { annualValue: computeItemValue(vi as any) },
-        })),
-        useCases,
-        summary,
+      return jsonResponse(
+        buildFullCalculation(calculation, valueItems as any, useCases as any, company?.departmentHeadcounts)
+      );
+    }
+
+    // GET /api/calculations/:shortId/export
+    const exportMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/export$/);
+    if (exportMatch) {
+      const shortId = exportMatch[1]!;
+      const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
+      if (!calculation) return errorResponse("Calculation not found", 404);
+
+      const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
+      const useCases = await ctx.runQuery(api.useCases.listByCalculation, { calculationId: calculation._id });
+      const bundle = buildCalculationBundle(calculation as any, valueItems as any, useCases as any);
+      return new Response(JSON.stringify(bundle, null, 2), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${bundleFileName(calculation.name)}"`,
+          ...corsHeaders(),
+        },
       });
     }
 
+    // GET /api/calculations/:shortId/snapshots
+    const snapshotsMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/snapshots$/);
+    if (snapshotsMatch) {
+      const shortId = snapshotsMatch[1]!;
+      const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
+      if (!calculation) return errorResponse("Calculation not found", 404);
+      return jsonResponse(await ctx.runQuery(api.snapshots.listByCalculation, { calculationId: calculation._id }));
+    }
+
     // GET /api/calculations/:shortId/value-items
     const viMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/value-items$/);
     if (viMatch) {
@@ -593,7 +458,7 @@ http.route({
       const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
       if (!calculation) return errorResponse("Calculation not found", 404);
       const items = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
-      return jsonResponse(items.map((vi) => ({ ...vi, computed: { annualValue: computeItemValue(vi as any) } })));
+      return jsonResponse(items.map((vi) => ({ ...vi, computed: { annualValue: calculateItemAnnualValue(vi as any) } })));
     }
 
     // GET /api/calculations/:shortId/use-cases
@@ -606,6 +471,27 @@ http.route({
       return jsonResponse(useCases);
     }
 
+    // GET /api/calculations/:shortId/sensitivity
+    const sensMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/sensitivity$/);
+    if (sensMatch) {
+      const shortId = sensMatch[1]!;
+      const mode = url.searchParams.get("mode") ?? "percent";
+      if (mode !== "percent" && mode !== "range") {
+        return errorResponse(`Invalid mode "${mode}". Valid: percent, range`);
+      }
+      const percentParam = url.searchParams.get("percent");
+      const percent = percentParam !== null ? Number(percentParam) : 0.2;
+      if (!Number.isFinite(percent) || percent <= 0 || percent > 1) {
+        return errorResponse("percent must be a number between 0 and 1 (e.g. 0.2 for ±20%)");
+      }
+
+      const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
+      if (!calculation) return errorResponse("Calculation not found", 404);
+
+      const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
+      return jsonResponse(calculateSensitivity(valueItems as any, { mode, percent }));
+    }
+
     // GET /api/calculations/:shortId/realized
     const realizedMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/realized$/);
     if (realizedMatch) {
@@ -622,7 +508,7 @@ http.route({
 
       const useCaseResults = useCases.map((uc) => {
         const linkedItems = valueItems.filter((vi) => vi.useCaseId === uc._id);
-        const projectedAnnualValue = linkedItems.reduce((sum, item) => sum + computeItemValue(item as any), 0);
+        const projectedAnnualValue = linkedItems.reduce((sum, item) => sum + calculateItemAnnualValue(item as any), 0);
         totalProjectedAnnualValue += projectedAnnualValue;
 
         const zapRuns = zapRunEntries.filter((e) => e.useCaseId === uc._id);
@@ -670,7 +556,7 @@ http.route({
 
       const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
       const useCases = await ctx.runQuery(api.useCases.listByCalculation, { calculationId: calculation._id });
-      const summary = computeSummary(valueItems as any, calculation.assumptions, calculation.currentSpend, calculation.proposedSpend);
+      const summary = computeSummary(valueItems as any, calculation.assumptions, calculation.proposedSpend, calculation.implementationCost, useCases);
 
       const settings = calculation.obfuscation ?? {};
       const roundValue = (v: number) => {
@@ -691,7 +577,7 @@ http.route({
         valueItems: valueItems.map((vi) => ({
           ...vi,
           description: settings.hideNotes ? undefined : vi.description,
-          computed: { annualValue: roundValue(computeItemValue(vi as any)) },
+          computed: { annualValue: roundValue(calculateItemAnnualValue(vi as any)) },
         })),
         useCases: useCases.map((uc, i) => ({
           ...uc,
@@ -702,6 +588,14 @@ http.route({
           ...summary,
           totalAnnualValue: roundValue(summary.totalAnnualValue),
           dimensionTotals: summary.dimensionTotals.map((d) => ({ ...d, total: roundValue(d.total) })),
+          implementationCost: roundValue(summary.implementationCost),
+          npv: Math.sign(summary.npv) * roundValue(Math.abs(summary.npv)),
+          // Whole percents and whole quarters, like the rounded totals
+          irr: settings.roundValues && summary.irr !== null ? Math.round(summary.irr * 100) / 100 : summary.irr,
+          paybackMonth:
+            settings.roundValues && summary.paybackMonth !== null
+              ? Math.ceil(summary.paybackMonth / 3) * 3
+              : summary.paybackMonth,
         },
       });
     }
@@ -726,10 +620,63 @@ http.route({
 http.route({
   pathPrefix: "/api/calculations/",
   method: "POST",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // POST /api/calculations/import
+    if (path === "/api/calculations/import") {
+      const body = await parseBody<unknown>(request);
+      if (!body) return errorResponse("Request body must be a calculation bundle");
+
+      let companyId;
+      const companyShortId = url.searchParams.get("company");
+      if (companyShortId) {
+        const company = await ctx.runQuery(api.companies.getByShortId, { shortId: companyShortId });
+        if (!company) return errorResponse(`Company not found with shortId "${companyShortId}"`, 404);
+        companyId = company._id;
+      }
+
+      let imported;
+      try {
+        imported = await importCalculationBundle(ctx, upgradeCalculationBundle(body), { companyId });
+      } catch (e) {
+        if (e instanceof BundleError) return errorResponse(e.message);
+        if (e instanceof CalculationPayloadError) return errorResponse(e.message, e.status, e.details);
+        throw e;
+      }
+      const { calculationId, shortId, idMap } = imported;
+
+      const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
+      if (!calculation) return errorResponse("Failed to import calculation", 500);
+      const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId });
+      const useCases = await ctx.runQuery(api.useCases.listByCalculation, { calculationId });
+      const summary = computeSummary(
+        valueItems as any,
+        calculation.assumptions,
+        calculation.proposedSpend,
+        calculation.implementationCost,
+        useCases
+      );
+
+      return jsonResponse({ calculation, shortId, idMap, summary }, 201);
+    }
+
+    // POST /api/calculations/:shortId/snapshots
+    const snapshotsMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/snapshots$/);
+    if (snapshotsMatch) {
+      const shortId = snapshotsMatch[1]!;
+      const calculation = await ctx.runQuery(api.calculations.getByShortId, { shortId });
+      if (!calculation) return errorResponse("Calculation not found", 404);
+
+      const body = await parseBody<{ name?: string }>(request);
+      if (!body?.name?.trim()) return errorResponse("name is required");
+
+      const created = await ctx.runMutation(api.snapshots.create, { calculationId: calculation._id, name: body.name });
+      const snapshot = await ctx.runQuery(api.snapshots.getByShortId, { shortId: created.shortId });
+      return jsonResponse({ ...snapshot, sharePath: `/s/${created.shortId}` }, 201);
+    }
+
     // POST /api/calculations/:shortId/value-items/batch
     const batchMatch = path.match(/^\/api\/calculations\/([a-z0-9]+)\/value-items\/batch$/);
     if (batchMatch) {
@@ -743,28 +690,34 @@ http.route({
       }
 
       for (const item of body.items) {
-        if (!VALID_ARCHETYPES.includes(item.archetype)) {
+        if (!isKnownArchetype(item.archetype)) {
           return errorResponse(`Invalid archetype "${item.archetype}"`, 400, { validArchetypes: VALID_ARCHETYPES });
         }
       }
 
-      const results = await ctx.runMutation(api.valueItems.createBatch, {
-        calculationId: calculation._id,
-        items: body.items.map((i) => ({
-          archetype: i.archetype,
-          name: i.name,
-          description: i.description,
-          inputs: i.inputs ?? {},
-          manualAnnualValue: i.manualAnnualValue,
-        })),
-      });
+      let results;
+      try {
+        results = await ctx.runMutation(api.valueItems.createBatch, {
+          calculationId: calculation._id,
+          items: body.items.map((i) => ({
+            archetype: i.archetype,
+            name: i.name,
+            description: i.description,
+            inputs: i.inputs ?? {},
+            manualAnnualValue: i.manualAnnualValue,
+          })),
+        });
+      } catch (e: any) {
+        if (isAccessError(e)) throw e;
+        return errorResponse(e.message ?? "Failed to create value items");
+      }
 
       // Fetch created items with computed values
       const allItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calculation._id });
       const createdIds = new Set(results.map((r) => r.id));
       const created = allItems.filter((i) => createdIds.has(i._id)).map((vi) => ({
         ...vi,
-        computed: { annualValue: computeItemValue(vi as any) },
+        computed: { annualValue: calculateItemAnnualValue(vi as any) },
       }));
 
       return jsonResponse(created, 201);
@@ -780,21 +733,27 @@ http.route({
       const body = await parseBody<{ archetype?: string; name?: string; description?: string; inputs?: Record<string, unknown>; manualAnnualValue?: number }>(request);
       if (!body) return errorResponse("Invalid JSON body");
       if (!body.name) return errorResponse("name is required");
-      if (!body.archetype || !VALID_ARCHETYPES.includes(body.archetype)) {
+      if (!body.archetype || !isKnownArchetype(body.archetype)) {
         return errorResponse(`archetype is required. Valid: ${VALID_ARCHETYPES.join(", ")}`, 400, { validArchetypes: VALID_ARCHETYPES });
       }
 
-      const itemId = await ctx.runMutation(api.valueItems.create, {
-        calculationId: calculation._id,
-        archetype: body.archetype,
-        name: body.name,
-        description: body.description,
-        inputs: body.inputs ?? {},
-        manualAnnualValue: body.manualAnnualValue,
-      });
+      let itemId;
+      try {
+        itemId = await ctx.runMutation(api.valueItems.create, {
+          calculationId: calculation._id,
+          archetype: body.archetype,
+          name: body.name,
+          description: body.description,
+          inputs: body.inputs ?? {},
+          manualAnnualValue: body.manualAnnualValue,
+        });
+      } catch (e: any) {
+        if (isAccessError(e)) throw e;
+        return errorResponse(e.message ?? "Failed to create value item");
+      }
 
       const item = await ctx.runQuery(api.valueItems.get, { id: itemId });
-      return jsonResponse({ ...item, computed: { annualValue: computeItemValue(item as any) } }, 201);
+      return jsonResponse({ ...item, computed: { annualValue: calculateItemAnnualValue(item as any) } }, 201);
     }
 
     // POST /api/calculations/:shortId/use-cases/import
@@ -813,6 +772,7 @@ http.route({
           useCaseId: body.useCaseId as any,
         });
       } catch (e: any) {
+        if (isAccessError(e)) throw e;
         return errorResponse(e.message ?? "Failed to import use case");
       }
 
@@ -835,6 +795,8 @@ http.route({
         description?: string;
         metrics?: Array<{ name: string; before?: string; after?: string; improvement?: string }>;
         architecture?: Array<Record<string, unknown>>;
+        goLiveMonth?: number;
+        rampMonths?: number;
       }>(request);
       if (!body) return errorResponse("Invalid JSON body");
       if (!body.name) return errorResponse("name is required");
@@ -848,6 +810,8 @@ http.route({
         description: body.description,
         metrics: body.metrics,
         architecture: body.architecture as any,
+        goLiveMonth: body.goLiveMonth,
+        rampMonths: body.rampMonths,
       });
 
       const useCase = await ctx.runQuery(api.useCases.get, { id: result.id });
@@ -935,7 +899,7 @@ http.route({
 http.route({
   pathPrefix: "/api/calculations/",
   method: "PUT",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -952,18 +916,23 @@ http.route({
       const body = await parseBody<Record<string, unknown>>(request);
       if (!body) return errorResponse("Invalid JSON body");
 
-      await ctx.runMutation(api.valueItems.update, {
-        id: valueItem._id,
-        ...(body.name !== undefined && { name: String(body.name) }),
-        ...(body.description !== undefined && { description: String(body.description) }),
-        ...(body.archetype !== undefined && { archetype: String(body.archetype) }),
-        ...(body.inputs !== undefined && { inputs: body.inputs }),
-        ...(body.manualAnnualValue !== undefined && { manualAnnualValue: Number(body.manualAnnualValue) }),
-        ...(body.useCaseId !== undefined && { useCaseId: body.useCaseId as any }),
-      });
+      try {
+        await ctx.runMutation(api.valueItems.update, {
+          id: valueItem._id,
+          ...(body.name !== undefined && { name: String(body.name) }),
+          ...(body.description !== undefined && { description: String(body.description) }),
+          ...(body.archetype !== undefined && { archetype: String(body.archetype) }),
+          ...(body.inputs !== undefined && { inputs: body.inputs }),
+          ...(body.manualAnnualValue !== undefined && { manualAnnualValue: Number(body.manualAnnualValue) }),
+          ...(body.useCaseId !== undefined && { useCaseId: body.useCaseId as any }),
+        });
+      } catch (e: any) {
+        if (isAccessError(e)) throw e;
+        return errorResponse(e.message ?? "Failed to update value item");
+      }
 
       const updated = await ctx.runQuery(api.valueItems.getByShortId, { shortId: itemShortId! });
-      return jsonResponse({ ...updated, computed: { annualValue: computeItemValue(updated as any) } });
+      return jsonResponse({ ...updated, computed: { annualValue: calculateItemAnnualValue(updated as any) } });
     }
 
     // PUT /api/calculations/:shortId/use-cases/:ucShortId
@@ -993,6 +962,8 @@ http.route({
         ...(body.description !== undefined && { description: String(body.description) }),
         ...(body.metrics !== undefined && { metrics: body.metrics as any }),
         ...(body.architecture !== undefined && { architecture: body.architecture as any }),
+        ...(body.goLiveMonth !== undefined && { goLiveMonth: body.goLiveMonth === null ? null : Number(body.goLiveMonth) }),
+        ...(body.rampMonths !== undefined && { rampMonths: body.rampMonths === null ? null : Number(body.rampMonths) }),
       });
 
       const updated = await ctx.runQuery(api.useCases.getByShortId, { shortId: ucShortId! });
@@ -1011,11 +982,12 @@ http.route({
 
       if (body.name) await ctx.runMutation(api.calculations.updateName, { id: calculation._id, name: String(body.name) });
       if (body.assumptions) await ctx.runMutation(api.calculations.updateAssumptions, { id: calculation._id, assumptions: body.assumptions as any });
-      if (body.currentSpend !== undefined || body.proposedSpend !== undefined) {
+      if (body.currentSpend !== undefined || body.proposedSpend !== undefined || body.implementationCost !== undefined) {
         await ctx.runMutation(api.calculations.updateInvestment, {
           id: calculation._id,
           ...(body.currentSpend !== undefined && { currentSpend: Number(body.currentSpend) }),
           ...(body.proposedSpend !== undefined && { proposedSpend: Number(body.proposedSpend) }),
+          ...(body.implementationCost !== undefined && { implementationCost: Number(body.implementationCost) }),
         });
       }
       if (body.talkingPoints) await ctx.runMutation(api.calculations.updateTalkingPoints, { id: calculation._id, talkingPoints: body.talkingPoints as string[] });
@@ -1049,7 +1021,7 @@ http.route({
 http.route({
   pathPrefix: "/api/calculations/",
   method: "DELETE",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -1120,7 +1092,7 @@ http.route({
 http.route({
   path: "/api/companies",
   method: "GET",
-  handler: httpAction(async (ctx) => {
+  handler: apiAction(async (ctx) => {
     const companies = await ctx.runQuery(api.companies.list);
     return jsonResponse(companies);
   }),
@@ -1133,7 +1105,7 @@ http.route({
 http.route({
   path: "/api/companies",
   method: "POST",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const body = await parseBody<{
       name?: string;
       industry?: string;
@@ -1162,7 +1134,7 @@ http.route({
 http.route({
   pathPrefix: "/api/companies/",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -1174,72 +1146,31 @@ http.route({
       if (!company) return errorResponse("Company not found", 404);
 
       const calculations = await ctx.runQuery(api.calculations.listByCompany, { companyId: company._id });
-
-      let totalAnnualValue = 0;
-      let totalProposedSpend = 0;
-      let totalHoursSavedPerMonth = 0;
-      const dimensionTotals: Record<string, number> = {};
-      const calculatorSummaries = [];
-
+      const valueItems = [];
       for (const calc of calculations) {
-        const valueItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calc._id });
-        const summary = computeSummary(
-          valueItems as any,
-          calc.assumptions,
-          calc.currentSpend,
-          calc.proposedSpend
-        );
-
-        totalAnnualValue += summary.totalAnnualValue;
-        totalProposedSpend += calc.proposedSpend ?? 0;
-        totalHoursSavedPerMonth += summary.hoursSavedPerMonth;
-
-        for (const dt of summary.dimensionTotals) {
-          dimensionTotals[dt.dimension] = (dimensionTotals[dt.dimension] ?? 0) + dt.total;
-        }
-
-        calculatorSummaries.push({
-          shortId: calc.shortId,
-          name: calc.name,
-          role: calc.role,
-          totalAnnualValue: summary.totalAnnualValue,
-          roiMultiple: summary.roiMultiple,
-          hoursSavedPerMonth: summary.hoursSavedPerMonth,
-          valueItemCount: valueItems.length,
-          updatedAt: calc.updatedAt,
-        });
+        valueItems.push(...(await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: calc._id })));
       }
 
-      const dims = ["revenue_impact", "speed_cycle_time", "productivity", "cost_avoidance", "risk_quality"];
-      const dimLabels: Record<string, string> = {
-        revenue_impact: "Revenue Impact",
-        speed_cycle_time: "Speed / Cycle Time",
-        productivity: "Productivity",
-        cost_avoidance: "Cost Avoidance",
-        risk_quality: "Risk & Quality",
-      };
-      const dimColors: Record<string, string> = {
-        revenue_impact: "#10B981",
-        speed_cycle_time: "#3B82F6",
-        productivity: "#FF4A00",
-        cost_avoidance: "#8B5CF6",
-        risk_quality: "#EF4444",
-      };
+      // Same engine as the company dashboard: shared use cases count once at company level
+      const aggregate = calculateCompanyAggregate(calculations, valueItems as unknown as ValueItem[]);
 
       return jsonResponse({
         company,
-        totalAnnualValue: Math.round(totalAnnualValue),
-        totalROI: totalProposedSpend > 0 ? Math.round((totalAnnualValue / totalProposedSpend) * 100) / 100 : null,
-        totalHoursSavedPerMonth: Math.round(totalHoursSavedPerMonth),
-        calculatorCount: calculations.length,
-        dimensionTotals: dims.map((d) => ({
-          dimension: d,
-          label: dimLabels[d],
-          total: Math.round(dimensionTotals[d] ?? 0),
-          color: dimColors[d],
-          percentage: totalAnnualValue > 0 ? Math.round(((dimensionTotals[d] ?? 0) / totalAnnualValue) * 100) : 0,
+        totalAnnualValue: Math.round(aggregate.totalAnnualValue),
+        totalROI: aggregate.totalROI !== null ? Math.round(aggregate.totalROI * 100) / 100 : null,
+        totalHoursSavedPerMonth: Math.round(aggregate.totalHoursSavedPerMonth),
+        calculatorCount: aggregate.calculatorCount,
+        dimensionTotals: aggregate.dimensionTotals.map((d) => ({
+          ...d,
+          total: Math.round(d.total),
+          percentage: Math.round(d.percentage),
+        })),
+        calculators: aggregate.calculators.map((c) => ({
+          ...c,
+          totalAnnualValue: Math.round(c.totalAnnualValue),
+          roiMultiple: c.roiMultiple !== null ? Math.round(c.roiMultiple * 100) / 100 : null,
+          hoursSavedPerMonth: Math.round(c.hoursSavedPerMonth),
         })),
-        calculators: calculatorSummaries,
       });
     }
 
@@ -1262,7 +1193,7 @@ http.route({
         // Get value items linked to this use case from its source calculator
         const sourceItems = await ctx.runQuery(api.valueItems.listByCalculation, { calculationId: uc.calculationId });
         const linkedItems = sourceItems.filter((vi) => vi.useCaseId === uc._id);
-        const totalValue = linkedItems.reduce((sum, vi) => sum + computeItemValue(vi as any), 0);
+        const totalValue = linkedItems.reduce((sum, vi) => sum + calculateItemAnnualValue(vi as any), 0);
 
         // Which calculations reference this use case?
         const referencedBy = calculations
@@ -1292,6 +1223,16 @@ http.route({
       });
     }
 
+    // GET /api/companies/:shortId/archetypes
+    const archetypesMatch = path.match(/^\/api\/companies\/([a-z0-9]+)\/archetypes$/);
+    if (archetypesMatch) {
+      const company = await ctx.runQuery(api.companies.getByShortId, { shortId: archetypesMatch[1]! });
+      if (!company) return errorResponse("Company not found", 404);
+
+      const customArchetypes = await ctx.runQuery(api.customArchetypes.listByCompany, { companyId: company._id });
+      return jsonResponse(customArchetypes);
+    }
+
     // GET /api/companies/:shortId
     const companyMatch = path.match(/^\/api\/companies\/([a-z0-9]+)$/);
     if (companyMatch) {
@@ -1307,6 +1248,71 @@ http.route({
   }),
 });
 
+// ============================================================
+// POST /api/companies/:shortId/archetypes — Create custom archetype
+// ============================================================
+
+/** Pick custom archetype fields from a request body (the mutation validates them) */
+function toCustomArchetypeArgs(body: Record<string, unknown>) {
+  return {
+    ...(body.label !== undefined && { label: String(body.label) }),
+    ...(body.description !== undefined && { description: String(body.description) }),
+    ...(body.dimension !== undefined && { dimension: String(body.dimension) }),
+    ...(body.fields !== undefined && { fields: body.fields as any }),
+    ...(body.formula !== undefined && { formula: String(body.formula) }),
+    ...(body.traceTemplate !== undefined && { traceTemplate: String(body.traceTemplate) }),
+  };
+}
+
+/** Look up a company's custom archetype by key, or the error response to return */
+async function findCustomArchetype(ctx: ActionCtx, companyShortId: string, key: string) {
+  const company = await ctx.runQuery(api.companies.getByShortId, { shortId: companyShortId });
+  if (!company) return errorResponse("Company not found", 404);
+  const archetypes = await ctx.runQuery(api.customArchetypes.listByCompany, { companyId: company._id });
+  const archetype = archetypes.find((a) => a.key === key);
+  return archetype ?? errorResponse(`Custom archetype "${key}" not found`, 404);
+}
+
+http.route({
+  pathPrefix: "/api/companies/",
+  method: "POST",
+  handler: apiAction(async (ctx, request) => {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    const archetypesMatch = path.match(/^\/api\/companies\/([a-z0-9]+)\/archetypes$/);
+    if (!archetypesMatch) return errorResponse("Unknown endpoint", 404);
+
+    const company = await ctx.runQuery(api.companies.getByShortId, { shortId: archetypesMatch[1]! });
+    if (!company) return errorResponse("Company not found", 404);
+
+    const body = await parseBody<Record<string, unknown>>(request);
+    if (!body) return errorResponse("Invalid JSON body");
+    const args = toCustomArchetypeArgs(body);
+    if (!args.label || !args.dimension || !args.fields || !args.formula) {
+      return errorResponse("label, dimension, fields and formula are required", 400, { schemaUrl: "/api/schema" });
+    }
+
+    let result;
+    try {
+      result = await ctx.runMutation(api.customArchetypes.create, {
+        companyId: company._id,
+        ...args,
+        label: args.label,
+        dimension: args.dimension,
+        fields: args.fields,
+        formula: args.formula,
+      });
+    } catch (e: any) {
+      if (isAccessError(e)) throw e;
+      return errorResponse(e.message ?? "Failed to create custom archetype");
+    }
+
+    const created = await findCustomArchetype(ctx, company.shortId, result.key);
+    return created instanceof Response ? created : jsonResponse(created, 201);
+  }),
+});
+
 // ============================================================
 // PUT /api/companies/:shortId
 // ============================================================
@@ -1314,10 +1320,30 @@ http.route({
 http.route({
   pathPrefix: "/api/companies/",
   method: "PUT",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // PUT /api/companies/:shortId/archetypes/:key
+    const archetypeMatch = path.match(/^\/api\/companies\/([a-z0-9]+)\/archetypes\/(custom_[a-z0-9_]+)$/);
+    if (archetypeMatch) {
+      const [, companyShortId, key] = archetypeMatch;
+      const found = await findCustomArchetype(ctx, companyShortId!, key!);
+      if (found instanceof Response) return found;
+
+      const body = await parseBody<Record<string, unknown>>(request);
+      if (!body) return errorResponse("Invalid JSON body");
+
+      try {
+        await ctx.runMutation(api.customArchetypes.update, { id: found._id, ...toCustomArchetypeArgs(body) });
+      } catch (e: any) {
+        if (isAccessError(e)) throw e;
+        return errorResponse(e.message ?? "Failed to update custom archetype");
+      }
+      const updated = await findCustomArchetype(ctx, companyShortId!, key!);
+      return updated instanceof Response ? updated : jsonResponse(updated);
+    }
+
     const companyMatch = path.match(/^\/api\/companies\/([a-z0-9]+)$/);
     if (!companyMatch) return errorResponse("Unknown endpoint", 404);
 
@@ -1335,6 +1361,22 @@ http.route({
       ...(body.employeeCount !== undefined && { employeeCount: Number(body.employeeCount) }),
     });
 
+    if (body.departmentHeadcounts !== undefined) {
+      if (!Array.isArray(body.departmentHeadcounts)) return errorResponse("departmentHeadcounts must be an array");
+      try {
+        await ctx.runMutation(api.companies.updateDepartmentHeadcounts, {
+          id: company._id,
+          departmentHeadcounts: body.departmentHeadcounts.map((d: { department?: unknown; headcount?: unknown }) => ({
+            department: String(d?.department ?? ""),
+            headcount: Number(d?.headcount),
+          })),
+        });
+      } catch (e: any) {
+        if (isAccessError(e)) throw e;
+        return errorResponse(e.message ?? "Invalid departmentHeadcounts");
+      }
+    }
+
     const updated = await ctx.runQuery(api.companies.getByShortId, { shortId });
     return jsonResponse(updated);
   }),
@@ -1347,10 +1389,25 @@ http.route({
 http.route({
   pathPrefix: "/api/companies/",
   method: "DELETE",
-  handler: httpAction(async (ctx, request) => {
+  handler: apiAction(async (ctx, request) => {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // DELETE /api/companies/:shortId/archetypes/:key
+    const archetypeMatch = path.match(/^\/api\/companies\/([a-z0-9]+)\/archetypes\/(custom_[a-z0-9_]+)$/);
+    if (archetypeMatch) {
+      const found = await findCustomArchetype(ctx, archetypeMatch[1]!, archetypeMatch[2]!);
+      if (found instanceof Response) return found;
+
+      try {
+        await ctx.runMutation(api.customArchetypes.remove, { id: found._id });
+      } catch (e: any) {
+        if (isAccessError(e)) throw e;
+        return errorResponse(e.message ?? "Failed to delete custom archetype", 409);
+      }
+      return jsonResponse({ deleted: true });
+    }
+
     const companyMatch = path.match(/^\/api\/companies\/([a-z0-9]+)$/);
     if (!companyMatch) return errorResponse("Unknown endpoint", 404);
 
@@ -0,0 +1,119 @@
+import { v } from "convex/values";
+import { query, mutation } from "./functions";
+import {
+  getCalculationRole,
+  getCompanyRole,
+  getViewer,
+  requireCompanyRole,
+  requireViewer,
+} from "./access";
+import { checkOwnerChange, isValidEmail, normalizeEmail } from "../src/utils/access";
+
+const roleValidator = v.union(v.literal("owner"), v.literal("editor"), v.literal("viewer"));
+
+// ============================================================
+// Queries
+// ============================================================
+
+/** The signed-in user, or null before sign-in */
+export const me = query({
+  args: {},
+  handler: async (ctx) => {
+    return await getViewer(ctx);
+  },
+});
+
+/** The signed-in user's role on a calculator, or null without access */
+export const roleForCalculation = query({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    const viewer = await requireViewer(ctx);
+    const calculation = await ctx.db.get(calculationId);
+    return calculation ? await getCalculationRole(ctx, viewer, calculation) : null;
+  },
+});
+
+export const roleForCompany = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    return await getCompanyRole(ctx, await requireViewer(ctx), companyId);
+  },
+});
+
+export const listByCompany = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    await requireCompanyRole(ctx, companyId, "viewer");
+    const members = await ctx.db
+      .query("memberships")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+      .collect();
+    return members.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+// ============================================================
+// Mutations (owners only, except leaving)
+// ============================================================
+
+/** Give someone access by the email they sign in with. Works before their first sign-in. */
+export const add = mutation({
+  args: { companyId: v.id("companies"), email: v.string(), role: roleValidator },
+  handler: async (ctx, { companyId, email, role }) => {
+    const { viewer } = await requireCompanyRole(ctx, companyId, "owner");
+    if (!isValidEmail(email)) throw new Error(`Invalid email "${email}"`);
+
+    const normalized = normalizeEmail(email);
+    const existing = await ctx.db
+      .query("memberships")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId).eq("email", normalized))
+      .unique();
+    if (existing) throw new Error(`${normalized} is already a member`);
+
+    return await ctx.db.insert("memberships", {
+      companyId,
+      email: normalized,
+      role,
+      addedBy: viewer.email,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const updateRole = mutation({
+  args: { id: v.id("memberships"), role: roleValidator },
+  handler: async (ctx, { id, role }) => {
+    const membership = await ctx.db.get(id);
+    if (!membership) throw new Error("Member not found");
+    await requireCompanyRole(ctx, membership.companyId, "owner");
+
+    const members = await ctx.db
+      .query("memberships")
+      .withIndex("by_companyId", (q) => q.eq("companyId", membership.companyId))
+      .collect();
+    const blocked = checkOwnerChange(members, membership.email, role);
+    if (blocked) throw new Error(blocked);
+
+    await ctx.db.patch(id, { role });
+  },
+});
+
+/** Owners remove anyone; everyone else can only remove themselves */
+export const remove = mutation({
+  args: { id: v.id("memberships") },
+  handler: async (ctx, { id }) => {
+    const membership = await ctx.db.get(id);
+    if (!membership) throw new Error("Member not found");
+    const viewer = await requireViewer(ctx);
+    if (membership.email !== viewer.email) await requireCompanyRole(ctx, membership.companyId, "owner");
+
+    const members = await ctx.db
+      .query("memberships")
+      .withIndex("by_companyId", (q) => q.eq("companyId", membership.companyId))
+      .collect();
+    const blocked = checkOwnerChange(members, membership.email, null);
+    if (blocked) throw new Error(blocked);
+
+    await ctx.db.delete(id);
+  },
+});
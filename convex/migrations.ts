@@ -1,4 +1,4 @@
-import { mutation } from "./_generated/server";
+import { internalMutation } from "./_generated/server";
 
 /**
  * Migration: Backfill companyId on useCases and useCaseIds on calculations.
@@ -11,7 +11,7 @@ import { mutation } from "./_generated/server";
  *
  * Safe to run multiple times (idempotent).
  */
-export const backfillCompanyScoping = mutation({
+export const backfillCompanyScoping = internalMutation({
   args: {},
   handler: async (ctx) => {
     const allCalculations = await ctx.db.query("calculations").collect();
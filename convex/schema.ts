@@ -1,6 +1,28 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Company-defined archetype: input fields, a safe arithmetic formula over
+// their keys, a dimension and an optional trace template. Value items
+// using it keep a copy so they evaluate without a lookup.
+export const customArchetypeDefinition = {
+  key: v.string(), // "custom_" + slug of the label, unique per company
+  label: v.string(),
+  description: v.optional(v.string()),
+  dimension: v.string(), // One of the 5 dimensions
+  fields: v.array(
+    v.object({
+      key: v.string(),
+      label: v.string(),
+      type: v.union(v.literal("number"), v.literal("percentage"), v.literal("currency"), v.literal("hours")),
+      prompt: v.optional(v.string()),
+      defaultValue: v.optional(v.number()),
+      defaultConfidence: v.optional(v.string()),
+    })
+  ),
+  formula: v.string(),
+  traceTemplate: v.optional(v.string()),
+};
+
 export default defineSchema({
   // Companies — groups of related calculators
   companies: defineTable({
@@ -8,15 +30,33 @@ export default defineSchema({
     shortId: v.string(),
     industry: v.optional(v.string()),
     employeeCount: v.optional(v.number()),
+    // Headcount per department, matched to use case departments for capacity checks
+    departmentHeadcounts: v.optional(
+      v.array(v.object({ department: v.string(), headcount: v.number() }))
+    ),
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index("by_shortId", ["shortId"]),
 
+  // Company members — the company is the workspace. Keyed by the email the
+  // identity provider signs people in with, so people can be added before
+  // their first sign-in.
+  memberships: defineTable({
+    companyId: v.id("companies"),
+    email: v.string(), // Lowercased
+    role: v.union(v.literal("owner"), v.literal("editor"), v.literal("viewer")),
+    addedBy: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_companyId", ["companyId", "email"])
+    .index("by_email", ["email"]),
+
   // ROI Calculation (root document)
   calculations: defineTable({
     name: v.string(),
     shortId: v.string(),
     companyId: v.optional(v.id("companies")),
+    createdBy: v.optional(v.string()), // Email of the creator; owns it while it has no company
     createdAt: v.number(),
     updatedAt: v.number(),
 
@@ -34,11 +74,14 @@ export default defineSchema({
       projectionYears: v.number(),
       realizationRamp: v.array(v.number()),
       annualGrowthRate: v.number(),
+      discountRate: v.optional(v.number()),
+      fteHoursPerMonth: v.optional(v.number()),
     }),
 
     // Investment comparison
     currentSpend: v.optional(v.number()),
     proposedSpend: v.optional(v.number()),
+    implementationCost: v.optional(v.number()), // One-time, year 0
 
     // Editable talking points
     talkingPoints: v.optional(v.array(v.string())),
@@ -52,7 +95,51 @@ export default defineSchema({
 
     // Referenced use case IDs (company-scoped sharing)
     useCaseIds: v.optional(v.array(v.id("useCases"))),
-  }).index("by_shortId", ["shortId"]),
+
+    // Named scenario sets — "expected" is kept in sync with `assumptions`
+    scenarios: v.optional(
+      v.array(
+        v.object({
+          id: v.union(
+            v.literal("conservative"),
+            v.literal("expected"),
+            v.literal("aggressive")
+          ),
+          name: v.string(),
+          assumptions: v.object({
+            projectionYears: v.number(),
+            realizationRamp: v.array(v.number()),
+            annualGrowthRate: v.number(),
+            discountRate: v.optional(v.number()),
+            fteHoursPerMonth: v.optional(v.number()),
+          }),
+          itemOverrides: v.optional(
+            v.array(
+              v.object({
+                valueItemId: v.string(),
+                inputs: v.any(), // { [inputKey]: number }
+              })
+            )
+          ),
+        })
+      )
+    ),
+    activeScenarioId: v.optional(
+      v.union(v.literal("conservative"), v.literal("expected"), v.literal("aggressive"))
+    ),
+  })
+    .index("by_shortId", ["shortId"])
+    .index("by_companyId", ["companyId"])
+    .index("by_createdBy", ["createdBy"]),
+
+  // Custom archetypes — company-scoped value drivers
+  customArchetypes: defineTable({
+    companyId: v.id("companies"),
+    ...customArchetypeDefinition,
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_companyId", ["companyId"]),
 
   // Value Items — archetype-driven
   valueItems: defineTable({
@@ -60,8 +147,9 @@ export default defineSchema({
     shortId: v.optional(v.string()),
 
     // UVS taxonomy
-    archetype: v.string(), // One of 16 archetypes
+    archetype: v.string(), // One of 16 archetypes, or a company custom archetype key
     dimension: v.string(), // Derived from archetype (denormalized)
+    customArchetype: v.optional(v.object(customArchetypeDefinition)), // Custom archetypes only (denormalized)
 
     name: v.string(),
     description: v.optional(v.string()),
@@ -159,6 +247,10 @@ export default defineSchema({
       )
     ),
 
+    // Planned go-live (1-based projection month) and ramp to full value
+    goLiveMonth: v.optional(v.number()),
+    rampMonths: v.optional(v.number()),
+
     order: v.number(),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -184,7 +276,187 @@ export default defineSchema({
     realizedAnnualValue: v.optional(v.number()),
     // Metadata
     fetchedAt: v.number(),
+    // Set when a fetch hit the run cap: days before sampledBefore may be
+    // missing runs, and sampled says whether that touches the 30-day window
+    sampled: v.optional(v.boolean()),
+    sampledBefore: v.optional(v.string()),
   })
     .index("by_calculationId", ["calculationId"])
     .index("by_zapId", ["zapId"]),
+
+  // Run counts per Zap per UTC day, kept as history while zapRunCache holds
+  // the latest rolling counts (see src/utils/value-realized.ts). Each
+  // calculator keeps its own, so deleting one leaves the others' history.
+  zapRunDays: defineTable({
+    zapId: v.string(),
+    useCaseId: v.id("useCases"),
+    calculationId: v.id("calculations"),
+    day: v.string(), // YYYY-MM-DD
+    totalRuns: v.number(),
+    successfulRuns: v.number(),
+    failedRuns: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_zapId", ["zapId", "calculationId", "day"])
+    .index("by_calculationId", ["calculationId", "day"]),
+
+  // One row per sync of a calculator's linked Zaps, scheduled or manual.
+  // Failed and rate-limited runs back off the next one (src/utils/zapSync.ts).
+  zapSyncRuns: defineTable({
+    calculationId: v.id("calculations"),
+    trigger: v.union(v.literal("scheduled"), v.literal("manual")),
+    status: v.union(
+      v.literal("succeeded"),
+      v.literal("partial"),
+      v.literal("failed"),
+      v.literal("rate_limited")
+    ),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    zapsUpdated: v.number(),
+    zapsSkipped: v.number(),
+    zapsFailed: v.number(),
+    error: v.optional(v.string()),
+    retryAt: v.optional(v.number()),
+  })
+    .index("by_calculationId", ["calculationId", "startedAt"])
+    .index("by_status", ["status", "startedAt"]),
+
+  // Change log — append-only, one entry per calculation, value item or use
+  // case document written. Entries are undone newest-first to rebuild or
+  // restore a calculator at an earlier point (src/utils/history.ts).
+  changeLog: defineTable({
+    calculationId: v.id("calculations"), // Owning calculator
+    entity: v.union(v.literal("calculation"), v.literal("valueItem"), v.literal("useCase")),
+    entityId: v.string(),
+    action: v.union(v.literal("create"), v.literal("update"), v.literal("delete")),
+    changes: v.array(
+      v.object({
+        field: v.string(),
+        before: v.optional(v.any()), // Unset when the field had no value
+        after: v.optional(v.any()),
+      })
+    ),
+    operation: v.string(), // Mutation that made the change, e.g. "valueItems.update"
+    actor: v.string(), // Signed-in user, or "anonymous"
+    at: v.number(),
+  })
+    .index("by_calculationId", ["calculationId", "at"])
+    .index("by_entityId", ["entityId"]),
+
+  // Named, immutable copies of a calculator's GET /full payload. Self-contained,
+  // so share links keep working after the calculator is edited or deleted.
+  snapshots: defineTable({
+    calculationId: v.id("calculations"), // Calculator it was taken from
+    shortId: v.string(), // Share link id: /s/:shortId
+    name: v.string(), // e.g. "Board deck, March"
+    payload: v.any(), // FullCalculation as of createdAt
+    createdBy: v.string(), // Signed-in user, or "anonymous"
+    createdAt: v.number(),
+  })
+    .index("by_calculationId", ["calculationId", "createdAt"])
+    .index("by_shortId", ["shortId"]),
+
+  // Revocable links for people without an account. A link opens one
+  // calculator's summary, or one snapshot, and nothing else.
+  shareLinks: defineTable({
+    token: v.string(), // Unguessable; the link is /share/:token
+    calculationId: v.id("calculations"),
+    snapshotId: v.optional(v.id("snapshots")), // Frozen figures instead of live ones
+    obfuscated: v.boolean(), // Anonymized view (obfuscation settings applied server-side)
+    label: v.optional(v.string()), // Who it was sent to, e.g. "Acme CFO"
+    createdBy: v.string(),
+    createdAt: v.number(),
+    expiresAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_token", ["token"])
+    .index("by_calculationId", ["calculationId"]),
+
+  // REST API credentials for scripts and partner tools, one company each.
+  // The key itself is shown once at creation; only its hash is kept.
+  apiKeys: defineTable({
+    companyId: v.id("companies"),
+    name: v.string(), // e.g. "Salesforce sync"
+    hash: v.string(), // SHA-256 of the key, hex
+    hint: v.string(), // First characters, e.g. "zvk_a1B2c3"
+    scope: v.union(v.literal("read"), v.literal("value_items:write"), v.literal("admin")),
+    rateLimitPerMinute: v.number(),
+    windowStart: v.optional(v.number()), // Current rate limit window
+    windowCount: v.optional(v.number()),
+    lastUsedAt: v.optional(v.number()),
+    createdBy: v.string(),
+    createdAt: v.number(),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_hash", ["hash"])
+    .index("by_companyId", ["companyId"]),
+
+  // Issued by the HTTP router for each API key request it lets through.
+  // Public functions take the grant, not the key, so every keyed call is
+  // one the router has counted against the key's rate limit.
+  apiKeyGrants: defineTable({
+    apiKeyId: v.id("apiKeys"),
+    token: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_apiKeyId", ["apiKeyId"]),
+
+  // Outbound webhook subscriptions, one company each
+  webhooks: defineTable({
+    companyId: v.id("companies"),
+    url: v.string(), // https only
+    events: v.array(v.string()), // WebhookEvent names
+    secret: v.string(), // Signs payloads; kept in the clear because signing needs it
+    description: v.optional(v.string()),
+    realizationThreshold: v.optional(v.number()), // 0-1, for realization.threshold_crossed
+    active: v.boolean(),
+    createdBy: v.string(),
+    createdAt: v.number(),
+  }).index("by_companyId", ["companyId"]),
+
+  // One row per event sent to a webhook, with its latest attempt
+  webhookDeliveries: defineTable({
+    webhookId: v.id("webhooks"),
+    event: v.string(),
+    data: v.any(), // Event body; the envelope is added when sending
+    status: v.union(v.literal("pending"), v.literal("succeeded"), v.literal("failed")),
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    lastStatusCode: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    deliveredAt: v.optional(v.number()),
+  }).index("by_webhookId", ["webhookId", "createdAt"]),
+
+  // A company's CRM and which fields calculator metrics map to (see src/utils/crm.ts)
+  crmConfigs: defineTable({
+    companyId: v.id("companies"),
+    provider: v.union(v.literal("salesforce"), v.literal("hubspot")),
+    opportunityFields: v.object({
+      annualValue: v.optional(v.string()),
+      roiMultiple: v.optional(v.string()),
+      npv: v.optional(v.string()),
+      topDimension: v.optional(v.string()),
+    }),
+    accountFields: v.object({
+      industry: v.optional(v.string()),
+      employeeCount: v.optional(v.string()),
+    }),
+    updatedBy: v.string(),
+    updatedAt: v.number(),
+  }).index("by_companyId", ["companyId"]),
+
+  // The CRM opportunity a calculator syncs to, and how the last sync went.
+  // Kept off `calculations` so bundles and snapshots don't carry it.
+  crmLinks: defineTable({
+    calculationId: v.id("calculations"),
+    opportunityId: v.string(), // Salesforce Opportunity ID or HubSpot deal ID
+    lastSyncedAt: v.optional(v.number()),
+    lastSyncedBy: v.optional(v.string()),
+    lastPushed: v.optional(v.record(v.string(), v.union(v.string(), v.number()))),
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_calculationId", ["calculationId"]),
 });
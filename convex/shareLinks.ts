@@ -0,0 +1,132 @@
+import { v } from "convex/values";
+import { query, mutation } from "./functions";
+import { requireCalculationRole } from "./access";
+import { listCalculatorItems } from "./valueItems";
+import { listCalculatorUseCases } from "./useCases";
+import { generateShareToken, hasRole, isShareLinkActive, redactForShare } from "../src/utils/access";
+import { checkSnapshotTotals, getSnapshotDocuments, getSnapshotFigures } from "../src/utils/snapshots";
+import type { Calculation, UseCase, ValueItem } from "../src/types/roi";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================
+// Queries
+// ============================================================
+
+/**
+ * Every link of a calculator, newest first. Tokens are credentials, so only
+ * editors, who can create and revoke links, get them back.
+ */
+export const listByCalculation = query({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    const { role } = await requireCalculationRole(ctx, calculationId, "viewer");
+    const canShare = hasRole(role, "editor");
+    const links = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .collect();
+
+    const withSnapshots = await Promise.all(
+      links.map(async ({ token, ...link }) => ({
+        ...link,
+        token: canShare ? token : null,
+        snapshotName: link.snapshotId ? ((await ctx.db.get(link.snapshotId))?.name ?? null) : null,
+      }))
+    );
+    return withSnapshots.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+/**
+ * What a share link shows. Needs no sign-in: the token is the credential.
+ * Returns null for unknown, revoked and expired links alike.
+ */
+export const resolve = query({
+  args: { token: v.string() },
+  handler: async (ctx, { token }) => {
+    const link = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_token", (q) => q.eq("token", token))
+      .unique();
+    if (!link || !isShareLinkActive(link)) return null;
+
+    const base = { label: link.label, obfuscated: link.obfuscated, expiresAt: link.expiresAt };
+
+    if (link.snapshotId) {
+      const snapshot = await ctx.db.get(link.snapshotId);
+      if (!snapshot) return null;
+      return {
+        ...base,
+        snapshot: {
+          name: snapshot.name,
+          createdAt: snapshot.createdAt,
+          totals: checkSnapshotTotals(snapshot.payload),
+          figures: getSnapshotFigures(snapshot.payload),
+        },
+        ...redactForShare(getSnapshotDocuments(snapshot.payload), link.obfuscated),
+      };
+    }
+
+    const calculation = await ctx.db.get(link.calculationId);
+    if (!calculation) return null;
+    const docs = {
+      calculation: calculation as unknown as Calculation,
+      valueItems: (await listCalculatorItems(ctx, link.calculationId)) as unknown as ValueItem[],
+      useCases: (await listCalculatorUseCases(ctx, link.calculationId)) as unknown as UseCase[],
+    };
+    return { ...base, snapshot: null, ...redactForShare(docs, link.obfuscated) };
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+export const create = mutation({
+  args: {
+    calculationId: v.id("calculations"),
+    snapshotId: v.optional(v.id("snapshots")),
+    obfuscated: v.boolean(),
+    label: v.optional(v.string()),
+    expiresInDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { viewer } = await requireCalculationRole(ctx, args.calculationId, "editor");
+
+    if (args.snapshotId) {
+      const snapshot = await ctx.db.get(args.snapshotId);
+      if (!snapshot || snapshot.calculationId !== args.calculationId) {
+        throw new Error("Snapshot not found for this calculator");
+      }
+    }
+    if (args.expiresInDays !== undefined && (!Number.isFinite(args.expiresInDays) || args.expiresInDays <= 0)) {
+      throw new Error("expiresInDays must be a positive number of days");
+    }
+
+    const token = generateShareToken();
+    const now = Date.now();
+    const id = await ctx.db.insert("shareLinks", {
+      token,
+      calculationId: args.calculationId,
+      snapshotId: args.snapshotId,
+      obfuscated: args.obfuscated,
+      label: args.label?.trim() || undefined,
+      createdBy: viewer.email,
+      createdAt: now,
+      expiresAt: args.expiresInDays !== undefined ? now + args.expiresInDays * DAY_MS : undefined,
+    });
+    return { id, token };
+  },
+});
+
+/** Stop a link working. The record stays so the list shows who had access. */
+export const revoke = mutation({
+  args: { id: v.id("shareLinks") },
+  handler: async (ctx, { id }) => {
+    const link = await ctx.db.get(id);
+    if (!link) throw new Error("Share link not found");
+    await requireCalculationRole(ctx, link.calculationId, "editor");
+    if (link.revokedAt === undefined) await ctx.db.patch(id, { revokedAt: Date.now() });
+  },
+});
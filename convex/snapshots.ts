@@ -0,0 +1,134 @@
+import { v } from "convex/values";
+import { query, mutation } from "./functions";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { getActor } from "./changeLog";
+import { accessError, getCalculationRole, requireCalculationRole, requireViewer, type Viewer } from "./access";
+import { listCalculatorItems } from "./valueItems";
+import { listCalculatorUseCases } from "./useCases";
+import { buildFullCalculation } from "../src/utils/fullCalculation";
+import type { UseCase, ValueItem } from "../src/types/roi";
+import { hasRole, type MemberRole } from "../src/utils/access";
+
+function generateShortId(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  let result = "";
+  for (let i = 0; i < 6; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+/**
+ * Access follows the calculator. Once it is deleted, the frozen copy's company
+ * (or creator) decides, and whoever took the snapshot keeps owning it.
+ */
+async function getSnapshotRole(ctx: QueryCtx, viewer: Viewer, snapshot: Doc<"snapshots">): Promise<MemberRole | null> {
+  const calculation = await ctx.db.get(snapshot.calculationId);
+  if (calculation) return await getCalculationRole(ctx, viewer, calculation);
+  if (!viewer.apiKey && viewer.email === snapshot.createdBy) return "owner";
+  return await getCalculationRole(ctx, viewer, snapshot.payload.calculation as Doc<"calculations">);
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+/** Snapshots of a calculator, newest first, without their payloads */
+export const listByCalculation = query({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.calculationId, "viewer");
+    const snapshots = await ctx.db
+      .query("snapshots")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.calculationId))
+      .order("desc")
+      .collect();
+    return snapshots.map(({ payload, ...snapshot }) => ({
+      ...snapshot,
+      totalAnnualValue: payload.summary.totalAnnualValue as number,
+    }));
+  },
+});
+
+export const getByShortId = query({
+  args: { shortId: v.string() },
+  handler: async (ctx, args) => {
+    const snapshot = await ctx.db
+      .query("snapshots")
+      .withIndex("by_shortId", (q) => q.eq("shortId", args.shortId))
+      .first();
+    if (!snapshot) return null;
+
+    const role = await getSnapshotRole(ctx, await requireViewer(ctx), snapshot);
+    return hasRole(role, "viewer") ? snapshot : null;
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+/**
+ * Freeze the calculator as GET /full would return it right now. Snapshots have
+ * no update: to present new figures, take a new one.
+ */
+export const create = mutation({
+  args: { calculationId: v.id("calculations"), name: v.string() },
+  handler: async (ctx, args) => {
+    const { calculation } = await requireCalculationRole(ctx, args.calculationId, "editor");
+    const name = args.name.trim();
+    if (!name) throw new Error("Snapshot name is required");
+
+    const valueItems = await listCalculatorItems(ctx, args.calculationId);
+    const useCases = await listCalculatorUseCases(ctx, args.calculationId);
+    const company = calculation.companyId ? await ctx.db.get(calculation.companyId) : null;
+
+    let shortId = generateShortId();
+    while (
+      await ctx.db
+        .query("snapshots")
+        .withIndex("by_shortId", (q) => q.eq("shortId", shortId))
+        .first()
+    ) {
+      shortId = generateShortId();
+    }
+
+    const id = await ctx.db.insert("snapshots", {
+      calculationId: args.calculationId,
+      shortId,
+      name,
+      payload: buildFullCalculation(
+        calculation,
+        valueItems as unknown as ValueItem[],
+        useCases as unknown as UseCase[],
+        company?.departmentHeadcounts
+      ),
+      createdBy: await getActor(ctx),
+      createdAt: Date.now(),
+    });
+    return { id, shortId };
+  },
+});
+
+/** Delete a snapshot. Its share link stops working. */
+export const remove = mutation({
+  args: { id: v.id("snapshots") },
+  handler: async (ctx, args) => {
+    const snapshot = await ctx.db.get(args.id);
+    if (!snapshot) return;
+    if (!hasRole(await getSnapshotRole(ctx, await requireViewer(ctx), snapshot), "editor")) {
+      throw accessError("FORBIDDEN", `You need editor access to "${snapshot.name}"`);
+    }
+
+    // Its share links go with it
+    const links = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", snapshot.calculationId))
+      .collect();
+    for (const link of links) {
+      if (link.snapshotId === args.id) await ctx.db.delete(link._id);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
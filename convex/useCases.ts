@@ -1,5 +1,10 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation } from "./functions";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { trackChanges } from "./changeLog";
+import { readableChild, requireCalculationRole, requireChildRole, requireCompanyRole } from "./access";
+import { calculationEventData, emitWebhookEvent } from "./webhooks";
 
 function generateShortId(): string {
   const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
@@ -13,6 +18,15 @@ function generateShortId(): string {
 const VALID_STATUSES = ["identified", "in_progress", "deployed", "future"];
 const VALID_EFFORTS = ["low", "medium", "high"];
 
+function validateSchedule(goLiveMonth?: number, rampMonths?: number) {
+  if (goLiveMonth !== undefined && (!Number.isInteger(goLiveMonth) || goLiveMonth < 1)) {
+    throw new Error(`Invalid goLiveMonth "${goLiveMonth}". Must be a whole month, 1 or later`);
+  }
+  if (rampMonths !== undefined && (!Number.isInteger(rampMonths) || rampMonths < 0)) {
+    throw new Error(`Invalid rampMonths "${rampMonths}". Must be a whole number of months, 0 or more`);
+  }
+}
+
 const metricValidator = v.object({
   name: v.string(),
   before: v.optional(v.string()),
@@ -20,6 +34,26 @@ const metricValidator = v.object({
   improvement: v.optional(v.string()),
 });
 
+/** Cached Zap details on an architecture item, refreshed by the Zap sync */
+export const zapDetailsValidator = v.object({
+  title: v.optional(v.string()),
+  isEnabled: v.optional(v.boolean()),
+  lastSuccessfulRun: v.optional(v.string()),
+  steps: v.optional(
+    v.array(
+      v.object({
+        appTitle: v.string(),
+        appImageUrl: v.optional(v.string()),
+        appColor: v.optional(v.string()),
+        actionTitle: v.string(),
+        actionType: v.optional(v.string()),
+        isInstant: v.optional(v.boolean()),
+      })
+    )
+  ),
+  fetchedAt: v.optional(v.number()),
+});
+
 const architectureItemValidator = v.object({
   type: v.string(),
   name: v.string(),
@@ -27,26 +61,7 @@ const architectureItemValidator = v.object({
   zapId: v.optional(v.string()),
   description: v.optional(v.string()),
   status: v.optional(v.string()),
-  zapDetails: v.optional(
-    v.object({
-      title: v.optional(v.string()),
-      isEnabled: v.optional(v.boolean()),
-      lastSuccessfulRun: v.optional(v.string()),
-      steps: v.optional(
-        v.array(
-          v.object({
-            appTitle: v.string(),
-            appImageUrl: v.optional(v.string()),
-            appColor: v.optional(v.string()),
-            actionTitle: v.string(),
-            actionType: v.optional(v.string()),
-            isInstant: v.optional(v.boolean()),
-          })
-        )
-      ),
-      fetchedAt: v.optional(v.number()),
-    })
-  ),
+  zapDetails: v.optional(zapDetailsValidator),
   zapConfig: v.optional(
     v.object({
       title: v.optional(v.string()),
@@ -64,31 +79,38 @@ const architectureItemValidator = v.object({
   ),
 });
 
+/** Use cases a calculator shows, including shared ones it references */
+export async function listCalculatorUseCases(ctx: Pick<QueryCtx, "db">, calculationId: Id<"calculations">) {
+  const calculation = await ctx.db.get(calculationId);
+  if (!calculation) return [];
+
+  // If calculation has useCaseIds, use those (new model)
+  if (calculation.useCaseIds && calculation.useCaseIds.length > 0) {
+    const useCases = await Promise.all(
+      calculation.useCaseIds.map((id) => ctx.db.get(id))
+    );
+    return useCases.filter((uc): uc is NonNullable<typeof uc> => uc !== null);
+  }
+
+  // Fallback: old model via calculationId index
+  return await ctx.db
+    .query("useCases")
+    .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+    .collect();
+}
+
 export const listByCalculation = query({
   args: { calculationId: v.id("calculations") },
   handler: async (ctx, args) => {
-    const calculation = await ctx.db.get(args.calculationId);
-    if (!calculation) return [];
-
-    // If calculation has useCaseIds, use those (new model)
-    if (calculation.useCaseIds && calculation.useCaseIds.length > 0) {
-      const useCases = await Promise.all(
-        calculation.useCaseIds.map((id) => ctx.db.get(id))
-      );
-      return useCases.filter((uc): uc is NonNullable<typeof uc> => uc !== null);
-    }
-
-    // Fallback: old model via calculationId index
-    return await ctx.db
-      .query("useCases")
-      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.calculationId))
-      .collect();
+    await requireCalculationRole(ctx, args.calculationId, "viewer");
+    return await listCalculatorUseCases(ctx, args.calculationId);
   },
 });
 
 export const listByCompany = query({
   args: { companyId: v.id("companies") },
   handler: async (ctx, args) => {
+    await requireCompanyRole(ctx, args.companyId, "viewer");
     return await ctx.db
       .query("useCases")
       .withIndex("by_companyId", (q) => q.eq("companyId", args.companyId))
@@ -99,17 +121,18 @@ export const listByCompany = query({
 export const get = query({
   args: { id: v.id("useCases") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await readableChild(ctx, await ctx.db.get(args.id));
   },
 });
 
 export const getByShortId = query({
   args: { shortId: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const useCase = await ctx.db
       .query("useCases")
       .withIndex("by_shortId", (q) => q.eq("shortId", args.shortId))
       .unique();
+    return await readableChild(ctx, useCase);
   },
 });
 
@@ -123,8 +146,12 @@ export const create = mutation({
     description: v.optional(v.string()),
     metrics: v.optional(v.array(metricValidator)),
     architecture: v.optional(v.array(architectureItemValidator)),
+    goLiveMonth: v.optional(v.number()),
+    rampMonths: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const { calculation } = await requireCalculationRole(ctx, args.calculationId, "editor");
+
     // Validate status
     if (!VALID_STATUSES.includes(args.status)) {
       throw new Error(`Invalid status "${args.status}". Valid: ${VALID_STATUSES.join(", ")}`);
@@ -135,6 +162,7 @@ export const create = mutation({
         `Invalid implementationEffort "${args.implementationEffort}". Valid: ${VALID_EFFORTS.join(", ")}`
       );
     }
+    validateSchedule(args.goLiveMonth, args.rampMonths);
 
     const existingCases = await ctx.db
       .query("useCases")
@@ -156,11 +184,10 @@ export const create = mutation({
         .unique();
     }
 
-    // Look up the calculation's companyId
-    const calculation = await ctx.db.get(args.calculationId);
-    const companyId = calculation?.companyId;
+    const companyId = calculation.companyId;
 
-    const id = await ctx.db.insert("useCases", {
+    const tracked = trackChanges(ctx, "useCases.create");
+    const id = await tracked.insert("useCases", {
       calculationId: args.calculationId,
       companyId,
       shortId,
@@ -171,14 +198,16 @@ export const create = mutation({
       description: args.description,
       metrics: args.metrics,
       architecture: args.architecture,
+      goLiveMonth: args.goLiveMonth,
+      rampMonths: args.rampMonths,
       order: maxOrder + 1,
       createdAt: now,
       updatedAt: now,
     });
 
     // Append to calculation's useCaseIds array
-    const existingIds = calculation?.useCaseIds ?? [];
-    await ctx.db.patch(args.calculationId, {
+    const existingIds = calculation.useCaseIds ?? [];
+    await tracked.patch("calculations", args.calculationId, {
       updatedAt: now,
       useCaseIds: [...existingIds, id],
     });
@@ -197,11 +226,14 @@ export const update = mutation({
     description: v.optional(v.string()),
     metrics: v.optional(v.array(metricValidator)),
     architecture: v.optional(v.array(architectureItemValidator)),
+    // null clears a schedule field
+    goLiveMonth: v.optional(v.union(v.number(), v.null())),
+    rampMonths: v.optional(v.union(v.number(), v.null())),
   },
   handler: async (ctx, args) => {
     const { id, ...updates } = args;
-    const current = await ctx.db.get(id);
-    if (!current) throw new Error("Use case not found");
+    // Shared use cases are edited with the rights of the calculator they belong to
+    const current = await requireChildRole(ctx, "useCases", id, "editor");
 
     if (updates.status && !VALID_STATUSES.includes(updates.status)) {
       throw new Error(`Invalid status "${updates.status}"`);
@@ -210,17 +242,34 @@ export const update = mutation({
       throw new Error(`Invalid implementationEffort "${updates.implementationEffort}"`);
     }
 
+    validateSchedule(updates.goLiveMonth ?? undefined, updates.rampMonths ?? undefined);
+
     const filtered: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(updates)) {
-      if (val !== undefined) {
+      if (val === null) {
+        filtered[key] = undefined;
+      } else if (val !== undefined) {
         filtered[key] = val;
       }
     }
 
     if (Object.keys(filtered).length > 0) {
       filtered.updatedAt = Date.now();
-      await ctx.db.patch(id, filtered);
-      await ctx.db.patch(current.calculationId, { updatedAt: Date.now() });
+      const tracked = trackChanges(ctx, "useCases.update");
+      await tracked.patch("useCases", id, filtered);
+      await tracked.patch("calculations", current.calculationId, { updatedAt: Date.now() });
+
+      if (updates.status && updates.status !== current.status) {
+        const calculation = await ctx.db.get(current.calculationId);
+        if (calculation) {
+          await emitWebhookEvent(ctx, current.companyId ?? calculation.companyId, "use_case.status_changed", {
+            calculation: await calculationEventData(ctx, calculation),
+            useCase: { id, shortId: current.shortId, name: updates.name ?? current.name },
+            previousStatus: current.status,
+            status: updates.status,
+          });
+        }
+      }
     }
     return id;
   },
@@ -229,31 +278,31 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("useCases") },
   handler: async (ctx, args) => {
-    const useCase = await ctx.db.get(args.id);
-    if (useCase) {
-      // Unlink all value items from this use case
-      const linkedItems = await ctx.db
-        .query("valueItems")
-        .withIndex("by_calculationId", (q) => q.eq("calculationId", useCase.calculationId))
-        .collect();
-      for (const item of linkedItems) {
-        if (item.useCaseId === args.id) {
-          await ctx.db.patch(item._id, { useCaseId: undefined });
-        }
+    const useCase = await requireChildRole(ctx, "useCases", args.id, "editor");
+    const tracked = trackChanges(ctx, "useCases.remove");
+
+    // Unlink all value items from this use case
+    const linkedItems = await ctx.db
+      .query("valueItems")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", useCase.calculationId))
+      .collect();
+    for (const item of linkedItems) {
+      if (item.useCaseId === args.id) {
+        await tracked.patch("valueItems", item._id, { useCaseId: undefined });
       }
+    }
 
-      // Remove from all calculations' useCaseIds arrays
-      const allCalcs = await ctx.db.query("calculations").collect();
-      for (const calc of allCalcs) {
-        if (calc.useCaseIds?.includes(args.id)) {
-          await ctx.db.patch(calc._id, {
-            useCaseIds: calc.useCaseIds.filter((id) => id !== args.id),
-            updatedAt: Date.now(),
-          });
-        }
+    // Remove from all calculations' useCaseIds arrays
+    const allCalcs = await ctx.db.query("calculations").collect();
+    for (const calc of allCalcs) {
+      if (calc.useCaseIds?.includes(args.id)) {
+        await tracked.patch("calculations", calc._id, {
+          useCaseIds: calc.useCaseIds.filter((id) => id !== args.id),
+          updatedAt: Date.now(),
+        });
       }
     }
-    await ctx.db.delete(args.id);
+    await tracked.delete("useCases", args.id);
   },
 });
 
@@ -263,10 +312,16 @@ export const reorder = mutation({
     useCaseIds: v.array(v.id("useCases")),
   },
   handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.calculationId, "editor");
+    for (const useCaseId of args.useCaseIds) {
+      await requireChildRole(ctx, "useCases", useCaseId, "editor");
+    }
+
+    const tracked = trackChanges(ctx, "useCases.reorder");
     for (const [index, useCaseId] of args.useCaseIds.entries()) {
-      await ctx.db.patch(useCaseId, { order: index, updatedAt: Date.now() });
+      await tracked.patch("useCases", useCaseId, { order: index, updatedAt: Date.now() });
     }
-    await ctx.db.patch(args.calculationId, { updatedAt: Date.now() });
+    await tracked.patch("calculations", args.calculationId, { updatedAt: Date.now() });
   },
 });
 
@@ -277,11 +332,8 @@ export const addToCalculation = mutation({
     useCaseId: v.id("useCases"),
   },
   handler: async (ctx, args) => {
-    const calculation = await ctx.db.get(args.calculationId);
-    if (!calculation) throw new Error("Calculation not found");
-
-    const useCase = await ctx.db.get(args.useCaseId);
-    if (!useCase) throw new Error("Use case not found");
+    const { calculation } = await requireCalculationRole(ctx, args.calculationId, "editor");
+    await requireChildRole(ctx, "useCases", args.useCaseId, "viewer");
 
     // Check it's not already in this calculation
     const existingIds = calculation.useCaseIds ?? [];
@@ -289,7 +341,7 @@ export const addToCalculation = mutation({
       throw new Error("Use case already in this calculation");
     }
 
-    await ctx.db.patch(args.calculationId, {
+    await trackChanges(ctx, "useCases.addToCalculation").patch("calculations", args.calculationId, {
       useCaseIds: [...existingIds, args.useCaseId],
       updatedAt: Date.now(),
     });
@@ -305,15 +357,14 @@ export const removeFromCalculation = mutation({
     useCaseId: v.id("useCases"),
   },
   handler: async (ctx, args) => {
-    const calculation = await ctx.db.get(args.calculationId);
-    if (!calculation) throw new Error("Calculation not found");
+    const { calculation } = await requireCalculationRole(ctx, args.calculationId, "editor");
 
     const existingIds = calculation.useCaseIds ?? [];
     if (!existingIds.includes(args.useCaseId)) {
       throw new Error("Use case not in this calculation");
     }
 
-    await ctx.db.patch(args.calculationId, {
+    await trackChanges(ctx, "useCases.removeFromCalculation").patch("calculations", args.calculationId, {
       useCaseIds: existingIds.filter((id) => id !== args.useCaseId),
       updatedAt: Date.now(),
     });
@@ -1,5 +1,13 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation } from "./functions";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { resolveArchetype } from "./customArchetypes";
+import { trackChanges } from "./changeLog";
+import { listReadableCalculations, readableChild, requireCalculationRole, requireChildRole } from "./access";
+import { calculationEventData, emitWebhookEvent } from "./webhooks";
+import { selectCalculatorItems } from "../src/utils/calculations";
+import type { WebhookEvent } from "../src/utils/webhooks";
 
 function generateShortId(): string {
   const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
@@ -10,105 +18,92 @@ function generateShortId(): string {
   return result;
 }
 
-// Archetype → Dimension mapping (server-side copy to avoid importing frontend types)
-const ARCHETYPE_DIMENSIONS: Record<string, string> = {
-  pipeline_velocity: "revenue_impact",
-  revenue_capture: "revenue_impact",
-  revenue_expansion: "revenue_impact",
-  time_to_revenue: "revenue_impact",
-  process_acceleration: "speed_cycle_time",
-  handoff_elimination: "speed_cycle_time",
-  task_elimination: "productivity",
-  task_simplification: "productivity",
-  context_surfacing: "productivity",
-  labor_avoidance: "cost_avoidance",
-  tool_consolidation: "cost_avoidance",
-  error_rework_elimination: "cost_avoidance",
-  compliance_assurance: "risk_quality",
-  data_integrity: "risk_quality",
-  incident_prevention: "risk_quality",
-  process_consistency: "risk_quality",
-};
+/** Tell the company's webhooks about value item changes, with the calculator's new total */
+async function notifyValueItems(
+  ctx: MutationCtx,
+  event: WebhookEvent,
+  calculationId: Id<"calculations">,
+  items: Array<Pick<Doc<"valueItems">, "_id" | "shortId" | "name" | "archetype">>
+) {
+  const calculation = await ctx.db.get(calculationId);
+  if (!calculation?.companyId) return;
+  const calculationData = await calculationEventData(ctx, calculation);
+  for (const item of items) {
+    await emitWebhookEvent(ctx, calculation.companyId, event, {
+      calculation: calculationData,
+      valueItem: { id: item._id, shortId: item.shortId, name: item.name, archetype: item.archetype },
+    });
+  }
+}
+
+/** A calculator's own items plus those linked to shared use cases it references */
+export async function listCalculatorItems(ctx: Pick<QueryCtx, "db">, calculationId: Id<"calculations">) {
+  const calculation = await ctx.db.get(calculationId);
+  const directItems = await ctx.db
+    .query("valueItems")
+    .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+    .collect();
+  if (!calculation?.useCaseIds || calculation.useCaseIds.length === 0) return directItems;
+
+  // Items linked to shared use cases live on the use case's original calculator
+  const candidates = [...directItems];
+  const sourceCalculationIds = new Set<string>([calculationId]);
+  for (const ucId of calculation.useCaseIds) {
+    const useCase = await ctx.db.get(ucId);
+    if (!useCase || sourceCalculationIds.has(useCase.calculationId)) continue;
+    sourceCalculationIds.add(useCase.calculationId);
+    candidates.push(
+      ...(await ctx.db
+        .query("valueItems")
+        .withIndex("by_calculationId", (q) => q.eq("calculationId", useCase.calculationId))
+        .collect())
+    );
+  }
 
-const VALID_ARCHETYPES = Object.keys(ARCHETYPE_DIMENSIONS);
+  // Same selection the company aggregate uses
+  return selectCalculatorItems(calculation, candidates);
+}
 
 export const listByCalculation = query({
   args: { calculationId: v.id("calculations") },
   handler: async (ctx, args) => {
-    const calculation = await ctx.db.get(args.calculationId);
-
-    // If calculation has useCaseIds, collect value items from those use cases
-    // plus any unlinked items that belong directly to this calculation
-    if (calculation?.useCaseIds && calculation.useCaseIds.length > 0) {
-      const useCaseIdSet = new Set(calculation.useCaseIds);
-
-      // Get all value items for this calculation (includes unlinked items)
-      const directItems = await ctx.db
-        .query("valueItems")
-        .withIndex("by_calculationId", (q) => q.eq("calculationId", args.calculationId))
-        .collect();
-
-      // Get value items linked to shared use cases (may be on a different calculationId)
-      const useCaseItems: typeof directItems = [];
-      for (const ucId of calculation.useCaseIds) {
-        // Value items linked to this use case might have a different calculationId
-        // (they belong to the use case's original calculator but are shared here)
-        const useCase = await ctx.db.get(ucId);
-        if (useCase && useCase.calculationId !== args.calculationId) {
-          const items = await ctx.db
-            .query("valueItems")
-            .withIndex("by_calculationId", (q) => q.eq("calculationId", useCase.calculationId))
-            .collect();
-          for (const item of items) {
-            if (item.useCaseId && useCaseIdSet.has(item.useCaseId)) {
-              useCaseItems.push(item);
-            }
-          }
-        }
-      }
-
-      // Combine: direct items + shared use case items (dedup by _id)
-      const seenIds = new Set(directItems.map((i) => i._id));
-      const combined = [...directItems];
-      for (const item of useCaseItems) {
-        if (!seenIds.has(item._id)) {
-          combined.push(item);
-          seenIds.add(item._id);
-        }
-      }
-
-      return combined;
-    }
-
-    // Fallback: old model
-    return await ctx.db
-      .query("valueItems")
-      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.calculationId))
-      .collect();
+    await requireCalculationRole(ctx, args.calculationId, "viewer");
+    return await listCalculatorItems(ctx, args.calculationId);
   },
 });
 
+/** Value items of every calculator the signed-in user can see */
 export const listAll = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("valueItems").collect();
+    const items = [];
+    for (const calculation of await listReadableCalculations(ctx)) {
+      items.push(
+        ...(await ctx.db
+          .query("valueItems")
+          .withIndex("by_calculationId", (q) => q.eq("calculationId", calculation._id))
+          .collect())
+      );
+    }
+    return items;
   },
 });
 
 export const get = query({
   args: { id: v.id("valueItems") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await readableChild(ctx, await ctx.db.get(args.id));
   },
 });
 
 export const getByShortId = query({
   args: { shortId: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const item = await ctx.db
       .query("valueItems")
       .withIndex("by_shortId", (q) => q.eq("shortId", args.shortId))
       .unique();
+    return await readableChild(ctx, item);
   },
 });
 
@@ -123,15 +118,10 @@ export const create = mutation({
     useCaseId: v.optional(v.id("useCases")),
   },
   handler: async (ctx, args) => {
-    // Validate archetype
-    if (!VALID_ARCHETYPES.includes(args.archetype)) {
-      throw new Error(
-        `Invalid archetype "${args.archetype}". Valid archetypes: ${VALID_ARCHETYPES.join(", ")}`
-      );
-    }
+    await requireCalculationRole(ctx, args.calculationId, "editor", "valueItems");
 
-    // Derive dimension from archetype
-    const dimension = ARCHETYPE_DIMENSIONS[args.archetype]!;
+    // Validate archetype and derive dimension (custom archetypes come from the company)
+    const { dimension, customArchetype } = await resolveArchetype(ctx, args.calculationId, args.archetype);
 
     // Get max order for this calculation
     const existingItems = await ctx.db
@@ -155,13 +145,15 @@ export const create = mutation({
     }
 
     // Update calculation timestamp
-    await ctx.db.patch(args.calculationId, { updatedAt: Date.now() });
+    const tracked = trackChanges(ctx, "valueItems.create");
+    await tracked.patch("calculations", args.calculationId, { updatedAt: Date.now() });
 
-    return await ctx.db.insert("valueItems", {
+    const id = await tracked.insert("valueItems", {
       calculationId: args.calculationId,
       shortId,
       archetype: args.archetype,
       dimension,
+      customArchetype,
       name: args.name,
       description: args.description,
       inputs: args.inputs ?? {},
@@ -169,6 +161,10 @@ export const create = mutation({
       useCaseId: args.useCaseId,
       order: maxOrder + 1,
     });
+    await notifyValueItems(ctx, "value_item.created", args.calculationId, [
+      { _id: id, shortId, name: args.name, archetype: args.archetype },
+    ]);
+    return id;
   },
 });
 
@@ -187,7 +183,10 @@ export const createBatch = mutation({
     ),
   },
   handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.calculationId, "editor", "valueItems");
+    const tracked = trackChanges(ctx, "valueItems.createBatch");
     const results = [];
+    const created: Parameters<typeof notifyValueItems>[3] = [];
 
     // Get max order
     const existingItems = await ctx.db
@@ -197,11 +196,7 @@ export const createBatch = mutation({
     let nextOrder = existingItems.reduce((max, item) => Math.max(max, item.order), -1) + 1;
 
     for (const item of args.items) {
-      if (!VALID_ARCHETYPES.includes(item.archetype)) {
-        throw new Error(`Invalid archetype "${item.archetype}"`);
-      }
-
-      const dimension = ARCHETYPE_DIMENSIONS[item.archetype]!;
+      const { dimension, customArchetype } = await resolveArchetype(ctx, args.calculationId, item.archetype);
 
       let shortId = generateShortId();
       let existing = await ctx.db
@@ -216,11 +211,12 @@ export const createBatch = mutation({
           .unique();
       }
 
-      const id = await ctx.db.insert("valueItems", {
+      const id = await tracked.insert("valueItems", {
         calculationId: args.calculationId,
         shortId,
         archetype: item.archetype,
         dimension,
+        customArchetype,
         name: item.name,
         description: item.description,
         inputs: item.inputs ?? {},
@@ -230,9 +226,11 @@ export const createBatch = mutation({
       });
 
       results.push({ id, shortId });
+      created.push({ _id: id, shortId, name: item.name, archetype: item.archetype });
     }
 
-    await ctx.db.patch(args.calculationId, { updatedAt: Date.now() });
+    await tracked.patch("calculations", args.calculationId, { updatedAt: Date.now() });
+    await notifyValueItems(ctx, "value_item.created", args.calculationId, created);
     return results;
   },
 });
@@ -249,6 +247,7 @@ export const update = mutation({
   },
   handler: async (ctx, args) => {
     const { id, ...updates } = args;
+    const existing = await requireChildRole(ctx, "valueItems", id, "editor");
 
     const filtered: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(updates)) {
@@ -262,20 +261,20 @@ export const update = mutation({
       filtered.manualAnnualValue = undefined;
     }
 
-    // If archetype is being changed, update dimension too
+    // If archetype is being changed, update dimension (and custom definition) too
     if (filtered.archetype) {
-      const archetype = filtered.archetype as string;
-      if (!VALID_ARCHETYPES.includes(archetype)) {
-        throw new Error(`Invalid archetype "${archetype}"`);
-      }
-      filtered.dimension = ARCHETYPE_DIMENSIONS[archetype];
+      const { dimension, customArchetype } = await resolveArchetype(ctx, existing.calculationId, filtered.archetype as string);
+      filtered.dimension = dimension;
+      filtered.customArchetype = customArchetype;
     }
 
     if (Object.keys(filtered).length > 0) {
-      await ctx.db.patch(id, filtered);
+      const tracked = trackChanges(ctx, "valueItems.update");
+      await tracked.patch("valueItems", id, filtered);
       const item = await ctx.db.get(id);
       if (item) {
-        await ctx.db.patch(item.calculationId, { updatedAt: Date.now() });
+        await tracked.patch("calculations", item.calculationId, { updatedAt: Date.now() });
+        await notifyValueItems(ctx, "value_item.updated", item.calculationId, [item]);
       }
     }
     return id;
@@ -285,11 +284,11 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("valueItems") },
   handler: async (ctx, args) => {
-    const item = await ctx.db.get(args.id);
-    if (item) {
-      await ctx.db.patch(item.calculationId, { updatedAt: Date.now() });
-    }
-    await ctx.db.delete(args.id);
+    const item = await requireChildRole(ctx, "valueItems", args.id, "editor");
+    const tracked = trackChanges(ctx, "valueItems.remove");
+    await tracked.patch("calculations", item.calculationId, { updatedAt: Date.now() });
+    await tracked.delete("valueItems", args.id);
+    await notifyValueItems(ctx, "value_item.deleted", item.calculationId, [item]);
   },
 });
 
@@ -299,20 +298,28 @@ export const reorder = mutation({
     itemIds: v.array(v.id("valueItems")),
   },
   handler: async (ctx, args) => {
+    await requireCalculationRole(ctx, args.calculationId, "editor", "valueItems");
+    // Items of shared use cases live on other calculators
+    for (const itemId of args.itemIds) {
+      await requireChildRole(ctx, "valueItems", itemId, "editor");
+    }
+
+    const tracked = trackChanges(ctx, "valueItems.reorder");
     for (const [index, itemId] of args.itemIds.entries()) {
-      await ctx.db.patch(itemId, { order: index });
+      await tracked.patch("valueItems", itemId, { order: index });
     }
-    await ctx.db.patch(args.calculationId, { updatedAt: Date.now() });
+    await tracked.patch("calculations", args.calculationId, { updatedAt: Date.now() });
   },
 });
 
 export const unlinkUseCase = mutation({
   args: { id: v.id("valueItems") },
   handler: async (ctx, args) => {
-    const item = await ctx.db.get(args.id);
-    if (item && item.useCaseId) {
-      await ctx.db.patch(args.id, { useCaseId: undefined });
-      await ctx.db.patch(item.calculationId, { updatedAt: Date.now() });
+    const item = await requireChildRole(ctx, "valueItems", args.id, "editor");
+    if (item.useCaseId) {
+      const tracked = trackChanges(ctx, "valueItems.unlinkUseCase");
+      await tracked.patch("valueItems", args.id, { useCaseId: undefined });
+      await tracked.patch("calculations", item.calculationId, { updatedAt: Date.now() });
     }
   },
 });
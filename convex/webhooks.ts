@@ -0,0 +1,339 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { query, mutation } from "./functions";
+import { requireCompanyRole, requireUser } from "./access";
+import { listCalculatorItems } from "./valueItems";
+import { listCalculatorUseCases } from "./useCases";
+import { computeSummary } from "../src/utils/fullCalculation";
+import {
+  DEFAULT_REALIZATION_THRESHOLD,
+  TEST_EVENT,
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isRetryableStatus,
+  isValidWebhookUrl,
+  nextRetryDelay,
+  signWebhookPayload,
+  type WebhookEvent,
+} from "../src/utils/webhooks";
+import type { UseCase, ValueItem } from "../src/types/roi";
+
+// Older deliveries are dropped once a webhook has this many
+const MAX_DELIVERIES_PER_WEBHOOK = 100;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// ============================================================
+// Emitting events — called from the mutations that change things
+// ============================================================
+
+type EventData = Record<string, unknown>;
+
+/**
+ * Queue `event` for every active webhook of the company subscribed to it.
+ * Pass a function to tailor or skip the event per webhook (thresholds).
+ * Calculators without a company have no webhooks.
+ */
+export async function emitWebhookEvent(
+  ctx: MutationCtx,
+  companyId: Id<"companies"> | undefined,
+  event: WebhookEvent,
+  data: EventData | ((webhook: Doc<"webhooks">) => EventData | null)
+) {
+  if (!companyId) return;
+  const webhooks = await ctx.db
+    .query("webhooks")
+    .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+    .collect();
+
+  for (const webhook of webhooks) {
+    if (!webhook.active || !webhook.events.includes(event)) continue;
+    const body = typeof data === "function" ? data(webhook) : data;
+    if (body) await queueDelivery(ctx, webhook._id, event, body);
+  }
+}
+
+async function queueDelivery(ctx: MutationCtx, webhookId: Id<"webhooks">, event: string, data: EventData) {
+  const deliveryId = await ctx.db.insert("webhookDeliveries", {
+    webhookId,
+    event,
+    data,
+    status: "pending",
+    attempts: 0,
+    createdAt: Date.now(),
+  });
+
+  // One in, one out keeps the log at its cap
+  const recent = await ctx.db
+    .query("webhookDeliveries")
+    .withIndex("by_webhookId", (q) => q.eq("webhookId", webhookId))
+    .order("desc")
+    .take(MAX_DELIVERIES_PER_WEBHOOK + 1);
+  if (recent.length > MAX_DELIVERIES_PER_WEBHOOK) await ctx.db.delete(recent[recent.length - 1]!._id);
+
+  await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+}
+
+/** The calculator fields every calculator event carries, including its current total */
+export async function calculationEventData(ctx: MutationCtx, calculation: Doc<"calculations">) {
+  const valueItems = await listCalculatorItems(ctx, calculation._id);
+  const useCases = await listCalculatorUseCases(ctx, calculation._id);
+  const { totalAnnualValue } = computeSummary(
+    valueItems as unknown as ValueItem[],
+    calculation.assumptions,
+    calculation.proposedSpend,
+    calculation.implementationCost,
+    useCases as unknown as UseCase[]
+  );
+  return { id: calculation._id, shortId: calculation.shortId, name: calculation.name, totalAnnualValue };
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+/** A company's webhooks, without their secrets */
+export const listByCompany = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    await requireCompanyRole(ctx, companyId, "owner");
+    const webhooks = await ctx.db
+      .query("webhooks")
+      .withIndex("by_companyId", (q) => q.eq("companyId", companyId))
+      .collect();
+    return webhooks.sort((a, b) => b.createdAt - a.createdAt).map(({ secret: _secret, ...webhook }) => webhook);
+  },
+});
+
+export const listDeliveries = query({
+  args: { webhookId: v.id("webhooks"), limit: v.optional(v.number()) },
+  handler: async (ctx, { webhookId, limit }) => {
+    const webhook = await ctx.db.get(webhookId);
+    if (!webhook) return [];
+    await requireCompanyRole(ctx, webhook.companyId, "owner");
+    return await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhookId", (q) => q.eq("webhookId", webhookId))
+      .order("desc")
+      .take(Math.min(limit ?? 20, MAX_DELIVERIES_PER_WEBHOOK));
+  },
+});
+
+// ============================================================
+// Mutations (owners, signed in)
+// ============================================================
+
+const eventsValidator = v.array(v.string());
+
+function validateEvents(events: string[]) {
+  if (events.length === 0) throw new Error("Choose at least one event");
+  const unknown = events.filter((e) => !(WEBHOOK_EVENTS as string[]).includes(e));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown event "${unknown[0]}". Valid: ${WEBHOOK_EVENTS.join(", ")}`);
+  }
+}
+
+function validateThreshold(threshold: number | undefined) {
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+    throw new Error("realizationThreshold must be between 0 and 1");
+  }
+}
+
+/** Returns the signing secret. It isn't shown again. */
+export const create = mutation({
+  args: {
+    companyId: v.id("companies"),
+    url: v.string(),
+    events: eventsValidator,
+    description: v.optional(v.string()),
+    realizationThreshold: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireUser(ctx);
+    await requireCompanyRole(ctx, args.companyId, "owner");
+    if (!isValidWebhookUrl(args.url)) throw new Error("Webhook URL must start with https://");
+    validateEvents(args.events);
+    validateThreshold(args.realizationThreshold);
+
+    const secret = generateWebhookSecret();
+    const id = await ctx.db.insert("webhooks", {
+      companyId: args.companyId,
+      url: args.url.trim(),
+      events: args.events,
+      secret,
+      description: args.description?.trim() || undefined,
+      realizationThreshold: args.realizationThreshold ?? DEFAULT_REALIZATION_THRESHOLD,
+      active: true,
+      createdBy: viewer.email,
+      createdAt: Date.now(),
+    });
+    return { id, secret };
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("webhooks"),
+    active: v.optional(v.boolean()),
+    events: v.optional(eventsValidator),
+    realizationThreshold: v.optional(v.number()),
+  },
+  handler: async (ctx, { id, ...updates }) => {
+    const webhook = await ctx.db.get(id);
+    if (!webhook) throw new Error("Webhook not found");
+    await requireUser(ctx);
+    await requireCompanyRole(ctx, webhook.companyId, "owner");
+    if (updates.events) validateEvents(updates.events);
+    validateThreshold(updates.realizationThreshold);
+
+    const filtered: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(updates)) {
+      if (val !== undefined) filtered[key] = val;
+    }
+    await ctx.db.patch(id, filtered);
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("webhooks") },
+  handler: async (ctx, { id }) => {
+    const webhook = await ctx.db.get(id);
+    if (!webhook) throw new Error("Webhook not found");
+    await requireUser(ctx);
+    await requireCompanyRole(ctx, webhook.companyId, "owner");
+
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhookId", (q) => q.eq("webhookId", id))
+      .collect();
+    for (const delivery of deliveries) await ctx.db.delete(delivery._id);
+    await ctx.db.delete(id);
+  },
+});
+
+/** Send a webhook.test event so the receiving end can be checked */
+export const sendTest = mutation({
+  args: { id: v.id("webhooks") },
+  handler: async (ctx, { id }) => {
+    const webhook = await ctx.db.get(id);
+    if (!webhook) throw new Error("Webhook not found");
+    const { company } = await requireCompanyRole(ctx, webhook.companyId, "owner");
+    await queueDelivery(ctx, id, TEST_EVENT, { message: `Test event for ${company.name}` });
+  },
+});
+
+/** Try a failed delivery again, from the first attempt */
+export const redeliver = mutation({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, { deliveryId }) => {
+    const delivery = await ctx.db.get(deliveryId);
+    if (!delivery) throw new Error("Delivery not found");
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook) throw new Error("Webhook not found");
+    await requireCompanyRole(ctx, webhook.companyId, "owner");
+    if (delivery.status !== "failed") throw new Error("Only failed deliveries can be retried");
+
+    await ctx.db.patch(deliveryId, { status: "pending", attempts: 0, nextAttemptAt: undefined });
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+  },
+});
+
+// ============================================================
+// Delivery — an action, since it calls out to the subscriber
+// ============================================================
+
+export const getDelivery = internalQuery({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, { deliveryId }) => {
+    const delivery = await ctx.db.get(deliveryId);
+    if (!delivery || delivery.status !== "pending") return null;
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook || !webhook.active) return null;
+    const company = await ctx.db.get(webhook.companyId);
+    if (!company) return null;
+    return { delivery, webhook, company };
+  },
+});
+
+export const deliver = internalAction({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, { deliveryId }): Promise<void> => {
+    const target = await ctx.runQuery(internal.webhooks.getDelivery, { deliveryId });
+    if (!target) return;
+    const { delivery, webhook, company } = target;
+
+    const body = JSON.stringify({
+      id: delivery._id,
+      event: delivery.event,
+      createdAt: new Date(delivery.createdAt).toISOString(),
+      company: { id: company._id, shortId: company.shortId, name: company.name },
+      data: delivery.data,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": delivery._id,
+          "X-Webhook-Signature": await signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+      statusCode = res.status;
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (e) {
+      error = controller.signal.aborted ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s` : (e as Error).message;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    await ctx.runMutation(internal.webhooks.recordAttempt, { deliveryId, statusCode, error });
+  },
+});
+
+/** Store the attempt's outcome and schedule the next try with backoff */
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, { deliveryId, statusCode, error }) => {
+    const delivery = await ctx.db.get(deliveryId);
+    if (!delivery) return;
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+
+    if (!error) {
+      await ctx.db.patch(deliveryId, {
+        status: "succeeded",
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: undefined,
+        nextAttemptAt: undefined,
+        deliveredAt: now,
+      });
+      return;
+    }
+
+    const delay = statusCode === undefined || isRetryableStatus(statusCode) ? nextRetryDelay(attempts) : null;
+    await ctx.db.patch(deliveryId, {
+      status: delay === null ? "failed" : "pending",
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: error,
+      nextAttemptAt: delay === null ? undefined : now + delay,
+    });
+    if (delay !== null) await ctx.scheduler.runAfter(delay, internal.webhooks.deliver, { deliveryId });
+  },
+});
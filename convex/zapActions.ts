@@ -8,9 +8,25 @@
 // Env var required: ZAPIER_API_TOKEN (set in Convex dashboard)
 // ============================================================
 
-import { action } from "./_generated/server";
-import { api } from "./_generated/api";
+import { action } from "./functions";
+import { internalAction, type ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { accessError } from "./access";
+import { hasRole, type MemberRole } from "../src/utils/access";
+import { ZapierApiError, fetchZapRuns, listZaps, parseRetryAfter } from "../src/utils/zapier-api";
+import {
+  DEFAULT_RATE_LIMIT_WAIT_MS,
+  ZAP_SYNC_INTERVAL_MS,
+  ZAP_SYNC_REQUESTS_PER_ZAP,
+  ZAP_SYNC_REQUEST_BUDGET,
+  runsFetchSince,
+  syncRunStatus,
+  type ZapSyncResult,
+  type ZapSyncTrigger,
+} from "../src/utils/zapSync";
+import { countRunsByDay, type RunDaySummary } from "../src/utils/value-realized";
 
 // ============================================================
 // Types
@@ -36,11 +52,6 @@ interface ZapApiDetailsResponse {
   steps?: ZapApiStep[];
 }
 
-export interface ZapApiRun {
-  status?: string;
-  end_time?: string;
-}
-
 export interface ParsedZapDetails {
   title: string;
   isEnabled: boolean;
@@ -56,15 +67,6 @@ export interface ParsedZapDetails {
   fetchedAt: number;
 }
 
-export interface ParsedRunData {
-  totalRuns: number;
-  runsLast30Days: number;
-  runsLast7Days: number;
-  successfulRuns: number;
-  failedRuns: number;
-  lastRunAt?: string;
-}
-
 // ============================================================
 // Pure helpers (exported for testing)
 // ============================================================
@@ -97,44 +99,6 @@ export function parseZapDetailsResponse(
   };
 }
 
-/**
- * Aggregate an array of Zap run objects into summary counts.
- * Filters by date using ISO string comparison.
- */
-export function aggregateRunData(runs: ZapApiRun[], nowMs = Date.now()): ParsedRunData {
-  const thirtyDaysAgo = new Date(nowMs - 30 * 24 * 60 * 60 * 1000).toISOString();
-  const sevenDaysAgo = new Date(nowMs - 7 * 24 * 60 * 60 * 1000).toISOString();
-
-  let successfulRuns = 0;
-  let failedRuns = 0;
-  let runsLast30Days = 0;
-  let runsLast7Days = 0;
-  let lastRunAt: string | undefined;
-
-  for (const run of runs) {
-    if (run.status === "success") {
-      successfulRuns++;
-    } else if (run.status === "error" || run.status === "failed") {
-      failedRuns++;
-    }
-
-    if (run.end_time) {
-      if (run.end_time >= thirtyDaysAgo) runsLast30Days++;
-      if (run.end_time >= sevenDaysAgo) runsLast7Days++;
-      if (!lastRunAt || run.end_time > lastRunAt) lastRunAt = run.end_time;
-    }
-  }
-
-  return {
-    totalRuns: runs.length,
-    successfulRuns,
-    failedRuns,
-    runsLast30Days,
-    runsLast7Days,
-    lastRunAt,
-  };
-}
-
 // ============================================================
 // Internal API helpers
 // ============================================================
@@ -160,8 +124,11 @@ async function apiFetchZapDetails(
 
   if (!response.ok) {
     const body = await response.text().catch(() => "");
-    throw new Error(
+    throw new ZapierApiError(
       `Zapier API error fetching zap ${zapId}: ${response.status} ${response.statusText}. ${body}`,
+      response.status,
+      body,
+      parseRetryAfter(response.headers.get("Retry-After")),
     );
   }
 
@@ -169,30 +136,48 @@ async function apiFetchZapDetails(
   return parseZapDetailsResponse(data.data);
 }
 
-async function apiFetchZapRuns(zapId: string, token: string): Promise<ParsedRunData> {
-  // Fetch up to 500 runs so we can compute accurate 30-day and 7-day windows.
-  const params = new URLSearchParams({ zap_id: zapId, limit: "500" });
-  const url = `${ZAPIER_API_BASE}/v2/zap-runs?${params.toString()}`;
-  const response = await fetch(url, {
-    method: "GET",
-    headers: authHeaders(token),
-  });
+type RecordedRuns = RunDaySummary & { lastRunAt?: string; realizationRate?: number; realizedAnnualValue?: number };
 
-  if (!response.ok) {
-    const body = await response.text().catch(() => "");
-    throw new Error(
-      `Zapier API error fetching runs for zap ${zapId}: ${response.status} ${response.statusText}. ${body}`,
-    );
-  }
-
-  const data = (await response.json()) as { data: ZapApiRun[] };
-  return aggregateRunData(data.data ?? []);
+/**
+ * Fetch a Zap's runs since the day of the last one seen (all of them the
+ * first time), following pages up to the cap, and record them by day.
+ */
+async function fetchAndRecordRuns(
+  ctx: ActionCtx,
+  token: string,
+  args: {
+    zapId: string;
+    useCaseId: Id<"useCases">;
+    calculationId: Id<"calculations">;
+    lastRunAt?: string;
+    expectedAnnualValue?: number;
+  },
+): Promise<{ recorded: RecordedRuns | null; requests: number }> {
+  const { lastRunAt, expectedAnnualValue, ...ids } = args;
+  const fetched = await fetchZapRuns(ids.zapId, token, { since: runsFetchSince(lastRunAt) });
+  const recorded = await ctx.runMutation(internal.zapRunCache.recordRuns, {
+    ...ids,
+    days: countRunsByDay(fetched.runs, !fetched.sampled),
+    lastRunAt: fetched.lastRunAt,
+    sampled: fetched.sampled,
+    expectedAnnualValue,
+  });
+  return { recorded, requests: fetched.requests };
 }
 
 // ============================================================
 // Actions
 // ============================================================
 
+/**
+ * Actions have no database access of their own, so check the caller's role
+ * before spending the shared ZAPIER_API_TOKEN on their behalf.
+ */
+async function requireEditor(ctx: ActionCtx, calculationId: Id<"calculations">) {
+  const role: MemberRole | null = await ctx.runQuery(api.members.roleForCalculation, { calculationId });
+  if (!hasRole(role, "editor")) throw accessError("FORBIDDEN", "You need editor access to this calculator");
+}
+
 /**
  * Fetch Zap details from the Zapier REST API and update the `zapDetails`
  * field on every matching architecture item within the given use case.
@@ -210,12 +195,13 @@ export const fetchAndCacheZapDetails = action({
       throw new Error("ZAPIER_API_TOKEN environment variable is not set");
     }
 
-    const zapDetails = await apiFetchZapDetails(zapId, token);
-
     const useCase = await ctx.runQuery(api.useCases.get, { id: useCaseId });
     if (!useCase) {
       throw new Error(`Use case not found: ${useCaseId}`);
     }
+    await requireEditor(ctx, useCase.calculationId);
+
+    const zapDetails = await apiFetchZapDetails(zapId, token);
 
     // Patch zapDetails on all architecture items referencing this zapId
     const updatedArchitecture = (useCase.architecture ?? []).map((item) => {
@@ -250,43 +236,128 @@ export const fetchAndCacheZapRuns = action({
     calculationId: v.id("calculations"),
     expectedAnnualValue: v.optional(v.number()),
   },
-  handler: async (ctx, { zapId, useCaseId, calculationId, expectedAnnualValue }) => {
+  handler: async (ctx, { zapId, useCaseId, calculationId, expectedAnnualValue }): Promise<RecordedRuns | null> => {
     const token = process.env.ZAPIER_API_TOKEN;
     if (!token) {
       throw new Error("ZAPIER_API_TOKEN environment variable is not set");
     }
 
-    const runData = await apiFetchZapRuns(zapId, token);
-
-    let realizationRate: number | undefined;
-    let realizedAnnualValue: number | undefined;
-    if (expectedAnnualValue && expectedAnnualValue > 0) {
-      const successRate =
-        runData.totalRuns > 0 ? runData.successfulRuns / runData.totalRuns : 1;
-      realizationRate = Math.min(1, successRate);
-      realizedAnnualValue = expectedAnnualValue * realizationRate;
+    await requireEditor(ctx, calculationId);
+    const useCase = await ctx.runQuery(api.useCases.get, { id: useCaseId });
+    if (useCase?.calculationId !== calculationId) {
+      throw new Error(`Use case ${useCaseId} doesn't belong to calculation ${calculationId}`);
     }
-
-    await ctx.runMutation(api.zapRunCache.upsertRunData, {
+    const cache = await ctx.runQuery(api.zapRunCache.getByCalculation, { calculationId });
+    const cached = cache.find((c) => c.zapId === zapId);
+    const { recorded } = await fetchAndRecordRuns(ctx, token, {
       zapId,
       useCaseId,
       calculationId,
-      ...runData,
-      realizationRate,
-      realizedAnnualValue,
+      lastRunAt: cached?.lastRunAt,
+      expectedAnnualValue,
     });
-
-    return { ...runData, realizationRate, realizedAnnualValue };
+    return recorded;
   },
 });
 
+// ============================================================
+// Sync — shared by the refresh button and the scheduled sync
+// ============================================================
+
+interface SyncOptions {
+  trigger: ZapSyncTrigger;
+  forceRefresh?: boolean;
+  /** Zapier API requests this sync may make; over it, nothing is fetched */
+  requestBudget?: number;
+}
+
+interface SyncOutcome {
+  results: ZapSyncResult[];
+  requests: number;
+  /** Set when the Zapier API rate-limited the sync */
+  retryAt?: number;
+}
+
+/**
+ * Fetch details and run data for each Zap linked in the calculation whose
+ * cache is older than ZAP_SYNC_INTERVAL_MS (all of them with forceRefresh),
+ * one Zap at a time, and record the run in zapSyncRuns. A 429 stops the sync.
+ * Returns null, without recording a run, when the Zaps don't fit the budget.
+ */
+async function syncCalculationZaps(
+  ctx: ActionCtx,
+  calculationId: Id<"calculations">,
+  token: string,
+  { trigger, forceRefresh = false, requestBudget = Infinity }: SyncOptions,
+): Promise<SyncOutcome | null> {
+  const startedAt = Date.now();
+  const { useCases, cache } = await ctx.runQuery(internal.zapSync.getSyncTarget, { calculationId });
+  const cacheByZapId = new Map(cache.map((c) => [c.zapId, c]));
+
+  const results: ZapSyncResult[] = [];
+  const stale: Array<{ useCaseId: Id<"useCases">; zapId: string }> = [];
+  for (const useCase of useCases) {
+    for (const item of useCase.architecture ?? []) {
+      if (item.type !== "zap" || !item.zapId) continue;
+      const cached = cacheByZapId.get(item.zapId);
+      if (!forceRefresh && cached && startedAt - cached.fetchedAt < ZAP_SYNC_INTERVAL_MS) {
+        results.push({ zapId: item.zapId, useCaseId: String(useCase._id), status: "skipped" });
+      } else {
+        stale.push({ useCaseId: useCase._id, zapId: item.zapId });
+      }
+    }
+  }
+  if (stale.length * ZAP_SYNC_REQUESTS_PER_ZAP > requestBudget) return null;
+
+  let requests = 0;
+  let retryAt: number | undefined;
+  for (const { useCaseId, zapId } of stale) {
+    try {
+      requests++;
+      const zapDetails = await apiFetchZapDetails(zapId, token);
+      await ctx.runMutation(internal.zapSync.recordZapDetails, { useCaseId, zapId, zapDetails });
+      const fetched = await fetchAndRecordRuns(ctx, token, {
+        zapId,
+        useCaseId,
+        calculationId,
+        lastRunAt: cacheByZapId.get(zapId)?.lastRunAt,
+      });
+      requests += fetched.requests;
+      results.push({ zapId, useCaseId: String(useCaseId), status: "updated" });
+    } catch (err) {
+      results.push({
+        zapId,
+        useCaseId: String(useCaseId),
+        status: "error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+      if (err instanceof ZapierApiError && err.status === 429) {
+        retryAt = Date.now() + (err.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS);
+        break;
+      }
+    }
+  }
+
+  const count = (status: ZapSyncResult["status"]) => results.filter((r) => r.status === status).length;
+  await ctx.runMutation(internal.zapSync.recordRun, {
+    calculationId,
+    trigger,
+    status: retryAt !== undefined ? "rate_limited" : syncRunStatus(results),
+    startedAt,
+    zapsUpdated: count("updated"),
+    zapsSkipped: count("skipped"),
+    zapsFailed: count("error"),
+    error: results.find((r) => r.error)?.error,
+    retryAt,
+  });
+  return { results, requests, retryAt };
+}
+
 /**
- * Sync all Zap data for a calculation in one shot.
- * For each use case, finds architecture items with type="zap" + a zapId,
- * fetches details and run data concurrently, then updates both the use case
- * architecture and the zapRunCache.
+ * Sync all Zap data for a calculation in one shot: details onto the use
+ * case architecture, run data into zapRunCache.
  *
- * Skips Zaps whose cache entry is younger than CACHE_TTL_MS (1 hour)
+ * Skips Zaps whose cache entry is younger than ZAP_SYNC_INTERVAL_MS (1 hour)
  * unless `forceRefresh` is true.
  *
  * Returns an array of per-Zap result objects for observability.
@@ -296,93 +367,67 @@ export const syncZapDataForCalculation = action({
     calculationId: v.id("calculations"),
     forceRefresh: v.optional(v.boolean()),
   },
-  handler: async (ctx, { calculationId, forceRefresh }) => {
+  handler: async (ctx, { calculationId, forceRefresh }): Promise<ZapSyncResult[]> => {
     const token = process.env.ZAPIER_API_TOKEN;
     if (!token) {
       throw new Error("ZAPIER_API_TOKEN environment variable is not set");
     }
 
-    const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
-    const now = Date.now();
-
-    // Load use cases and existing cache in parallel
-    const [useCases, existingCache] = await Promise.all([
-      ctx.runQuery(api.useCases.listByCalculation, { calculationId }),
-      ctx.runQuery(api.zapRunCache.getByCalculation, { calculationId }),
-    ]);
-
-    const cacheByZapId = new Map(existingCache.map((c) => [c.zapId, c]));
-
-    const results: Array<{
-      zapId: string;
-      useCaseId: string;
-      status: "updated" | "skipped" | "error";
-      error?: string;
-    }> = [];
-
-    for (const useCase of useCases) {
-      const zapItems = (useCase.architecture ?? []).filter(
-        (item) => item.type === "zap" && item.zapId,
-      );
-
-      for (const item of zapItems) {
-        const zapId = item.zapId!;
-        const cached = cacheByZapId.get(zapId);
-
-        // Honour TTL unless forced
-        if (!forceRefresh && cached && now - cached.fetchedAt < CACHE_TTL_MS) {
-          results.push({
-            zapId,
-            useCaseId: String(useCase._id),
-            status: "skipped",
-          });
-          continue;
-        }
-
-        try {
-          // Fetch details and run data concurrently
-          const [zapDetails, runData] = await Promise.all([
-            apiFetchZapDetails(zapId, token),
-            apiFetchZapRuns(zapId, token),
-          ]);
-
-          // Update architecture zapDetails for this Zap
-          const updatedArchitecture = (useCase.architecture ?? []).map((archItem) => {
-            if (archItem.zapId === zapId) {
-              return { ...archItem, zapDetails };
-            }
-            return archItem;
-          });
-
-          await ctx.runMutation(api.useCases.update, {
-            id: useCase._id,
-            architecture: updatedArchitecture,
-          });
-
-          // Upsert run cache
-          await ctx.runMutation(api.zapRunCache.upsertRunData, {
-            zapId,
-            useCaseId: useCase._id,
-            calculationId,
-            ...runData,
-          });
-
-          results.push({
-            zapId,
-            useCaseId: String(useCase._id),
-            status: "updated",
-          });
-        } catch (err) {
-          results.push({
-            zapId,
-            useCaseId: String(useCase._id),
-            status: "error",
-            error: err instanceof Error ? err.message : String(err),
-          });
-        }
-      }
+    await requireEditor(ctx, calculationId);
+    const outcome = await syncCalculationZaps(ctx, calculationId, token, { trigger: "manual", forceRefresh });
+    return outcome!.results;
+  },
+});
+
+/**
+ * Run by the cron in crons.ts: sync the calculators that are due, most
+ * overdue first, within ZAP_SYNC_REQUEST_BUDGET. Stops at a rate limit and
+ * sits out until it has passed. Without a token there's nothing to do.
+ */
+export const syncScheduledZapData = internalAction({
+  args: {},
+  handler: async (ctx): Promise<void> => {
+    const token = process.env.ZAPIER_API_TOKEN;
+    if (!token) return;
+
+    const { rateLimitedUntil, calculationIds } = await ctx.runQuery(internal.zapSync.listDue, {});
+    if (rateLimitedUntil !== null) return;
+
+    let budget = ZAP_SYNC_REQUEST_BUDGET;
+    for (const calculationId of calculationIds) {
+      // The first calculator always runs, so one with many Zaps isn't starved
+      const outcome = await syncCalculationZaps(ctx, calculationId, token, {
+        trigger: "scheduled",
+        requestBudget: budget === ZAP_SYNC_REQUEST_BUDGET ? Infinity : budget,
+      });
+      if (!outcome) continue;
+      if (outcome.retryAt !== undefined) return;
+      budget -= outcome.requests;
+      if (budget <= 0) return;
+    }
+  },
+});
+
+/** Zaps per page in the Zap picker */
+const ZAP_PAGE_SIZE = 50;
+
+/**
+ * List a page of the Zaps in the ZAPIER_API_TOKEN account for the Zap picker,
+ * which searches the loaded pages by title and app. Pass the previous page's
+ * `nextOffset` to load the next one.
+ */
+export const listAccountZaps = action({
+  args: {
+    calculationId: v.id("calculations"),
+    offset: v.optional(v.number()),
+  },
+  handler: async (ctx, { calculationId, offset }) => {
+    const token = process.env.ZAPIER_API_TOKEN;
+    if (!token) {
+      throw new Error("ZAPIER_API_TOKEN environment variable is not set");
     }
 
-    return results;
+    await requireEditor(ctx, calculationId);
+    return await listZaps(token, { offset, limit: ZAP_PAGE_SIZE });
   },
 });
@@ -1,41 +1,187 @@
-import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { mutation, query } from "./functions";
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { v, type ObjectType } from "convex/values";
+import { requireCalculationRole } from "./access";
+import { calculationEventData, emitWebhookEvent } from "./webhooks";
+import { DEFAULT_REALIZATION_THRESHOLD, crossedThreshold } from "../src/utils/webhooks";
+import { listCalculatorItems } from "./valueItems";
+import { dayKey, realizationRateChange, summarizeRunDays, type ZapRunCacheEntry } from "../src/utils/value-realized";
+import type { UseCase, ValueItem } from "../src/types/roi";
+
+const runDataArgs = {
+  zapId: v.string(),
+  useCaseId: v.id("useCases"),
+  calculationId: v.id("calculations"),
+  totalRuns: v.number(),
+  runsLast30Days: v.number(),
+  runsLast7Days: v.number(),
+  successfulRuns: v.number(),
+  failedRuns: v.number(),
+  lastRunAt: v.optional(v.string()),
+  realizationRate: v.optional(v.number()),
+  realizedAnnualValue: v.optional(v.number()),
+};
+
+type RunDataArgs = ObjectType<typeof runDataArgs>;
+
+/** Fetched runs may be sampled; counts entered by hand never are */
+type CachedRunData = RunDataArgs & { sampled?: boolean; sampledBefore?: string };
+
+/**
+ * Cache a Zap's counts. Realization is derived the way the dashboard shows
+ * it, from the use case's runs in the last 30 days against its projected
+ * runs, unless the caller gives it; a sync that moves the use case across a
+ * webhook's threshold sends realization.threshold_crossed.
+ */
+async function writeRunData(ctx: MutationCtx, calculation: Doc<"calculations">, args: CachedRunData) {
+  const now = Date.now();
+  const existing = await ctx.db
+    .query("zapRunCache")
+    .withIndex("by_zapId", (q) => q.eq("zapId", args.zapId))
+    .unique();
+
+  const useCase = await ctx.db.get(args.useCaseId);
+  const change = useCase
+    ? realizationRateChange(
+        useCase as unknown as UseCase,
+        (await listCalculatorItems(ctx, calculation._id)).filter(
+          (item) => item.useCaseId === args.useCaseId
+        ) as unknown as ValueItem[],
+        (await ctx.db
+          .query("zapRunCache")
+          .withIndex("by_calculationId", (q) => q.eq("calculationId", calculation._id))
+          .collect()) as unknown as ZapRunCacheEntry[],
+        { ...args, fetchedAt: now }
+      )
+    : null;
+
+  // Each webhook has its own threshold
+  const previousRate = change?.previousRate;
+  const calculationData =
+    calculation.companyId && change && previousRate !== undefined ? await calculationEventData(ctx, calculation) : null;
+  if (change && calculationData) {
+    await emitWebhookEvent(ctx, calculation.companyId, "realization.threshold_crossed", (webhook) => {
+      const threshold = webhook.realizationThreshold ?? DEFAULT_REALIZATION_THRESHOLD;
+      const direction = crossedThreshold(previousRate, change.next.realizationRate, threshold);
+      if (!direction) return null;
+      return {
+        calculation: calculationData,
+        zapId: args.zapId,
+        useCaseId: args.useCaseId,
+        threshold,
+        direction,
+        previousRealizationRate: previousRate,
+        realizationRate: change.next.realizationRate,
+        realizedAnnualValue: change.next.realizedAnnualValue,
+      };
+    });
+  }
+
+  const realization = {
+    realizationRate: args.realizationRate ?? change?.next.realizationRate,
+    realizedAnnualValue: args.realizedAnnualValue ?? change?.next.realizedAnnualValue,
+  };
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...args,
+      ...realization,
+      sampled: args.sampled,
+      sampledBefore: args.sampledBefore,
+      fetchedAt: now,
+    });
+    return { id: existing._id, ...realization };
+  }
+  const id = await ctx.db.insert("zapRunCache", { ...args, ...realization, fetchedAt: now });
+  return { id, ...realization };
+}
 
 export const upsertRunData = mutation({
+  args: runDataArgs,
+  handler: async (ctx, args) => {
+    const { calculation } = await requireCalculationRole(ctx, args.calculationId, "editor");
+    const { id } = await writeRunData(ctx, calculation, args);
+    return id;
+  },
+});
+
+/**
+ * Store a Zap's newly fetched runs by day for the calculator, replacing days
+ * already stored, and refresh its cached counts from the whole history. Days
+ * not fetched keep their counts, so history builds up across incremental
+ * fetches. Runs without a signed-in user, for the scheduled sync.
+ */
+export const recordRuns = internalMutation({
   args: {
     zapId: v.string(),
     useCaseId: v.id("useCases"),
     calculationId: v.id("calculations"),
-    totalRuns: v.number(),
-    runsLast30Days: v.number(),
-    runsLast7Days: v.number(),
-    successfulRuns: v.number(),
-    failedRuns: v.number(),
+    days: v.array(
+      v.object({ day: v.string(), totalRuns: v.number(), successfulRuns: v.number(), failedRuns: v.number() })
+    ),
     lastRunAt: v.optional(v.string()),
-    realizationRate: v.optional(v.number()),
-    realizedAnnualValue: v.optional(v.number()),
+    sampled: v.boolean(),
+    expectedAnnualValue: v.optional(v.number()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { days, lastRunAt, sampled, expectedAnnualValue, ...ids }) => {
+    const calculation = await ctx.db.get(ids.calculationId);
+    if (!calculation) return null;
+    const now = Date.now();
+
+    for (const counts of days) {
+      const existingDay = await ctx.db
+        .query("zapRunDays")
+        .withIndex("by_zapId", (q) =>
+          q.eq("zapId", ids.zapId).eq("calculationId", ids.calculationId).eq("day", counts.day)
+        )
+        .unique();
+      if (existingDay) {
+        await ctx.db.patch(existingDay._id, { ...counts, useCaseId: ids.useCaseId, updatedAt: now });
+      } else {
+        await ctx.db.insert("zapRunDays", { ...ids, ...counts, updatedAt: now });
+      }
+    }
+
     const existing = await ctx.db
       .query("zapRunCache")
-      .withIndex("by_zapId", (q) => q.eq("zapId", args.zapId))
+      .withIndex("by_zapId", (q) => q.eq("zapId", ids.zapId))
       .unique();
+    const history = await ctx.db
+      .query("zapRunDays")
+      .withIndex("by_zapId", (q) => q.eq("zapId", ids.zapId).eq("calculationId", ids.calculationId))
+      .collect();
+
+    // A capped fetch is complete from its oldest full day on; earlier days may be short
+    const sampledBefore = sampled ? (days[0]?.day ?? dayKey(now)) : existing?.sampledBefore;
+    const { sampled: windowSampled, ...counts } = summarizeRunDays(history, now, sampledBefore);
 
-    if (existing) {
-      await ctx.db.patch(existing._id, { ...args, fetchedAt: Date.now() });
-      return existing._id;
-    } else {
-      return await ctx.db.insert("zapRunCache", {
-        ...args,
-        fetchedAt: Date.now(),
-      });
+    let realizationRate: number | undefined;
+    let realizedAnnualValue: number | undefined;
+    if (expectedAnnualValue && expectedAnnualValue > 0) {
+      const successRate = counts.totalRuns > 0 ? counts.successfulRuns / counts.totalRuns : 1;
+      realizationRate = Math.min(1, successRate);
+      realizedAnnualValue = expectedAnnualValue * realizationRate;
     }
+
+    const latestRunAt =
+      lastRunAt && (!existing?.lastRunAt || lastRunAt > existing.lastRunAt) ? lastRunAt : existing?.lastRunAt;
+    const result = { ...counts, lastRunAt: latestRunAt, sampled: windowSampled };
+    const written = await writeRunData(ctx, calculation, {
+      ...ids,
+      ...result,
+      realizationRate,
+      realizedAnnualValue,
+      sampledBefore,
+    });
+    return { ...result, realizationRate: written.realizationRate, realizedAnnualValue: written.realizedAnnualValue };
   },
 });
 
 export const getByCalculation = query({
   args: { calculationId: v.id("calculations") },
   handler: async (ctx, { calculationId }) => {
+    await requireCalculationRole(ctx, calculationId, "viewer");
     return await ctx.db
       .query("zapRunCache")
       .withIndex("by_calculationId", (q) =>
@@ -45,9 +191,22 @@ export const getByCalculation = query({
   },
 });
 
+/** Daily run counts for the calculation's Zaps, oldest first */
+export const getRunDaysByCalculation = query({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    await requireCalculationRole(ctx, calculationId, "viewer");
+    return await ctx.db
+      .query("zapRunDays")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .collect();
+  },
+});
+
 export const removeByCalculation = mutation({
   args: { calculationId: v.id("calculations") },
   handler: async (ctx, { calculationId }) => {
+    await requireCalculationRole(ctx, calculationId, "editor");
     const entries = await ctx.db
       .query("zapRunCache")
       .withIndex("by_calculationId", (q) =>
@@ -57,5 +216,12 @@ export const removeByCalculation = mutation({
     for (const entry of entries) {
       await ctx.db.delete(entry._id);
     }
+    const days = await ctx.db
+      .query("zapRunDays")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .collect();
+    for (const day of days) {
+      await ctx.db.delete(day._id);
+    }
   },
 });
@@ -0,0 +1,130 @@
+// ============================================================
+// Zap sync bookkeeping — which calculators are due, the log of sync
+// runs, and writes the sync makes without a signed-in user. The
+// Zapier API calls are in zapActions.ts; the schedule in crons.ts.
+// ============================================================
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { query } from "./functions";
+import { requireCalculationRole } from "./access";
+import { listCalculatorUseCases, zapDetailsValidator } from "./useCases";
+import { nextSyncAt } from "../src/utils/zapSync";
+
+// Older runs are dropped once a calculator has this many
+const MAX_RUNS_PER_CALCULATION = 50;
+
+// Runs looked at to count failures in a row; backoff tops out before this
+const RECENT_RUNS = 10;
+
+function hasLinkedZaps(useCases: Array<{ architecture?: Array<{ type: string; zapId?: string }> }>) {
+  return useCases.some((uc) => (uc.architecture ?? []).some((item) => item.type === "zap" && item.zapId));
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+/** Latest sync run of a calculator and when the next scheduled one is due */
+export const getStatus = query({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    await requireCalculationRole(ctx, calculationId, "viewer");
+    const runs = await ctx.db
+      .query("zapSyncRuns")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .order("desc")
+      .take(RECENT_RUNS);
+    return { lastRun: runs[0] ?? null, nextSyncAt: nextSyncAt(runs) };
+  },
+});
+
+/**
+ * Calculators with linked Zaps that are due a sync, most overdue first, and
+ * how long the last rate limit still applies to the whole account.
+ */
+export const listDue = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const lastRateLimit = await ctx.db
+      .query("zapSyncRuns")
+      .withIndex("by_status", (q) => q.eq("status", "rate_limited"))
+      .order("desc")
+      .first();
+    const rateLimitedUntil = lastRateLimit?.retryAt && lastRateLimit.retryAt > now ? lastRateLimit.retryAt : null;
+
+    const due: Array<{ calculationId: Id<"calculations">; dueAt: number }> = [];
+    for (const calculation of await ctx.db.query("calculations").collect()) {
+      if (!hasLinkedZaps(await listCalculatorUseCases(ctx, calculation._id))) continue;
+      const runs = await ctx.db
+        .query("zapSyncRuns")
+        .withIndex("by_calculationId", (q) => q.eq("calculationId", calculation._id))
+        .order("desc")
+        .take(RECENT_RUNS);
+      const dueAt = nextSyncAt(runs);
+      if (dueAt <= now) due.push({ calculationId: calculation._id, dueAt });
+    }
+    due.sort((a, b) => a.dueAt - b.dueAt);
+    return { rateLimitedUntil, calculationIds: due.map((d) => d.calculationId) };
+  },
+});
+
+/** Use cases and cached run data a sync works from */
+export const getSyncTarget = internalQuery({
+  args: { calculationId: v.id("calculations") },
+  handler: async (ctx, { calculationId }) => {
+    const useCases = await listCalculatorUseCases(ctx, calculationId);
+    const cache = await ctx.db
+      .query("zapRunCache")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", calculationId))
+      .collect();
+    return { useCases, cache };
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+/**
+ * Refresh the cached details on every architecture item linking the Zap.
+ * A cache, so it isn't recorded in the change log.
+ */
+export const recordZapDetails = internalMutation({
+  args: { useCaseId: v.id("useCases"), zapId: v.string(), zapDetails: zapDetailsValidator },
+  handler: async (ctx, { useCaseId, zapId, zapDetails }) => {
+    const useCase = await ctx.db.get(useCaseId);
+    if (!useCase?.architecture) return;
+    await ctx.db.patch(useCaseId, {
+      architecture: useCase.architecture.map((item) => (item.zapId === zapId ? { ...item, zapDetails } : item)),
+    });
+  },
+});
+
+export const recordRun = internalMutation({
+  args: {
+    calculationId: v.id("calculations"),
+    trigger: v.union(v.literal("scheduled"), v.literal("manual")),
+    status: v.union(v.literal("succeeded"), v.literal("partial"), v.literal("failed"), v.literal("rate_limited")),
+    startedAt: v.number(),
+    zapsUpdated: v.number(),
+    zapsSkipped: v.number(),
+    zapsFailed: v.number(),
+    error: v.optional(v.string()),
+    retryAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("zapSyncRuns", { ...args, finishedAt: Date.now() });
+
+    const older = await ctx.db
+      .query("zapSyncRuns")
+      .withIndex("by_calculationId", (q) => q.eq("calculationId", args.calculationId))
+      .order("desc")
+      .collect();
+    for (const run of older.slice(MAX_RUNS_PER_CALCULATION)) {
+      await ctx.db.delete(run._id);
+    }
+  },
+});
@@ -2,11 +2,22 @@ import { lazy, Suspense } from "react";
 import { Routes, Route } from "react-router-dom";
 import { HomePage } from "./pages/HomePage";
 import { CalculatorPage } from "./pages/CalculatorPage";
+import { RequireSignIn } from "./components/RequireSignIn";
+import { CALLBACK_PATH } from "./lib/auth";
 import "./index.css";
 
 const CompanyPage = lazy(() =>
   import("./pages/CompanyPage").then((m) => ({ default: m.CompanyPage }))
 );
+const SnapshotPage = lazy(() =>
+  import("./pages/SnapshotPage").then((m) => ({ default: m.SnapshotPage }))
+);
+const SharePage = lazy(() =>
+  import("./pages/SharePage").then((m) => ({ default: m.SharePage }))
+);
+const AuthCallbackPage = lazy(() =>
+  import("./pages/AuthCallbackPage").then((m) => ({ default: m.AuthCallbackPage }))
+);
 const MethodologyPage = lazy(() =>
   import("./pages/MethodologyPage").then((m) => ({ default: m.MethodologyPage }))
 );
@@ -16,15 +27,23 @@ export function App() {
     <div className="min-h-screen bg-background">
       <Suspense fallback={<div className="min-h-screen flex items-center justify-center"><p className="text-muted-foreground">Loading...</p></div>}>
         <Routes>
-          <Route path="/" element={<HomePage />} />
-          <Route path="/company/:shortId" element={<CompanyPage />} />
-          <Route path="/company/:shortId/summary" element={<CompanyPage summaryOnly />} />
-          <Route path="/c/:id" element={<CalculatorPage />} />
-          <Route path="/c/:id/summary" element={<CalculatorPage summaryOnly />} />
-          <Route path="/c/:id/share" element={<CalculatorPage summaryOnly />} />
-          <Route path="/c/:id/share/obfuscated" element={<CalculatorPage summaryOnly obfuscated />} />
-          <Route path="/c/:id/demo" element={<CalculatorPage summaryOnly obfuscated />} />
+          {/* Public: share links carry their own token, methodology is reference material */}
+          <Route path="/share/:token" element={<SharePage />} />
+          <Route path={CALLBACK_PATH} element={<AuthCallbackPage />} />
           <Route path="/methodology" element={<MethodologyPage />} />
+
+          <Route element={<RequireSignIn />}>
+            <Route path="/" element={<HomePage />} />
+            <Route path="/company/:shortId" element={<CompanyPage />} />
+            <Route path="/company/:shortId/summary" element={<CompanyPage summaryOnly />} />
+            <Route path="/c/:id" element={<CalculatorPage />} />
+            <Route path="/c/:id/summary" element={<CalculatorPage summaryOnly />} />
+            <Route path="/c/:id/share" element={<CalculatorPage summaryOnly />} />
+            <Route path="/c/:id/share/obfuscated" element={<CalculatorPage summaryOnly obfuscated />} />
+            <Route path="/c/:id/demo" element={<CalculatorPage summaryOnly obfuscated />} />
+            <Route path="/s/:id" element={<SnapshotPage />} />
+            <Route path="/s/:id/obfuscated" element={<SnapshotPage obfuscated />} />
+          </Route>
         </Routes>
       </Suspense>
     </div>
@@ -4,7 +4,7 @@ import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 import type { ValueItem, UseCase, ConfidenceTier } from "../types/roi";
 import { normalizeConfidence } from "../types/roi";
-import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import { getArchetypeFields } from "../utils/customArchetypes";
 import type { ArchetypeFieldDef } from "../types/archetypes";
 import { DebouncedInput } from "@/components/ui/debounced-input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -182,7 +182,7 @@ function ItemRows({
     patch: Partial<{ value: number; confidence: ConfidenceTier; source: string }>
   ) => void;
 }) {
-  const fields = ARCHETYPE_FIELDS[item.archetype] ?? [];
+  const fields = getArchetypeFields(item);
 
   return (
     <>
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_INFO,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  type ApiKeyScope,
+} from "../utils/apiKeys";
+import { formatDate, formatRelativeTime } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// ============================================================
+// ApiKeysCard — REST API credentials for a company (owners)
+// ============================================================
+
+interface ApiKeysCardProps {
+  companyId: Id<"companies">;
+}
+
+export function ApiKeysCard({ companyId }: ApiKeysCardProps) {
+  const keys = useQuery(api.apiKeys.listByCompany, { companyId });
+  const createKey = useMutation(api.apiKeys.create);
+  const revokeKey = useMutation(api.apiKeys.revoke);
+
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiKeyScope>("read");
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_RATE_LIMIT_PER_MINUTE));
+  const [created, setCreated] = useState<{ name: string; key: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const { key } = await createKey({ companyId, name, scope, rateLimitPerMinute: Number(rateLimit) });
+      setCreated({ name: name.trim(), key });
+      setCopied(false);
+      setName("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not create API key");
+    }
+  };
+
+  const handleCopy = async (key: string) => {
+    await navigator.clipboard.writeText(key);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (key: { _id: Id<"apiKeys">; name: string }) => {
+    if (!window.confirm(`Revoke "${key.name}"? Anything using it will get 401 responses.`)) return;
+    await revokeKey({ id: key._id });
+  };
+
+  if (keys === undefined) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">API Keys</CardTitle>
+        <CardDescription>
+          Credentials for scripts and partner tools calling the REST API, sent as the X-API-Key header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {created && (
+          <div role="status" className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 space-y-2">
+            <p>
+              Copy the key for <span className="font-semibold">{created.name}</span> now. It won't be shown again.
+            </p>
+            <div className="flex gap-2 items-center">
+              <code className="flex-1 min-w-0 truncate bg-background px-2 py-1 rounded border">{created.key}</code>
+              <Button variant="outline" size="sm" onClick={() => handleCopy(created.key)}>
+                {copied ? "Copied" : "Copy"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {keys.length > 0 && (
+          <ul className="space-y-2">
+            {keys.map((key) => (
+              <li key={key._id} className={`flex items-center gap-3 text-sm ${key.revokedAt ? "opacity-60" : ""}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">
+                    {key.name} <code className="text-xs text-muted-foreground">{key.hint}…</code>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {API_KEY_SCOPE_INFO[key.scope].label} · {key.rateLimitPerMinute}/min ·{" "}
+                    {key.lastUsedAt ? `last used ${formatRelativeTime(key.lastUsedAt)}` : "never used"} ·{" "}
+                    {key.revokedAt ? `revoked ${formatDate(key.revokedAt)}` : `created by ${key.createdBy}`}
+                  </p>
+                </div>
+                {!key.revokedAt && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(key)}>
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto] items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <div className="space-y-1.5">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Salesforce sync"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="api-key-scope">Scope</Label>
+            <select
+              id="api-key-scope"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ApiKeyScope)}
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+            >
+              {API_KEY_SCOPES.map((s) => (
+                <option key={s} value={s} title={API_KEY_SCOPE_INFO[s].description}>
+                  {API_KEY_SCOPE_INFO[s].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="api-key-rate">Requests/min</Label>
+            <Input
+              id="api-key-rate"
+              type="number"
+              min={1}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+              className="w-24"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!name.trim()}
+            className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+          >
+            Create Key
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,19 @@
 import { useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import type { ValueItem, UseCase } from "../types/roi";
-import { calculateTotalAnnualValue, calculateTotalHoursSaved, calculateFTEEquivalent } from "../utils/calculations";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { Assumptions, Scenario, ScenarioId, ValueItem, UseCase } from "../types/roi";
+import { DEFAULT_DISCOUNT_RATE, DEFAULT_FTE_HOURS_PER_MONTH, SCENARIO_INFO } from "../types/roi";
+import { calculateSummary, calculateTotalHoursSaved, calculateFTEEquivalent } from "../utils/calculations";
+import {
+  applyScenarioOverrides,
+  buildDefaultScenarios,
+  getScenario,
+  setScenarioOverride,
+} from "../utils/scenarios";
+import type { DepartmentHeadcount } from "../utils/capacity";
+import { getArchetypeFields, getArchetypeInfo } from "../utils/customArchetypes";
 import { formatCurrencyCompact } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
 import {
   Card,
   CardContent,
@@ -13,6 +24,10 @@ import {
 import { DebouncedInput } from "@/components/ui/debounced-input";
 import { Label } from "@/components/ui/label";
 import { AllInputsTable } from "./AllInputsTable";
+import { ScenarioComparison } from "./ScenarioComparison";
+import { CashCurveChart } from "./CashCurveChart";
+import { CostModelCard } from "./CostModelCard";
+import { CapacityCard } from "./CapacityCard";
 
 interface AssumptionsTabProps {
   calculation: {
@@ -21,31 +36,66 @@ interface AssumptionsTabProps {
       projectionYears: number;
       realizationRamp: number[];
       annualGrowthRate: number;
+      discountRate?: number;
+      fteHoursPerMonth?: number;
     };
     currentSpend?: number;
     proposedSpend?: number;
+    implementationCost?: number;
     obfuscation?: { companyDescriptor?: string; hideNotes?: boolean; roundValues?: boolean };
+    scenarios?: Scenario[];
+    activeScenarioId?: ScenarioId;
   };
   valueItems: ValueItem[];
   useCases: UseCase[];
+  company?: { _id: Id<"companies">; name: string; departmentHeadcounts?: DepartmentHeadcount[] } | null;
   readOnly?: boolean;
 }
 
-export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = false }: AssumptionsTabProps) {
+export function AssumptionsTab({ calculation, valueItems, useCases, company, readOnly = false }: AssumptionsTabProps) {
   const updateAssumptions = useMutation(api.calculations.updateAssumptions);
   const updateInvestment = useMutation(api.calculations.updateInvestment);
   const updateObfuscation = useMutation(api.calculations.updateObfuscation);
+  const updateScenarios = useMutation(api.calculations.updateScenarios);
+  const setActiveScenario = useMutation(api.calculations.setActiveScenario);
 
-  const { assumptions } = calculation;
+  const scenarios = calculation.scenarios ?? [];
+  const activeScenario = getScenario(calculation);
+  const assumptions = activeScenario?.assumptions ?? calculation.assumptions;
+  const effectiveItems = applyScenarioOverrides(valueItems, activeScenario);
 
-  const handleProjectionChange = (field: "projectionYears" | "annualGrowthRate", value: string | number) => {
-    const numValue = Number(value) || 0;
-    updateAssumptions({
+  // Projection edits go to the active scenario when scenarios exist
+  const saveAssumptions = (next: Assumptions) => {
+    if (activeScenario) {
+      saveScenario({ ...activeScenario, assumptions: next });
+    } else {
+      updateAssumptions({ id: calculation._id, assumptions: next });
+    }
+  };
+
+  const saveScenario = (next: Scenario) => {
+    updateScenarios({
       id: calculation._id,
-      assumptions: {
-        ...assumptions,
-        [field]: field === "annualGrowthRate" ? numValue / 100 : numValue,
-      },
+      scenarios: scenarios.map((s) => (s.id === next.id ? next : s)),
+    });
+  };
+
+  const handleCreateScenarios = async () => {
+    await updateScenarios({
+      id: calculation._id,
+      scenarios: buildDefaultScenarios(calculation.assumptions),
+    });
+    await setActiveScenario({ id: calculation._id, activeScenarioId: "expected" });
+  };
+
+  const handleProjectionChange = (
+    field: "projectionYears" | "annualGrowthRate" | "discountRate",
+    value: string | number
+  ) => {
+    const numValue = Number(value) || 0;
+    saveAssumptions({
+      ...assumptions,
+      [field]: field === "projectionYears" ? numValue : numValue / 100,
     });
   };
 
@@ -53,20 +103,29 @@ export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = f
     const numValue = (Number(value) || 0) / 100;
     const newRamp = [...assumptions.realizationRamp];
     newRamp[yearIndex] = numValue;
-    updateAssumptions({
-      id: calculation._id,
-      assumptions: { ...assumptions, realizationRamp: newRamp },
-    });
+    saveAssumptions({ ...assumptions, realizationRamp: newRamp });
   };
 
-  const handleInvestmentChange = (field: "currentSpend" | "proposedSpend", value: string | number) => {
+  const handleInvestmentChange = (
+    field: "currentSpend" | "proposedSpend" | "implementationCost",
+    value: string | number
+  ) => {
     const numValue = Number(value) || 0;
     updateInvestment({ id: calculation._id, [field]: numValue });
   };
 
-  const totalValue = calculateTotalAnnualValue(valueItems);
-  const hoursSaved = calculateTotalHoursSaved(valueItems);
-  const fteEquiv = calculateFTEEquivalent(hoursSaved);
+  const summary = calculateSummary(
+    effectiveItems,
+    assumptions,
+    calculation.proposedSpend,
+    calculation.implementationCost,
+    useCases
+  );
+  const totalValue = summary.totalAnnualValue;
+  const scheduledCount = useCases.filter((uc) => uc.goLiveMonth !== undefined).length;
+  const fteHoursPerMonth = assumptions.fteHoursPerMonth ?? DEFAULT_FTE_HOURS_PER_MONTH;
+  const hoursSaved = calculateTotalHoursSaved(effectiveItems, fteHoursPerMonth);
+  const fteEquiv = calculateFTEEquivalent(hoursSaved, fteHoursPerMonth);
   const investment = calculation.proposedSpend ?? 0;
 
   return (
@@ -77,7 +136,10 @@ export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = f
           <CardContent className="py-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-white/70 text-xs font-medium">Total Annual Value</p>
+                <p className="text-white/70 text-xs font-medium">
+                  Total Annual Value
+                  {activeScenario && ` · ${activeScenario.name}`}
+                </p>
                 <p className="text-3xl font-bold font-mono">{formatCurrencyCompact(totalValue)}</p>
               </div>
               <div className="flex gap-8 text-right">
@@ -109,14 +171,80 @@ export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = f
         readOnly={readOnly}
       />
 
+      {/* Scenarios */}
+      {(scenarios.length > 0 || !readOnly) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Scenarios</CardTitle>
+            <CardDescription>
+              Conservative, expected and aggressive cases, each with its own projection settings and optional
+              input overrides
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {scenarios.length === 0 ? (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Scenarios start from the current assumptions. Expected stays in sync with this calculator.
+                </p>
+                <Button variant="outline" size="sm" onClick={handleCreateScenarios}>
+                  Create Scenarios
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    {scenarios.map((scenario) => (
+                      <Button
+                        key={scenario.id}
+                        variant={scenario.id === activeScenario?.id ? "default" : "outline"}
+                        size="sm"
+                        disabled={readOnly}
+                        onClick={() => setActiveScenario({ id: calculation._id, activeScenarioId: scenario.id })}
+                      >
+                        {scenario.name}
+                      </Button>
+                    ))}
+                  </div>
+                  {activeScenario && (
+                    <p className="text-xs text-muted-foreground">{SCENARIO_INFO[activeScenario.id].description}</p>
+                  )}
+                </div>
+
+                <ScenarioComparison
+                  calculation={calculation}
+                  valueItems={valueItems}
+                  proposedSpend={calculation.proposedSpend}
+                  implementationCost={calculation.implementationCost}
+                  useCases={useCases}
+                />
+
+                {activeScenario && activeScenario.id !== "expected" && (
+                  <ScenarioOverridesEditor
+                    scenario={activeScenario}
+                    valueItems={valueItems}
+                    readOnly={readOnly}
+                    onChange={saveScenario}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Projection Settings */}
       <Card>
         <CardHeader>
           <CardTitle>Projection Settings</CardTitle>
-          <CardDescription>Multi-year projection and realization assumptions</CardDescription>
+          <CardDescription>
+            Multi-year projection and realization assumptions
+            {activeScenario && ` for the ${activeScenario.name} scenario`}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
               <Label htmlFor="projection-years">Projection Period</Label>
               <div className="flex items-center gap-2">
@@ -155,6 +283,28 @@ export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = f
                 <span className="text-muted-foreground text-sm">%</span>
               </div>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-rate">Discount Rate</Label>
+              <div className="flex items-center gap-2">
+                {readOnly ? (
+                  <span className="font-mono py-2">
+                    {Math.round((assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE) * 100)}
+                  </span>
+                ) : (
+                  <DebouncedInput
+                    id="discount-rate"
+                    type="number"
+                    min="0"
+                    value={Math.round((assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE) * 100)}
+                    onChange={(value) => handleProjectionChange("discountRate", value)}
+                    debounceMs={300}
+                    className="font-mono"
+                  />
+                )}
+                <span className="text-muted-foreground text-sm">%</span>
+              </div>
+              <p className="text-xs text-muted-foreground">Used for NPV (customer's cost of capital)</p>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -189,35 +339,91 @@ export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = f
         </CardContent>
       </Card>
 
+      {/* Cumulative Cash Curve */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cumulative Cash Curve</CardTitle>
+          <CardDescription>
+            Month-by-month net value after annual and implementation costs.{" "}
+            {scheduledCount > 0
+              ? `${scheduledCount} use case${scheduledCount !== 1 ? "s" : ""} follow their own go-live month and ramp; everything else uses the realization ramp.`
+              : "Set a go-live month on a use case to model when its value starts."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CashCurveChart
+            months={summary.monthlyProjection}
+            implementationCost={calculation.implementationCost}
+            paybackMonth={summary.paybackMonth}
+            useCases={useCases}
+          />
+        </CardContent>
+      </Card>
+
       {/* Proposed Investment */}
       <Card>
         <CardHeader>
           <CardTitle>Proposed Investment</CardTitle>
-          <CardDescription>Annual Zapier investment for this engagement</CardDescription>
+          <CardDescription>Annual Zapier investment and one-time implementation cost for this engagement</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-2 max-w-xs">
-            <Label htmlFor="proposed-spend">Annual Investment</Label>
-            <div className="flex items-center gap-2">
-              <span className="text-muted-foreground">$</span>
-              {readOnly ? (
-                <span className="font-mono py-2">{(calculation.proposedSpend ?? 0).toLocaleString()}</span>
-              ) : (
-                <DebouncedInput
-                  id="proposed-spend"
-                  type="number"
-                  value={calculation.proposedSpend ?? ""}
-                  onChange={(value) => handleInvestmentChange("proposedSpend", value)}
-                  debounceMs={300}
-                  className="font-mono"
-                  placeholder="0"
-                />
-              )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposed-spend">Annual Investment</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">$</span>
+                {readOnly ? (
+                  <span className="font-mono py-2">{(calculation.proposedSpend ?? 0).toLocaleString()}</span>
+                ) : (
+                  <DebouncedInput
+                    id="proposed-spend"
+                    type="number"
+                    value={calculation.proposedSpend ?? ""}
+                    onChange={(value) => handleInvestmentChange("proposedSpend", value)}
+                    debounceMs={300}
+                    className="font-mono"
+                    placeholder="0"
+                  />
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="implementation-cost">One-time Implementation Cost</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">$</span>
+                {readOnly ? (
+                  <span className="font-mono py-2">{(calculation.implementationCost ?? 0).toLocaleString()}</span>
+                ) : (
+                  <DebouncedInput
+                    id="implementation-cost"
+                    type="number"
+                    value={calculation.implementationCost ?? ""}
+                    onChange={(value) => handleInvestmentChange("implementationCost", value)}
+                    debounceMs={300}
+                    className="font-mono"
+                    placeholder="0"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">Services or build cost paid once at go-live</p>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Automation Costs */}
+      <CostModelCard valueItems={effectiveItems} useCases={useCases} proposedSpend={calculation.proposedSpend} />
+
+      {/* Capacity Check */}
+      <CapacityCard
+        valueItems={effectiveItems}
+        useCases={useCases}
+        company={company}
+        fteHoursPerMonth={fteHoursPerMonth}
+        onFteHoursChange={(value) => value > 0 && saveAssumptions({ ...assumptions, fteHoursPerMonth: value })}
+        readOnly={readOnly}
+      />
+
       {/* Obfuscation Settings */}
       <Card>
         <CardHeader>
@@ -291,3 +497,89 @@ export function AssumptionsTab({ calculation, valueItems, useCases, readOnly = f
     </div>
   );
 }
+
+// ============================================================
+// ScenarioOverridesEditor — per-item input overrides for a scenario
+// Blank fields fall back to the value item's own input
+// ============================================================
+
+function ScenarioOverridesEditor({
+  scenario,
+  valueItems,
+  readOnly,
+  onChange,
+}: {
+  scenario: Scenario;
+  valueItems: ValueItem[];
+  readOnly: boolean;
+  onChange: (next: Scenario) => void;
+}) {
+  const overrideFor = (itemId: string, key: string): number | undefined =>
+    scenario.itemOverrides?.find((o) => o.valueItemId === itemId)?.inputs[key];
+
+  const handleChange = (itemId: string, key: string, isPercentage: boolean, raw: string | number) => {
+    const text = String(raw).trim();
+    const parsed = Number(text);
+    const value = text === "" || !Number.isFinite(parsed) ? null : isPercentage ? parsed / 100 : parsed;
+    onChange(setScenarioOverride(scenario, itemId, key, value));
+  };
+
+  const overrideCount = (scenario.itemOverrides ?? []).reduce(
+    (sum, o) => sum + Object.keys(o.inputs).length,
+    0
+  );
+
+  return (
+    <details className="rounded-lg border">
+      <summary className="cursor-pointer px-4 py-3 text-sm font-medium">
+        Input overrides for {scenario.name}
+        {overrideCount > 0 && (
+          <span className="ml-2 text-xs text-muted-foreground">({overrideCount} set)</span>
+        )}
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        {valueItems.length === 0 && (
+          <p className="text-sm text-muted-foreground">Add value items to override their inputs.</p>
+        )}
+        {valueItems.map((item) => {
+          if (item.manualAnnualValue != null) return null;
+          const fields = getArchetypeFields(item);
+          return (
+            <div key={item._id} className="space-y-2">
+              <p className="text-sm font-medium">
+                {item.name}
+                <span className="ml-2 text-xs text-muted-foreground">{getArchetypeInfo(item).label}</span>
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {fields.map((field) => {
+                  const isPercentage = field.type === "percentage";
+                  const base = item.inputs[field.key]?.value ?? 0;
+                  const override = overrideFor(item._id, field.key);
+                  const display = (v: number) => (isPercentage ? Math.round(v * 100) : v);
+                  return (
+                    <div key={field.key} className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground flex-1 truncate">{field.label}</Label>
+                      {readOnly ? (
+                        <span className="font-mono text-sm w-28 text-right">
+                          {override !== undefined ? display(override) : "—"}
+                        </span>
+                      ) : (
+                        <DebouncedInput
+                          value={override !== undefined ? display(override) : ""}
+                          onChange={(value) => handleChange(item._id, field.key, isPercentage, value)}
+                          debounceMs={500}
+                          placeholder={String(display(base))}
+                          className="font-mono w-28 h-8 text-sm"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
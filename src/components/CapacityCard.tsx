@@ -0,0 +1,153 @@
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { UseCase, ValueItem } from "../types/roi";
+import { checkCapacity, type DepartmentHeadcount } from "../utils/capacity";
+import { formatNumber } from "../utils/formatting";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DebouncedInput } from "@/components/ui/debounced-input";
+import { Label } from "@/components/ui/label";
+
+// ============================================================
+// CapacityCard — hours saved per department vs. available headcount hours
+// ============================================================
+
+interface CapacityCardProps {
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+  company?: { _id: Id<"companies">; name: string; departmentHeadcounts?: DepartmentHeadcount[] } | null;
+  fteHoursPerMonth: number;
+  onFteHoursChange: (value: number) => void;
+  readOnly?: boolean;
+}
+
+export function CapacityCard({
+  valueItems,
+  useCases,
+  company,
+  fteHoursPerMonth,
+  onFteHoursChange,
+  readOnly = false,
+}: CapacityCardProps) {
+  const updateHeadcounts = useMutation(api.companies.updateDepartmentHeadcounts);
+
+  const headcounts = company?.departmentHeadcounts ?? [];
+  const capacity = checkCapacity(valueItems, useCases, headcounts, fteHoursPerMonth);
+
+  const handleHeadcountChange = (department: string, raw: string | number) => {
+    if (!company) return;
+    const text = String(raw).trim();
+    const headcount = Number(text);
+    const key = department.toLowerCase();
+    const rest = headcounts.filter((h) => h.department.toLowerCase() !== key);
+    updateHeadcounts({
+      id: company._id,
+      departmentHeadcounts:
+        text === "" || !Number.isFinite(headcount) || headcount < 0 ? rest : [...rest, { department, headcount }],
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capacity Check</CardTitle>
+        <CardDescription>
+          Hours saved per month by use case department, compared with what each department's headcount can work
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {capacity.overCapacity.length > 0 && (
+          <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm" role="status">
+            <p className="font-medium text-amber-950 dark:text-amber-100">Hours saved exceed available capacity</p>
+            <ul className="text-muted-foreground mt-1 space-y-0.5">
+              {capacity.overCapacity.map((d) => (
+                <li key={d.department}>
+                  {d.department}: {formatNumber(Math.round(d.claimedHours))} hrs/month claimed, but{" "}
+                  {formatNumber(d.headcount ?? 0)} people only work {formatNumber(Math.round(d.availableHours ?? 0))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="fte-hours">Working Hours per FTE</Label>
+          <div className="flex items-center gap-2">
+            {readOnly ? (
+              <span className="font-mono py-2">{fteHoursPerMonth}</span>
+            ) : (
+              <DebouncedInput
+                id="fte-hours"
+                type="number"
+                min="1"
+                value={fteHoursPerMonth}
+                onChange={(value) => onFteHoursChange(Number(value))}
+                debounceMs={300}
+                className="font-mono"
+              />
+            )}
+            <span className="text-muted-foreground text-sm whitespace-nowrap">hrs / month</span>
+          </div>
+          <p className="text-xs text-muted-foreground">Used for FTE equivalents, labor avoidance hours and capacity</p>
+        </div>
+
+        {capacity.departments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Set a department on use cases to compare their hours saved with headcount.
+          </p>
+        ) : (
+          <div className="overflow-x-auto -mx-6 px-6">
+            <table className="w-full min-w-[480px] text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-left py-2 font-medium">Department</th>
+                  <th className="text-right py-2 font-medium">Headcount</th>
+                  <th className="text-right py-2 font-medium">Available hrs</th>
+                  <th className="text-right py-2 font-medium">Hours saved</th>
+                  <th className="text-right py-2 font-medium">Utilization</th>
+                </tr>
+              </thead>
+              <tbody>
+                {capacity.departments.map((d) => (
+                  <tr key={d.department} className="border-b last:border-0">
+                    <td className="py-2 pr-4 truncate max-w-[200px]" title={d.department}>{d.department}</td>
+                    <td className="text-right py-2">
+                      {readOnly || !company ? (
+                        <span className="font-mono">{d.headcount ?? "—"}</span>
+                      ) : (
+                        <DebouncedInput
+                          type="number"
+                          min="0"
+                          value={d.headcount ?? ""}
+                          onChange={(value) => handleHeadcountChange(d.department, value)}
+                          debounceMs={500}
+                          placeholder="—"
+                          className="font-mono w-20 h-8 text-sm ml-auto text-right"
+                        />
+                      )}
+                    </td>
+                    <td className="text-right py-2 font-mono">
+                      {d.availableHours !== null ? formatNumber(Math.round(d.availableHours)) : "—"}
+                    </td>
+                    <td className="text-right py-2 font-mono">{formatNumber(Math.round(d.claimedHours))}</td>
+                    <td className={`text-right py-2 font-mono ${d.overCapacity ? "text-amber-600 font-semibold" : ""}`}>
+                      {d.utilization !== null ? `${Math.round(d.utilization * 100)}%` : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {company
+            ? `Headcount is stored on ${company.name} and shared by its calculators.`
+            : "Link this calculator to a company to record department headcount."}
+          {capacity.unassignedHours > 0 &&
+            ` ${formatNumber(Math.round(capacity.unassignedHours))} hrs/month come from items without a use case department.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
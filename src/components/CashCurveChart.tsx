@@ -0,0 +1,123 @@
+import type { MonthProjection, UseCase } from "../types/roi";
+import { formatCurrencyCompact } from "../utils/formatting";
+
+// ============================================================
+// CashCurveChart — cumulative net cash position by month
+// ============================================================
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 24, left: 56 };
+const LINE_COLOR = "#FF4A00";
+const GO_LIVE_COLOR = "#3B82F6";
+
+interface CashCurveChartProps {
+  months: MonthProjection[];
+  implementationCost?: number;
+  paybackMonth?: number | null;
+  useCases?: Pick<UseCase, "_id" | "name" | "goLiveMonth">[];
+  formatValue?: (value: number) => string;
+}
+
+export function CashCurveChart({
+  months,
+  implementationCost = 0,
+  paybackMonth,
+  useCases = [],
+  formatValue = formatCurrencyCompact,
+}: CashCurveChartProps) {
+  if (months.length === 0) return null;
+
+  // Month 0 is the upfront implementation cost
+  const points = [-implementationCost, ...months.map((m) => m.cumulativeNetValue - implementationCost)];
+  const minY = Math.min(0, ...points);
+  const maxY = Math.max(0, ...points);
+  const spanY = maxY - minY || 1;
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (month: number) => PAD.left + (month / months.length) * innerW;
+  const y = (value: number) => PAD.top + ((maxY - value) / spanY) * innerH;
+
+  const path = points.map((v, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+  const years = months.length / 12;
+  const goLives = useCases.filter(
+    (uc) => uc.goLiveMonth !== undefined && uc.goLiveMonth >= 1 && uc.goLiveMonth <= months.length
+  );
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative cash curve">
+        {/* Year gridlines */}
+        {Array.from({ length: years + 1 }, (_, i) => (
+          <g key={i}>
+            <line x1={x(i * 12)} x2={x(i * 12)} y1={PAD.top} y2={HEIGHT - PAD.bottom} className="stroke-border" />
+            {i > 0 && (
+              <text x={x(i * 12 - 6)} y={HEIGHT - 6} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+                Year {i}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {/* Axis labels */}
+        <text x={PAD.left - 6} y={y(maxY) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {formatValue(maxY)}
+        </text>
+        {minY < 0 && (
+          <text x={PAD.left - 6} y={y(minY) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+            {formatValue(minY)}
+          </text>
+        )}
+
+        {/* Break-even line */}
+        <line
+          x1={PAD.left}
+          x2={WIDTH - PAD.right}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-muted-foreground"
+          strokeDasharray="4 3"
+        />
+
+        {/* Use case go-live markers */}
+        {goLives.map((uc) => (
+          <line
+            key={String(uc._id)}
+            x1={x(uc.goLiveMonth! - 1)}
+            x2={x(uc.goLiveMonth! - 1)}
+            y1={PAD.top}
+            y2={HEIGHT - PAD.bottom}
+            stroke={GO_LIVE_COLOR}
+            strokeOpacity={0.5}
+          >
+            <title>{`${uc.name} goes live in month ${uc.goLiveMonth}`}</title>
+          </line>
+        ))}
+
+        <path d={path} fill="none" stroke={LINE_COLOR} strokeWidth={2} />
+
+        {paybackMonth !== undefined && paybackMonth !== null && paybackMonth > 0 && (
+          <circle cx={x(paybackMonth)} cy={y(points[paybackMonth] ?? 0)} r={4} fill={LINE_COLOR}>
+            <title>{`Paid back in month ${paybackMonth}`}</title>
+          </circle>
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5" style={{ backgroundColor: LINE_COLOR }} />
+          Cumulative net value
+        </span>
+        {goLives.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-0.5 h-3" style={{ backgroundColor: GO_LIVE_COLOR }} />
+            Use case go-live
+          </span>
+        )}
+        {paybackMonth !== undefined && paybackMonth !== null && paybackMonth > 0 && (
+          <span>Payback in month {paybackMonth}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,14 @@ import type { Id } from "../../convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatCurrencyCompact, formatCurrency, formatRelativeTime } from "../utils/formatting";
-import { DIMENSION_INFO, type Dimension, DIMENSION_ORDER } from "../types/roi";
+import { DIMENSION_INFO, type ValueItem } from "../types/roi";
+import { calculateCompanyAggregate } from "../utils/calculations";
+import { CustomArchetypesCard } from "./CustomArchetypesCard";
+import { MembersCard } from "./MembersCard";
+import { ApiKeysCard } from "./ApiKeysCard";
+import { WebhooksCard } from "./WebhooksCard";
+import { CrmConfigCard } from "./CrmConfigCard";
+import { hasRole } from "../utils/access";
 
 interface CompanyDashboardProps {
   company: {
@@ -21,182 +28,12 @@ interface CompanyDashboardProps {
   summaryOnly?: boolean;
 }
 
-interface CalcSummary {
-  shortId: string;
-  name: string;
-  role?: string;
-  totalAnnualValue: number;
-  roiMultiple: number | null;
-  hoursSavedPerMonth: number;
-  proposedSpend?: number;
-  valueItemCount: number;
-  updatedAt: number;
-  primaryDimension?: string;
-}
-
 function useCompanyAggregate(companyId: Id<"companies">) {
   const calculations = useQuery(api.calculations.listByCompany, { companyId });
-  const companyUseCases = useQuery(api.useCases.listByCompany, { companyId });
   const allValueItems = useQuery(api.valueItems.listAll);
 
-  if (!calculations || !allValueItems || !companyUseCases) return null;
-
-  // Company-level totals: sum value items per use case ONCE (no double-counting)
-  const companyUseCaseIds = new Set(companyUseCases.map((uc) => uc._id));
-  // Value items linked to company use cases
-  const companyValueItems = allValueItems.filter(
-    (vi) => vi.useCaseId && companyUseCaseIds.has(vi.useCaseId)
-  );
-  // Also include unlinked value items from company calculators
-  const companyCalcIds = new Set(calculations.map((c) => c._id));
-  const unlinkedItems = allValueItems.filter(
-    (vi) => !vi.useCaseId && companyCalcIds.has(vi.calculationId)
-  );
-  const allCompanyItems = [...companyValueItems, ...unlinkedItems];
-
-  let totalAnnualValue = 0;
-  let totalHoursSavedPerMonth = 0;
-  let totalProposedSpend = 0;
-  const dimensionTotals: Record<string, number> = {};
-
-  for (const item of allCompanyItems) {
-    const value = item.manualAnnualValue ?? computeItemValue(item);
-    totalAnnualValue += value;
-    const dim = item.dimension;
-    dimensionTotals[dim] = (dimensionTotals[dim] ?? 0) + value;
-
-    const inputs = (item.inputs ?? {}) as Record<string, { value: number }>;
-    if (item.archetype === "task_elimination") {
-      totalHoursSavedPerMonth += (getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesPerTask")) / 60;
-    } else if (item.archetype === "task_simplification") {
-      totalHoursSavedPerMonth += (getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesSavedPerTask")) / 60;
-    } else if (item.archetype === "process_acceleration") {
-      totalHoursSavedPerMonth += getVal(inputs, "processesPerMonth") * (getVal(inputs, "timeBeforeHrs") - getVal(inputs, "timeAfterHrs"));
-    } else if (item.archetype === "handoff_elimination") {
-      totalHoursSavedPerMonth += getVal(inputs, "handoffsPerMonth") * getVal(inputs, "avgQueueTimeHrs");
-    }
-  }
-
-  // Per-calculator summaries (use useCaseIds for accurate value per calc)
-  const calcSummaries: CalcSummary[] = [];
-
-  for (const calc of calculations) {
-    // Value items for this calculator: items in its useCaseIds + unlinked items with this calculationId
-    const calcUseCaseIds = new Set(calc.useCaseIds ?? []);
-    const calcValueItems = [
-      ...allValueItems.filter((vi) => vi.useCaseId && calcUseCaseIds.has(vi.useCaseId)),
-      ...allValueItems.filter((vi) => !vi.useCaseId && vi.calculationId === calc._id),
-    ];
-
-    // Fallback for calculators not yet migrated
-    const effectiveItems = calcValueItems.length > 0 || (calc.useCaseIds && calc.useCaseIds.length > 0)
-      ? calcValueItems
-      : allValueItems.filter((vi) => vi.calculationId === calc._id);
-
-    let calcValue = 0;
-    let calcHours = 0;
-    const calcDimTotals: Record<string, number> = {};
-
-    for (const item of effectiveItems) {
-      const value = item.manualAnnualValue ?? computeItemValue(item);
-      calcValue += value;
-      const dim = item.dimension;
-      calcDimTotals[dim] = (calcDimTotals[dim] ?? 0) + value;
-
-      const inputs = (item.inputs ?? {}) as Record<string, { value: number }>;
-      if (item.archetype === "task_elimination") {
-        calcHours += (getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesPerTask")) / 60;
-      } else if (item.archetype === "task_simplification") {
-        calcHours += (getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesSavedPerTask")) / 60;
-      } else if (item.archetype === "process_acceleration") {
-        calcHours += getVal(inputs, "processesPerMonth") * (getVal(inputs, "timeBeforeHrs") - getVal(inputs, "timeAfterHrs"));
-      } else if (item.archetype === "handoff_elimination") {
-        calcHours += getVal(inputs, "handoffsPerMonth") * getVal(inputs, "avgQueueTimeHrs");
-      }
-    }
-
-    totalProposedSpend += calc.proposedSpend ?? 0;
-
-    let primaryDim = "";
-    let primaryVal = 0;
-    for (const [dim, val] of Object.entries(calcDimTotals)) {
-      if (val > primaryVal) {
-        primaryDim = dim;
-        primaryVal = val;
-      }
-    }
-
-    const investment = calc.proposedSpend ?? 0;
-    calcSummaries.push({
-      shortId: calc.shortId,
-      name: calc.name,
-      role: calc.role,
-      totalAnnualValue: Math.round(calcValue),
-      roiMultiple: investment > 0 ? Math.round((calcValue / investment) * 100) / 100 : null,
-      hoursSavedPerMonth: Math.round(calcHours),
-      proposedSpend: calc.proposedSpend,
-      valueItemCount: effectiveItems.length,
-      updatedAt: calc.updatedAt,
-      primaryDimension: primaryDim,
-    });
-  }
-
-  return {
-    totalAnnualValue: Math.round(totalAnnualValue),
-    totalROI: totalProposedSpend > 0 ? Math.round((totalAnnualValue / totalProposedSpend) * 100) / 100 : null,
-    totalHoursSavedPerMonth: Math.round(totalHoursSavedPerMonth),
-    calculatorCount: calculations.length,
-    dimensionTotals,
-    calculators: calcSummaries,
-  };
-}
-
-function getVal(inputs: Record<string, { value: number }>, key: string): number {
-  return inputs?.[key]?.value ?? 0;
-}
-
-function computeItemValue(item: { archetype: string; inputs: unknown; manualAnnualValue?: number }): number {
-  if (item.manualAnnualValue != null) return item.manualAnnualValue;
-  const inputs = (item.inputs ?? {}) as Record<string, { value: number }>;
-  switch (item.archetype) {
-    case "pipeline_velocity":
-      return getVal(inputs, "dealsPerQuarter") * getVal(inputs, "avgDealValue") * getVal(inputs, "conversionLift") * 4;
-    case "revenue_capture":
-      return getVal(inputs, "annualRevenue") * getVal(inputs, "leakageRate") * getVal(inputs, "captureImprovement");
-    case "revenue_expansion":
-      return getVal(inputs, "customerBase") * getVal(inputs, "expansionRate") * getVal(inputs, "avgExpansionValue") * getVal(inputs, "lift");
-    case "time_to_revenue":
-      return getVal(inputs, "newCustomersPerYear") * getVal(inputs, "revenuePerCustomer") * getVal(inputs, "daysAccelerated") / 365;
-    case "process_acceleration":
-      return getVal(inputs, "processesPerMonth") * (getVal(inputs, "timeBeforeHrs") - getVal(inputs, "timeAfterHrs")) * getVal(inputs, "hourlyRate") * 12;
-    case "handoff_elimination":
-      return getVal(inputs, "handoffsPerMonth") * getVal(inputs, "avgQueueTimeHrs") * getVal(inputs, "hourlyRateOfWaitingParty") * 12;
-    case "task_elimination":
-      return getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesPerTask") * (getVal(inputs, "hourlyRate") / 60) * 12;
-    case "task_simplification":
-      return getVal(inputs, "tasksPerMonth") * getVal(inputs, "minutesSavedPerTask") * (getVal(inputs, "hourlyRate") / 60) * 12;
-    case "context_surfacing": {
-      const meetings = getVal(inputs, "meetingsAvoidedPerMonth") * getVal(inputs, "attendeesPerMeeting") * getVal(inputs, "meetingDurationHrs") * getVal(inputs, "meetingHourlyRate") * 12;
-      const searches = getVal(inputs, "searchesAvoidedPerMonth") * getVal(inputs, "avgSearchTimeMin") * (getVal(inputs, "searchHourlyRate") / 60) * 12;
-      return meetings + searches;
-    }
-    case "labor_avoidance":
-      return getVal(inputs, "ftesAvoided") * getVal(inputs, "fullyLoadedAnnualCost");
-    case "tool_consolidation":
-      return getVal(inputs, "toolsEliminated") * getVal(inputs, "annualLicenseCostPerTool");
-    case "error_rework_elimination":
-      return getVal(inputs, "errorsPerMonth") * getVal(inputs, "avgCostPerError") * getVal(inputs, "reductionRate") * 12;
-    case "compliance_assurance":
-      return getVal(inputs, "expectedViolationsPerYear") * getVal(inputs, "avgPenaltyPerViolation") * getVal(inputs, "reductionRate");
-    case "data_integrity":
-      return getVal(inputs, "recordsPerMonth") * getVal(inputs, "errorRate") * getVal(inputs, "costPerError") * getVal(inputs, "reductionRate") * 12;
-    case "incident_prevention":
-      return getVal(inputs, "incidentsPerYear") * getVal(inputs, "avgCostPerIncident") * getVal(inputs, "reductionRate");
-    case "process_consistency":
-      return getVal(inputs, "processesPerMonth") * getVal(inputs, "defectRate") * getVal(inputs, "costPerDefect") * getVal(inputs, "reductionRate") * 12;
-    default:
-      return 0;
-  }
+  if (!calculations || !allValueItems) return null;
+  return calculateCompanyAggregate(calculations, allValueItems as unknown as ValueItem[]);
 }
 
 export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashboardProps) {
@@ -204,9 +41,12 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
   const createCalculation = useMutation(api.calculations.create);
   const updateCompanyId = useMutation(api.calculations.updateCompanyId);
   const allCalculations = useQuery(api.calculations.list);
+  const role = useQuery(api.members.roleForCompany, { companyId: company._id });
   const [showLinkDropdown, setShowLinkDropdown] = useState(false);
   const aggregate = useCompanyAggregate(company._id);
 
+  const readOnly = summaryOnly || !hasRole(role, "editor");
+
   // Standalone calcs (not linked to any company) available for linking
   const standaloneCalcs = allCalculations?.filter((c) => !c.companyId) ?? [];
 
@@ -247,7 +87,7 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
               </div>
             </div>
           </div>
-          {!summaryOnly && (
+          {!readOnly && (
             <div className="flex gap-2 items-center relative">
               {standaloneCalcs.length > 0 && (
                 <div className="relative">
@@ -304,7 +144,7 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
             <Card>
               <CardContent className="pt-6">
                 <div className="text-sm text-muted-foreground">Hours Saved / Month</div>
-                <div className="text-3xl font-bold">{aggregate.totalHoursSavedPerMonth}</div>
+                <div className="text-3xl font-bold">{Math.round(aggregate.totalHoursSavedPerMonth)}</div>
               </CardContent>
             </Card>
             <Card>
@@ -323,9 +163,7 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
               </CardHeader>
               <CardContent>
                 <div className="flex h-6 rounded-full overflow-hidden mb-4">
-                  {DIMENSION_ORDER.map((dim) => {
-                    const total = aggregate.dimensionTotals[dim] ?? 0;
-                    const pct = aggregate.totalAnnualValue > 0 ? (total / aggregate.totalAnnualValue) * 100 : 0;
+                  {aggregate.dimensionTotals.map(({ dimension: dim, total, percentage: pct }) => {
                     if (pct === 0) return null;
                     return (
                       <div
@@ -337,8 +175,7 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
                   })}
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
-                  {DIMENSION_ORDER.map((dim) => {
-                    const total = aggregate.dimensionTotals[dim] ?? 0;
+                  {aggregate.dimensionTotals.map(({ dimension: dim, total }) => {
                     if (total === 0) return null;
                     return (
                       <div key={dim} className="flex items-center gap-2 text-sm">
@@ -365,7 +202,7 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
               <Card className="text-center py-12">
                 <CardContent>
                   <div className="text-muted-foreground mb-4">No calculators yet</div>
-                  {!summaryOnly && (
+                  {!readOnly && (
                     <Button onClick={handleAddCalculator} className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white">
                       Create first calculator
                     </Button>
@@ -376,7 +213,7 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
               <div className="grid gap-4 md:grid-cols-2">
                 {aggregate.calculators.map((calc) => {
                   const dimColor = calc.primaryDimension
-                    ? DIMENSION_INFO[calc.primaryDimension as Dimension]?.color
+                    ? DIMENSION_INFO[calc.primaryDimension].color
                     : "#FF4A00";
                   return (
                     <Card
@@ -413,10 +250,10 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
                               <span className="font-semibold">{formatCurrencyCompact(calc.proposedSpend!)}</span>
                             </div>
                           )}
-                          {calc.hoursSavedPerMonth > 0 && (
+                          {Math.round(calc.hoursSavedPerMonth) > 0 && (
                             <div>
                               <span className="text-muted-foreground">Hrs/mo: </span>
-                              <span className="font-semibold">{calc.hoursSavedPerMonth}</span>
+                              <span className="font-semibold">{Math.round(calc.hoursSavedPerMonth)}</span>
                             </div>
                           )}
                         </div>
@@ -428,6 +265,16 @@ export function CompanyDashboard({ company, summaryOnly = false }: CompanyDashbo
             )}
           </div>
 
+          <CustomArchetypesCard companyId={company._id} readOnly={readOnly} />
+
+          {!summaryOnly && <MembersCard companyId={company._id} />}
+
+          {!summaryOnly && role === "owner" && <ApiKeysCard companyId={company._id} />}
+
+          {!summaryOnly && role === "owner" && <WebhooksCard companyId={company._id} />}
+
+          {!summaryOnly && role === "owner" && <CrmConfigCard companyId={company._id} />}
+
           {/* Share URL */}
           {!summaryOnly && (
             <Card>
@@ -0,0 +1,106 @@
+import type { UseCase, ValueItem } from "../types/roi";
+import { DEFAULT_BILLABLE_STEPS, estimateCosts, type StepSource } from "../utils/costs";
+import { formatCurrencyCompact, formatNumber } from "../utils/formatting";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+// ============================================================
+// CostModelCard — projected Zapier task volume, build cost and plan fit
+// ============================================================
+
+const STEP_SOURCE_LABEL: Record<StepSource, string> = {
+  zap_details: "live Zaps",
+  zap_config: "planned Zaps",
+  default: "assumed",
+};
+
+interface CostModelCardProps {
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+  proposedSpend?: number;
+}
+
+export function CostModelCard({ valueItems, useCases, proposedSpend = 0 }: CostModelCardProps) {
+  const costs = estimateCosts(valueItems, useCases, { proposedSpend });
+  if (costs.tasksPerMonth === 0 && costs.buildHours === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Automation Costs</CardTitle>
+        <CardDescription>
+          Estimated Zapier task consumption from value item volumes × billable Zap steps, and build effort from each
+          use case
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {costs.planUndersized && (
+          <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm" role="status">
+            <p className="font-medium text-amber-950 dark:text-amber-100">Plan looks under-sized</p>
+            <p className="text-muted-foreground mt-1">
+              Projected volume of {formatNumber(Math.round(costs.tasksPerMonth))} tasks/month needs{" "}
+              {costs.recommendedPlan ? costs.recommendedPlan.name : "more than the largest listed plan"} (
+              {formatCurrencyCompact(costs.platformCost)}/yr). The proposed investment covers{" "}
+              {costs.proposedPlan
+                ? `${costs.proposedPlan.name} (${formatNumber(costs.proposedPlan.monthlyTasks)} tasks/month)`
+                : "no listed plan"}
+              — {formatCurrencyCompact(costs.shortfall)} short.
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Tasks / month" value={formatNumber(Math.round(costs.tasksPerMonth))} />
+          <Stat label="Suggested plan" value={costs.recommendedPlan?.name ?? (costs.tasksPerMonth > 0 ? "Custom" : "—")} />
+          <Stat label="Platform cost / yr" value={formatCurrencyCompact(costs.platformCost)} />
+          <Stat label={`Build (${formatNumber(costs.buildHours)} hrs)`} value={formatCurrencyCompact(costs.buildCost)} />
+        </div>
+
+        {costs.useCases.length > 0 && (
+          <div className="overflow-x-auto -mx-6 px-6">
+            <table className="w-full min-w-[480px] text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-left py-2 font-medium">Use case</th>
+                  <th className="text-right py-2 font-medium">Runs / mo</th>
+                  <th className="text-right py-2 font-medium">Steps / run</th>
+                  <th className="text-right py-2 font-medium">Tasks / mo</th>
+                  <th className="text-right py-2 font-medium">Build</th>
+                </tr>
+              </thead>
+              <tbody>
+                {costs.useCases.map((row) => (
+                  <tr key={row.useCaseId} className="border-b last:border-0">
+                    <td className="py-2 pr-4 truncate max-w-[220px]" title={row.name}>{row.name}</td>
+                    <td className="text-right py-2 font-mono">{formatNumber(Math.round(row.runsPerMonth))}</td>
+                    <td className="text-right py-2 font-mono" title={STEP_SOURCE_LABEL[row.stepSource]}>
+                      {row.billableStepsPerRun}
+                      {row.stepSource === "default" && <span className="text-muted-foreground">*</span>}
+                    </td>
+                    <td className="text-right py-2 font-mono">{formatNumber(Math.round(row.tasksPerMonth))}</td>
+                    <td className="text-right py-2 font-mono">{formatCurrencyCompact(row.buildCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          * No Zaps linked — assumes {DEFAULT_BILLABLE_STEPS} billable steps per run.
+          Triggers and filters don't use tasks.
+          {costs.unlinkedTasksPerMonth > 0 &&
+            ` Includes ${formatNumber(Math.round(costs.unlinkedTasksPerMonth))} tasks/month from value items not linked to a use case.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold font-mono">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  CRM_METRICS,
+  CRM_METRIC_LABELS,
+  CRM_PROVIDERS,
+  CRM_PROVIDER_LABELS,
+  DEFAULT_CRM_MAPPINGS,
+  type CrmMapping,
+  type CrmProvider,
+} from "../utils/crm";
+import { formatDate } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// ============================================================
+// CrmConfigCard — which CRM a company's calculators sync to and
+// the opportunity and account fields they use (owners)
+// ============================================================
+
+interface CrmConfigCardProps {
+  companyId: Id<"companies">;
+}
+
+export function CrmConfigCard({ companyId }: CrmConfigCardProps) {
+  const config = useQuery(api.crm.getConfig, { companyId });
+  const saveConfig = useMutation(api.crm.saveConfig);
+  const removeConfig = useMutation(api.crm.removeConfig);
+
+  const [provider, setProvider] = useState<CrmProvider>("salesforce");
+  const [mapping, setMapping] = useState<CrmMapping>(DEFAULT_CRM_MAPPINGS.salesforce);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the stored mapping once it loads
+  useEffect(() => {
+    if (!config) return;
+    setProvider(config.provider);
+    setMapping({ opportunityFields: config.opportunityFields, accountFields: config.accountFields });
+  }, [config]);
+
+  const handleProviderChange = (next: CrmProvider) => {
+    setProvider(next);
+    setMapping(DEFAULT_CRM_MAPPINGS[next]);
+  };
+
+  const setField = (group: keyof CrmMapping, key: string, value: string) => {
+    setMapping((current) => ({ ...current, [group]: { ...current[group], [key]: value } }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      await saveConfig({ companyId, provider, ...mapping });
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save CRM settings");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm("Remove the CRM settings? Calculators keep their opportunity links but can't sync.")) return;
+    await removeConfig({ companyId });
+    setProvider("salesforce");
+    setMapping(DEFAULT_CRM_MAPPINGS.salesforce);
+  };
+
+  if (config === undefined) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">CRM Sync</CardTitle>
+        <CardDescription>
+          Calculators linked to an opportunity push their metrics to these fields and pull the account's industry and
+          employee count into this company.{" "}
+          {config && `Last changed by ${config.updatedBy} on ${formatDate(config.updatedAt)}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          {error && (
+            <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="crm-provider">CRM</Label>
+            <select
+              id="crm-provider"
+              value={provider}
+              onChange={(e) => handleProviderChange(e.target.value as CrmProvider)}
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+            >
+              {CRM_PROVIDERS.map((p) => (
+                <option key={p} value={p}>
+                  {CRM_PROVIDER_LABELS[p]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <p className="sm:col-span-2 text-sm font-medium">
+              {provider === "hubspot" ? "Deal properties" : "Opportunity fields"}{" "}
+              <span className="font-normal text-muted-foreground">(leave blank to skip)</span>
+            </p>
+            {CRM_METRICS.map((metric) => (
+              <div key={metric} className="space-y-1.5">
+                <Label htmlFor={`crm-${metric}`}>{CRM_METRIC_LABELS[metric]}</Label>
+                <Input
+                  id={`crm-${metric}`}
+                  value={mapping.opportunityFields[metric] ?? ""}
+                  onChange={(e) => setField("opportunityFields", metric, e.target.value)}
+                  className="font-mono text-sm"
+                />
+              </div>
+            ))}
+
+            <p className="sm:col-span-2 text-sm font-medium pt-2">
+              {provider === "hubspot" ? "Company properties" : "Account fields"}
+            </p>
+            <div className="space-y-1.5">
+              <Label htmlFor="crm-industry">Industry</Label>
+              <Input
+                id="crm-industry"
+                value={mapping.accountFields.industry ?? ""}
+                onChange={(e) => setField("accountFields", "industry", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="crm-employees">Employee count</Label>
+              <Input
+                id="crm-employees"
+                value={mapping.accountFields.employeeCount ?? ""}
+                onChange={(e) => setField("accountFields", "employeeCount", e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button type="submit" className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white">
+              Save CRM Settings
+            </Button>
+            {config && (
+              <Button type="button" variant="ghost" onClick={handleRemove}>
+                Remove
+              </Button>
+            )}
+            {saved && <span className="text-sm text-muted-foreground">Saved</span>}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
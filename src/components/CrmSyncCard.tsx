@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { CRM_PROVIDER_LABELS } from "../utils/crm";
+import { formatRelativeTime } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// ============================================================
+// CrmSyncCard — link a calculator to a CRM opportunity and push
+// its metrics there
+// ============================================================
+
+interface CrmSyncCardProps {
+  calculationId: Id<"calculations">;
+  readOnly?: boolean;
+}
+
+export function CrmSyncCard({ calculationId, readOnly = false }: CrmSyncCardProps) {
+  const data = useQuery(api.crm.getLink, { calculationId });
+  const linkOpportunity = useMutation(api.crm.linkOpportunity);
+  const syncCalculation = useAction(api.crm.syncCalculation);
+
+  const [opportunityId, setOpportunityId] = useState("");
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Calculators outside a company with a CRM set up have nothing to sync to
+  if (!data?.provider) return null;
+  const { provider, link } = data;
+  const label = CRM_PROVIDER_LABELS[provider];
+  const objectName = provider === "hubspot" ? "deal" : "opportunity";
+
+  const handleLink = async () => {
+    setError(null);
+    try {
+      await linkOpportunity({ calculationId, opportunityId });
+      setOpportunityId("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Could not link the ${objectName}`);
+    }
+  };
+
+  const handleSync = async () => {
+    setError(null);
+    setSyncing(true);
+    try {
+      await syncCalculation({ calculationId });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Sync failed");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{label}</CardTitle>
+        <CardDescription>
+          Push the annual value, ROI multiple, NPV and top dimension to the {objectName}, and pull the account's
+          industry and employee count into the company
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {link ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">
+                Linked to {objectName} <code>{link.opportunityId}</code>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {link.lastSyncedAt
+                  ? `Last synced ${formatRelativeTime(link.lastSyncedAt)} by ${link.lastSyncedBy}`
+                  : "Not synced yet"}
+                {link.lastPushed && ` · ${Object.keys(link.lastPushed).length} fields pushed`}
+              </p>
+              {link.lastError && <p className="text-xs text-red-700 mt-1">Last attempt failed: {link.lastError}</p>}
+            </div>
+            {!readOnly && (
+              <>
+                <Button
+                  onClick={handleSync}
+                  disabled={syncing}
+                  className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+                >
+                  {syncing ? "Syncing..." : "Sync Now"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => linkOpportunity({ calculationId, opportunityId: null })}
+                >
+                  Unlink
+                </Button>
+              </>
+            )}
+          </div>
+        ) : readOnly ? (
+          <p className="text-sm text-muted-foreground">Not linked to a {label} {objectName}.</p>
+        ) : (
+          <form
+            className="flex flex-wrap items-end gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleLink();
+            }}
+          >
+            <div className="space-y-1.5 flex-1 min-w-48">
+              <Label htmlFor="crm-opportunity">{provider === "hubspot" ? "Deal ID" : "Opportunity ID"}</Label>
+              <Input
+                id="crm-opportunity"
+                value={opportunityId}
+                onChange={(e) => setOpportunityId(e.target.value)}
+                placeholder={provider === "hubspot" ? "e.g. 14350120321" : "e.g. 0065g00000AbCdE"}
+                className="font-mono"
+              />
+            </div>
+            <Button type="submit" disabled={!opportunityId.trim()} variant="outline">
+              Link
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
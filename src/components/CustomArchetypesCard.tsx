@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { CustomArchetypeDefinition, CustomArchetypeField, Dimension } from "../types/roi";
+import { DIMENSION_INFO, DIMENSION_ORDER } from "../types/roi";
+import {
+  MAX_CUSTOM_FIELDS,
+  evaluateCustomArchetype,
+  getUsedFieldKeys,
+  renderCustomTrace,
+  validateCustomArchetype,
+} from "../utils/customArchetypes";
+import { formatCurrency } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// ============================================================
+// CustomArchetypesCard — company-defined value drivers
+// ============================================================
+
+type Draft = Omit<CustomArchetypeDefinition, "key">;
+
+const FIELD_TYPE_LABELS: Record<CustomArchetypeField["type"], string> = {
+  number: "Number",
+  percentage: "Percentage",
+  currency: "Currency",
+  hours: "Hours",
+};
+
+const EMPTY_DRAFT: Draft = {
+  label: "",
+  description: "",
+  dimension: "productivity",
+  fields: [{ key: "volume", label: "Volume per year", type: "number" }],
+  formula: "volume",
+  traceTemplate: "",
+};
+
+interface CustomArchetypesCardProps {
+  companyId: Id<"companies">;
+  readOnly?: boolean;
+}
+
+export function CustomArchetypesCard({ companyId, readOnly = false }: CustomArchetypesCardProps) {
+  const archetypes = useQuery(api.customArchetypes.listByCompany, { companyId });
+  const createArchetype = useMutation(api.customArchetypes.create);
+  const updateArchetype = useMutation(api.customArchetypes.update);
+  const removeArchetype = useMutation(api.customArchetypes.remove);
+
+  // null = closed, "new" = creating, otherwise the archetype being edited
+  const [editingId, setEditingId] = useState<Id<"customArchetypes"> | "new" | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const errors = validateCustomArchetype(draft);
+
+  const startEdit = (archetype: NonNullable<typeof archetypes>[number] | null) => {
+    setSaveError(null);
+    if (!archetype) {
+      setDraft(EMPTY_DRAFT);
+      setEditingId("new");
+      return;
+    }
+    setDraft({
+      label: archetype.label,
+      description: archetype.description ?? "",
+      dimension: archetype.dimension as Dimension,
+      fields: archetype.fields as CustomArchetypeField[],
+      formula: archetype.formula,
+      traceTemplate: archetype.traceTemplate ?? "",
+    });
+    setEditingId(archetype._id);
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0 || !editingId) return;
+    const fields = draft.fields.map((f) => ({
+      key: f.key,
+      label: f.label,
+      type: f.type,
+      ...(f.prompt && { prompt: f.prompt }),
+      ...(f.defaultValue !== undefined && { defaultValue: f.defaultValue }),
+      ...(f.defaultConfidence && { defaultConfidence: f.defaultConfidence }),
+    }));
+    const args = {
+      label: draft.label,
+      description: draft.description ?? "",
+      dimension: draft.dimension,
+      fields,
+      formula: draft.formula,
+      traceTemplate: draft.traceTemplate ?? "",
+    };
+    try {
+      if (editingId === "new") {
+        await createArchetype({ companyId, ...args });
+      } else {
+        await updateArchetype({ id: editingId, ...args });
+      }
+      setEditingId(null);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : "Could not save archetype");
+    }
+  };
+
+  const handleRemove = async (id: Id<"customArchetypes">) => {
+    try {
+      await removeArchetype({ id });
+      setSaveError(null);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : "Could not delete archetype");
+    }
+  };
+
+  const updateField = (index: number, patch: Partial<CustomArchetypeField>) => {
+    setDraft((d) => ({ ...d, fields: d.fields.map((f, i) => (i === index ? { ...f, ...patch } : f)) }));
+  };
+
+  // Preview with each field's default (or 1) as its input
+  const previewInputs = Object.fromEntries(draft.fields.map((f) => [f.key, { value: f.defaultValue ?? 1 }]));
+  const usedKeys = errors.length === 0 ? getUsedFieldKeys(draft) : [];
+  const unusedFields = errors.length === 0 ? draft.fields.filter((f) => !usedKeys.includes(f.key)) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Custom Archetypes</CardTitle>
+            <CardDescription>
+              Value drivers specific to this company, available to all of its calculators
+            </CardDescription>
+          </div>
+          {!readOnly && editingId === null && (
+            <Button variant="outline" size="sm" onClick={() => startEdit(null)}>
+              + New Archetype
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {saveError && (
+          <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm" role="status">
+            {saveError}
+          </div>
+        )}
+
+        {archetypes && archetypes.length === 0 && editingId === null && (
+          <p className="text-sm text-muted-foreground">
+            No custom archetypes yet. Add one when a value driver doesn't fit the built-in archetypes.
+          </p>
+        )}
+
+        {archetypes && archetypes.length > 0 && (
+          <div className="divide-y">
+            {archetypes.map((a) => (
+              <div key={a._id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {a.label}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {DIMENSION_INFO[a.dimension as Dimension]?.shortLabel ?? a.dimension}
+                    </span>
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground truncate">{a.formula}</div>
+                </div>
+                {!readOnly && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => startEdit(a)}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleRemove(a._id)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {editingId !== null && (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="custom-archetype-label">Label</Label>
+                <Input
+                  id="custom-archetype-label"
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  placeholder="Claims triage"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Dimension</Label>
+                <Select
+                  value={draft.dimension}
+                  onValueChange={(v) => setDraft({ ...draft, dimension: v as Dimension })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIMENSION_ORDER.map((d) => (
+                      <SelectItem key={d} value={d}>
+                        {DIMENSION_INFO[d].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="custom-archetype-description">Description</Label>
+              <Input
+                id="custom-archetype-description"
+                value={draft.description ?? ""}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Inputs</Label>
+              {draft.fields.map((field, index) => (
+                <div key={index} className="grid grid-cols-[1fr_2fr_1fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    value={field.key}
+                    onChange={(e) => updateField(index, { key: e.target.value.trim() })}
+                    placeholder="key"
+                    className="font-mono text-sm"
+                    aria-label="Field key"
+                  />
+                  <Input
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    placeholder="Label"
+                    aria-label="Field label"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(v) => updateField(index, { type: v as CustomArchetypeField["type"] })}
+                  >
+                    <SelectTrigger aria-label="Field type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FIELD_TYPE_LABELS) as CustomArchetypeField["type"][]).map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {FIELD_TYPE_LABELS[t]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    value={field.defaultValue ?? ""}
+                    onChange={(e) =>
+                      updateField(index, { defaultValue: e.target.value === "" ? undefined : Number(e.target.value) })
+                    }
+                    placeholder="Default"
+                    className="font-mono text-sm"
+                    aria-label="Default value"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={draft.fields.length <= 1}
+                    onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })}
+                  >
+                    ×
+                  </Button>
+                </div>
+              ))}
+              {draft.fields.length < MAX_CUSTOM_FIELDS && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground"
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      fields: [...draft.fields, { key: `input${draft.fields.length + 1}`, label: "", type: "number" }],
+                    })
+                  }
+                >
+                  + Add input
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="custom-archetype-formula">Formula (annual value)</Label>
+              <Input
+                id="custom-archetype-formula"
+                value={draft.formula}
+                onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+                placeholder="volume * minutesSaved / 60 * hourlyRate"
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Use input keys, numbers, + - * / ^, parentheses and min, max, abs, round, floor, ceil.
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="custom-archetype-trace">Calculation trace (optional)</Label>
+              <Input
+                id="custom-archetype-trace"
+                value={draft.traceTemplate ?? ""}
+                onChange={(e) => setDraft({ ...draft, traceTemplate: e.target.value })}
+                placeholder="{volume} claims × {minutesSaved} min saved"
+                className="text-sm"
+              />
+            </div>
+
+            {errors.length > 0 ? (
+              <ul className="text-sm text-destructive space-y-0.5">
+                {errors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                Preview: <span className="font-mono">{renderCustomTrace(draft, previewInputs)}</span> ={" "}
+                <span className="font-mono font-semibold text-foreground">
+                  {formatCurrency(evaluateCustomArchetype(draft, previewInputs))}
+                </span>
+                {unusedFields.length > 0 && (
+                  <p className="text-xs mt-1">
+                    Not used by the formula: {unusedFields.map((f) => f.key).join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={errors.length > 0}
+                onClick={handleSave}
+                className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+              >
+                {editingId === "new" ? "Create" : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
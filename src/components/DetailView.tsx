@@ -1,7 +1,8 @@
 import { useMemo, useState } from "react";
 import { calculateItemAnnualValue, getDimensionBreakdown } from "../utils/calculations";
 import { formatCurrencyCompact } from "../utils/formatting";
-import { DIMENSION_INFO, DIMENSION_ORDER, ARCHETYPE_DIMENSION } from "../types/roi";
+import { getArchetypeInfo } from "../utils/customArchetypes";
+import { DIMENSION_INFO, DIMENSION_ORDER } from "../types/roi";
 import type { Dimension, ValueItem, Calculation, UseCase } from "../types/roi";
 import { UseCaseCard } from "./UseCaseCard";
 
@@ -22,7 +23,7 @@ export function DetailView({ calculation, valueItems, useCases, onUseCaseChange
   const useCasesByDimension = useMemo(() => {
     const map: Record<string, Set<string>> = {};
     for (const item of valueItems) {
-      const dim = item.dimension || ARCHETYPE_DIMENSION[item.archetype];
+      const dim = item.dimension || getArchetypeInfo(item).dimension;
       if (!dim || !item.useCaseId) continue;
       if (!map[dim]) map[dim] = new Set();
       map[dim].add(String(item.useCaseId));
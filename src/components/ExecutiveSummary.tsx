@@ -1,24 +1,30 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import type { Calculation, ValueItem, UseCase, UseCaseStatus } from "../types/roi";
-import { DIMENSION_INFO, USE_CASE_STATUS_INFO } from "../types/roi";
+import type { Calculation, ValueItem, UseCase, UseCaseStatus, ScenarioId } from "../types/roi";
+import { DEFAULT_DISCOUNT_RATE, DIMENSION_INFO, USE_CASE_STATUS_INFO } from "../types/roi";
 import {
   calculateSummary,
   calculateItemAnnualValue,
   getDimensionBreakdown,
 } from "../utils/calculations";
+import { runSimulation } from "../utils/simulation";
+import { resolveScenario } from "../utils/scenarios";
+import type { SnapshotFigures } from "../utils/snapshots";
 import { generateExecutiveSummaryPDF } from "../utils/pdfExport";
 import {
   formatCurrency,
   formatCurrencyCompact,
   formatMultiple,
   formatNumber,
+  formatPaybackMonths,
   formatPercent,
+  formatPercentPrecise,
 } from "../utils/formatting";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DebouncedTextarea } from "@/components/ui/debounced-textarea";
+import { ScenarioComparison } from "./ScenarioComparison";
 
 interface ExecutiveSummaryProps {
   calculation: Calculation;
@@ -26,6 +32,8 @@ interface ExecutiveSummaryProps {
   useCases: UseCase[];
   readOnly?: boolean;
   obfuscated?: boolean;
+  /** A snapshot's stored figures, shown instead of recomputing them */
+  figures?: SnapshotFigures | null;
 }
 
 function obfuscateValue(value: number): number {
@@ -37,23 +45,46 @@ function obfuscateValue(value: number): number {
 
 export function ExecutiveSummary({
   calculation,
-  valueItems,
+  valueItems: baseValueItems,
   useCases,
   readOnly = false,
   obfuscated = false,
+  figures,
 }: ExecutiveSummaryProps) {
   const [copied, setCopied] = useState(false);
+  const [scenarioId, setScenarioId] = useState<ScenarioId | undefined>(calculation.activeScenarioId);
   const updateTalkingPoints = useMutation(api.calculations.updateTalkingPoints);
 
   const proposedSpend = calculation.proposedSpend ?? 0;
 
-  const summary = calculateSummary(
+  // Everything below reflects the selected scenario (base inputs when there are none).
+  // A snapshot stored figures for its base inputs only, so it offers no scenarios.
+  const { scenario, assumptions, valueItems } = useMemo(
+    () =>
+      figures
+        ? { scenario: undefined, assumptions: calculation.assumptions, valueItems: baseValueItems }
+        : resolveScenario(calculation, baseValueItems, scenarioId),
+    [figures, calculation, baseValueItems, scenarioId]
+  );
+  const scenarios = figures ? [] : (calculation.scenarios ?? []);
+
+  const implementationCost = calculation.implementationCost ?? 0;
+  const discountRate = assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE;
+
+  const summary = figures?.summary ?? calculateSummary(
     valueItems,
-    calculation.assumptions,
-    proposedSpend
+    assumptions,
+    proposedSpend,
+    implementationCost,
+    useCases
   );
 
-  const dimensionBreakdown = getDimensionBreakdown(valueItems);
+  const dimensionBreakdown = figures?.dimensionBreakdown ?? getDimensionBreakdown(valueItems);
+
+  const simulation = useMemo(
+    () => figures?.simulation ?? runSimulation(valueItems, proposedSpend),
+    [figures, valueItems, proposedSpend]
+  );
 
   const fmt = (v: number) => obfuscated ? formatCurrencyCompact(obfuscateValue(v)) : formatCurrencyCompact(v);
   const fmtFull = (v: number) => obfuscated ? formatCurrency(obfuscateValue(v)) : formatCurrency(v);
@@ -66,7 +97,7 @@ export function ExecutiveSummary({
           const casesWithStatus = useCases.filter((uc) => uc.status === status);
           const linkedValue = casesWithStatus.reduce((sum, uc) => {
             const linked = valueItems.filter((item) => item.useCaseId === uc._id);
-            return sum + linked.reduce((s, item) => s + calculateItemAnnualValue(item), 0);
+            return sum + linked.reduce((s, item) => s + (figures?.itemValues[item._id] ?? calculateItemAnnualValue(item)), 0);
           }, 0);
           return { status, count: casesWithStatus.length, value: linkedValue };
         }).filter((s) => s.count > 0),
@@ -75,10 +106,15 @@ export function ExecutiveSummary({
 
   const handleCopyToClipboard = async () => {
     const lines = [
-      `${calculation.name} - Value Analysis`,
+      `${calculation.name} - Value Analysis${scenario ? ` (${scenario.name} scenario)` : ""}`,
       "",
       `Total Annual Value: ${fmtFull(summary.totalAnnualValue)}`,
       `Annual Investment: ${fmtFull(proposedSpend)}`,
+      ...(implementationCost > 0 ? [`Implementation Cost (one-time): ${fmtFull(implementationCost)}`] : []),
+      `NPV (${formatPercent(discountRate)} discount rate): ${fmtFull(summary.npv)}`,
+      `IRR: ${summary.irr !== null ? formatPercentPrecise(summary.irr) : "n/a"}`,
+      `Payback: ${formatPaybackMonths(summary.paybackMonth)}`,
+      `Likely Range (P10–P90): ${fmtFull(simulation.total.annualValue.p10)} – ${fmtFull(simulation.total.annualValue.p90)}`,
       "",
       "",
       "Value by Dimension:",
@@ -123,16 +159,34 @@ export function ExecutiveSummary({
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
         <div>
           <h2 className="text-2xl font-bold">{calculation.name}</h2>
-          <p className="text-muted-foreground">ROI Analysis</p>
+          <p className="text-muted-foreground">
+            ROI Analysis{scenario && ` · ${scenario.name} scenario`}
+          </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
+          {scenarios.length > 0 && (
+            <div className="flex rounded-md border overflow-hidden">
+              {scenarios.map((s) => (
+                <button
+                  key={s.id}
+                  type="button"
+                  onClick={() => setScenarioId(s.id)}
+                  className={`px-3 py-1 text-sm transition-colors ${
+                    s.id === scenario?.id ? "bg-[#FF4A00] text-white" : "hover:bg-muted"
+                  }`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          )}
           <Button variant="outline" size="sm" onClick={handleCopyToClipboard}>
             {copied ? "Copied!" : "Copy Summary"}
           </Button>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => generateExecutiveSummaryPDF(calculation, valueItems)}
+            onClick={() => generateExecutiveSummaryPDF({ ...calculation, assumptions }, valueItems, useCases)}
           >
             Export PDF
           </Button>
@@ -175,6 +229,47 @@ export function ExecutiveSummary({
         </Card>
       </div>
 
+      {/* Time-value-of-money metrics */}
+      <div className="grid grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground text-sm font-medium">Net Present Value</p>
+            <p className={`text-xl sm:text-2xl font-bold font-mono ${summary.npv < 0 ? "text-destructive" : ""}`}>
+              {fmt(summary.npv)}
+            </p>
+            <p className="text-muted-foreground text-xs mt-1">
+              {formatPercent(discountRate)} discount rate, {assumptions.projectionYears} yrs
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground text-sm font-medium">IRR</p>
+            <p className="text-xl sm:text-2xl font-bold font-mono">
+              {summary.irr !== null ? formatPercentPrecise(summary.irr) : "\u2014"}
+            </p>
+            {summary.irr === null && (
+              <p className="text-muted-foreground text-xs mt-1">Add investment to compute</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground text-sm font-medium">Payback</p>
+            <p className="text-xl sm:text-2xl font-bold font-mono">
+              {formatPaybackMonths(summary.paybackMonth)}
+            </p>
+            <p className="text-muted-foreground text-xs mt-1">
+              {summary.paybackMonth === null
+                ? "Not within projection"
+                : implementationCost > 0
+                  ? `Covers ${fmt(implementationCost)} implementation`
+                  : "From go-live"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Value by Dimension */}
       <Card>
         <CardHeader>
@@ -208,6 +303,52 @@ export function ExecutiveSummary({
         </CardContent>
       </Card>
 
+      {/* Range of Outcomes (Monte Carlo) */}
+      {valueItems.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Range of Outcomes</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {formatNumber(simulation.iterations)} simulated scenarios. Each input varies within its benchmark
+              range, wider for lower confidence tiers.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              {([
+                ["Downside (P10)", simulation.total.annualValue.p10, simulation.total.roiMultiple?.p10],
+                ["Expected (P50)", simulation.total.annualValue.p50, simulation.total.roiMultiple?.p50],
+                ["Upside (P90)", simulation.total.annualValue.p90, simulation.total.roiMultiple?.p90],
+              ] as const).map(([label, value, multiple]) => (
+                <div key={label} className="p-4 bg-muted rounded-lg">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-xl sm:text-2xl font-bold font-mono">{fmt(value)}</p>
+                  {multiple != null && (
+                    <p className="text-xs text-muted-foreground mt-1">{formatMultiple(multiple)} ROI</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {simulation.dimensions.map((dim) => (
+                <div key={dim.dimension} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="w-2.5 h-2.5 rounded-full"
+                      style={{ backgroundColor: DIMENSION_INFO[dim.dimension].color }}
+                    />
+                    {dim.label}
+                  </span>
+                  <span className="font-mono text-muted-foreground">
+                    {fmt(dim.annualValue.p10)} &ndash; {fmt(dim.annualValue.p90)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Multi-Year Projection */}
       <Card>
         <CardHeader>
@@ -225,7 +366,7 @@ export function ExecutiveSummary({
                     </th>
                   ))}
                   <th className="text-right py-2 text-sm font-medium text-[#FF4A00] whitespace-nowrap pl-2">
-                    {calculation.assumptions.projectionYears}-Year Total
+                    {assumptions.projectionYears}-Year Total
                   </th>
                 </tr>
               </thead>
@@ -269,6 +410,26 @@ export function ExecutiveSummary({
         </CardContent>
       </Card>
 
+      {/* Scenario Comparison */}
+      {scenarios.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Scenario Comparison</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScenarioComparison
+              calculation={calculation}
+              valueItems={baseValueItems}
+              proposedSpend={proposedSpend}
+              implementationCost={implementationCost}
+              useCases={useCases}
+              selectedId={scenario?.id}
+              formatValue={fmt}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Key Metrics */}
       <Card>
         <CardHeader>
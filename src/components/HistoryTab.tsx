@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Calculation, UseCase, ValueItem } from "../types/roi";
+import {
+  compareStates,
+  describeEntry,
+  getStateAt,
+  groupRevisions,
+  type ChangeLogEntry,
+  type HistoryState,
+  type Revision,
+  type VersionComparison,
+} from "../utils/history";
+import { formatCurrency, formatMultiple } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+// ============================================================
+// HistoryTab — change log, value diff between versions and
+// point-in-time restore
+// ============================================================
+
+const CURRENT = "current";
+
+const OPERATION_LABELS: Record<string, string> = {
+  "calculations.create": "Created calculator",
+  "calculations.updateName": "Renamed calculator",
+  "calculations.updateAssumptions": "Edited assumptions",
+  "calculations.updateScenarios": "Edited scenarios",
+  "calculations.setActiveScenario": "Switched scenario",
+  "calculations.updateInvestment": "Edited investment",
+  "calculations.updateTalkingPoints": "Edited talking points",
+  "calculations.updateObfuscation": "Edited sharing settings",
+  "calculations.updateRole": "Changed role",
+  "calculations.updateCompanyId": "Changed company",
+  "valueItems.create": "Added value item",
+  "valueItems.createBatch": "Added value items",
+  "valueItems.update": "Edited value item",
+  "valueItems.remove": "Removed value item",
+  "valueItems.reorder": "Reordered value items",
+  "valueItems.unlinkUseCase": "Unlinked value item",
+  "useCases.create": "Added use case",
+  "useCases.update": "Edited use case",
+  "useCases.remove": "Deleted use case",
+  "useCases.reorder": "Reordered use cases",
+  "useCases.addToCalculation": "Imported use case",
+  "useCases.removeFromCalculation": "Removed use case",
+  "customArchetypes.update": "Edited custom archetype",
+  "changeLog.restore": "Restored earlier version",
+};
+
+interface HistoryTabProps {
+  calculation: Calculation;
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+  readOnly?: boolean;
+}
+
+function formatTimestamp(at: number): string {
+  return new Date(at).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatDelta(value: number): string {
+  return `${value >= 0 ? "+" : "−"}${formatCurrency(Math.abs(value))}`;
+}
+
+export function HistoryTab({ calculation, valueItems, useCases, readOnly = false }: HistoryTabProps) {
+  const entries = useQuery(api.changeLog.listByCalculation, { calculationId: calculation._id }) as
+    | ChangeLogEntry[]
+    | undefined;
+  const restore = useMutation(api.changeLog.restore);
+  const [fromAt, setFromAt] = useState<string>("");
+  const [toAt, setToAt] = useState<string>(CURRENT);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const revisions = useMemo(() => groupRevisions(entries ?? []), [entries]);
+  const current = useMemo<HistoryState>(
+    () => ({
+      calculation: calculation as unknown as HistoryState["calculation"],
+      valueItems: valueItems as unknown as HistoryState["valueItems"],
+      useCases: useCases as unknown as HistoryState["useCases"],
+    }),
+    [calculation, valueItems, useCases]
+  );
+
+  // Default comparison: the oldest loaded version against now
+  const oldest = revisions[revisions.length - 1];
+  const from = fromAt || (oldest ? String(oldest.at) : CURRENT);
+  const comparison = useMemo(() => {
+    if (!entries || from === toAt) return null;
+    const stateFor = (point: string) => (point === CURRENT ? current : getStateAt(current, entries, Number(point)));
+    return compareStates(stateFor(from), stateFor(toAt));
+  }, [entries, current, from, toAt]);
+
+  // Names as of now, falling back to the name recorded in the entry
+  const names = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const doc of [...valueItems, ...useCases]) map.set(doc._id, doc.name);
+    return map;
+  }, [valueItems, useCases]);
+
+  const handleRestore = async (revision: Revision) => {
+    if (!window.confirm(`Restore this calculator to how it was on ${formatTimestamp(revision.at)}? The restore is recorded and can itself be undone.`)) {
+      return;
+    }
+    setError(null);
+    setRestoring(revision.at);
+    try {
+      await restore({ calculationId: calculation._id, at: revision.at });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Restore failed");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (entries === undefined) {
+    return <div className="py-12 text-center text-muted-foreground">Loading history...</div>;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">History</h2>
+        <p className="text-muted-foreground text-sm">Who changed what, and how it moved the number</p>
+      </div>
+
+      {error && (
+        <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Compare Versions</CardTitle>
+          <CardDescription>Difference in total annual value between two points in the history</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <VersionSelect label="From version" value={from} onChange={setFromAt} revisions={revisions} />
+            <span className="text-muted-foreground">→</span>
+            <VersionSelect label="To version" value={toAt} onChange={setToAt} revisions={revisions} />
+          </div>
+          {!comparison ? (
+            <p className="text-muted-foreground text-sm">Pick two different versions to compare.</p>
+          ) : (
+            <ComparisonDetails comparison={comparison} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Change Log</CardTitle>
+          <CardDescription>Every edit to this calculator, its value items and use cases, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {revisions.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No changes recorded yet. Edits made from now on appear here.
+            </p>
+          ) : (
+            <ol className="space-y-4">
+              {revisions.map((revision, i) => (
+                <li key={`${revision.at}-${i}`} className="flex gap-4 border-b last:border-0 pb-4 last:pb-0">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {OPERATION_LABELS[revision.operation] ?? revision.operation}
+                      <span className="text-muted-foreground font-normal"> · {revision.actor}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">{formatTimestamp(revision.at)}</p>
+                    <ul className="mt-1 space-y-0.5">
+                      {revision.entries
+                        .filter((e) => e.changes.length > 0)
+                        .map((e) => (
+                          <li key={e._id} className="text-xs text-muted-foreground break-words">
+                            {describeEntry(e, names.get(e.entityId))}
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                  {i > 0 && !readOnly && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="shrink-0"
+                      disabled={restoring !== null}
+                      onClick={() => handleRestore(revision)}
+                    >
+                      {restoring === revision.at ? "Restoring..." : "Restore"}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/** Before/after totals and the per-item breakdown of a version comparison */
+export function ComparisonDetails({ comparison }: { comparison: VersionComparison }) {
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-4">
+        <Metric label="Annual value" before={formatCurrency(comparison.before.totalAnnualValue)} after={formatCurrency(comparison.after.totalAnnualValue)} />
+        <Metric label="NPV" before={formatCurrency(comparison.before.npv)} after={formatCurrency(comparison.after.npv)} />
+        <Metric
+          label="ROI"
+          before={comparison.before.roiMultiple === null ? "—" : formatMultiple(comparison.before.roiMultiple)}
+          after={comparison.after.roiMultiple === null ? "—" : formatMultiple(comparison.after.roiMultiple)}
+        />
+      </div>
+      <p className="text-sm">
+        Total annual value changed by{" "}
+        <span className={`font-semibold ${comparison.totalDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>
+          {formatDelta(comparison.totalDelta)}
+        </span>
+        {comparison.calculationFields.length > 0 && (
+          <span className="text-muted-foreground"> · calculator fields changed: {comparison.calculationFields.join(", ")}</span>
+        )}
+      </p>
+      {comparison.items.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b">
+              <th className="py-2 font-medium">Value item</th>
+              <th className="py-2 font-medium">What changed</th>
+              <th className="py-2 font-medium text-right">Before</th>
+              <th className="py-2 font-medium text-right">After</th>
+              <th className="py-2 font-medium text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.items.map((item) => (
+              <tr key={item.id} className="border-b last:border-0">
+                <td className="py-2 pr-2">{item.name}</td>
+                <td className="py-2 pr-2 text-muted-foreground text-xs">{item.fields.join(", ")}</td>
+                <td className="py-2 text-right font-mono">{formatCurrency(item.before)}</td>
+                <td className="py-2 text-right font-mono">{formatCurrency(item.after)}</td>
+                <td className={`py-2 text-right font-mono ${item.delta >= 0 ? "text-emerald-700" : "text-red-700"}`}>
+                  {formatDelta(item.delta)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
+
+function VersionSelect({
+  label,
+  value,
+  onChange,
+  revisions,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  revisions: Revision[];
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-8 rounded-md border bg-background px-2 max-w-[280px]"
+      aria-label={label}
+    >
+      <option value={CURRENT}>Current</option>
+      {revisions.map((r, i) => (
+        <option key={`${r.at}-${i}`} value={String(r.at)}>
+          {formatTimestamp(r.at)} — {OPERATION_LABELS[r.operation] ?? r.operation}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function Metric({ label, before, after }: { label: string; before: string; after: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-sm font-mono">
+        {before} → <span className="font-semibold">{after}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useNavigate } from "react-router-dom";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { MEMBER_ROLES, MEMBER_ROLE_INFO, isValidEmail, type MemberRole } from "../utils/access";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+// ============================================================
+// MembersCard — who can see and edit a company's calculators
+// ============================================================
+
+interface MembersCardProps {
+  companyId: Id<"companies">;
+}
+
+export function MembersCard({ companyId }: MembersCardProps) {
+  const navigate = useNavigate();
+  const members = useQuery(api.members.listByCompany, { companyId });
+  const role = useQuery(api.members.roleForCompany, { companyId });
+  const me = useQuery(api.members.me);
+  const addMember = useMutation(api.members.add);
+  const updateRole = useMutation(api.members.updateRole);
+  const removeMember = useMutation(api.members.remove);
+
+  const [email, setEmail] = useState("");
+  const [newRole, setNewRole] = useState<MemberRole>("editor");
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = role === "owner";
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    }
+  };
+
+  const handleAdd = () =>
+    run(async () => {
+      await addMember({ companyId, email, role: newRole });
+      setEmail("");
+    });
+
+  const handleRemove = (member: { _id: Id<"memberships">; email: string }) => {
+    const leaving = member.email === me?.email;
+    const message = leaving
+      ? "Leave this company? You will lose access to its calculators."
+      : `Remove ${member.email}? They will lose access to this company's calculators.`;
+    if (!window.confirm(message)) return;
+    return run(async () => {
+      await removeMember({ id: member._id });
+      if (leaving) navigate("/");
+    });
+  };
+
+  if (members === undefined) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Members</CardTitle>
+        <CardDescription>
+          People are added by the email they sign in with, before or after their first sign-in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member._id} className="flex items-center gap-3 text-sm">
+              <span className="flex-1 min-w-0 truncate">
+                {member.email}
+                {member.email === me?.email && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              {isOwner ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => run(() => updateRole({ id: member._id, role: e.target.value as MemberRole }))}
+                  className="h-8 rounded-md border bg-background px-2"
+                  aria-label={`Role for ${member.email}`}
+                >
+                  {MEMBER_ROLES.map((r) => (
+                    <option key={r} value={r} title={MEMBER_ROLE_INFO[r].description}>
+                      {MEMBER_ROLE_INFO[r].label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs bg-muted px-2 py-0.5 rounded">{MEMBER_ROLE_INFO[member.role].label}</span>
+              )}
+              {(isOwner || member.email === me?.email) && (
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                  {member.email === me?.email ? "Leave" : "Remove"}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {isOwner && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAdd();
+            }}
+          >
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@company.com"
+              aria-label="Email"
+            />
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as MemberRole)}
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+              aria-label="Role"
+            >
+              {MEMBER_ROLES.map((r) => (
+                <option key={r} value={r} title={MEMBER_ROLE_INFO[r].description}>
+                  {MEMBER_ROLE_INFO[r].label}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="submit"
+              disabled={!isValidEmail(email)}
+              className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white shrink-0"
+            >
+              Add
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
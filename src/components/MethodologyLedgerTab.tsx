@@ -1,11 +1,13 @@
 import { useMemo, useState } from "react";
-import type { Calculation, ValueItem } from "../types/roi";
-import { ARCHETYPE_FIELDS } from "../types/archetypes";
-import { ARCHETYPE_INFO, normalizeConfidence } from "../types/roi";
+import type { Calculation, UseCase, ValueItem } from "../types/roi";
+import { normalizeConfidence } from "../types/roi";
 import { calculateItemAnnualValue } from "../utils/calculations";
 import { formatCurrencyCompact } from "../utils/formatting";
+import { getArchetypeFields, getArchetypeInfo } from "../utils/customArchetypes";
+import { exportCalculationXlsx } from "../utils/excelExport";
 import { Button } from "@/components/ui/button";
 import { ROI_BENCHMARK_PACK_ID, ROI_SCHEMA_UPDATED_AT } from "../data/schemaResponse";
+import type { SnapshotFigures } from "../utils/snapshots";
 
 const CONCENTRATION_WARN_THRESHOLD = 0.4;
 
@@ -21,21 +23,24 @@ function buildLedgerCsv(rows: { cells: string[] }[]): string {
 interface MethodologyLedgerTabProps {
   calculation: Calculation;
   valueItems: ValueItem[];
+  useCases?: UseCase[];
+  /** A snapshot's stored figures; item values come from these instead of the engine */
+  figures?: SnapshotFigures | null;
 }
 
-export function MethodologyLedgerTab({ calculation, valueItems }: MethodologyLedgerTabProps) {
+export function MethodologyLedgerTab({ calculation, valueItems, useCases = [], figures }: MethodologyLedgerTabProps) {
   const [copied, setCopied] = useState(false);
   const packId = calculation.benchmarkPackId ?? ROI_BENCHMARK_PACK_ID;
 
   const totals = useMemo(() => {
     let total = 0;
     const byItem = valueItems.map((item) => {
-      const v = calculateItemAnnualValue(item);
+      const v = figures?.itemValues[item._id] ?? calculateItemAnnualValue(item);
       total += v;
       return { item, annual: v };
     });
     return { total, byItem };
-  }, [valueItems]);
+  }, [valueItems, figures]);
 
   const concentrationWarnings = useMemo(() => {
     if (totals.total <= 0) return [];
@@ -63,8 +68,8 @@ export function MethodologyLedgerTab({ calculation, valueItems }: MethodologyLed
     };
     const rows: { cells: string[] }[] = [header];
     for (const item of valueItems) {
-      const fields = ARCHETYPE_FIELDS[item.archetype] ?? [];
-      const info = ARCHETYPE_INFO[item.archetype];
+      const fields = getArchetypeFields(item);
+      const info = getArchetypeInfo(item);
       for (const field of fields) {
         const vi = item.inputs[field.key];
         if (!vi) continue;
@@ -116,6 +121,17 @@ export function MethodologyLedgerTab({ calculation, valueItems }: MethodologyLed
     URL.revokeObjectURL(url);
   };
 
+  const handleDownloadXlsx = () => {
+    const bytes = exportCalculationXlsx({ calculation, valueItems, useCases });
+    const blob = new Blob([bytes], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${calculation.shortId}-value-model.xlsx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="space-y-8 print:space-y-6 print:text-black">
       <div className="flex flex-wrap items-start justify-between gap-4 print:block">
@@ -138,9 +154,12 @@ export function MethodologyLedgerTab({ calculation, valueItems }: MethodologyLed
           <Button type="button" variant="outline" size="sm" onClick={handleCopyCsv}>
             {copied ? "Copied" : "Copy CSV"}
           </Button>
-          <Button type="button" size="sm" onClick={handleDownloadCsv}>
+          <Button type="button" variant="outline" size="sm" onClick={handleDownloadCsv}>
             Download CSV
           </Button>
+          <Button type="button" size="sm" onClick={handleDownloadXlsx}>
+            Download Excel
+          </Button>
         </div>
       </div>
 
@@ -168,10 +187,9 @@ export function MethodologyLedgerTab({ calculation, valueItems }: MethodologyLed
         <p className="text-muted-foreground">Add value items to see methodology detail.</p>
       ) : (
         <div className="space-y-10">
-          {valueItems.map((item) => {
-            const info = ARCHETYPE_INFO[item.archetype];
-            const fields = ARCHETYPE_FIELDS[item.archetype] ?? [];
-            const annual = calculateItemAnnualValue(item);
+          {totals.byItem.map(({ item, annual }) => {
+            const info = getArchetypeInfo(item);
+            const fields = getArchetypeFields(item);
             const share = totals.total > 0 ? Math.round((annual / totals.total) * 100) : 0;
             return (
               <section
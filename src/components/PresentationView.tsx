@@ -0,0 +1,115 @@
+import { useState, lazy, Suspense, type ReactNode } from "react";
+import { ExecutiveSummary } from "./ExecutiveSummary";
+import { MethodologyLedgerTab } from "./MethodologyLedgerTab";
+import { formatCurrency } from "../utils/formatting";
+import type { SnapshotFigures } from "../utils/snapshots";
+import type { Calculation, UseCase, ValueItem } from "../types/roi";
+
+const SlideView = lazy(() => import("./SlideView").then(m => ({ default: m.SlideView })));
+
+type TabId = "summary" | "methodology" | "dashboard";
+
+const TABS: { id: TabId; label: string }[] = [
+  { id: "summary", label: "Executive Summary" },
+  { id: "methodology", label: "Methodology" },
+  { id: "dashboard", label: "Dashboard" },
+];
+
+interface PresentationViewProps {
+  title: string;
+  badge?: ReactNode;
+  calculation: Calculation;
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+  obfuscated?: boolean;
+  /** Snapshot totals check: warns when today's formulas give a different total */
+  totals?: { stored: number; recomputed: number; matches: boolean } | null;
+  /** A snapshot's stored figures, shown instead of recomputing from the documents */
+  figures?: SnapshotFigures | null;
+}
+
+/**
+ * Read-only presentation of a calculator: summary, methodology and dashboard.
+ * Renders from the documents it's given and runs no queries, so snapshot and
+ * share link pages can hand it frozen or redacted data.
+ */
+export function PresentationView({
+  title,
+  badge,
+  calculation,
+  valueItems,
+  useCases,
+  obfuscated = false,
+  totals,
+  figures,
+}: PresentationViewProps) {
+  const [activeTab, setActiveTab] = useState<TabId>("summary");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="px-6 py-4">
+          <div className="flex items-center gap-4 mb-4">
+            <div className="w-8 h-8 rounded-lg bg-[#FF4A00] flex items-center justify-center">
+              <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5 text-white" stroke="currentColor" strokeWidth="2">
+                <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" />
+              </svg>
+            </div>
+            <h1 className="text-xl font-semibold">{title}</h1>
+            {badge && <span className="text-xs bg-muted px-2 py-0.5 rounded">{badge}</span>}
+          </div>
+
+          <nav className="flex gap-1 overflow-x-auto">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                type="button"
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${
+                  activeTab === tab.id
+                    ? "bg-[#FF4A00] text-white"
+                    : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {totals && !totals.matches && (
+          <div role="status" className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            The value formulas have changed since this snapshot was taken. It was presented at{" "}
+            <span className="font-semibold">{formatCurrency(totals.stored)}</span> per year; the current formulas give{" "}
+            {formatCurrency(totals.recomputed)} for the same inputs.
+          </div>
+        )}
+        {activeTab === "summary" && (
+          <ExecutiveSummary
+            calculation={calculation}
+            valueItems={valueItems}
+            useCases={useCases}
+            readOnly
+            obfuscated={obfuscated}
+            figures={figures}
+          />
+        )}
+        {activeTab === "methodology" && (
+          <MethodologyLedgerTab
+            calculation={calculation}
+            valueItems={valueItems}
+            useCases={useCases}
+            figures={figures}
+          />
+        )}
+        {activeTab === "dashboard" && (
+          <Suspense fallback={<div className="py-12 text-center text-muted-foreground">Loading view...</div>}>
+            <SlideView calculation={calculation} valueItems={valueItems} useCases={useCases} figures={figures} />
+          </Suspense>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { RealizedValuePoint } from "../utils/value-realized";
+import { formatCurrencyCompact, formatDate } from "../utils/formatting";
+
+// ============================================================
+// RealizedValueChart — cumulative value delivered by day, from
+// the first recorded Zap run to today
+// ============================================================
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 24, left: 56 };
+const LINE_COLOR = "#FF4A00";
+
+interface RealizedValueChartProps {
+  points: RealizedValuePoint[];
+  formatValue?: (value: number) => string;
+}
+
+// Days are UTC; midday keeps the local date the same in most time zones
+function dayLabel(day: string): string {
+  return formatDate(Date.parse(`${day}T12:00:00Z`));
+}
+
+export function RealizedValueChart({ points, formatValue = formatCurrencyCompact }: RealizedValueChartProps) {
+  if (points.length === 0) return null;
+
+  const maxY = Math.max(...points.map((p) => p.cumulativeValue)) || 1;
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (points.length === 1 ? innerW : (i / (points.length - 1)) * innerW);
+  const y = (value: number) => PAD.top + ((maxY - value) / maxY) * innerH;
+
+  const line = points.map((p, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(p.cumulativeValue).toFixed(1)}`);
+  const area = `${line.join(" ")} L${x(points.length - 1).toFixed(1)},${y(0)} L${x(0).toFixed(1)},${y(0)} Z`;
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative realized value">
+        {/* Axis labels */}
+        <text x={PAD.left - 6} y={y(maxY) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {formatValue(maxY)}
+        </text>
+        <text x={PAD.left - 6} y={y(0) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {formatValue(0)}
+        </text>
+        <text x={PAD.left} y={HEIGHT - 6} className="fill-muted-foreground text-[10px]">
+          {dayLabel(first.day)}
+        </text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {dayLabel(last.day)}
+        </text>
+
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} className="stroke-border" />
+        <path d={area} fill={LINE_COLOR} fillOpacity={0.08} />
+        <path d={line.join(" ")} fill="none" stroke={LINE_COLOR} strokeWidth={2} />
+        <circle cx={x(points.length - 1)} cy={y(last.cumulativeValue)} r={4} fill={LINE_COLOR}>
+          <title>{`${formatValue(last.cumulativeValue)} delivered by ${dayLabel(last.day)}`}</title>
+        </circle>
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5" style={{ backgroundColor: LINE_COLOR }} />
+          Cumulative realized value
+        </span>
+        <span>
+          {formatValue(last.cumulativeValue)} since {dayLabel(first.day)}
+        </span>
+      </div>
+    </div>
+  );
+}
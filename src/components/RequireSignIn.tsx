@@ -0,0 +1,52 @@
+import { Outlet } from "react-router-dom";
+import { Authenticated, AuthLoading, Unauthenticated } from "convex/react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuthActions } from "../lib/auth";
+
+/** Layout route: renders the page once signed in, otherwise a sign-in prompt */
+export function RequireSignIn() {
+  return (
+    <>
+      <AuthLoading>
+        <div className="min-h-screen flex items-center justify-center">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </AuthLoading>
+      <Unauthenticated>
+        <SignInPrompt />
+      </Unauthenticated>
+      <Authenticated>
+        <Outlet />
+      </Authenticated>
+    </>
+  );
+}
+
+function SignInPrompt() {
+  const { config, signIn } = useAuthActions();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>
+            Calculators are shared with the members of each company. Sign in with your work account to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {config ? (
+            <Button className="w-full bg-[#FF4A00] hover:bg-[#CC3B00] text-white" onClick={signIn}>
+              Sign in
+            </Button>
+          ) : (
+            <p role="status" className="text-sm text-muted-foreground">
+              Sign-in isn't configured for this deployment. Set AUTH_ISSUER_URL and AUTH_CLIENT_ID.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { Calculation, ScenarioId, UseCase, ValueItem } from "../types/roi";
+import { SCENARIO_INFO } from "../types/roi";
+import { compareScenarios } from "../utils/scenarios";
+import { formatCurrencyCompact, formatMultiple } from "../utils/formatting";
+
+// ============================================================
+// ScenarioComparison — side-by-side summary of every scenario
+// ============================================================
+
+interface ScenarioComparisonProps {
+  calculation: Pick<Calculation, "assumptions" | "scenarios" | "activeScenarioId">;
+  valueItems: ValueItem[];
+  proposedSpend?: number;
+  implementationCost?: number;
+  useCases?: UseCase[];
+  selectedId?: ScenarioId;
+  formatValue?: (value: number) => string;
+}
+
+export function ScenarioComparison({
+  calculation,
+  valueItems,
+  proposedSpend = 0,
+  implementationCost = 0,
+  useCases,
+  selectedId,
+  formatValue = formatCurrencyCompact,
+}: ScenarioComparisonProps) {
+  const rows = compareScenarios(calculation, valueItems, proposedSpend, implementationCost, useCases);
+  if (rows.length === 0) return null;
+
+  const metrics: { label: string; render: (r: (typeof rows)[number]) => string }[] = [
+    { label: "Annual Value", render: (r) => formatValue(r.summary.totalAnnualValue) },
+    { label: "Year 1 Value", render: (r) => formatValue(r.summary.projection[0]?.value ?? 0) },
+    {
+      label: "Cumulative Net Value",
+      render: (r) =>
+        formatValue(r.summary.projection[r.summary.projection.length - 1]?.cumulativeNetValue ?? 0),
+    },
+    { label: "NPV", render: (r) => formatValue(r.summary.npv) },
+    {
+      label: "ROI Multiple",
+      render: (r) => (r.summary.roiMultiple !== null ? formatMultiple(r.summary.roiMultiple) : "—"),
+    },
+    {
+      label: "Realization Ramp",
+      render: (r) => r.scenario.assumptions.realizationRamp.map((x) => `${Math.round(x * 100)}%`).join(" / "),
+    },
+    {
+      label: "Growth Rate",
+      render: (r) => `${Math.round(r.scenario.assumptions.annualGrowthRate * 100)}%`,
+    },
+  ];
+
+  return (
+    <div className="overflow-x-auto -mx-6 px-6">
+      <table className="w-full min-w-[480px]">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left py-2 text-sm font-medium text-muted-foreground pr-4" />
+            {rows.map(({ scenario }) => {
+              const selected = scenario.id === (selectedId ?? calculation.activeScenarioId ?? "expected");
+              return (
+                <th
+                  key={scenario.id}
+                  className={`text-right py-2 text-sm font-medium whitespace-nowrap px-2 ${selected ? "" : "text-muted-foreground"}`}
+                  style={selected ? { color: SCENARIO_INFO[scenario.id].color } : undefined}
+                >
+                  {scenario.name}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.label} className="border-b last:border-0">
+              <td className="py-2 text-sm whitespace-nowrap pr-4">{metric.label}</td>
+              {rows.map((row) => (
+                <td key={row.scenario.id} className="text-right py-2 font-mono text-sm whitespace-nowrap px-2">
+                  {metric.render(row)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
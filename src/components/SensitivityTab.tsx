@@ -0,0 +1,192 @@
+import { useMemo, useState } from "react";
+import type { Calculation, ValueItem } from "../types/roi";
+import { calculateSensitivity, type SensitivityEntry, type SensitivityMode } from "../utils/sensitivity";
+import { resolveScenario } from "../utils/scenarios";
+import { formatCurrencyCompact, formatPercent } from "../utils/formatting";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+// ============================================================
+// SensitivityTab — tornado chart of the inputs that drive the total
+// ============================================================
+
+const PERCENT_OPTIONS = [0.1, 0.2, 0.3, 0.5];
+const MAX_ROWS = 12;
+const LOW_COLOR = "#DC2626";
+const HIGH_COLOR = "#059669";
+
+interface SensitivityTabProps {
+  calculation: Calculation;
+  valueItems: ValueItem[];
+}
+
+export function SensitivityTab({ calculation, valueItems }: SensitivityTabProps) {
+  const [mode, setMode] = useState<SensitivityMode>("percent");
+  const [percent, setPercent] = useState(0.2);
+  const [itemFilter, setItemFilter] = useState<string>("total");
+
+  const { scenario, valueItems: effectiveItems } = useMemo(
+    () => resolveScenario(calculation, valueItems),
+    [calculation, valueItems]
+  );
+
+  const result = useMemo(
+    () => calculateSensitivity(effectiveItems, { mode, percent }),
+    [effectiveItems, mode, percent]
+  );
+
+  const filtered = itemFilter === "total"
+    ? result.entries
+    : result.items.find((i) => i.itemId === itemFilter)?.entries ?? [];
+  const rows = filtered.slice(0, MAX_ROWS);
+
+  // The top two drivers — the ones customers will challenge first
+  const topShare = result.entries.slice(0, 2).reduce((sum, e) => sum + e.shareOfSwing, 0);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Sensitivity</h2>
+        <p className="text-muted-foreground text-sm">
+          Which assumptions move the number most
+          {scenario && ` · ${scenario.name} scenario`}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Tornado Chart</CardTitle>
+              <CardDescription>
+                Each input is moved on its own while everything else stays at its current value. Bars show the
+                resulting total annual value (base {formatCurrencyCompact(result.baseTotal)}).
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <div className="flex rounded-md border overflow-hidden">
+                {(["percent", "range"] as const).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => setMode(m)}
+                    className={`px-3 py-1 transition-colors ${
+                      mode === m ? "bg-[#FF4A00] text-white" : "hover:bg-muted"
+                    }`}
+                  >
+                    {m === "percent" ? "± Percent" : "Benchmark Range"}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={percent}
+                onChange={(e) => setPercent(Number(e.target.value))}
+                className="h-8 rounded-md border bg-background px-2"
+                aria-label="Sensitivity percent"
+              >
+                {PERCENT_OPTIONS.map((p) => (
+                  <option key={p} value={p}>
+                    ±{Math.round(p * 100)}%
+                  </option>
+                ))}
+              </select>
+              <select
+                value={itemFilter}
+                onChange={(e) => setItemFilter(e.target.value)}
+                className="h-8 rounded-md border bg-background px-2 max-w-[200px]"
+                aria-label="Value item"
+              >
+                <option value="total">All value items</option>
+                {result.items.map((item) => (
+                  <option key={item.itemId} value={item.itemId}>
+                    {item.itemName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              Add value items with inputs to see which assumptions drive the total
+            </p>
+          ) : (
+            <>
+              {itemFilter === "total" && result.entries.length > 2 && (
+                <p className="text-sm mb-4">
+                  The top two inputs account for{" "}
+                  <span className="font-semibold text-[#FF4A00]">{formatPercent(topShare)}</span> of the total
+                  swing.
+                </p>
+              )}
+              <TornadoChart rows={rows} baseTotal={result.baseTotal} />
+              {mode === "range" && (
+                <p className="text-xs text-muted-foreground mt-4">
+                  Inputs without a benchmark range fall back to ±{Math.round(percent * 100)}%.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function TornadoChart({ rows, baseTotal }: { rows: SensitivityEntry[]; baseTotal: number }) {
+  const maxDelta = Math.max(
+    ...rows.flatMap((r) => [Math.abs(r.lowTotal - baseTotal), Math.abs(r.highTotal - baseTotal)]),
+    1
+  );
+  const pct = (total: number) => (Math.abs(total - baseTotal) / maxDelta) * 50;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center text-xs text-muted-foreground">
+        <span className="w-48 shrink-0" />
+        <span className="flex-1 flex justify-between">
+          <span style={{ color: LOW_COLOR }}>Low input</span>
+          <span style={{ color: HIGH_COLOR }}>High input</span>
+        </span>
+        <span className="w-20 shrink-0 text-right">Swing</span>
+      </div>
+      {rows.map((row) => {
+        const lowBelow = row.lowTotal <= baseTotal;
+        const highAbove = row.highTotal >= baseTotal;
+        return (
+          <div key={`${row.itemId}-${row.inputKey}`} className="flex items-center gap-2">
+            <div className="w-48 shrink-0 min-w-0">
+              <p className="text-sm font-medium truncate" title={row.inputLabel}>
+                {row.inputLabel}
+              </p>
+              <p className="text-xs text-muted-foreground truncate" title={row.itemName}>
+                {row.itemName}
+              </p>
+            </div>
+            <div className="flex-1 relative h-6 bg-muted/50 rounded">
+              <div className="absolute left-1/2 top-0 bottom-0 w-px bg-border" />
+              {[
+                { total: row.lowTotal, color: LOW_COLOR, below: lowBelow, value: row.lowValue },
+                { total: row.highTotal, color: HIGH_COLOR, below: !highAbove, value: row.highValue },
+              ].map((bar, i) => (
+                <div
+                  key={i}
+                  className="absolute top-1 bottom-1 rounded-sm opacity-80"
+                  title={`${bar.value.toLocaleString()} → ${formatCurrencyCompact(bar.total)}`}
+                  style={{
+                    backgroundColor: bar.color,
+                    width: `${pct(bar.total)}%`,
+                    ...(bar.below ? { right: "50%" } : { left: "50%" }),
+                  }}
+                />
+              ))}
+            </div>
+            <span className="w-20 shrink-0 text-right font-mono text-sm">
+              {formatCurrencyCompact(row.swing)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
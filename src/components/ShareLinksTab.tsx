@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { Calculation } from "../types/roi";
+import { isShareLinkActive } from "../utils/access";
+import { formatDate } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CrmSyncCard } from "./CrmSyncCard";
+
+// ============================================================
+// ShareLinksTab — tokens that open a read-only view without
+// signing in, each scoped to the live calculator or a snapshot,
+// and the CRM opportunity the calculator syncs to
+// ============================================================
+
+interface ShareLinksTabProps {
+  calculation: Calculation;
+  readOnly?: boolean;
+}
+
+const LIVE = "live";
+
+function linkStatus(link: { revokedAt?: number; expiresAt?: number }): string {
+  if (link.revokedAt !== undefined) return `Revoked ${formatDate(link.revokedAt)}`;
+  if (link.expiresAt === undefined) return "No expiry";
+  return isShareLinkActive(link) ? `Expires ${formatDate(link.expiresAt)}` : `Expired ${formatDate(link.expiresAt)}`;
+}
+
+export function ShareLinksTab({ calculation, readOnly = false }: ShareLinksTabProps) {
+  const calculationId = calculation._id as Id<"calculations">;
+  const links = useQuery(api.shareLinks.listByCalculation, { calculationId });
+  const snapshots = useQuery(api.snapshots.listByCalculation, { calculationId });
+  const createLink = useMutation(api.shareLinks.create);
+  const revokeLink = useMutation(api.shareLinks.revoke);
+
+  const [target, setTarget] = useState(LIVE);
+  const [obfuscated, setObfuscated] = useState(false);
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      const days = expiresInDays.trim() ? Number(expiresInDays) : undefined;
+      const { token } = await createLink({
+        calculationId,
+        snapshotId: target === LIVE ? undefined : (target as Id<"snapshots">),
+        obfuscated,
+        label: label.trim() || undefined,
+        expiresInDays: days,
+      });
+      setLabel("");
+      await handleCopy(token);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not create link");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/share/${token}`);
+    setCopied(token);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleRevoke = async (link: { _id: Id<"shareLinks">; label?: string }) => {
+    if (!window.confirm(`Revoke ${link.label ? `"${link.label}"` : "this link"}? Anyone using it will lose access.`)) {
+      return;
+    }
+    await revokeLink({ id: link._id });
+  };
+
+  if (links === undefined || snapshots === undefined) {
+    return <div className="py-12 text-center text-muted-foreground">Loading share links...</div>;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Sharing</h2>
+        <p className="text-muted-foreground text-sm">
+          Give people outside your team a read-only view without signing in. Each link can be revoked on its own.
+        </p>
+      </div>
+
+      {error && (
+        <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {!readOnly && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Link</CardTitle>
+            <CardDescription>The link is copied to your clipboard when created</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="grid gap-4 sm:grid-cols-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreate();
+              }}
+            >
+              <div className="space-y-1.5">
+                <Label htmlFor="share-target">Shows</Label>
+                <select
+                  id="share-target"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+                >
+                  <option value={LIVE}>Live calculator (follows edits)</option>
+                  {snapshots.map((s) => (
+                    <option key={s._id} value={s._id}>
+                      Snapshot: {s.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="share-scope">Scope</Label>
+                <select
+                  id="share-scope"
+                  value={obfuscated ? "obfuscated" : "full"}
+                  onChange={(e) => setObfuscated(e.target.value === "obfuscated")}
+                  className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+                >
+                  <option value="full">Full detail</option>
+                  <option value="obfuscated">Anonymized (uses the calculator's obfuscation settings)</option>
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="share-label">Label</Label>
+                <Input
+                  id="share-label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. Sent to CFO"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="share-expiry">Expires after (days)</Label>
+                <Input
+                  id="share-expiry"
+                  type="number"
+                  min={1}
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  placeholder="Never"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <Button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+                >
+                  {saving ? "Creating..." : "Create Link"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Links</CardTitle>
+          <CardDescription>Newest first. Revoked and expired links stay listed as a record of who had access.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {links.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No share links yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {links.map((link) => {
+                const active = isShareLinkActive(link);
+                return (
+                  <li key={link._id} className="flex flex-wrap items-center gap-3 border-b last:border-0 pb-3 last:pb-0">
+                    <div className={`flex-1 min-w-0 ${active ? "" : "opacity-60"}`}>
+                      <p className="text-sm font-medium truncate">
+                        {link.label ?? (link.snapshotName ? `Snapshot: ${link.snapshotName}` : "Live calculator")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {link.snapshotName && link.label ? `Snapshot: ${link.snapshotName} · ` : ""}
+                        {link.obfuscated ? "Anonymized" : "Full detail"} · {linkStatus(link)} · created by{" "}
+                        {link.createdBy} on {formatDate(link.createdAt)}
+                      </p>
+                    </div>
+                    {active && link.token && (
+                      <Button variant="outline" size="sm" onClick={() => handleCopy(link.token!)}>
+                        {copied === link.token ? "Copied" : "Copy Link"}
+                      </Button>
+                    )}
+                    {active && !readOnly && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRevoke(link)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <CrmSyncCard calculationId={calculationId} readOnly={readOnly} />
+    </div>
+  );
+}
@@ -10,33 +10,39 @@ import {
   formatCurrencyCompact,
   formatNumber,
 } from "../utils/formatting";
+import { getArchetypeInfo } from "../utils/customArchetypes";
 import {
   DIMENSION_INFO,
   DIMENSION_ORDER,
-  ARCHETYPE_DIMENSION,
 } from "../types/roi";
 import type { Dimension, ValueItem, Calculation, UseCase } from "../types/roi";
+import type { SnapshotFigures } from "../utils/snapshots";
 
 interface SlideViewProps {
   calculation: Calculation;
   valueItems: ValueItem[];
   useCases: UseCase[];
+  /** A snapshot's stored figures, shown instead of recomputing them */
+  figures?: SnapshotFigures | null;
 }
 
-export function SlideView({ calculation, valueItems, useCases }: SlideViewProps) {
+export function SlideView({ calculation, valueItems, useCases, figures }: SlideViewProps) {
   const summary = useMemo(
     () =>
+      figures?.summary ??
       calculateSummary(
         valueItems,
         calculation.assumptions,
-        calculation.proposedSpend
+        calculation.proposedSpend,
+        calculation.implementationCost,
+        useCases
       ),
-    [valueItems, calculation]
+    [figures, valueItems, calculation, useCases]
   );
 
   const dimensionBreakdown = useMemo(
-    () => getDimensionBreakdown(valueItems),
-    [valueItems]
+    () => figures?.dimensionBreakdown ?? getDimensionBreakdown(valueItems),
+    [figures, valueItems]
   );
 
   const maxDimensionValue = dimensionBreakdown[0]?.total ?? 0;
@@ -45,7 +51,7 @@ export function SlideView({ calculation, valueItems, useCases }: SlideViewProps)
   const dimensionUseCaseCounts = useMemo(() => {
     const counts: Record<string, Set<string>> = {};
     for (const item of valueItems) {
-      const dim = item.dimension || ARCHETYPE_DIMENSION[item.archetype];
+      const dim = item.dimension || getArchetypeInfo(item).dimension;
       if (!dim) continue;
       if (!counts[dim]) counts[dim] = new Set();
       if (item.useCaseId) counts[dim].add(String(item.useCaseId));
@@ -0,0 +1,193 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { Calculation, UseCase, ValueItem } from "../types/roi";
+import type { HistoryState } from "../utils/history";
+import { compareSnapshotWithLive, type Snapshot } from "../utils/snapshots";
+import { formatCurrency, formatDate } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ComparisonDetails } from "./HistoryTab";
+
+// ============================================================
+// SnapshotsTab — named, frozen versions of the calculator,
+// compared against the live one
+// ============================================================
+
+interface SnapshotsTabProps {
+  calculation: Calculation;
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+  readOnly?: boolean;
+}
+
+export function SnapshotsTab({ calculation, valueItems, useCases, readOnly = false }: SnapshotsTabProps) {
+  const snapshots = useQuery(api.snapshots.listByCalculation, {
+    calculationId: calculation._id as Id<"calculations">,
+  });
+  const createSnapshot = useMutation(api.snapshots.create);
+  const removeSnapshot = useMutation(api.snapshots.remove);
+
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  const compared = useQuery(api.snapshots.getByShortId, comparingId ? { shortId: comparingId } : "skip") as
+    | Snapshot
+    | null
+    | undefined;
+
+  const comparison = useMemo(() => {
+    if (!compared) return null;
+    const live: HistoryState = {
+      calculation: calculation as unknown as HistoryState["calculation"],
+      valueItems: valueItems as unknown as HistoryState["valueItems"],
+      useCases: useCases as unknown as HistoryState["useCases"],
+    };
+    return compareSnapshotWithLive(compared.payload, live);
+  }, [compared, calculation, valueItems, useCases]);
+
+  const handleCreate = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      await createSnapshot({ calculationId: calculation._id as Id<"calculations">, name });
+      setName("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not take snapshot");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (shortId: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/s/${shortId}`);
+    setCopied(shortId);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleRemove = async (snapshot: { _id: Id<"snapshots">; shortId: string; name: string }) => {
+    if (!window.confirm(`Delete snapshot "${snapshot.name}"? Share links to it will stop working.`)) {
+      return;
+    }
+    if (comparingId === snapshot.shortId) setComparingId(null);
+    await removeSnapshot({ id: snapshot._id });
+  };
+
+  if (snapshots === undefined) {
+    return <div className="py-12 text-center text-muted-foreground">Loading snapshots...</div>;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Snapshots</h2>
+        <p className="text-muted-foreground text-sm">
+          Freeze the figures you present. Snapshots keep showing those numbers after the calculator changes; share
+          one outside your team from the Sharing tab.
+        </p>
+      </div>
+
+      {error && (
+        <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {!readOnly && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Take Snapshot</CardTitle>
+            <CardDescription>Saves the calculator as it is right now, under a name you will recognize later</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreate();
+              }}
+            >
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. QBR deck, March"
+                aria-label="Snapshot name"
+              />
+              <Button
+                type="submit"
+                disabled={saving || !name.trim()}
+                className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white shrink-0"
+              >
+                {saving ? "Saving..." : "Take Snapshot"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Snapshots</CardTitle>
+          <CardDescription>Newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {snapshots.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No snapshots yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {snapshots.map((s) => (
+                <li key={s._id} className="flex flex-wrap items-center gap-3 border-b last:border-0 pb-3 last:pb-0">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{s.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(s.createdAt)} · {s.createdBy} · {formatCurrency(s.totalAnnualValue)}/yr
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/s/${s.shortId}`} target="_blank" rel="noreferrer">
+                      Open
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleCopy(s.shortId)}>
+                    {copied === s.shortId ? "Copied" : "Copy Link"}
+                  </Button>
+                  <Button
+                    variant={comparingId === s.shortId ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setComparingId(comparingId === s.shortId ? null : s.shortId)}
+                  >
+                    Compare with Live
+                  </Button>
+                  {!readOnly && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(s)}>
+                      Delete
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparingId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Snapshot vs Live</CardTitle>
+            <CardDescription>
+              {compared ? `"${compared.name}" (${formatDate(compared.createdAt)}) → the calculator now` : "Loading..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {comparison && <ComparisonDetails comparison={comparison} />}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import { useMemo, useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import { ARCHETYPE_INFO, type Archetype } from "../types/roi";
+import { readXlsx, type Worksheet } from "../utils/xlsx";
+import {
+  buildSpreadsheetImport,
+  cellText,
+  getHeaders,
+  suggestColumnTargets,
+  type ColumnTarget,
+} from "../utils/spreadsheetImport";
+import { formatCurrency } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// ============================================================
+// SpreadsheetImport — create a calculator from a legacy .xlsx
+// ============================================================
+
+interface SpreadsheetImportProps {
+  onComplete: (shortId: string) => void;
+  onCancel: () => void;
+}
+
+const TARGET_LABELS: Record<ColumnTarget["kind"], string> = {
+  ignore: "Ignore",
+  name: "Use case name",
+  department: "Department",
+  description: "Description",
+  status: "Status",
+  effort: "Effort",
+  input: "Archetype input",
+  annualValue: "Annual value (manual)",
+};
+
+const ARCHETYPES = Object.keys(ARCHETYPE_INFO) as Archetype[];
+const PREVIEW_ROWS = 25;
+
+/** First row with at least two filled cells — title rows above a table usually have one */
+function guessHeaderRow(sheet: Worksheet): number {
+  const index = sheet.rows.findIndex((row) => row.filter((c) => cellText(c) !== "").length >= 2);
+  return Math.max(0, index);
+}
+
+function retarget(kind: ColumnTarget["kind"], previous: ColumnTarget): ColumnTarget {
+  if (kind !== "input" && kind !== "annualValue") return { kind };
+  const archetype = "archetype" in previous ? previous.archetype : "task_elimination";
+  if (kind === "annualValue") return { kind, archetype };
+  return { kind, archetype, key: ARCHETYPE_FIELDS[archetype][0]!.key };
+}
+
+export function SpreadsheetImport({ onComplete, onCancel }: SpreadsheetImportProps) {
+  const companies = useQuery(api.companies.list);
+  const importCalculation = useAction(api.calculationImport.importCalculation);
+
+  const [fileName, setFileName] = useState("");
+  const [sheets, setSheets] = useState<Worksheet[] | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [columns, setColumns] = useState<ColumnTarget[]>([]);
+  const [calculationName, setCalculationName] = useState("");
+  const [companyId, setCompanyId] = useState("");
+  const [createUseCases, setCreateUseCases] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const sheet = sheets?.[sheetIndex];
+  const headers = useMemo(() => (sheet ? getHeaders(sheet.rows, headerRow) : []), [sheet, headerRow]);
+
+  const selectSheet = (all: Worksheet[], index: number) => {
+    const row = guessHeaderRow(all[index]!);
+    setSheetIndex(index);
+    setHeaderRow(row);
+    setColumns(suggestColumnTargets(getHeaders(all[index]!.rows, row)));
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const workbook = await readXlsx(await file.arrayBuffer());
+      if (workbook.length === 0) throw new Error("The workbook has no worksheets");
+      setFileName(file.name);
+      setCalculationName(file.name.replace(/\.xlsx$/i, "").replace(/[_-]+/g, " "));
+      setSheets(workbook);
+      selectSheet(workbook, 0);
+    } catch (e) {
+      setSheets(null);
+      setError(e instanceof Error ? e.message : "Could not read the workbook");
+    }
+  };
+
+  const result = useMemo(
+    () =>
+      sheet
+        ? buildSpreadsheetImport(sheet.rows, {
+            calculationName: calculationName.trim(),
+            sourceLabel: fileName,
+            sheetName: sheet.name,
+            headerRow,
+            columns,
+            createUseCases,
+            ...(companyId && { companyId }),
+          })
+        : null,
+    [sheet, calculationName, fileName, headerRow, columns, createUseCases, companyId]
+  );
+
+  const hasName = columns.some((c) => c.kind === "name");
+  const itemCount = result?.payload.valueItems?.length ?? 0;
+  const canCreate = !!result && hasName && calculationName.trim() !== "" && result.preview.length > 0 && !isCreating;
+
+  const handleCreate = async () => {
+    if (!result || !canCreate) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { shortId } = await importCalculation({ payload: result.payload });
+      onComplete(shortId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Import failed");
+      setIsCreating(false);
+    }
+  };
+
+  const setColumn = (index: number, target: ColumnTarget) => {
+    setColumns((prev) => {
+      const next = [...prev];
+      while (next.length <= index) next.push({ kind: "ignore" });
+      next[index] = target;
+      return next;
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold">Import Spreadsheet</h2>
+            <p className="text-sm text-muted-foreground">
+              Map the columns of a legacy ROI workbook to archetype inputs, check the values, then create the calculator.
+            </p>
+          </div>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm" role="status">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Workbook</CardTitle>
+            <CardDescription>An .xlsx file with one use case per row</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="file"
+              accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleFile(file);
+              }}
+            />
+            {sheets && sheet && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Sheet</Label>
+                  <Select value={String(sheetIndex)} onValueChange={(v) => selectSheet(sheets, Number(v))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheets.map((s, i) => (
+                        <SelectItem key={s.name} value={String(i)}>
+                          {s.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="import-header-row">Header row</Label>
+                  <Input
+                    id="import-header-row"
+                    type="number"
+                    min={1}
+                    max={sheet.rows.length}
+                    value={headerRow + 1}
+                    onChange={(e) => {
+                      const row = Math.min(Math.max(1, Number(e.target.value) || 1), sheet.rows.length) - 1;
+                      setHeaderRow(row);
+                      setColumns(suggestColumnTargets(getHeaders(sheet.rows, row)));
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {sheet && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Columns</CardTitle>
+              <CardDescription>
+                Each row needs a name. Values mapped to the same archetype in a row become one value item; inputs
+                not in the sheet use the archetype defaults.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {headers.map((header, c) => {
+                  const target = columns[c] ?? { kind: "ignore" };
+                  const sample = cellText(sheet.rows[headerRow + 1]?.[c]);
+                  return (
+                    <div key={c} className="grid grid-cols-[1.5fr_1fr_1.2fr_1.2fr] gap-2 items-center py-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{header}</div>
+                        {sample && <div className="text-xs text-muted-foreground truncate">e.g. {sample}</div>}
+                      </div>
+                      <Select value={target.kind} onValueChange={(v) => setColumn(c, retarget(v as ColumnTarget["kind"], target))}>
+                        <SelectTrigger aria-label={`Target for ${header}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(TARGET_LABELS) as ColumnTarget["kind"][]).map((kind) => (
+                            <SelectItem key={kind} value={kind}>
+                              {TARGET_LABELS[kind]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {"archetype" in target ? (
+                        <Select
+                          value={target.archetype}
+                          onValueChange={(v) =>
+                            setColumn(
+                              c,
+                              target.kind === "input"
+                                ? { kind: "input", archetype: v as Archetype, key: ARCHETYPE_FIELDS[v as Archetype][0]!.key }
+                                : { kind: "annualValue", archetype: v as Archetype }
+                            )
+                          }
+                        >
+                          <SelectTrigger aria-label={`Archetype for ${header}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ARCHETYPES.map((a) => (
+                              <SelectItem key={a} value={a}>
+                                {ARCHETYPE_INFO[a].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <div />
+                      )}
+                      {target.kind === "input" ? (
+                        <Select value={target.key} onValueChange={(key) => setColumn(c, { ...target, key })}>
+                          <SelectTrigger aria-label={`Input for ${header}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ARCHETYPE_FIELDS[target.archetype].map((f) => (
+                              <SelectItem key={f.key} value={f.key}>
+                                {f.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <div />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {sheet && result && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Preview</CardTitle>
+              <CardDescription>
+                {result.preview.length} use case{result.preview.length !== 1 ? "s" : ""}, {itemCount} value item
+                {itemCount !== 1 ? "s" : ""} — {formatCurrency(result.totalAnnualValue)} per year
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!hasName ? (
+                <p className="text-sm text-muted-foreground">Map a column to "Use case name" to see the preview.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-2 font-medium">Row</th>
+                      <th className="py-2 pr-2 font-medium">Value item</th>
+                      <th className="py-2 pr-2 font-medium">Archetype</th>
+                      <th className="py-2 text-right font-medium">Annual value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.preview.slice(0, PREVIEW_ROWS).flatMap((row) =>
+                      row.items.length === 0
+                        ? [
+                            <tr key={row.rowNumber} className="border-b text-muted-foreground">
+                              <td className="py-1.5 pr-2 font-mono text-xs">{row.rowNumber}</td>
+                              <td className="py-1.5 pr-2">{row.name}</td>
+                              <td className="py-1.5 pr-2" colSpan={2}>
+                                Use case only
+                              </td>
+                            </tr>,
+                          ]
+                        : row.items.map((item) => (
+                            <tr key={`${row.rowNumber}-${item.name}`} className="border-b">
+                              <td className="py-1.5 pr-2 font-mono text-xs">{row.rowNumber}</td>
+                              <td className="py-1.5 pr-2">{item.name}</td>
+                              <td className="py-1.5 pr-2 text-muted-foreground">
+                                {ARCHETYPE_INFO[item.archetype].label}
+                                {item.manual && " (manual)"}
+                              </td>
+                              <td className="py-1.5 text-right font-mono">{formatCurrency(item.annualValue)}</td>
+                            </tr>
+                          ))
+                    )}
+                  </tbody>
+                </table>
+              )}
+              {result.preview.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of {result.preview.length} rows.
+                </p>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2 pt-2">
+                <div className="space-y-1">
+                  <Label htmlFor="import-calculation-name">Calculator name</Label>
+                  <Input
+                    id="import-calculation-name"
+                    value={calculationName}
+                    onChange={(e) => setCalculationName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Company</Label>
+                  <Select value={companyId || "none"} onValueChange={(v) => setCompanyId(v === "none" ? "" : v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No company</SelectItem>
+                      {companies?.map((co) => (
+                        <SelectItem key={co._id} value={co._id}>
+                          {co.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={createUseCases}
+                  onChange={(e) => setCreateUseCases(e.target.checked)}
+                />
+                Create a use case per row and link its value items
+              </label>
+
+              <div className="flex justify-end">
+                <Button
+                  disabled={!canCreate}
+                  onClick={handleCreate}
+                  className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+                >
+                  {isCreating ? "Creating..." : "Create Calculator"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import { formatCurrencyCompact } from "../utils/formatting";
 import type { ZapRunCacheEntry } from "../utils/value-realized";
 import { ValueRealizedBadge } from "./ValueRealizedBadge";
 import { ZapPicker } from "./ZapPicker";
+import { ZapStepIcons } from "./ZapStepIcons";
 import { ZapTemplateSuggestions } from "./ZapTemplateSuggestions";
 
 interface UseCaseCardProps {
@@ -43,6 +44,11 @@ export function UseCaseCard({ useCase, valueItems, readOnly = false, isExpanded
   const handleUpdate = (field: string, value: unknown) => {
     updateUseCase({ id: useCase._id, [field]: value });
   };
+  // Empty input clears the schedule field
+  const handleScheduleUpdate = (field: "goLiveMonth" | "rampMonths", value: string | number) => {
+    const num = value === "" ? null : Math.max(field === "goLiveMonth" ? 1 : 0, Math.round(Number(value) || 0));
+    handleUpdate(field, num);
+  };
   const handleDelete = () => {
     if (isShared && onRemoveFromCalculation) {
       onRemoveFromCalculation();
@@ -152,6 +158,12 @@ export function UseCaseCard({ useCase, valueItems, readOnly = false, isExpanded
                 </SelectContent>
               </Select>
             </Field>
+            <Field label="Go-live Month" readOnly={readOnly} display={useCase.goLiveMonth != null ? `Month ${useCase.goLiveMonth}` : "-"}>
+              <DebouncedInput type="number" min="1" value={useCase.goLiveMonth ?? ""} onChange={(v) => handleScheduleUpdate("goLiveMonth", v)} placeholder="Uses realization ramp" className="h-9" />
+            </Field>
+            <Field label="Ramp-up (months)" readOnly={readOnly} display={useCase.rampMonths != null ? `${useCase.rampMonths} mo` : "-"}>
+              <DebouncedInput type="number" min="0" value={useCase.rampMonths ?? ""} onChange={(v) => handleScheduleUpdate("rampMonths", v)} placeholder="0 = full value at go-live" className="h-9" />
+            </Field>
           </div>
 
           <div className="space-y-1">
@@ -211,17 +223,7 @@ export function UseCaseCard({ useCase, valueItems, readOnly = false, isExpanded
                   <p className="text-sm font-medium">{item.name}</p>
                   {/* Step flow from live API data */}
                   {item.type === "zap" && item.zapDetails?.steps?.length > 0 && (
-                    <div className="flex items-center gap-1 mt-2 overflow-x-auto">
-                      {item.zapDetails.steps.map((step: any, si: number) => (
-                        <div key={si} className="flex items-center gap-1 shrink-0">
-                          {si > 0 && <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="w-3 h-3 text-muted-foreground"><path d="M9 6l6 6-6 6" /></svg>}
-                          <div className="flex items-center gap-1.5 px-2 py-1 rounded bg-background border text-xs">
-                            {step.appImageUrl ? <img src={step.appImageUrl} alt="" className="w-4 h-4 rounded" /> : <div className="w-4 h-4 rounded" style={{ backgroundColor: step.appColor || "#ccc" }} />}
-                            <span className="whitespace-nowrap">{step.appTitle}</span>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+                    <ZapStepIcons steps={item.zapDetails.steps} className="mt-2" />
                   )}
                   {/* Step flow from template data (when no live data) */}
                   {item.type === "zap" && !item.zapDetails?.steps?.length && item.zapConfig?.steps?.length > 0 && (
@@ -6,6 +6,7 @@ import { USE_CASE_STATUS_INFO } from "../types/roi";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { UseCaseCard } from "./UseCaseCard";
+import { ZapMatchSuggestions } from "./ZapMatchSuggestions";
 import { calculateItemAnnualValue } from "../utils/calculations";
 import { formatCurrencyCompact, formatPercent } from "../utils/formatting";
 import { computeRealizationSummary, type ZapRunCacheEntry } from "../utils/value-realized";
@@ -43,6 +44,7 @@ export function UseCasesTab({
     failedRuns: entry.failedRuns,
     lastRunAt: entry.lastRunAt,
     fetchedAt: entry.fetchedAt,
+    sampled: entry.sampled,
   }));
   const summary = computeRealizationSummary(useCases, valueItems, zapRunCache);
 
@@ -158,6 +160,11 @@ export function UseCasesTab({
         </div>
       )}
 
+      {/* Suggested links to Zaps already in the account */}
+      {!readOnly && useCases.length > 0 && (
+        <ZapMatchSuggestions calculationId={calculation._id} useCases={useCases} valueItems={valueItems} />
+      )}
+
       {/* Use Case Cards */}
       {sortedUseCases.length === 0 ? (
         <Card>
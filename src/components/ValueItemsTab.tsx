@@ -3,12 +3,14 @@ import { useMutation } from "convex/react";
 import { Link } from "react-router-dom";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
-import type { ValueItem, Dimension, Archetype, ConfidenceTier } from "../types/roi";
+import type { ValueItem, Dimension, Archetype, ConfidenceTier, CustomArchetypeDefinition } from "../types/roi";
 import { DIMENSION_INFO, DIMENSION_ORDER, ARCHETYPE_INFO, ARCHETYPE_DIMENSION, normalizeConfidence } from "../types/roi";
 import { ARCHETYPE_FIELDS } from "../types/archetypes";
 import type { ArchetypeFieldDef } from "../types/archetypes";
+import { getArchetypeFields, getArchetypeInfo, isCustomArchetype, toArchetypeFieldDefs } from "../utils/customArchetypes";
 import { calculateItemAnnualValue, calculateComputedValue, calculateTotalAnnualValue } from "../utils/calculations";
 import { formatCurrency, formatCurrencyCompact } from "../utils/formatting";
+import { detectOverlaps, type OverlapWarning } from "../utils/overlap";
 import { Button } from "@/components/ui/button";
 import { DebouncedInput } from "@/components/ui/debounced-input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,6 +26,8 @@ import {
 interface ValueItemsTabProps {
   calculation: { _id: Id<"calculations">; assumptions: any };
   valueItems: ValueItem[];
+  /** Custom archetypes of the calculator's company, offered alongside the built-ins */
+  customArchetypes?: CustomArchetypeDefinition[];
   readOnly?: boolean;
 }
 
@@ -34,8 +38,17 @@ const CONFIDENCE_BADGE: Record<ConfidenceTier, { label: string; color: string; b
   D: { label: "D", color: "#6B7280", bg: "#F3F4F6", title: "Unsourced" },
 };
 
-export function ValueItemsTab({ calculation, valueItems, readOnly = false }: ValueItemsTabProps) {
+export function ValueItemsTab({ calculation, valueItems, customArchetypes = [], readOnly = false }: ValueItemsTabProps) {
   const totalValue = calculateTotalAnnualValue(valueItems);
+  const overlaps = detectOverlaps(valueItems);
+
+  // Overlap warnings keyed by the items they involve, for per-item badges
+  const overlapsByItem = new Map<string, OverlapWarning[]>();
+  for (const warning of overlaps) {
+    for (const id of warning.itemIds) {
+      overlapsByItem.set(id, [...(overlapsByItem.get(id) ?? []), warning]);
+    }
+  }
 
   return (
     <TooltipProvider delayDuration={200}>
@@ -61,6 +74,36 @@ export function ValueItemsTab({ calculation, valueItems, readOnly = false }: Val
           </CardContent>
         </Card>
 
+        {/* Double-counting warnings */}
+        {overlaps.length > 0 && (
+          <div
+            className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm"
+            role="status"
+          >
+            <p className="font-medium text-amber-950 dark:text-amber-100">Possible double counting</p>
+            <p className="text-muted-foreground mt-1">
+              These items may claim the same benefit. Procurement will look for this — merge them, narrow one, or note
+              why they're distinct.
+            </p>
+            <ul className="mt-2 space-y-1">
+              {overlaps.map((w) => (
+                <li key={w.itemIds.join(":")} className="flex items-start gap-2">
+                  <span
+                    className={`shrink-0 mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase ${
+                      w.severity === "high" ? "bg-amber-500 text-white" : "bg-amber-500/20 text-amber-900 dark:text-amber-100"
+                    }`}
+                  >
+                    {w.severity}
+                  </span>
+                  <span>
+                    {w.message} — up to <span className="font-mono">{formatCurrencyCompact(w.atRiskValue)}</span>/yr
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Dimension Sections */}
         {DIMENSION_ORDER.map((dimension) => (
           <DimensionSection
@@ -70,6 +113,8 @@ export function ValueItemsTab({ calculation, valueItems, readOnly = false }: Val
             items={valueItems
               .filter((item) => item.dimension === dimension)
               .sort((a, b) => a.order - b.order)}
+            overlapsByItem={overlapsByItem}
+            customArchetypes={customArchetypes.filter((a) => a.dimension === dimension)}
             readOnly={readOnly}
           />
         ))}
@@ -84,10 +129,19 @@ interface DimensionSectionProps {
   dimension: Dimension;
   calculationId: Id<"calculations">;
   items: ValueItem[];
+  overlapsByItem: Map<string, OverlapWarning[]>;
+  customArchetypes: CustomArchetypeDefinition[];
   readOnly: boolean;
 }
 
-function DimensionSection({ dimension, calculationId, items, readOnly }: DimensionSectionProps) {
+function DimensionSection({
+  dimension,
+  calculationId,
+  items,
+  overlapsByItem,
+  customArchetypes,
+  readOnly,
+}: DimensionSectionProps) {
   const [isExpanded, setIsExpanded] = useState(items.length > 0);
   const [addingArchetype, setAddingArchetype] = useState(false);
   const createItem = useMutation(api.valueItems.create);
@@ -100,8 +154,9 @@ function DimensionSection({ dimension, calculationId, items, readOnly }: Dimensi
     .filter(([, d]) => d === dimension)
     .map(([a]) => a);
 
-  const handleAddItem = async (archetype: Archetype) => {
-    const fields = ARCHETYPE_FIELDS[archetype];
+  const handleAddItem = async (archetype: string) => {
+    const custom = isCustomArchetype(archetype) ? customArchetypes.find((a) => a.key === archetype) : undefined;
+    const fields = custom ? toArchetypeFieldDefs(custom) : ARCHETYPE_FIELDS[archetype as Archetype];
     const inputs: Record<string, { value: number; confidence: ConfidenceTier; source?: string }> = {};
     for (const field of fields) {
       inputs[field.key] = {
@@ -114,7 +169,7 @@ function DimensionSection({ dimension, calculationId, items, readOnly }: Dimensi
     await createItem({
       calculationId,
       archetype,
-      name: ARCHETYPE_INFO[archetype].label,
+      name: custom?.label ?? ARCHETYPE_INFO[archetype as Archetype].label,
       inputs,
     });
     setAddingArchetype(false);
@@ -159,14 +214,19 @@ function DimensionSection({ dimension, calculationId, items, readOnly }: Dimensi
           )}
 
           {items.map((item) => (
-            <ValueItemCard key={item._id} item={item} readOnly={readOnly} />
+            <ValueItemCard
+              key={item._id}
+              item={item}
+              overlaps={overlapsByItem.get(String(item._id)) ?? []}
+              readOnly={readOnly}
+            />
           ))}
 
           {/* Add Item */}
           {!readOnly && (
             addingArchetype ? (
               <div className="flex items-center gap-2 px-2">
-                <Select onValueChange={(v) => handleAddItem(v as Archetype)}>
+                <Select onValueChange={handleAddItem}>
                   <SelectTrigger className="h-8 text-sm flex-1">
                     <SelectValue placeholder="Select archetype..." />
                   </SelectTrigger>
@@ -176,6 +236,11 @@ function DimensionSection({ dimension, calculationId, items, readOnly }: Dimensi
                         {ARCHETYPE_INFO[a].label}
                       </SelectItem>
                     ))}
+                    {customArchetypes.map((a) => (
+                      <SelectItem key={a.key} value={a.key}>
+                        {a.label} <span className="text-xs text-muted-foreground">(custom)</span>
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <Button variant="ghost" size="sm" onClick={() => setAddingArchetype(false)}>
@@ -202,17 +267,18 @@ function DimensionSection({ dimension, calculationId, items, readOnly }: Dimensi
 
 interface ValueItemCardProps {
   item: ValueItem;
+  overlaps: OverlapWarning[];
   readOnly: boolean;
 }
 
-function ValueItemCard({ item, readOnly }: ValueItemCardProps) {
+function ValueItemCard({ item, overlaps, readOnly }: ValueItemCardProps) {
   const [isOpen, setIsOpen] = useState(false);
   const updateItem = useMutation(api.valueItems.update);
   const deleteItem = useMutation(api.valueItems.remove);
 
   const computed = calculateComputedValue(item);
-  const archetypeInfo = ARCHETYPE_INFO[item.archetype];
-  const fields = ARCHETYPE_FIELDS[item.archetype] ?? [];
+  const archetypeInfo = getArchetypeInfo(item);
+  const fields = getArchetypeFields(item);
   const confidenceBadge = CONFIDENCE_BADGE[normalizeConfidence(computed.confidence)];
 
   const handleUpdateInput = (fieldKey: string, newValue: number) => {
@@ -263,6 +329,14 @@ function ValueItemCard({ item, readOnly }: ValueItemCardProps) {
           >
             {confidenceBadge.label}
           </span>
+          {overlaps.length > 0 && (
+            <span
+              className="shrink-0 px-2 py-0.5 rounded text-[10px] font-medium bg-amber-500/15 text-amber-900 dark:text-amber-100"
+              title={overlaps.map((w) => w.message).join("\n")}
+            >
+              Overlap
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-3 shrink-0">
           <span className="font-mono font-semibold text-[#FF4A00]">
@@ -54,7 +54,7 @@ export function ValueRealizedBadge({
     <span
       className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium"
       style={{ color: statusInfo.color, backgroundColor: statusInfo.bgColor }}
-      title={`${statusInfo.label}: ${formatPercent(realized.realizationRate)} of projected value realized (${realized.actualRunsLast30Days} runs/30d)`}
+      title={`${statusInfo.label}: ${formatPercent(realized.realizationRate)} of projected value realized (${realized.actualRunsLast30Days}${realized.sampled ? "+" : ""} runs/30d)`}
     >
       <ZapIcon />
       {formatPercent(realized.realizationRate)}
@@ -1,23 +1,27 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Calculation, ValueItem, UseCase } from "../types/roi";
 import {
   computeRealizationSummary,
+  computeRealizedValueHistory,
   HEALTH_STATUS_INFO,
   type RealizationSummary,
   type ZapRunCacheEntry,
+  type ZapRunDay,
 } from "../utils/value-realized";
 import {
   formatCurrency,
   formatCurrencyCompact,
   formatPercent,
   formatNumber,
+  formatRelativeTime,
 } from "../utils/formatting";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RealizedValueChart } from "./RealizedValueChart";
 
 interface ValueRealizedDashboardProps {
   calculation: Calculation;
@@ -300,7 +304,10 @@ export function ValueRealizedDashboard({
   useCases,
 }: ValueRealizedDashboardProps) {
   const [showManualEntry, setShowManualEntry] = useState(false);
-  const [refreshMessage, setRefreshMessage] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const syncZapData = useAction(api.zapActions.syncZapDataForCalculation);
+  const syncStatus = useQuery(api.zapSync.getStatus, { calculationId: calculation._id as any });
 
   // Fetch live zap run cache from Convex
   const zapRunCacheRaw = useQuery(api.zapRunCache.getByCalculation, {
@@ -318,15 +325,39 @@ export function ValueRealizedDashboard({
     failedRuns: entry.failedRuns,
     lastRunAt: entry.lastRunAt,
     fetchedAt: entry.fetchedAt,
+    sampled: entry.sampled,
   }));
 
-  const summary = computeRealizationSummary(useCases, valueItems, zapRunCache);
+  // Daily run history, for the value-over-time chart and weekly trends
+  const runDaysRaw = useQuery(api.zapRunCache.getRunDaysByCalculation, {
+    calculationId: calculation._id as any,
+  });
+  const runDays: ZapRunDay[] = (runDaysRaw ?? []).map((d) => ({
+    zapId: d.zapId,
+    useCaseId: d.useCaseId,
+    day: d.day,
+    totalRuns: d.totalRuns,
+    successfulRuns: d.successfulRuns,
+    failedRuns: d.failedRuns,
+  }));
 
-  const handleRefresh = () => {
-    setRefreshMessage("Refresh queued. API-based auto-refresh coming soon.");
-    setTimeout(() => setRefreshMessage(null), 3000);
+  const summary = computeRealizationSummary(useCases, valueItems, zapRunCache, runDays);
+  const valueHistory = computeRealizedValueHistory(useCases, valueItems, runDays);
+
+  const handleRefresh = async () => {
+    setRefreshError(null);
+    setRefreshing(true);
+    try {
+      await syncZapData({ calculationId: calculation._id as any, forceRefresh: true });
+    } catch (e) {
+      setRefreshError(e instanceof Error ? e.message : "Could not refresh run data");
+    } finally {
+      setRefreshing(false);
+    }
   };
 
+  const lastSync = syncStatus?.lastRun;
+
   // Empty state: no linked Zaps at all
   if (!summary.hasAnyLinkedZaps && zapRunCache.length === 0) {
     return (
@@ -393,15 +424,38 @@ export function ValueRealizedDashboard({
           >
             {showManualEntry ? "Hide Entry Form" : "Enter Data"}
           </Button>
-          <Button variant="outline" size="sm" onClick={handleRefresh}>
-            Refresh Run Data
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshing}>
+            {refreshing ? "Refreshing..." : "Refresh Run Data"}
           </Button>
         </div>
       </div>
 
-      {refreshMessage && (
+      {/* Sync status — run data also syncs on a schedule */}
+      {refreshError ? (
+        <p role="status" className="text-sm rounded-md border border-red-200 bg-red-50 text-red-800 px-3 py-2">
+          {refreshError}
+        </p>
+      ) : lastSync ? (
+        <p
+          className={`text-sm rounded-md px-3 py-2 ${
+            lastSync.status === "succeeded"
+              ? "text-muted-foreground bg-muted/50"
+              : "border border-amber-200 bg-amber-50 text-amber-900"
+          }`}
+        >
+          {lastSync.status === "succeeded" && `Run data synced ${formatRelativeTime(lastSync.finishedAt)}.`}
+          {lastSync.status === "partial" &&
+            `Last sync ${formatRelativeTime(lastSync.finishedAt)} updated ${lastSync.zapsUpdated} Zaps; ${lastSync.zapsFailed} failed: ${lastSync.error}`}
+          {lastSync.status === "failed" && `Last sync ${formatRelativeTime(lastSync.finishedAt)} failed: ${lastSync.error}`}
+          {lastSync.status === "rate_limited" &&
+            `Last sync ${formatRelativeTime(lastSync.finishedAt)} hit the Zapier API rate limit.`}{" "}
+          {syncStatus.nextSyncAt > Date.now()
+            ? `Next automatic sync at ${new Date(syncStatus.nextSyncAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}.`
+            : "Next automatic sync shortly."}
+        </p>
+      ) : (
         <p className="text-sm text-muted-foreground bg-muted/50 rounded-md px-3 py-2">
-          {refreshMessage}
+          Run data syncs automatically every hour.
         </p>
       )}
 
@@ -482,6 +536,18 @@ export function ValueRealizedDashboard({
         </Card>
       </div>
 
+      {/* Value delivered over time */}
+      {valueHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Value Delivered Over Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RealizedValueChart points={valueHistory} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Automation Coverage Summary */}
       <AutomationCoverageSummary useCases={useCases} realizationSummary={summary} />
 
@@ -544,9 +610,17 @@ export function ValueRealizedDashboard({
                         )}
                       </td>
                       <td className="text-right py-3 font-mono text-sm px-2">
-                        {uc.hasRunData
-                          ? formatNumber(uc.actualRunsLast30Days)
-                          : "--"}
+                        {uc.hasRunData ? (
+                          uc.sampled ? (
+                            <span title="More runs than could be fetched; this is a lower bound">
+                              {formatNumber(uc.actualRunsLast30Days)}+
+                            </span>
+                          ) : (
+                            formatNumber(uc.actualRunsLast30Days)
+                          )
+                        ) : (
+                          "--"
+                        )}
                       </td>
                       <td className="text-center py-3 px-2">
                         {uc.hasRunData ? (
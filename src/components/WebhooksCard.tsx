@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  DEFAULT_REALIZATION_THRESHOLD,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_INFO,
+  isValidWebhookUrl,
+  type WebhookEvent,
+} from "../utils/webhooks";
+import { formatRelativeTime } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// ============================================================
+// WebhooksCard — outbound event subscriptions and their recent
+// deliveries (owners)
+// ============================================================
+
+interface WebhooksCardProps {
+  companyId: Id<"companies">;
+}
+
+const DELIVERY_STATUS_STYLES = {
+  pending: "bg-amber-100 text-amber-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export function WebhooksCard({ companyId }: WebhooksCardProps) {
+  const webhooks = useQuery(api.webhooks.listByCompany, { companyId });
+  const createWebhook = useMutation(api.webhooks.create);
+  const updateWebhook = useMutation(api.webhooks.update);
+  const removeWebhook = useMutation(api.webhooks.remove);
+  const sendTest = useMutation(api.webhooks.sendTest);
+
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["value_item.updated"]);
+  const [thresholdPercent, setThresholdPercent] = useState(String(DEFAULT_REALIZATION_THRESHOLD * 100));
+  const [created, setCreated] = useState<{ url: string; secret: string } | null>(null);
+  const [openId, setOpenId] = useState<Id<"webhooks"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((current) => (current.includes(event) ? current.filter((e) => e !== event) : [...current, event]));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const { secret } = await createWebhook({
+        companyId,
+        url: url.trim(),
+        events,
+        realizationThreshold: events.includes("realization.threshold_crossed")
+          ? Number(thresholdPercent) / 100
+          : undefined,
+      });
+      setCreated({ url: url.trim(), secret });
+      setUrl("");
+    });
+
+  const handleRemove = (webhook: { _id: Id<"webhooks">; url: string }) => {
+    if (!window.confirm(`Delete the webhook to ${webhook.url} and its delivery log?`)) return;
+    if (openId === webhook._id) setOpenId(null);
+    return run(() => removeWebhook({ id: webhook._id }));
+  };
+
+  if (webhooks === undefined) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Webhooks</CardTitle>
+        <CardDescription>
+          POST a signed JSON event to your URL when calculators change. Failed deliveries are retried with backoff
+          for about 15 hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {created && (
+          <div role="status" className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 space-y-2">
+            <p>
+              Signing secret for {created.url}. Copy it now; it won't be shown again. Check each request's
+              X-Webhook-Signature header against it.
+            </p>
+            <div className="flex gap-2 items-center">
+              <code className="flex-1 min-w-0 truncate bg-background px-2 py-1 rounded border">{created.secret}</code>
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(created.secret)}>
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {webhooks.length > 0 && (
+          <ul className="space-y-3">
+            {webhooks.map((webhook) => (
+              <li key={webhook._id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <code className={`flex-1 min-w-0 truncate ${webhook.active ? "" : "opacity-60"}`}>{webhook.url}</code>
+                  <Button variant="outline" size="sm" onClick={() => run(() => sendTest({ id: webhook._id }))}>
+                    Send Test
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => run(() => updateWebhook({ id: webhook._id, active: !webhook.active }))}
+                  >
+                    {webhook.active ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    variant={openId === webhook._id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setOpenId(openId === webhook._id ? null : webhook._id)}
+                  >
+                    Deliveries
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(webhook)}>
+                    Delete
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {webhook.active ? "" : "Paused · "}
+                  {webhook.events.join(", ")}
+                  {webhook.events.includes("realization.threshold_crossed") &&
+                    ` · threshold ${Math.round((webhook.realizationThreshold ?? DEFAULT_REALIZATION_THRESHOLD) * 100)}%`}
+                </p>
+                {openId === webhook._id && <DeliveryLog webhookId={webhook._id} />}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <div className="space-y-1.5">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://hooks.zapier.com/hooks/catch/..."
+            />
+          </div>
+          <fieldset className="space-y-1.5">
+            <legend className="text-sm font-medium mb-1.5">Events</legend>
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                />
+                <span>
+                  <code>{event}</code> <span className="text-muted-foreground">— {WEBHOOK_EVENT_INFO[event]}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          {events.includes("realization.threshold_crossed") && (
+            <div className="space-y-1.5">
+              <Label htmlFor="webhook-threshold">Realization threshold (%)</Label>
+              <Input
+                id="webhook-threshold"
+                type="number"
+                min={1}
+                max={100}
+                value={thresholdPercent}
+                onChange={(e) => setThresholdPercent(e.target.value)}
+                className="w-24"
+              />
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={!isValidWebhookUrl(url.trim()) || events.length === 0}
+            className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+          >
+            Add Webhook
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DeliveryLog({ webhookId }: { webhookId: Id<"webhooks"> }) {
+  const deliveries = useQuery(api.webhooks.listDeliveries, { webhookId });
+  const redeliver = useMutation(api.webhooks.redeliver);
+
+  if (deliveries === undefined) return <p className="text-xs text-muted-foreground">Loading deliveries...</p>;
+  if (deliveries.length === 0) return <p className="text-xs text-muted-foreground">No deliveries yet.</p>;
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-muted-foreground border-b">
+          <th className="py-1 font-medium">Event</th>
+          <th className="py-1 font-medium">Status</th>
+          <th className="py-1 font-medium">Attempts</th>
+          <th className="py-1 font-medium">Response</th>
+          <th className="py-1 font-medium">When</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {deliveries.map((d) => (
+          <tr key={d._id} className="border-b last:border-0">
+            <td className="py-1 font-mono">{d.event}</td>
+            <td className="py-1">
+              <span className={`px-1.5 py-0.5 rounded ${DELIVERY_STATUS_STYLES[d.status]}`}>
+                {d.status === "pending" && d.nextAttemptAt ? "retrying" : d.status}
+              </span>
+            </td>
+            <td className="py-1">{d.attempts}</td>
+            <td className="py-1 text-muted-foreground">{d.lastError ?? d.lastStatusCode ?? "—"}</td>
+            <td className="py-1 text-muted-foreground">{formatRelativeTime(d.createdAt)}</td>
+            <td className="py-1 text-right">
+              {d.status === "failed" && (
+                <button
+                  type="button"
+                  className="text-[#FF4A00] hover:underline"
+                  onClick={() => redeliver({ deliveryId: d._id })}
+                >
+                  Retry
+                </button>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
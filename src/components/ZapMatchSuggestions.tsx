@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useAction, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { ZapDetails } from "../utils/zapier-api";
+import { applyZapLink, suggestZapLinks, type ZapLinkSuggestion } from "../utils/zapMatching";
+import { formatPercent } from "../utils/formatting";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ZapStepIcons } from "./ZapStepIcons";
+
+// ============================================================
+// ZapMatchSuggestions — finds Zaps the account already runs that
+// fit this calculator's use cases, and links the accepted ones
+// ============================================================
+
+interface ZapMatchSuggestionsProps {
+  calculationId: Id<"calculations">;
+  useCases: any[];
+  valueItems: any[];
+}
+
+/** Pages of 50 read per scan, so very large accounts stay quick */
+const MAX_SCAN_PAGES = 10;
+
+export function ZapMatchSuggestions({ calculationId, useCases, valueItems }: ZapMatchSuggestionsProps) {
+  const listAccountZaps = useAction(api.zapActions.listAccountZaps);
+  const updateUseCase = useMutation(api.useCases.update);
+
+  const [zaps, setZaps] = useState<ZapDetails[] | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [accepting, setAccepting] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setError(null);
+    setScanning(true);
+    try {
+      const loaded: ZapDetails[] = [];
+      let offset: number | null = 0;
+      let pages = 0;
+      while (offset !== null && pages < MAX_SCAN_PAGES) {
+        const page = await listAccountZaps({ calculationId, offset });
+        loaded.push(...page.zaps);
+        offset = page.nextOffset;
+        pages++;
+      }
+      setZaps(loaded);
+      setTruncated(offset !== null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load your Zaps");
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  // Recomputed from the live use cases, so accepted links drop out
+  const suggestions = zaps
+    ? suggestZapLinks(useCases, valueItems, zaps).filter((s) => !dismissed.has(s.zap.id))
+    : [];
+  const nameOfUseCase = (id: string) => useCases.find((uc) => uc._id === id)?.name ?? "Use case";
+
+  const handleAccept = async (suggestion: ZapLinkSuggestion) => {
+    const useCase = useCases.find((uc) => uc._id === suggestion.useCaseId);
+    if (!useCase) return;
+    setError(null);
+    setAccepting(suggestion.zap.id);
+    try {
+      await updateUseCase({
+        id: useCase._id,
+        architecture: applyZapLink(useCase.architecture ?? [], suggestion.zap, suggestion.target.architectureIndex),
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not link the Zap");
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  const handleDismiss = (zapId: string) => setDismissed((prev) => new Set(prev).add(zapId));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Zaps You Already Run</CardTitle>
+            <CardDescription>
+              Matches your account's Zaps to these use cases by the apps and actions they use
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleScan} disabled={scanning} className="shrink-0">
+            {scanning ? "Scanning..." : zaps ? "Scan Again" : "Find Matching Zaps"}
+          </Button>
+        </div>
+      </CardHeader>
+      {(error || zaps) && (
+        <CardContent className="space-y-3">
+          {error && (
+            <div role="status" className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+          {zaps && suggestions.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No unlinked Zaps match these use cases ({zaps.length} Zaps checked).
+            </p>
+          )}
+          {suggestions.map((s) => (
+            <div key={s.zap.id} className="flex flex-wrap items-start gap-3 border-b last:border-0 pb-3 last:pb-0">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium truncate">{s.zap.title}</p>
+                  <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full bg-muted font-mono">
+                    {formatPercent(s.score)} match
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Link to <strong>{nameOfUseCase(s.useCaseId)}</strong> · fits "{s.target.label}" · shares{" "}
+                  {s.sharedApps.join(", ")}
+                </p>
+                {s.zap.steps.length > 0 && <ZapStepIcons steps={s.zap.steps} className="mt-1.5" />}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  onClick={() => handleAccept(s)}
+                  disabled={accepting !== null}
+                  className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+                >
+                  {accepting === s.zap.id ? "Linking..." : "Link"}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDismiss(s.zap.id)}>
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          ))}
+          {truncated && (
+            <p className="text-xs text-muted-foreground">
+              Checked the first {zaps?.length} Zaps in the account. Use the Zap picker on a use case to search the rest.
+            </p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
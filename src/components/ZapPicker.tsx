@@ -1,16 +1,20 @@
 // ============================================================
 // ZapPicker — Modal for linking / unlinking Zaps to a use case
 // Adds entries to useCase.architecture with type: "zap"
-// Allows entering a Zap ID (and optional display name)
+// Lists the account's Zaps to search by title or app and link
+// several at once; a Zap ID can still be entered by hand
 // ============================================================
 
-import { useState } from "react";
-import { useMutation } from "convex/react";
+import { useCallback, useEffect, useState } from "react";
+import { useAction, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { UseCase } from "../types/roi";
+import { zapMatchesSearch, type ZapDetails as AccountZap } from "../utils/zapier-api";
+import { toLinkedZapItem } from "../utils/zapMatching";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ZapStepIcons } from "./ZapStepIcons";
 
 interface ZapPickerProps {
   useCase: UseCase;
@@ -23,10 +27,73 @@ export function ZapPicker({ useCase, onClose }: ZapPickerProps) {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const [accountZaps, setAccountZaps] = useState<AccountZap[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [listError, setListError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showManual, setShowManual] = useState(false);
+
   const updateUseCase = useMutation(api.useCases.update);
+  const listAccountZaps = useAction(api.zapActions.listAccountZaps);
 
   const architecture = useCase.architecture ?? [];
   const linkedZaps = architecture.filter((a) => a.type === "zap");
+  const linkedIds = new Set(linkedZaps.map((a) => a.zapId));
+
+  const calculationId = useCase.calculationId;
+  const loadPage = useCallback(
+    async (offset: number) => {
+      setLoading(true);
+      setListError(null);
+      try {
+        const page = await listAccountZaps({ calculationId, offset });
+        setAccountZaps((prev) => (offset === 0 ? page.zaps : [...prev, ...page.zaps]));
+        setNextOffset(page.nextOffset);
+      } catch (err) {
+        setListError(err instanceof Error ? err.message : "Could not load your Zaps.");
+        setShowManual(true);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [listAccountZaps, calculationId]
+  );
+
+  // Load the first page when the picker opens
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  const visibleZaps = search.trim()
+    ? accountZaps.filter((zap) => zapMatchesSearch(zap, search))
+    : accountZaps;
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleLinkSelected = async () => {
+    const newItems = accountZaps.filter((zap) => selected.has(zap.id) && !linkedIds.has(zap.id)).map((zap) => toLinkedZapItem(zap));
+    if (newItems.length === 0) return;
+
+    setError(null);
+    setSaving(true);
+    try {
+      await updateUseCase({ id: useCase._id, architecture: [...architecture, ...newItems] });
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to link Zaps.");
+    } finally {
+      setSaving(false);
+    }
+  };
 
   const handleAddZap = async () => {
     const trimmedId = zapId.trim();
@@ -73,7 +140,7 @@ export function ZapPicker({ useCase, onClose }: ZapPickerProps) {
       onClick={onClose}
     >
       <div
-        className="bg-background rounded-xl shadow-2xl max-w-md w-full"
+        className="bg-background rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -89,7 +156,7 @@ export function ZapPicker({ useCase, onClose }: ZapPickerProps) {
           </Button>
         </div>
 
-        <div className="p-5 space-y-5">
+        <div className="p-5 space-y-5 overflow-y-auto">
           {/* Linked Zaps list */}
           {linkedZaps.length > 0 && (
             <div className="space-y-2">
@@ -111,6 +178,9 @@ export function ZapPicker({ useCase, onClose }: ZapPickerProps) {
                             ID: {item.zapId}
                           </p>
                         )}
+                        {item.zapDetails?.steps && item.zapDetails.steps.length > 0 && (
+                          <ZapStepIcons steps={item.zapDetails.steps} className="mt-1.5" />
+                        )}
                         {item.status && (
                           <span
                             className="inline-block mt-1 text-[10px] px-1.5 py-0.5 rounded-full bg-muted"
@@ -147,61 +217,148 @@ export function ZapPicker({ useCase, onClose }: ZapPickerProps) {
             </div>
           )}
 
-          {/* Add new Zap */}
+          {/* Account Zaps */}
           <div className="space-y-3">
             <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-              {linkedZaps.length > 0 ? "Add Another Zap" : "Link a Zap"}
+              Your Zaps
             </p>
-            <div className="space-y-2">
-              <div>
-                <Label htmlFor="zp-zap-id" className="text-xs text-muted-foreground">
-                  Zap ID <span className="text-destructive">*</span>
-                </Label>
-                <Input
-                  id="zp-zap-id"
-                  placeholder="e.g. 123456789"
-                  value={zapId}
-                  onChange={(e) => { setZapId(e.target.value); setError(null); }}
-                  onKeyDown={(e) => e.key === "Enter" && !saving && handleAddZap()}
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="zp-zap-name" className="text-xs text-muted-foreground">
-                  Display name (optional)
-                </Label>
-                <Input
-                  id="zp-zap-name"
-                  placeholder="e.g. Lead Routing Automation"
-                  value={zapName}
-                  onChange={(e) => setZapName(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && !saving && handleAddZap()}
-                  className="mt-1"
-                />
+            <Input
+              aria-label="Search Zaps"
+              placeholder="Search by Zap title or app"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+
+            {listError ? (
+              <p className="text-xs text-destructive">{listError}</p>
+            ) : (
+              <div className="space-y-1.5">
+                {visibleZaps.map((zap) => {
+                  const linked = linkedIds.has(zap.id);
+                  return (
+                    <label
+                      key={zap.id}
+                      className={`flex items-start gap-3 p-2.5 rounded-lg border ${linked ? "opacity-60" : "cursor-pointer hover:bg-muted/50"}`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={linked || selected.has(zap.id)}
+                        disabled={linked}
+                        onChange={() => toggleSelected(zap.id)}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium truncate">{zap.title}</p>
+                          <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full bg-muted">
+                            {linked ? "Linked" : zap.isEnabled ? "On" : "Off"}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground font-mono">ID: {zap.id}</p>
+                        {zap.steps.length > 0 && <ZapStepIcons steps={zap.steps} className="mt-1.5" />}
+                      </div>
+                    </label>
+                  );
+                })}
+
+                {!loading && visibleZaps.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    {accountZaps.length === 0 ? "No Zaps in this account." : "No loaded Zaps match."}
+                  </p>
+                )}
+                {loading && <p className="text-sm text-muted-foreground text-center py-4">Loading Zaps...</p>}
+                {!loading && nextOffset !== null && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => loadPage(nextOffset)}>
+                    Load More{search.trim() ? " to Search" : ""}
+                  </Button>
+                )}
               </div>
-            </div>
+            )}
 
-            {error && <p className="text-xs text-destructive">{error}</p>}
-
-            <Button
-              onClick={handleAddZap}
-              disabled={saving || !zapId.trim()}
-              className="w-full"
-              size="sm"
-            >
-              {saving ? "Linking..." : "Link Zap"}
-            </Button>
-
-            <p className="text-[11px] text-muted-foreground">
-              Find your Zap ID in the Zapier editor URL:{" "}
-              <span className="font-mono">zapier.com/editor/</span>
-              <span className="font-mono text-[#FF4A00]">&#123;zapId&#125;</span>
-            </p>
+            {!listError && (
+              <Button
+                onClick={handleLinkSelected}
+                disabled={saving || selected.size === 0}
+                className="w-full bg-[#FF4A00] hover:bg-[#CC3B00] text-white"
+                size="sm"
+              >
+                {saving
+                  ? "Linking..."
+                  : selected.size > 0
+                    ? `Link ${selected.size} Zap${selected.size === 1 ? "" : "s"}`
+                    : "Select Zaps to Link"}
+              </Button>
+            )}
           </div>
+
+          {/* Add a Zap by ID */}
+          <div className="space-y-3">
+            {!showManual ? (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-foreground underline"
+                onClick={() => setShowManual(true)}
+              >
+                Enter a Zap ID instead
+              </button>
+            ) : (
+              <>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Link by Zap ID
+                </p>
+                <div className="space-y-2">
+                  <div>
+                    <Label htmlFor="zp-zap-id" className="text-xs text-muted-foreground">
+                      Zap ID <span className="text-destructive">*</span>
+                    </Label>
+                    <Input
+                      id="zp-zap-id"
+                      placeholder="e.g. 123456789"
+                      value={zapId}
+                      onChange={(e) => { setZapId(e.target.value); setError(null); }}
+                      onKeyDown={(e) => e.key === "Enter" && !saving && handleAddZap()}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="zp-zap-name" className="text-xs text-muted-foreground">
+                      Display name (optional)
+                    </Label>
+                    <Input
+                      id="zp-zap-name"
+                      placeholder="e.g. Lead Routing Automation"
+                      value={zapName}
+                      onChange={(e) => setZapName(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && !saving && handleAddZap()}
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handleAddZap}
+                  disabled={saving || !zapId.trim()}
+                  variant="outline"
+                  className="w-full"
+                  size="sm"
+                >
+                  {saving ? "Linking..." : "Link Zap"}
+                </Button>
+
+                <p className="text-[11px] text-muted-foreground">
+                  Find your Zap ID in the Zapier editor URL:{" "}
+                  <span className="font-mono">zapier.com/editor/</span>
+                  <span className="font-mono text-[#FF4A00]">&#123;zapId&#125;</span>
+                </p>
+              </>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
         </div>
 
         {/* Footer */}
-        <div className="px-5 pb-5">
+        <div className="px-5 pb-5 pt-3 border-t">
           <Button variant="outline" onClick={onClose} className="w-full" size="sm">
             Done
           </Button>
@@ -0,0 +1,26 @@
+import type { ZapStepDetails } from "../types/roi";
+
+// ============================================================
+// ZapStepIcons — a Zap's steps as app chips joined by arrows
+// ============================================================
+
+interface ZapStepIconsProps {
+  steps: ZapStepDetails[];
+  className?: string;
+}
+
+export function ZapStepIcons({ steps, className = "" }: ZapStepIconsProps) {
+  return (
+    <div className={`flex items-center gap-1 overflow-x-auto ${className}`}>
+      {steps.map((step, si) => (
+        <div key={si} className="flex items-center gap-1 shrink-0">
+          {si > 0 && <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="w-3 h-3 text-muted-foreground"><path d="M9 6l6 6-6 6" /></svg>}
+          <div className="flex items-center gap-1.5 px-2 py-1 rounded bg-background border text-xs" title={step.actionTitle}>
+            {step.appImageUrl ? <img src={step.appImageUrl} alt="" className="w-4 h-4 rounded" /> : <div className="w-4 h-4 rounded" style={{ backgroundColor: step.appColor || "#ccc" }} />}
+            <span className="whitespace-nowrap">{step.appTitle}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
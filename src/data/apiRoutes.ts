@@ -0,0 +1,730 @@
+import { buildRoiSchemaDimensions, ROI_SCHEMA_VERSION } from "./schemaResponse";
+import { ROLE_INFO } from "../types/roles";
+import { DIMENSION_ORDER, type CustomArchetypeDefinition } from "../types/roi";
+import { CUSTOM_ARCHETYPE_PREFIX } from "../utils/customArchetypes";
+import {
+  buildEndpointGuide,
+  buildOpenApiDocument,
+  schemaRef,
+  type ApiParameter,
+  type ApiRoute,
+  type JsonSchema,
+} from "../utils/openapi";
+
+// ============================================================
+// REST API route table — the single source for GET /api/openapi.json,
+// the endpoint guide in GET /api/schema, and request validation in
+// convex/http.ts. Add a route here when adding one to the router.
+// ============================================================
+
+export const USE_CASE_STATUSES = ["identified", "in_progress", "deployed", "future"];
+export const EFFORT_LEVELS = ["low", "medium", "high"];
+export const ARCHITECTURE_TYPES = ["zap", "interface", "table", "agent"];
+const ARCHITECTURE_STATUSES = ["planned", "building", "active", "paused"];
+const CUSTOM_FIELD_TYPES = ["number", "percentage", "currency", "hours"];
+
+const string = (description?: string): JsonSchema => ({ type: "string", ...(description && { description }) });
+const number = (description?: string, minimum?: number): JsonSchema => ({
+  type: "number",
+  ...(description && { description }),
+  ...(minimum !== undefined && { minimum }),
+});
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema => ({
+  type: "array",
+  items,
+  ...(description && { description }),
+});
+const object = (properties: Record<string, JsonSchema>, required: string[] = [], description?: string): JsonSchema => ({
+  type: "object",
+  properties,
+  ...(required.length > 0 && { required }),
+  ...(description && { description }),
+});
+
+// ============================================================
+// Value items — one schema per archetype, from the archetype inputs
+// in GET /api/schema
+// ============================================================
+
+interface SchemaInputRow {
+  key: string;
+  label: string;
+  type: string;
+  confidence?: string;
+  prompt?: string;
+  default?: number;
+  range?: [number, number];
+}
+
+function inputSchema(row: SchemaInputRow): JsonSchema {
+  const notes = [row.prompt, row.range && `Benchmark range ${row.range[0]}–${row.range[1]}`].filter(Boolean);
+  return object(
+    {
+      value: {
+        type: "number",
+        description: `${row.label} (${row.type})`,
+        ...(row.default !== undefined && { default: row.default }),
+      },
+      confidence: schemaRef("ConfidenceTier"),
+      source: string("Where the number comes from, e.g. \"Customer-reported\""),
+    },
+    ["value"],
+    [row.label, ...notes].join(". ")
+  );
+}
+
+function archetypeSchemaName(id: string): string {
+  return `ValueItem_${id}`;
+}
+
+function valueItemFields(archetype: JsonSchema, inputs: JsonSchema): Record<string, JsonSchema> {
+  return {
+    archetype,
+    name: { type: "string", minLength: 1, description: "Display name" },
+    description: string(),
+    inputs,
+    manualAnnualValue: number("Annual value that overrides the archetype formula"),
+  };
+}
+
+function valueItemComponents(customArchetypes: CustomArchetypeDefinition[]): Record<string, JsonSchema> {
+  const components: Record<string, JsonSchema> = {};
+  const mapping: Record<string, string> = {};
+
+  for (const dimension of buildRoiSchemaDimensions(customArchetypes)) {
+    for (const archetype of dimension.archetypes) {
+      const rows = archetype.inputs as unknown as SchemaInputRow[];
+      const name = archetypeSchemaName(archetype.id);
+      components[name] = object(
+        valueItemFields(
+          { type: "string", enum: [archetype.id], description: "Archetype id from GET /api/schema" },
+          {
+            type: "object",
+            description: "Archetype inputs by key. Inputs left out use the archetype default.",
+            properties: Object.fromEntries(rows.map((row) => [row.key, inputSchema(row)])),
+            additionalProperties: false,
+          }
+        ),
+        ["archetype", "name"],
+        `${archetype.label} (${dimension.label}): ${archetype.description} Formula: ${archetype.formula}`
+      );
+      mapping[archetype.id] = `#/components/schemas/${name}`;
+    }
+  }
+
+  components.ValueItem_custom = object(
+    valueItemFields(
+      {
+        type: "string",
+        pattern: `^${CUSTOM_ARCHETYPE_PREFIX}[a-z0-9_]+$`,
+        description: "Custom archetype key of the calculator's company (GET /api/companies/:shortId/archetypes)",
+      },
+      { type: "object", additionalProperties: schemaRef("ValueInput") }
+    ),
+    ["archetype", "name"],
+    "Value item using a company custom archetype. Its inputs are checked against the archetype's fields when saved."
+  );
+
+  components.ValueItemCreate = {
+    description: "A value item. `archetype` picks the input schema.",
+    oneOf: [...Object.values(mapping).map((ref) => ({ $ref: ref })), schemaRef("ValueItem_custom")],
+    discriminator: { propertyName: "archetype", mapping },
+  };
+  return components;
+}
+
+// ============================================================
+// Components
+// ============================================================
+
+const metric = object({ name: string(), before: string(), after: string(), improvement: string() }, ["name"]);
+
+const architectureItem = object(
+  {
+    type: { type: "string", enum: ARCHITECTURE_TYPES },
+    name: string(),
+    url: string(),
+    zapId: string("Zap ID; links Zap run data to this use case"),
+    description: string(),
+    status: { type: "string", enum: ARCHITECTURE_STATUSES },
+  },
+  ["type", "name"]
+);
+
+const useCaseFields: Record<string, JsonSchema> = {
+  name: { type: "string", minLength: 1 },
+  department: string("Matched against company department headcounts (case-insensitive)"),
+  status: { type: "string", enum: USE_CASE_STATUSES, description: "default: identified" },
+  implementationEffort: { type: "string", enum: EFFORT_LEVELS, description: "default: medium" },
+  description: string(),
+  metrics: arrayOf(metric),
+  architecture: arrayOf(architectureItem),
+  goLiveMonth: { type: "integer", minimum: 1, description: "1-based projection month when linked value starts" },
+  rampMonths: { type: "integer", minimum: 0, description: "Months from go-live to full value (default 0)" },
+};
+
+const assumptions = object(
+  {
+    projectionYears: { type: "integer", minimum: 1 },
+    realizationRamp: arrayOf(number(undefined, 0), "Fraction of full value realized in each projection year"),
+    annualGrowthRate: number(),
+    discountRate: number("Annual rate for NPV"),
+    fteHoursPerMonth: number("Working hours per FTE per month", 0),
+  },
+  ["projectionYears", "realizationRamp", "annualGrowthRate"]
+);
+
+const customArchetypeField = object(
+  {
+    key: string("Identifier used in the formula"),
+    label: string(),
+    type: { type: "string", enum: CUSTOM_FIELD_TYPES },
+    prompt: string(),
+    defaultValue: number(),
+    defaultConfidence: schemaRef("ConfidenceTier"),
+  },
+  ["key", "label", "type"]
+);
+
+const customArchetypeFields: Record<string, JsonSchema> = {
+  label: { type: "string", minLength: 1 },
+  description: string(),
+  dimension: { type: "string", enum: DIMENSION_ORDER, description: "One of the 5 dimension ids" },
+  fields: arrayOf(customArchetypeField),
+  formula: string("Arithmetic over field keys: + - * / ^, parentheses, min/max/abs/round/floor/ceil"),
+  traceTemplate: string("e.g. \"{claims} claims × {minutes} min\""),
+};
+
+const spendFields: Record<string, JsonSchema> = {
+  currentSpend: number("Current annual Zapier spend", 0),
+  proposedSpend: number("Proposed annual Zapier spend", 0),
+  implementationCost: number("One-time cost at go-live, discounted at year 0", 0),
+};
+
+const calculationSettings: Record<string, JsonSchema> = {
+  role: { type: "string", enum: Object.keys(ROLE_INFO), description: "Audience; sets the default dimension priority" },
+  priorityOrder: arrayOf({ type: "string", enum: DIMENSION_ORDER }, "Dimensions in presentation order"),
+  ...spendFields,
+  assumptions,
+};
+
+/** Component schemas; custom archetypes add a value item schema each */
+export function buildApiComponents(customArchetypes: CustomArchetypeDefinition[] = []): Record<string, JsonSchema> {
+  return {
+    Error: object(
+      {
+        error: string("What went wrong"),
+        errors: arrayOf(string(), "Each problem with the request body or query, for 400s"),
+      },
+      ["error"]
+    ),
+    ConfidenceTier: {
+      type: "string",
+      enum: ["A", "B", "C", "D", "custom", "benchmarked", "estimated"],
+      description:
+        "A customer data, B published benchmark, C estimated, D unsourced. custom, benchmarked and estimated are older names for A, B and C and are still accepted.",
+    },
+    ValueInput: object(
+      { value: number(), confidence: schemaRef("ConfidenceTier"), source: string() },
+      ["value"]
+    ),
+    ...valueItemComponents(customArchetypes),
+    ValueItemUpdate: object(
+      {
+        name: { type: "string", minLength: 1 },
+        description: string(),
+        archetype: string("Built-in archetype id or custom archetype key"),
+        inputs: { type: "object", additionalProperties: schemaRef("ValueInput"), description: "Replaces the inputs" },
+        manualAnnualValue: number(),
+        useCaseId: string("Use case _id to link this value item to"),
+      }
+    ),
+    UseCaseCreate: object(useCaseFields, ["name"]),
+    UseCaseUpdate: object({
+      ...useCaseFields,
+      goLiveMonth: { ...useCaseFields.goLiveMonth, nullable: true, description: "null clears the schedule" },
+      rampMonths: { ...useCaseFields.rampMonths, nullable: true, description: "null clears the schedule" },
+    }),
+    CalculationCreate: object(
+      {
+        name: { type: "string", minLength: 1 },
+        companyShortId: string("Links the calculator to a company by short ID"),
+        companyId: string("Links the calculator to a company by Convex ID"),
+        ...calculationSettings,
+        benchmarkPackId: string("Benchmark pack to pin; defaults to the active pack"),
+        importUseCaseIds: arrayOf(
+          string(),
+          "Use case _ids to import as shared references (from GET /api/companies/:shortId/use-cases)"
+        ),
+        valueItems: arrayOf(schemaRef("ValueItemCreate"), "Value items to create"),
+        useCases: arrayOf(
+          object(
+            {
+              ...useCaseFields,
+              valueItemNames: arrayOf(string(), "Links value items created in the same request by name"),
+            },
+            ["name"]
+          ),
+          "Use cases to create. valueItemNames links them to value items by name."
+        ),
+      },
+      ["name"]
+    ),
+    CalculationUpdate: object({
+      name: { type: "string", minLength: 1 },
+      ...calculationSettings,
+      talkingPoints: arrayOf(string()),
+      obfuscation: object({ companyDescriptor: string(), hideNotes: { type: "boolean" }, roundValues: { type: "boolean" } }),
+      companyId: { type: "string", nullable: true, description: "Company _id; null or \"\" unlinks" },
+    }),
+    CompanyCreate: object(
+      {
+        name: { type: "string", minLength: 1 },
+        industry: string(),
+        employeeCount: number(undefined, 0),
+      },
+      ["name"]
+    ),
+    CompanyUpdate: object({
+      name: { type: "string", minLength: 1 },
+      industry: string(),
+      employeeCount: number(undefined, 0),
+      departmentHeadcounts: arrayOf(
+        object({ department: string(), headcount: number(undefined, 0) }, ["department", "headcount"]),
+        "Replaces the list. Departments match use case department names (case-insensitive)"
+      ),
+    }),
+    CustomArchetypeCreate: object(customArchetypeFields, ["label", "dimension", "fields", "formula"]),
+    CustomArchetypeUpdate: object(customArchetypeFields),
+    ZapRunData: object(
+      {
+        zapId: { type: "string", minLength: 1 },
+        useCaseId: string("Use case _id; found from the Zap's architecture link when left out"),
+        totalRuns: number(undefined, 0),
+        runsLast30Days: number(undefined, 0),
+        runsLast7Days: number(undefined, 0),
+        successfulRuns: number(undefined, 0),
+        failedRuns: number(undefined, 0),
+        lastRunAt: string("ISO timestamp of the latest run"),
+        realizationRate: number(undefined, 0),
+        realizedAnnualValue: number(),
+      },
+      ["zapId", "totalRuns", "runsLast30Days", "runsLast7Days", "successfulRuns", "failedRuns"]
+    ),
+  };
+}
+
+// ============================================================
+// Routes
+// ============================================================
+
+const ok = (description: string, schema?: JsonSchema) => ({ status: 200, description, ...(schema && { schema }) });
+const created = (description: string) => ({ status: 201, description });
+const list = (description: string) => ok(description, arrayOf({ type: "object" }));
+
+const companyQuery: ApiParameter = {
+  name: "company",
+  description: "Company shortId",
+  schema: string(),
+};
+
+export const API_ROUTES: ApiRoute[] = [
+  // Meta
+  {
+    method: "GET",
+    path: "/api/schema",
+    group: "meta",
+    name: "schema",
+    summary: "Taxonomy, archetype input schemas, valid values and this endpoint guide",
+    query: [{ ...companyQuery, description: "Company shortId; lists its custom archetypes with custom: true" }],
+    response: ok("The ROI schema"),
+    public: true,
+  },
+  {
+    method: "GET",
+    path: "/api/openapi.json",
+    group: "meta",
+    name: "openapi",
+    summary: "This API as an OpenAPI 3 document",
+    query: [{ ...companyQuery, description: "Company shortId; adds value item schemas for its custom archetypes" }],
+    response: ok("OpenAPI document"),
+    public: true,
+  },
+  {
+    method: "GET",
+    path: "/api/templates/{archetype}",
+    group: "templates",
+    name: "get",
+    summary: "Pre-filled template with input prompts and defaults for an archetype",
+    response: ok("Value item template"),
+    public: true,
+  },
+
+  // Companies
+  { method: "GET", path: "/api/companies", group: "companies", name: "list", summary: "List all companies", response: list("Companies") },
+  {
+    method: "POST",
+    path: "/api/companies",
+    group: "companies",
+    name: "create",
+    summary: "Create a company",
+    body: schemaRef("CompanyCreate"),
+    response: created("The company"),
+  },
+  {
+    method: "GET",
+    path: "/api/companies/{shortId}",
+    group: "companies",
+    name: "get",
+    summary: "Get company with its calculators",
+    response: ok("{ company, calculations }"),
+  },
+  {
+    method: "PUT",
+    path: "/api/companies/{shortId}",
+    group: "companies",
+    name: "update",
+    summary: "Edit a company",
+    body: schemaRef("CompanyUpdate"),
+    response: ok("The company"),
+  },
+  {
+    method: "DELETE",
+    path: "/api/companies/{shortId}",
+    group: "companies",
+    name: "delete",
+    summary: "Delete a company. Its calculators are kept, unlinked.",
+    response: ok("{ deleted: true }"),
+  },
+  {
+    method: "GET",
+    path: "/api/companies/{shortId}/aggregate",
+    group: "companies",
+    name: "aggregate",
+    summary: "Company-level totals across all calculators",
+    description: "Use cases shared between calculators count once",
+    response: ok("Totals, dimension totals and per-calculator figures"),
+  },
+  {
+    method: "GET",
+    path: "/api/companies/{shortId}/use-cases",
+    group: "companies",
+    name: "useCases",
+    summary: "All company use cases",
+    description:
+      "With _id, totalAnnualValue, valueItemCount, sourceCalculator, referencedByCalculators. Use this to discover use cases available for import.",
+    response: ok("{ company, useCases, totalUseCases }"),
+  },
+  {
+    method: "GET",
+    path: "/api/companies/{shortId}/archetypes",
+    group: "companies",
+    name: "archetypes",
+    summary: "Company custom archetypes",
+    description: "GET /api/schema?company=:shortId lists them in the taxonomy with custom: true",
+    response: list("Custom archetypes"),
+  },
+  {
+    method: "POST",
+    path: "/api/companies/{shortId}/archetypes",
+    group: "companies",
+    name: "createArchetype",
+    summary: "Create a custom archetype",
+    description:
+      "Returns the archetype with its key (custom_<label>). Use the key as a value item archetype in calculators linked to this company.",
+    body: schemaRef("CustomArchetypeCreate"),
+    response: created("The custom archetype"),
+  },
+  {
+    method: "PUT",
+    path: "/api/companies/{shortId}/archetypes/{key}",
+    group: "companies",
+    name: "updateArchetype",
+    summary: "Edit a custom archetype",
+    description: "Value items using it are recalculated",
+    body: schemaRef("CustomArchetypeUpdate"),
+    response: ok("The custom archetype"),
+  },
+  {
+    method: "DELETE",
+    path: "/api/companies/{shortId}/archetypes/{key}",
+    group: "companies",
+    name: "deleteArchetype",
+    summary: "Delete a custom archetype",
+    description: "Fails with 409 while value items use it",
+    response: ok("{ deleted: true }"),
+  },
+
+  // Calculations
+  { method: "GET", path: "/api/calculations", group: "calculations", name: "list", summary: "List all calculations", response: list("Calculations") },
+  {
+    method: "POST",
+    path: "/api/calculations",
+    group: "calculations",
+    name: "create",
+    summary: "Create a calculator",
+    description: "Supports nested value items, use cases, and importing shared use cases in one call",
+    body: schemaRef("CalculationCreate"),
+    response: created("{ calculation, shortId, valueItems, useCases, summary }"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}",
+    group: "calculations",
+    name: "get",
+    summary: "Basic calculation data",
+    response: ok("The calculation"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/full",
+    group: "calculations",
+    name: "getFull",
+    summary: "Full calculation with computed values",
+    description:
+      "Use cases, summary, Monte Carlo simulation (P10/P50/P90 annual value and ROI per item, dimension, and total), cost model (Zapier tasks/month, build cost, plan fit vs proposedSpend), warnings (possible double counting between value items), and capacity (hours saved per use case department vs company headcount × fteHoursPerMonth)",
+    response: ok("Full calculation payload"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/sensitivity",
+    group: "calculations",
+    name: "sensitivity",
+    summary: "Tornado-chart sensitivity",
+    description: "Every input moved low/high on its own, ranked by swing in total annual value",
+    query: [
+      {
+        name: "mode",
+        description: "percent (default) or range (use benchmark ranges where defined)",
+        schema: { type: "string", enum: ["percent", "range"] },
+      },
+      {
+        name: "percent",
+        description: "Fraction to move each input, above 0 and at most 1; default 0.2",
+        schema: { type: "number", minimum: 0, maximum: 1 },
+      },
+    ],
+    response: ok("Sensitivity rows"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/realized",
+    group: "calculations",
+    name: "realized",
+    summary: "Projected vs realized value from Zap run data",
+    response: ok("Realized value"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/obfuscated",
+    group: "calculations",
+    name: "obfuscated",
+    summary: "Calculation with the obfuscation settings applied",
+    response: ok("Anonymized calculation"),
+  },
+  {
+    method: "PUT",
+    path: "/api/calculations/{shortId}",
+    group: "calculations",
+    name: "update",
+    summary: "Edit calculation settings",
+    body: schemaRef("CalculationUpdate"),
+    response: ok("The calculation"),
+  },
+  {
+    method: "DELETE",
+    path: "/api/calculations/{shortId}",
+    group: "calculations",
+    name: "delete",
+    summary: "Delete a calculation",
+    response: ok("{ deleted: true }"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/export",
+    group: "calculations",
+    name: "export",
+    summary: "Versioned, self-contained bundle",
+    description:
+      "bundleVersion and schemaVersion, calculation settings, assumptions, talking points, scenarios, value items, use cases with architecture, and any custom archetype definitions. Ids are bundle-local.",
+    response: ok("Calculation bundle"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/import",
+    group: "calculations",
+    name: "import",
+    summary: "Create a calculator from an export bundle",
+    description:
+      "Older bundle versions (including the migrations/*.json format, which has no bundleVersion) are upgraded first. Returns idMap from bundle ids to new _ids.",
+    query: [
+      {
+        ...companyQuery,
+        description:
+          "Company shortId to link the calculator to; required when the bundle has custom archetypes, which are created on the company if missing",
+      },
+    ],
+    body: { type: "object", description: "Bundle from GET /api/calculations/:shortId/export" },
+    response: created("{ calculation, shortId, idMap, summary }"),
+  },
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/snapshots",
+    group: "calculations",
+    name: "listSnapshots",
+    summary: "Named snapshots of this calculator, newest first (without payloads)",
+    response: list("Snapshots"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/{shortId}/snapshots",
+    group: "calculations",
+    name: "createSnapshot",
+    summary: "Freeze the current GET /full payload",
+    description: "Snapshots are immutable; returns the snapshot with its own shortId and share path /s/:shortId",
+    body: object({ name: { type: "string", minLength: 1, description: "e.g. \"Board deck, March\"" } }, ["name"]),
+    response: created("The snapshot"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/{shortId}/zap-run-data",
+    group: "calculations",
+    name: "zapRunData",
+    summary: "Record Zap run counts for realized value tracking",
+    body: schemaRef("ZapRunData"),
+    response: created("{ id, zapId, useCaseId }"),
+  },
+
+  // Value items
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/value-items",
+    group: "valueItems",
+    name: "list",
+    summary: "Value items with computed annual values",
+    response: list("Value items"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/{shortId}/value-items",
+    group: "valueItems",
+    name: "create",
+    summary: "Create a value item",
+    description: "archetype is one of the 16 built-ins or a custom archetype key of the calculator's company",
+    body: schemaRef("ValueItemCreate"),
+    response: created("The value item"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/{shortId}/value-items/batch",
+    group: "valueItems",
+    name: "createBatch",
+    summary: "Create several value items",
+    body: object({ items: { ...arrayOf(schemaRef("ValueItemCreate")), minItems: 1 } }, ["items"]),
+    response: created("The created value items with computed values"),
+  },
+  {
+    method: "PUT",
+    path: "/api/calculations/{shortId}/value-items/{itemShortId}",
+    group: "valueItems",
+    name: "update",
+    summary: "Edit a value item",
+    body: schemaRef("ValueItemUpdate"),
+    response: ok("The value item"),
+  },
+  {
+    method: "DELETE",
+    path: "/api/calculations/{shortId}/value-items/{itemShortId}",
+    group: "valueItems",
+    name: "delete",
+    summary: "Delete a value item",
+    response: ok("{ deleted: true }"),
+  },
+
+  // Use cases
+  {
+    method: "GET",
+    path: "/api/calculations/{shortId}/use-cases",
+    group: "useCases",
+    name: "list",
+    summary: "Use cases in this calculator (includes shared ones)",
+    response: list("Use cases"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/{shortId}/use-cases",
+    group: "useCases",
+    name: "create",
+    summary: "Create a use case",
+    body: schemaRef("UseCaseCreate"),
+    response: created("The use case"),
+  },
+  {
+    method: "POST",
+    path: "/api/calculations/{shortId}/use-cases/import",
+    group: "useCases",
+    name: "import",
+    summary: "Add an existing company use case to this calculator as a shared reference",
+    description: "No data is copied — edits reflect everywhere",
+    body: object({ useCaseId: { type: "string", minLength: 1, description: "_id from GET /api/companies/:shortId/use-cases" } }, [
+      "useCaseId",
+    ]),
+    response: ok("The use case"),
+  },
+  {
+    method: "PUT",
+    path: "/api/calculations/{shortId}/use-cases/{ucShortId}",
+    group: "useCases",
+    name: "update",
+    summary: "Edit a use case",
+    description: "Changes apply to all calculators referencing it. Set goLiveMonth / rampMonths to null to clear the schedule.",
+    body: schemaRef("UseCaseUpdate"),
+    response: ok("The use case"),
+  },
+  {
+    method: "DELETE",
+    path: "/api/calculations/{shortId}/use-cases/{ucShortId}",
+    group: "useCases",
+    name: "delete",
+    summary: "Remove a use case",
+    description: "Default: unlinks from this calculator only ({ deleted: false, unlinked: true })",
+    query: [
+      {
+        name: "permanent",
+        description: "true deletes it from all calculators",
+        schema: { type: "boolean" },
+      },
+    ],
+    response: ok("{ deleted, permanent?, unlinked? }"),
+  },
+
+  // Snapshots
+  {
+    method: "GET",
+    path: "/api/snapshots/{shortId}",
+    group: "snapshots",
+    name: "get",
+    summary: "A snapshot with its frozen payload",
+    description: "Exactly what GET /api/calculations/:shortId/full returned when it was taken",
+    response: ok("The snapshot"),
+  },
+];
+
+
+/** Built-in schemas, for validating requests that haven't loaded a company */
+export const API_COMPONENTS = buildApiComponents();
+
+export function buildApiOpenApiDocument(customArchetypes: CustomArchetypeDefinition[] = []) {
+  return buildOpenApiDocument(
+    {
+      title: "Zapier Value Calculator API",
+      version: ROI_SCHEMA_VERSION,
+      description:
+        "Build and read ROI calculators. Send an ID token as a Bearer token or a company API key in X-API-Key. Archetype input schemas match GET /api/schema.",
+    },
+    API_ROUTES,
+    buildApiComponents(customArchetypes)
+  );
+}
+
+export const API_ENDPOINT_GUIDE = buildEndpointGuide(API_ROUTES, API_COMPONENTS);
@@ -1,5 +1,15 @@
 import { ARCHETYPE_FIELDS, type ArchetypeFieldDef } from "../types/archetypes";
-import { ARCHETYPE_INFO, ARCHETYPE_DIMENSION, DIMENSION_INFO, DIMENSION_ORDER, type Archetype, type Dimension } from "../types/roi";
+import {
+  ARCHETYPE_INFO,
+  ARCHETYPE_DIMENSION,
+  DIMENSION_INFO,
+  DIMENSION_ORDER,
+  type Archetype,
+  type CustomArchetypeDefinition,
+  type CustomArchetypeKey,
+  type Dimension,
+} from "../types/roi";
+import { toArchetypeFieldDefs } from "../utils/customArchetypes";
 
 /** ISO date when benchmark defaults / ranges last changed — bump when editing ARCHETYPE_FIELDS. */
 export const ROI_SCHEMA_UPDATED_AT = "2026-04-22";
@@ -24,7 +34,7 @@ function apiSourceForField(field: ArchetypeFieldDef): string {
   }
 }
 
-function buildSchemaInput(field: ArchetypeFieldDef, archetype: Archetype) {
+function buildSchemaInput(field: ArchetypeFieldDef, archetype: Archetype | CustomArchetypeKey) {
   const sourceCategory = apiSourceForField(field);
   const row: Record<string, unknown> = {
     key: field.key,
@@ -53,7 +63,10 @@ function buildSchemaInput(field: ArchetypeFieldDef, archetype: Archetype) {
   return row;
 }
 
-export function buildRoiSchemaDimensions() {
+/**
+ * Taxonomy for GET /api/schema. Company custom archetypes are listed under their dimension with `custom: true`.
+ */
+export function buildRoiSchemaDimensions(customArchetypes: CustomArchetypeDefinition[] = []) {
   return DIMENSION_ORDER.map((dimId: Dimension) => {
     const dimMeta = DIMENSION_INFO[dimId];
     const archetypes = (Object.keys(ARCHETYPE_INFO) as Archetype[])
@@ -69,11 +82,22 @@ export function buildRoiSchemaDimensions() {
           inputs: fields.map((f) => buildSchemaInput(f, archetype)),
         };
       });
+    const custom = customArchetypes
+      .filter((a) => a.dimension === dimId)
+      .map((a) => ({
+        id: a.key,
+        label: a.label,
+        description: a.description ?? "",
+        formula: a.formula,
+        ...(a.traceTemplate && { traceTemplate: a.traceTemplate }),
+        custom: true,
+        inputs: toArchetypeFieldDefs(a).map((f) => buildSchemaInput(f, a.key)),
+      }));
     return {
       id: dimId,
       label: dimMeta.label,
       description: dimMeta.description,
-      archetypes,
+      archetypes: [...archetypes, ...custom],
     };
   });
 }
@@ -0,0 +1,33 @@
+// ============================================================
+// Zapier Plan Tiers
+// Monthly task allowances and approximate annual list prices used
+// to size a plan against projected task volume. Prices are list
+// estimates for sizing conversations — confirm against the current
+// price book before quoting.
+// ============================================================
+
+export interface ZapierPlanTier {
+  id: string;
+  name: string;
+  monthlyTasks: number;
+  annualPrice: number;
+}
+
+export const ZAPIER_PLAN_TIERS: ZapierPlanTier[] = [
+  { id: "team_2k", name: "Team 2K", monthlyTasks: 2_000, annualPrice: 828 },
+  { id: "team_10k", name: "Team 10K", monthlyTasks: 10_000, annualPrice: 3_588 },
+  { id: "team_50k", name: "Team 50K", monthlyTasks: 50_000, annualPrice: 8_388 },
+  { id: "team_100k", name: "Team 100K", monthlyTasks: 100_000, annualPrice: 13_788 },
+  { id: "enterprise_500k", name: "Enterprise 500K", monthlyTasks: 500_000, annualPrice: 47_988 },
+  { id: "enterprise_2m", name: "Enterprise 2M", monthlyTasks: 2_000_000, annualPrice: 143_988 },
+];
+
+/** Get the smallest plan that covers a monthly task volume (undefined when none does) */
+export function getPlanForTasks(monthlyTasks: number): ZapierPlanTier | undefined {
+  return ZAPIER_PLAN_TIERS.find((tier) => tier.monthlyTasks >= monthlyTasks);
+}
+
+/** Get the largest plan an annual budget buys (undefined when it buys none) */
+export function getPlanForBudget(annualBudget: number): ZapierPlanTier | undefined {
+  return [...ZAPIER_PLAN_TIERS].reverse().find((tier) => tier.annualPrice <= annualBudget);
+}
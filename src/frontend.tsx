@@ -7,21 +7,30 @@
 
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { ConvexReactClient } from "convex/react";
 import { BrowserRouter } from "react-router-dom";
 import { App } from "./App";
+import { AuthProvider, type AuthConfig } from "./lib/auth";
 
-// Build-time injected value (for static hosting)
+// Build-time injected values (for static hosting)
 declare const __CONVEX_URL__: string | undefined;
+declare const __AUTH_ISSUER__: string | undefined;
+declare const __AUTH_CLIENT_ID__: string | undefined;
 
 interface AppConfig {
   convexUrl: string;
+  authIssuer?: string;
+  authClientId?: string;
 }
 
 async function getConfig(): Promise<AppConfig> {
   // Try build-time injected value first (static hosting)
   if (typeof __CONVEX_URL__ !== "undefined" && __CONVEX_URL__) {
-    return { convexUrl: __CONVEX_URL__ };
+    return {
+      convexUrl: __CONVEX_URL__,
+      authIssuer: typeof __AUTH_ISSUER__ !== "undefined" ? __AUTH_ISSUER__ : undefined,
+      authClientId: typeof __AUTH_CLIENT_ID__ !== "undefined" ? __AUTH_CLIENT_ID__ : undefined,
+    };
   }
 
   // Fall back to API endpoint (dev server with Bun)
@@ -44,6 +53,10 @@ async function init() {
   // Initialize Convex client with URL from config
   const convex = new ConvexReactClient(config.convexUrl);
 
+  // Without an identity provider the app loads but asks for configuration at sign-in
+  const auth: AuthConfig | null =
+    config.authIssuer && config.authClientId ? { issuer: config.authIssuer, clientId: config.authClientId } : null;
+
   const elem = document.getElementById("root");
   if (!elem) {
     throw new Error("Root element not found");
@@ -51,11 +64,11 @@ async function init() {
 
   const app = (
     <StrictMode>
-      <ConvexProvider client={convex}>
+      <AuthProvider client={convex} config={auth}>
         <BrowserRouter>
           <App />
         </BrowserRouter>
-      </ConvexProvider>
+      </AuthProvider>
     </StrictMode>
   );
 
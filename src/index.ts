@@ -6,10 +6,12 @@ const server = serve({
     // Serve index.html for all unmatched routes.
     "/*": index,
 
-    // Endpoint to get public config (Convex URL for frontend)
+    // Endpoint to get public config (Convex URL and sign-in provider for frontend)
     "/api/config": () => {
       return Response.json({
         convexUrl: process.env.VITE_CONVEX_URL,
+        authIssuer: process.env.AUTH_ISSUER_URL,
+        authClientId: process.env.AUTH_CLIENT_ID,
       });
     },
   },
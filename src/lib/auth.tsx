@@ -0,0 +1,208 @@
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from "react";
+import { ConvexProviderWithAuth, type ConvexReactClient } from "convex/react";
+
+// ============================================================
+// Sign-in with an OpenID Connect provider (authorization code +
+// PKCE, no client secret). The provider's ID token is what Convex
+// validates, per convex/auth.config.ts.
+// ============================================================
+
+export interface AuthConfig {
+  issuer: string;
+  clientId: string;
+}
+
+interface Session {
+  idToken: string;
+  refreshToken?: string;
+  expiresAt: number; // ms, from the ID token's exp
+}
+
+interface PendingSignIn {
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+const SESSION_KEY = "roi.auth.session";
+const PENDING_KEY = "roi.auth.pending";
+export const CALLBACK_PATH = "/auth/callback";
+
+// Refresh this long before the ID token expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomString(): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+function tokenExpiry(idToken: string): number {
+  const payload = idToken.split(".")[1] ?? "";
+  const json = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/"))) as { exp?: number };
+  return (json.exp ?? 0) * 1000;
+}
+
+const discoveryCache = new Map<string, Promise<{ authorization_endpoint: string; token_endpoint: string }>>();
+
+function discover(issuer: string) {
+  let cached = discoveryCache.get(issuer);
+  if (!cached) {
+    cached = fetch(`${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`).then((res) => {
+      if (!res.ok) throw new Error(`Identity provider discovery failed (${res.status})`);
+      return res.json();
+    });
+    discoveryCache.set(issuer, cached);
+  }
+  return cached;
+}
+
+function redirectUri(): string {
+  return `${window.location.origin}${CALLBACK_PATH}`;
+}
+
+function loadSession(): Session | null {
+  const raw = localStorage.getItem(SESSION_KEY);
+  return raw ? (JSON.parse(raw) as Session) : null;
+}
+
+function saveSession(session: Session | null) {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+async function requestTokens(config: AuthConfig, params: Record<string, string>): Promise<Session> {
+  const { token_endpoint } = await discover(config.issuer);
+  const res = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: config.clientId, ...params }),
+  });
+  if (!res.ok) throw new Error(`Sign-in failed (${res.status})`);
+  const body = (await res.json()) as { id_token?: string; refresh_token?: string };
+  if (!body.id_token) throw new Error("Identity provider returned no ID token");
+  return { idToken: body.id_token, refreshToken: body.refresh_token, expiresAt: tokenExpiry(body.id_token) };
+}
+
+/** Send the browser to the provider's sign-in page */
+export async function startSignIn(config: AuthConfig, returnTo: string) {
+  const { authorization_endpoint } = await discover(config.issuer);
+  const pending: PendingSignIn = { state: randomString(), verifier: randomString(), returnTo };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: redirectUri(),
+    scope: "openid email profile offline_access",
+    state: pending.state,
+    code_challenge: await pkceChallenge(pending.verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+/** Exchange the code on the callback URL for tokens. Returns where to go next. */
+export async function completeSignIn(config: AuthConfig, callbackUrl: string): Promise<string> {
+  const params = new URL(callbackUrl).searchParams;
+  const error = params.get("error");
+  if (error) throw new Error(params.get("error_description") ?? error);
+
+  const pending = JSON.parse(sessionStorage.getItem(PENDING_KEY) ?? "null") as PendingSignIn | null;
+  sessionStorage.removeItem(PENDING_KEY);
+  if (!pending || params.get("state") !== pending.state) throw new Error("Sign-in expired. Please try again.");
+
+  saveSession(
+    await requestTokens(config, {
+      grant_type: "authorization_code",
+      code: params.get("code") ?? "",
+      redirect_uri: redirectUri(),
+      code_verifier: pending.verifier,
+    })
+  );
+  return pending.returnTo;
+}
+
+// ============================================================
+// React wiring
+// ============================================================
+
+interface AuthContextValue {
+  config: AuthConfig | null; // null: sign-in is not configured for this deployment
+  signIn: () => void;
+  signOut: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue>({ config: null, signIn: () => {}, signOut: () => {} });
+
+export function useAuthActions() {
+  return useContext(AuthContext);
+}
+
+/** Convex provider that sends the signed-in user's ID token with every request */
+export function AuthProvider({
+  client,
+  config,
+  children,
+}: {
+  client: ConvexReactClient;
+  config: AuthConfig | null;
+  children: ReactNode;
+}) {
+  const [session, setSession] = useState<Session | null>(() => loadSession());
+
+  const signIn = useCallback(() => {
+    if (config) void startSignIn(config, window.location.pathname + window.location.search);
+  }, [config]);
+
+  const signOut = useCallback(() => {
+    saveSession(null);
+    setSession(null);
+  }, []);
+
+  const fetchAccessToken = useCallback(
+    async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
+      const current = loadSession();
+      if (!current || !config) return null;
+      if (!forceRefreshToken && current.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return current.idToken;
+      if (!current.refreshToken) {
+        saveSession(null);
+        setSession(null);
+        return null;
+      }
+      try {
+        const next = await requestTokens(config, { grant_type: "refresh_token", refresh_token: current.refreshToken });
+        saveSession({ ...next, refreshToken: next.refreshToken ?? current.refreshToken });
+        return next.idToken;
+      } catch {
+        saveSession(null);
+        setSession(null);
+        return null;
+      }
+    },
+    [config]
+  );
+
+  const useAuth = useMemo(() => {
+    const isAuthenticated = session !== null;
+    return () => ({ isLoading: false, isAuthenticated, fetchAccessToken });
+  }, [session, fetchAccessToken]);
+
+  const value = useMemo(() => ({ config, signIn, signOut }), [config, signIn, signOut]);
+
+  return (
+    <AuthContext.Provider value={value}>
+      <ConvexProviderWithAuth client={client} useAuth={useAuth}>
+        {children}
+      </ConvexProviderWithAuth>
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { completeSignIn, useAuthActions } from "../lib/auth";
+
+/** Where the identity provider sends the browser back after sign-in */
+export function AuthCallbackPage() {
+  const { config } = useAuthActions();
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The code can only be exchanged once; StrictMode runs effects twice in development
+    if (!config || started.current) return;
+    started.current = true;
+    completeSignIn(config, window.location.href)
+      // Full reload so the Convex client starts with the new session
+      .then((returnTo) => window.location.replace(returnTo || "/"))
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : "Sign-in failed"));
+  }, [config]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-2">
+      {error || !config ? (
+        <>
+          <p className="text-destructive">{error ?? "Sign-in isn't configured for this deployment"}</p>
+          <Link to="/" className="text-sm text-muted-foreground hover:text-foreground">
+            Back to calculators
+          </Link>
+        </>
+      ) : (
+        <p className="text-muted-foreground">Signing in...</p>
+      )}
+    </div>
+  );
+}
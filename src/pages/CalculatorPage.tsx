@@ -2,7 +2,7 @@ import { useState, lazy, Suspense } from "react";
 import { useParams, useNavigate, useSearchParams, Link } from "react-router-dom";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import type { Calculation, ValueItem, UseCase } from "../types/roi";
+import type { Calculation, ValueItem, UseCase, CustomArchetypeDefinition } from "../types/roi";
 import { Button } from "@/components/ui/button";
 import { DebouncedInput } from "@/components/ui/debounced-input";
 import { AssumptionsTab } from "../components/AssumptionsTab";
@@ -10,6 +10,11 @@ import { ValueItemsTab } from "../components/ValueItemsTab";
 import { UseCasesTab } from "../components/UseCasesTab";
 import { ExecutiveSummary } from "../components/ExecutiveSummary";
 import { MethodologyLedgerTab } from "../components/MethodologyLedgerTab";
+import { SensitivityTab } from "../components/SensitivityTab";
+import { HistoryTab } from "../components/HistoryTab";
+import { SnapshotsTab } from "../components/SnapshotsTab";
+import { ShareLinksTab } from "../components/ShareLinksTab";
+import { hasRole } from "../utils/access";
 
 // Lazy load heavier view components
 const SlideView = lazy(() => import("../components/SlideView").then(m => ({ default: m.SlideView })));
@@ -20,7 +25,18 @@ interface CalculatorPageProps {
   obfuscated?: boolean;
 }
 
-type TabId = "assumptions" | "values" | "usecases" | "summary" | "dashboard" | "detail" | "methodology";
+type TabId =
+  | "assumptions"
+  | "values"
+  | "usecases"
+  | "summary"
+  | "dashboard"
+  | "detail"
+  | "methodology"
+  | "sensitivity"
+  | "history"
+  | "snapshots"
+  | "sharing";
 
 export function CalculatorPage({ summaryOnly = false, obfuscated = false }: CalculatorPageProps) {
   const { id: shortId } = useParams<{ id: string }>();
@@ -36,7 +52,7 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
   // Override active tab from URL param
   const effectiveTab =
     tabParam &&
-    ["assumptions", "values", "usecases", "summary", "dashboard", "detail", "methodology"].includes(tabParam)
+    ["assumptions", "values", "usecases", "summary", "dashboard", "detail", "methodology", "sensitivity", "history", "snapshots", "sharing"].includes(tabParam)
       ? (tabParam as TabId)
       : activeTab;
 
@@ -56,6 +72,14 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
     api.companies.getById,
     calculation?.companyId ? { id: calculation.companyId } : "skip"
   );
+  const customArchetypes = useQuery(
+    api.customArchetypes.listByCompany,
+    calculation?.companyId ? { companyId: calculation.companyId } : "skip"
+  );
+  const role = useQuery(
+    api.members.roleForCalculation,
+    calculation ? { calculationId: calculation._id } : "skip"
+  );
   const updateName = useMutation(api.calculations.updateName);
 
   if (!shortId) {
@@ -83,6 +107,9 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
     );
   }
 
+  // Viewers get the same pages with editing turned off; the server enforces it either way
+  const readOnly = summaryOnly || !hasRole(role, "editor");
+
   const typedCalculation = calculation as unknown as Calculation;
   const typedValueItems = valueItems as unknown as ValueItem[];
   const typedUseCases = (useCases ?? []) as unknown as UseCase[];
@@ -100,11 +127,15 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
     : [
         { id: "summary", label: "Summary" },
         { id: "methodology", label: "Methodology" },
+        { id: "sensitivity", label: "Sensitivity" },
         { id: "usecases", label: "Use Cases" },
         { id: "dashboard", label: "Dashboard" },
         { id: "detail", label: "Detail View" },
         { id: "values", label: "Value Items" },
         { id: "assumptions", label: "Inputs" },
+        { id: "history", label: "History" },
+        { id: "snapshots", label: "Snapshots" },
+        { id: "sharing", label: "Sharing" },
       ];
 
   const displayName = isObfuscated
@@ -135,7 +166,7 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
                     <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" />
                   </svg>
                 </div>
-                {isEditingName && !summaryOnly ? (
+                {isEditingName && !readOnly ? (
                   <div onBlur={() => setIsEditingName(false)}>
                     <DebouncedInput
                       value={calculation.name}
@@ -159,9 +190,9 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
                   </div>
                 ) : (
                   <h1
-                    className={`text-xl font-semibold ${summaryOnly ? "" : "cursor-pointer hover:text-[#FF4A00] transition-colors"}`}
-                    onClick={summaryOnly ? undefined : handleStartEditName}
-                    title={summaryOnly ? undefined : "Click to edit name"}
+                    className={`text-xl font-semibold ${readOnly ? "" : "cursor-pointer hover:text-[#FF4A00] transition-colors"}`}
+                    onClick={readOnly ? undefined : handleStartEditName}
+                    title={readOnly ? undefined : "Click to edit name"}
                   >
                     {displayName}
                   </h1>
@@ -205,14 +236,16 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
             calculation={typedCalculation}
             valueItems={typedValueItems}
             useCases={typedUseCases}
-            readOnly={summaryOnly}
+            company={company}
+            readOnly={readOnly}
           />
         )}
         {effectiveTab === "values" && (
           <ValueItemsTab
             calculation={typedCalculation}
             valueItems={typedValueItems}
-            readOnly={summaryOnly}
+            customArchetypes={customArchetypes as unknown as CustomArchetypeDefinition[] | undefined}
+            readOnly={readOnly}
           />
         )}
         {effectiveTab === "usecases" && (
@@ -220,7 +253,7 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
             calculation={typedCalculation}
             valueItems={typedValueItems}
             useCases={typedUseCases}
-            readOnly={summaryOnly}
+            readOnly={readOnly}
           />
         )}
         {effectiveTab === "summary" && (
@@ -228,12 +261,34 @@ export function CalculatorPage({ summaryOnly = false, obfuscated = false }: Calc
             calculation={typedCalculation}
             valueItems={typedValueItems}
             useCases={typedUseCases}
-            readOnly={summaryOnly}
+            readOnly={readOnly}
             obfuscated={isObfuscated}
           />
         )}
         {effectiveTab === "methodology" && (
-          <MethodologyLedgerTab calculation={typedCalculation} valueItems={typedValueItems} />
+          <MethodologyLedgerTab calculation={typedCalculation} valueItems={typedValueItems} useCases={typedUseCases} />
+        )}
+        {effectiveTab === "sensitivity" && (
+          <SensitivityTab calculation={typedCalculation} valueItems={typedValueItems} />
+        )}
+        {effectiveTab === "history" && !summaryOnly && (
+          <HistoryTab
+            calculation={typedCalculation}
+            valueItems={typedValueItems}
+            useCases={typedUseCases}
+            readOnly={readOnly}
+          />
+        )}
+        {effectiveTab === "snapshots" && !summaryOnly && (
+          <SnapshotsTab
+            calculation={typedCalculation}
+            valueItems={typedValueItems}
+            useCases={typedUseCases}
+            readOnly={readOnly}
+          />
+        )}
+        {effectiveTab === "sharing" && !summaryOnly && (
+          <ShareLinksTab calculation={typedCalculation} readOnly={readOnly} />
         )}
         {effectiveTab === "dashboard" && (
           <Suspense fallback={loadingFallback}>
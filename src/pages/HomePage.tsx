@@ -13,14 +13,19 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { formatRelativeTime } from "../utils/formatting";
+import { useAuthActions } from "../lib/auth";
 
 const NewCalculatorWizard = lazy(() => import("../components/NewCalculatorWizard").then(m => ({ default: m.NewCalculatorWizard })));
+const SpreadsheetImport = lazy(() => import("../components/SpreadsheetImport").then(m => ({ default: m.SpreadsheetImport })));
 
 export function HomePage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [showWizard, setShowWizard] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const calculations = useQuery(api.calculations.list);
   const companies = useQuery(api.companies.list);
+  const me = useQuery(api.members.me);
+  const { signOut } = useAuthActions();
   const deleteCalculation = useMutation(api.calculations.remove);
   const deleteCompany = useMutation(api.companies.remove);
   const navigate = useNavigate();
@@ -78,6 +83,17 @@ export function HomePage() {
     );
   }
 
+  if (showImport) {
+    return (
+      <Suspense fallback={<div className="min-h-screen flex items-center justify-center"><p className="text-muted-foreground">Loading importer...</p></div>}>
+        <SpreadsheetImport
+          onComplete={(shortId) => navigate(`/c/${shortId}`)}
+          onCancel={() => setShowImport(false)}
+        />
+      </Suspense>
+    );
+  }
+
   const hasContent = (calculations && calculations.length > 0) || (companies && companies.length > 0);
 
   return (
@@ -100,9 +116,20 @@ export function HomePage() {
             >
               Methodology & Sources
             </Link>
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              Import Spreadsheet
+            </Button>
             <Button onClick={handleNewCalculation} className="bg-[#FF4A00] hover:bg-[#CC3B00] text-white">
               + New Value Assessment
             </Button>
+            {me && (
+              <div className="flex items-center gap-2 border-l pl-4">
+                <span className="text-sm text-muted-foreground">{me.email}</span>
+                <Button variant="ghost" size="sm" onClick={signOut}>
+                  Sign out
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -0,0 +1,52 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { PresentationView } from "../components/PresentationView";
+import { formatDate } from "../utils/formatting";
+import type { SnapshotFigures } from "../utils/snapshots";
+import type { Calculation, UseCase, ValueItem } from "../types/roi";
+
+/**
+ * Public view behind a share link. Needs no sign-in; the server has already
+ * applied the link's scope, so this page only renders what it's given.
+ */
+export function SharePage() {
+  const { token } = useParams<{ token: string }>();
+  const shared = useQuery(api.shareLinks.resolve, token ? { token } : "skip");
+
+  if (shared === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (shared === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">This link has expired or been revoked</p>
+      </div>
+    );
+  }
+
+  const calculation = shared.calculation as unknown as Calculation;
+  const badge = shared.snapshot
+    ? `${shared.snapshot.name} · as presented on ${formatDate(shared.snapshot.createdAt)}`
+    : shared.expiresAt
+      ? `Link expires ${formatDate(shared.expiresAt)}`
+      : undefined;
+
+  return (
+    <PresentationView
+      title={calculation.name}
+      badge={badge}
+      calculation={calculation}
+      valueItems={shared.valueItems as unknown as ValueItem[]}
+      useCases={shared.useCases as unknown as UseCase[]}
+      obfuscated={shared.obfuscated}
+      totals={shared.snapshot?.totals}
+      figures={shared.snapshot?.figures as SnapshotFigures | undefined}
+    />
+  );
+}
@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import { useParams } from "react-router-dom";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { PresentationView } from "../components/PresentationView";
+import { checkSnapshotTotals, getSnapshotDocuments, getSnapshotFigures, type Snapshot } from "../utils/snapshots";
+import { formatDate } from "../utils/formatting";
+
+interface SnapshotPageProps {
+  obfuscated?: boolean;
+}
+
+/**
+ * Read-only view of a snapshot for signed-in members. Everything renders from
+ * the frozen payload and its stored figures, so they match the day the snapshot
+ * was taken.
+ */
+export function SnapshotPage({ obfuscated = false }: SnapshotPageProps) {
+  const { id: shortId } = useParams<{ id: string }>();
+
+  const snapshot = useQuery(api.snapshots.getByShortId, shortId ? { shortId } : "skip") as
+    | Snapshot
+    | null
+    | undefined;
+
+  const documents = useMemo(() => (snapshot ? getSnapshotDocuments(snapshot.payload) : null), [snapshot]);
+  const totals = useMemo(() => (snapshot ? checkSnapshotTotals(snapshot.payload) : null), [snapshot]);
+  const figures = useMemo(() => (snapshot ? getSnapshotFigures(snapshot.payload) : null), [snapshot]);
+
+  if (snapshot === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (snapshot === null || !documents || !totals) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Snapshot not found</p>
+      </div>
+    );
+  }
+
+  const { calculation, valueItems, useCases } = documents;
+  const displayName = obfuscated
+    ? calculation.obfuscation?.companyDescriptor || "Enterprise Customer"
+    : calculation.name;
+
+  return (
+    <PresentationView
+      title={displayName}
+      badge={`${snapshot.name} · as presented on ${formatDate(snapshot.createdAt)}`}
+      calculation={calculation}
+      valueItems={valueItems}
+      useCases={useCases}
+      obfuscated={obfuscated}
+      totals={totals}
+      figures={figures}
+    />
+  );
+}
@@ -79,6 +79,32 @@ export const ARCHETYPE_DIMENSION: Record<Archetype, Dimension> = {
   process_consistency: "risk_quality",
 };
 
+// ============================================================
+// Custom archetypes (company-defined)
+// Keys are prefixed with "custom_" so they never collide with the 16 built-ins
+// ============================================================
+
+export type CustomArchetypeKey = `custom_${string}`;
+
+export interface CustomArchetypeField {
+  key: string; // Identifier used in the formula
+  label: string;
+  type: "number" | "percentage" | "currency" | "hours";
+  prompt?: string;
+  defaultValue?: number;
+  defaultConfidence?: ConfidenceTier;
+}
+
+export interface CustomArchetypeDefinition {
+  key: CustomArchetypeKey;
+  label: string;
+  description?: string;
+  dimension: Dimension;
+  fields: CustomArchetypeField[];
+  formula: string; // Arithmetic over field keys, e.g. "claimsPerMonth * minutesSaved / 60 * hourlyRate * 12"
+  traceTemplate?: string; // "{claimsPerMonth} claims/mo × ..." — falls back to the formula with values filled in
+}
+
 // ============================================================
 // Use Case types
 // ============================================================
@@ -146,6 +172,8 @@ export interface UseCase {
   description?: string;
   metrics?: UseCaseMetric[];
   architecture?: ArchitectureItem[];
+  goLiveMonth?: number; // 1-based projection month when linked value starts; unset = follows realizationRamp
+  rampMonths?: number; // Months from go-live to full value (0 = immediate)
   order: number;
   createdAt: number;
   updatedAt: number;
@@ -160,8 +188,9 @@ export interface ValueItem {
   _creationTime: number;
   calculationId: Id<"calculations">;
   shortId?: string;
-  archetype: Archetype;
+  archetype: Archetype | CustomArchetypeKey;
   dimension: Dimension; // Denormalized from archetype
+  customArchetype?: CustomArchetypeDefinition; // Denormalized company definition (custom archetypes only)
   name: string;
   description?: string;
   inputs: Record<string, ValueInput>; // Typed per archetype on frontend
@@ -178,6 +207,24 @@ export interface Assumptions {
   projectionYears: number;
   realizationRamp: number[];
   annualGrowthRate: number;
+  discountRate?: number; // Annual rate for NPV; older calculations fall back to DEFAULT_DISCOUNT_RATE
+  fteHoursPerMonth?: number; // Working hours per FTE per month; falls back to DEFAULT_FTE_HOURS_PER_MONTH
+}
+
+// Named scenario sets — each carries its own assumptions and optional
+// per-item input overrides layered on top of the stored value item inputs
+export type ScenarioId = "conservative" | "expected" | "aggressive";
+
+export interface ScenarioItemOverride {
+  valueItemId: string;
+  inputs: Record<string, number>; // input key → overriding value
+}
+
+export interface Scenario {
+  id: ScenarioId;
+  name: string;
+  assumptions: Assumptions;
+  itemOverrides?: ScenarioItemOverride[];
 }
 
 export interface ObfuscationSettings {
@@ -204,17 +251,114 @@ export interface Calculation {
   name: string;
   shortId: string;
   companyId?: Id<"companies">;
+  createdBy?: string; // Creator's email
   createdAt: number;
   updatedAt: number;
   obfuscation?: ObfuscationSettings;
   assumptions: Assumptions;
   currentSpend?: number;
   proposedSpend?: number;
+  implementationCost?: number; // One-time cost at go-live (year 0), separate from annual proposedSpend
   talkingPoints?: string[];
   role?: Role;
   priorityOrder?: Dimension[];
   /** Benchmark pack pinned at creation for reproducible defaults. */
   benchmarkPackId?: string;
+  scenarios?: Scenario[];
+  activeScenarioId?: ScenarioId;
+}
+
+// ============================================================
+// Calculation payload (POST /api/calculations body, spreadsheet import)
+// ============================================================
+
+export interface CalculationPayloadValueItem {
+  archetype: string;
+  name: string;
+  description?: string;
+  inputs?: Record<string, { value: number; confidence?: string; source?: string }>;
+  manualAnnualValue?: number;
+}
+
+export interface CalculationPayloadUseCase {
+  name: string;
+  department?: string;
+  status?: string;
+  implementationEffort?: string;
+  description?: string;
+  metrics?: UseCaseMetric[];
+  goLiveMonth?: number;
+  rampMonths?: number;
+  valueItemNames?: string[]; // Links value items created in the same payload by name
+}
+
+export interface CalculationPayload {
+  name: string;
+  companyId?: string;
+  companyShortId?: string;
+  role?: string;
+  priorityOrder?: string[];
+  currentSpend?: number;
+  proposedSpend?: number;
+  implementationCost?: number;
+  benchmarkPackId?: string;
+  assumptions?: Assumptions;
+  importUseCaseIds?: string[];
+  valueItems?: CalculationPayloadValueItem[];
+  useCases?: CalculationPayloadUseCase[];
+}
+
+// ============================================================
+// Calculation bundle (GET /api/calculations/:shortId/export)
+// Self-contained and versioned: ids are bundle-local and
+// remapped on import, so bundles move between deployments.
+// ============================================================
+
+export interface BundleValueItem {
+  id: string;
+  archetype: string;
+  name: string;
+  description?: string;
+  inputs: Record<string, { value: number; confidence?: string; source?: string }>;
+  manualAnnualValue?: number;
+  useCaseId?: string; // Bundle-local use case id
+}
+
+export interface BundleUseCase {
+  id: string;
+  name: string;
+  department?: string;
+  status: UseCaseStatus;
+  implementationEffort: ImplementationEffort;
+  description?: string;
+  metrics?: UseCaseMetric[];
+  architecture?: ArchitectureItem[];
+  goLiveMonth?: number;
+  rampMonths?: number;
+}
+
+export interface CalculationBundle {
+  bundleVersion: number;
+  schemaVersion: string; // ROI_SCHEMA_VERSION at export
+  exportedAt: string; // ISO timestamp
+  source?: { shortId: string };
+  calculation: {
+    name: string;
+    role?: string;
+    priorityOrder?: string[];
+    currentSpend?: number;
+    proposedSpend?: number;
+    implementationCost?: number;
+    benchmarkPackId?: string;
+    assumptions: Assumptions;
+    talkingPoints?: string[];
+    obfuscation?: ObfuscationSettings;
+    scenarios?: Scenario[]; // itemOverrides reference bundle-local value item ids
+    activeScenarioId?: ScenarioId;
+  };
+  customArchetypes?: CustomArchetypeDefinition[];
+  useCases: BundleUseCase[];
+  valueItems: BundleValueItem[];
 }
 
 // ============================================================
@@ -246,6 +390,40 @@ export interface YearProjection {
   cumulativeNetValue: number;
 }
 
+export interface MonthProjection {
+  month: number; // 1-based across the whole projection
+  year: number;
+  value: number;
+  investment: number;
+  netValue: number;
+  cumulativeValue: number;
+  cumulativeInvestment: number;
+  cumulativeNetValue: number;
+}
+
+/** One calculator's figures within a company aggregate */
+export interface CalculatorAggregate {
+  shortId: string;
+  name: string;
+  role?: string;
+  totalAnnualValue: number;
+  roiMultiple: number | null;
+  hoursSavedPerMonth: number;
+  proposedSpend?: number;
+  valueItemCount: number;
+  updatedAt: number;
+  primaryDimension: Dimension | null; // Dimension with the most value, null when there is none
+}
+
+export interface CompanyAggregate {
+  totalAnnualValue: number; // Items shared between calculators count once
+  totalROI: number | null;
+  totalHoursSavedPerMonth: number;
+  calculatorCount: number;
+  dimensionTotals: DimensionTotal[];
+  calculators: CalculatorAggregate[];
+}
+
 export interface CalculationSummary {
   totalAnnualValue: number;
   dimensionTotals: DimensionTotal[];
@@ -253,6 +431,10 @@ export interface CalculationSummary {
   hoursSavedPerMonth: number;
   fteEquivalent: number;
   projection: YearProjection[];
+  monthlyProjection: MonthProjection[];
+  npv: number; // Discounted net cash flows incl. implementation cost at year 0
+  irr: number | null; // null when cash flows never change sign
+  paybackMonth: number | null; // null when not paid back within the projection
 }
 
 // ============================================================
@@ -463,9 +645,38 @@ export const IMPLEMENTATION_EFFORT_INFO: Record<
   },
 };
 
+// Scenario display metadata
+export const SCENARIO_INFO: Record<
+  ScenarioId,
+  { label: string; description: string; color: string }
+> = {
+  conservative: {
+    label: "Conservative",
+    description: "Slower adoption and lower growth — the downside case for finance review",
+    color: "#6B7280",
+  },
+  expected: {
+    label: "Expected",
+    description: "The base case — matches the calculator's own assumptions and inputs",
+    color: "#FF4A00",
+  },
+  aggressive: {
+    label: "Aggressive",
+    description: "Faster adoption and higher growth — the upside case",
+    color: "#059669",
+  },
+};
+
+export const SCENARIO_ORDER: ScenarioId[] = ["conservative", "expected", "aggressive"];
+
 // Default assumptions for new calculations
+export const DEFAULT_DISCOUNT_RATE = 0.1;
+export const DEFAULT_FTE_HOURS_PER_MONTH = 160; // 40 hrs/week × 4 weeks
+
 export const DEFAULT_ASSUMPTIONS: Assumptions = {
   projectionYears: 3,
   realizationRamp: [0.5, 1, 1],
   annualGrowthRate: 0.1,
+  discountRate: DEFAULT_DISCOUNT_RATE,
+  fteHoursPerMonth: DEFAULT_FTE_HOURS_PER_MONTH,
 };
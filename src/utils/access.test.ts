@@ -0,0 +1,110 @@
+import { test, expect, describe } from "bun:test";
+import {
+  checkOwnerChange,
+  generateShareToken,
+  hasRole,
+  isShareLinkActive,
+  parseAdminEmails,
+  redactForShare,
+  type SharedDocuments,
+} from "./access";
+import { DEFAULT_ASSUMPTIONS, type Calculation, type UseCase, type ValueItem } from "../types/roi";
+
+describe("hasRole", () => {
+  test("higher roles include lower ones", () => {
+    expect(hasRole("owner", "editor")).toBe(true);
+    expect(hasRole("editor", "editor")).toBe(true);
+    expect(hasRole("viewer", "editor")).toBe(false);
+  });
+
+  test("no role grants nothing", () => {
+    expect(hasRole(null, "viewer")).toBe(false);
+    expect(hasRole(undefined, "viewer")).toBe(false);
+  });
+});
+
+describe("parseAdminEmails", () => {
+  test("splits, trims and lowercases", () => {
+    expect(parseAdminEmails(" Ana@Example.com,,bo@example.com ")).toEqual(["ana@example.com", "bo@example.com"]);
+  });
+
+  test("unset means no admins", () => {
+    expect(parseAdminEmails(undefined)).toEqual([]);
+  });
+});
+
+describe("checkOwnerChange", () => {
+  const members = [
+    { email: "ana@example.com", role: "owner" as const },
+    { email: "bo@example.com", role: "editor" as const },
+  ];
+
+  test("blocks demoting or removing the last owner", () => {
+    expect(checkOwnerChange(members, "Ana@example.com", "editor")).toBe("A company needs at least one owner");
+    expect(checkOwnerChange(members, "ana@example.com", null)).toBe("A company needs at least one owner");
+  });
+
+  test("allows changes once there is another owner", () => {
+    const twoOwners = [...members, { email: "cy@example.com", role: "owner" as const }];
+    expect(checkOwnerChange(twoOwners, "ana@example.com", null)).toBeNull();
+  });
+
+  test("ignores non-owners", () => {
+    expect(checkOwnerChange(members, "bo@example.com", null)).toBeNull();
+  });
+});
+
+describe("generateShareToken", () => {
+  test("is alphanumeric, the requested length and not repeated", () => {
+    const tokens = new Set(Array.from({ length: 50 }, () => generateShareToken()));
+    expect(tokens.size).toBe(50);
+    for (const token of tokens) expect(token).toMatch(/^[A-Za-z0-9]{32}$/);
+    expect(generateShareToken(8)).toHaveLength(8);
+  });
+});
+
+describe("isShareLinkActive", () => {
+  test("revoked and expired links stop working", () => {
+    expect(isShareLinkActive({}, 1000)).toBe(true);
+    expect(isShareLinkActive({ expiresAt: 2000 }, 1000)).toBe(true);
+    expect(isShareLinkActive({ expiresAt: 1000 }, 1000)).toBe(false);
+    expect(isShareLinkActive({ revokedAt: 500, expiresAt: 2000 }, 1000)).toBe(false);
+  });
+});
+
+describe("redactForShare", () => {
+  const docs: SharedDocuments = {
+    calculation: {
+      _id: "calc1",
+      name: "Acme Corp",
+      shortId: "abc123",
+      assumptions: DEFAULT_ASSUMPTIONS,
+      talkingPoints: ["Renewal is in March"],
+      obfuscation: { companyDescriptor: "A Fortune 500 retailer", hideNotes: true },
+      createdBy: "ana@example.com",
+      createdAt: 1,
+      updatedAt: 1,
+    } as unknown as Calculation,
+    valueItems: [{ _id: "a", name: "Invoices", description: "From the AP team call" } as unknown as ValueItem],
+    useCases: [
+      { _id: "u1", name: "Invoice triage", department: "Finance", description: "Pilot" } as unknown as UseCase,
+      { _id: "u2", name: "Lead routing", department: "Sales" } as unknown as UseCase,
+    ],
+  };
+
+  test("full scope keeps the content but not who created it", () => {
+    const shared = redactForShare(docs, false);
+    expect(shared.calculation.name).toBe("Acme Corp");
+    expect(shared.calculation.talkingPoints).toEqual(["Renewal is in March"]);
+    expect("createdBy" in shared.calculation).toBe(false);
+  });
+
+  test("anonymized scope applies the calculator's obfuscation settings", () => {
+    const shared = redactForShare(docs, true);
+    expect(shared.calculation.name).toBe("A Fortune 500 retailer");
+    expect(shared.calculation.talkingPoints).toEqual([]);
+    expect(shared.valueItems[0]!.description).toBeUndefined();
+    expect(shared.useCases.map((uc) => uc.department)).toEqual(["Department A", "Department B"]);
+    expect(JSON.stringify(shared)).not.toContain("Acme");
+  });
+});
@@ -0,0 +1,115 @@
+// ============================================================
+// Access control — company roles, sign-in identities and share
+// link tokens. Enforcement lives in convex/access.ts; the rules
+// are here so the UI and tests share them.
+// ============================================================
+
+import type { Calculation, UseCase, ValueItem } from "../types/roi";
+
+export type MemberRole = "viewer" | "editor" | "owner";
+
+export const MEMBER_ROLES: MemberRole[] = ["viewer", "editor", "owner"];
+
+export const MEMBER_ROLE_INFO: Record<MemberRole, { label: string; description: string }> = {
+  viewer: { label: "Viewer", description: "Sees the company's calculators, snapshots and history" },
+  editor: { label: "Editor", description: "Also edits calculators, use cases, archetypes and share links" },
+  owner: { label: "Owner", description: "Also manages members and deletes the company" },
+};
+
+/** Whether `role` includes everything `required` may do */
+export function hasRole(role: MemberRole | null | undefined, required: MemberRole): boolean {
+  if (!role) return false;
+  return MEMBER_ROLES.indexOf(role) >= MEMBER_ROLES.indexOf(required);
+}
+
+/** Emails are matched case-insensitively and without surrounding spaces */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Basic shape check for invitations; the identity provider is the real authority */
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+/** ADMIN_EMAILS env var: comma-separated addresses with access to every company */
+export function parseAdminEmails(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+}
+
+/**
+ * The last owner can't leave or be demoted, or nobody could manage the
+ * company's members any more. Returns the reason, or null when allowed.
+ */
+export function checkOwnerChange(
+  members: Array<{ email: string; role: MemberRole }>,
+  email: string,
+  nextRole: MemberRole | null
+): string | null {
+  const target = members.find((m) => m.email === normalizeEmail(email));
+  if (!target || target.role !== "owner" || nextRole === "owner") return null;
+  const owners = members.filter((m) => m.role === "owner").length;
+  return owners <= 1 ? "A company needs at least one owner" : null;
+}
+
+// ============================================================
+// Share links
+// ============================================================
+
+const TOKEN_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/** Unguessable share link token (32 chars, ~190 bits) */
+export function generateShareToken(length = 32): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  let token = "";
+  // 248 is the largest multiple of 62 below 256: rejecting above it keeps every character equally likely
+  for (const byte of bytes) {
+    if (byte < 248) token += TOKEN_CHARS.charAt(byte % TOKEN_CHARS.length);
+  }
+  return token.length >= length ? token : token + generateShareToken(length - token.length);
+}
+
+export interface ShareLinkState {
+  revokedAt?: number;
+  expiresAt?: number;
+}
+
+export function isShareLinkActive(link: ShareLinkState, now = Date.now()): boolean {
+  if (link.revokedAt !== undefined) return false;
+  return link.expiresAt === undefined || link.expiresAt > now;
+}
+
+export interface SharedDocuments {
+  calculation: Calculation;
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+}
+
+/**
+ * What a share link hands out. Drops who created the calculator; with the
+ * anonymized scope, applies the calculator's obfuscation settings here rather
+ * than in the browser, so hidden names and notes never leave the server.
+ */
+export function redactForShare(docs: SharedDocuments, obfuscated: boolean): SharedDocuments {
+  const { createdBy: _createdBy, ...calculation } = docs.calculation;
+  if (!obfuscated) return { ...docs, calculation };
+
+  const settings = calculation.obfuscation ?? {};
+  const hideNotes = settings.hideNotes ?? false;
+  return {
+    calculation: {
+      ...calculation,
+      name: settings.companyDescriptor || "Enterprise Customer",
+      talkingPoints: hideNotes ? [] : calculation.talkingPoints,
+    },
+    valueItems: docs.valueItems.map((vi) => ({ ...vi, description: hideNotes ? undefined : vi.description })),
+    useCases: docs.useCases.map((uc, i) => ({
+      ...uc,
+      description: hideNotes ? undefined : uc.description,
+      department: hideNotes ? `Department ${String.fromCharCode(65 + i)}` : uc.department,
+    })),
+  };
+}
@@ -0,0 +1,50 @@
+import { test, expect, describe } from "bun:test";
+import { RATE_LIMIT_WINDOW_MS, apiKeyHint, checkRateLimit, generateApiKey, hashApiKey } from "./apiKeys";
+
+describe("generateApiKey", () => {
+  test("is prefixed and long enough to be unguessable", () => {
+    const key = generateApiKey();
+    expect(key).toMatch(/^zvk_[A-Za-z0-9]{40}$/);
+    expect(generateApiKey()).not.toBe(key);
+  });
+
+  test("the hint shows only the start of the key", () => {
+    expect(apiKeyHint("zvk_a1B2c3d4e5f6")).toBe("zvk_a1B2c3");
+  });
+});
+
+describe("hashApiKey", () => {
+  test("is hex SHA-256", async () => {
+    expect(await hashApiKey("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("checkRateLimit", () => {
+  const start = 1_000_000;
+
+  test("the first request opens a window", () => {
+    expect(checkRateLimit(undefined, 2, start)).toEqual({
+      allowed: true,
+      window: { windowStart: start, windowCount: 1 },
+    });
+  });
+
+  test("counts requests within the window and refuses past the limit", () => {
+    expect(checkRateLimit({ windowStart: start, windowCount: 1 }, 2, start + 10)).toEqual({
+      allowed: true,
+      window: { windowStart: start, windowCount: 2 },
+    });
+    expect(checkRateLimit({ windowStart: start, windowCount: 2 }, 2, start + 10_500)).toEqual({
+      allowed: false,
+      retryAfterSeconds: 50,
+    });
+  });
+
+  test("starts over once the window has passed", () => {
+    const later = start + RATE_LIMIT_WINDOW_MS;
+    expect(checkRateLimit({ windowStart: start, windowCount: 2 }, 2, later)).toEqual({
+      allowed: true,
+      window: { windowStart: later, windowCount: 1 },
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// ============================================================
+// API keys — credentials for scripts and partner tools calling
+// the REST API. Each key belongs to one company and carries one
+// scope. Only a SHA-256 hash of the key is stored.
+// ============================================================
+
+import { generateShareToken, type MemberRole } from "./access";
+
+export type ApiKeyScope = "read" | "value_items:write" | "admin";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["read", "value_items:write", "admin"];
+
+export const API_KEY_SCOPE_INFO: Record<ApiKeyScope, { label: string; description: string }> = {
+  read: { label: "Read only", description: "Reads the company's calculators, value items and use cases" },
+  "value_items:write": {
+    label: "Write value items",
+    description: "Also creates, updates and deletes value items; nothing else changes",
+  },
+  admin: { label: "Admin", description: "Everything an owner of the company can do" },
+};
+
+/** The role a key acts with. value_items:write keys act as editors for value items only (convex/access.ts). */
+export const API_KEY_SCOPE_ROLE: Record<ApiKeyScope, MemberRole> = {
+  read: "viewer",
+  "value_items:write": "viewer",
+  admin: "owner",
+};
+
+export const API_KEY_PREFIX = "zvk_";
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+export const MAX_RATE_LIMIT_PER_MINUTE = 1000;
+
+/** A new key: `zvk_` plus 40 random characters. Shown to its creator once. */
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + generateShareToken(40);
+}
+
+/** First characters of a key, stored in the clear so people can tell keys apart */
+export function apiKeyHint(key: string): string {
+  return key.slice(0, API_KEY_PREFIX.length + 6);
+}
+
+/** How long a request's grant stays valid; longer than any request takes */
+export const API_KEY_GRANT_TTL_MS = 10 * 60 * 1000;
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ============================================================
+// Rate limiting — a fixed one-minute window per key
+// ============================================================
+
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface RateLimitWindow {
+  windowStart: number;
+  windowCount: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; window: RateLimitWindow }
+  | { allowed: false; retryAfterSeconds: number };
+
+/** Count one request against the key's window, starting a new window once the last has passed */
+export function checkRateLimit(
+  current: RateLimitWindow | undefined,
+  limitPerMinute: number,
+  now: number
+): RateLimitResult {
+  if (!current || now - current.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    return { allowed: true, window: { windowStart: now, windowCount: 1 } };
+  }
+  if (current.windowCount >= limitPerMinute) {
+    const retryAfterMs = current.windowStart + RATE_LIMIT_WINDOW_MS - now;
+    return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+  }
+  return { allowed: true, window: { ...current, windowCount: current.windowCount + 1 } };
+}
@@ -0,0 +1,188 @@
+import { test, expect, describe } from "bun:test";
+import {
+  BundleError,
+  CALCULATION_BUNDLE_VERSION,
+  buildCalculationBundle,
+  bundleFileName,
+  upgradeCalculationBundle,
+} from "./bundle";
+import { DEFAULT_ASSUMPTIONS, type Calculation, type UseCase, type ValueItem } from "../types/roi";
+
+const EATON = new URL("../../migrations/eaton-v2.json", import.meta.url);
+
+const calculation = {
+  _id: "calc1",
+  _creationTime: 0,
+  name: "Acme ROI",
+  shortId: "abc123",
+  companyId: "company1",
+  createdAt: 0,
+  updatedAt: 0,
+  assumptions: DEFAULT_ASSUMPTIONS,
+  proposedSpend: 50000,
+  talkingPoints: ["Invoices are keyed twice"],
+  scenarios: [
+    {
+      id: "expected",
+      name: "Expected",
+      assumptions: DEFAULT_ASSUMPTIONS,
+      itemOverrides: [{ valueItemId: "vi1", inputs: { tasksPerMonth: 120 } }],
+    },
+  ],
+  activeScenarioId: "expected",
+} as unknown as Calculation;
+
+const useCases = [
+  {
+    _id: "uc1",
+    _creationTime: 0,
+    calculationId: "calc1",
+    name: "Invoice processing",
+    status: "deployed",
+    implementationEffort: "low",
+    architecture: [{ type: "zap", name: "Invoice Zap", zapId: "123" }],
+    goLiveMonth: 3,
+    order: 0,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+] as unknown as UseCase[];
+
+const claimsArchetype = {
+  key: "custom_claims",
+  label: "Claims",
+  dimension: "cost_savings",
+  fields: [{ key: "claims", label: "Claims", type: "number" }],
+  formula: "claims * 10",
+};
+
+const valueItems = [
+  {
+    _id: "vi2",
+    _creationTime: 0,
+    calculationId: "calc1",
+    archetype: "custom_claims",
+    dimension: "cost_savings",
+    customArchetype: claimsArchetype,
+    name: "Claims triage",
+    inputs: { claims: { value: 40, confidence: "A" } },
+    order: 1,
+  },
+  {
+    _id: "vi1",
+    _creationTime: 0,
+    calculationId: "calc1",
+    archetype: "task_elimination",
+    dimension: "time_savings",
+    name: "Invoice entry",
+    inputs: { tasksPerMonth: { value: 100, confidence: "A" } },
+    useCaseId: "uc1",
+    order: 0,
+  },
+  {
+    _id: "vi3",
+    _creationTime: 0,
+    calculationId: "calc1",
+    archetype: "task_elimination",
+    dimension: "time_savings",
+    name: "Shared item",
+    inputs: {},
+    useCaseId: "uc-elsewhere",
+    order: 2,
+  },
+] as unknown as ValueItem[];
+
+describe("buildCalculationBundle", () => {
+  const bundle = buildCalculationBundle(calculation, valueItems, useCases, new Date("2026-05-01T00:00:00Z"));
+
+  test("stamps versions and source", () => {
+    expect(bundle.bundleVersion).toBe(CALCULATION_BUNDLE_VERSION);
+    expect(bundle.exportedAt).toBe("2026-05-01T00:00:00.000Z");
+    expect(bundle.source).toEqual({ shortId: "abc123" });
+  });
+
+  test("keeps calculation settings without deployment ids", () => {
+    expect(bundle.calculation.name).toBe("Acme ROI");
+    expect(bundle.calculation.talkingPoints).toEqual(["Invoices are keyed twice"]);
+    expect(bundle.calculation.scenarios?.[0]?.itemOverrides?.[0]?.valueItemId).toBe("vi1");
+    expect(bundle.calculation).not.toHaveProperty("companyId");
+    expect(bundle.calculation).not.toHaveProperty("shortId");
+  });
+
+  test("orders items and keeps use case links inside the bundle", () => {
+    expect(bundle.valueItems.map((i) => i.id)).toEqual(["vi1", "vi2", "vi3"]);
+    expect(bundle.valueItems[0]!.useCaseId).toBe("uc1");
+    expect(bundle.valueItems[2]).not.toHaveProperty("useCaseId");
+    expect(bundle.useCases[0]!.architecture).toEqual([{ type: "zap", name: "Invoice Zap", zapId: "123" }] as any);
+  });
+
+  test("carries custom archetype definitions once", () => {
+    expect(bundle.customArchetypes).toEqual([claimsArchetype] as any);
+  });
+
+  test("round-trips through upgrade unchanged", () => {
+    const parsed = JSON.parse(JSON.stringify(bundle));
+    expect(upgradeCalculationBundle(parsed)).toEqual(bundle);
+  });
+});
+
+describe("upgradeCalculationBundle", () => {
+  test("upgrades the version 1 migration format", async () => {
+    const legacy = await Bun.file(EATON).json();
+    const bundle = upgradeCalculationBundle(legacy);
+
+    expect(bundle.bundleVersion).toBe(CALCULATION_BUNDLE_VERSION);
+    expect(bundle.calculation.name).toBe("Eaton Group");
+    expect(bundle.calculation.proposedSpend).toBe(70000);
+    expect(bundle.calculation.assumptions).toEqual(DEFAULT_ASSUMPTIONS);
+    expect(bundle.valueItems).toHaveLength(legacy.valueItems.length);
+    expect(bundle.useCases).toHaveLength(legacy.useCases.length);
+    expect(bundle.valueItems[0]!.id).toBe("item-1");
+
+    // Old confidence names become tiers
+    expect(bundle.valueItems[0]!.inputs.tasksPerMonth!.confidence).toBe("A");
+
+    // valueItemNames become bundle-local links
+    const first = legacy.useCases[0];
+    const linked = bundle.valueItems.find((i) => i.name === first.valueItemNames[0]);
+    expect(linked?.useCaseId).toBe(bundle.useCases[0]!.id);
+    expect(bundle.useCases[0]).not.toHaveProperty("valueItemNames");
+  });
+
+  test("defaults missing use case status and effort", () => {
+    const bundle = upgradeCalculationBundle({ name: "Legacy", useCases: [{ name: "Onboarding" }] });
+    expect(bundle.useCases[0]).toMatchObject({ status: "identified", implementationEffort: "medium" });
+  });
+
+  test("rejects bundles from a newer version", () => {
+    expect(() => upgradeCalculationBundle({ bundleVersion: 99, calculation: { name: "x" } })).toThrow(BundleError);
+  });
+
+  test("rejects malformed bundles", () => {
+    expect(() => upgradeCalculationBundle([])).toThrow("JSON object");
+    expect(() => upgradeCalculationBundle({ bundleVersion: 2, useCases: [], valueItems: [] })).toThrow("calculation");
+    expect(() =>
+      upgradeCalculationBundle({
+        bundleVersion: 2,
+        calculation: { name: "x" },
+        useCases: [],
+        valueItems: [{ id: "a", name: "A", archetype: "custom_missing", inputs: {} }],
+      })
+    ).toThrow('unknown archetype "custom_missing"');
+    expect(() =>
+      upgradeCalculationBundle({
+        bundleVersion: 2,
+        calculation: { name: "x" },
+        useCases: [],
+        valueItems: [{ id: "a", name: "A", archetype: "task_elimination", inputs: {}, useCaseId: "nope" }],
+      })
+    ).toThrow("not a use case in this bundle");
+  });
+});
+
+describe("bundleFileName", () => {
+  test("slugs the calculation name", () => {
+    expect(bundleFileName("Acme Corp — Q3 ROI")).toBe("acme-corp-q3-roi.roi.json");
+    expect(bundleFileName("!!!")).toBe("calculation.roi.json");
+  });
+});
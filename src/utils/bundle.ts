@@ -0,0 +1,228 @@
+// ============================================================
+// Calculation bundles — a versioned, self-contained copy of a
+// calculator (GET /api/calculations/:shortId/export) that
+// POST /api/calculations/import recreates with fresh ids.
+//
+// Bundle versions:
+//   1 — the hand-written migrations/*.json format: no ids, use
+//       cases link value items by name, old confidence names
+//   2 — bundle-local ids, architecture, talking points,
+//       scenarios and custom archetype definitions
+// ============================================================
+
+import { ROI_SCHEMA_VERSION } from "../data/schemaResponse";
+import {
+  ARCHETYPE_DIMENSION,
+  DEFAULT_ASSUMPTIONS,
+  normalizeConfidence,
+  type BundleUseCase,
+  type BundleValueItem,
+  type Calculation,
+  type CalculationBundle,
+  type CustomArchetypeDefinition,
+  type ImplementationEffort,
+  type UseCase,
+  type UseCaseStatus,
+  type ValueItem,
+} from "../types/roi";
+import { isCustomArchetype } from "./customArchetypes";
+
+export const CALCULATION_BUNDLE_VERSION = 2;
+
+/** A bundle that can't be read or upgraded */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const USE_CASE_STATUSES: UseCaseStatus[] = ["identified", "in_progress", "deployed", "future"];
+const IMPLEMENTATION_EFFORTS: ImplementationEffort[] = ["low", "medium", "high"];
+
+// ============================================================
+// Export
+// ============================================================
+
+/**
+ * Build a bundle from stored records. Document ids become bundle-local ids;
+ * custom archetype definitions come from the copies denormalized onto items.
+ */
+export function buildCalculationBundle(
+  calculation: Calculation,
+  valueItems: ValueItem[],
+  useCases: UseCase[],
+  exportedAt = new Date()
+): CalculationBundle {
+  const useCaseIds = new Set<string>(useCases.map((uc) => uc._id));
+  const customArchetypes = new Map<string, CustomArchetypeDefinition>();
+  for (const item of valueItems) {
+    if (item.customArchetype && !customArchetypes.has(item.customArchetype.key)) {
+      customArchetypes.set(item.customArchetype.key, item.customArchetype);
+    }
+  }
+
+  return {
+    bundleVersion: CALCULATION_BUNDLE_VERSION,
+    schemaVersion: ROI_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    source: { shortId: calculation.shortId },
+    calculation: {
+      name: calculation.name,
+      ...(calculation.role && { role: calculation.role }),
+      ...(calculation.priorityOrder && { priorityOrder: calculation.priorityOrder }),
+      ...(calculation.currentSpend !== undefined && { currentSpend: calculation.currentSpend }),
+      ...(calculation.proposedSpend !== undefined && { proposedSpend: calculation.proposedSpend }),
+      ...(calculation.implementationCost !== undefined && { implementationCost: calculation.implementationCost }),
+      ...(calculation.benchmarkPackId && { benchmarkPackId: calculation.benchmarkPackId }),
+      assumptions: calculation.assumptions,
+      ...(calculation.talkingPoints && { talkingPoints: calculation.talkingPoints }),
+      ...(calculation.obfuscation && { obfuscation: calculation.obfuscation }),
+      ...(calculation.scenarios && { scenarios: calculation.scenarios }),
+      ...(calculation.activeScenarioId && { activeScenarioId: calculation.activeScenarioId }),
+    },
+    ...(customArchetypes.size > 0 && { customArchetypes: [...customArchetypes.values()] }),
+    useCases: [...useCases]
+      .sort((a, b) => a.order - b.order)
+      .map((uc) => ({
+        id: uc._id,
+        name: uc.name,
+        ...(uc.department && { department: uc.department }),
+        status: uc.status,
+        implementationEffort: uc.implementationEffort,
+        ...(uc.description && { description: uc.description }),
+        ...(uc.metrics && { metrics: uc.metrics }),
+        ...(uc.architecture && { architecture: uc.architecture }),
+        ...(uc.goLiveMonth !== undefined && { goLiveMonth: uc.goLiveMonth }),
+        ...(uc.rampMonths !== undefined && { rampMonths: uc.rampMonths }),
+      })),
+    valueItems: [...valueItems]
+      .sort((a, b) => a.order - b.order)
+      .map((item) => ({
+        id: item._id,
+        archetype: item.archetype,
+        name: item.name,
+        ...(item.description && { description: item.description }),
+        inputs: item.inputs,
+        ...(item.manualAnnualValue !== undefined && { manualAnnualValue: item.manualAnnualValue }),
+        // Links to use cases outside the bundle can't be restored
+        ...(item.useCaseId && useCaseIds.has(item.useCaseId) && { useCaseId: item.useCaseId }),
+      })),
+  };
+}
+
+/** File name for a downloaded bundle, e.g. "acme-roi.roi.json" */
+export function bundleFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "calculation"}.roi.json`;
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function arrayField(raw: Record<string, any>, key: string, where: string): any[] {
+  const value = raw[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new BundleError(`${where}.${key} must be an array`);
+  return value;
+}
+
+/** Version 1: the migrations/*.json format */
+function upgradeFromV1(raw: Record<string, any>): CalculationBundle {
+  const valueItems: BundleValueItem[] = arrayField(raw, "valueItems", "bundle").map((item, i) => ({
+    ...item,
+    id: `item-${i + 1}`,
+    inputs: Object.fromEntries(
+      Object.entries<any>(isRecord(item?.inputs) ? item.inputs : {}).map(([key, input]) => [
+        key,
+        { ...input, confidence: normalizeConfidence(String(input?.confidence ?? "")) },
+      ])
+    ),
+  }));
+
+  const useCases: BundleUseCase[] = [];
+  arrayField(raw, "useCases", "bundle").forEach((uc, i) => {
+    const { valueItemNames, ...rest } = isRecord(uc) ? uc : ({} as Record<string, any>);
+    const id = `usecase-${i + 1}`;
+    useCases.push({ ...rest, id } as BundleUseCase);
+    for (const itemName of Array.isArray(valueItemNames) ? valueItemNames : []) {
+      const item = valueItems.find((vi) => vi.name === itemName && !vi.useCaseId);
+      if (item) item.useCaseId = id;
+    }
+  });
+
+  const { valueItems: _items, useCases: _useCases, ...calculation } = raw;
+  return {
+    bundleVersion: CALCULATION_BUNDLE_VERSION,
+    schemaVersion: ROI_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    calculation: calculation as CalculationBundle["calculation"],
+    useCases,
+    valueItems,
+  };
+}
+
+function validateBundle(bundle: CalculationBundle): CalculationBundle {
+  if (!isRecord(bundle.calculation)) throw new BundleError("calculation is required");
+  if (!bundle.calculation.name || typeof bundle.calculation.name !== "string") {
+    throw new BundleError("calculation.name is required and must be a string");
+  }
+  bundle.calculation.assumptions ??= DEFAULT_ASSUMPTIONS;
+  if (!Array.isArray(bundle.useCases)) throw new BundleError("useCases must be an array");
+  if (!Array.isArray(bundle.valueItems)) throw new BundleError("valueItems must be an array");
+  if (bundle.customArchetypes !== undefined && !Array.isArray(bundle.customArchetypes)) {
+    throw new BundleError("customArchetypes must be an array");
+  }
+
+  const useCaseIds = new Set<string>();
+  bundle.useCases.forEach((uc, i) => {
+    if (!isRecord(uc) || !uc.name) throw new BundleError(`useCases[${i}].name is required`);
+    if (!uc.id || useCaseIds.has(uc.id)) throw new BundleError(`useCases[${i}].id must be present and unique`);
+    useCaseIds.add(uc.id);
+    uc.status = USE_CASE_STATUSES.includes(uc.status) ? uc.status : "identified";
+    uc.implementationEffort = IMPLEMENTATION_EFFORTS.includes(uc.implementationEffort)
+      ? uc.implementationEffort
+      : "medium";
+  });
+
+  const customKeys = new Set((bundle.customArchetypes ?? []).map((def) => def.key));
+  const itemIds = new Set<string>();
+  bundle.valueItems.forEach((item, i) => {
+    if (!isRecord(item) || !item.name) throw new BundleError(`valueItems[${i}].name is required`);
+    if (!item.id || itemIds.has(item.id)) throw new BundleError(`valueItems[${i}].id must be present and unique`);
+    itemIds.add(item.id);
+    const known = item.archetype in ARCHETYPE_DIMENSION || (isCustomArchetype(item.archetype) && customKeys.has(item.archetype));
+    if (!known) throw new BundleError(`valueItems[${i}] has unknown archetype "${item.archetype}"`);
+    if (item.useCaseId !== undefined && !useCaseIds.has(item.useCaseId)) {
+      throw new BundleError(`valueItems[${i}].useCaseId "${item.useCaseId}" is not a use case in this bundle`);
+    }
+    item.inputs = isRecord(item.inputs) ? item.inputs : {};
+  });
+  return bundle;
+}
+
+/**
+ * Read a bundle of any supported version and upgrade it to the current one.
+ * Bodies without a bundleVersion are the version 1 migration format.
+ */
+export function upgradeCalculationBundle(raw: unknown): CalculationBundle {
+  if (!isRecord(raw)) throw new BundleError("Bundle must be a JSON object");
+  const version = raw.bundleVersion ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new BundleError(`Invalid bundleVersion "${raw.bundleVersion}"`);
+  }
+  if (version > CALCULATION_BUNDLE_VERSION) {
+    throw new BundleError(
+      `bundleVersion ${version} is newer than this deployment supports (${CALCULATION_BUNDLE_VERSION})`
+    );
+  }
+
+  const bundle = version === 1 ? upgradeFromV1(raw) : (structuredClone(raw) as CalculationBundle);
+  bundle.bundleVersion = CALCULATION_BUNDLE_VERSION;
+  return validateBundle(bundle);
+}
@@ -10,6 +10,13 @@ import {
   calculateTotalHoursSaved,
   calculateFTEEquivalent,
   calculateSummary,
+  calculateNPV,
+  calculateIRR,
+  calculatePaybackMonth,
+  buildCashFlows,
+  buildValueStreams,
+  calculateMonthlyProjection,
+  getStreamRealization,
 } from "./calculations";
 import type { Archetype, ValueItem, Assumptions, ConfidenceTier } from "../types/roi";
 
@@ -396,6 +403,20 @@ describe("calculateTotalHoursSaved", () => {
     ];
     expect(calculateTotalHoursSaved(items)).toBe(150);
   });
+
+  test("includes handoff, context surfacing and labor avoidance hours", () => {
+    const items = [
+      createItem("handoff_elimination", { ...vi("handoffsPerMonth", 20), ...vi("avgQueueTimeHrs", 2), ...vi("hourlyRateOfWaitingParty", 50) }), // 40 hrs
+      createItem("context_surfacing", { ...vi("meetingsAvoidedPerMonth", 4), ...vi("attendeesPerMeeting", 5), ...vi("meetingDurationHrs", 1), ...vi("searchesAvoidedPerMonth", 120), ...vi("avgSearchTimeMin", 5) }), // 20 + 10 hrs
+      createItem("labor_avoidance", { ...vi("ftesAvoided", 0.5), ...vi("fullyLoadedAnnualCost", 90000) }), // 0.5 × 160 = 80 hrs
+    ];
+    expect(calculateTotalHoursSaved(items)).toBe(150);
+  });
+
+  test("labor avoidance uses the FTE hours assumption", () => {
+    const items = [createItem("labor_avoidance", { ...vi("ftesAvoided", 2), ...vi("fullyLoadedAnnualCost", 90000) })];
+    expect(calculateTotalHoursSaved(items, 140)).toBe(280);
+  });
 });
 
 describe("calculateFTEEquivalent", () => {
@@ -405,6 +426,133 @@ describe("calculateFTEEquivalent", () => {
   test("80 hours = 0.5 FTE", () => {
     expect(calculateFTEEquivalent(80)).toBe(0.5);
   });
+  test("custom working hours per FTE", () => {
+    expect(calculateFTEEquivalent(280, 140)).toBe(2);
+  });
+});
+
+// ============================================================
+// Monthly projection & go-live schedules
+// ============================================================
+
+describe("monthly projection", () => {
+  const flat: Assumptions = { projectionYears: 2, realizationRamp: [0.5, 1], annualGrowthRate: 0 };
+
+  test("unscheduled streams follow the yearly realization ramp", () => {
+    expect(getStreamRealization({ annualValue: 1 }, 1, flat)).toBe(0.5);
+    expect(getStreamRealization({ annualValue: 1 }, 13, flat)).toBe(1);
+  });
+
+  test("scheduled streams are zero before go-live then ramp linearly", () => {
+    const stream = { annualValue: 1, goLiveMonth: 4, rampMonths: 4 };
+    expect(getStreamRealization(stream, 3, flat)).toBe(0);
+    expect(getStreamRealization(stream, 4, flat)).toBe(0.25);
+    expect(getStreamRealization(stream, 7, flat)).toBe(1);
+    expect(getStreamRealization(stream, 20, flat)).toBe(1);
+    expect(getStreamRealization({ annualValue: 1, goLiveMonth: 2 }, 2, flat)).toBe(1);
+  });
+
+  test("yearly projection equals the sum of its months", () => {
+    const streams = [{ annualValue: 60000 }, { annualValue: 120000, goLiveMonth: 7, rampMonths: 3 }];
+    const growing = { ...flat, annualGrowthRate: 0.1 };
+    const months = calculateMonthlyProjection(streams, growing, 24000);
+    const years = calculateProjection(0, growing, 24000, streams);
+    expect(months.length).toBe(24);
+    for (const year of years) {
+      const sum = months.filter((m) => m.year === year.year).reduce((acc, m) => acc + m.value, 0);
+      expect(year.value).toBeCloseTo(sum);
+    }
+    expect(months[23]!.cumulativeNetValue).toBeCloseTo(years[1]!.cumulativeNetValue);
+  });
+
+  test("items are grouped by their use case's schedule", () => {
+    const items = [
+      createItem("task_elimination", { ...vi("tasksPerMonth", 100), ...vi("minutesPerTask", 60), ...vi("hourlyRate", 10) }, { useCaseId: "uc1" as any }),
+      createItem("task_elimination", { ...vi("tasksPerMonth", 100), ...vi("minutesPerTask", 60), ...vi("hourlyRate", 10) }, { useCaseId: "uc2" as any }),
+      createItem("task_elimination", { ...vi("tasksPerMonth", 100), ...vi("minutesPerTask", 60), ...vi("hourlyRate", 10) }),
+    ];
+    const streams = buildValueStreams(items, [
+      { _id: "uc1" as any, goLiveMonth: 6, rampMonths: 2 },
+      { _id: "uc2" as any },
+    ]);
+    expect(streams).toEqual([
+      { annualValue: 24000 },
+      { annualValue: 12000, goLiveMonth: 6, rampMonths: 2 },
+    ]);
+  });
+
+  test("a later go-live delays payback and lowers year 1", () => {
+    const items = [
+      createItem("task_elimination", { ...vi("tasksPerMonth", 1000), ...vi("minutesPerTask", 6), ...vi("hourlyRate", 60) }, { useCaseId: "uc1" as any }),
+    ];
+    const assumptions = { projectionYears: 3, realizationRamp: [1, 1, 1], annualGrowthRate: 0 };
+    const immediate = calculateSummary(items, assumptions, 12000, 20000);
+    const delayed = calculateSummary(items, assumptions, 12000, 20000, [{ _id: "uc1" as any, goLiveMonth: 7, rampMonths: 0 }]);
+    expect(immediate.projection[0]!.value).toBeCloseTo(72000);
+    expect(delayed.projection[0]!.value).toBeCloseTo(36000);
+    expect(delayed.projection[1]!.value).toBeCloseTo(72000);
+    expect(delayed.monthlyProjection.length).toBe(36);
+    expect(delayed.paybackMonth!).toBeGreaterThan(immediate.paybackMonth!);
+  });
+});
+
+// ============================================================
+// Time value of money
+// ============================================================
+
+describe("calculateNPV", () => {
+  test("discounts each year's net value and subtracts implementation cost at year 0", () => {
+    const projection = calculateProjection(100000, { projectionYears: 2, realizationRamp: [1, 1], annualGrowthRate: 0 }, 0);
+    // -50,000 + 100,000/1.1 + 100,000/1.21
+    expect(calculateNPV(projection, 0.1, 50000)).toBeCloseTo(-50000 + 90909.09 + 82644.63, 0);
+  });
+
+  test("zero discount rate equals cumulative net value less implementation", () => {
+    const projection = calculateProjection(100000, defaultAssumptions, 20000);
+    const last = projection[projection.length - 1]!;
+    expect(calculateNPV(projection, 0, 10000)).toBeCloseTo(last.cumulativeNetValue - 10000);
+  });
+});
+
+describe("calculateIRR", () => {
+  test("single period: -100 then +110 is 10%", () => {
+    expect(calculateIRR([-100, 110])!).toBeCloseTo(0.1, 6);
+  });
+
+  test("NPV at the IRR is zero", () => {
+    const flows = [-100000, 30000, 60000, 80000];
+    const irr = calculateIRR(flows)!;
+    const npv = flows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + irr, t), 0);
+    expect(Math.abs(npv)).toBeLessThan(0.01);
+  });
+
+  test("null when cash flows never change sign", () => {
+    expect(calculateIRR([0, 100, 100])).toBeNull();
+    expect(calculateIRR([-100, -50])).toBeNull();
+  });
+});
+
+describe("calculatePaybackMonth", () => {
+  test("implementation cost paid back from monthly net value", () => {
+    const projection = calculateProjection(120000, { projectionYears: 3, realizationRamp: [1, 1, 1], annualGrowthRate: 0 }, 0);
+    // $10K/month net → $35K cost covered in month 4
+    expect(calculatePaybackMonth(projection, 35000)).toBe(4);
+  });
+
+  test("0 when nothing is invested", () => {
+    const projection = calculateProjection(120000, defaultAssumptions, 0);
+    expect(calculatePaybackMonth(projection, 0)).toBe(0);
+  });
+
+  test("null when not paid back within the projection", () => {
+    const projection = calculateProjection(10000, defaultAssumptions, 50000);
+    expect(calculatePaybackMonth(projection, 0)).toBeNull();
+  });
+
+  test("cash flows start with negative implementation cost", () => {
+    const projection = calculateProjection(100, { projectionYears: 1, realizationRamp: [1], annualGrowthRate: 0 }, 0);
+    expect(buildCashFlows(projection, 40)).toEqual([-40, 100]);
+  });
 });
 
 // ============================================================
@@ -426,4 +574,14 @@ describe("calculateSummary", () => {
     expect(summary.dimensionTotals.length).toBe(5);
     expect(summary.projection.length).toBe(3);
   });
+
+  test("includes NPV, IRR and payback", () => {
+    const items = [
+      createItem("task_elimination", { ...vi("tasksPerMonth", 3000), ...vi("minutesPerTask", 8), ...vi("hourlyRate", 50) }),
+    ];
+    const summary = calculateSummary(items, { ...defaultAssumptions, discountRate: 0.08 }, 70000, 25000);
+    expect(summary.npv).toBeCloseTo(calculateNPV(summary.projection, 0.08, 25000));
+    expect(summary.irr).not.toBeNull();
+    expect(summary.paybackMonth).toBeGreaterThan(0);
+  });
 });
@@ -1,14 +1,28 @@
 import type {
   Archetype,
   Assumptions,
+  Calculation,
+  CompanyAggregate,
   ValueItem,
   Dimension,
   ComputedValue,
   DimensionTotal,
   YearProjection,
+  MonthProjection,
   ConfidenceTier,
+  CalculationSummary,
+  CustomArchetypeDefinition,
+  CustomArchetypeKey,
+  UseCase,
 } from "../types/roi";
-import { ARCHETYPE_DIMENSION, DIMENSION_INFO, DIMENSION_ORDER, normalizeConfidence } from "../types/roi";
+import {
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_FTE_HOURS_PER_MONTH,
+  DIMENSION_INFO,
+  DIMENSION_ORDER,
+  normalizeConfidence,
+} from "../types/roi";
+import { evaluateCustomArchetype, getArchetypeInfo, renderCustomTrace } from "./customArchetypes";
 
 // ============================================================
 // Archetype-specific calculation functions
@@ -198,6 +212,23 @@ const FORMULA_TRACES: Record<Archetype, (inputs: Record<string, { value: number
 // Public calculation functions
 // ============================================================
 
+/**
+ * Run an archetype formula against a raw input map (no manual override).
+ * Custom archetypes evaluate their own formula.
+ */
+export function calculateArchetypeValue(
+  archetype: Archetype | CustomArchetypeKey,
+  inputs: Record<string, { value: number }>,
+  customArchetype?: Pick<CustomArchetypeDefinition, "formula">
+): number {
+  if (customArchetype) return evaluateCustomArchetype(customArchetype, inputs);
+
+  const calculator = ARCHETYPE_CALCULATORS[archetype as Archetype];
+  if (!calculator) return 0;
+
+  return calculator(inputs);
+}
+
 /**
  * Calculate the annual value for a single value item
  */
@@ -206,10 +237,7 @@ export function calculateItemAnnualValue(item: ValueItem): number {
     return item.manualAnnualValue;
   }
 
-  const calculator = ARCHETYPE_CALCULATORS[item.archetype];
-  if (!calculator) return 0;
-
-  return calculator(item.inputs ?? {});
+  return calculateArchetypeValue(item.archetype, item.inputs ?? {}, item.customArchetype);
 }
 
 /**
@@ -219,8 +247,10 @@ export function calculateComputedValue(item: ValueItem): ComputedValue {
   const annualValue = calculateItemAnnualValue(item);
 
   // Generate formula trace
-  const traceGenerator = FORMULA_TRACES[item.archetype];
   const inputs = item.inputs ?? {};
+  const traceGenerator = item.customArchetype
+    ? (i: Record<string, { value: number }>) => renderCustomTrace(item.customArchetype!, i)
+    : FORMULA_TRACES[item.archetype as Archetype];
   const formula = item.manualAnnualValue != null
     ? `Manual override: $${item.manualAnnualValue.toLocaleString()}`
     : traceGenerator
@@ -272,7 +302,7 @@ export function calculateDimensionTotals(items: ValueItem[]): DimensionTotal[] {
   };
 
   for (const item of items) {
-    const dimension = item.dimension || ARCHETYPE_DIMENSION[item.archetype];
+    const dimension = item.dimension || getArchetypeInfo(item).dimension;
     if (dimension && totals[dimension]) {
       totals[dimension].total += calculateItemAnnualValue(item);
       totals[dimension].count += 1;
@@ -307,13 +337,142 @@ export function calculateTotalAnnualValue(items: ValueItem[]): number {
   return items.reduce((total, item) => total + calculateItemAnnualValue(item), 0);
 }
 
+// ============================================================
+// Projection (monthly engine, rolled up to years)
+// ============================================================
+
+/**
+ * A slice of annual value with an optional go-live schedule.
+ * Unscheduled streams follow the yearly realizationRamp; scheduled
+ * streams produce nothing before goLiveMonth and then ramp linearly
+ * to full value over rampMonths instead.
+ */
+export interface ValueStream {
+  annualValue: number;
+  goLiveMonth?: number;
+  rampMonths?: number;
+}
+
+/**
+ * Share of a stream's full monthly value realized in a given month (1-based)
+ */
+export function getStreamRealization(
+  stream: ValueStream,
+  month: number,
+  assumptions: Assumptions
+): number {
+  if (stream.goLiveMonth === undefined) {
+    return assumptions.realizationRamp[Math.floor((month - 1) / 12)] ?? 1;
+  }
+  if (month < stream.goLiveMonth) return 0;
+  const rampMonths = stream.rampMonths ?? 0;
+  if (rampMonths <= 0) return 1;
+  return Math.min(1, (month - stream.goLiveMonth + 1) / rampMonths);
+}
+
+/**
+ * Group value items into streams by their use case's go-live schedule.
+ * Items without a scheduled use case are pooled into one unscheduled stream.
+ */
+export function buildValueStreams(
+  items: ValueItem[],
+  useCases: Pick<UseCase, "_id" | "goLiveMonth" | "rampMonths">[] = []
+): ValueStream[] {
+  const schedules = new Map(
+    useCases
+      .filter((uc) => uc.goLiveMonth !== undefined && uc.goLiveMonth !== null)
+      .map((uc) => [String(uc._id), uc])
+  );
+
+  const unscheduled: ValueStream = { annualValue: 0 };
+  const scheduled = new Map<string, ValueStream>();
+  for (const item of items) {
+    const value = calculateItemAnnualValue(item);
+    const useCase = item.useCaseId ? schedules.get(String(item.useCaseId)) : undefined;
+    if (!useCase) {
+      unscheduled.annualValue += value;
+      continue;
+    }
+    const key = String(useCase._id);
+    const stream = scheduled.get(key) ?? {
+      annualValue: 0,
+      goLiveMonth: useCase.goLiveMonth,
+      rampMonths: useCase.rampMonths,
+    };
+    stream.annualValue += value;
+    scheduled.set(key, stream);
+  }
+
+  return [unscheduled, ...scheduled.values()];
+}
+
 /**
- * Calculate multi-year projection with cumulative tracking
+ * Calculate a month-by-month projection. Growth compounds per year;
+ * annual spend is spread evenly across months.
+ */
+export function calculateMonthlyProjection(
+  streams: ValueStream[],
+  assumptions: Assumptions,
+  proposedSpend: number = 0
+): MonthProjection[] {
+  const months: MonthProjection[] = [];
+
+  let cumulativeValue = 0;
+  let cumulativeInvestment = 0;
+
+  for (let month = 1; month <= assumptions.projectionYears * 12; month++) {
+    const yearIndex = Math.floor((month - 1) / 12);
+    const growthMultiplier = Math.pow(1 + assumptions.annualGrowthRate, yearIndex);
+
+    const value = streams.reduce(
+      (sum, stream) =>
+        sum + (stream.annualValue / 12) * growthMultiplier * getStreamRealization(stream, month, assumptions),
+      0
+    );
+    const investment = proposedSpend / 12;
+
+    cumulativeValue += value;
+    cumulativeInvestment += investment;
+
+    months.push({
+      month,
+      year: yearIndex + 1,
+      value,
+      investment,
+      netValue: value - investment,
+      cumulativeValue,
+      cumulativeInvestment,
+      cumulativeNetValue: cumulativeValue - cumulativeInvestment,
+    });
+  }
+
+  return months;
+}
+
+/**
+ * Average realization of a stream across one projection year (0-based index)
+ */
+function getYearRealization(stream: ValueStream, yearIndex: number, assumptions: Assumptions): number {
+  if (stream.goLiveMonth === undefined) {
+    return assumptions.realizationRamp[yearIndex] ?? 1;
+  }
+  let total = 0;
+  for (let m = 1; m <= 12; m++) {
+    total += getStreamRealization(stream, yearIndex * 12 + m, assumptions);
+  }
+  return total / 12;
+}
+
+/**
+ * Calculate multi-year projection with cumulative tracking.
+ * Pass value streams to apply per-use-case go-live schedules; yearly
+ * values equal the sum of calculateMonthlyProjection for the same streams.
  */
 export function calculateProjection(
   baseAnnualValue: number,
   assumptions: Assumptions,
-  proposedSpend: number = 0
+  proposedSpend: number = 0,
+  streams: ValueStream[] = [{ annualValue: baseAnnualValue }]
 ): YearProjection[] {
   const projections: YearProjection[] = [];
 
@@ -323,9 +482,11 @@ export function calculateProjection(
   for (let i = 0; i < assumptions.projectionYears; i++) {
     const yearNumber = i + 1;
     const growthMultiplier = Math.pow(1 + assumptions.annualGrowthRate, i);
-    const realizationRate = assumptions.realizationRamp[i] ?? 1;
 
-    const value = baseAnnualValue * growthMultiplier * realizationRate;
+    const value = streams.reduce(
+      (sum, stream) => sum + stream.annualValue * growthMultiplier * getYearRealization(stream, i, assumptions),
+      0
+    );
     const investment = proposedSpend;
 
     cumulativeValue += value;
@@ -357,61 +518,169 @@ export function calculateROIMultiple(
 }
 
 /**
- * Calculate total hours saved per month (for time-related archetypes)
+ * Build yearly net cash flows: year 0 is the one-time implementation cost,
+ * years 1..N are the projection's net value
  */
-export function calculateTotalHoursSaved(items: ValueItem[]): number {
-  let totalHours = 0;
+export function buildCashFlows(projection: YearProjection[], implementationCost: number = 0): number[] {
+  return [-implementationCost, ...projection.map((p) => p.netValue)];
+}
 
-  for (const item of items) {
-    const inputs = item.inputs ?? {};
-
-    switch (item.archetype) {
-      case "task_elimination": {
-        const tasks = getInputValue(inputs, "tasksPerMonth");
-        const minutes = getInputValue(inputs, "minutesPerTask");
-        totalHours += (tasks * minutes) / 60;
-        break;
-      }
-      case "task_simplification": {
-        const tasks = getInputValue(inputs, "tasksPerMonth");
-        const minutesSaved = getInputValue(inputs, "minutesSavedPerTask");
-        totalHours += (tasks * minutesSaved) / 60;
-        break;
-      }
-      case "process_acceleration": {
-        const processes = getInputValue(inputs, "processesPerMonth");
-        const timeBefore = getInputValue(inputs, "timeBeforeHrs");
-        const timeAfter = getInputValue(inputs, "timeAfterHrs");
-        totalHours += processes * (timeBefore - timeAfter);
-        break;
-      }
-      case "handoff_elimination": {
-        const handoffs = getInputValue(inputs, "handoffsPerMonth");
-        const queueTime = getInputValue(inputs, "avgQueueTimeHrs");
-        totalHours += handoffs * queueTime;
-        break;
-      }
-      case "context_surfacing": {
-        const meetings = getInputValue(inputs, "meetingsAvoidedPerMonth");
-        const attendees = getInputValue(inputs, "attendeesPerMeeting");
-        const duration = getInputValue(inputs, "meetingDurationHrs");
-        const searches = getInputValue(inputs, "searchesAvoidedPerMonth");
-        const searchTime = getInputValue(inputs, "avgSearchTimeMin");
-        totalHours += (meetings * attendees * duration) + (searches * searchTime / 60);
-        break;
-      }
+/**
+ * Calculate net present value of the projection at an annual discount rate
+ */
+export function calculateNPV(
+  projection: YearProjection[],
+  discountRate: number,
+  implementationCost: number = 0
+): number {
+  return buildCashFlows(projection, implementationCost).reduce(
+    (npv, cashFlow, year) => npv + cashFlow / Math.pow(1 + discountRate, year),
+    0
+  );
+}
+
+/**
+ * Calculate internal rate of return by bisection.
+ * Returns null when the cash flows never change sign (IRR undefined).
+ */
+export function calculateIRR(cashFlows: number[]): number | null {
+  const hasNegative = cashFlows.some((c) => c < 0);
+  const hasPositive = cashFlows.some((c) => c > 0);
+  if (!hasNegative || !hasPositive) return null;
+
+  const npvAt = (rate: number) =>
+    cashFlows.reduce((npv, cashFlow, year) => npv + cashFlow / Math.pow(1 + rate, year), 0);
+
+  let low = -0.99;
+  let high = 10;
+  let npvLow = npvAt(low);
+  if (npvLow * npvAt(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npvAt(mid);
+    if (Math.abs(npvMid) < 1e-7 || high - low < 1e-9) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Calculate the month in which cumulative net value first covers the
+ * implementation cost. Uses the monthly projection when given; otherwise each
+ * year's net value is spread evenly over its months.
+ * Returns 0 when nothing is invested and null when not paid back in the projection.
+ */
+export function calculatePaybackMonth(
+  projection: YearProjection[],
+  implementationCost: number = 0,
+  monthlyProjection?: MonthProjection[]
+): number | null {
+  const hasInvestment = implementationCost > 0 || projection.some((p) => p.investment > 0);
+  if (!hasInvestment) return 0;
+
+  const monthlyNet = monthlyProjection
+    ? monthlyProjection.map((m) => m.netValue)
+    : projection.flatMap((year) => Array<number>(12).fill(year.netValue / 12));
+
+  let cumulative = -implementationCost;
+  for (let i = 0; i < monthlyNet.length; i++) {
+    cumulative += monthlyNet[i]!;
+    if (cumulative >= 0) return i + 1;
+  }
+  return null;
+}
+
+/**
+ * Calculate NPV, IRR and payback month for a projection
+ */
+export function calculateTimeValueMetrics(
+  projection: YearProjection[],
+  assumptions: Assumptions,
+  implementationCost: number = 0,
+  monthlyProjection?: MonthProjection[]
+): { npv: number; irr: number | null; paybackMonth: number | null } {
+  const discountRate = assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE;
+  return {
+    npv: calculateNPV(projection, discountRate, implementationCost),
+    irr: calculateIRR(buildCashFlows(projection, implementationCost)),
+    paybackMonth: calculatePaybackMonth(projection, implementationCost, monthlyProjection),
+  };
+}
+
+/**
+ * Calculate hours saved per month for one value item (0 for archetypes
+ * that don't free up time). FTEs avoided count as full FTE months.
+ */
+export function calculateItemHoursSaved(
+  item: Pick<ValueItem, "archetype" | "inputs">,
+  fteHoursPerMonth: number = DEFAULT_FTE_HOURS_PER_MONTH
+): number {
+  const inputs = item.inputs ?? {};
+
+  switch (item.archetype) {
+    case "task_elimination": {
+      const tasks = getInputValue(inputs, "tasksPerMonth");
+      const minutes = getInputValue(inputs, "minutesPerTask");
+      return (tasks * minutes) / 60;
     }
+    case "task_simplification": {
+      const tasks = getInputValue(inputs, "tasksPerMonth");
+      const minutesSaved = getInputValue(inputs, "minutesSavedPerTask");
+      return (tasks * minutesSaved) / 60;
+    }
+    case "process_acceleration": {
+      const processes = getInputValue(inputs, "processesPerMonth");
+      const timeBefore = getInputValue(inputs, "timeBeforeHrs");
+      const timeAfter = getInputValue(inputs, "timeAfterHrs");
+      return processes * (timeBefore - timeAfter);
+    }
+    case "handoff_elimination": {
+      const handoffs = getInputValue(inputs, "handoffsPerMonth");
+      const queueTime = getInputValue(inputs, "avgQueueTimeHrs");
+      return handoffs * queueTime;
+    }
+    case "context_surfacing": {
+      const meetings = getInputValue(inputs, "meetingsAvoidedPerMonth");
+      const attendees = getInputValue(inputs, "attendeesPerMeeting");
+      const duration = getInputValue(inputs, "meetingDurationHrs");
+      const searches = getInputValue(inputs, "searchesAvoidedPerMonth");
+      const searchTime = getInputValue(inputs, "avgSearchTimeMin");
+      return (meetings * attendees * duration) + (searches * searchTime / 60);
+    }
+    case "labor_avoidance": {
+      const ftes = getInputValue(inputs, "ftesAvoided");
+      return ftes * fteHoursPerMonth;
+    }
+    default:
+      return 0;
   }
+}
 
-  return totalHours;
+/**
+ * Calculate total hours saved per month (for time-related archetypes)
+ */
+export function calculateTotalHoursSaved(
+  items: ValueItem[],
+  fteHoursPerMonth: number = DEFAULT_FTE_HOURS_PER_MONTH
+): number {
+  return items.reduce((total, item) => total + calculateItemHoursSaved(item, fteHoursPerMonth), 0);
 }
 
 /**
  * Calculate FTE equivalent from monthly hours saved
  */
-export function calculateFTEEquivalent(monthlyHoursSaved: number): number {
-  const monthlyFTEHours = 160; // 40 hrs/week × 4 weeks
-  return monthlyHoursSaved / monthlyFTEHours;
+export function calculateFTEEquivalent(
+  monthlyHoursSaved: number,
+  fteHoursPerMonth: number = DEFAULT_FTE_HOURS_PER_MONTH
+): number {
+  if (fteHoursPerMonth <= 0) return 0;
+  return monthlyHoursSaved / fteHoursPerMonth;
 }
 
 /**
@@ -420,24 +689,29 @@ export function calculateFTEEquivalent(monthlyHoursSaved: number): number {
 export function calculateSummary(
   items: ValueItem[],
   assumptions: Assumptions,
-  proposedSpend?: number
-): {
-  totalAnnualValue: number;
-  dimensionTotals: DimensionTotal[];
-  roiMultiple: number | null;
-  hoursSavedPerMonth: number;
-  fteEquivalent: number;
-  projection: YearProjection[];
-} {
+  proposedSpend?: number,
+  implementationCost?: number,
+  useCases?: Pick<UseCase, "_id" | "goLiveMonth" | "rampMonths">[]
+): CalculationSummary {
   const totalAnnualValue = calculateTotalAnnualValue(items);
   const dimensionTotals = calculateDimensionTotals(items);
   const roiMultiple = calculateROIMultiple(totalAnnualValue, proposedSpend);
-  const hoursSavedPerMonth = calculateTotalHoursSaved(items);
-  const fteEquivalent = calculateFTEEquivalent(hoursSavedPerMonth);
+  const fteHoursPerMonth = assumptions.fteHoursPerMonth ?? DEFAULT_FTE_HOURS_PER_MONTH;
+  const hoursSavedPerMonth = calculateTotalHoursSaved(items, fteHoursPerMonth);
+  const fteEquivalent = calculateFTEEquivalent(hoursSavedPerMonth, fteHoursPerMonth);
+  const streams = buildValueStreams(items, useCases);
   const projection = calculateProjection(
     totalAnnualValue,
     assumptions,
-    proposedSpend
+    proposedSpend,
+    streams
+  );
+  const monthlyProjection = calculateMonthlyProjection(streams, assumptions, proposedSpend);
+  const { npv, irr, paybackMonth } = calculateTimeValueMetrics(
+    projection,
+    assumptions,
+    implementationCost,
+    monthlyProjection
   );
 
   return {
@@ -447,5 +721,89 @@ export function calculateSummary(
     hoursSavedPerMonth,
     fteEquivalent,
     projection,
+    monthlyProjection,
+    npv,
+    irr,
+    paybackMonth,
+  };
+}
+
+// ============================================================
+// Company aggregate
+// A company's totals cover the de-duplicated union of its
+// calculators' items, so a shared use case counts once there
+// and in full on every calculator that references it.
+// ============================================================
+
+export type AggregateCalculation = Pick<Calculation, "shortId" | "name" | "proposedSpend" | "updatedAt"> & {
+  _id: string;
+  role?: string;
+  assumptions?: Partial<Assumptions>;
+  useCaseIds?: string[];
+};
+
+/**
+ * Value items that belong on a calculator: its own items plus items linked to
+ * the shared use cases it references (the set valueItems.listByCalculation returns)
+ */
+export function selectCalculatorItems<T extends Pick<ValueItem, "calculationId" | "useCaseId">>(
+  calculation: Pick<AggregateCalculation, "_id" | "useCaseIds">,
+  items: T[]
+): T[] {
+  const useCaseIds = new Set((calculation.useCaseIds ?? []).map(String));
+  return items.filter(
+    (item) =>
+      String(item.calculationId) === String(calculation._id) ||
+      (item.useCaseId !== undefined && useCaseIds.has(String(item.useCaseId)))
+  );
+}
+
+/**
+ * Company totals and per-calculator figures. `items` may contain duplicates
+ * and items from other companies; only those selected by a calculator count.
+ */
+export function calculateCompanyAggregate(
+  calculations: AggregateCalculation[],
+  items: ValueItem[]
+): CompanyAggregate {
+  const companyItems = new Map<string, { item: ValueItem; fteHoursPerMonth: number }>();
+  let totalProposedSpend = 0;
+
+  const calculators = calculations.map((calc) => {
+    const fteHoursPerMonth = calc.assumptions?.fteHoursPerMonth ?? DEFAULT_FTE_HOURS_PER_MONTH;
+    const calcItems = [...new Map(selectCalculatorItems(calc, items).map((i) => [String(i._id), i])).values()];
+    for (const item of calcItems) {
+      if (!companyItems.has(String(item._id))) companyItems.set(String(item._id), { item, fteHoursPerMonth });
+    }
+    totalProposedSpend += calc.proposedSpend ?? 0;
+
+    const totalAnnualValue = calculateTotalAnnualValue(calcItems);
+    return {
+      shortId: calc.shortId,
+      name: calc.name,
+      role: calc.role,
+      totalAnnualValue,
+      roiMultiple: calculateROIMultiple(totalAnnualValue, calc.proposedSpend),
+      hoursSavedPerMonth: calculateTotalHoursSaved(calcItems, fteHoursPerMonth),
+      proposedSpend: calc.proposedSpend,
+      valueItemCount: calcItems.length,
+      updatedAt: calc.updatedAt,
+      primaryDimension: getDimensionBreakdown(calcItems)[0]?.dimension ?? null,
+    };
+  });
+
+  const unique = [...companyItems.values()];
+  const totalAnnualValue = calculateTotalAnnualValue(unique.map((u) => u.item));
+
+  return {
+    totalAnnualValue,
+    totalROI: calculateROIMultiple(totalAnnualValue, totalProposedSpend),
+    totalHoursSavedPerMonth: unique.reduce(
+      (sum, u) => sum + calculateItemHoursSaved(u.item, u.fteHoursPerMonth),
+      0
+    ),
+    calculatorCount: calculations.length,
+    dimensionTotals: calculateDimensionTotals(unique.map((u) => u.item)),
+    calculators,
   };
 }
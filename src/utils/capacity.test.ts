@@ -0,0 +1,73 @@
+import { test, expect, describe } from "bun:test";
+import { checkCapacity } from "./capacity";
+import type { Archetype, ConfidenceTier, ValueItem } from "../types/roi";
+import { ARCHETYPE_DIMENSION } from "../types/roi";
+
+function createItem(
+  id: string,
+  archetype: Archetype,
+  inputs: Record<string, number>,
+  overrides?: Partial<ValueItem>
+): ValueItem {
+  return {
+    _id: id as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype],
+    name: `Item ${id}`,
+    inputs: Object.fromEntries(
+      Object.entries(inputs).map(([k, value]) => [k, { value, confidence: "A" as ConfidenceTier }])
+    ),
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe("checkCapacity", () => {
+  const useCases = [
+    { _id: "uc1" as any, department: "Finance " },
+    { _id: "uc2" as any, department: "Sales" },
+    { _id: "uc3" as any },
+  ];
+  // 1200 tasks × 30 min = 600 hrs
+  const finance = createItem("a", "task_elimination", { tasksPerMonth: 1200, minutesPerTask: 30, hourlyRate: 40 }, { useCaseId: "uc1" as any });
+  // 2 FTEs × 160 hrs = 320 hrs
+  const financeLabor = createItem("b", "labor_avoidance", { ftesAvoided: 2, fullyLoadedAnnualCost: 90000 }, { useCaseId: "uc1" as any });
+  // 100 processes × 2 hrs saved = 200 hrs
+  const sales = createItem("c", "process_acceleration", { processesPerMonth: 100, timeBeforeHrs: 3, timeAfterHrs: 1, hourlyRate: 50 }, { useCaseId: "uc2" as any });
+  const unlinked = createItem("d", "task_elimination", { tasksPerMonth: 60, minutesPerTask: 10, hourlyRate: 40 }, { useCaseId: "uc3" as any });
+
+  test("groups hours by use case department, case-insensitively", () => {
+    const result = checkCapacity([finance, financeLabor, sales, unlinked], useCases, [{ department: "finance", headcount: 5 }]);
+    expect(result.departments.map((d) => d.department)).toEqual(["finance", "Sales"]);
+    expect(result.departments[0]!.claimedHours).toBe(920);
+    expect(result.departments[0]!.itemIds).toEqual(["a", "b"]);
+    expect(result.unassignedHours).toBe(10);
+  });
+
+  test("flags departments claiming more hours than headcount allows", () => {
+    const result = checkCapacity([finance, financeLabor, sales], useCases, [
+      { department: "Finance", headcount: 5 },
+      { department: "Sales", headcount: 2 },
+    ]);
+    expect(result.departments[0]!.availableHours).toBe(800);
+    expect(result.departments[0]!.overCapacity).toBe(true);
+    expect(result.departments[1]!.utilization).toBeCloseTo(200 / 320);
+    expect(result.overCapacity.map((d) => d.department)).toEqual(["Finance"]);
+  });
+
+  test("uses the FTE hours assumption", () => {
+    const result = checkCapacity([finance, financeLabor], useCases, [{ department: "Finance", headcount: 5 }], 200);
+    expect(result.departments[0]!.claimedHours).toBe(1000);
+    expect(result.departments[0]!.availableHours).toBe(1000);
+    expect(result.departments[0]!.overCapacity).toBe(false);
+  });
+
+  test("departments without headcount are never flagged", () => {
+    const result = checkCapacity([sales], useCases);
+    expect(result.departments[0]!.headcount).toBeNull();
+    expect(result.departments[0]!.overCapacity).toBe(false);
+    expect(result.overCapacity).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import type { UseCase, ValueItem } from "../types/roi";
+import { DEFAULT_FTE_HOURS_PER_MONTH } from "../types/roi";
+import { calculateItemHoursSaved } from "./calculations";
+
+// ============================================================
+// Capacity reconciliation
+// Hours saved are attributed to the department of each item's
+// linked use case and compared with what that department's
+// headcount can actually work in a month.
+// ============================================================
+
+export interface DepartmentHeadcount {
+  department: string;
+  headcount: number;
+}
+
+export interface DepartmentCapacity {
+  department: string;
+  headcount: number | null; // null when no headcount is on file
+  availableHours: number | null;
+  claimedHours: number;
+  utilization: number | null; // claimed / available
+  overCapacity: boolean;
+  itemIds: string[];
+}
+
+export interface CapacityCheck {
+  fteHoursPerMonth: number;
+  departments: DepartmentCapacity[];
+  unassignedHours: number; // hours from items without a use case department
+  overCapacity: DepartmentCapacity[];
+}
+
+function departmentKey(department: string): string {
+  return department.trim().toLowerCase();
+}
+
+/**
+ * Compare claimed monthly hours saved per department with available headcount hours
+ */
+export function checkCapacity(
+  items: ValueItem[],
+  useCases: Pick<UseCase, "_id" | "department">[],
+  headcounts: DepartmentHeadcount[] = [],
+  fteHoursPerMonth: number = DEFAULT_FTE_HOURS_PER_MONTH
+): CapacityCheck {
+  const useCaseDepartments = new Map(
+    useCases
+      .filter((uc) => uc.department && uc.department.trim())
+      .map((uc) => [String(uc._id), uc.department!.trim()])
+  );
+  const headcountByDept = new Map(headcounts.map((h) => [departmentKey(h.department), h]));
+
+  const byDept = new Map<string, { department: string; claimedHours: number; itemIds: string[] }>();
+  let unassignedHours = 0;
+
+  for (const item of items) {
+    const hours = calculateItemHoursSaved(item, fteHoursPerMonth);
+    if (hours <= 0) continue;
+
+    const department = item.useCaseId ? useCaseDepartments.get(String(item.useCaseId)) : undefined;
+    if (!department) {
+      unassignedHours += hours;
+      continue;
+    }
+
+    const key = departmentKey(department);
+    const entry = byDept.get(key) ?? { department, claimedHours: 0, itemIds: [] };
+    entry.claimedHours += hours;
+    entry.itemIds.push(String(item._id));
+    byDept.set(key, entry);
+  }
+
+  const departments = [...byDept.entries()].map(([key, entry]): DepartmentCapacity => {
+    const headcount = headcountByDept.get(key)?.headcount ?? null;
+    const availableHours = headcount !== null ? headcount * fteHoursPerMonth : null;
+    return {
+      department: headcountByDept.get(key)?.department ?? entry.department,
+      headcount,
+      availableHours,
+      claimedHours: entry.claimedHours,
+      utilization: availableHours ? entry.claimedHours / availableHours : null,
+      overCapacity: availableHours !== null && entry.claimedHours > availableHours,
+      itemIds: entry.itemIds,
+    };
+  });
+  departments.sort((a, b) => b.claimedHours - a.claimedHours);
+
+  return {
+    fteHoursPerMonth,
+    departments,
+    unassignedHours,
+    overCapacity: departments.filter((d) => d.overCapacity),
+  };
+}
@@ -0,0 +1,147 @@
+import { test, expect, describe } from "bun:test";
+import {
+  BUILD_HOURS,
+  DEFAULT_BILLABLE_STEPS,
+  DEFAULT_BUILD_RATE,
+  countBillableSteps,
+  estimateCosts,
+  getItemRunsPerMonth,
+  getPlatformCost,
+} from "./costs";
+import { ZAPIER_PLAN_TIERS } from "../data/zapierPlans";
+import type { Archetype, ArchitectureItem, ConfidenceTier, UseCase, ValueItem } from "../types/roi";
+import { ARCHETYPE_DIMENSION } from "../types/roi";
+
+function createItem(
+  id: string,
+  archetype: Archetype,
+  inputs: Record<string, { value: number; confidence: ConfidenceTier }>,
+  overrides?: Partial<ValueItem>
+): ValueItem {
+  return {
+    _id: id as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype],
+    name: `Item ${id}`,
+    inputs,
+    order: 0,
+    ...overrides,
+  };
+}
+
+function createUseCase(
+  id: string,
+  implementationEffort: UseCase["implementationEffort"],
+  architecture?: ArchitectureItem[]
+) {
+  return { _id: id as any, name: `Use case ${id}`, implementationEffort, architecture };
+}
+
+const bundleZap: ArchitectureItem = {
+  type: "zap",
+  name: "Lead Routing",
+  zapConfig: {
+    steps: [
+      { action: "Salesforce.new_lead" },
+      { action: "Filter by Zapier.filter" },
+      { action: "Salesforce.update_record" },
+      { action: "Slack.send_channel_message" },
+    ],
+  },
+};
+
+describe("getItemRunsPerMonth", () => {
+  test("reads the first volume input", () => {
+    expect(getItemRunsPerMonth(createItem("a", "task_elimination", { tasksPerMonth: { value: 500, confidence: "A" } }))).toBe(500);
+    expect(getItemRunsPerMonth(createItem("b", "handoff_elimination", { handoffsPerMonth: { value: 40, confidence: "B" } }))).toBe(40);
+  });
+
+  test("0 for archetypes without a volume input", () => {
+    expect(getItemRunsPerMonth(createItem("c", "tool_consolidation", { toolsEliminated: { value: 2, confidence: "A" } }))).toBe(0);
+  });
+});
+
+describe("countBillableSteps", () => {
+  test("skips the trigger and filters in a planned Zap bundle", () => {
+    expect(countBillableSteps([bundleZap])).toEqual({ steps: 2, source: "zap_config" });
+  });
+
+  test("prefers live Zap details over the planned config", () => {
+    const live: ArchitectureItem = {
+      ...bundleZap,
+      zapDetails: {
+        steps: [
+          { appTitle: "Salesforce", actionTitle: "New Lead", actionType: "read" },
+          { appTitle: "Salesforce", actionTitle: "Find Account", actionType: "search" },
+          { appTitle: "Salesforce", actionTitle: "Update", actionType: "write" },
+          { appTitle: "Filter", actionTitle: "Only hot leads", actionType: "filter" },
+          { appTitle: "Slack", actionTitle: "Send", actionType: "write" },
+        ],
+      },
+    };
+    expect(countBillableSteps([live])).toEqual({ steps: 3, source: "zap_details" });
+  });
+
+  test("sums across Zaps and ignores non-Zap architecture", () => {
+    const table: ArchitectureItem = { type: "table", name: "Leads" };
+    expect(countBillableSteps([bundleZap, bundleZap, table]).steps).toBe(4);
+  });
+
+  test("falls back to the default without Zaps", () => {
+    expect(countBillableSteps([])).toEqual({ steps: DEFAULT_BILLABLE_STEPS, source: "default" });
+  });
+});
+
+describe("getPlatformCost", () => {
+  test("smallest tier that covers the volume", () => {
+    expect(getPlatformCost(1500)).toBe(ZAPIER_PLAN_TIERS[0]!.annualPrice);
+    expect(getPlatformCost(2001)).toBe(ZAPIER_PLAN_TIERS[1]!.annualPrice);
+  });
+
+  test("extrapolates beyond the largest tier", () => {
+    const largest = ZAPIER_PLAN_TIERS[ZAPIER_PLAN_TIERS.length - 1]!;
+    expect(getPlatformCost(largest.monthlyTasks * 2)).toBeCloseTo(largest.annualPrice * 2);
+  });
+});
+
+describe("estimateCosts", () => {
+  const items = [
+    createItem("a", "task_elimination", { tasksPerMonth: { value: 10000, confidence: "A" } }, { useCaseId: "uc1" as any }),
+    createItem("b", "process_acceleration", { processesPerMonth: { value: 1000, confidence: "B" } }, { useCaseId: "uc2" as any }),
+    createItem("c", "task_simplification", { tasksPerMonth: { value: 500, confidence: "C" } }),
+  ];
+  const useCases = [createUseCase("uc1", "low", [bundleZap]), createUseCase("uc2", "high")];
+
+  test("tasks = runs × billable steps per use case, plus unlinked items", () => {
+    const result = estimateCosts(items, useCases);
+    expect(result.useCases[0]!.tasksPerMonth).toBe(20000);
+    expect(result.useCases[1]!.tasksPerMonth).toBe(1000 * DEFAULT_BILLABLE_STEPS);
+    expect(result.unlinkedTasksPerMonth).toBe(500 * DEFAULT_BILLABLE_STEPS);
+    expect(result.tasksPerMonth).toBe(23000);
+    expect(result.recommendedPlan?.id).toBe("team_50k");
+  });
+
+  test("build cost from implementation effort", () => {
+    const result = estimateCosts(items, useCases, { buildRate: 100 });
+    expect(result.buildHours).toBe(BUILD_HOURS.low + BUILD_HOURS.high);
+    expect(result.buildCost).toBe((BUILD_HOURS.low + BUILD_HOURS.high) * 100);
+    expect(estimateCosts(items, useCases).useCases[0]!.buildCost).toBe(BUILD_HOURS.low * DEFAULT_BUILD_RATE);
+  });
+
+  test("flags a proposed spend below the plan the volume needs", () => {
+    const undersized = estimateCosts(items, useCases, { proposedSpend: 3588 });
+    expect(undersized.planUndersized).toBe(true);
+    expect(undersized.proposedPlan?.id).toBe("team_10k");
+    expect(undersized.shortfall).toBe(undersized.platformCost - 3588);
+
+    const fits = estimateCosts(items, useCases, { proposedSpend: 20000 });
+    expect(fits.planUndersized).toBe(false);
+    expect(fits.shortfall).toBe(0);
+  });
+
+  test("no flag without a proposed spend", () => {
+    expect(estimateCosts(items, useCases).planUndersized).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import type { ArchitectureItem, ImplementationEffort, UseCase, ValueItem } from "../types/roi";
+import {
+  ZAPIER_PLAN_TIERS,
+  getPlanForBudget,
+  getPlanForTasks,
+  type ZapierPlanTier,
+} from "../data/zapierPlans";
+
+// ============================================================
+// Cost model (Zapier task consumption + build effort)
+// Task volume comes from value item volume inputs × billable steps in
+// the linked use case's Zaps. Triggers and filters don't consume tasks.
+// ============================================================
+
+/** Value item inputs that count automation runs per month */
+export const VOLUME_INPUT_KEYS = ["tasksPerMonth", "processesPerMonth", "handoffsPerMonth"] as const;
+
+/** Billable steps per run assumed when a use case has no Zap steps to count */
+export const DEFAULT_BILLABLE_STEPS = 2;
+
+/** Build hours by implementation effort (midpoints of the effort tooltips) */
+export const BUILD_HOURS: Record<ImplementationEffort, number> = {
+  low: 2,
+  medium: 12,
+  high: 60,
+};
+
+export const DEFAULT_BUILD_RATE = 150; // $/hour
+
+export type StepSource = "zap_details" | "zap_config" | "default";
+
+export interface UseCaseCost {
+  useCaseId: string;
+  name: string;
+  runsPerMonth: number;
+  billableStepsPerRun: number;
+  stepSource: StepSource;
+  tasksPerMonth: number;
+  buildHours: number;
+  buildCost: number;
+}
+
+export interface CostEstimate {
+  useCases: UseCaseCost[];
+  unlinkedTasksPerMonth: number; // items not linked to a use case, at DEFAULT_BILLABLE_STEPS
+  tasksPerMonth: number;
+  buildHours: number;
+  buildCost: number;
+  recommendedPlan: ZapierPlanTier | null; // null when volume exceeds every tier
+  platformCost: number; // annual
+  totalFirstYearCost: number; // platformCost + buildCost
+  proposedSpend: number;
+  proposedPlan: ZapierPlanTier | null; // largest tier proposedSpend buys
+  planUndersized: boolean;
+  shortfall: number; // platformCost - proposedSpend when undersized
+}
+
+export interface CostOptions {
+  proposedSpend?: number;
+  buildRate?: number;
+}
+
+/**
+ * Get monthly runs for a value item from its volume input (0 when it has none)
+ */
+export function getItemRunsPerMonth(item: Pick<ValueItem, "inputs">): number {
+  const inputs = item.inputs ?? {};
+  for (const key of VOLUME_INPUT_KEYS) {
+    const input = inputs[key];
+    if (input) return Math.max(0, input.value);
+  }
+  return 0;
+}
+
+/**
+ * Count billable steps per run across a use case's Zaps.
+ * Prefers live Zap details, then the planned config; the first step of
+ * each Zap is its trigger.
+ */
+export function countBillableSteps(
+  architecture: ArchitectureItem[] = []
+): { steps: number; source: StepSource } {
+  const zaps = architecture.filter((a) => a.type === "zap");
+
+  let steps = 0;
+  let source: StepSource = "default";
+  for (const zap of zaps) {
+    if (zap.zapDetails?.steps?.length) {
+      steps += zap.zapDetails.steps
+        .slice(1)
+        .filter((s) => s.actionType !== "read" && s.actionType !== "filter").length;
+      source = "zap_details";
+    } else if (zap.zapConfig?.steps?.length) {
+      steps += zap.zapConfig.steps
+        .slice(1)
+        .filter((s) => !s.action.toLowerCase().includes("filter")).length;
+      if (source === "default") source = "zap_config";
+    }
+  }
+
+  if (source === "default") return { steps: DEFAULT_BILLABLE_STEPS, source };
+  return { steps, source };
+}
+
+/**
+ * Annual platform cost for a monthly task volume. Volumes beyond the
+ * largest tier are priced at that tier's per-task rate.
+ */
+export function getPlatformCost(tasksPerMonth: number): number {
+  const plan = getPlanForTasks(tasksPerMonth);
+  if (plan) return plan.annualPrice;
+  const largest = ZAPIER_PLAN_TIERS[ZAPIER_PLAN_TIERS.length - 1]!;
+  return (tasksPerMonth / largest.monthlyTasks) * largest.annualPrice;
+}
+
+/**
+ * Estimate task consumption, build cost and plan fit for a calculation
+ */
+export function estimateCosts(
+  items: ValueItem[],
+  useCases: Pick<UseCase, "_id" | "name" | "implementationEffort" | "architecture">[],
+  options: CostOptions = {}
+): CostEstimate {
+  const proposedSpend = options.proposedSpend ?? 0;
+  const buildRate = options.buildRate ?? DEFAULT_BUILD_RATE;
+
+  const useCaseCosts = useCases.map((uc): UseCaseCost => {
+    const runsPerMonth = items
+      .filter((item) => item.useCaseId !== undefined && String(item.useCaseId) === String(uc._id))
+      .reduce((sum, item) => sum + getItemRunsPerMonth(item), 0);
+    const { steps, source } = countBillableSteps(uc.architecture);
+    const buildHours = BUILD_HOURS[uc.implementationEffort] ?? BUILD_HOURS.medium;
+    return {
+      useCaseId: String(uc._id),
+      name: uc.name,
+      runsPerMonth,
+      billableStepsPerRun: steps,
+      stepSource: source,
+      tasksPerMonth: runsPerMonth * steps,
+      buildHours,
+      buildCost: buildHours * buildRate,
+    };
+  });
+
+  const linkedIds = new Set(useCases.map((uc) => String(uc._id)));
+  const unlinkedTasksPerMonth = items
+    .filter((item) => !item.useCaseId || !linkedIds.has(String(item.useCaseId)))
+    .reduce((sum, item) => sum + getItemRunsPerMonth(item) * DEFAULT_BILLABLE_STEPS, 0);
+
+  const tasksPerMonth = useCaseCosts.reduce((sum, c) => sum + c.tasksPerMonth, 0) + unlinkedTasksPerMonth;
+  const buildHours = useCaseCosts.reduce((sum, c) => sum + c.buildHours, 0);
+  const buildCost = useCaseCosts.reduce((sum, c) => sum + c.buildCost, 0);
+  const platformCost = tasksPerMonth > 0 ? getPlatformCost(tasksPerMonth) : 0;
+  const planUndersized = proposedSpend > 0 && proposedSpend < platformCost;
+
+  return {
+    useCases: useCaseCosts,
+    unlinkedTasksPerMonth,
+    tasksPerMonth,
+    buildHours,
+    buildCost,
+    recommendedPlan: tasksPerMonth > 0 ? getPlanForTasks(tasksPerMonth) ?? null : null,
+    platformCost,
+    totalFirstYearCost: platformCost + buildCost,
+    proposedSpend,
+    proposedPlan: getPlanForBudget(proposedSpend) ?? null,
+    planUndersized,
+    shortfall: planUndersized ? platformCost - proposedSpend : 0,
+  };
+}
@@ -0,0 +1,174 @@
+import { test, expect, describe } from "bun:test";
+import {
+  DEFAULT_CRM_MAPPINGS,
+  buildCrmMetrics,
+  createHubSpotAdapter,
+  createSalesforceAdapter,
+  createStubCrmAdapter,
+  mapOpportunityFields,
+  parseAccountProfile,
+  syncOpportunity,
+  type CrmMapping,
+} from "./crm";
+
+const summary = {
+  totalAnnualValue: 240000,
+  roiMultiple: 3.43,
+  npv: 312000,
+  implementationCost: 25000,
+  dimensionTotals: [
+    { label: "Revenue Impact", total: 60000 },
+    { label: "Productivity", total: 180000 },
+  ],
+};
+
+const salesforce = DEFAULT_CRM_MAPPINGS.salesforce;
+
+describe("buildCrmMetrics", () => {
+  test("takes the summary figures and labels the largest dimension", () => {
+    expect(buildCrmMetrics(summary, 70000)).toEqual({
+      annualValue: 240000,
+      roiMultiple: 3.43,
+      npv: 312000,
+      topDimension: "Productivity",
+    });
+  });
+
+  test("leaves out NPV without any investment and the top dimension without value", () => {
+    const metrics = buildCrmMetrics(
+      { ...summary, totalAnnualValue: 0, roiMultiple: null, implementationCost: 0, dimensionTotals: [] },
+      undefined
+    );
+    expect(metrics.npv).toBeNull();
+    expect(metrics.topDimension).toBeNull();
+    expect(metrics.roiMultiple).toBeNull();
+  });
+});
+
+describe("mapOpportunityFields", () => {
+  test("sends mapped metrics that have a value", () => {
+    const mapping: CrmMapping = { opportunityFields: { annualValue: "Value__c", npv: "NPV__c" }, accountFields: {} };
+    expect(
+      mapOpportunityFields(mapping, { annualValue: 1000, roiMultiple: 2, npv: null, topDimension: "Productivity" })
+    ).toEqual({ Value__c: 1000 });
+  });
+});
+
+describe("parseAccountProfile", () => {
+  test("reads industry and a whole employee count", () => {
+    expect(parseAccountProfile(salesforce, { Industry: " Shipping ", NumberOfEmployees: 1200 })).toEqual({
+      industry: "Shipping",
+      employeeCount: 1200,
+    });
+    expect(parseAccountProfile(DEFAULT_CRM_MAPPINGS.hubspot, { numberofemployees: "1,500" })).toEqual({
+      employeeCount: 1500,
+    });
+  });
+
+  test("ignores blanks and counts that aren't positive numbers", () => {
+    expect(parseAccountProfile(salesforce, { Industry: "", NumberOfEmployees: "n/a" })).toEqual({});
+    expect(parseAccountProfile(salesforce, { NumberOfEmployees: 0 })).toEqual({});
+  });
+});
+
+describe("syncOpportunity", () => {
+  const metrics = buildCrmMetrics(summary, 70000);
+
+  test("pushes the mapped fields and pulls the account", async () => {
+    const { adapter, updates } = createStubCrmAdapter({
+      "006A": { Industry: "Logistics", NumberOfEmployees: 5400, Website: "acme.example" },
+    });
+    const result = await syncOpportunity(adapter, salesforce, "006A", metrics);
+
+    expect(updates).toEqual([
+      {
+        opportunityId: "006A",
+        fields: {
+          ROI_Annual_Value__c: 240000,
+          ROI_Multiple__c: 3.43,
+          ROI_NPV__c: 312000,
+          ROI_Top_Dimension__c: "Productivity",
+        },
+      },
+    ]);
+    expect(result.account).toEqual({ industry: "Logistics", employeeCount: 5400 });
+  });
+
+  test("skips the account lookup when no account fields are mapped", async () => {
+    const { adapter } = createStubCrmAdapter({ "006A": { Industry: "Logistics" } });
+    const mapping = { ...salesforce, accountFields: {} };
+    expect((await syncOpportunity(adapter, mapping, "006A", metrics)).account).toBeNull();
+  });
+
+  test("an opportunity without an account pulls nothing", async () => {
+    const { adapter } = createStubCrmAdapter({ "006B": null });
+    expect((await syncOpportunity(adapter, salesforce, "006B", metrics)).account).toBeNull();
+  });
+
+  test("fails for an unknown opportunity", async () => {
+    const { adapter } = createStubCrmAdapter({});
+    await expect(syncOpportunity(adapter, salesforce, "missing", metrics)).rejects.toThrow("not found");
+  });
+});
+
+// A fetch that answers from a table of "METHOD url" → JSON and records requests
+function fakeFetch(responses: Record<string, unknown>) {
+  const calls: Array<{ method: string; url: string; body?: unknown }> = [];
+  const fetchFn = async (url: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+    const key = `${method} ${url}`;
+    if (!(key in responses)) return new Response("not found", { status: 404, statusText: "Not Found" });
+    const body = responses[key];
+    return body === null ? new Response(null, { status: 204 }) : Response.json(body);
+  };
+  return { fetchFn, calls };
+}
+
+describe("createSalesforceAdapter", () => {
+  const base = "https://acme.my.salesforce.com/services/data/v59.0/sobjects";
+
+  test("patches the opportunity and reads its account", async () => {
+    const { fetchFn, calls } = fakeFetch({
+      [`PATCH ${base}/Opportunity/006A`]: null,
+      [`GET ${base}/Opportunity/006A?fields=AccountId`]: { AccountId: "001X" },
+      [`GET ${base}/Account/001X?fields=Industry%2CNumberOfEmployees`]: { Industry: "Retail", NumberOfEmployees: 90 },
+    });
+    const adapter = createSalesforceAdapter("https://acme.my.salesforce.com/", "token", fetchFn);
+
+    await adapter.updateOpportunity("006A", { ROI_Multiple__c: 2.5 });
+    expect(calls[0]).toEqual({ method: "PATCH", url: `${base}/Opportunity/006A`, body: { ROI_Multiple__c: 2.5 } });
+    expect(await adapter.getOpportunityAccount("006A", ["Industry", "NumberOfEmployees"])).toEqual({
+      Industry: "Retail",
+      NumberOfEmployees: 90,
+    });
+  });
+
+  test("reports API errors with the status", async () => {
+    const { fetchFn } = fakeFetch({});
+    const adapter = createSalesforceAdapter("https://acme.my.salesforce.com", "token", fetchFn);
+    await expect(adapter.updateOpportunity("nope", { A__c: 1 })).rejects.toThrow("Salesforce API error: 404");
+  });
+});
+
+describe("createHubSpotAdapter", () => {
+  const base = "https://api.hubapi.com/crm/v3/objects";
+
+  test("sends properties as strings and follows the deal's company association", async () => {
+    const { fetchFn, calls } = fakeFetch({
+      [`PATCH ${base}/deals/42`]: { id: "42" },
+      [`GET ${base}/deals/42/associations/companies`]: { results: [{ id: "7" }] },
+      [`GET ${base}/companies/7?properties=industry`]: { id: "7", properties: { industry: "RETAIL" } },
+    });
+    const adapter = createHubSpotAdapter("token", fetchFn);
+
+    await adapter.updateOpportunity("42", { roi_multiple: 2.5 });
+    expect(calls[0]!.body).toEqual({ properties: { roi_multiple: "2.5" } });
+    expect(await adapter.getOpportunityAccount("42", ["industry"])).toEqual({ industry: "RETAIL" });
+  });
+
+  test("a deal without a company has no account", async () => {
+    const { fetchFn } = fakeFetch({ [`GET ${base}/deals/42/associations/companies`]: { results: [] } });
+    expect(await createHubSpotAdapter("token", fetchFn).getOpportunityAccount("42", ["industry"])).toBeNull();
+  });
+});
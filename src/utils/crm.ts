@@ -0,0 +1,273 @@
+// ============================================================
+// CRM opportunity sync — which metrics go to which opportunity
+// fields, and the adapters that talk to each CRM. Mapping config
+// and sync status live in convex/crm.ts.
+// ============================================================
+
+import type { ApiSummary } from "./fullCalculation";
+
+export type CrmProvider = "salesforce" | "hubspot";
+
+export const CRM_PROVIDERS: CrmProvider[] = ["salesforce", "hubspot"];
+
+export const CRM_PROVIDER_LABELS: Record<CrmProvider, string> = {
+  salesforce: "Salesforce",
+  hubspot: "HubSpot",
+};
+
+export type CrmMetric = "annualValue" | "roiMultiple" | "npv" | "topDimension";
+
+export const CRM_METRICS: CrmMetric[] = ["annualValue", "roiMultiple", "npv", "topDimension"];
+
+export const CRM_METRIC_LABELS: Record<CrmMetric, string> = {
+  annualValue: "Total annual value",
+  roiMultiple: "ROI multiple",
+  npv: "NPV",
+  topDimension: "Top value dimension",
+};
+
+export type CrmAccountField = "industry" | "employeeCount";
+
+export const CRM_ACCOUNT_FIELDS: CrmAccountField[] = ["industry", "employeeCount"];
+
+export interface CrmMapping {
+  /** Opportunity field (API name) each metric is written to. Unmapped metrics aren't sent. */
+  opportunityFields: Partial<Record<CrmMetric, string>>;
+  /** Account field (API name) each company field is read from. Unmapped fields aren't pulled. */
+  accountFields: Partial<Record<CrmAccountField, string>>;
+}
+
+/** Suggested field names; custom opportunity fields have to be created in the CRM first */
+export const DEFAULT_CRM_MAPPINGS: Record<CrmProvider, CrmMapping> = {
+  salesforce: {
+    opportunityFields: {
+      annualValue: "ROI_Annual_Value__c",
+      roiMultiple: "ROI_Multiple__c",
+      npv: "ROI_NPV__c",
+      topDimension: "ROI_Top_Dimension__c",
+    },
+    accountFields: { industry: "Industry", employeeCount: "NumberOfEmployees" },
+  },
+  hubspot: {
+    opportunityFields: {
+      annualValue: "roi_annual_value",
+      roiMultiple: "roi_multiple",
+      npv: "roi_npv",
+      topDimension: "roi_top_dimension",
+    },
+    accountFields: { industry: "industry", employeeCount: "numberofemployees" },
+  },
+};
+
+// ============================================================
+// Metrics
+// ============================================================
+
+export type CrmFieldValue = string | number;
+
+export type CrmMetrics = Record<CrmMetric, CrmFieldValue | null>;
+
+/**
+ * The values pushed to the opportunity. NPV is null without any investment
+ * to discount against, the ROI multiple without a proposed spend.
+ */
+export function buildCrmMetrics(
+  summary: Pick<ApiSummary, "totalAnnualValue" | "roiMultiple" | "npv" | "implementationCost"> & {
+    dimensionTotals: Array<Pick<ApiSummary["dimensionTotals"][number], "label" | "total">>;
+  },
+  proposedSpend?: number
+): CrmMetrics {
+  const hasInvestment = (proposedSpend ?? 0) > 0 || summary.implementationCost > 0;
+  const top = summary.dimensionTotals.reduce<(typeof summary.dimensionTotals)[number] | null>(
+    (best, d) => (d.total > 0 && (!best || d.total > best.total) ? d : best),
+    null
+  );
+  return {
+    annualValue: summary.totalAnnualValue,
+    roiMultiple: summary.roiMultiple,
+    npv: hasInvestment ? summary.npv : null,
+    topDimension: top?.label ?? null,
+  };
+}
+
+/** Opportunity field values for the mapped metrics that have a value */
+export function mapOpportunityFields(mapping: CrmMapping, metrics: CrmMetrics): Record<string, CrmFieldValue> {
+  const fields: Record<string, CrmFieldValue> = {};
+  for (const metric of CRM_METRICS) {
+    const field = mapping.opportunityFields[metric];
+    const value = metrics[metric];
+    if (field && value !== null) fields[field] = value;
+  }
+  return fields;
+}
+
+export interface CrmAccountProfile {
+  industry?: string;
+  employeeCount?: number;
+}
+
+/** Read the mapped account fields, ignoring blanks and counts that aren't positive numbers */
+export function parseAccountProfile(mapping: CrmMapping, account: Record<string, unknown>): CrmAccountProfile {
+  const profile: CrmAccountProfile = {};
+  const industryField = mapping.accountFields.industry;
+  const industry = industryField ? account[industryField] : undefined;
+  if (typeof industry === "string" && industry.trim()) profile.industry = industry.trim();
+
+  const countField = mapping.accountFields.employeeCount;
+  const raw = countField ? account[countField] : undefined;
+  const count = typeof raw === "string" ? Number(raw.replace(/,/g, "")) : raw;
+  if (typeof count === "number" && Number.isFinite(count) && count > 0) profile.employeeCount = Math.round(count);
+  return profile;
+}
+
+// ============================================================
+// Adapters
+// ============================================================
+
+export interface CrmAdapter {
+  provider: CrmProvider;
+  /** Write field values onto the opportunity (a Salesforce Opportunity or HubSpot deal) */
+  updateOpportunity(opportunityId: string, fields: Record<string, CrmFieldValue>): Promise<void>;
+  /** The requested fields of the account the opportunity belongs to, or null when it has none */
+  getOpportunityAccount(opportunityId: string, fields: string[]): Promise<Record<string, unknown> | null>;
+}
+
+export class CrmApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "CrmApiError";
+  }
+}
+
+export interface CrmSyncResult {
+  pushed: Record<string, CrmFieldValue>;
+  account: CrmAccountProfile | null;
+}
+
+/** Push the metrics to the opportunity, then pull the account profile back */
+export async function syncOpportunity(
+  adapter: CrmAdapter,
+  mapping: CrmMapping,
+  opportunityId: string,
+  metrics: CrmMetrics
+): Promise<CrmSyncResult> {
+  const pushed = mapOpportunityFields(mapping, metrics);
+  if (Object.keys(pushed).length > 0) await adapter.updateOpportunity(opportunityId, pushed);
+
+  const accountFields = CRM_ACCOUNT_FIELDS.flatMap((f) => mapping.accountFields[f] ?? []);
+  if (accountFields.length === 0) return { pushed, account: null };
+  const account = await adapter.getOpportunityAccount(opportunityId, accountFields);
+  return { pushed, account: account ? parseAccountProfile(mapping, account) : null };
+}
+
+type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+async function request<T>(fetchFn: FetchFn, provider: CrmProvider, url: string, init: RequestInit): Promise<T> {
+  const response = await fetchFn(url, init);
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new CrmApiError(
+      `${CRM_PROVIDER_LABELS[provider]} API error: ${response.status} ${response.statusText}. ${body}`.trim(),
+      response.status
+    );
+  }
+  // Updates answer 204 No Content
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+const SALESFORCE_API_VERSION = "v59.0";
+
+export function createSalesforceAdapter(instanceUrl: string, accessToken: string, fetchFn: FetchFn = fetch): CrmAdapter {
+  const base = `${instanceUrl.replace(/\/$/, "")}/services/data/${SALESFORCE_API_VERSION}/sobjects`;
+  const headers = { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" };
+  return {
+    provider: "salesforce",
+    async updateOpportunity(opportunityId, fields) {
+      await request(fetchFn, "salesforce", `${base}/Opportunity/${encodeURIComponent(opportunityId)}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify(fields),
+      });
+    },
+    async getOpportunityAccount(opportunityId, fields) {
+      const opportunity = await request<{ AccountId?: string | null }>(
+        fetchFn,
+        "salesforce",
+        `${base}/Opportunity/${encodeURIComponent(opportunityId)}?fields=AccountId`,
+        { method: "GET", headers }
+      );
+      if (!opportunity.AccountId) return null;
+      const params = new URLSearchParams({ fields: fields.join(",") });
+      return await request<Record<string, unknown>>(
+        fetchFn,
+        "salesforce",
+        `${base}/Account/${encodeURIComponent(opportunity.AccountId)}?${params.toString()}`,
+        { method: "GET", headers }
+      );
+    },
+  };
+}
+
+const HUBSPOT_API_BASE = "https://api.hubapi.com/crm/v3/objects";
+
+export function createHubSpotAdapter(accessToken: string, fetchFn: FetchFn = fetch): CrmAdapter {
+  const headers = { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" };
+  return {
+    provider: "hubspot",
+    async updateOpportunity(opportunityId, fields) {
+      // HubSpot stores every property as a string
+      const properties = Object.fromEntries(Object.entries(fields).map(([k, v]) => [k, String(v)]));
+      await request(fetchFn, "hubspot", `${HUBSPOT_API_BASE}/deals/${encodeURIComponent(opportunityId)}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ properties }),
+      });
+    },
+    async getOpportunityAccount(opportunityId, fields) {
+      const associations = await request<{ results?: Array<{ id: string }> }>(
+        fetchFn,
+        "hubspot",
+        `${HUBSPOT_API_BASE}/deals/${encodeURIComponent(opportunityId)}/associations/companies`,
+        { method: "GET", headers }
+      );
+      const companyId = associations.results?.[0]?.id;
+      if (!companyId) return null;
+      const params = new URLSearchParams({ properties: fields.join(",") });
+      const company = await request<{ properties?: Record<string, unknown> }>(
+        fetchFn,
+        "hubspot",
+        `${HUBSPOT_API_BASE}/companies/${encodeURIComponent(companyId)}?${params.toString()}`,
+        { method: "GET", headers }
+      );
+      return company.properties ?? {};
+    },
+  };
+}
+
+/**
+ * In-memory CRM for tests and local development. Records every update and
+ * answers account lookups from `accounts`, keyed by opportunity ID.
+ */
+export function createStubCrmAdapter(
+  accounts: Record<string, Record<string, unknown> | null> = {},
+  provider: CrmProvider = "salesforce"
+) {
+  const updates: Array<{ opportunityId: string; fields: Record<string, CrmFieldValue> }> = [];
+  const adapter: CrmAdapter = {
+    provider,
+    async updateOpportunity(opportunityId, fields) {
+      if (!(opportunityId in accounts)) throw new CrmApiError(`Opportunity ${opportunityId} not found`, 404);
+      updates.push({ opportunityId, fields });
+    },
+    async getOpportunityAccount(opportunityId, fields) {
+      const account = accounts[opportunityId];
+      if (account === undefined) throw new CrmApiError(`Opportunity ${opportunityId} not found`, 404);
+      if (!account) return null;
+      return Object.fromEntries(fields.filter((f) => f in account).map((f) => [f, account[f]]));
+    },
+  };
+  return { adapter, updates };
+}
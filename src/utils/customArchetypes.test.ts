@@ -0,0 +1,142 @@
+import { test, expect, describe } from "bun:test";
+import {
+  computesSameValue,
+  evaluateCustomArchetype,
+  getArchetypeFields,
+  getArchetypeInfo,
+  renderCustomTrace,
+  toCustomArchetypeKey,
+  validateCustomArchetype,
+} from "./customArchetypes";
+import { calculateComputedValue, calculateItemAnnualValue } from "./calculations";
+import type { ConfidenceTier, CustomArchetypeDefinition, ValueItem } from "../types/roi";
+
+const CLAIMS: CustomArchetypeDefinition = {
+  key: "custom_claims_triage",
+  label: "Claims Triage",
+  dimension: "productivity",
+  fields: [
+    { key: "claims", label: "Claims per year", type: "number", defaultValue: 12000 },
+    { key: "minutesSaved", label: "Minutes saved per claim", type: "number", defaultValue: 6 },
+    { key: "hourlyRate", label: "Adjuster hourly rate", type: "currency", defaultValue: 45 },
+  ],
+  formula: "claims * minutesSaved / 60 * hourlyRate",
+};
+
+function inputs(values: Record<string, number>) {
+  return Object.fromEntries(
+    Object.entries(values).map(([k, value]) => [k, { value, confidence: "A" as ConfidenceTier }])
+  );
+}
+
+function createItem(def: CustomArchetypeDefinition, values: Record<string, number>): ValueItem {
+  return {
+    _id: "item_1" as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype: def.key,
+    customArchetype: def,
+    dimension: def.dimension,
+    name: def.label,
+    inputs: inputs(values),
+    order: 0,
+  };
+}
+
+describe("toCustomArchetypeKey", () => {
+  test("slugs the label with the custom_ prefix", () => {
+    expect(toCustomArchetypeKey("Claims Triage")).toBe("custom_claims_triage");
+    expect(toCustomArchetypeKey("  R&D -- Review! ")).toBe("custom_r_d_review");
+    expect(toCustomArchetypeKey("!!!")).toBe("custom_archetype");
+  });
+});
+
+describe("custom archetype evaluation", () => {
+  test("evaluates the formula against input values", () => {
+    expect(evaluateCustomArchetype(CLAIMS, inputs({ claims: 12000, minutesSaved: 6, hourlyRate: 45 }))).toBe(54000);
+  });
+
+  test("an invalid formula evaluates to 0 instead of throwing", () => {
+    expect(evaluateCustomArchetype({ formula: "claims *" }, inputs({ claims: 1 }))).toBe(0);
+  });
+
+  test("value items with a custom archetype flow through the shared engine", () => {
+    const item = createItem(CLAIMS, { claims: 1000, minutesSaved: 12, hourlyRate: 60 });
+    expect(calculateItemAnnualValue(item)).toBe(12000);
+    const computed = calculateComputedValue(item);
+    expect(computed.annualValue).toBe(12000);
+    expect(computed.formula).toBe("1,000 × 12 ÷ 60 × $60 = $12,000");
+  });
+
+  test("field and display metadata come from the definition", () => {
+    const item = createItem(CLAIMS, {});
+    expect(getArchetypeFields(item).map((f) => f.key)).toEqual(["claims", "minutesSaved", "hourlyRate"]);
+    expect(getArchetypeFields(item)[0]!.defaultConfidence).toBe("A");
+    expect(getArchetypeInfo(item)).toMatchObject({ label: "Claims Triage", dimension: "productivity", custom: true });
+  });
+});
+
+describe("renderCustomTrace", () => {
+  test("fills the trace template with formatted values", () => {
+    const def = { ...CLAIMS, traceTemplate: "{claims} claims × {minutesSaved} min × {hourlyRate}/hr" };
+    expect(renderCustomTrace(def, inputs({ claims: 1000, minutesSaved: 6, hourlyRate: 45 }))).toBe(
+      "1,000 claims × 6 min × $45/hr"
+    );
+  });
+
+  test("falls back to the formula with values substituted", () => {
+    expect(renderCustomTrace(CLAIMS, inputs({ claims: 10, minutesSaved: 6, hourlyRate: 45 }))).toBe(
+      "10 × 6 ÷ 60 × $45"
+    );
+  });
+});
+
+describe("validateCustomArchetype", () => {
+  test("accepts a well-formed definition", () => {
+    expect(validateCustomArchetype(CLAIMS)).toEqual([]);
+  });
+
+  test("reports each problem", () => {
+    const errors = validateCustomArchetype({
+      label: " ",
+      dimension: "nope" as any,
+      fields: [
+        { key: "a", label: "A", type: "number" },
+        { key: "a", label: "A again", type: "number" },
+        { key: "max", label: "Reserved", type: "number" },
+        { key: "1bad", label: "Bad", type: "number" },
+      ],
+      formula: "a * missing",
+      traceTemplate: "{other}",
+    });
+    expect(errors).toContain("Label is required");
+    expect(errors.some((e) => e.startsWith('Invalid dimension "nope"'))).toBe(true);
+    expect(errors).toContain('Duplicate field key "a"');
+    expect(errors).toContain('Field key "max" is reserved');
+    expect(errors.some((e) => e.startsWith('Invalid field key "1bad"'))).toBe(true);
+    expect(errors).toContain('Unknown input "missing" in formula');
+    expect(errors).toContain('Unknown input "{other}" in trace template');
+  });
+});
+
+describe("computesSameValue", () => {
+  test("ignores labels, prompts, defaults and formula spacing", () => {
+    const relabeled: CustomArchetypeDefinition = {
+      ...CLAIMS,
+      key: "custom_claims_triage_2",
+      label: "Claim Routing",
+      fields: [...CLAIMS.fields].reverse().map((f) => ({ ...f, prompt: "?", defaultValue: 1 })),
+      formula: "claims*minutesSaved/60*hourlyRate",
+    };
+    expect(computesSameValue(CLAIMS, relabeled)).toBe(true);
+  });
+
+  test("differs on the formula, the fields or the dimension", () => {
+    expect(computesSameValue(CLAIMS, { ...CLAIMS, formula: "claims * minutesSaved / 60" })).toBe(false);
+    expect(computesSameValue(CLAIMS, { ...CLAIMS, fields: CLAIMS.fields.slice(1) })).toBe(false);
+    expect(
+      computesSameValue(CLAIMS, { ...CLAIMS, fields: CLAIMS.fields.map((f) => ({ ...f, type: "hours" as const })) })
+    ).toBe(false);
+    expect(computesSameValue(CLAIMS, { ...CLAIMS, dimension: "revenue_impact" })).toBe(false);
+  });
+});
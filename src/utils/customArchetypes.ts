@@ -0,0 +1,228 @@
+import type { ArchetypeFieldDef } from "../types/archetypes";
+import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import type {
+  Archetype,
+  CustomArchetypeDefinition,
+  CustomArchetypeField,
+  CustomArchetypeKey,
+  Dimension,
+  ValueItem,
+} from "../types/roi";
+import { ARCHETYPE_DIMENSION, ARCHETYPE_INFO, DIMENSION_ORDER } from "../types/roi";
+import { FORMULA_FUNCTIONS, evaluateFormula, getFormulaVariables, validateFormula } from "./formula";
+
+// ============================================================
+// Custom archetypes
+// Company-defined value drivers: field definitions, a safe
+// arithmetic formula, a dimension and a trace template. Value
+// items carry a copy of the definition, so the same engine runs
+// them on client and server without a lookup.
+// ============================================================
+
+export const CUSTOM_ARCHETYPE_PREFIX = "custom_";
+export const MAX_CUSTOM_FIELDS = 12;
+
+const FIELD_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FIELD_TYPES: CustomArchetypeField["type"][] = ["number", "percentage", "currency", "hours"];
+
+type ArchetypeRef = Pick<ValueItem, "archetype" | "customArchetype">;
+
+export function isCustomArchetype(archetype: string): archetype is CustomArchetypeKey {
+  return archetype.startsWith(CUSTOM_ARCHETYPE_PREFIX);
+}
+
+/**
+ * Derive a custom archetype key from its label ("Claims Triage" → "custom_claims_triage")
+ */
+export function toCustomArchetypeKey(label: string): CustomArchetypeKey {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+  return `${CUSTOM_ARCHETYPE_PREFIX}${slug || "archetype"}`;
+}
+
+/**
+ * Custom fields as form field definitions (prompt defaults to the label, confidence to A)
+ */
+export function toArchetypeFieldDefs(def: Pick<CustomArchetypeDefinition, "fields">): ArchetypeFieldDef[] {
+  return def.fields.map((f) => ({
+    key: f.key,
+    label: f.label,
+    type: f.type,
+    prompt: f.prompt || f.label,
+    defaultConfidence: f.defaultConfidence ?? "A",
+    ...(f.defaultValue !== undefined && { defaultValue: f.defaultValue }),
+  }));
+}
+
+/**
+ * Input field definitions for a value item, built-in or custom
+ */
+export function getArchetypeFields(item: ArchetypeRef): ArchetypeFieldDef[] {
+  if (item.customArchetype) return toArchetypeFieldDefs(item.customArchetype);
+  return ARCHETYPE_FIELDS[item.archetype as Archetype] ?? [];
+}
+
+/**
+ * Display metadata for a value item's archetype, built-in or custom
+ */
+export function getArchetypeInfo(item: ArchetypeRef): {
+  label: string;
+  description: string;
+  dimension: Dimension;
+  formulaDescription: string;
+  custom: boolean;
+} {
+  const custom = item.customArchetype;
+  if (custom) {
+    return {
+      label: custom.label,
+      description: custom.description ?? "",
+      dimension: custom.dimension,
+      formulaDescription: custom.formula,
+      custom: true,
+    };
+  }
+  const info = ARCHETYPE_INFO[item.archetype as Archetype];
+  return {
+    label: info?.label ?? item.archetype,
+    description: info?.description ?? "",
+    dimension: info?.dimension ?? ARCHETYPE_DIMENSION[item.archetype as Archetype],
+    formulaDescription: info?.formulaDescription ?? "",
+    custom: false,
+  };
+}
+
+function inputValues(inputs: Record<string, { value: number }>): Record<string, number> {
+  return Object.fromEntries(Object.entries(inputs).map(([k, i]) => [k, i?.value ?? 0]));
+}
+
+/**
+ * Annual value of a custom archetype's formula for the given inputs (0 if the formula is invalid)
+ */
+export function evaluateCustomArchetype(
+  def: Pick<CustomArchetypeDefinition, "formula">,
+  inputs: Record<string, { value: number }>
+): number {
+  try {
+    return evaluateFormula(def.formula, inputValues(inputs));
+  } catch {
+    return 0;
+  }
+}
+
+function formatFieldValue(field: CustomArchetypeField | undefined, value: number): string {
+  switch (field?.type) {
+    case "percentage":
+      return `${(value * 100).toFixed(0)}%`;
+    case "currency":
+      return `$${value.toLocaleString()}`;
+    case "hours":
+      return `${value}h`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+/**
+ * Human-readable calculation string: the trace template with {key} placeholders filled in,
+ * or the formula itself with input values substituted
+ */
+export function renderCustomTrace(
+  def: Pick<CustomArchetypeDefinition, "fields" | "formula" | "traceTemplate">,
+  inputs: Record<string, { value: number }>
+): string {
+  const fieldsByKey = new Map(def.fields.map((f) => [f.key, f]));
+  const format = (key: string) => formatFieldValue(fieldsByKey.get(key), inputs[key]?.value ?? 0);
+
+  if (def.traceTemplate?.trim()) {
+    return def.traceTemplate.replace(/\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, key: string) =>
+      fieldsByKey.has(key) ? format(key) : match
+    );
+  }
+
+  return def.formula
+    .replace(/[A-Za-z_][A-Za-z0-9_]*/g, (name) => (fieldsByKey.has(name) ? format(name) : name))
+    .replace(/\*/g, "×")
+    .replace(/\//g, "÷");
+}
+
+/**
+ * Validate a custom archetype definition. Returns error messages (empty when valid).
+ */
+export function validateCustomArchetype(
+  def: Pick<CustomArchetypeDefinition, "label" | "dimension" | "fields" | "formula" | "traceTemplate">
+): string[] {
+  const errors: string[] = [];
+
+  if (!def.label.trim()) errors.push("Label is required");
+  if (!DIMENSION_ORDER.includes(def.dimension)) {
+    errors.push(`Invalid dimension "${def.dimension}". Valid dimensions: ${DIMENSION_ORDER.join(", ")}`);
+  }
+
+  if (def.fields.length === 0) errors.push("At least one input field is required");
+  if (def.fields.length > MAX_CUSTOM_FIELDS) errors.push(`At most ${MAX_CUSTOM_FIELDS} input fields are allowed`);
+
+  const keys = new Set<string>();
+  for (const field of def.fields) {
+    if (!FIELD_KEY_PATTERN.test(field.key)) {
+      errors.push(`Invalid field key "${field.key}". Use letters, digits and underscores, starting with a letter`);
+    } else if ((FORMULA_FUNCTIONS as string[]).includes(field.key.toLowerCase())) {
+      errors.push(`Field key "${field.key}" is reserved`);
+    } else if (keys.has(field.key)) {
+      errors.push(`Duplicate field key "${field.key}"`);
+    }
+    keys.add(field.key);
+    if (!field.label.trim()) errors.push(`Field "${field.key}" needs a label`);
+    if (!FIELD_TYPES.includes(field.type)) errors.push(`Invalid type "${field.type}" for field "${field.key}"`);
+    if (field.defaultValue !== undefined && !Number.isFinite(field.defaultValue)) {
+      errors.push(`Default value for "${field.key}" must be a number`);
+    }
+  }
+
+  errors.push(...validateFormula(def.formula, [...keys]));
+
+  if (def.traceTemplate) {
+    for (const [, key] of def.traceTemplate.matchAll(/\{([^}]*)\}/g)) {
+      if (!keys.has(key!)) errors.push(`Unknown input "{${key}}" in trace template`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Input keys the formula actually uses (for flagging unused fields)
+ */
+export function getUsedFieldKeys(def: Pick<CustomArchetypeDefinition, "formula">): string[] {
+  try {
+    return getFormulaVariables(def.formula);
+  } catch {
+    return [];
+  }
+}
+
+type ValueDefinition = {
+  dimension: string;
+  formula: string;
+  fields: Array<Pick<CustomArchetypeField, "key" | "type">>;
+};
+
+/**
+ * Whether two definitions value items the same way: same dimension, formula
+ * and input fields. Labels, prompts and defaults don't change the totals.
+ */
+export function computesSameValue(a: ValueDefinition, b: ValueDefinition): boolean {
+  const fieldTypes = (def: ValueDefinition) =>
+    def.fields
+      .map((f) => `${f.key}:${f.type}`)
+      .sort()
+      .join(",");
+  return (
+    a.dimension === b.dimension &&
+    a.formula.replace(/\s+/g, "") === b.formula.replace(/\s+/g, "") &&
+    fieldTypes(a) === fieldTypes(b)
+  );
+}
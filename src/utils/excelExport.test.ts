@@ -0,0 +1,113 @@
+import { test, expect, describe } from "bun:test";
+import {
+  EXCEL_ARCHETYPE_FORMULAS,
+  CONFIDENCE_FILLS,
+  buildCalculationWorkbook,
+  customFormulaToExcel,
+  exportCalculationXlsx,
+  fillFormulaTemplate,
+} from "./excelExport";
+import { calculateArchetypeValue, calculateSummary } from "./calculations";
+import { evaluateFormula } from "./formula";
+import { readXlsx } from "./xlsx";
+import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import { ARCHETYPE_DIMENSION, DEFAULT_ASSUMPTIONS, type Archetype, type ValueItem } from "../types/roi";
+
+function createItem(name: string, archetype: string, inputs: Record<string, number>, overrides?: Partial<ValueItem>): ValueItem {
+  return {
+    _id: name as any,
+    _creationTime: 0,
+    calculationId: "calc_id" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype as Archetype] ?? "productivity",
+    name,
+    inputs: Object.fromEntries(Object.entries(inputs).map(([k, v]) => [k, { value: v, confidence: "A" }])),
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  } as unknown as ValueItem;
+}
+
+describe("EXCEL_ARCHETYPE_FORMULAS", () => {
+  const archetypes = Object.keys(ARCHETYPE_FIELDS) as Archetype[];
+
+  test("uses exactly the archetype's input keys", () => {
+    for (const archetype of archetypes) {
+      const placeholders = [...EXCEL_ARCHETYPE_FORMULAS[archetype].matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+      expect(new Set(placeholders)).toEqual(new Set(ARCHETYPE_FIELDS[archetype].map((f) => f.key)));
+    }
+  });
+
+  test("matches the calculation engine for every archetype", () => {
+    for (const archetype of archetypes) {
+      const fields = ARCHETYPE_FIELDS[archetype];
+      const inputs = Object.fromEntries(fields.map((f, i) => [f.key, { value: f.type === "percentage" ? 0.05 * (i + 1) : 7 * (i + 2) }]));
+      const excel = fillFormulaTemplate(
+        EXCEL_ARCHETYPE_FORMULAS[archetype],
+        Object.fromEntries(Object.entries(inputs).map(([k, v]) => [k, String(v.value)]))
+      );
+      expect(evaluateFormula(excel, {})).toBeCloseTo(calculateArchetypeValue(archetype, inputs), 6);
+    }
+  });
+
+  test("missing inputs count as zero", () => {
+    expect(fillFormulaTemplate("{a}*{b}", { a: "C2" })).toBe("C2*0");
+  });
+});
+
+describe("customFormulaToExcel", () => {
+  test("maps functions and guards division by cell values", () => {
+    expect(customFormulaToExcel("claims * minutes / 60", { claims: "F2", minutes: "H2" })).toBe("IFERROR(((F2*H2)/60),0)");
+    expect(customFormulaToExcel("a / b", { a: "F2", b: "H2" })).toBe("IFERROR(IF(H2=0,0,F2/H2),0)");
+    expect(customFormulaToExcel("round(max(a, 1)) + ceil(-a)", { a: "F2" })).toBe(
+      "IFERROR((ROUND(MAX(F2,1),0)+(-INT(-(-F2)))),0)"
+    );
+  });
+});
+
+describe("buildCalculationWorkbook", () => {
+  const calculation = {
+    name: "Acme",
+    assumptions: DEFAULT_ASSUMPTIONS,
+    proposedSpend: 50000,
+    implementationCost: 20000,
+  };
+  const valueItems = [
+    createItem("Invoices", "task_elimination", { tasksPerMonth: 200, minutesPerTask: 6, hourlyRate: 50 }),
+    createItem("Leakage", "revenue_capture", { annualRevenue: 1_000_000, leakageRate: 0.05, captureImprovement: 0.5 }, {
+      useCaseId: "uc1" as any,
+    }),
+    createItem("Backlog", "labor_avoidance", { ftesAvoided: 1, fullyLoadedAnnualCost: 90000 }, { manualAnnualValue: 30000 }),
+  ];
+  const useCases = [{ _id: "uc1" as any, name: "Billing", goLiveMonth: 4, rampMonths: 3 }];
+
+  test("has a summary, one sheet per dimension with items, assumptions and projection", () => {
+    const sheets = buildCalculationWorkbook({ calculation, valueItems, useCases });
+    expect(sheets.map((s) => s.name)).toEqual(["Summary", "Revenue Impact", "Productivity", "Cost Avoidance", "Assumptions", "Projection"]);
+  });
+
+  test("colours inputs by confidence tier and writes formulas for values", () => {
+    const items = [createItem("Invoices", "task_elimination", { tasksPerMonth: 200, minutesPerTask: 6, hourlyRate: 50 })];
+    items[0]!.inputs.hourlyRate = { value: 50, confidence: "C" };
+    const productivity = buildCalculationWorkbook({ calculation, valueItems: items }).find((s) => s.name === "Productivity")!;
+    const row = productivity.rows[1]!;
+    expect(row[2]!.formula).toBe("F2*H2*(J2/60)*12");
+    expect(row[5]!.style?.fill).toBe(CONFIDENCE_FILLS.A);
+    expect(row[9]!.style?.fill).toBe(CONFIDENCE_FILLS.C);
+    expect(productivity.rows[2]![2]!.formula).toBe("SUM(C2:C2)");
+  });
+
+  test("cached values match calculateSummary, including go-live schedules", async () => {
+    const summary = calculateSummary(valueItems, DEFAULT_ASSUMPTIONS, 50000, 20000, useCases);
+    const sheets = await readXlsx(exportCalculationXlsx({ calculation, valueItems, useCases }));
+    const byName = Object.fromEntries(sheets.map((s) => [s.name, s.rows]));
+
+    const totalRow = byName.Summary!.find((r) => r[0] === "Total annual value")!;
+    expect(totalRow[1]).toBeCloseTo(summary.totalAnnualValue, 6);
+    expect(byName.Summary!.find((r) => r[0] === "NPV")![1]).toBeCloseTo(summary.npv, 6);
+
+    const years = byName.Projection!.filter((r) => typeof r[0] === "number");
+    expect(years.map((r) => r[1] as number)).toEqual(summary.projection.map((p) => expect.closeTo(p.value, 6)));
+    expect(years.map((r) => r[6] as number)).toEqual(summary.projection.map((p) => expect.closeTo(p.cumulativeNetValue, 6)));
+  });
+});
@@ -0,0 +1,394 @@
+// ============================================================
+// Excel export — a workbook that recalculates on its own
+// Summary, one sheet per dimension (one row per value item),
+// Assumptions and Projection. Inputs are plain cells coloured by
+// confidence tier; every total is a live formula, so customers
+// can change inputs in Excel and watch the numbers follow.
+// ============================================================
+
+import type { Archetype, Assumptions, Calculation, ConfidenceTier, Dimension, UseCase, ValueItem } from "../types/roi";
+import { DEFAULT_DISCOUNT_RATE, DIMENSION_INFO, DIMENSION_ORDER, normalizeConfidence } from "../types/roi";
+import {
+  calculateComputedValue,
+  calculateIRR,
+  calculateItemAnnualValue,
+  calculateNPV,
+  calculateProjection,
+  buildCashFlows,
+  getStreamRealization,
+  type ValueStream,
+} from "./calculations";
+import { getArchetypeFields, getArchetypeInfo, isCustomArchetype } from "./customArchetypes";
+import { parseFormula, type FormulaNode } from "./formula";
+import { cellRef, sheetRef, writeXlsx, type CellStyle, type OutputCell, type OutputSheet } from "./xlsx";
+
+// ============================================================
+// Archetype formulas
+// Excel versions of ARCHETYPE_CALCULATORS in calculations.ts,
+// with {inputKey} placeholders for the input cells
+// ============================================================
+
+export const EXCEL_ARCHETYPE_FORMULAS: Record<Archetype, string> = {
+  pipeline_velocity: "{dealsPerQuarter}*{avgDealValue}*{conversionLift}*4",
+  revenue_capture: "{annualRevenue}*{leakageRate}*{captureImprovement}",
+  revenue_expansion: "{customerBase}*{expansionRate}*{avgExpansionValue}*{lift}",
+  time_to_revenue: "{newCustomersPerYear}*{revenuePerCustomer}*{daysAccelerated}/365",
+  process_acceleration: "{processesPerMonth}*({timeBeforeHrs}-{timeAfterHrs})*{hourlyRate}*12",
+  handoff_elimination: "{handoffsPerMonth}*{avgQueueTimeHrs}*{hourlyRateOfWaitingParty}*12",
+  task_elimination: "{tasksPerMonth}*{minutesPerTask}*({hourlyRate}/60)*12",
+  task_simplification: "{tasksPerMonth}*{minutesSavedPerTask}*({hourlyRate}/60)*12",
+  context_surfacing:
+    "{meetingsAvoidedPerMonth}*{attendeesPerMeeting}*{meetingDurationHrs}*{meetingHourlyRate}*12" +
+    "+{searchesAvoidedPerMonth}*{avgSearchTimeMin}*({searchHourlyRate}/60)*12",
+  labor_avoidance: "{ftesAvoided}*{fullyLoadedAnnualCost}",
+  tool_consolidation: "{toolsEliminated}*{annualLicenseCostPerTool}",
+  error_rework_elimination: "{errorsPerMonth}*{avgCostPerError}*{reductionRate}*12",
+  compliance_assurance: "{expectedViolationsPerYear}*{avgPenaltyPerViolation}*{reductionRate}",
+  data_integrity: "{recordsPerMonth}*{errorRate}*{costPerError}*{reductionRate}*12",
+  incident_prevention: "{incidentsPerYear}*{avgCostPerIncident}*{reductionRate}",
+  process_consistency: "{processesPerMonth}*{defectRate}*{costPerDefect}*{reductionRate}*12",
+};
+
+/** Fill in a formula template; inputs without a cell count as 0, as in getInputValue */
+export function fillFormulaTemplate(template: string, refs: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => refs[key] ?? "0");
+}
+
+/**
+ * Translate a custom archetype formula to Excel. Fully parenthesised so operator
+ * precedence can't differ; division by zero and non-finite results give 0 as in
+ * evaluateFormula.
+ */
+export function customFormulaToExcel(formula: string | FormulaNode, refs: Record<string, string>): string {
+  const visit = (node: FormulaNode): string => {
+    switch (node.type) {
+      case "number":
+        return String(node.value);
+      case "variable":
+        return refs[node.name] ?? "0";
+      case "unary":
+        return `(-${visit(node.operand)})`;
+      case "binary": {
+        const left = visit(node.left);
+        const right = visit(node.right);
+        const guard = node.op === "/" && !(node.right.type === "number" && node.right.value !== 0);
+        return guard ? `IF(${right}=0,0,${left}/${right})` : `(${left}${node.op}${right})`;
+      }
+      case "call": {
+        const args = node.args.map(visit);
+        switch (node.name) {
+          case "round":
+            return `ROUND(${args[0]},0)`;
+          case "floor":
+            return `INT(${args[0]})`;
+          case "ceil":
+            return `(-INT(-${args[0]}))`;
+          default:
+            return `${node.name.toUpperCase()}(${args.join(",")})`;
+        }
+      }
+    }
+  };
+  return `IFERROR(${visit(typeof formula === "string" ? parseFormula(formula) : formula)},0)`;
+}
+
+// ============================================================
+// Workbook
+// ============================================================
+
+/** Input fills, matching the confidence badges in ValueItemsTab */
+export const CONFIDENCE_FILLS: Record<ConfidenceTier, string> = {
+  A: "D1FAE5",
+  B: "DBEAFE",
+  C: "FEF3C7",
+  D: "F3F4F6",
+};
+const CONFIDENCE_LABELS: Record<ConfidenceTier, string> = {
+  A: "Customer provided",
+  B: "Published benchmark",
+  C: "Estimated",
+  D: "Unsourced",
+};
+const ASSUMPTION_FILL = "FFEDD5";
+
+const HEADER: CellStyle = { bold: true };
+const CURRENCY: CellStyle = { numberFormat: "currency" };
+const TOTAL: CellStyle = { bold: true, numberFormat: "currency" };
+
+const text = (value: string, style?: CellStyle): OutputCell => ({ value, style });
+const formula = (f: string, value: number, style?: CellStyle): OutputCell => ({ formula: f, value, style });
+
+function inputFormat(type: string): CellStyle["numberFormat"] {
+  if (type === "currency") return "currency";
+  if (type === "percentage") return "percent";
+  return undefined;
+}
+
+/** Sheet names may not contain : \ / ? * [ ] and are limited to 31 characters */
+function toSheetName(label: string): string {
+  return label.replace(/[:\\/?*[\]]/g, "-").replace(/\s+/g, " ").slice(0, 31);
+}
+
+export interface CalculationWorkbookInput {
+  calculation: Pick<Calculation, "name" | "assumptions" | "proposedSpend" | "implementationCost">;
+  valueItems: ValueItem[];
+  useCases?: Pick<UseCase, "_id" | "name" | "goLiveMonth" | "rampMonths">[];
+}
+
+/**
+ * Build the workbook sheets. Cached values come from the app's calculation
+ * engine, so the file reads correctly even before Excel recalculates.
+ */
+export function buildCalculationWorkbook({ calculation, valueItems, useCases = [] }: CalculationWorkbookInput): OutputSheet[] {
+  const assumptions: Assumptions = calculation.assumptions;
+  const proposedSpend = calculation.proposedSpend ?? 0;
+  const implementationCost = calculation.implementationCost ?? 0;
+  const discountRate = assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE;
+  const years = assumptions.projectionYears;
+
+  // ── Assumptions ─────────────────────────────────────────────────
+  const ASSUMPTIONS = "Assumptions";
+  const assumptionRows: (OutputCell | null)[][] = [[text("Assumption", HEADER), text("Value", HEADER), text("Notes", HEADER)]];
+  const addAssumption = (label: string, value: number, numberFormat: CellStyle["numberFormat"], note = "") => {
+    assumptionRows.push([text(label), { value, style: { fill: ASSUMPTION_FILL, numberFormat } }, note ? text(note) : null]);
+    return `${sheetRef(ASSUMPTIONS)}!${cellRef(assumptionRows.length - 1, 1, true)}`;
+  };
+  const spendRef = addAssumption("Proposed spend (annual)", proposedSpend, "currency");
+  const implementationRef = addAssumption("Implementation cost (one-time)", implementationCost, "currency", "Year 0");
+  const growthRef = addAssumption("Annual growth rate", assumptions.annualGrowthRate, "percent");
+  const discountRef = addAssumption("Discount rate", discountRate, "percent", "For NPV");
+  addAssumption("Projection years", years, undefined, "Fixed in this export");
+  const rampRefs = Array.from({ length: years }, (_, i) =>
+    addAssumption(`Realization year ${i + 1}`, assumptions.realizationRamp[i] ?? 1, "percent", "Items without a go-live month")
+  );
+
+  // ── Dimension sheets ────────────────────────────────────────────
+  const itemRefs = new Map<ValueItem, string>(); // value item → absolute ref of its annual value cell
+  const dimensionSheets: OutputSheet[] = [];
+  const dimensionTotals: { dimension: Dimension; ref: string; total: number }[] = [];
+
+  for (const dimension of DIMENSION_ORDER) {
+    const items = valueItems.filter((item) => item.dimension === dimension);
+    if (items.length === 0) continue;
+    const name = toSheetName(DIMENSION_INFO[dimension].label);
+    const maxInputs = Math.max(...items.map((item) => getArchetypeFields(item).length));
+    const rows: (OutputCell | null)[][] = [
+      [
+        text("Value item", HEADER),
+        text("Archetype", HEADER),
+        text("Annual value", HEADER),
+        text("Confidence", HEADER),
+        ...Array.from({ length: maxInputs }, (_, i) => [text(`Input ${i + 1}`, HEADER), text("Value", HEADER)]).flat(),
+      ],
+    ];
+
+    for (const item of items) {
+      const r = rows.length;
+      const fields = getArchetypeFields(item);
+      const info = getArchetypeInfo(item);
+      const computed = calculateComputedValue(item);
+      const refs: Record<string, string> = {};
+      const inputCells: OutputCell[] = fields.flatMap((field, i) => {
+        const input = item.inputs[field.key];
+        refs[field.key] = cellRef(r, 5 + i * 2);
+        const tier = normalizeConfidence(input?.confidence ?? field.defaultConfidence);
+        return [
+          text(field.label),
+          {
+            value: input?.value ?? field.defaultValue ?? 0,
+            style: { fill: CONFIDENCE_FILLS[tier], numberFormat: inputFormat(field.type) },
+          },
+        ];
+      });
+
+      let valueCell: OutputCell;
+      if (item.manualAnnualValue !== undefined && item.manualAnnualValue !== null) {
+        // A manual override replaces the formula; keep it editable like an input
+        valueCell = { value: item.manualAnnualValue, style: { fill: CONFIDENCE_FILLS.A, numberFormat: "currency" } };
+      } else if (item.customArchetype) {
+        valueCell = formula(customFormulaToExcel(item.customArchetype.formula, refs), computed.annualValue, CURRENCY);
+      } else if (!isCustomArchetype(item.archetype)) {
+        valueCell = formula(fillFormulaTemplate(EXCEL_ARCHETYPE_FORMULAS[item.archetype as Archetype], refs), computed.annualValue, CURRENCY);
+      } else {
+        // Custom archetype whose definition is gone: nothing to compute
+        valueCell = { value: 0, style: CURRENCY };
+      }
+
+      const manual = item.manualAnnualValue !== undefined && item.manualAnnualValue !== null;
+      rows.push([text(item.name), text(manual ? `${info.label} (manual value)` : info.label), valueCell, text(computed.confidence), ...inputCells]);
+      itemRefs.set(item, `${sheetRef(name)}!${cellRef(r, 2, true)}`);
+    }
+
+    const total = items.reduce((sum, item) => sum + calculateItemAnnualValue(item), 0);
+    rows.push([text("Total", HEADER), null, formula(`SUM(${cellRef(1, 2)}:${cellRef(rows.length - 1, 2)})`, total, TOTAL)]);
+    dimensionTotals.push({ dimension, ref: `${sheetRef(name)}!${cellRef(rows.length - 1, 2, true)}`, total });
+    dimensionSheets.push({
+      name,
+      rows,
+      columnWidths: [40, 28, 14, 12, ...Array.from({ length: maxInputs }, () => [26, 14]).flat()],
+    });
+  }
+
+  // ── Projection ──────────────────────────────────────────────────
+  // Streams mirror buildValueStreams: one unscheduled stream on the realization
+  // ramp, plus one per use case with a go-live month
+  const PROJECTION = "Projection";
+  const schedules = new Map(
+    useCases.filter((uc) => uc.goLiveMonth !== undefined && uc.goLiveMonth !== null).map((uc) => [String(uc._id), uc])
+  );
+  const streamItems = new Map<string, ValueItem[]>([["", []]]);
+  for (const item of valueItems) {
+    const key = item.useCaseId && schedules.has(String(item.useCaseId)) ? String(item.useCaseId) : "";
+    streamItems.set(key, [...(streamItems.get(key) ?? []), item]);
+  }
+
+  const streams: ValueStream[] = [];
+  const projectionRows: (OutputCell | null)[][] = [
+    [
+      text("Value stream", HEADER),
+      text("Annual value", HEADER),
+      text("Go-live month", HEADER),
+      text("Ramp months", HEADER),
+      ...Array.from({ length: years }, (_, i) => text(`Year ${i + 1} realization`, HEADER)),
+    ],
+  ];
+  for (const [key, items] of streamItems) {
+    const r = projectionRows.length;
+    const useCase = schedules.get(key);
+    const stream: ValueStream = {
+      annualValue: items.reduce((sum, item) => sum + calculateItemAnnualValue(item), 0),
+      ...(useCase && { goLiveMonth: useCase.goLiveMonth, rampMonths: useCase.rampMonths }),
+    };
+    streams.push(stream);
+
+    const goLive = cellRef(r, 2, true);
+    const ramp = cellRef(r, 3, true);
+    const realization = Array.from({ length: years }, (_, y) => {
+      if (!useCase) return formula(rampRefs[y]!, assumptions.realizationRamp[y] ?? 1, { numberFormat: "percent" });
+      // Average over the year's months of getStreamRealization:
+      // 0 before go-live, then (month - goLive + 1) / rampMonths capped at 1
+      const months = `(${y * 12}+{1,2,3,4,5,6,7,8,9,10,11,12}-${goLive}+1)/MAX(${ramp},1)`;
+      let cached = 0;
+      for (let m = 1; m <= 12; m++) cached += getStreamRealization(stream, y * 12 + m, assumptions);
+      return formula(`SUMPRODUCT((${months}>0)*((${months}>=1)+(${months}<1)*${months}))/12`, cached / 12, {
+        numberFormat: "percent",
+      });
+    });
+    const refs = items.map((item) => itemRefs.get(item)!);
+    projectionRows.push([
+      text(useCase ? useCase.name : "Items on the realization ramp"),
+      formula(refs.length > 0 ? refs.join("+") : "0", stream.annualValue, CURRENCY),
+      useCase ? { value: useCase.goLiveMonth!, style: { fill: ASSUMPTION_FILL } } : null,
+      useCase ? { value: useCase.rampMonths ?? 0, style: { fill: ASSUMPTION_FILL } } : null,
+      ...realization,
+    ]);
+  }
+  const firstStream = 1;
+  const lastStream = projectionRows.length - 1;
+
+  const totalAnnualValue = streams.reduce((sum, s) => sum + s.annualValue, 0);
+  const projection = calculateProjection(totalAnnualValue, assumptions, proposedSpend, streams);
+  projectionRows.push([]);
+  const yearHeader = projectionRows.length;
+  projectionRows.push(
+    ["Year", "Value", "Investment", "Net value", "Cumulative value", "Cumulative investment", "Cumulative net value"].map((h) =>
+      text(h, HEADER)
+    )
+  );
+  projection.forEach((p, y) => {
+    const r = projectionRows.length;
+    const realizationColumn = 4 + y;
+    const value = `SUMPRODUCT(${cellRef(firstStream, 1, true)}:${cellRef(lastStream, 1, true)},${cellRef(firstStream, realizationColumn)}:${cellRef(lastStream, realizationColumn)})*(1+${growthRef})^${y}`;
+    const cumulative = (column: number, own: number) =>
+      y === 0 ? cellRef(r, own) : `${cellRef(r - 1, column)}+${cellRef(r, own)}`;
+    projectionRows.push([
+      { value: p.year },
+      formula(value, p.value, CURRENCY),
+      formula(spendRef, p.investment, CURRENCY),
+      formula(`${cellRef(r, 1)}-${cellRef(r, 2)}`, p.netValue, CURRENCY),
+      formula(cumulative(4, 1), p.cumulativeValue, CURRENCY),
+      formula(cumulative(5, 2), p.cumulativeInvestment, CURRENCY),
+      formula(`${cellRef(r, 4)}-${cellRef(r, 5)}`, p.cumulativeNetValue, CURRENCY),
+    ]);
+  });
+  const firstYear = yearHeader + 1;
+  const lastYear = projectionRows.length - 1;
+
+  // Cash flows laid out in a row so NPV and IRR can take one range
+  const cashFlows = buildCashFlows(projection, implementationCost);
+  const irr = calculateIRR(cashFlows);
+  const npv = calculateNPV(projection, discountRate, implementationCost);
+  projectionRows.push([]);
+  const cashRow = projectionRows.length;
+  projectionRows.push([
+    text("Cash flow (year 0..N)", HEADER),
+    formula(`-${implementationRef}`, cashFlows[0]!, CURRENCY),
+    ...projection.map((p, y) => formula(cellRef(firstYear + y, 3), p.netValue, CURRENCY)),
+  ]);
+  const cashRange = `${cellRef(cashRow, 1)}:${cellRef(cashRow, 1 + years)}`;
+  const npvRef = cellRef(projectionRows.length, 1, true);
+  projectionRows.push([
+    text("NPV", HEADER),
+    formula(`${cellRef(cashRow, 1)}+NPV(${discountRef},${cellRef(cashRow, 2)}:${cellRef(cashRow, 1 + years)})`, npv, TOTAL),
+  ]);
+  const irrRef = cellRef(projectionRows.length, 1, true);
+  projectionRows.push([
+    text("IRR", HEADER),
+    irr === null
+      ? { formula: `IFERROR(IRR(${cashRange}),"n/a")`, value: "n/a" }
+      : formula(`IFERROR(IRR(${cashRange}),"n/a")`, irr, { bold: true, numberFormat: "percent" }),
+  ]);
+
+  // ── Summary ─────────────────────────────────────────────────────
+  const summaryRows: (OutputCell | null)[][] = [
+    [text(calculation.name, HEADER)],
+    [],
+    [text("Dimension", HEADER), text("Annual value", HEADER)],
+    ...dimensionTotals.map((d) => [text(DIMENSION_INFO[d.dimension].label), formula(d.ref, d.total, CURRENCY)]),
+  ];
+  const totalRow = summaryRows.length;
+  summaryRows.push([
+    text("Total annual value", HEADER),
+    formula(dimensionTotals.length > 0 ? `SUM(${cellRef(3, 1)}:${cellRef(totalRow - 1, 1)})` : "0", totalAnnualValue, TOTAL),
+  ]);
+  const roi = proposedSpend > 0 ? totalAnnualValue / proposedSpend : null;
+  summaryRows.push(
+    [],
+    [
+      text("ROI multiple"),
+      { formula: `IF(${spendRef}>0,${cellRef(totalRow, 1)}/${spendRef},"n/a")`, value: roi ?? "n/a", style: { numberFormat: "decimal" } },
+    ],
+    [text(`${years}-year net value`), formula(`${sheetRef(PROJECTION)}!${cellRef(lastYear, 6, true)}`, projection[years - 1]?.cumulativeNetValue ?? 0, CURRENCY)],
+    [text("NPV"), formula(`${sheetRef(PROJECTION)}!${npvRef}`, npv, CURRENCY)],
+    [
+      text("IRR"),
+      irr === null
+        ? { formula: `${sheetRef(PROJECTION)}!${irrRef}`, value: "n/a" }
+        : formula(`${sheetRef(PROJECTION)}!${irrRef}`, irr, { numberFormat: "percent" }),
+    ],
+    [],
+    [text("Input colours", HEADER)],
+    ...(Object.keys(CONFIDENCE_FILLS) as ConfidenceTier[]).map((tier) => [
+      { value: tier, style: { fill: CONFIDENCE_FILLS[tier] } },
+      text(CONFIDENCE_LABELS[tier]),
+    ]),
+    [{ value: "", style: { fill: ASSUMPTION_FILL } }, text("Assumption")],
+    [text("Change coloured cells; totals, projection, NPV and IRR recalculate.")]
+  );
+
+  return [
+    { name: "Summary", rows: summaryRows, columnWidths: [34, 16] },
+    ...dimensionSheets,
+    { name: ASSUMPTIONS, rows: assumptionRows, columnWidths: [32, 14, 32] },
+    {
+      name: PROJECTION,
+      rows: projectionRows,
+      columnWidths: [32, 16, 14, 14, ...Array.from({ length: Math.max(years, 3) }, () => 20)],
+    },
+  ];
+}
+
+/** The workbook as .xlsx bytes */
+export function exportCalculationXlsx(input: CalculationWorkbookInput): Uint8Array<ArrayBuffer> {
+  return writeXlsx(buildCalculationWorkbook(input));
+}
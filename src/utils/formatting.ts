@@ -74,6 +74,15 @@ export function formatHours(value: number): string {
   return `${Math.round(value)} hrs`;
 }
 
+/**
+ * Format a payback period in months (e.g., 14 → "14 mo", null → "—")
+ */
+export function formatPaybackMonths(months: number | null): string {
+  if (months === null) return "—";
+  if (months === 0) return "Immediate";
+  return `${months} mo`;
+}
+
 /**
  * Format a date timestamp as a readable string
  */
@@ -0,0 +1,54 @@
+import { test, expect, describe } from "bun:test";
+import { FormulaError, evaluateFormula, getFormulaVariables, parseFormula, validateFormula } from "./formula";
+
+describe("evaluateFormula", () => {
+  test("follows operator precedence and parentheses", () => {
+    expect(evaluateFormula("2 + 3 * 4", {})).toBe(14);
+    expect(evaluateFormula("(2 + 3) * 4", {})).toBe(20);
+    expect(evaluateFormula("-2 ^ 2", {})).toBe(-4);
+    expect(evaluateFormula("2 ^ 3 ^ 2", {})).toBe(512);
+  });
+
+  test("substitutes variables and treats missing ones as 0", () => {
+    expect(evaluateFormula("volume * minutes / 60 * rate", { volume: 1200, minutes: 10, rate: 50 })).toBe(10000);
+    expect(evaluateFormula("a + b", { a: 5 })).toBe(5);
+  });
+
+  test("supports math functions", () => {
+    expect(evaluateFormula("min(a, 100)", { a: 250 })).toBe(100);
+    expect(evaluateFormula("MAX(1, 2, 3)", {})).toBe(3);
+    expect(evaluateFormula("round(2.6) + floor(2.6) + ceil(2.1) + abs(-1)", {})).toBe(9);
+  });
+
+  test("division by zero and non-finite results give 0", () => {
+    expect(evaluateFormula("a / b", { a: 10, b: 0 })).toBe(0);
+    expect(evaluateFormula("10 ^ 1000", {})).toBe(0);
+  });
+});
+
+describe("parseFormula", () => {
+  test("rejects anything that isn't arithmetic", () => {
+    expect(() => parseFormula("")).toThrow(FormulaError);
+    expect(() => parseFormula("a +")).toThrow("Formula ends unexpectedly");
+    expect(() => parseFormula("a; b")).toThrow('Unexpected ";"');
+    expect(() => parseFormula("constructor.call(1)")).toThrow(FormulaError);
+    expect(() => parseFormula("eval(1)")).toThrow('Unknown function "eval"');
+    expect(() => parseFormula("abs(1, 2)")).toThrow("Wrong number of arguments");
+    expect(() => parseFormula("(".repeat(40) + "1" + ")".repeat(40))).toThrow("nested too deeply");
+  });
+
+  test("lists variables in order of first use", () => {
+    expect(getFormulaVariables("b * a + max(b, c)")).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("validateFormula", () => {
+  test("flags unknown inputs", () => {
+    expect(validateFormula("a * b", ["a", "b"])).toEqual([]);
+    expect(validateFormula("a * typo", ["a"])).toEqual(['Unknown input "typo" in formula']);
+  });
+
+  test("returns syntax errors as messages", () => {
+    expect(validateFormula("a *", ["a"])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,304 @@
+// ============================================================
+// Safe arithmetic formula evaluator
+// Used by custom archetypes on both client and server. Supports
+// numbers, input keys, + - * / ^, parentheses and a few math
+// functions — nothing else is ever executed.
+// ============================================================
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string }
+  | { type: "unary"; op: "-"; operand: FormulaNode }
+  | { type: "binary"; op: "+" | "-" | "*" | "/" | "^"; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: FormulaFunction; args: FormulaNode[] };
+
+export type FormulaFunction = "min" | "max" | "abs" | "round" | "floor" | "ceil";
+
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    public position: number,
+  ) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+const FUNCTIONS: Record<FormulaFunction, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  abs: { arity: [1, 1], fn: Math.abs },
+  round: { arity: [1, 1], fn: Math.round },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS) as FormulaFunction[];
+
+export const MAX_FORMULA_LENGTH = 500;
+const MAX_DEPTH = 32;
+
+type Token =
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "ident"; value: string; pos: number }
+  | { kind: "op"; value: string; pos: number }
+  | { kind: "end"; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Invalid number at position ${i + 1}`, i);
+      tokens.push({ kind: "number", value: Number(match[0]), pos: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: "ident", value: match[0], pos: i });
+      i += match[0].length;
+    } else if ("+-*/^(),".includes(ch)) {
+      tokens.push({ kind: "op", value: ch, pos: i });
+      i++;
+    } else {
+      throw new FormulaError(`Unexpected "${ch}" at position ${i + 1}`, i);
+    }
+  }
+  tokens.push({ kind: "end", pos: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FormulaError(`Unexpected "${describe(next)}" at position ${next.pos + 1}`, next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]!;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === "op" && token.value === value;
+  }
+
+  private expect(value: string) {
+    const token = this.next();
+    if (token.kind !== "op" || token.value !== value) {
+      throw new FormulaError(`Expected "${value}" at position ${token.pos + 1}`, token.pos);
+    }
+  }
+
+  private nested<T>(fn: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new FormulaError("Formula is nested too deeply", this.peek().pos);
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  // expression := term (("+" | "-") term)*
+  private expression(): FormulaNode {
+    let left = this.term();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.next() as { value: "+" | "-" };
+      left = { type: "binary", op: op.value, left, right: this.term() };
+    }
+    return left;
+  }
+
+  // term := unary (("*" | "/") unary)*
+  private term(): FormulaNode {
+    let left = this.unary();
+    while (this.isOp("*") || this.isOp("/")) {
+      const op = this.next() as { value: "*" | "/" };
+      left = { type: "binary", op: op.value, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  // unary := ("-" | "+") unary | power
+  private unary(): FormulaNode {
+    if (this.isOp("-")) {
+      this.next();
+      return this.nested(() => ({ type: "unary", op: "-", operand: this.unary() }));
+    }
+    if (this.isOp("+")) {
+      this.next();
+      return this.nested(() => this.unary());
+    }
+    return this.power();
+  }
+
+  // power := primary ("^" unary)?  (right-associative)
+  private power(): FormulaNode {
+    const base = this.primary();
+    if (this.isOp("^")) {
+      this.next();
+      return { type: "binary", op: "^", left: base, right: this.nested(() => this.unary()) };
+    }
+    return base;
+  }
+
+  private primary(): FormulaNode {
+    const token = this.next();
+    if (token.kind === "number") return { type: "number", value: token.value };
+
+    if (token.kind === "ident") {
+      if (!this.isOp("(")) return { type: "variable", name: token.value };
+
+      const name = token.value.toLowerCase() as FormulaFunction;
+      const def = FUNCTIONS[name];
+      if (!def) throw new FormulaError(`Unknown function "${token.value}"`, token.pos);
+      this.next();
+      const args: FormulaNode[] = [];
+      if (!this.isOp(")")) {
+        args.push(this.nested(() => this.expression()));
+        while (this.isOp(",")) {
+          this.next();
+          args.push(this.nested(() => this.expression()));
+        }
+      }
+      this.expect(")");
+      if (args.length < def.arity[0] || args.length > def.arity[1]) {
+        throw new FormulaError(`Wrong number of arguments for ${name}()`, token.pos);
+      }
+      return { type: "call", name, args };
+    }
+
+    if (token.kind === "op" && token.value === "(") {
+      const inner = this.nested(() => this.expression());
+      this.expect(")");
+      return inner;
+    }
+
+    if (token.kind === "end") throw new FormulaError("Formula ends unexpectedly", token.pos);
+    throw new FormulaError(`Unexpected "${describe(token)}" at position ${token.pos + 1}`, token.pos);
+  }
+}
+
+function describe(token: Token): string {
+  return token.kind === "end" ? "end" : String(token.value);
+}
+
+const MAX_CACHED_FORMULAS = 500;
+const parseCache = new Map<string, FormulaNode>();
+
+/**
+ * Parse a formula into an expression tree. Throws FormulaError on invalid syntax.
+ */
+export function parseFormula(source: string): FormulaNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  if (!source.trim()) throw new FormulaError("Formula is empty", 0);
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH);
+  }
+
+  const node = new Parser(tokenize(source)).parse();
+  if (parseCache.size >= MAX_CACHED_FORMULAS) parseCache.clear();
+  parseCache.set(source, node);
+  return node;
+}
+
+/**
+ * Input keys referenced by a formula, in order of first use
+ */
+export function getFormulaVariables(source: string | FormulaNode): string[] {
+  const node = typeof source === "string" ? parseFormula(source) : source;
+  const names: string[] = [];
+  const visit = (n: FormulaNode) => {
+    switch (n.type) {
+      case "variable":
+        if (!names.includes(n.name)) names.push(n.name);
+        break;
+      case "unary":
+        visit(n.operand);
+        break;
+      case "binary":
+        visit(n.left);
+        visit(n.right);
+        break;
+      case "call":
+        n.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
+
+function evaluateNode(node: FormulaNode, values: Record<string, number>): number {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "variable":
+      return values[node.name] ?? 0;
+    case "unary":
+      return -evaluateNode(node.operand, values);
+    case "binary": {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      switch (node.op) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return right === 0 ? 0 : left / right;
+        case "^":
+          return Math.pow(left, right);
+      }
+      break;
+    }
+    case "call":
+      return FUNCTIONS[node.name].fn(...node.args.map((a) => evaluateNode(a, values)));
+  }
+  return 0;
+}
+
+/**
+ * Evaluate a formula. Missing inputs count as 0, division by zero gives 0,
+ * and any non-finite result is returned as 0 so one bad input can't poison totals.
+ */
+export function evaluateFormula(source: string | FormulaNode, values: Record<string, number>): number {
+  const node = typeof source === "string" ? parseFormula(source) : source;
+  const result = evaluateNode(node, values);
+  return Number.isFinite(result) ? result : 0;
+}
+
+/**
+ * Validate a formula against the input keys it may use. Returns error messages (empty when valid).
+ */
+export function validateFormula(source: string, allowedKeys: string[]): string[] {
+  let node: FormulaNode;
+  try {
+    node = parseFormula(source);
+  } catch (e) {
+    return [e instanceof FormulaError ? e.message : "Invalid formula"];
+  }
+  return getFormulaVariables(node)
+    .filter((name) => !allowedKeys.includes(name))
+    .map((name) => `Unknown input "${name}" in formula`);
+}
@@ -0,0 +1,95 @@
+// ============================================================
+// Full calculation payload — the GET /api/calculations/:shortId/full
+// body, shared with snapshots so a frozen copy has exactly the
+// shape the live endpoint returns.
+// ============================================================
+
+import {
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_FTE_HOURS_PER_MONTH,
+  type Assumptions,
+  type Calculation,
+  type UseCase,
+  type ValueItem,
+} from "../types/roi";
+import { calculateItemAnnualValue, calculateSummary } from "./calculations";
+import { runSimulation } from "./simulation";
+import { estimateCosts } from "./costs";
+import { detectOverlaps } from "./overlap";
+import { checkCapacity, type DepartmentHeadcount } from "./capacity";
+
+/** Calculation summary from the shared engine, rounded for API responses */
+export function computeSummary(
+  valueItems: ValueItem[],
+  assumptions: Assumptions,
+  proposedSpend?: number,
+  implementationCost?: number,
+  useCases?: Array<Pick<UseCase, "_id" | "goLiveMonth" | "rampMonths">>
+) {
+  const summary = calculateSummary(valueItems, assumptions, proposedSpend, implementationCost, useCases);
+
+  return {
+    totalAnnualValue: Math.round(summary.totalAnnualValue),
+    dimensionTotals: summary.dimensionTotals.map((d) => ({
+      ...d,
+      total: Math.round(d.total),
+      percentage: Math.round(d.percentage),
+    })),
+    roiMultiple: summary.roiMultiple !== null ? Math.round(summary.roiMultiple * 100) / 100 : null,
+    hoursSavedPerMonth: Math.round(summary.hoursSavedPerMonth),
+    fteHoursPerMonth: assumptions.fteHoursPerMonth ?? DEFAULT_FTE_HOURS_PER_MONTH,
+    fteEquivalent: Math.round(summary.fteEquivalent * 100) / 100,
+    projection: summary.projection.map((p) => ({
+      year: p.year,
+      value: Math.round(p.value),
+      investment: p.investment,
+      netValue: Math.round(p.netValue),
+      cumulativeValue: Math.round(p.cumulativeValue),
+      cumulativeInvestment: Math.round(p.cumulativeInvestment),
+      cumulativeNetValue: Math.round(p.cumulativeNetValue),
+    })),
+    implementationCost: implementationCost ?? 0,
+    discountRate: assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE,
+    npv: Math.round(summary.npv),
+    irr: summary.irr !== null ? Math.round(summary.irr * 10000) / 10000 : null,
+    paybackMonth: summary.paybackMonth,
+  };
+}
+
+export type ApiSummary = ReturnType<typeof computeSummary>;
+
+/**
+ * Everything GET /full returns: the stored documents with computed values, the
+ * summary, Monte Carlo band, cost model, overlap warnings and capacity check
+ */
+export function buildFullCalculation<C extends Pick<Calculation, "assumptions" | "proposedSpend" | "implementationCost">>(
+  calculation: C,
+  valueItems: ValueItem[],
+  useCases: UseCase[],
+  departmentHeadcounts?: DepartmentHeadcount[]
+) {
+  const summary = computeSummary(
+    valueItems,
+    calculation.assumptions,
+    calculation.proposedSpend,
+    calculation.implementationCost,
+    useCases
+  );
+  return {
+    calculation,
+    valueItems: valueItems.map((vi) => ({
+      ...vi,
+      computed: { annualValue: calculateItemAnnualValue(vi) },
+    })),
+    useCases,
+    summary,
+    simulation: runSimulation(valueItems, calculation.proposedSpend ?? 0),
+    costs: estimateCosts(valueItems, useCases, { proposedSpend: calculation.proposedSpend }),
+    warnings: detectOverlaps(valueItems),
+    capacity: checkCapacity(valueItems, useCases, departmentHeadcounts, summary.fteHoursPerMonth),
+  };
+}
+
+export type FullCalculation<C = Calculation> = Omit<ReturnType<typeof buildFullCalculation>, "calculation"> & {
+  calculation: C;
+};
@@ -0,0 +1,175 @@
+import { test, expect, describe } from "bun:test";
+import {
+  HistoryError,
+  compareStates,
+  describeEntry,
+  diffFields,
+  getStateAt,
+  groupRevisions,
+  planRestore,
+  type ChangeLogEntry,
+  type HistoryState,
+} from "./history";
+import { DEFAULT_ASSUMPTIONS } from "../types/roi";
+
+let seq = 0;
+function entry(partial: Omit<ChangeLogEntry, "_id" | "_creationTime" | "calculationId" | "actor" | "operation"> & Partial<ChangeLogEntry>): ChangeLogEntry {
+  seq++;
+  return {
+    _id: `log${seq}`,
+    _creationTime: seq,
+    calculationId: "calc1",
+    actor: "ana@example.com",
+    operation: "valueItems.update",
+    ...partial,
+  };
+}
+
+const item = (id: string, tasksPerMonth: number, extra: Record<string, unknown> = {}) => ({
+  _id: id,
+  calculationId: "calc1",
+  archetype: "task_elimination",
+  dimension: "time_savings",
+  name: `Item ${id}`,
+  inputs: {
+    tasksPerMonth: { value: tasksPerMonth, confidence: "A" },
+    minutesPerTask: { value: 60, confidence: "A" },
+    hourlyRate: { value: 50, confidence: "A" },
+  },
+  order: 0,
+  ...extra,
+});
+
+// Timeline: t=1 created with item a (100 tasks), t=2 item b added,
+// t=3 a raised to 200 tasks, t=4 b deleted, t=5 proposed spend set
+const entries: ChangeLogEntry[] = [
+  entry({ at: 1, entity: "calculation", entityId: "calc1", action: "create", operation: "calculations.create", changes: [
+    { field: "assumptions", after: DEFAULT_ASSUMPTIONS },
+    { field: "name", after: "Acme" },
+  ] }),
+  entry({ at: 1, entity: "valueItem", entityId: "a", action: "create", operation: "valueItems.create", changes: diffFields(null, item("a", 100)) }),
+  entry({ at: 2, entity: "valueItem", entityId: "b", action: "create", operation: "valueItems.create", changes: diffFields(null, item("b", 10, { order: 1 })) }),
+  entry({ at: 3, entity: "valueItem", entityId: "a", action: "update", changes: diffFields(item("a", 100), item("a", 200)) }),
+  entry({ at: 4, entity: "valueItem", entityId: "b", action: "delete", operation: "valueItems.remove", changes: diffFields(item("b", 10, { order: 1 }), null) }),
+  entry({ at: 5, entity: "calculation", entityId: "calc1", action: "update", operation: "calculations.updateInvestment", changes: [
+    { field: "proposedSpend", after: 20000 },
+  ] }),
+];
+
+const current: HistoryState = {
+  calculation: { _id: "calc1", name: "Acme", assumptions: DEFAULT_ASSUMPTIONS, proposedSpend: 20000, updatedAt: 5 },
+  valueItems: [item("a", 200)],
+  useCases: [],
+};
+
+describe("diffFields", () => {
+  test("records changed fields and ignores updatedAt", () => {
+    expect(diffFields({ name: "A", updatedAt: 1, order: 0 }, { name: "B", updatedAt: 2, order: 0 })).toEqual([
+      { field: "name", before: "A", after: "B" },
+    ]);
+  });
+
+  test("compares nested values regardless of key order", () => {
+    expect(diffFields({ inputs: { a: 1, b: 2 } }, { inputs: { b: 2, a: 1 } })).toEqual([]);
+  });
+
+  test("omits the missing side when a field is set or cleared", () => {
+    expect(diffFields({ manualAnnualValue: 5 }, {})).toEqual([{ field: "manualAnnualValue", before: 5 }]);
+    expect(diffFields(null, { name: "New" })).toEqual([{ field: "name", after: "New" }]);
+  });
+});
+
+describe("getStateAt", () => {
+  test("undoes later updates, creates and deletes", () => {
+    const atTwo = getStateAt(current, entries, 2);
+    expect(atTwo.calculation?.proposedSpend).toBeUndefined();
+    expect(atTwo.valueItems.map((i) => i._id)).toEqual(["a", "b"]);
+    expect((atTwo.valueItems[0]!.inputs as any).tasksPerMonth.value).toBe(100);
+    expect(atTwo.valueItems[1]!.name).toBe("Item b");
+  });
+
+  test("returns the current state at the latest point", () => {
+    expect(getStateAt(current, entries, 5)).toEqual(current);
+  });
+
+  test("has no calculation before it was created", () => {
+    expect(getStateAt(current, entries, 0).calculation).toBeNull();
+  });
+});
+
+describe("groupRevisions", () => {
+  test("groups entries from one mutation, newest first", () => {
+    const revisions = groupRevisions(entries);
+    expect(revisions.map((r) => r.at)).toEqual([5, 4, 3, 2, 1, 1]);
+    const twoAtOnce = groupRevisions([
+      entry({ at: 9, entity: "valueItem", entityId: "a", action: "update", operation: "valueItems.reorder", changes: [] }),
+      entry({ at: 9, entity: "valueItem", entityId: "b", action: "update", operation: "valueItems.reorder", changes: [] }),
+    ]);
+    expect(twoAtOnce).toHaveLength(1);
+    expect(twoAtOnce[0]!.entries).toHaveLength(2);
+  });
+});
+
+describe("planRestore", () => {
+  test("plans the writes back to an earlier point", () => {
+    const plan = planRestore(current, getStateAt(current, entries, 2));
+    expect(plan.calculation).toEqual({ proposedSpend: undefined });
+    expect(plan.valueItems.create.map((d) => d._id)).toEqual(["b"]);
+    expect(plan.valueItems.update).toHaveLength(1);
+    expect((plan.valueItems.update[0]!.fields.inputs as any).tasksPerMonth.value).toBe(100);
+    expect(plan.valueItems.delete).toEqual([]);
+  });
+
+  test("removes items created after the point", () => {
+    const plan = planRestore(getStateAt(current, entries, 2), getStateAt(current, entries, 1));
+    expect(plan.valueItems.delete).toEqual(["b"]);
+  });
+
+  test("leaves the company, creator and share ids as they are now", () => {
+    const moved: HistoryState = {
+      calculation: { ...current.calculation!, companyId: "co2", createdBy: "ana@example.com", shortId: "new123" },
+      valueItems: current.valueItems,
+      useCases: [{ _id: "uc1", name: "Triage", companyId: "co2", shortId: "u1" }],
+    };
+    const earlier: HistoryState = {
+      calculation: { ...current.calculation!, name: "Acme (old)", companyId: "co1", createdBy: "bo@example.com", shortId: "old123" },
+      valueItems: current.valueItems,
+      useCases: [
+        { _id: "uc1", name: "Triage", companyId: "co1", shortId: "u0" },
+        { _id: "uc2", name: "Intake", companyId: "co1" },
+      ],
+    };
+    const plan = planRestore(moved, earlier);
+    expect(plan.calculation).toEqual({ name: "Acme (old)" });
+    expect(plan.useCases.update).toEqual([]);
+    expect(plan.useCases.create).toEqual([{ _id: "uc2", name: "Intake", companyId: "co2" }]);
+  });
+
+  test("refuses to restore to before the calculator existed", () => {
+    expect(() => planRestore(current, getStateAt(current, entries, 0))).toThrow(HistoryError);
+  });
+});
+
+describe("compareStates", () => {
+  test("explains the change in total value by item", () => {
+    // a: 100 tasks × 1h × $50 × 12 = 60k → 200 tasks = 120k; b: 10 tasks = 6k
+    const comparison = compareStates(getStateAt(current, entries, 2), current);
+    expect(comparison.before.totalAnnualValue).toBe(66000);
+    expect(comparison.after.totalAnnualValue).toBe(120000);
+    expect(comparison.totalDelta).toBe(54000);
+    expect(comparison.items.map((i) => [i.id, i.delta, i.fields])).toEqual([
+      ["a", 60000, ["inputs.tasksPerMonth"]],
+      ["b", -6000, ["deleted"]],
+    ]);
+    expect(comparison.calculationFields).toEqual(["proposedSpend"]);
+    expect(comparison.after.roiMultiple).toBe(6);
+  });
+});
+
+describe("describeEntry", () => {
+  test("names the document and lists input changes", () => {
+    expect(describeEntry(entries[3]!, "Lead routing")).toBe('Value item "Lead routing": tasksPerMonth: 100 → 200');
+    expect(describeEntry(entries[4]!)).toBe('Removed value item "Item b"');
+    expect(describeEntry(entries[5]!)).toBe("Calculator: proposedSpend: — → 20,000");
+  });
+});
@@ -0,0 +1,374 @@
+// ============================================================
+// Change history — field-level change log entries written by the
+// calculation, value item and use case mutations, and the state
+// of a calculator at any earlier point rebuilt from them.
+//
+// Entries are undone newest-first from the current documents, so
+// only the changes after the chosen point need to be loaded.
+// ============================================================
+
+import type { Assumptions, UseCase, ValueItem } from "../types/roi";
+import { calculateItemAnnualValue, calculateSummary } from "./calculations";
+
+export type ChangeEntity = "calculation" | "valueItem" | "useCase";
+export type ChangeAction = "create" | "update" | "delete";
+
+/** One field of one document; a missing before/after means the field was unset */
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ChangeLogEntry {
+  _id: string;
+  _creationTime: number;
+  calculationId: string;
+  entity: ChangeEntity;
+  entityId: string;
+  action: ChangeAction;
+  changes: FieldChange[];
+  operation: string; // Mutation that made the change, e.g. "valueItems.update"
+  actor: string;
+  at: number;
+}
+
+type Doc = Record<string, unknown> & { _id: string };
+
+export interface HistoryState {
+  calculation: Doc | null;
+  valueItems: Doc[];
+  useCases: Doc[];
+}
+
+/** A change the user made in one go: the entries of a single mutation */
+export interface Revision {
+  at: number;
+  actor: string;
+  operation: string;
+  entries: ChangeLogEntry[];
+}
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryError";
+  }
+}
+
+/** System fields and timestamps that every write touches */
+const UNTRACKED_FIELDS = new Set(["_id", "_creationTime", "updatedAt"]);
+
+// ============================================================
+// Diffing
+// ============================================================
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Fields that differ between two versions of a document. A null side records a
+ * create or delete, with every field of the other side.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: FieldChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    const b = before?.[field];
+    const a = after?.[field];
+    if (isSameValue(b, a)) continue;
+    changes.push({ field, ...(b !== undefined && { before: b }), ...(a !== undefined && { after: a }) });
+  }
+  return changes;
+}
+
+export function getChangeAction(before: unknown, after: unknown): ChangeAction {
+  if (!before) return "create";
+  if (!after) return "delete";
+  return "update";
+}
+
+// ============================================================
+// Reconstruction
+// ============================================================
+
+/** Newest first; entries written by one mutation keep their insertion order */
+export function sortNewestFirst(entries: ChangeLogEntry[]): ChangeLogEntry[] {
+  return [...entries].sort((a, b) => b.at - a.at || b._creationTime - a._creationTime);
+}
+
+function undoOnDoc(doc: Doc, entry: ChangeLogEntry): Doc {
+  const next: Doc = { ...doc };
+  for (const change of entry.changes) {
+    if (change.before === undefined) delete next[change.field];
+    else next[change.field] = change.before;
+  }
+  return next;
+}
+
+function snapshotBefore(entry: ChangeLogEntry): Doc {
+  const doc: Doc = { _id: entry.entityId };
+  for (const change of entry.changes) {
+    if (change.before !== undefined) doc[change.field] = change.before;
+  }
+  return doc;
+}
+
+function undoOnList(docs: Doc[], entry: ChangeLogEntry): Doc[] {
+  switch (entry.action) {
+    case "create":
+      return docs.filter((d) => d._id !== entry.entityId);
+    case "delete":
+      return docs.some((d) => d._id === entry.entityId) ? docs : [...docs, snapshotBefore(entry)];
+    case "update":
+      return docs.map((d) => (d._id === entry.entityId ? undoOnDoc(d, entry) : d));
+  }
+}
+
+/** Undo entries (in any order) against a state, newest first */
+export function undoEntries(state: HistoryState, entries: ChangeLogEntry[]): HistoryState {
+  let { calculation, valueItems, useCases } = state;
+  for (const entry of sortNewestFirst(entries)) {
+    if (entry.entity === "calculation") {
+      if (entry.action === "create") calculation = null;
+      else if (entry.action === "delete") calculation = snapshotBefore(entry);
+      else if (calculation) calculation = undoOnDoc(calculation, entry);
+    } else if (entry.entity === "valueItem") {
+      valueItems = undoOnList(valueItems, entry);
+    } else {
+      useCases = undoOnList(useCases, entry);
+    }
+  }
+  const byOrder = (a: Doc, b: Doc) => Number(a.order ?? 0) - Number(b.order ?? 0);
+  return { calculation, valueItems: [...valueItems].sort(byOrder), useCases: [...useCases].sort(byOrder) };
+}
+
+/** The state just after everything up to and including `at` */
+export function getStateAt(current: HistoryState, entries: ChangeLogEntry[], at: number): HistoryState {
+  return undoEntries(current, entries.filter((e) => e.at > at));
+}
+
+/** Group entries into revisions, newest first */
+export function groupRevisions(entries: ChangeLogEntry[]): Revision[] {
+  const revisions: Revision[] = [];
+  for (const entry of sortNewestFirst(entries)) {
+    const last = revisions[revisions.length - 1];
+    if (last && last.at === entry.at && last.actor === entry.actor && last.operation === entry.operation) {
+      last.entries.push(entry);
+    } else {
+      revisions.push({ at: entry.at, actor: entry.actor, operation: entry.operation, entries: [entry] });
+    }
+  }
+  return revisions;
+}
+
+// ============================================================
+// Describing changes
+// ============================================================
+
+const ENTITY_LABELS: Record<ChangeEntity, string> = {
+  calculation: "Calculator",
+  valueItem: "Value item",
+  useCase: "Use case",
+};
+
+/** Short display form of a stored field value */
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "number") return value.toLocaleString("en-US", { maximumFractionDigits: 4 });
+  if (typeof value === "string") return `"${value.length > 40 ? `${value.slice(0, 39)}…` : value}"`;
+  if (typeof value === "boolean") return value ? "on" : "off";
+  if (Array.isArray(value)) return `${value.length} item${value.length !== 1 ? "s" : ""}`;
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${json.slice(0, 39)}…` : json;
+}
+
+/** "field: before → after" per change; value item inputs are listed per input */
+export function describeFieldChanges(changes: FieldChange[]): string[] {
+  return changes.flatMap((c) => {
+    if (c.field === "inputs" && c.before && c.after) {
+      const before = c.before as Record<string, { value?: unknown }>;
+      const after = c.after as Record<string, { value?: unknown }>;
+      return diffFields(before, after).map(
+        (k) => `${k.field}: ${formatChangeValue(before[k.field]?.value)} → ${formatChangeValue(after[k.field]?.value)}`
+      );
+    }
+    return [`${c.field}: ${formatChangeValue(c.before)} → ${formatChangeValue(c.after)}`];
+  });
+}
+
+/** One line per entry, e.g. 'Value item "Lead routing": tasksPerMonth: 100 → 120' */
+export function describeEntry(entry: ChangeLogEntry, name?: string): string {
+  const label = ENTITY_LABELS[entry.entity];
+  const docName = name ?? entry.changes.find((c) => c.field === "name")?.[entry.action === "delete" ? "before" : "after"];
+  const subject = docName ? `${label} "${String(docName)}"` : label;
+  if (entry.action === "create") return `Added ${subject.charAt(0).toLowerCase()}${subject.slice(1)}`;
+  if (entry.action === "delete") return `Removed ${subject.charAt(0).toLowerCase()}${subject.slice(1)}`;
+  return `${subject}: ${describeFieldChanges(entry.changes).join("; ")}`;
+}
+
+// ============================================================
+// Restore
+// ============================================================
+
+export interface DocUpdate {
+  id: string;
+  fields: Record<string, unknown>; // undefined clears a field
+}
+
+export interface RestorePlan {
+  calculation: Record<string, unknown>;
+  valueItems: { create: Doc[]; update: DocUpdate[]; delete: string[] };
+  useCases: { create: Doc[]; update: DocUpdate[]; delete: string[] };
+}
+
+function toFields(changes: FieldChange[]): Record<string, unknown> {
+  return Object.fromEntries(changes.map((c) => [c.field, c.after]));
+}
+
+/**
+ * Which company owns a document, who created it and its share id stay as they
+ * are now. Moving a calculator between companies is updateCompanyId's job, with
+ * its own access check.
+ */
+const OWNERSHIP_FIELDS = new Set(["companyId", "createdBy", "shortId"]);
+
+function toRestoredFields(changes: FieldChange[]): Record<string, unknown> {
+  return toFields(changes.filter((c) => !OWNERSHIP_FIELDS.has(c.field)));
+}
+
+function planList(current: Doc[], target: Doc[]): RestorePlan["valueItems"] {
+  const currentById = new Map(current.map((d) => [d._id, d]));
+  const targetIds = new Set(target.map((d) => d._id));
+  const plan: RestorePlan["valueItems"] = { create: [], update: [], delete: [] };
+  for (const doc of target) {
+    const existing = currentById.get(doc._id);
+    if (!existing) {
+      plan.create.push(doc);
+      continue;
+    }
+    const fields = toRestoredFields(diffFields(existing, doc));
+    if (Object.keys(fields).length > 0) plan.update.push({ id: doc._id, fields });
+  }
+  plan.delete = current.filter((d) => !targetIds.has(d._id)).map((d) => d._id);
+  return plan;
+}
+
+/**
+ * Writes that turn the current documents into the target state. Deleted
+ * documents come back as creates; the caller gives them new ids. Recreated use
+ * cases join the calculator's current company.
+ */
+export function planRestore(current: HistoryState, target: HistoryState): RestorePlan {
+  if (!current.calculation) throw new HistoryError("Calculation not found");
+  if (!target.calculation) throw new HistoryError("The calculator didn't exist at that point");
+  const { companyId } = current.calculation;
+  const useCases = planList(current.useCases, target.useCases);
+  return {
+    calculation: toRestoredFields(diffFields(current.calculation, target.calculation)),
+    valueItems: planList(current.valueItems, target.valueItems),
+    useCases: {
+      ...useCases,
+      create: useCases.create.map(({ companyId: _companyId, ...doc }) => ({
+        ...doc,
+        ...(companyId !== undefined && { companyId }),
+      })),
+    },
+  };
+}
+
+// ============================================================
+// Comparing versions
+// ============================================================
+
+export interface ItemValueChange {
+  id: string;
+  name: string;
+  before: number; // 0 when the item didn't exist
+  after: number;
+  delta: number;
+  fields: string[]; // What changed on the item, e.g. ["inputs.tasksPerMonth"]
+}
+
+export interface VersionComparison {
+  before: { totalAnnualValue: number; npv: number; roiMultiple: number | null };
+  after: { totalAnnualValue: number; npv: number; roiMultiple: number | null };
+  totalDelta: number;
+  items: ItemValueChange[]; // Largest movement first
+  calculationFields: string[]; // Changed calculator fields, e.g. ["assumptions", "proposedSpend"]
+}
+
+function summarize(state: HistoryState) {
+  const calc: Record<string, unknown> = state.calculation ?? {};
+  const summary = calculateSummary(
+    state.valueItems as unknown as ValueItem[],
+    calc.assumptions as Assumptions,
+    calc.proposedSpend as number | undefined,
+    calc.implementationCost as number | undefined,
+    state.useCases as unknown as UseCase[]
+  );
+  return { totalAnnualValue: summary.totalAnnualValue, npv: summary.npv, roiMultiple: summary.roiMultiple };
+}
+
+/** Field names including the input keys that changed, e.g. "inputs.hourlyRate" */
+export function changedFieldNames(changes: FieldChange[]): string[] {
+  return changes.flatMap((c) => {
+    if (c.field !== "inputs") return [c.field];
+    const before = (c.before ?? {}) as Record<string, unknown>;
+    const after = (c.after ?? {}) as Record<string, unknown>;
+    const keys = diffFields(before, after).map((k) => `inputs.${k.field}`);
+    return keys.length > 0 ? keys : [c.field];
+  });
+}
+
+/** Value difference between two states, with the items that explain it */
+export function compareStates(before: HistoryState, after: HistoryState): VersionComparison {
+  const beforeItems = new Map(before.valueItems.map((d) => [d._id, d]));
+  const afterItems = new Map(after.valueItems.map((d) => [d._id, d]));
+  const value = (doc: Doc | undefined) => (doc ? calculateItemAnnualValue(doc as unknown as ValueItem) : 0);
+
+  const items: ItemValueChange[] = [];
+  for (const id of new Set([...beforeItems.keys(), ...afterItems.keys()])) {
+    const b = beforeItems.get(id);
+    const a = afterItems.get(id);
+    const changes = diffFields(b ?? null, a ?? null);
+    if (changes.length === 0) continue;
+    const fields = b && a ? changedFieldNames(changes) : [b ? "deleted" : "created"];
+    items.push({
+      id,
+      name: String((a ?? b)!.name ?? "Untitled"),
+      before: value(b),
+      after: value(a),
+      delta: value(a) - value(b),
+      fields,
+    });
+  }
+  items.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  const beforeSummary = summarize(before);
+  const afterSummary = summarize(after);
+  return {
+    before: beforeSummary,
+    after: afterSummary,
+    totalDelta: afterSummary.totalAnnualValue - beforeSummary.totalAnnualValue,
+    items,
+    calculationFields: diffFields(before.calculation, after.calculation).map((c) => c.field),
+  };
+}
@@ -0,0 +1,166 @@
+import { test, expect, describe } from "bun:test";
+import { matchApiRoute, validateApiRequest, validateSchema, type JsonSchema } from "./openapi";
+import { API_COMPONENTS, API_ENDPOINT_GUIDE, API_ROUTES, buildApiOpenApiDocument } from "../data/apiRoutes";
+import { buildRoiSchemaDimensions } from "../data/schemaResponse";
+import type { CustomArchetypeDefinition } from "../types/roi";
+
+const CLAIMS: CustomArchetypeDefinition = {
+  key: "custom_claims_triage",
+  label: "Claims Triage",
+  dimension: "productivity",
+  fields: [{ key: "claims", label: "Claims per year", type: "number", defaultValue: 12000 }],
+  formula: "claims * 2",
+};
+
+function check(method: string, path: string, body?: unknown, query = "") {
+  const route = matchApiRoute(API_ROUTES, method, path);
+  if (!route) throw new Error(`No route for ${method} ${path}`);
+  return validateApiRequest(route, { query: new URLSearchParams(query), body }, API_COMPONENTS);
+}
+
+describe("validateSchema", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    required: ["name"],
+    properties: {
+      name: { type: "string", minLength: 1 },
+      count: { type: "integer", minimum: 0 },
+      tags: { type: "array", items: { type: "string", enum: ["a", "b"] } },
+      note: { type: "string", nullable: true },
+    },
+    additionalProperties: false,
+  };
+
+  test("accepts a matching value", () => {
+    expect(validateSchema(schema, { name: "x", count: 2, tags: ["a"], note: null })).toEqual([]);
+  });
+
+  test("reports each problem with its path", () => {
+    expect(validateSchema(schema, { count: 1.5, tags: ["a", "c"], extra: true })).toEqual([
+      "name is required",
+      "count must be a whole number",
+      "tags[1] must be one of a, b",
+      "extra is not a known field. Valid: name, count, tags, note",
+    ]);
+  });
+
+  test("treats blank required strings as missing", () => {
+    expect(validateSchema(schema, { name: "  " })).toEqual(["name is required"]);
+  });
+});
+
+describe("matchApiRoute", () => {
+  test("prefers literal segments over path parameters", () => {
+    expect(matchApiRoute(API_ROUTES, "POST", "/api/calculations/import")?.name).toBe("import");
+    expect(matchApiRoute(API_ROUTES, "POST", "/api/calculations/ab12/value-items/batch")?.name).toBe("createBatch");
+    expect(matchApiRoute(API_ROUTES, "PUT", "/api/calculations/ab12/value-items/cd34")?.name).toBe("update");
+  });
+
+  test("returns null for unknown paths and methods", () => {
+    expect(matchApiRoute(API_ROUTES, "PATCH", "/api/calculations/ab12")).toBeNull();
+    expect(matchApiRoute(API_ROUTES, "GET", "/api/nope")).toBeNull();
+  });
+});
+
+describe("request validation", () => {
+  test("checks value item inputs against the archetype's schema", () => {
+    expect(
+      check("POST", "/api/calculations/ab12/value-items", {
+        archetype: "task_elimination",
+        name: "Invoice entry",
+        inputs: { tasksPerMonth: { value: "500" }, minutesPerTask: { value: 6, confidence: "Z" }, taskCount: { value: 1 } },
+      })
+    ).toEqual([
+      "inputs.tasksPerMonth.value must be a number",
+      "inputs.minutesPerTask.confidence must be one of A, B, C, D, custom, benchmarked, estimated",
+      "inputs.taskCount is not a known field. Valid: tasksPerMonth, minutesPerTask, hourlyRate",
+    ]);
+  });
+
+  test("accepts custom archetype keys and legacy confidence names", () => {
+    expect(
+      check("POST", "/api/calculations/ab12/value-items", {
+        archetype: "custom_claims_triage",
+        name: "Claims",
+        inputs: { claims: { value: 9000, confidence: "benchmarked" } },
+      })
+    ).toEqual([]);
+  });
+
+  test("rejects unknown archetypes", () => {
+    const [error] = check("POST", "/api/calculations/ab12/value-items", { archetype: "magic", name: "x" });
+    expect(error).toStartWith("archetype must be one of pipeline_velocity");
+  });
+
+  test("validates nested value items and use cases when creating a calculator", () => {
+    expect(
+      check("POST", "/api/calculations", {
+        name: "Acme",
+        role: "revops",
+        valueItems: [{ archetype: "data_integrity", name: "Dedup" }],
+        useCases: [{ name: "Lead routing", status: "live", goLiveMonth: 0 }],
+      })
+    ).toEqual(["useCases[0].status must be one of identified, in_progress, deployed, future", "useCases[0].goLiveMonth must be at least 1"]);
+  });
+
+  test("allows null to clear a use case schedule only on update", () => {
+    expect(check("PUT", "/api/calculations/ab12/use-cases/cd34", { goLiveMonth: null, rampMonths: null })).toEqual([]);
+    expect(check("POST", "/api/calculations/ab12/use-cases", { name: "x", goLiveMonth: null })).toEqual([
+      "goLiveMonth must not be null",
+    ]);
+  });
+
+  test("converts and checks query parameters", () => {
+    expect(check("GET", "/api/calculations/ab12/sensitivity", undefined, "mode=range&percent=0.1")).toEqual([]);
+    expect(check("GET", "/api/calculations/ab12/sensitivity", undefined, "mode=wide&percent=2")).toEqual([
+      "mode must be one of percent, range",
+      "percent must be at most 1",
+    ]);
+  });
+});
+
+describe("buildApiOpenApiDocument", () => {
+  const doc = buildApiOpenApiDocument();
+
+  test("documents every route once", () => {
+    const operations = Object.values(doc.paths).flatMap((methods) => Object.keys(methods));
+    expect(operations).toHaveLength(API_ROUTES.length);
+    expect(doc.paths["/api/calculations/{shortId}/value-items/{itemShortId}"]).toHaveProperty("put");
+  });
+
+  test("has a value item schema for each archetype with its inputs", () => {
+    const schemas = doc.components.schemas as Record<string, JsonSchema>;
+    for (const dimension of buildRoiSchemaDimensions()) {
+      for (const archetype of dimension.archetypes) {
+        const inputs = schemas[`ValueItem_${archetype.id}`]?.properties?.inputs?.properties ?? {};
+        expect(Object.keys(inputs)).toEqual(archetype.inputs.map((i) => i.key as string));
+      }
+    }
+  });
+
+  test("resolves every $ref", () => {
+    const refs = JSON.stringify(doc).match(/"#\/components\/schemas\/[^"]+"/g) ?? [];
+    for (const ref of new Set(refs)) {
+      expect(doc.components.schemas).toHaveProperty(ref.slice('"#/components/schemas/'.length, -1));
+    }
+  });
+
+  test("adds schemas for a company's custom archetypes", () => {
+    const schemas = buildApiOpenApiDocument([CLAIMS]).components.schemas as Record<string, JsonSchema>;
+    expect(Object.keys(schemas.ValueItem_custom_claims_triage?.properties?.inputs?.properties ?? {})).toEqual(["claims"]);
+    expect(schemas.ValueItemCreate?.discriminator?.mapping).toHaveProperty("custom_claims_triage");
+  });
+});
+
+describe("API_ENDPOINT_GUIDE", () => {
+  test("lists body fields with whether they're required", () => {
+    expect(API_ENDPOINT_GUIDE.companies?.create).toMatchObject({
+      method: "POST",
+      path: "/api/companies",
+      body: { name: "required", industry: "optional" },
+    });
+    const body = API_ENDPOINT_GUIDE.valueItems?.create?.body as Record<string, string>;
+    expect(body.archetype).toStartWith("required");
+    expect(body.inputs).toStartWith("optional");
+  });
+});
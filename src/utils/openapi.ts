@@ -0,0 +1,358 @@
+// ============================================================
+// OpenAPI — the REST API's route table turned into an OpenAPI 3
+// document (GET /api/openapi.json), the endpoint guide in
+// GET /api/schema, and request validation. Routes and their
+// schemas live in src/data/apiRoutes.ts.
+// ============================================================
+
+/** The subset of OpenAPI 3.0 schema objects the route table uses */
+export interface JsonSchema {
+  $ref?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  nullable?: boolean;
+  enum?: Array<string | number>;
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: JsonSchema[];
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface ApiParameter {
+  name: string;
+  description: string;
+  required?: boolean;
+  schema: JsonSchema;
+}
+
+export interface ApiRoute {
+  method: HttpMethod;
+  /** OpenAPI path template, e.g. /api/calculations/{shortId}/value-items */
+  path: string;
+  /** Section of the endpoint guide, also the OpenAPI tag */
+  group: string;
+  /** Key within the group; with the group it forms the operationId */
+  name: string;
+  summary: string;
+  description?: string;
+  query?: ApiParameter[];
+  body?: JsonSchema;
+  /** Success status and what it returns; errors are added for every route */
+  response: { status: number; description: string; schema?: JsonSchema };
+  /** Answers without credentials */
+  public?: boolean;
+}
+
+const REF_PREFIX = "#/components/schemas/";
+
+export function schemaRef(name: string): JsonSchema {
+  return { $ref: `${REF_PREFIX}${name}` };
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+function resolve(schema: JsonSchema, components: Record<string, JsonSchema>): JsonSchema {
+  let current = schema;
+  while (current.$ref) {
+    const target = components[current.$ref.slice(REF_PREFIX.length)];
+    if (!target) throw new Error(`Unknown schema ${current.$ref}`);
+    current = target;
+  }
+  return current;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function describeType(schema: JsonSchema): string {
+  if (schema.type === "array") return "an array";
+  if (schema.type === "object") return "an object";
+  if (schema.type === "integer") return "a whole number";
+  return `a ${schema.type}`;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against a schema. Returns readable problems such as
+ * `valueItems[0].inputs.tasksPerMonth.value must be a number`; empty when valid.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  components: Record<string, JsonSchema> = {},
+  path = ""
+): string[] {
+  const s = resolve(schema, components);
+  const label = path || "body";
+
+  if (value === null) return s.nullable ? [] : [`${label} must not be null`];
+
+  if (s.oneOf) return validateOneOf(s, value, components, path);
+
+  if (s.type) {
+    const actual = typeOf(value);
+    const ok =
+      s.type === "integer" ? Number.isInteger(value) : s.type === "number" ? actual === "number" && Number.isFinite(value) : actual === s.type;
+    if (!ok) return [`${label} must be ${describeType(s)}`];
+  }
+
+  const errors: string[] = [];
+  if (s.enum && !s.enum.includes(value as string | number)) {
+    errors.push(`${label} must be one of ${s.enum.join(", ")}`);
+  }
+  if (typeof value === "string") {
+    if (s.minLength !== undefined && value.trim().length < s.minLength) errors.push(`${label} is required`);
+    if (s.pattern && !new RegExp(s.pattern).test(value)) errors.push(`${label} must match ${s.pattern}`);
+  }
+  if (typeof value === "number") {
+    if (s.minimum !== undefined && value < s.minimum) errors.push(`${label} must be at least ${s.minimum}`);
+    if (s.maximum !== undefined && value > s.maximum) errors.push(`${label} must be at most ${s.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) errors.push(`${label} needs at least ${s.minItems} item(s)`);
+    if (s.maxItems !== undefined && value.length > s.maxItems) errors.push(`${label} allows at most ${s.maxItems} items`);
+    if (s.items) value.forEach((item, i) => errors.push(...validateSchema(s.items!, item, components, join(path, i))));
+  }
+  if (s.type === "object" && typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of s.required ?? []) {
+      if (record[key] === undefined) errors.push(`${join(path, key)} is required`);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (child === undefined) continue;
+      const property = s.properties?.[key];
+      if (property) {
+        errors.push(...validateSchema(property, child, components, join(path, key)));
+      } else if (s.additionalProperties === false) {
+        const known = Object.keys(s.properties ?? {});
+        errors.push(`${join(path, key)} is not a known field${known.length ? `. Valid: ${known.join(", ")}` : ""}`);
+      } else if (typeof s.additionalProperties === "object") {
+        errors.push(...validateSchema(s.additionalProperties, child, components, join(path, key)));
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * A discriminator picks the branch by its property (e.g. `archetype`), so the
+ * errors are that branch's. Otherwise the value must match some branch.
+ */
+function validateOneOf(s: JsonSchema, value: unknown, components: Record<string, JsonSchema>, path: string): string[] {
+  const branches = s.oneOf!;
+  const discriminator = s.discriminator;
+  if (discriminator && typeOf(value) === "object") {
+    const tag = (value as Record<string, unknown>)[discriminator.propertyName];
+    const mapped = typeof tag === "string" ? discriminator.mapping?.[tag] : undefined;
+    if (mapped) return validateSchema({ $ref: mapped }, value, components, path);
+
+    // Branches outside the mapping (e.g. a pattern-matched tag) are tried in turn
+    const mappedRefs = new Set(Object.values(discriminator.mapping ?? {}));
+    const rest = branches.filter((b) => !b.$ref || !mappedRefs.has(b.$ref));
+    for (const branch of rest) {
+      const tagSchema = resolve(branch, components).properties?.[discriminator.propertyName];
+      if (tagSchema && validateSchema(tagSchema, tag, components).length === 0) {
+        return validateSchema(branch, value, components, path);
+      }
+    }
+    const valid = Object.keys(discriminator.mapping ?? {});
+    return [`${join(path, discriminator.propertyName)} must be one of ${valid.join(", ")}${rest.length ? " or a custom archetype key" : ""}`];
+  }
+
+  let best: string[] | null = null;
+  for (const branch of branches) {
+    const errors = validateSchema(branch, value, components, path);
+    if (errors.length === 0) return [];
+    if (!best || errors.length < best.length) best = errors;
+  }
+  return best ?? [];
+}
+
+// ============================================================
+// Routing
+// ============================================================
+
+function pathPattern(path: string): RegExp {
+  const source = path.replace(/[.]/g, "\\.").replace(/\{[^}]+\}/g, "([^/]+)");
+  return new RegExp(`^${source}$`);
+}
+
+/** The route for a request, preferring literal segments (`/import`) over parameters */
+export function matchApiRoute(routes: ApiRoute[], method: string, pathname: string): ApiRoute | null {
+  const candidates = routes
+    .filter((r) => r.method === method && pathPattern(r.path).test(pathname))
+    .sort((a, b) => (a.path.match(/\{/g)?.length ?? 0) - (b.path.match(/\{/g)?.length ?? 0));
+  return candidates[0] ?? null;
+}
+
+/** Query values arrive as strings; numbers and booleans are converted before checking */
+function coerceQueryValue(schema: JsonSchema, raw: string): unknown {
+  if (schema.type === "number" || schema.type === "integer") return raw.trim() === "" ? raw : Number(raw);
+  if (schema.type === "boolean") return raw === "true" ? true : raw === "false" ? false : raw;
+  return raw;
+}
+
+/** Problems with a request's query string and JSON body against its route */
+export function validateApiRequest(
+  route: ApiRoute,
+  request: { query: URLSearchParams; body?: unknown },
+  components: Record<string, JsonSchema>
+): string[] {
+  const errors: string[] = [];
+  for (const param of route.query ?? []) {
+    const raw = request.query.get(param.name);
+    if (raw === null) {
+      if (param.required) errors.push(`query parameter ${param.name} is required`);
+      continue;
+    }
+    errors.push(...validateSchema(param.schema, coerceQueryValue(param.schema, raw), components, param.name));
+  }
+  if (route.body) errors.push(...validateSchema(route.body, request.body, components));
+  return errors;
+}
+
+// ============================================================
+// Documents
+// ============================================================
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description: string;
+}
+
+const ERROR_RESPONSES: Record<number, string> = {
+  400: "Invalid request. `errors` lists each problem with the body or query",
+  401: "Missing, invalid or revoked credentials",
+  403: "Signed in, but without the role this needs",
+  404: "Not found, or not visible to the caller",
+  429: "API key rate limit exceeded; see the Retry-After header",
+};
+
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+}
+
+/** OpenAPI 3.0 document for the routes */
+export function buildOpenApiDocument(info: OpenApiInfo, routes: ApiRoute[], components: Record<string, JsonSchema>) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const errorStatuses = route.public ? [400, 404] : [400, 401, 403, 404, 429];
+    const responses: Record<string, unknown> = {
+      [route.response.status]: {
+        description: route.response.description,
+        content: { "application/json": { schema: route.response.schema ?? { type: "object" } } },
+      },
+    };
+    for (const status of errorStatuses) {
+      responses[status] = {
+        description: ERROR_RESPONSES[status],
+        content: { "application/json": { schema: schemaRef("Error") } },
+      };
+    }
+
+    paths[route.path] ??= {};
+    paths[route.path]![route.method.toLowerCase()] = {
+      operationId: `${route.group}.${route.name}`,
+      tags: [route.group],
+      summary: route.summary,
+      ...(route.description && { description: route.description }),
+      parameters: [
+        ...pathParameters(route.path),
+        ...(route.query ?? []).map((q) => ({
+          name: q.name,
+          in: "query",
+          required: q.required ?? false,
+          description: q.description,
+          schema: q.schema,
+        })),
+      ],
+      ...(route.body && {
+        requestBody: { required: true, content: { "application/json": { schema: route.body } } },
+      }),
+      responses,
+      ...(route.public && { security: [] }),
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info,
+    servers: [{ url: "/", description: "This deployment's HTTP actions URL (https://<deployment>.convex.site)" }],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    tags: [...new Set(routes.map((r) => r.group))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "ID token from the deployment's OpenID Connect provider" },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key", description: "Company API key (zvk_...)" },
+      },
+    },
+  };
+}
+
+/** One line per body field: "required — …" / "optional — …" */
+function summarizeBody(schema: JsonSchema, components: Record<string, JsonSchema>): Record<string, string> | string {
+  const s = resolve(schema, components);
+  // A oneOf lists the fields of every branch; required only when every branch requires it
+  const branches = s.oneOf ? s.oneOf.map((b) => resolve(b, components)) : [s];
+  const properties: Record<string, JsonSchema> = {};
+  for (const branch of branches) {
+    for (const [key, property] of Object.entries(branch.properties ?? {})) properties[key] ??= property;
+  }
+  if (Object.keys(properties).length === 0) return s.description ?? "JSON body";
+  const required = new Set(
+    Object.keys(properties).filter((key) => branches.every((b) => b.required?.includes(key)))
+  );
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, property]) => {
+      const description = resolve(property, components).description ?? property.description;
+      const flag = required.has(key) ? "required" : "optional";
+      return [key, description ? `${flag} — ${description}` : flag];
+    })
+  );
+}
+
+/** The `endpoints` guide in GET /api/schema: group → name → method, path (`:param` style) and fields */
+export function buildEndpointGuide(routes: ApiRoute[], components: Record<string, JsonSchema>) {
+  const guide: Record<string, Record<string, Record<string, unknown>>> = {};
+  for (const route of routes) {
+    guide[route.group] ??= {};
+    guide[route.group]![route.name] = {
+      method: route.method,
+      path: route.path.replace(/\{([^}]+)\}/g, ":$1"),
+      description: route.description ? `${route.summary}. ${route.description}` : route.summary,
+      ...(route.query && {
+        query: Object.fromEntries(route.query.map((q) => [q.name, `${q.required ? "required" : "optional"} — ${q.description}`])),
+      }),
+      ...(route.body && { body: summarizeBody(route.body, components) }),
+    };
+  }
+  return guide;
+}
@@ -0,0 +1,85 @@
+import { test, expect, describe } from "bun:test";
+import { detectOverlaps, getOverlapReason, nameSimilarity } from "./overlap";
+import type { Archetype, ConfidenceTier, ValueItem } from "../types/roi";
+import { ARCHETYPE_DIMENSION } from "../types/roi";
+
+function createItem(
+  id: string,
+  name: string,
+  archetype: Archetype,
+  inputs: Record<string, number>,
+  overrides?: Partial<ValueItem>
+): ValueItem {
+  return {
+    _id: id as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype],
+    name,
+    inputs: Object.fromEntries(
+      Object.entries(inputs).map(([k, value]) => [k, { value, confidence: "A" as ConfidenceTier }])
+    ),
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe("getOverlapReason", () => {
+  test("known pairs overlap in either order", () => {
+    expect(getOverlapReason("task_elimination", "labor_avoidance")).toBeDefined();
+    expect(getOverlapReason("handoff_elimination", "process_acceleration")).toBeDefined();
+  });
+
+  test("same archetype overlaps, unrelated archetypes don't", () => {
+    expect(getOverlapReason("task_elimination", "task_elimination")).toBeDefined();
+    expect(getOverlapReason("tool_consolidation", "pipeline_velocity")).toBeUndefined();
+  });
+});
+
+describe("nameSimilarity", () => {
+  test("ignores case, punctuation and filler words", () => {
+    expect(nameSimilarity("Lead routing automation", "lead-routing")).toBe(1);
+    expect(nameSimilarity("Invoice processing", "Lead routing")).toBe(0);
+  });
+});
+
+describe("detectOverlaps", () => {
+  const tasks = createItem("a", "Invoice entry", "task_elimination", { tasksPerMonth: 2000, minutesPerTask: 10, hourlyRate: 45 }, { useCaseId: "uc1" as any });
+  const labor = createItem("b", "AP clerk avoided", "labor_avoidance", { ftesAvoided: 1, fullyLoadedAnnualCost: 80000 }, { useCaseId: "uc1" as any });
+
+  test("task elimination + labor avoidance on the same use case", () => {
+    const [warning] = detectOverlaps([tasks, labor]);
+    expect(warning).toBeDefined();
+    expect(warning!.type).toBe("double_counting");
+    expect(warning!.signals).toEqual(["shared_use_case"]);
+    expect(warning!.severity).toBe("medium");
+    expect(warning!.atRiskValue).toBe(80000);
+  });
+
+  test("process acceleration + handoff elimination with matching volume and rate is high severity", () => {
+    const process = createItem("c", "Onboarding workflow", "process_acceleration", { processesPerMonth: 100, timeBeforeHrs: 10, timeAfterHrs: 4, hourlyRate: 60 });
+    const handoff = createItem("d", "Onboarding handoffs", "handoff_elimination", { handoffsPerMonth: 102, avgQueueTimeHrs: 2, hourlyRateOfWaitingParty: 60 });
+    const [warning] = detectOverlaps([process, handoff]);
+    expect(warning!.signals).toEqual(["matching_rate", "matching_volume"]);
+    expect(warning!.severity).toBe("high");
+  });
+
+  test("a shared hourly rate alone is not enough", () => {
+    const a = createItem("e", "Invoice entry", "task_elimination", { tasksPerMonth: 100, minutesPerTask: 5, hourlyRate: 50 });
+    const b = createItem("f", "Lead enrichment", "task_elimination", { tasksPerMonth: 900, minutesPerTask: 3, hourlyRate: 50 });
+    expect(detectOverlaps([a, b])).toEqual([]);
+  });
+
+  test("unrelated archetypes are never flagged", () => {
+    const tools = createItem("g", "Invoice entry", "tool_consolidation", { toolsEliminated: 1, annualLicenseCostPerTool: 5000 }, { useCaseId: "uc1" as any });
+    expect(detectOverlaps([tasks, tools])).toEqual([]);
+  });
+
+  test("high severity sorts first", () => {
+    const dupe = createItem("h", "Invoice entry", "task_elimination", { tasksPerMonth: 2000, minutesPerTask: 4, hourlyRate: 45 });
+    const warnings = detectOverlaps([tasks, labor, dupe]);
+    expect(warnings.map((w) => w.severity)).toEqual(["high", "medium"]);
+    expect(warnings[0]!.itemIds).toEqual(["a", "h"]);
+  });
+});
@@ -0,0 +1,151 @@
+import type { Archetype, ValueItem } from "../types/roi";
+import { calculateItemAnnualValue } from "./calculations";
+
+// ============================================================
+// Double-counting detection
+// Flags pairs of value items that are likely claiming the same
+// benefit: an overlapping archetype pair backed by a shared use
+// case, the same volume or similar names. A matching hourly rate
+// raises severity but never flags a pair by itself.
+// ============================================================
+
+export type OverlapSignal =
+  | "shared_use_case"
+  | "matching_rate"
+  | "matching_volume"
+  | "similar_name";
+
+export interface OverlapWarning {
+  type: "double_counting";
+  severity: "high" | "medium";
+  itemIds: [string, string];
+  itemNames: [string, string];
+  archetypes: [ValueItem["archetype"], ValueItem["archetype"]];
+  signals: OverlapSignal[];
+  reason: string;
+  atRiskValue: number; // the smaller item's annual value — the most that could be double counted
+  message: string;
+}
+
+/** Archetype pairs that can claim the same benefit, with why */
+const OVERLAPPING_PAIRS: Array<[Archetype, Archetype, string]> = [
+  ["task_elimination", "task_simplification", "the same tasks can't be both eliminated and simplified"],
+  ["task_elimination", "labor_avoidance", "hours saved and headcount avoided can be the same time"],
+  ["task_simplification", "labor_avoidance", "hours saved and headcount avoided can be the same time"],
+  ["process_acceleration", "labor_avoidance", "hours saved and headcount avoided can be the same time"],
+  ["process_acceleration", "handoff_elimination", "queue time between handoffs is part of process cycle time"],
+  ["process_acceleration", "task_elimination", "manual task time is part of process cycle time"],
+  ["error_rework_elimination", "data_integrity", "data errors and rework can be the same errors"],
+  ["error_rework_elimination", "process_consistency", "process defects and rework can be the same errors"],
+];
+
+const RATE_KEYS = ["hourlyRate", "hourlyRateOfWaitingParty", "meetingHourlyRate", "searchHourlyRate"];
+const VOLUME_KEYS = ["tasksPerMonth", "processesPerMonth", "handoffsPerMonth", "errorsPerMonth", "recordsPerMonth"];
+
+export const NAME_SIMILARITY_THRESHOLD = 0.5;
+const VOLUME_TOLERANCE = 0.05;
+
+const STOP_WORDS = new Set(["a", "an", "and", "the", "of", "for", "to", "in", "on", "with", "by", "automation", "automated"]);
+
+/**
+ * Get the reason two archetypes overlap, or undefined when they don't
+ */
+export function getOverlapReason(a: ValueItem["archetype"], b: ValueItem["archetype"]): string | undefined {
+  if (a === b) return "two items of the same archetype can count the same work twice";
+  const pair = OVERLAPPING_PAIRS.find(([x, y]) => (x === a && y === b) || (x === b && y === a));
+  return pair?.[2];
+}
+
+function tokenize(name: string): Set<string> {
+  return new Set(
+    name
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 1 && !STOP_WORDS.has(t))
+  );
+}
+
+/**
+ * Jaccard similarity of two names' significant words (0–1)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+function inputValues(item: ValueItem, keys: string[]): number[] {
+  return keys.map((k) => item.inputs?.[k]?.value).filter((v): v is number => v !== undefined && v > 0);
+}
+
+function getSignals(a: ValueItem, b: ValueItem): OverlapSignal[] {
+  const signals: OverlapSignal[] = [];
+
+  if (a.useCaseId && b.useCaseId && String(a.useCaseId) === String(b.useCaseId)) {
+    signals.push("shared_use_case");
+  }
+
+  const ratesB = inputValues(b, RATE_KEYS);
+  if (inputValues(a, RATE_KEYS).some((r) => ratesB.includes(r))) {
+    signals.push("matching_rate");
+  }
+
+  const volumesB = inputValues(b, VOLUME_KEYS);
+  if (inputValues(a, VOLUME_KEYS).some((va) => volumesB.some((vb) => Math.abs(va - vb) <= VOLUME_TOLERANCE * Math.max(va, vb)))) {
+    signals.push("matching_volume");
+  }
+
+  if (nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) {
+    signals.push("similar_name");
+  }
+
+  return signals;
+}
+
+const SIGNAL_LABELS: Record<OverlapSignal, string> = {
+  shared_use_case: "linked to the same use case",
+  matching_rate: "same hourly rate",
+  matching_volume: "same volume",
+  similar_name: "similar names",
+};
+
+/**
+ * Find value item pairs that are likely double counting the same benefit.
+ * Manual overrides are included (they still claim value). Sorted by severity, then value at risk.
+ */
+export function detectOverlaps(items: ValueItem[]): OverlapWarning[] {
+  const warnings: OverlapWarning[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i]!;
+      const b = items[j]!;
+      const reason = getOverlapReason(a.archetype, b.archetype);
+      if (!reason) continue;
+
+      // A shared rate alone is too common (default rates) to flag on its own
+      const signals = getSignals(a, b);
+      if (signals.every((s) => s === "matching_rate")) continue;
+
+      const atRiskValue = Math.min(calculateItemAnnualValue(a), calculateItemAnnualValue(b));
+      warnings.push({
+        type: "double_counting",
+        severity: signals.length >= 2 ? "high" : "medium",
+        itemIds: [String(a._id), String(b._id)],
+        itemNames: [a.name, b.name],
+        archetypes: [a.archetype, b.archetype],
+        signals,
+        reason,
+        atRiskValue,
+        message: `"${a.name}" and "${b.name}" may double count: ${reason} (${signals.map((s) => SIGNAL_LABELS[s]).join(", ")})`,
+      });
+    }
+  }
+
+  return warnings.sort(
+    (x, y) => (x.severity === y.severity ? y.atRiskValue - x.atRiskValue : x.severity === "high" ? -1 : 1)
+  );
+}
@@ -0,0 +1,236 @@
+import { test, expect, describe } from "bun:test";
+import {
+  calculateArchetypeValue,
+  calculateCompanyAggregate,
+  calculateComputedValue,
+  calculateItemAnnualValue,
+  calculateItemHoursSaved,
+  calculateSummary,
+  selectCalculatorItems,
+  type AggregateCalculation,
+} from "./calculations";
+import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import { ARCHETYPE_DIMENSION, type Archetype, type Assumptions, type ValueItem } from "../types/roi";
+
+// ============================================================
+// Engine parity: every archetype against an independent copy of
+// the UVS formulas, across edge-case inputs. The calculator page,
+// REST API and company dashboard all run calculations.ts, so these
+// are the numbers all three report.
+// ============================================================
+
+type Get = (key: string) => number;
+
+const REFERENCE_FORMULAS: Record<Archetype, (v: Get) => number> = {
+  pipeline_velocity: (v) => v("dealsPerQuarter") * 4 * v("avgDealValue") * v("conversionLift"),
+  revenue_capture: (v) => v("annualRevenue") * v("leakageRate") * v("captureImprovement"),
+  revenue_expansion: (v) => v("customerBase") * v("expansionRate") * v("avgExpansionValue") * v("lift"),
+  time_to_revenue: (v) => (v("newCustomersPerYear") * v("revenuePerCustomer") * v("daysAccelerated")) / 365,
+  process_acceleration: (v) => v("processesPerMonth") * 12 * (v("timeBeforeHrs") - v("timeAfterHrs")) * v("hourlyRate"),
+  handoff_elimination: (v) => v("handoffsPerMonth") * 12 * v("avgQueueTimeHrs") * v("hourlyRateOfWaitingParty"),
+  task_elimination: (v) => (v("tasksPerMonth") * 12 * v("minutesPerTask") * v("hourlyRate")) / 60,
+  task_simplification: (v) => (v("tasksPerMonth") * 12 * v("minutesSavedPerTask") * v("hourlyRate")) / 60,
+  context_surfacing: (v) =>
+    v("meetingsAvoidedPerMonth") * 12 * v("attendeesPerMeeting") * v("meetingDurationHrs") * v("meetingHourlyRate") +
+    (v("searchesAvoidedPerMonth") * 12 * v("avgSearchTimeMin") * v("searchHourlyRate")) / 60,
+  labor_avoidance: (v) => v("ftesAvoided") * v("fullyLoadedAnnualCost"),
+  tool_consolidation: (v) => v("toolsEliminated") * v("annualLicenseCostPerTool"),
+  error_rework_elimination: (v) => v("errorsPerMonth") * 12 * v("avgCostPerError") * v("reductionRate"),
+  compliance_assurance: (v) => v("expectedViolationsPerYear") * v("avgPenaltyPerViolation") * v("reductionRate"),
+  data_integrity: (v) => v("recordsPerMonth") * 12 * v("errorRate") * v("costPerError") * v("reductionRate"),
+  incident_prevention: (v) => v("incidentsPerYear") * v("avgCostPerIncident") * v("reductionRate"),
+  process_consistency: (v) => v("processesPerMonth") * 12 * v("defectRate") * v("costPerDefect") * v("reductionRate"),
+};
+
+const REFERENCE_HOURS: Partial<Record<Archetype, (v: Get, fteHoursPerMonth: number) => number>> = {
+  task_elimination: (v) => (v("tasksPerMonth") * v("minutesPerTask")) / 60,
+  task_simplification: (v) => (v("tasksPerMonth") * v("minutesSavedPerTask")) / 60,
+  process_acceleration: (v) => v("processesPerMonth") * (v("timeBeforeHrs") - v("timeAfterHrs")),
+  handoff_elimination: (v) => v("handoffsPerMonth") * v("avgQueueTimeHrs"),
+  context_surfacing: (v) =>
+    v("meetingsAvoidedPerMonth") * v("attendeesPerMeeting") * v("meetingDurationHrs") +
+    (v("searchesAvoidedPerMonth") * v("avgSearchTimeMin")) / 60,
+  labor_avoidance: (v, fteHoursPerMonth) => v("ftesAvoided") * fteHoursPerMonth,
+};
+
+const ARCHETYPES = Object.keys(REFERENCE_FORMULAS) as Archetype[];
+
+type Inputs = Record<string, { value: number; confidence: "A" }>;
+
+function toInputs(values: Record<string, number>): Inputs {
+  return Object.fromEntries(Object.entries(values).map(([k, value]) => [k, { value, confidence: "A" as const }]));
+}
+
+/** Edge-case input sets for an archetype, keyed by a readable name */
+function edgeCases(archetype: Archetype): Record<string, Record<string, number>> {
+  const keys = ARCHETYPE_FIELDS[archetype].map((f) => f.key);
+  const fill = (fn: (key: string, i: number) => number) => Object.fromEntries(keys.map((k, i) => [k, fn(k, i)]));
+  const defaults = Object.fromEntries(ARCHETYPE_FIELDS[archetype].map((f) => [f.key, f.defaultValue ?? 0]));
+
+  const cases: Record<string, Record<string, number>> = {
+    defaults,
+    "all zero": fill(() => 0),
+    "no inputs": {},
+    negative: fill((_, i) => (i % 2 === 0 ? -3 : 7)),
+    fractional: fill((_, i) => 0.125 * (i + 1)),
+    large: fill(() => 1e6),
+  };
+  for (const key of keys) {
+    const { [key]: _omitted, ...rest } = defaults;
+    cases[`missing ${key}`] = rest;
+  }
+  return cases;
+}
+
+function expectSameNumber(actual: number, expected: number) {
+  expect(Number.isFinite(actual)).toBe(true);
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(1e-9 * Math.max(1, Math.abs(expected)));
+}
+
+function createItem(id: string, archetype: Archetype, values: Record<string, number>, overrides?: Partial<ValueItem>): ValueItem {
+  return {
+    _id: id as any,
+    _creationTime: 0,
+    calculationId: "calc_a" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype],
+    name: id,
+    inputs: toInputs(values),
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe("archetype formulas", () => {
+  test("every archetype has a reference formula and input fields", () => {
+    expect(ARCHETYPES.sort()).toEqual((Object.keys(ARCHETYPE_DIMENSION) as Archetype[]).sort());
+    for (const archetype of ARCHETYPES) expect(ARCHETYPE_FIELDS[archetype].length).toBeGreaterThan(0);
+  });
+
+  for (const archetype of ARCHETYPES) {
+    describe(archetype, () => {
+      for (const [name, values] of Object.entries(edgeCases(archetype))) {
+        test(name, () => {
+          const expected = REFERENCE_FORMULAS[archetype]((k) => values[k] ?? 0);
+          const item = createItem("item", archetype, values);
+
+          expectSameNumber(calculateArchetypeValue(archetype, toInputs(values)), expected);
+          expectSameNumber(calculateItemAnnualValue(item), expected);
+          expectSameNumber(calculateComputedValue(item).annualValue, expected);
+
+          const hours = REFERENCE_HOURS[archetype];
+          expectSameNumber(calculateItemHoursSaved(item, 150), hours ? hours((k) => values[k] ?? 0, 150) : 0);
+        });
+      }
+
+      test("manual override wins over inputs", () => {
+        const item = createItem("item", archetype, edgeCases(archetype).large!, { manualAnnualValue: 1234 });
+        expect(calculateItemAnnualValue(item)).toBe(1234);
+        expect(calculateComputedValue(item).formula).toBe("Manual override: $1,234");
+      });
+
+      test("trace ends with the rounded value", () => {
+        const item = createItem("item", archetype, edgeCases(archetype).defaults!);
+        const { formula, annualValue } = calculateComputedValue(item);
+        expect(formula.endsWith(`= $${Math.round(annualValue).toLocaleString()}`)).toBe(true);
+      });
+    });
+  }
+
+  test("items stored without inputs evaluate to 0", () => {
+    for (const archetype of ARCHETYPES) {
+      const item = { ...createItem("item", archetype, {}), inputs: undefined } as unknown as ValueItem;
+      expect(calculateItemAnnualValue(item)).toBe(0);
+      expect(calculateItemHoursSaved(item)).toBe(0);
+    }
+  });
+
+  test("unknown archetypes evaluate to 0", () => {
+    expect(calculateArchetypeValue("retired_archetype" as Archetype, toInputs({ tasksPerMonth: 10 }))).toBe(0);
+  });
+});
+
+// ============================================================
+// Calculator page ↔ company aggregate
+// ============================================================
+
+const assumptions: Assumptions = { projectionYears: 3, realizationRamp: [0.5, 1, 1], annualGrowthRate: 0.1 };
+
+function createCalculation(id: string, overrides?: Partial<AggregateCalculation>): AggregateCalculation {
+  return { _id: id, shortId: id, name: id, updatedAt: 0, assumptions, ...overrides };
+}
+
+// Calculator A owns a use case that calculator B also references
+const taskItem = createItem("task", "task_elimination", { tasksPerMonth: 1000, minutesPerTask: 6, hourlyRate: 50 }, {
+  useCaseId: "uc_shared" as any,
+});
+const toolItem = createItem("tool", "tool_consolidation", { toolsEliminated: 2, annualLicenseCostPerTool: 12000 });
+const laborItem = createItem("labor", "labor_avoidance", { ftesAvoided: 1, fullyLoadedAnnualCost: 90000 }, {
+  calculationId: "calc_b" as any,
+});
+const otherCompanyItem = createItem("other", "incident_prevention", { incidentsPerYear: 5, avgCostPerIncident: 1e6, reductionRate: 1 }, {
+  calculationId: "calc_other" as any,
+});
+const ALL_ITEMS = [taskItem, toolItem, laborItem, otherCompanyItem];
+
+const calcA = createCalculation("calc_a", { proposedSpend: 20000, useCaseIds: ["uc_shared"] });
+const calcB = createCalculation("calc_b", {
+  proposedSpend: 10000,
+  useCaseIds: ["uc_shared"],
+  assumptions: { ...assumptions, fteHoursPerMonth: 140 },
+});
+
+describe("selectCalculatorItems", () => {
+  test("includes own items and items of referenced shared use cases", () => {
+    expect(selectCalculatorItems(calcA, ALL_ITEMS).map((i) => i._id)).toEqual(["task", "tool"] as any);
+    expect(selectCalculatorItems(calcB, ALL_ITEMS).map((i) => i._id)).toEqual(["task", "labor"] as any);
+  });
+
+  test("without shared use cases only the calculator's own items count", () => {
+    const calc = createCalculation("calc_b");
+    expect(selectCalculatorItems(calc, ALL_ITEMS).map((i) => i._id)).toEqual(["labor"] as any);
+  });
+});
+
+describe("calculateCompanyAggregate", () => {
+  const aggregate = calculateCompanyAggregate([calcA, calcB], ALL_ITEMS);
+
+  test("each calculator matches its calculator page summary", () => {
+    for (const [calc, figures] of [[calcA, aggregate.calculators[0]!], [calcB, aggregate.calculators[1]!]] as const) {
+      const items = selectCalculatorItems(calc, ALL_ITEMS);
+      const summary = calculateSummary(items, { ...assumptions, ...calc.assumptions }, calc.proposedSpend);
+      expect(figures.totalAnnualValue).toBe(summary.totalAnnualValue);
+      expect(figures.roiMultiple).toBe(summary.roiMultiple);
+      expect(figures.hoursSavedPerMonth).toBe(summary.hoursSavedPerMonth);
+      expect(figures.valueItemCount).toBe(items.length);
+    }
+  });
+
+  test("shared use case items count once at company level", () => {
+    const task = calculateItemAnnualValue(taskItem);
+    const tool = calculateItemAnnualValue(toolItem);
+    const labor = calculateItemAnnualValue(laborItem);
+    expect(aggregate.calculators[0]!.totalAnnualValue).toBe(task + tool);
+    expect(aggregate.calculators[1]!.totalAnnualValue).toBe(task + labor);
+    expect(aggregate.totalAnnualValue).toBe(task + tool + labor);
+    expect(aggregate.totalROI).toBe((task + tool + labor) / 30000);
+    expect(aggregate.dimensionTotals.reduce((sum, d) => sum + d.total, 0)).toBe(aggregate.totalAnnualValue);
+  });
+
+  test("hours use the FTE hours of the calculator that owns the item", () => {
+    // 100 task hours + 1 FTE × 140 hrs from calculator B
+    expect(aggregate.totalHoursSavedPerMonth).toBe(240);
+    expect(aggregate.calculators[1]!.hoursSavedPerMonth).toBe(240);
+  });
+
+  test("duplicate items in the input are ignored", () => {
+    const withDuplicates = calculateCompanyAggregate([calcA, calcB], [...ALL_ITEMS, taskItem, laborItem]);
+    expect(withDuplicates).toEqual(aggregate);
+  });
+
+  test("reports the primary dimension per calculator", () => {
+    expect(aggregate.calculators[0]!.primaryDimension).toBe("productivity");
+    expect(aggregate.calculators[1]!.primaryDimension).toBe("cost_avoidance");
+    expect(calculateCompanyAggregate([createCalculation("empty")], ALL_ITEMS).calculators[0]!.primaryDimension).toBeNull();
+  });
+});
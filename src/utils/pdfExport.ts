@@ -1,5 +1,5 @@
 import { jsPDF } from "jspdf";
-import type { Calculation, ValueItem, YearProjection } from "../types/roi";
+import type { Calculation, UseCase, ValueItem, YearProjection } from "../types/roi";
 import type { DimensionTotal } from "../types/roi";
 import {
   calculateTotalAnnualValue,
@@ -7,14 +7,20 @@ import {
   calculateROIMultiple,
   getDimensionBreakdown,
   calculateTotalHoursSaved,
+  calculateTimeValueMetrics,
+  calculateMonthlyProjection,
+  buildValueStreams,
 } from "./calculations";
 import {
   formatCurrency,
   formatCurrencyCompact,
   formatMultiple,
   formatNumber,
+  formatPaybackMonths,
   formatPercent,
+  formatPercentPrecise,
 } from "./formatting";
+import { DEFAULT_DISCOUNT_RATE } from "../types/roi";
 
 // Zapier brand colors
 const COLORS = {
@@ -34,22 +40,36 @@ interface PDFData {
   breakdown: DimensionTotal[];
   projections: YearProjection[];
   totalHoursSaved: number;
+  implementationCost: number;
+  npv: number;
+  irr: number | null;
+  paybackMonth: number | null;
 }
 
 export function generateExecutiveSummaryPDF(
   calculation: Calculation,
-  valueItems: ValueItem[]
+  valueItems: ValueItem[],
+  useCases: UseCase[] = []
 ): void {
   const totalValue = calculateTotalAnnualValue(valueItems);
   const proposedSpend = calculation.proposedSpend ?? 0;
   const roiMultiple = calculateROIMultiple(totalValue, proposedSpend);
   const breakdown = getDimensionBreakdown(valueItems);
+  const streams = buildValueStreams(valueItems, useCases);
   const projections = calculateProjection(
     totalValue,
     calculation.assumptions,
-    proposedSpend
+    proposedSpend,
+    streams
+  );
+  const totalHoursSaved = calculateTotalHoursSaved(valueItems, calculation.assumptions.fteHoursPerMonth);
+  const implementationCost = calculation.implementationCost ?? 0;
+  const { npv, irr, paybackMonth } = calculateTimeValueMetrics(
+    projections,
+    calculation.assumptions,
+    implementationCost,
+    calculateMonthlyProjection(streams, calculation.assumptions, proposedSpend)
   );
-  const totalHoursSaved = calculateTotalHoursSaved(valueItems);
 
   const data: PDFData = {
     calculation,
@@ -60,6 +80,10 @@ export function generateExecutiveSummaryPDF(
     breakdown,
     projections,
     totalHoursSaved,
+    implementationCost,
+    npv,
+    irr,
+    paybackMonth,
   };
 
   const doc = new jsPDF({
@@ -76,6 +100,9 @@ export function generateExecutiveSummaryPDF(
   // KPI Summary
   y = drawKPISummary(doc, data, y);
 
+  // NPV / IRR / Payback
+  y = drawFinancialMetrics(doc, data, y);
+
   // Value Breakdown
   y = drawValueBreakdown(doc, data, y);
 
@@ -196,6 +223,50 @@ function drawKPISummary(doc: jsPDF, data: PDFData, y: number): number {
   return y + boxHeight + 8;
 }
 
+function drawFinancialMetrics(doc: jsPDF, data: PDFData, y: number): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const boxWidth = (pageWidth - 50) / 3;
+  const boxHeight = 18;
+  const discountRate = data.calculation.assumptions.discountRate ?? DEFAULT_DISCOUNT_RATE;
+
+  const boxes = [
+    { label: `NPV (${formatPercent(discountRate)} discount)`, value: formatCurrencyCompact(data.npv) },
+    { label: "IRR", value: data.irr !== null ? formatPercentPrecise(data.irr) : "—" },
+    { label: "Payback", value: formatPaybackMonths(data.paybackMonth) },
+  ];
+
+  boxes.forEach((box, i) => {
+    const x = 15 + i * (boxWidth + 10);
+    doc.setFillColor(COLORS.background);
+    doc.roundedRect(x, y, boxWidth, boxHeight, 2, 2, "F");
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.mediumGray);
+    doc.text(box.label, x + boxWidth / 2, y + 6, { align: "center" });
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(COLORS.darkGray);
+    doc.text(box.value, x + boxWidth / 2, y + 14, { align: "center" });
+  });
+
+  y += boxHeight + 4;
+  if (data.implementationCost > 0) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.lightGray);
+    doc.text(
+      `Includes one-time implementation cost of ${formatCurrency(data.implementationCost)} at go-live.`,
+      15,
+      y + 2
+    );
+    y += 5;
+  }
+
+  return y + 4;
+}
+
 function drawValueBreakdown(doc: jsPDF, data: PDFData, y: number): number {
   if (data.breakdown.length === 0) return y;
 
@@ -0,0 +1,95 @@
+import { test, expect, describe } from "bun:test";
+import {
+  applyScenarioOverrides,
+  buildDefaultScenarios,
+  compareScenarios,
+  resolveScenario,
+  setScenarioOverride,
+} from "./scenarios";
+import type { Assumptions, ValueItem } from "../types/roi";
+
+const base: Assumptions = {
+  projectionYears: 3,
+  realizationRamp: [0.5, 1, 1],
+  annualGrowthRate: 0.1,
+};
+
+function taskItem(id: string, tasksPerMonth: number): ValueItem {
+  return {
+    _id: id as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype: "task_elimination",
+    dimension: "productivity",
+    name: `Item ${id}`,
+    inputs: {
+      tasksPerMonth: { value: tasksPerMonth, confidence: "A" },
+      minutesPerTask: { value: 6, confidence: "A" },
+      hourlyRate: { value: 60, confidence: "A" },
+    },
+    order: 0,
+  };
+}
+
+describe("buildDefaultScenarios", () => {
+  test("expected mirrors the base assumptions", () => {
+    const expected = buildDefaultScenarios(base).find((s) => s.id === "expected")!;
+    expect(expected.assumptions).toEqual(base);
+  });
+
+  test("conservative ramps slower and aggressive caps at 100%", () => {
+    const scenarios = buildDefaultScenarios(base);
+    const conservative = scenarios.find((s) => s.id === "conservative")!;
+    const aggressive = scenarios.find((s) => s.id === "aggressive")!;
+    expect(conservative.assumptions.realizationRamp).toEqual([0.38, 0.75, 0.75]);
+    expect(conservative.assumptions.annualGrowthRate).toBeCloseTo(0.05);
+    expect(aggressive.assumptions.realizationRamp).toEqual([0.63, 1, 1]);
+    expect(aggressive.assumptions.annualGrowthRate).toBeCloseTo(0.15);
+  });
+});
+
+describe("scenario overrides", () => {
+  test("set and clear an override", () => {
+    const [conservative] = buildDefaultScenarios(base);
+    const withOverride = setScenarioOverride(conservative!, "a", "tasksPerMonth", 500);
+    expect(withOverride.itemOverrides).toEqual([{ valueItemId: "a", inputs: { tasksPerMonth: 500 } }]);
+    const cleared = setScenarioOverride(withOverride, "a", "tasksPerMonth", null);
+    expect(cleared.itemOverrides).toEqual([]);
+  });
+
+  test("overrides replace only the targeted input and keep its confidence", () => {
+    const [conservative] = buildDefaultScenarios(base);
+    const scenario = setScenarioOverride(conservative!, "a", "tasksPerMonth", 500);
+    const [a, b] = applyScenarioOverrides([taskItem("a", 1000), taskItem("b", 1000)], scenario);
+    expect(a!.inputs.tasksPerMonth).toEqual({ value: 500, confidence: "A" });
+    expect(a!.inputs.minutesPerTask!.value).toBe(6);
+    expect(b!.inputs.tasksPerMonth!.value).toBe(1000);
+  });
+});
+
+describe("resolveScenario", () => {
+  test("falls back to base assumptions without scenarios", () => {
+    const items = [taskItem("a", 1000)];
+    const resolved = resolveScenario({ assumptions: base }, items);
+    expect(resolved.scenario).toBeUndefined();
+    expect(resolved.assumptions).toBe(base);
+    expect(resolved.valueItems).toBe(items);
+  });
+
+  test("uses the active scenario unless one is requested", () => {
+    const calculation = { assumptions: base, scenarios: buildDefaultScenarios(base), activeScenarioId: "aggressive" as const };
+    expect(resolveScenario(calculation, []).scenario!.id).toBe("aggressive");
+    expect(resolveScenario(calculation, [], "conservative").scenario!.id).toBe("conservative");
+  });
+});
+
+describe("compareScenarios", () => {
+  test("orders scenario values conservative < expected < aggressive", () => {
+    const calculation = { assumptions: base, scenarios: buildDefaultScenarios(base) };
+    const rows = compareScenarios(calculation, [taskItem("a", 1000)], 10000);
+    const cumulative = rows.map((r) => r.summary.projection[2]!.cumulativeValue);
+    expect(rows.map((r) => r.scenario.id)).toEqual(["conservative", "expected", "aggressive"]);
+    expect(cumulative[0]!).toBeLessThan(cumulative[1]!);
+    expect(cumulative[1]!).toBeLessThan(cumulative[2]!);
+  });
+});
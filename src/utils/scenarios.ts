@@ -0,0 +1,151 @@
+import type {
+  Assumptions,
+  Calculation,
+  CalculationSummary,
+  Scenario,
+  ScenarioId,
+  UseCase,
+  ValueItem,
+} from "../types/roi";
+import { SCENARIO_INFO, SCENARIO_ORDER } from "../types/roi";
+import { calculateSummary } from "./calculations";
+
+// ============================================================
+// Scenario sets (conservative / expected / aggressive)
+// "expected" mirrors the calculator's base assumptions; the other
+// two are derived from it and can then be edited independently.
+// ============================================================
+
+type ScenarioCalculation = Pick<Calculation, "assumptions" | "scenarios" | "activeScenarioId">;
+
+const SCENARIO_PRESETS: Record<ScenarioId, { rampScale: number; growthScale: number }> = {
+  conservative: { rampScale: 0.75, growthScale: 0.5 },
+  expected: { rampScale: 1, growthScale: 1 },
+  aggressive: { rampScale: 1.25, growthScale: 1.5 },
+};
+
+function roundTo(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Build the three default scenarios from a base set of assumptions
+ */
+export function buildDefaultScenarios(base: Assumptions): Scenario[] {
+  return SCENARIO_ORDER.map((id) => {
+    const preset = SCENARIO_PRESETS[id];
+    return {
+      id,
+      name: SCENARIO_INFO[id].label,
+      assumptions: {
+        projectionYears: base.projectionYears,
+        realizationRamp: base.realizationRamp.map((r) => Math.min(1, roundTo(r * preset.rampScale, 2))),
+        annualGrowthRate: roundTo(base.annualGrowthRate * preset.growthScale, 4),
+        ...(base.discountRate !== undefined && { discountRate: base.discountRate }),
+        ...(base.fteHoursPerMonth !== undefined && { fteHoursPerMonth: base.fteHoursPerMonth }),
+      },
+      itemOverrides: [],
+    };
+  });
+}
+
+/**
+ * Get a scenario by id, or the active scenario when no id is given
+ */
+export function getScenario(
+  calculation: ScenarioCalculation,
+  scenarioId?: ScenarioId
+): Scenario | undefined {
+  const id = scenarioId ?? calculation.activeScenarioId ?? "expected";
+  return calculation.scenarios?.find((s) => s.id === id);
+}
+
+/**
+ * Apply a scenario's per-item input overrides on top of the stored inputs
+ */
+export function applyScenarioOverrides(items: ValueItem[], scenario?: Scenario): ValueItem[] {
+  const overrides = scenario?.itemOverrides ?? [];
+  if (overrides.length === 0) return items;
+
+  const byItem = new Map(overrides.map((o) => [o.valueItemId, o.inputs]));
+  return items.map((item) => {
+    const itemOverrides = byItem.get(String(item._id));
+    if (!itemOverrides) return item;
+
+    const inputs = { ...item.inputs };
+    for (const [key, value] of Object.entries(itemOverrides)) {
+      const base = inputs[key];
+      inputs[key] = base ? { ...base, value } : { value, confidence: "D" };
+    }
+    return { ...item, inputs };
+  });
+}
+
+/**
+ * Resolve the assumptions and effective value items for a scenario
+ * (falls back to the calculator's base assumptions when there are none)
+ */
+export function resolveScenario(
+  calculation: ScenarioCalculation,
+  items: ValueItem[],
+  scenarioId?: ScenarioId
+): { scenario?: Scenario; assumptions: Assumptions; valueItems: ValueItem[] } {
+  const scenario = getScenario(calculation, scenarioId);
+  return {
+    scenario,
+    assumptions: scenario?.assumptions ?? calculation.assumptions,
+    valueItems: applyScenarioOverrides(items, scenario),
+  };
+}
+
+/**
+ * Set (or clear with null) one input override on a scenario
+ */
+export function setScenarioOverride(
+  scenario: Scenario,
+  valueItemId: string,
+  inputKey: string,
+  value: number | null
+): Scenario {
+  const overrides = (scenario.itemOverrides ?? []).map((o) => ({ ...o, inputs: { ...o.inputs } }));
+  let entry = overrides.find((o) => o.valueItemId === valueItemId);
+  if (!entry) {
+    if (value === null) return scenario;
+    entry = { valueItemId, inputs: {} };
+    overrides.push(entry);
+  }
+
+  if (value === null) {
+    delete entry.inputs[inputKey];
+  } else {
+    entry.inputs[inputKey] = value;
+  }
+
+  return {
+    ...scenario,
+    itemOverrides: overrides.filter((o) => Object.keys(o.inputs).length > 0),
+  };
+}
+
+/**
+ * Calculate a summary for every scenario so they can be compared side by side
+ */
+export function compareScenarios(
+  calculation: ScenarioCalculation,
+  items: ValueItem[],
+  proposedSpend?: number,
+  implementationCost?: number,
+  useCases?: UseCase[]
+): { scenario: Scenario; summary: CalculationSummary }[] {
+  return (calculation.scenarios ?? []).map((scenario) => ({
+    scenario,
+    summary: calculateSummary(
+      applyScenarioOverrides(items, scenario),
+      scenario.assumptions,
+      proposedSpend,
+      implementationCost,
+      useCases
+    ),
+  }));
+}
@@ -0,0 +1,96 @@
+import { test, expect, describe } from "bun:test";
+import { calculateSensitivity } from "./sensitivity";
+import type { Archetype, ConfidenceTier, ValueItem } from "../types/roi";
+import { ARCHETYPE_DIMENSION } from "../types/roi";
+
+function createItem(
+  id: string,
+  archetype: Archetype,
+  inputs: Record<string, { value: number; confidence: ConfidenceTier }>,
+  overrides?: Partial<ValueItem>
+): ValueItem {
+  return {
+    _id: id as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype],
+    name: `Item ${id}`,
+    inputs,
+    order: 0,
+    ...overrides,
+  };
+}
+
+const tasks = createItem("a", "task_elimination", {
+  tasksPerMonth: { value: 1000, confidence: "A" },
+  minutesPerTask: { value: 6, confidence: "A" },
+  hourlyRate: { value: 60, confidence: "A" },
+}); // 1000 × 6 × 1 × 12 = 72,000
+
+const tools = createItem("b", "tool_consolidation", {
+  toolsEliminated: { value: 1, confidence: "A" },
+  annualLicenseCostPerTool: { value: 10000, confidence: "A" },
+}); // 10,000
+
+describe("calculateSensitivity", () => {
+  test("moves each input ±percent and measures the total", () => {
+    const result = calculateSensitivity([tasks, tools], { percent: 0.1 });
+    expect(result.baseTotal).toBeCloseTo(82000);
+
+    const entry = result.entries.find((e) => e.inputKey === "tasksPerMonth")!;
+    expect(entry.lowValue).toBeCloseTo(900);
+    expect(entry.highValue).toBeCloseTo(1100);
+    expect(entry.lowTotal).toBeCloseTo(82000 - 7200);
+    expect(entry.highTotal).toBeCloseTo(82000 + 7200);
+    expect(entry.swing).toBeCloseTo(14400);
+  });
+
+  test("ranks inputs by swing, largest first", () => {
+    const result = calculateSensitivity([tasks, tools]);
+    const swings = result.entries.map((e) => e.swing);
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    expect(result.entries[0]!.itemId).toBe("a");
+    expect(result.entries.reduce((sum, e) => sum + e.shareOfSwing, 0)).toBeCloseTo(1);
+  });
+
+  test("range mode uses benchmark ranges where defined", () => {
+    const errors = createItem("c", "error_rework_elimination", {
+      errorsPerMonth: { value: 100, confidence: "A" },
+      avgCostPerError: { value: 150, confidence: "C" },
+      reductionRate: { value: 0.7, confidence: "C" },
+    });
+    const result = calculateSensitivity([errors], { mode: "range", percent: 0.2 });
+    const cost = result.entries.find((e) => e.inputKey === "avgCostPerError")!;
+    expect(cost.basis).toBe("range");
+    expect(cost.lowValue).toBe(50);
+    expect(cost.highValue).toBe(500);
+    const volume = result.entries.find((e) => e.inputKey === "errorsPerMonth")!;
+    expect(volume.basis).toBe("percent");
+    expect(volume.highValue).toBeCloseTo(120);
+  });
+
+  test("percentage inputs are capped at 100%", () => {
+    const errors = createItem("c", "error_rework_elimination", {
+      errorsPerMonth: { value: 100, confidence: "A" },
+      avgCostPerError: { value: 150, confidence: "A" },
+      reductionRate: { value: 0.9, confidence: "A" },
+    });
+    const rate = calculateSensitivity([errors], { percent: 0.5 }).entries.find((e) => e.inputKey === "reductionRate")!;
+    expect(rate.highValue).toBe(1);
+  });
+
+  test("manual overrides contribute to the base but have no inputs to move", () => {
+    const manual = { ...tools, _id: "m" as any, manualAnnualValue: 5000 };
+    const result = calculateSensitivity([tasks, manual]);
+    expect(result.baseTotal).toBeCloseTo(77000);
+    expect(result.entries.some((e) => e.itemId === "m")).toBe(false);
+    expect(result.items.find((i) => i.itemId === "m")!.entries).toEqual([]);
+  });
+
+  test("groups entries per item", () => {
+    const result = calculateSensitivity([tasks, tools]);
+    expect(result.items.map((i) => i.entries.length)).toEqual([3, 2]);
+    expect(result.items[1]!.baseValue).toBe(10000);
+  });
+});
@@ -0,0 +1,150 @@
+import type { ValueItem } from "../types/roi";
+import { calculateArchetypeValue, calculateItemAnnualValue } from "./calculations";
+import { getArchetypeFields } from "./customArchetypes";
+
+// ============================================================
+// Sensitivity analysis (tornado chart)
+// Moves one input at a time to a low and high value and measures
+// how far the total annual value swings. Archetype formulas are
+// independent per item, so the swing on the total equals the swing
+// on the item that owns the input.
+// ============================================================
+
+export type SensitivityMode = "percent" | "range";
+
+export const DEFAULT_SENSITIVITY_PERCENT = 0.2;
+
+export interface SensitivityOptions {
+  /** "percent" moves every input ±percent; "range" uses ARCHETYPE_FIELDS ranges where defined */
+  mode?: SensitivityMode;
+  percent?: number;
+}
+
+export interface SensitivityEntry {
+  itemId: string;
+  itemName: string;
+  archetype: ValueItem["archetype"];
+  inputKey: string;
+  inputLabel: string;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  /** "range" when the benchmark range was used, "percent" for ±percent */
+  basis: SensitivityMode;
+  lowTotal: number;
+  highTotal: number;
+  swing: number; // |highTotal - lowTotal|
+  shareOfSwing: number; // 0–1 share of the sum of all swings
+}
+
+export interface ItemSensitivity {
+  itemId: string;
+  itemName: string;
+  baseValue: number;
+  entries: SensitivityEntry[];
+}
+
+export interface SensitivityResult {
+  mode: SensitivityMode;
+  percent: number;
+  baseTotal: number;
+  entries: SensitivityEntry[]; // every input, largest swing first
+  items: ItemSensitivity[];
+}
+
+/**
+ * Get the low / high test values for one input
+ */
+function getTestValues(
+  value: number,
+  percent: number,
+  mode: SensitivityMode,
+  range?: [number, number],
+  isPercentage?: boolean
+): { low: number; high: number; basis: SensitivityMode } {
+  if (mode === "range" && range) {
+    return { low: range[0], high: range[1], basis: "range" };
+  }
+
+  const low = Math.max(0, value * (1 - percent));
+  const high = value * (1 + percent);
+  return { low, high: isPercentage ? Math.min(1, high) : high, basis: "percent" };
+}
+
+/**
+ * Rank every input of every value item by its effect on the total annual value
+ */
+export function calculateSensitivity(
+  items: ValueItem[],
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  const mode = options.mode ?? "percent";
+  const percent = options.percent ?? DEFAULT_SENSITIVITY_PERCENT;
+
+  const itemValues = items.map((item) => calculateItemAnnualValue(item));
+  const baseTotal = itemValues.reduce((sum, v) => sum + v, 0);
+
+  const entries: SensitivityEntry[] = [];
+  items.forEach((item, index) => {
+    // Manual overrides don't depend on inputs
+    if (item.manualAnnualValue !== undefined && item.manualAnnualValue !== null) return;
+
+    const fields = getArchetypeFields(item);
+    const inputs = item.inputs ?? {};
+    const baseItemValue = itemValues[index]!;
+
+    for (const field of fields) {
+      const input = inputs[field.key];
+      if (!input) continue;
+
+      const { low, high, basis } = getTestValues(
+        input.value,
+        percent,
+        mode,
+        field.range,
+        field.type === "percentage"
+      );
+      const totalWith = (value: number) =>
+        baseTotal -
+        baseItemValue +
+        calculateArchetypeValue(item.archetype, { ...inputs, [field.key]: { value } }, item.customArchetype);
+
+      const lowTotal = totalWith(low);
+      const highTotal = totalWith(high);
+      entries.push({
+        itemId: String(item._id),
+        itemName: item.name,
+        archetype: item.archetype,
+        inputKey: field.key,
+        inputLabel: field.label,
+        baseValue: input.value,
+        lowValue: low,
+        highValue: high,
+        basis,
+        lowTotal,
+        highTotal,
+        swing: Math.abs(highTotal - lowTotal),
+        shareOfSwing: 0,
+      });
+    }
+  });
+
+  const totalSwing = entries.reduce((sum, e) => sum + e.swing, 0);
+  for (const entry of entries) {
+    entry.shareOfSwing = totalSwing > 0 ? entry.swing / totalSwing : 0;
+  }
+  entries.sort((a, b) => b.swing - a.swing);
+
+  return {
+    mode,
+    percent,
+    baseTotal,
+    entries,
+    items: items.map((item, index) => ({
+      itemId: String(item._id),
+      itemName: item.name,
+      baseValue: itemValues[index]!,
+      entries: entries.filter((e) => e.itemId === String(item._id)),
+    })),
+  };
+}
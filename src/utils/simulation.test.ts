@@ -0,0 +1,143 @@
+import { test, expect, describe } from "bun:test";
+import { runSimulation, getSamplingBounds, createRandom } from "./simulation";
+import { calculateItemAnnualValue } from "./calculations";
+import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import type { Archetype, ValueItem, ConfidenceTier, Dimension } from "../types/roi";
+import { ARCHETYPE_DIMENSION } from "../types/roi";
+
+function createItem(
+  archetype: Archetype,
+  inputs: Record<string, { value: number; confidence: ConfidenceTier }>,
+  overrides?: Partial<ValueItem>
+): ValueItem {
+  return {
+    _id: "test_id" as any,
+    _creationTime: Date.now(),
+    calculationId: "calc_id" as any,
+    archetype,
+    dimension: ARCHETYPE_DIMENSION[archetype] as Dimension,
+    name: "Test Item",
+    inputs,
+    order: 0,
+    ...overrides,
+  };
+}
+
+function taskItem(confidence: ConfidenceTier, overrides?: Partial<ValueItem>) {
+  return createItem(
+    "task_elimination",
+    {
+      tasksPerMonth: { value: 1000, confidence },
+      minutesPerTask: { value: 15, confidence },
+      hourlyRate: { value: 50, confidence },
+    },
+    overrides
+  );
+}
+
+describe("createRandom", () => {
+  test("is deterministic for a seed", () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    for (let i = 0; i < 5; i++) expect(a()).toBe(b());
+  });
+
+  test("returns values in [0, 1)", () => {
+    const random = createRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const r = random();
+      expect(r).toBeGreaterThanOrEqual(0);
+      expect(r).toBeLessThan(1);
+    }
+  });
+});
+
+describe("getSamplingBounds", () => {
+  test("unranged inputs widen with lower confidence", () => {
+    const [aMin, aMax] = getSamplingBounds(100, "A");
+    const [dMin, dMax] = getSamplingBounds(100, "D");
+    expect(aMin).toBeCloseTo(95);
+    expect(aMax).toBeCloseTo(105);
+    expect(dMin).toBeCloseTo(50);
+    expect(dMax).toBeCloseTo(150);
+  });
+
+  test("ranged inputs use the benchmark range at C tier", () => {
+    const field = ARCHETYPE_FIELDS.revenue_capture.find((f) => f.key === "leakageRate")!;
+    const [min, max] = getSamplingBounds(0.05, "C", field);
+    expect(min).toBeCloseTo(0.03);
+    expect(max).toBeCloseTo(0.10);
+  });
+
+  test("percentages are clamped to 100%", () => {
+    const field = ARCHETYPE_FIELDS.error_rework_elimination.find((f) => f.key === "reductionRate")!;
+    const [, max] = getSamplingBounds(0.9, "D", field);
+    expect(max).toBeLessThanOrEqual(1);
+  });
+
+  test("never goes negative", () => {
+    const [min] = getSamplingBounds(10, "D", { ...ARCHETYPE_FIELDS.pipeline_velocity[2]!, range: [0, 100] });
+    expect(min).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("runSimulation", () => {
+  test("percentiles are ordered and bracket the point estimate", () => {
+    const item = taskItem("C");
+    const result = runSimulation([item], 50000);
+    const point = calculateItemAnnualValue(item);
+    const band = result.total.annualValue;
+    expect(band.p10).toBeLessThan(band.p50);
+    expect(band.p50).toBeLessThan(band.p90);
+    expect(band.p10).toBeLessThan(point);
+    expect(band.p90).toBeGreaterThan(point);
+  });
+
+  test("higher confidence gives a narrower band", () => {
+    const a = runSimulation([taskItem("A")]).total.annualValue;
+    const d = runSimulation([taskItem("D")]).total.annualValue;
+    expect(a.p90 - a.p10).toBeLessThan(d.p90 - d.p10);
+  });
+
+  test("is reproducible for the same seed", () => {
+    const items = [taskItem("C")];
+    expect(runSimulation(items, 0, { seed: 3 })).toEqual(runSimulation(items, 0, { seed: 3 }));
+  });
+
+  test("manual overrides are held fixed", () => {
+    const result = runSimulation([taskItem("D", { manualAnnualValue: 75000 })]);
+    expect(result.total.annualValue).toEqual({ p10: 75000, p50: 75000, p90: 75000 });
+  });
+
+  test("returns per-item and per-dimension bands", () => {
+    const items = [
+      taskItem("B", { _id: "a" as any, name: "Tasks" }),
+      createItem(
+        "tool_consolidation",
+        {
+          toolsEliminated: { value: 2, confidence: "A" },
+          annualLicenseCostPerTool: { value: 10000, confidence: "B" },
+        },
+        { _id: "b" as any, name: "Tools" }
+      ),
+    ];
+    const result = runSimulation(items, 0, { iterations: 500 });
+    expect(result.iterations).toBe(500);
+    expect(result.items.map((i) => i.itemId)).toEqual(["a", "b"]);
+    expect(result.dimensions.map((d) => d.dimension)).toEqual(["productivity", "cost_avoidance"]);
+    expect(result.total.annualValue.p50).toBeGreaterThan(result.items[0]!.annualValue.p50);
+  });
+
+  test("ROI multiple is null without proposed spend", () => {
+    const result = runSimulation([taskItem("C")]);
+    expect(result.total.roiMultiple).toBeNull();
+    const withSpend = runSimulation([taskItem("C")], 10000);
+    expect(withSpend.total.roiMultiple!.p50).toBeCloseTo(withSpend.total.annualValue.p50 / 10000);
+  });
+
+  test("empty calculation yields zero band", () => {
+    const result = runSimulation([]);
+    expect(result.total.annualValue).toEqual({ p10: 0, p50: 0, p90: 0 });
+    expect(result.dimensions).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import type { ConfidenceTier, Dimension, ValueItem } from "../types/roi";
+import { DIMENSION_INFO, DIMENSION_ORDER, normalizeConfidence } from "../types/roi";
+import type { ArchetypeFieldDef } from "../types/archetypes";
+import { calculateArchetypeValue } from "./calculations";
+import { getArchetypeFields, getArchetypeInfo } from "./customArchetypes";
+
+// ============================================================
+// Monte Carlo uncertainty simulation
+// Samples every input from a triangular distribution around its
+// current value and reruns the archetype formulas to get a
+// P10 / P50 / P90 band per item, per dimension and overall.
+// ============================================================
+
+export const DEFAULT_SIMULATION_ITERATIONS = 2000;
+export const DEFAULT_SIMULATION_SEED = 42;
+
+/**
+ * Relative half-width of the sampling band for inputs without a benchmark
+ * range, e.g. a C-tier value of 100 is sampled from 70–130.
+ */
+export const TIER_SPREAD: Record<ConfidenceTier, number> = {
+  A: 0.05,
+  B: 0.15,
+  C: 0.3,
+  D: 0.5,
+};
+
+/**
+ * Scale applied to the benchmark range for inputs that have one. Customer
+ * data (A) only uses a quarter of the published spread; unsourced (D)
+ * inputs stretch 50% beyond it.
+ */
+export const TIER_RANGE_SCALE: Record<ConfidenceTier, number> = {
+  A: 0.25,
+  B: 0.5,
+  C: 1,
+  D: 1.5,
+};
+
+export type SimulationItem = Pick<
+  ValueItem,
+  "_id" | "name" | "archetype" | "customArchetype" | "dimension" | "inputs" | "manualAnnualValue"
+>;
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationBand {
+  annualValue: PercentileBand;
+  roiMultiple: PercentileBand | null; // null when there is no proposed spend
+}
+
+export interface ItemSimulation extends SimulationBand {
+  itemId: string;
+  name: string;
+}
+
+export interface DimensionSimulation extends SimulationBand {
+  dimension: Dimension;
+  label: string;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  items: ItemSimulation[];
+  dimensions: DimensionSimulation[];
+  total: SimulationBand;
+}
+
+export interface SimulationOptions {
+  iterations?: number;
+  seed?: number;
+}
+
+/** Deterministic PRNG (mulberry32) so the same calculation always yields the same band */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Sample from a triangular distribution with the given min, mode and max */
+function sampleTriangular(random: () => number, min: number, mode: number, max: number): number {
+  if (max <= min) return mode;
+  const u = random();
+  const cut = (mode - min) / (max - min);
+  if (u < cut) return min + Math.sqrt(u * (max - min) * (mode - min));
+  return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+/**
+ * Get the [min, max] sampling bounds for one input.
+ * Ranged fields scale the benchmark range around the value by tier;
+ * other fields use a symmetric relative spread.
+ */
+export function getSamplingBounds(
+  value: number,
+  tier: ConfidenceTier,
+  field?: ArchetypeFieldDef
+): [number, number] {
+  let min: number;
+  let max: number;
+
+  if (field?.range) {
+    const scale = TIER_RANGE_SCALE[tier];
+    const low = Math.min(field.range[0], value);
+    const high = Math.max(field.range[1], value);
+    min = value - (value - low) * scale;
+    max = value + (high - value) * scale;
+  } else {
+    const spread = Math.abs(value) * TIER_SPREAD[tier];
+    min = value - spread;
+    max = value + spread;
+  }
+
+  // Inputs are counts, rates and dollar amounts — never negative, and
+  // percentages can't exceed 100%
+  min = Math.max(0, min);
+  if (field?.type === "percentage") max = Math.min(1, max);
+  return [Math.min(min, value), Math.max(max, value)];
+}
+
+/** Get the percentile of an ascending-sorted sample (linear interpolation) */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+  return sorted[lower]! * (1 - weight) + sorted[upper]! * weight;
+}
+
+function toBand(samples: number[]): PercentileBand {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+  };
+}
+
+function toSimulationBand(samples: number[], proposedSpend: number): SimulationBand {
+  const annualValue = toBand(samples);
+  return {
+    annualValue,
+    roiMultiple:
+      proposedSpend > 0
+        ? {
+            p10: annualValue.p10 / proposedSpend,
+            p50: annualValue.p50 / proposedSpend,
+            p90: annualValue.p90 / proposedSpend,
+          }
+        : null,
+  };
+}
+
+/** Draw one annual value for an item by sampling each of its inputs */
+function sampleItemValue(item: SimulationItem, random: () => number): number {
+  if (item.manualAnnualValue !== undefined && item.manualAnnualValue !== null) {
+    return item.manualAnnualValue;
+  }
+
+  const fields = getArchetypeFields(item);
+  const sampled: Record<string, { value: number }> = {};
+  for (const [key, input] of Object.entries(item.inputs ?? {})) {
+    const tier = normalizeConfidence(input.confidence ?? "D");
+    const field = fields.find((f) => f.key === key);
+    const [min, max] = getSamplingBounds(input.value, tier, field);
+    sampled[key] = { value: sampleTriangular(random, min, input.value, max) };
+  }
+  return calculateArchetypeValue(item.archetype, sampled, item.customArchetype);
+}
+
+/**
+ * Run a Monte Carlo simulation over all value items.
+ * Dimension and total bands are built from per-iteration sums, so they
+ * are not simply the sum of the item percentiles.
+ */
+export function runSimulation(
+  items: SimulationItem[],
+  proposedSpend: number = 0,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_SIMULATION_ITERATIONS));
+  const seed = options.seed ?? DEFAULT_SIMULATION_SEED;
+  const random = createRandom(seed);
+
+  const itemSamples: number[][] = items.map(() => []);
+  const dimensionSamples = {} as Record<Dimension, number[]>;
+  for (const dimension of DIMENSION_ORDER) dimensionSamples[dimension] = [];
+  const totalSamples: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const dimensionSums = {} as Record<Dimension, number>;
+    for (const dimension of DIMENSION_ORDER) dimensionSums[dimension] = 0;
+    let total = 0;
+
+    items.forEach((item, index) => {
+      const value = sampleItemValue(item, random);
+      itemSamples[index]!.push(value);
+      const dimension = item.dimension || getArchetypeInfo(item).dimension;
+      if (dimension && dimension in dimensionSums) dimensionSums[dimension] += value;
+      total += value;
+    });
+
+    for (const dimension of DIMENSION_ORDER) {
+      dimensionSamples[dimension].push(dimensionSums[dimension]);
+    }
+    totalSamples.push(total);
+  }
+
+  const presentDimensions = new Set(
+    items.map((item) => item.dimension || getArchetypeInfo(item).dimension)
+  );
+
+  return {
+    iterations,
+    seed,
+    items: items.map((item, index) => ({
+      itemId: String(item._id),
+      name: item.name,
+      ...toSimulationBand(itemSamples[index]!, proposedSpend),
+    })),
+    dimensions: DIMENSION_ORDER.filter((d) => presentDimensions.has(d)).map((dimension) => ({
+      dimension,
+      label: DIMENSION_INFO[dimension].label,
+      ...toSimulationBand(dimensionSamples[dimension], proposedSpend),
+    })),
+    total: toSimulationBand(totalSamples, proposedSpend),
+  };
+}
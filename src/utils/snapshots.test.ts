@@ -0,0 +1,90 @@
+import { test, expect, describe } from "bun:test";
+import { buildFullCalculation } from "./fullCalculation";
+import { checkSnapshotTotals, compareSnapshotWithLive, getSnapshotDocuments, getSnapshotFigures } from "./snapshots";
+import type { HistoryState } from "./history";
+import { DEFAULT_ASSUMPTIONS, type Calculation, type ValueItem } from "../types/roi";
+
+const calculation = {
+  _id: "calc1",
+  _creationTime: 1,
+  name: "Acme",
+  shortId: "abc123",
+  assumptions: DEFAULT_ASSUMPTIONS,
+  proposedSpend: 20000,
+  createdAt: 1,
+  updatedAt: 1,
+} as unknown as Calculation;
+
+// tasks × 1h × $50 × 12
+const item = (id: string, tasksPerMonth: number) =>
+  ({
+    _id: id,
+    _creationTime: 1,
+    calculationId: "calc1",
+    archetype: "task_elimination",
+    dimension: "time_savings",
+    name: `Item ${id}`,
+    inputs: {
+      tasksPerMonth: { value: tasksPerMonth, confidence: "A" },
+      minutesPerTask: { value: 60, confidence: "A" },
+      hourlyRate: { value: 50, confidence: "A" },
+    },
+    order: 0,
+  }) as unknown as ValueItem;
+
+const payload = buildFullCalculation(calculation, [item("a", 100), item("b", 10)], []);
+
+describe("getSnapshotDocuments", () => {
+  test("returns the stored documents without computed fields", () => {
+    const { valueItems } = getSnapshotDocuments(payload);
+    expect(valueItems.map((i) => i._id as string)).toEqual(["a", "b"]);
+    expect("computed" in valueItems[0]!).toBe(false);
+  });
+});
+
+describe("getSnapshotFigures", () => {
+  test("reads the stored figures rather than recomputing them", () => {
+    const presented = {
+      ...payload,
+      valueItems: payload.valueItems.map((vi) => ({ ...vi, computed: { annualValue: vi.computed.annualValue + 1 } })),
+    };
+    const figures = getSnapshotFigures(presented);
+    expect(figures.itemValues).toEqual({ a: 60001, b: 6001 });
+    expect(figures.summary).toBe(payload.summary);
+    expect(figures.simulation).toBe(payload.simulation);
+  });
+
+  test("orders the stored dimension totals like the live breakdown", () => {
+    const dimensionTotals = payload.summary.dimensionTotals.map((d, i) => ({ ...d, total: i === 0 ? 0 : i * 1000 }));
+    const figures = getSnapshotFigures({ ...payload, summary: { ...payload.summary, dimensionTotals } });
+    expect(figures.dimensionBreakdown.map((d) => d.total)).toEqual([4000, 3000, 2000, 1000]);
+  });
+});
+
+describe("compareSnapshotWithLive", () => {
+  test("explains how the live calculator moved from the snapshot", () => {
+    const live: HistoryState = {
+      calculation: calculation as unknown as HistoryState["calculation"],
+      valueItems: [item("a", 200)] as unknown as HistoryState["valueItems"],
+      useCases: [],
+    };
+    const comparison = compareSnapshotWithLive(payload, live);
+    expect(comparison.before.totalAnnualValue).toBe(payload.summary.totalAnnualValue);
+    expect(comparison.after.totalAnnualValue).toBe(120000);
+    expect(comparison.items.map((i) => [i.id, i.delta])).toEqual([
+      ["a", 60000],
+      ["b", -6000],
+    ]);
+  });
+});
+
+describe("checkSnapshotTotals", () => {
+  test("matches when the formulas are unchanged", () => {
+    expect(checkSnapshotTotals(payload)).toEqual({ stored: 66000, recomputed: 66000, matches: true });
+  });
+
+  test("keeps the stored figure when the engine would now say otherwise", () => {
+    const presented = { ...payload, summary: { ...payload.summary, totalAnnualValue: 70000 } };
+    expect(checkSnapshotTotals(presented)).toEqual({ stored: 70000, recomputed: 66000, matches: false });
+  });
+});
@@ -0,0 +1,90 @@
+// ============================================================
+// Snapshots — frozen copies of the /full payload, and how they
+// compare with the live calculator
+// ============================================================
+
+import type { Calculation, DimensionTotal, UseCase, ValueItem } from "../types/roi";
+import { computeSummary, type ApiSummary, type FullCalculation } from "./fullCalculation";
+import type { SimulationResult } from "./simulation";
+import { compareStates, type HistoryState, type VersionComparison } from "./history";
+
+export interface Snapshot {
+  _id: string;
+  calculationId: string;
+  shortId: string;
+  name: string;
+  payload: FullCalculation;
+  createdBy: string;
+  createdAt: number;
+}
+
+/** The documents a snapshot froze, without the computed fields /full adds */
+export function getSnapshotDocuments(payload: FullCalculation): {
+  calculation: Calculation;
+  valueItems: ValueItem[];
+  useCases: UseCase[];
+} {
+  return {
+    calculation: payload.calculation,
+    valueItems: payload.valueItems.map(({ computed: _computed, ...item }) => item),
+    useCases: payload.useCases,
+  };
+}
+
+/**
+ * The figures a snapshot stored, for rendering in place of recomputing them.
+ * /full computes them from the base inputs, so they don't cover scenarios.
+ */
+export interface SnapshotFigures {
+  summary: ApiSummary;
+  /** Dimensions with value, largest first (as getDimensionBreakdown orders them) */
+  dimensionBreakdown: DimensionTotal[];
+  simulation: SimulationResult;
+  /** Annual value by value item _id */
+  itemValues: Record<string, number>;
+}
+
+export function getSnapshotFigures(payload: FullCalculation): SnapshotFigures {
+  return {
+    summary: payload.summary,
+    dimensionBreakdown: payload.summary.dimensionTotals
+      .filter((d) => d.total > 0)
+      .sort((a, b) => b.total - a.total),
+    simulation: payload.simulation,
+    itemValues: Object.fromEntries(payload.valueItems.map((vi) => [vi._id, vi.computed.annualValue])),
+  };
+}
+
+/**
+ * Snapshot (before) against the calculator as it is now (after). Items are
+ * matched by _id, so one deleted and re-added since shows as removed + added.
+ */
+export function compareSnapshotWithLive(payload: FullCalculation, live: HistoryState): VersionComparison {
+  const frozen = getSnapshotDocuments(payload);
+  return compareStates(
+    {
+      calculation: frozen.calculation as unknown as HistoryState["calculation"],
+      valueItems: frozen.valueItems as unknown as HistoryState["valueItems"],
+      useCases: frozen.useCases as unknown as HistoryState["useCases"],
+    },
+    live
+  );
+}
+
+/**
+ * Total annual value the current engine gets from the frozen inputs, next to the
+ * one stored at snapshot time. They differ only if the formulas changed since;
+ * the stored figure is what was presented.
+ */
+export function checkSnapshotTotals(payload: FullCalculation) {
+  const { calculation, valueItems, useCases } = getSnapshotDocuments(payload);
+  const recomputed = computeSummary(
+    valueItems,
+    calculation.assumptions,
+    calculation.proposedSpend,
+    calculation.implementationCost,
+    useCases
+  ).totalAnnualValue;
+  const stored = payload.summary.totalAnnualValue;
+  return { stored, recomputed, matches: stored === recomputed };
+}
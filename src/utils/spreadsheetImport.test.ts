@@ -0,0 +1,154 @@
+import { test, expect, describe } from "bun:test";
+import {
+  buildSpreadsheetImport,
+  getHeaders,
+  normalizeEffort,
+  normalizeStatus,
+  parseSpreadsheetNumber,
+  suggestColumnTargets,
+  type SpreadsheetMapping,
+} from "./spreadsheetImport";
+import { readXlsx, type CellValue } from "./xlsx";
+
+function mapping(overrides: Partial<SpreadsheetMapping>): SpreadsheetMapping {
+  return {
+    calculationName: "Imported",
+    sourceLabel: "test.xlsx",
+    sheetName: "Sheet1",
+    headerRow: 0,
+    columns: [],
+    createUseCases: true,
+    ...overrides,
+  };
+}
+
+describe("parseSpreadsheetNumber", () => {
+  test("parses numbers stored as text", () => {
+    expect(parseSpreadsheetNumber(42)).toBe(42);
+    expect(parseSpreadsheetNumber("80")).toBe(80);
+    expect(parseSpreadsheetNumber("€19,200")).toBe(19200);
+    expect(parseSpreadsheetNumber(" $1,250.50 ")).toBe(1250.5);
+    expect(parseSpreadsheetNumber("25%")).toBe(0.25);
+  });
+
+  test("returns null for empty and non-numeric cells", () => {
+    expect(parseSpreadsheetNumber(null)).toBeNull();
+    expect(parseSpreadsheetNumber(undefined)).toBeNull();
+    expect(parseSpreadsheetNumber("")).toBeNull();
+    expect(parseSpreadsheetNumber("TBD")).toBeNull();
+    expect(parseSpreadsheetNumber(true)).toBeNull();
+  });
+});
+
+describe("normalizeStatus / normalizeEffort", () => {
+  test("maps free-text status and difficulty", () => {
+    expect(normalizeStatus("Trial - In Progress")).toBe("in_progress");
+    expect(normalizeStatus("Live")).toBe("deployed");
+    expect(normalizeStatus("Phase 2")).toBe("future");
+    expect(normalizeStatus("Identified")).toBe("identified");
+    expect(normalizeStatus("Maybe")).toBe("identified");
+    expect(normalizeEffort("Simple")).toBe("low");
+    expect(normalizeEffort("Complex")).toBe("high");
+    expect(normalizeEffort("Medium")).toBe("medium");
+  });
+});
+
+describe("suggestColumnTargets", () => {
+  test("suggests use case fields and leaves value columns unmapped", () => {
+    const targets = suggestColumnTargets(["Use Case", "Department", "Description", "Difficulty", "Est. Time Saved", "Status"]);
+    expect(targets.map((t) => t.kind)).toEqual(["name", "department", "description", "effort", "ignore", "status"]);
+  });
+
+  test("maps each use case field at most once", () => {
+    const targets = suggestColumnTargets(["Name", "Name (alt)"]);
+    expect(targets.map((t) => t.kind)).toEqual(["name", "ignore"]);
+  });
+});
+
+describe("buildSpreadsheetImport", () => {
+  const rows: CellValue[][] = [
+    ["Automation", "Tasks / month", "Minutes", "Rate", "Leakage"],
+    ["Invoice entry", 200, "6", "€50", 4],
+    [null, 10, 10, 10, null],
+    ["Invoice entry", 100, null, null, null],
+  ];
+  const columns: SpreadsheetMapping["columns"] = [
+    { kind: "name" },
+    { kind: "input", archetype: "task_elimination", key: "tasksPerMonth" },
+    { kind: "input", archetype: "task_elimination", key: "minutesPerTask" },
+    { kind: "input", archetype: "task_elimination", key: "hourlyRate" },
+    { kind: "input", archetype: "revenue_capture", key: "leakageRate" },
+  ];
+
+  test("creates one item per archetype with values, skipping unnamed rows", () => {
+    const { payload, preview } = buildSpreadsheetImport(rows, mapping({ columns }));
+    expect(preview.map((r) => r.rowNumber)).toEqual([2, 4]);
+    expect(payload.valueItems!.map((i) => i.name)).toEqual([
+      "Invoice entry — Task Elimination",
+      "Invoice entry — Revenue Capture",
+      "Invoice entry",
+    ]);
+    expect(payload.useCases!.map((u) => u.name)).toEqual(["Invoice entry", "Invoice entry (2)"]);
+    expect(payload.useCases![0]!.valueItemNames).toEqual([
+      "Invoice entry — Task Elimination",
+      "Invoice entry — Revenue Capture",
+    ]);
+  });
+
+  test("records the source cell and fills unmapped inputs from defaults", () => {
+    const { payload } = buildSpreadsheetImport(rows, mapping({ columns }));
+    const task = payload.valueItems![0]!;
+    expect(task.inputs!.hourlyRate).toEqual({ value: 50, confidence: "A", source: "Imported from test.xlsx (Sheet1!D2)" });
+
+    // Whole-number percentage stored as a fraction; unmapped fields use ARCHETYPE_FIELDS defaults
+    const revenue = payload.valueItems![1]!;
+    expect(revenue.inputs!.leakageRate!.value).toBe(0.04);
+    expect(revenue.inputs!.captureImprovement!.value).toBe(0.5);
+    expect(revenue.inputs!.annualRevenue!.value).toBe(0);
+  });
+
+  test("previews with the shared calculation engine", () => {
+    const { preview, totalAnnualValue } = buildSpreadsheetImport(rows, mapping({ columns }));
+    // 200 tasks × 6 min / 60 × $50 × 12 months
+    expect(preview[0]!.items[0]!.annualValue).toBe(12000);
+    expect(totalAnnualValue).toBe(preview.flatMap((r) => r.items).reduce((s, i) => s + i.annualValue, 0));
+  });
+
+  test("omits use cases when disabled", () => {
+    const { payload } = buildSpreadsheetImport(rows, mapping({ columns, createUseCases: false }));
+    expect(payload.useCases).toBeUndefined();
+    expect(payload.valueItems).toHaveLength(3);
+  });
+
+  test("returns an empty payload until a name column is mapped", () => {
+    const { payload, preview } = buildSpreadsheetImport(rows, mapping({ columns: columns.slice(1) }));
+    expect(payload).toEqual({ name: "Imported" });
+    expect(preview).toEqual([]);
+  });
+});
+
+describe("CoolRooms workbook", () => {
+  test("imports the tracker with manual annual values", async () => {
+    const [sheet] = await readXlsx(
+      await Bun.file(new URL("../../example_roi_spreadsheets/CoolRooms_Use_Case_Tracker.xlsx", import.meta.url)).arrayBuffer()
+    );
+    const headers = getHeaders(sheet!.rows, 0);
+    const columns = suggestColumnTargets(headers);
+    columns[5] = { kind: "annualValue", archetype: "labor_avoidance" };
+    columns[6] = { kind: "annualValue", archetype: "revenue_capture" };
+
+    const { payload, preview } = buildSpreadsheetImport(
+      sheet!.rows,
+      mapping({ sheetName: sheet!.name, sourceLabel: "CoolRooms_Use_Case_Tracker.xlsx", columns })
+    );
+    const first = payload.useCases![0]!;
+    expect(first).toMatchObject({
+      name: "Reservation Email Automation",
+      department: "Operations",
+      status: "in_progress",
+      implementationEffort: "medium",
+    });
+    expect(preview[0]!.items.map((i) => i.annualValue)).toEqual([19200, 36000]);
+    expect(payload.valueItems![0]!.manualAnnualValue).toBe(19200);
+  });
+});
@@ -0,0 +1,253 @@
+// ============================================================
+// Spreadsheet import — turn rows of a legacy ROI workbook into a
+// calculation payload (the POST /api/calculations body). Each data
+// row becomes a use case; each archetype with a mapped value in
+// that row becomes a value item.
+// ============================================================
+
+import { ARCHETYPE_FIELDS } from "../types/archetypes";
+import {
+  ARCHETYPE_INFO,
+  type Archetype,
+  type CalculationPayload,
+  type CalculationPayloadValueItem,
+  type ConfidenceTier,
+  type ImplementationEffort,
+  type UseCaseStatus,
+} from "../types/roi";
+import { calculateArchetypeValue } from "./calculations";
+import { columnName, type CellValue } from "./xlsx";
+
+/** What a spreadsheet column feeds into */
+export type ColumnTarget =
+  | { kind: "ignore" }
+  | { kind: "name" }
+  | { kind: "department" }
+  | { kind: "description" }
+  | { kind: "status" }
+  | { kind: "effort" }
+  /** An archetype input from ARCHETYPE_FIELDS */
+  | { kind: "input"; archetype: Archetype; key: string }
+  /** A pre-computed annual value, stored as the item's manual override */
+  | { kind: "annualValue"; archetype: Archetype };
+
+export interface SpreadsheetMapping {
+  calculationName: string;
+  /** Shown in each imported input's source, e.g. the file name */
+  sourceLabel: string;
+  sheetName: string;
+  /** Zero-based index of the header row; data starts on the next row */
+  headerRow: number;
+  /** Target per column index; missing columns are ignored */
+  columns: ColumnTarget[];
+  createUseCases: boolean;
+  companyId?: string;
+}
+
+export interface SpreadsheetPreviewItem {
+  name: string;
+  archetype: Archetype;
+  annualValue: number;
+  manual: boolean;
+}
+
+export interface SpreadsheetPreviewRow {
+  /** One-based row number as shown in Excel */
+  rowNumber: number;
+  name: string;
+  items: SpreadsheetPreviewItem[];
+}
+
+export interface SpreadsheetImport {
+  payload: CalculationPayload;
+  preview: SpreadsheetPreviewRow[];
+  totalAnnualValue: number;
+}
+
+// ============================================================
+// Cell parsing
+// ============================================================
+
+/** Text of a header or label cell */
+export function cellText(value: CellValue | undefined): string {
+  if (value === null || value === undefined) return "";
+  return String(value).trim();
+}
+
+/**
+ * Parse a numeric cell. Accepts numbers stored as text with currency symbols,
+ * thousands separators and a trailing "%" (returned as a fraction).
+ */
+export function parseSpreadsheetNumber(value: CellValue | undefined): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const text = value.trim().replace(/[\s,€$£¥]/g, "");
+  const percent = text.endsWith("%");
+  const n = Number(percent ? text.slice(0, -1) : text);
+  if (text === "" || text === "%" || !Number.isFinite(n)) return null;
+  return percent ? n / 100 : n;
+}
+
+export function normalizeStatus(value: string): UseCaseStatus {
+  const text = value.toLowerCase();
+  if (/deployed|live|complete|done|production/.test(text)) return "deployed";
+  if (/progress|trial|pilot|building|active/.test(text)) return "in_progress";
+  if (/future|later|backlog|phase 2|wave 2/.test(text)) return "future";
+  return "identified";
+}
+
+export function normalizeEffort(value: string): ImplementationEffort {
+  const text = value.toLowerCase();
+  if (/low|easy|simple|quick/.test(text)) return "low";
+  if (/high|hard|complex|difficult/.test(text)) return "high";
+  return "medium";
+}
+
+// ============================================================
+// Column mapping
+// ============================================================
+
+const HEADER_SUGGESTIONS: [RegExp, ColumnTarget][] = [
+  [/^(use case|name|automation|workflow|process|initiative)\b/i, { kind: "name" }],
+  [/department|team|function|owner/i, { kind: "department" }],
+  [/description|summary|details/i, { kind: "description" }],
+  [/status|stage|phase/i, { kind: "status" }],
+  [/difficulty|effort|complexity/i, { kind: "effort" }],
+];
+
+/**
+ * Suggest use case targets from header text. Value columns are left for the
+ * user to map, since the right archetype depends on what the workbook measured.
+ */
+export function suggestColumnTargets(headers: string[]): ColumnTarget[] {
+  const taken = new Set<ColumnTarget["kind"]>();
+  return headers.map((header) => {
+    const match = HEADER_SUGGESTIONS.find(([pattern, target]) => !taken.has(target.kind) && pattern.test(header));
+    if (!match) return { kind: "ignore" };
+    taken.add(match[1].kind);
+    return match[1];
+  });
+}
+
+/** Headers of the chosen row, padded to the widest row below it */
+export function getHeaders(rows: CellValue[][], headerRow: number): string[] {
+  const width = Math.max(0, ...rows.slice(headerRow).map((r) => r.length));
+  return Array.from({ length: width }, (_, c) => cellText(rows[headerRow]?.[c]) || `Column ${columnName(c)}`);
+}
+
+// ============================================================
+// Payload
+// ============================================================
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) candidate = `${name} (${n})`;
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * Build the calculation payload and a preview from mapped rows. Rows without a
+ * name are skipped. Archetype inputs the sheet doesn't provide use the
+ * ARCHETYPE_FIELDS defaults, as when adding an item by hand.
+ */
+export function buildSpreadsheetImport(rows: CellValue[][], mapping: SpreadsheetMapping): SpreadsheetImport {
+  const valueItems: CalculationPayloadValueItem[] = [];
+  const useCases: NonNullable<CalculationPayload["useCases"]> = [];
+  const preview: SpreadsheetPreviewRow[] = [];
+  const usedItemNames = new Set<string>();
+  const usedUseCaseNames = new Set<string>();
+
+  const columnOf = (kind: ColumnTarget["kind"]) => mapping.columns.findIndex((t) => t?.kind === kind);
+  const nameColumn = columnOf("name");
+  if (nameColumn < 0) return { payload: { name: mapping.calculationName }, preview, totalAnnualValue: 0 };
+
+  for (let r = mapping.headerRow + 1; r < rows.length; r++) {
+    const row = rows[r] ?? [];
+    const rowName = cellText(row[nameColumn]);
+    if (!rowName) continue;
+    const text = (kind: ColumnTarget["kind"]) => {
+      const c = columnOf(kind);
+      return c >= 0 ? cellText(row[c]) : "";
+    };
+    const description = text("description") || undefined;
+
+    // Collect mapped values per archetype, in column order
+    const byArchetype = new Map<
+      Archetype,
+      { inputs: Record<string, { value: number; confidence: ConfidenceTier; source: string }>; manual?: number }
+    >();
+    mapping.columns.forEach((target, c) => {
+      if (target?.kind !== "input" && target?.kind !== "annualValue") return;
+      let value = parseSpreadsheetNumber(row[c]);
+      if (value === null) return;
+      const entry = byArchetype.get(target.archetype) ?? { inputs: {} };
+      byArchetype.set(target.archetype, entry);
+      if (target.kind === "annualValue") {
+        entry.manual = (entry.manual ?? 0) + value;
+        return;
+      }
+      const field = ARCHETYPE_FIELDS[target.archetype].find((f) => f.key === target.key);
+      // Whole-number percentages ("25" meaning 25%) are stored as fractions
+      if (field?.type === "percentage" && typeof row[c] === "number" && value > 1) value /= 100;
+      entry.inputs[target.key] = {
+        value,
+        confidence: "A",
+        source: `Imported from ${mapping.sourceLabel} (${mapping.sheetName}!${columnName(c)}${r + 1})`,
+      };
+    });
+
+    const previewItems: SpreadsheetPreviewItem[] = [];
+    for (const [archetype, entry] of byArchetype) {
+      const inputs: NonNullable<CalculationPayloadValueItem["inputs"]> = {};
+      for (const field of ARCHETYPE_FIELDS[archetype]) {
+        inputs[field.key] = entry.inputs[field.key] ?? {
+          value: field.defaultValue ?? 0,
+          confidence: field.defaultConfidence,
+          ...(field.source ? { source: field.source } : {}),
+        };
+      }
+      const label = byArchetype.size > 1 ? `${rowName} — ${ARCHETYPE_INFO[archetype].label}` : rowName;
+      const name = uniqueName(label, usedItemNames);
+      valueItems.push({
+        archetype,
+        name,
+        ...(description && { description }),
+        inputs,
+        ...(entry.manual !== undefined && { manualAnnualValue: entry.manual }),
+      });
+      previewItems.push({
+        name,
+        archetype,
+        annualValue: entry.manual ?? calculateArchetypeValue(archetype, inputs),
+        manual: entry.manual !== undefined,
+      });
+    }
+
+    if (mapping.createUseCases) {
+      const department = text("department");
+      const status = text("status");
+      const effort = text("effort");
+      useCases.push({
+        name: uniqueName(rowName, usedUseCaseNames),
+        ...(department && { department }),
+        ...(description && { description }),
+        status: status ? normalizeStatus(status) : "identified",
+        implementationEffort: effort ? normalizeEffort(effort) : "medium",
+        valueItemNames: previewItems.map((i) => i.name),
+      });
+    }
+    if (previewItems.length > 0 || mapping.createUseCases) {
+      preview.push({ rowNumber: r + 1, name: rowName, items: previewItems });
+    }
+  }
+
+  const payload: CalculationPayload = {
+    name: mapping.calculationName,
+    ...(mapping.companyId && { companyId: mapping.companyId }),
+    valueItems,
+    ...(mapping.createUseCases && { useCases }),
+  };
+  const totalAnnualValue = preview.reduce((sum, row) => sum + row.items.reduce((s, i) => s + i.annualValue, 0), 0);
+  return { payload, preview, totalAnnualValue };
+}
@@ -0,0 +1,218 @@
+import { test, expect, describe } from "bun:test";
+import type { UseCase, ValueItem } from "../types/roi";
+import {
+  computeRealizedValueHistory,
+  countRunsByDay,
+  detectTrend,
+  realizationRateChange,
+  regressionSlope,
+  summarizeRunDays,
+  weeklyRunTotals,
+  type ZapRunCacheEntry,
+  type ZapRunDay,
+} from "./value-realized";
+import { DEFAULT_REALIZATION_THRESHOLD, crossedThreshold } from "./webhooks";
+
+const NOW = Date.parse("2026-03-29T10:00:00Z");
+
+/** `count` days of runs for a Zap, one row per day from `from` */
+function history(zapId: string, from: string, runsPerDay: (i: number) => number, count: number): ZapRunDay[] {
+  const start = Date.parse(`${from}T00:00:00Z`);
+  return Array.from({ length: count }, (_, i) => ({
+    zapId,
+    useCaseId: "uc1",
+    day: new Date(start + i * 86_400_000).toISOString().slice(0, 10),
+    totalRuns: runsPerDay(i),
+    successfulRuns: runsPerDay(i),
+    failedRuns: 0,
+  }));
+}
+
+describe("countRunsByDay", () => {
+  const runs = [
+    { status: "success", end_time: "2026-03-27T23:59:00Z" },
+    { status: "success", end_time: "2026-03-28T08:00:00Z" },
+    { status: "error", end_time: "2026-03-28T09:00:00Z" },
+    { status: "filtered", end_time: "2026-03-28T10:00:00Z" },
+    { status: "success" },
+  ];
+
+  test("counts runs by the UTC day they ended, oldest first", () => {
+    expect(countRunsByDay(runs, true)).toEqual([
+      { day: "2026-03-27", totalRuns: 1, successfulRuns: 1, failedRuns: 0 },
+      { day: "2026-03-28", totalRuns: 3, successfulRuns: 1, failedRuns: 1 },
+    ]);
+  });
+
+  test("leaves out the oldest day when the runs are only the latest ones", () => {
+    expect(countRunsByDay(runs, false).map((d) => d.day)).toEqual(["2026-03-28"]);
+  });
+});
+
+describe("summarizeRunDays", () => {
+  const days = [
+    { day: "2026-02-01", totalRuns: 100, successfulRuns: 90, failedRuns: 10 },
+    { day: "2026-02-27", totalRuns: 5, successfulRuns: 5, failedRuns: 0 },
+    { day: "2026-03-01", totalRuns: 20, successfulRuns: 18, failedRuns: 2 },
+    { day: "2026-03-23", totalRuns: 7, successfulRuns: 7, failedRuns: 0 },
+    { day: "2026-03-29", totalRuns: 3, successfulRuns: 3, failedRuns: 0 },
+  ];
+
+  test("totals all history and the 30- and 7-day windows ending today", () => {
+    expect(summarizeRunDays(days, NOW)).toEqual({
+      totalRuns: 135,
+      successfulRuns: 123,
+      failedRuns: 12,
+      runsLast30Days: 30,
+      runsLast7Days: 10,
+      sampled: false,
+    });
+  });
+
+  test("is sampled while short days fall in the 30-day window", () => {
+    expect(summarizeRunDays(days, NOW, "2026-03-20").sampled).toBe(true);
+    expect(summarizeRunDays(days, NOW, "2026-02-20").sampled).toBe(false);
+  });
+});
+
+describe("regressionSlope", () => {
+  test("fits a straight line", () => {
+    expect(regressionSlope([1, 2, 3, 4])).toBe(1);
+    expect(regressionSlope([10, 10, 10])).toBe(0);
+    expect(regressionSlope([8, 6, 4])).toBe(-2);
+  });
+
+  test("is flat with fewer than two points", () => {
+    expect(regressionSlope([5])).toBe(0);
+  });
+});
+
+describe("weeklyRunTotals", () => {
+  test("totals full weeks ending yesterday", () => {
+    // 2026-03-01 to 2026-03-28 is exactly four weeks; today's runs don't count
+    const days = history("z1", "2026-03-01", () => 10, 29);
+    expect(weeklyRunTotals(days, NOW)).toEqual([70, 70, 70, 70]);
+  });
+
+  test("only counts weeks every Zap has history for", () => {
+    const days = [...history("z1", "2026-03-01", () => 10, 28), ...history("z2", "2026-03-15", () => 1, 14)];
+    expect(weeklyRunTotals(days, NOW)).toEqual([77, 77]);
+  });
+
+  test("keeps to the most recent weeks", () => {
+    expect(weeklyRunTotals(history("z1", "2026-01-01", () => 1, 87), NOW, 3)).toHaveLength(3);
+  });
+});
+
+describe("detectTrend", () => {
+  const cache = (runsLast7Days: number, runsLast30Days: number): ZapRunCacheEntry[] => [
+    {
+      zapId: "z1",
+      useCaseId: "uc1",
+      totalRuns: runsLast30Days,
+      runsLast30Days,
+      runsLast7Days,
+      successfulRuns: runsLast30Days,
+      failedRuns: 0,
+      fetchedAt: NOW,
+    },
+  ];
+
+  test("uses the weekly regression with three or more weeks of history", () => {
+    const rising = history("z1", "2026-03-01", (i) => 10 + Math.floor(i / 7) * 5, 28);
+    const falling = history("z1", "2026-03-01", (i) => 40 - Math.floor(i / 7) * 10, 28);
+    const flat = history("z1", "2026-03-01", (i) => (i % 2 === 0 ? 9 : 11), 28);
+    // The 7-day vs 30-day comparison alone would say "decreasing"
+    expect(detectTrend(cache(10, 100), rising, NOW)).toBe("increasing");
+    expect(detectTrend(cache(10, 100), falling, NOW)).toBe("decreasing");
+    expect(detectTrend(cache(10, 100), flat, NOW)).toBe("stable");
+  });
+
+  test("falls back to the last 7 days against the last 30 without enough history", () => {
+    const twoWeeks = history("z1", "2026-03-15", () => 10, 14);
+    expect(detectTrend(cache(10, 100), twoWeeks, NOW)).toBe("decreasing");
+    expect(detectTrend(cache(50, 100), [], NOW)).toBe("increasing");
+    expect(detectTrend([], [], NOW)).toBe("stable");
+  });
+});
+
+describe("computeRealizedValueHistory", () => {
+  const useCases = [{ _id: "uc1", name: "Routing" }, { _id: "uc2", name: "Audit" }] as unknown as UseCase[];
+  const valueItems = [
+    // $12,000 a year over 100 projected runs a month: $10 a run
+    {
+      _id: "vi1",
+      useCaseId: "uc1",
+      archetype: "task_elimination",
+      inputs: { tasksPerMonth: { value: 100, confidence: "A" } },
+      manualAnnualValue: 12_000,
+    },
+    // Not task-based: $36,500 a year is $100 a day while the Zap is active
+    { _id: "vi2", useCaseId: "uc2", archetype: "compliance_assurance", inputs: {}, manualAnnualValue: 36_500 },
+  ] as unknown as ValueItem[];
+
+  test("is empty without successful runs", () => {
+    expect(computeRealizedValueHistory(useCases, valueItems, [], NOW)).toEqual([]);
+  });
+
+  test("values each successful run of a task-based use case, through today", () => {
+    const days = [
+      { zapId: "z1", useCaseId: "uc1", day: "2026-03-26", totalRuns: 6, successfulRuns: 5, failedRuns: 1 },
+      { zapId: "z1", useCaseId: "uc1", day: "2026-03-28", totalRuns: 2, successfulRuns: 2, failedRuns: 0 },
+    ];
+    const points = computeRealizedValueHistory(useCases, valueItems, days, NOW);
+    expect(points.map((p) => p.day)).toEqual(["2026-03-26", "2026-03-27", "2026-03-28", "2026-03-29"]);
+    expect(points.map((p) => p.value)).toEqual([50, 0, 20, 0]);
+    expect(points.at(-1)!.cumulativeValue).toBe(70);
+  });
+
+  test("credits other use cases daily for 30 days after each successful run", () => {
+    const days = [{ zapId: "z2", useCaseId: "uc2", day: "2026-01-01", totalRuns: 1, successfulRuns: 1, failedRuns: 0 }];
+    const points = computeRealizedValueHistory(useCases, valueItems, days, NOW);
+    expect(points[29]!.value).toBeCloseTo(100);
+    expect(points[30]!.value).toBe(0);
+    expect(points.at(-1)!.cumulativeValue).toBeCloseTo(3000);
+  });
+});
+
+describe("realizationRateChange", () => {
+  const useCase = { _id: "uc1", name: "Routing" } as unknown as UseCase;
+  // 100 projected runs a month
+  const items = [
+    {
+      _id: "vi1",
+      useCaseId: "uc1",
+      archetype: "task_elimination",
+      inputs: { tasksPerMonth: { value: 100, confidence: "A" } },
+      manualAnnualValue: 12_000,
+    },
+  ] as unknown as ValueItem[];
+  const entry = (zapId: string, runsLast30Days: number): ZapRunCacheEntry => ({
+    zapId,
+    useCaseId: "uc1",
+    totalRuns: runsLast30Days,
+    runsLast30Days,
+    runsLast7Days: 0,
+    successfulRuns: runsLast30Days,
+    failedRuns: 0,
+    fetchedAt: NOW,
+  });
+
+  test("a sync that moves the use case across the threshold", () => {
+    const cache = [entry("z1", 50), entry("z2", 20)];
+    const { previousRate, next } = realizationRateChange(useCase, items, cache, entry("z1", 70));
+    expect(previousRate).toBeCloseTo(0.7);
+    expect(next.realizationRate).toBeCloseTo(0.9);
+    expect(next.realizedAnnualValue).toBeCloseTo(10_800);
+    expect(crossedThreshold(previousRate, next.realizationRate, DEFAULT_REALIZATION_THRESHOLD)).toBe("up");
+
+    const back = realizationRateChange(useCase, items, [entry("z1", 70), entry("z2", 20)], entry("z2", 0));
+    expect(crossedThreshold(back.previousRate, back.next.realizationRate, DEFAULT_REALIZATION_THRESHOLD)).toBe("down");
+  });
+
+  test("has no previous rate before the use case's first run data", () => {
+    const { previousRate, next } = realizationRateChange(useCase, items, [{ ...entry("z9", 5), useCaseId: "uc2" }], entry("z1", 90));
+    expect(previousRate).toBeUndefined();
+    expect(next.realizationRate).toBeCloseTo(0.9);
+  });
+});
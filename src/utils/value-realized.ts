@@ -15,6 +15,27 @@ export interface ZapRunCacheEntry {
   failedRuns: number;
   lastRunAt?: string;
   fetchedAt: number;
+  /** Run counts are a lower bound; there were more runs than could be fetched */
+  sampled?: boolean;
+}
+
+/** Run counts for one Zap on one UTC day */
+export interface ZapRunDay {
+  zapId: string;
+  useCaseId: string;
+  /** `YYYY-MM-DD` */
+  day: string;
+  totalRuns: number;
+  successfulRuns: number;
+  failedRuns: number;
+}
+
+export type DailyRunCounts = Omit<ZapRunDay, "zapId" | "useCaseId">;
+
+export interface RealizedValuePoint {
+  day: string;
+  value: number;
+  cumulativeValue: number;
 }
 
 export type HealthStatus = "healthy" | "warning" | "at_risk";
@@ -32,6 +53,8 @@ export interface ValueRealized {
   trend: Trend;
   healthStatus: HealthStatus;
   hasRunData: boolean;
+  /** Some run counts were sampled, so actual runs and realization are lower bounds */
+  sampled: boolean;
 }
 
 export interface RealizationSummary {
@@ -98,15 +121,153 @@ function getProjectedMonthlyRuns(valueItems: ValueItem[]): number {
   return total;
 }
 
-function isTaskBasedArchetype(archetype: Archetype): boolean {
-  return TASK_BASED_ARCHETYPES.includes(archetype);
+function isTaskBasedArchetype(archetype: string): boolean {
+  return TASK_BASED_ARCHETYPES.includes(archetype as Archetype);
+}
+
+// ============================================================
+// Run history
+// ============================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function dayKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function dayStart(day: string): number {
+  return Date.parse(`${day}T00:00:00Z`);
+}
+
+/**
+ * Count runs by the UTC day they ended. When `runs` are only the most recent
+ * ones (`complete` false), the oldest day may be missing runs, so it's left out.
+ */
+export function countRunsByDay(
+  runs: Array<{ status?: string; end_time?: string }>,
+  complete: boolean,
+): DailyRunCounts[] {
+  const byDay = new Map<string, DailyRunCounts>();
+  for (const run of runs) {
+    if (!run.end_time) continue;
+    const day = run.end_time.slice(0, 10);
+    const counts = byDay.get(day) ?? { day, totalRuns: 0, successfulRuns: 0, failedRuns: 0 };
+    counts.totalRuns++;
+    if (run.status === "success") counts.successfulRuns++;
+    else if (run.status === "error" || run.status === "failed") counts.failedRuns++;
+    byDay.set(day, counts);
+  }
+  const days = [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+  return complete ? days : days.slice(1);
+}
+
+/**
+ * Total runs per full week, oldest first, ending yesterday (today isn't
+ * over). Only weeks after every Zap's first recorded day count, since
+ * history before that is unknown rather than zero.
+ */
+export function weeklyRunTotals(
+  runDays: Array<Pick<ZapRunDay, "zapId" | "day" | "totalRuns">>,
+  nowMs = Date.now(),
+  maxWeeks = TREND_WEEKS,
+): number[] {
+  if (runDays.length === 0) return [];
+  const firstDayByZap = new Map<string, string>();
+  for (const d of runDays) {
+    const first = firstDayByZap.get(d.zapId);
+    if (!first || d.day < first) firstDayByZap.set(d.zapId, d.day);
+  }
+  const coveredFrom = Math.max(...[...firstDayByZap.values()].map(dayStart));
+  const end = dayStart(dayKey(nowMs));
+  const weeks = Math.min(maxWeeks, Math.floor((end - coveredFrom) / (7 * DAY_MS)));
+  if (weeks <= 0) return [];
+
+  const totals: number[] = new Array(weeks).fill(0);
+  const start = end - weeks * 7 * DAY_MS;
+  for (const d of runDays) {
+    const t = dayStart(d.day);
+    if (t < start || t >= end) continue;
+    totals[Math.floor((t - start) / (7 * DAY_MS))]! += d.totalRuns;
+  }
+  return totals;
+}
+
+export interface RunDaySummary {
+  totalRuns: number;
+  runsLast30Days: number;
+  runsLast7Days: number;
+  successfulRuns: number;
+  failedRuns: number;
+  /** Some days in the last 30 are missing runs that were past the fetch cap */
+  sampled: boolean;
+}
+
+/**
+ * A Zap's rolling counts from its daily history, with the 7- and 30-day
+ * windows ending today (UTC). `sampledBefore` is the first day known to be
+ * complete after a capped fetch; the days before it may be short.
+ */
+export function summarizeRunDays(days: DailyRunCounts[], nowMs = Date.now(), sampledBefore?: string): RunDaySummary {
+  const from30 = dayKey(nowMs - 29 * DAY_MS);
+  const from7 = dayKey(nowMs - 6 * DAY_MS);
+  const summary: RunDaySummary = {
+    totalRuns: 0,
+    runsLast30Days: 0,
+    runsLast7Days: 0,
+    successfulRuns: 0,
+    failedRuns: 0,
+    sampled: sampledBefore !== undefined && sampledBefore > from30,
+  };
+  for (const d of days) {
+    summary.totalRuns += d.totalRuns;
+    summary.successfulRuns += d.successfulRuns;
+    summary.failedRuns += d.failedRuns;
+    if (d.day >= from30) summary.runsLast30Days += d.totalRuns;
+    if (d.day >= from7) summary.runsLast7Days += d.totalRuns;
+  }
+  return summary;
+}
+
+/** Least-squares slope of values against their index */
+export function regressionSlope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((s, v) => s + v, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((v, i) => {
+    numerator += (i - meanX) * (v - meanY);
+    denominator += (i - meanX) ** 2;
+  });
+  return numerator / denominator;
 }
 
 // ============================================================
 // Trend detection
 // ============================================================
 
-function detectTrend(zapRuns: ZapRunCacheEntry[]): Trend {
+// Weeks of history the regression looks at, and the fewest it needs
+const TREND_WEEKS = 8;
+const MIN_TREND_WEEKS = 3;
+// Weekly change, as a share of the average week, that counts as a trend
+const TREND_WEEKLY_CHANGE = 0.05;
+
+/**
+ * With three or more weeks of daily history, the regression slope of weekly
+ * runs; otherwise the last 7 days against the last 30.
+ */
+export function detectTrend(zapRuns: ZapRunCacheEntry[], runDays: ZapRunDay[] = [], nowMs = Date.now()): Trend {
+  const weeks = weeklyRunTotals(runDays, nowMs);
+  if (weeks.length >= MIN_TREND_WEEKS) {
+    const average = weeks.reduce((s, w) => s + w, 0) / weeks.length;
+    if (average === 0) return "stable";
+    const change = regressionSlope(weeks) / average;
+    if (change > TREND_WEEKLY_CHANGE) return "increasing";
+    if (change < -TREND_WEEKLY_CHANGE) return "decreasing";
+    return "stable";
+  }
+
   if (zapRuns.length === 0) return "stable";
 
   const totalLast30 = zapRuns.reduce((s, r) => s + r.runsLast30Days, 0);
@@ -131,6 +292,7 @@ export function computeRealization(
   useCase: UseCase,
   linkedValueItems: ValueItem[],
   zapRunData: ZapRunCacheEntry[],
+  runDays: ZapRunDay[] = [],
 ): ValueRealized {
   const projectedAnnualValue = linkedValueItems.reduce(
     (sum, item) => sum + calculateItemAnnualValue(item),
@@ -176,18 +338,40 @@ export function computeRealization(
     realizationRate,
     realizedMonthlyValue,
     realizedAnnualValue: realizedMonthlyValue * 12,
-    trend: detectTrend(zapRunData),
+    trend: detectTrend(zapRunData, runDays),
     healthStatus: hasRunData
       ? getHealthStatus(realizationRate)
       : "at_risk",
     hasRunData,
+    sampled: zapRunData.some((r) => r.sampled),
   };
 }
 
+/**
+ * A use case's realization rate as the dashboard computes it, before and
+ * after one of its Zaps' cached counts change. There is no rate before the
+ * use case has run data, so its first sync can't cross a threshold.
+ */
+export function realizationRateChange(
+  useCase: UseCase,
+  linkedValueItems: ValueItem[],
+  cache: ZapRunCacheEntry[],
+  updated: ZapRunCacheEntry,
+): { previousRate: number | undefined; next: ValueRealized } {
+  const useCaseCache = cache.filter((entry) => entry.useCaseId === useCase._id);
+  const before = computeRealization(useCase, linkedValueItems, useCaseCache);
+  const next = computeRealization(useCase, linkedValueItems, [
+    ...useCaseCache.filter((entry) => entry.zapId !== updated.zapId),
+    updated,
+  ]);
+  return { previousRate: before.hasRunData ? before.realizationRate : undefined, next };
+}
+
 export function computeRealizationSummary(
   useCases: UseCase[],
   valueItems: ValueItem[],
   allZapRunData: ZapRunCacheEntry[],
+  allRunDays: ZapRunDay[] = [],
 ): RealizationSummary {
   // Check if any use cases have linked Zaps in architecture
   const hasAnyLinkedZaps = useCases.some((uc) =>
@@ -197,7 +381,8 @@ export function computeRealizationSummary(
   const results: ValueRealized[] = useCases.map((uc) => {
     const linked = valueItems.filter((vi) => vi.useCaseId === uc._id);
     const runs = allZapRunData.filter((r) => r.useCaseId === uc._id);
-    return computeRealization(uc, linked, runs);
+    const days = allRunDays.filter((d) => d.useCaseId === uc._id);
+    return computeRealization(uc, linked, runs, days);
   });
 
   const projectedAnnualValue = results.reduce(
@@ -232,3 +417,64 @@ export function computeRealizationSummary(
     hasAnyLinkedZaps,
   };
 }
+
+// ============================================================
+// Realized value over time
+// ============================================================
+
+// A Zap's activity vouches for value-by-presence use cases this long
+const ACTIVITY_WINDOW_DAYS = 30;
+
+/**
+ * Value delivered each day from the first recorded run to today, and the
+ * running total. Task-based use cases earn their projected value per
+ * projected run for each successful run; others earn a day's share of their
+ * annual value on days within 30 days of a successful run.
+ */
+export function computeRealizedValueHistory(
+  useCases: UseCase[],
+  valueItems: ValueItem[],
+  runDays: ZapRunDay[],
+  nowMs = Date.now(),
+): RealizedValuePoint[] {
+  const withRuns = runDays.filter((d) => d.successfulRuns > 0);
+  if (withRuns.length === 0) return [];
+
+  const first = dayStart(withRuns.reduce((min, d) => (d.day < min ? d.day : min), withRuns[0]!.day));
+  const last = Math.max(dayStart(dayKey(nowMs)), ...withRuns.map((d) => dayStart(d.day)));
+  const dayCount = Math.round((last - first) / DAY_MS) + 1;
+  const values: number[] = new Array(dayCount).fill(0);
+
+  for (const uc of useCases) {
+    const linked = valueItems.filter((vi) => vi.useCaseId === uc._id);
+    const projectedAnnualValue = linked.reduce((sum, item) => sum + calculateItemAnnualValue(item), 0);
+    if (projectedAnnualValue <= 0) continue;
+    const days = withRuns.filter((d) => d.useCaseId === uc._id);
+    if (days.length === 0) continue;
+
+    const projectedRunsPerMonth = getProjectedMonthlyRuns(linked);
+    const perRun = projectedRunsPerMonth > 0 && linked.some((vi) => isTaskBasedArchetype(vi.archetype));
+    const successesByIndex = new Map<number, number>();
+    for (const d of days) {
+      const index = Math.round((dayStart(d.day) - first) / DAY_MS);
+      successesByIndex.set(index, (successesByIndex.get(index) ?? 0) + d.successfulRuns);
+    }
+
+    if (perRun) {
+      const valuePerRun = projectedAnnualValue / 12 / projectedRunsPerMonth;
+      for (const [index, successes] of successesByIndex) values[index]! += successes * valuePerRun;
+    } else {
+      const active = new Set<number>();
+      for (const index of successesByIndex.keys()) {
+        for (let i = index; i < Math.min(dayCount, index + ACTIVITY_WINDOW_DAYS); i++) active.add(i);
+      }
+      for (const index of active) values[index]! += projectedAnnualValue / 365;
+    }
+  }
+
+  let cumulativeValue = 0;
+  return values.map((value, i) => {
+    cumulativeValue += value;
+    return { day: dayKey(first + i * DAY_MS), value, cumulativeValue };
+  });
+}
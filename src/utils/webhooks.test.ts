@@ -0,0 +1,77 @@
+import { test, expect, describe } from "bun:test";
+import { createHmac } from "node:crypto";
+import {
+  WEBHOOK_RETRY_DELAYS_MS,
+  crossedThreshold,
+  generateWebhookSecret,
+  isRetryableStatus,
+  isValidWebhookUrl,
+  nextRetryDelay,
+  signWebhookPayload,
+} from "./webhooks";
+
+describe("signWebhookPayload", () => {
+  test("is hex HMAC-SHA256 of `timestamp.body` with the secret", async () => {
+    const expected = createHmac("sha256", "whsec_test").update('1700000000.{"id":"d1"}').digest("hex");
+    expect(await signWebhookPayload("whsec_test", 1700000000, '{"id":"d1"}')).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  test("changes with the timestamp, body and secret", async () => {
+    const v1 = async (secret: string, t: number, body: string) =>
+      (await signWebhookPayload(secret, t, body)).split("v1=")[1];
+    const base = await v1("whsec_a", 1, "{}");
+    expect(await v1("whsec_a", 2, "{}")).not.toBe(base);
+    expect(await v1("whsec_a", 1, "{ }")).not.toBe(base);
+    expect(await v1("whsec_b", 1, "{}")).not.toBe(base);
+  });
+});
+
+describe("generateWebhookSecret", () => {
+  test("is prefixed and random", () => {
+    const secret = generateWebhookSecret();
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9]{32}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
+
+describe("isValidWebhookUrl", () => {
+  test("accepts https only", () => {
+    expect(isValidWebhookUrl("https://hooks.zapier.com/hooks/catch/1/abc")).toBe(true);
+    expect(isValidWebhookUrl("http://example.com/hook")).toBe(false);
+    expect(isValidWebhookUrl("not a url")).toBe(false);
+  });
+});
+
+describe("nextRetryDelay", () => {
+  test("backs off, then gives up", () => {
+    expect(nextRetryDelay(1)).toBe(60_000);
+    expect(nextRetryDelay(2)).toBe(300_000);
+    expect(nextRetryDelay(WEBHOOK_RETRY_DELAYS_MS.length)).toBe(43_200_000);
+    expect(nextRetryDelay(WEBHOOK_RETRY_DELAYS_MS.length + 1)).toBeNull();
+  });
+});
+
+describe("isRetryableStatus", () => {
+  test("retries server errors, timeouts and rate limits", () => {
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(408)).toBe(true);
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(410)).toBe(false);
+  });
+});
+
+describe("crossedThreshold", () => {
+  test("reports the direction of a crossing", () => {
+    expect(crossedThreshold(0.7, 0.85, 0.8)).toBe("up");
+    expect(crossedThreshold(0.7, 0.8, 0.8)).toBe("up");
+    expect(crossedThreshold(0.9, 0.6, 0.8)).toBe("down");
+  });
+
+  test("ignores movement on one side and missing rates", () => {
+    expect(crossedThreshold(0.5, 0.6, 0.8)).toBeNull();
+    expect(crossedThreshold(0.9, 1.2, 0.8)).toBeNull();
+    expect(crossedThreshold(undefined, 0.9, 0.8)).toBeNull();
+  });
+});
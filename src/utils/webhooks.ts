@@ -0,0 +1,92 @@
+// ============================================================
+// Outbound webhooks — event names, payload signing and retry
+// schedule. Subscriptions and deliveries live in
+// convex/webhooks.ts.
+// ============================================================
+
+import { generateShareToken } from "./access";
+
+export type WebhookEvent =
+  | "calculation.created"
+  | "value_item.created"
+  | "value_item.updated"
+  | "value_item.deleted"
+  | "use_case.status_changed"
+  | "realization.threshold_crossed";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "calculation.created",
+  "value_item.created",
+  "value_item.updated",
+  "value_item.deleted",
+  "use_case.status_changed",
+  "realization.threshold_crossed",
+];
+
+export const WEBHOOK_EVENT_INFO: Record<WebhookEvent, string> = {
+  "calculation.created": "A calculator is created in the company",
+  "value_item.created": "A value item is added; includes the calculator's new total",
+  "value_item.updated": "A value item changes; includes the calculator's new total",
+  "value_item.deleted": "A value item is removed; includes the calculator's new total",
+  "use_case.status_changed": "A use case moves between identified, in progress, deployed and future",
+  "realization.threshold_crossed": "A Zap's realization rate rises above or falls below the threshold",
+};
+
+/** Sent by "Send test"; not something to subscribe to */
+export const TEST_EVENT = "webhook.test";
+
+export const DEFAULT_REALIZATION_THRESHOLD = 0.8;
+
+/** Webhook URLs must be https so payloads and signatures aren't sent in the clear */
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/** Shared secret for verifying signatures: `whsec_` plus 32 random characters */
+export function generateWebhookSecret(): string {
+  return `whsec_${generateShareToken(32)}`;
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, sent as
+ * `X-Webhook-Signature: t=<timestamp>,v1=<hex>`. Receivers recompute it with
+ * the secret and reject old timestamps to stop replays.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  const hex = Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `t=${timestamp},v1=${hex}`;
+}
+
+// Wait before each retry: 1 min, 5 min, 30 min, 2 h, 12 h. Six attempts in all.
+export const WEBHOOK_RETRY_DELAYS_MS = [60_000, 300_000, 1_800_000, 7_200_000, 43_200_000];
+
+/** Delay before the next attempt after `attempts` failures, or null to give up */
+export function nextRetryDelay(attempts: number): number | null {
+  return WEBHOOK_RETRY_DELAYS_MS[attempts - 1] ?? null;
+}
+
+/** 2xx is delivered. 4xx other than 408 and 429 won't fix itself, so it isn't retried. */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/** "up" or "down" when the rate moved across the threshold, otherwise null */
+export function crossedThreshold(
+  previous: number | undefined,
+  next: number | undefined,
+  threshold: number
+): "up" | "down" | null {
+  if (previous === undefined || next === undefined) return null;
+  if (previous < threshold && next >= threshold) return "up";
+  if (previous >= threshold && next < threshold) return "down";
+  return null;
+}
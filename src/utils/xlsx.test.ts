@@ -0,0 +1,75 @@
+import { test, expect, describe } from "bun:test";
+import { cellRef, columnIndex, columnName, readXlsx, sheetRef, writeXlsx, XlsxError } from "./xlsx";
+
+const COOLROOMS = new URL("../../example_roi_spreadsheets/CoolRooms_Use_Case_Tracker.xlsx", import.meta.url);
+const ATHENA = new URL("../../example_roi_spreadsheets/Athena_ROI_Analysis.xlsx", import.meta.url);
+
+describe("columnIndex / columnName", () => {
+  test("round-trip single and multi-letter columns", () => {
+    expect(columnIndex("A1")).toBe(0);
+    expect(columnIndex("F2")).toBe(5);
+    expect(columnIndex("AA10")).toBe(26);
+    expect(columnName(0)).toBe("A");
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(26)).toBe("AA");
+    for (const i of [0, 7, 25, 26, 51, 52, 701, 702]) {
+      expect(columnIndex(columnName(i))).toBe(i);
+    }
+  });
+});
+
+describe("readXlsx", () => {
+  test("reads shared strings, numbers stored as text and cached formula values", async () => {
+    const sheets = await readXlsx(await Bun.file(COOLROOMS).arrayBuffer());
+    expect(sheets.map((s) => s.name)).toEqual(["Use Case Tracker"]);
+
+    const [header, first] = sheets[0]!.rows;
+    expect(header!.slice(0, 4)).toEqual(["Use Case", "Department", "Description", "Difficulty"]);
+    expect(first![0]).toBe("Reservation Email Automation");
+    expect(first![4]).toBe("80"); // Stored as text in the workbook
+    expect(first![5]).toBe(19200); // =E2*12*20, cached result
+  });
+
+  test("keeps workbook sheet order", async () => {
+    const sheets = await readXlsx(await Bun.file(ATHENA).arrayBuffer());
+    expect(sheets.map((s) => s.name)).toEqual([
+      "Assumptions",
+      "Zap-Level ROI",
+      "Disruption Cost",
+      "Governance Risk",
+      "Executive Summary",
+    ]);
+  });
+
+  test("rejects files that are not workbooks", async () => {
+    await expect(readXlsx(new TextEncoder().encode("Use Case,Department\n"))).rejects.toBeInstanceOf(XlsxError);
+  });
+});
+
+describe("writeXlsx", () => {
+  test("round-trips through readXlsx with cached formula values", async () => {
+    const bytes = writeXlsx([
+      {
+        name: "Risk & Quality",
+        rows: [
+          [{ value: "Name <A>" }, { value: 1.5, style: { fill: "D1FAE5", numberFormat: "currency" } }, { value: true }],
+          [null, { formula: "B1*2", value: 3, style: { bold: true } }, { formula: 'IF(B1>0,"yes","no")', value: "yes" }],
+        ],
+      },
+      { name: "Other", rows: [[{ formula: `${sheetRef("Risk & Quality")}!${cellRef(1, 1, true)}`, value: 3 }]] },
+    ]);
+    const sheets = await readXlsx(bytes);
+    expect(sheets.map((s) => s.name)).toEqual(["Risk & Quality", "Other"]);
+    expect(sheets[0]!.rows).toEqual([
+      ["Name <A>", 1.5, true],
+      [null, 3, "yes"],
+    ]);
+    expect(sheets[1]!.rows).toEqual([[3]]);
+  });
+
+  test("builds references", () => {
+    expect(cellRef(0, 0)).toBe("A1");
+    expect(cellRef(6, 2, true)).toBe("$C$7");
+    expect(sheetRef("Bob's")).toBe("'Bob''s'");
+  });
+});
@@ -0,0 +1,452 @@
+// ============================================================
+// Minimal .xlsx reader and writer
+// Reads cell values (cached results for formulas) from every
+// worksheet. Unzips with the platform DecompressionStream, so it
+// runs in the browser and in Bun without a spreadsheet library.
+// Styles, dates and merged cells are not interpreted.
+// Writes uncompressed workbooks with formulas, fills, bold text
+// and number formats — enough for exports finance teams can edit.
+// ============================================================
+
+export type CellValue = string | number | boolean | null;
+
+export interface Worksheet {
+  name: string;
+  /** Rows by index (row 1 → index 0), each a dense array of cells by column */
+  rows: CellValue[][];
+}
+
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XlsxError";
+  }
+}
+
+// ── Zip ────────────────────────────────────────────────────────────
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function readZipEntries(data: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory: last 22 bytes plus an optional comment of up to 64KB
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new XlsxError("Not an .xlsx file (no zip directory found)");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new XlsxError("Zip64 workbooks are not supported");
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new XlsxError("Corrupt zip directory");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(data: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(entry.localOffset, true) !== LOCAL_SIGNATURE) throw new XlsxError("Corrupt zip entry");
+  const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+  const compressed = data.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(compressed);
+  if (entry.method !== 8) throw new XlsxError(`Unsupported zip compression method ${entry.method}`);
+
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return await new Response(stream).text();
+}
+
+// ── XML helpers ────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXml(match[1]!) : undefined;
+}
+
+/** Text of all <t> runs (phonetic hints skipped) */
+function readText(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+    .map((m) => decodeXml(m[1]!))
+    .join("");
+}
+
+/** Zero-based column index of a cell reference ("C7" → 2) */
+export function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.toUpperCase()) {
+    if (ch < "A" || ch > "Z") break;
+    index = index * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/** Column letters for a zero-based index (2 → "C") */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function parseSheet(xml: string, sharedStrings: string[]): CellValue[][] {
+  const rows: CellValue[][] = [];
+  let nextRow = 0;
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = getAttribute(rowMatch[1]!, "r");
+    const rowIndex = rowNumber ? Number(rowNumber) - 1 : nextRow;
+    nextRow = rowIndex + 1;
+
+    const cells: CellValue[] = [];
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1]!;
+      const body = cellMatch[2] ?? "";
+      const ref = getAttribute(attrs, "r");
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = getAttribute(attrs, "t");
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value: CellValue = null;
+      if (type === "inlineStr") {
+        value = readText(body);
+      } else if (raw !== undefined) {
+        const text = decodeXml(raw);
+        if (type === "s") value = sharedStrings[Number(text)] ?? "";
+        else if (type === "str" || type === "e") value = text;
+        else if (type === "b") value = text === "1";
+        else value = text === "" ? null : Number(text);
+      }
+      if (value === "") value = null;
+      cells[column] = value;
+    }
+    rows[rowIndex] = Array.from(cells, (c) => c ?? null);
+  }
+  return Array.from(rows, (r) => r ?? []);
+}
+
+// ── Workbook ───────────────────────────────────────────────────────
+
+/**
+ * Read every worksheet of an .xlsx file, in workbook order
+ */
+export async function readXlsx(file: ArrayBuffer | Uint8Array): Promise<Worksheet[]> {
+  const data = file instanceof Uint8Array ? file : new Uint8Array(file);
+  const entries = readZipEntries(data);
+  const read = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? await readZipText(data, entry) : null;
+  };
+
+  const workbook = await read("xl/workbook.xml");
+  if (!workbook) throw new XlsxError("Not an .xlsx file (no workbook found)");
+  const rels = (await read("xl/_rels/workbook.xml.rels")) ?? "";
+  const sharedStringsXml = await read("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>|<si\b[^>]*\/>/g)].map((m) => readText(m[1] ?? ""))
+    : [];
+
+  const targets = new Map<string, string>();
+  for (const [tag] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = getAttribute(tag, "Id");
+    const target = getAttribute(tag, "Target");
+    if (id && target) targets.set(id, target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+  }
+
+  const sheets: Worksheet[] = [];
+  for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = getAttribute(tag, "name") ?? `Sheet${sheets.length + 1}`;
+    const target = targets.get(getAttribute(tag, "r:id") ?? "");
+    const xml = target ? await read(target) : null;
+    if (xml === null) continue; // Chart sheets and missing parts have no cells
+    sheets.push({ name, rows: parseSheet(xml, sharedStrings) });
+  }
+  return sheets;
+}
+
+// ============================================================
+// Writer
+// ============================================================
+
+export interface CellStyle {
+  bold?: boolean;
+  /** Background fill as RGB hex, e.g. "D1FAE5" */
+  fill?: string;
+  numberFormat?: "currency" | "percent" | "decimal";
+}
+
+export interface OutputCell {
+  value?: string | number | boolean | null;
+  /** Excel formula without the leading "="; value is written as its cached result */
+  formula?: string;
+  style?: CellStyle;
+}
+
+export interface OutputSheet {
+  name: string;
+  /** Rows from row 1; null leaves a cell empty */
+  rows: (OutputCell | null)[][];
+  /** Column widths in characters, by column index */
+  columnWidths?: number[];
+}
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Built-in 4 is "#,##0.00"; 164+ are custom
+const NUMBER_FORMATS: Record<NonNullable<CellStyle["numberFormat"]>, { id: number; code?: string }> = {
+  currency: { id: 164, code: '"$"#,##0' },
+  percent: { id: 165, code: "0.0%" },
+  decimal: { id: 4 },
+};
+
+function encodeXml(text: string): string {
+  // Control characters other than tab and newlines are not allowed in XML
+  const printable = [...text].filter((ch) => ch >= " " || ch === "\t" || ch === "\n" || ch === "\r").join("");
+  return printable.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Quoted sheet name for use in formulas ("Risk & Quality" → 'Risk & Quality') */
+export function sheetRef(name: string): string {
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+/** Cell reference from zero-based indexes, optionally absolute ("$C$7") */
+export function cellRef(row: number, column: number, absolute = false): string {
+  const $ = absolute ? "$" : "";
+  return `${$}${columnName(column)}${$}${row + 1}`;
+}
+
+/** Style table shared by all sheets; index 0 is the default style */
+class StyleTable {
+  private keys = new Map<string, number>([["", 0]]);
+  private styles: CellStyle[] = [{}];
+  private fills: string[] = [];
+
+  index(style: CellStyle | undefined): number {
+    if (!style) return 0;
+    const key = `${style.bold ? "b" : ""}|${style.fill ?? ""}|${style.numberFormat ?? ""}`;
+    let index = this.keys.get(key);
+    if (index === undefined) {
+      index = this.styles.length;
+      this.styles.push(style);
+      this.keys.set(key, index);
+      if (style.fill && !this.fills.includes(style.fill)) this.fills.push(style.fill);
+    }
+    return index;
+  }
+
+  toXml(): string {
+    const customFormats = Object.values(NUMBER_FORMATS).filter((f) => f.code);
+    const fills = this.fills
+      .map((rgb) => `<fill><patternFill patternType="solid"><fgColor rgb="FF${rgb}"/><bgColor indexed="64"/></patternFill></fill>`)
+      .join("");
+    const xfs = this.styles
+      .map((style) => {
+        const numFmtId = style.numberFormat ? NUMBER_FORMATS[style.numberFormat].id : 0;
+        // Fills 0 and 1 are the reserved "none" and "gray125" patterns
+        const fillId = style.fill ? this.fills.indexOf(style.fill) + 2 : 0;
+        const fontId = style.bold ? 1 : 0;
+        return `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"${numFmtId ? ' applyNumberFormat="1"' : ""}${fontId ? ' applyFont="1"' : ""}${fillId ? ' applyFill="1"' : ""}/>`;
+      })
+      .join("");
+    return (
+      XML_HEADER +
+      `<styleSheet xmlns="${MAIN_NS}">` +
+      `<numFmts count="${customFormats.length}">${customFormats.map((f) => `<numFmt numFmtId="${f.id}" formatCode="${encodeXml(f.code!)}"/>`).join("")}</numFmts>` +
+      `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+      `<fills count="${this.fills.length + 2}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>${fills}</fills>` +
+      `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+      `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+      `<cellXfs count="${this.styles.length}">${xfs}</cellXfs>` +
+      `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>` +
+      `</styleSheet>`
+    );
+  }
+}
+
+function cellXml(cell: OutputCell, ref: string, styles: StyleTable): string {
+  const s = styles.index(cell.style);
+  const style = s ? ` s="${s}"` : "";
+  const { value, formula } = cell;
+  const f = formula ? `<f>${encodeXml(formula)}</f>` : "";
+
+  if (value === null || value === undefined) return f ? `<c r="${ref}"${style}>${f}</c>` : `<c r="${ref}"${style}/>`;
+  if (typeof value === "number") {
+    return `<c r="${ref}"${style}>${f}<v>${Number.isFinite(value) ? value : 0}</v></c>`;
+  }
+  if (typeof value === "boolean") return `<c r="${ref}"${style} t="b">${f}<v>${value ? 1 : 0}</v></c>`;
+  if (f) return `<c r="${ref}"${style} t="str">${f}<v>${encodeXml(value)}</v></c>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: OutputSheet, styles: StyleTable): string {
+  const cols = (sheet.columnWidths ?? [])
+    .map((width, i) => (width ? `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>` : ""))
+    .join("");
+  const rows = sheet.rows
+    .map((row, r) => {
+      const cells = row
+        .map((cell, c) => (cell ? cellXml(cell, cellRef(r, c), styles) : ""))
+        .join("");
+      return cells ? `<row r="${r + 1}">${cells}</row>` : "";
+    })
+    .join("");
+  return XML_HEADER + `<worksheet xmlns="${MAIN_NS}">${cols ? `<cols>${cols}</cols>` : ""}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+// ── Zip (stored, no compression) ───────────────────────────────────
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeZip(files: { path: string; content: string }[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const entries = files.map((f) => {
+    const name = encoder.encode(f.path);
+    const data = encoder.encode(f.content);
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize = entries.reduce((sum, e) => sum + 30 + e.name.length + e.data.length, 0);
+  const centralSize = entries.reduce((sum, e) => sum + 46 + e.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+
+  // Shared fields of local and central headers: version, UTF-8 flag, stored, no timestamp
+  const writeCommon = (at: number, e: (typeof entries)[number]) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, 0x0800, true);
+    view.setUint16(at + 4, 0, true);
+    view.setUint32(at + 6, 0x00210000, true); // 1980-01-01 00:00
+    view.setUint32(at + 10, e.crc, true);
+    view.setUint32(at + 14, e.data.length, true);
+    view.setUint32(at + 18, e.data.length, true);
+    view.setUint16(at + 22, e.name.length, true);
+  };
+
+  for (const e of entries) {
+    e.offset = offset;
+    view.setUint32(offset, LOCAL_SIGNATURE, true);
+    writeCommon(offset + 4, e);
+    out.set(e.name, offset + 30);
+    out.set(e.data, offset + 30 + e.name.length);
+    offset += 30 + e.name.length + e.data.length;
+  }
+
+  const centralOffset = offset;
+  for (const e of entries) {
+    view.setUint32(offset, CENTRAL_SIGNATURE, true);
+    view.setUint16(offset + 4, 20, true);
+    writeCommon(offset + 6, e);
+    view.setUint32(offset + 42, e.offset, true);
+    out.set(e.name, offset + 46);
+    offset += 46 + e.name.length;
+  }
+
+  view.setUint32(offset, EOCD_SIGNATURE, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  return out;
+}
+
+/**
+ * Write sheets to an .xlsx file. Excel recalculates formulas on open; the
+ * cached values are what other readers (and previews) show.
+ */
+export function writeXlsx(sheets: OutputSheet[]): Uint8Array<ArrayBuffer> {
+  const styles = new StyleTable();
+  const worksheets = sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet, styles) }));
+
+  const contentTypes =
+    XML_HEADER +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+    `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+    worksheets
+      .map((w) => `<Override PartName="/${w.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+      .join("") +
+    `</Types>`;
+  const rootRels =
+    XML_HEADER +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    `</Relationships>`;
+  const workbookRels =
+    XML_HEADER +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    worksheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    `</Relationships>`;
+  const workbook =
+    XML_HEADER +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    sheets.map((s, i) => `<sheet name="${encodeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+    `</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>`;
+
+  return writeZip([
+    { path: "[Content_Types].xml", content: contentTypes },
+    { path: "_rels/.rels", content: rootRels },
+    { path: "xl/workbook.xml", content: workbook },
+    { path: "xl/_rels/workbook.xml.rels", content: workbookRels },
+    ...worksheets,
+    { path: "xl/styles.xml", content: styles.toXml() },
+  ]);
+}
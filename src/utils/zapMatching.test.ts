@@ -0,0 +1,147 @@
+import { test, expect, describe } from "bun:test";
+import type { ArchitectureItem } from "../types/roi";
+import type { ZapDetails } from "./zapier-api";
+import {
+  applyZapLink,
+  buildMatchTargets,
+  parseConfigAction,
+  scoreZapAgainstTarget,
+  suggestZapLinks,
+} from "./zapMatching";
+
+function zap(id: string, title: string, steps: Array<[string, string]>): ZapDetails {
+  return {
+    id,
+    title,
+    isEnabled: true,
+    steps: steps.map(([appTitle, actionTitle]) => ({ appTitle, actionTitle })),
+  };
+}
+
+const plannedRouting: ArchitectureItem = {
+  type: "zap",
+  name: "Lead Routing",
+  status: "planned",
+  zapConfig: {
+    title: "Lead Routing",
+    steps: [{ action: "HubSpot.new_contact" }, { action: "Salesforce.create_lead" }, { action: "Slack.send_channel_message" }],
+  },
+};
+
+describe("parseConfigAction", () => {
+  test("splits on the last dot", () => {
+    expect(parseConfigAction("Slack.send_channel_message")).toEqual({ app: "Slack", action: "send_channel_message" });
+    expect(parseConfigAction("Monday.com.create_item")).toEqual({ app: "Monday.com", action: "create_item" });
+    expect(parseConfigAction("Slack")).toEqual({ app: "Slack", action: "" });
+  });
+});
+
+describe("scoreZapAgainstTarget", () => {
+  const target = [
+    { app: "HubSpot", action: "new_contact" },
+    { app: "Salesforce", action: "create_lead" },
+  ];
+
+  test("scores a Zap with the same apps, actions and trigger at 1", () => {
+    const match = scoreZapAgainstTarget(zap("1", "", [["HubSpot", "New Contact"], ["Salesforce", "Create Lead"]]).steps, target);
+    expect(match.score).toBe(1);
+    expect(match.sharedApps).toEqual(["HubSpot", "Salesforce"]);
+  });
+
+  test("ignores utility apps and the 'by Zapier' suffix", () => {
+    const match = scoreZapAgainstTarget(
+      [
+        { appTitle: "Webhooks by Zapier", actionTitle: "Catch Hook" },
+        { appTitle: "Filter by Zapier", actionTitle: "Only continue if" },
+        { appTitle: "Slack", actionTitle: "Send Channel Message" },
+      ],
+      [
+        { app: "Webhooks by Zapier", action: "catch_hook" },
+        { app: "Code by Zapier", action: "run_javascript" },
+        { app: "Slack", action: "send_channel_message" },
+      ]
+    );
+    expect(match.score).toBe(1);
+  });
+
+  test("needs two shared apps when the target uses two or more", () => {
+    const match = scoreZapAgainstTarget(zap("1", "", [["HubSpot", "New Contact"], ["Gmail", "Send Email"]]).steps, target);
+    expect(match).toEqual({ score: 0, sharedApps: [] });
+  });
+
+  test("scores lower when actions and the trigger differ", () => {
+    const match = scoreZapAgainstTarget(zap("1", "", [["Salesforce", "Updated Record"], ["HubSpot", "Update Deal"]]).steps, target);
+    expect(match.score).toBeGreaterThan(0.5);
+    expect(match.score).toBeLessThan(0.7);
+  });
+});
+
+describe("buildMatchTargets", () => {
+  test("uses planned Zap items, the pattern bundle and archetype templates once each", () => {
+    const targets = buildMatchTargets(
+      { _id: "uc1", patternId: "support-ticket-triage", architecture: [plannedRouting, { type: "table", name: "Leads" }] },
+      ["process_acceleration", "process_acceleration"]
+    );
+    expect(targets[0]).toMatchObject({ label: "Lead Routing", source: "architecture", architectureIndex: 0 });
+    expect(targets[0]!.steps[0]).toEqual({ app: "HubSpot", action: "new_contact" });
+    expect(targets.some((t) => t.label === "Ticket Auto-Triage & Routing" && t.source === "pattern")).toBe(true);
+    const labels = targets.map((t) => t.label);
+    expect(new Set(labels).size).toBe(labels.length);
+  });
+
+  test("skips planned items already linked to a Zap", () => {
+    const targets = buildMatchTargets({ _id: "uc1", architecture: [{ ...plannedRouting, zapId: "99" }] }, []);
+    expect(targets).toEqual([]);
+  });
+});
+
+describe("suggestZapLinks", () => {
+  const routingZap = zap("10", "HubSpot → Salesforce", [
+    ["HubSpot", "New Contact"],
+    ["Salesforce", "Create Lead"],
+    ["Slack", "Send Channel Message"],
+  ]);
+  const unrelatedZap = zap("11", "Daily digest", [["Schedule by Zapier", "Every Day"], ["Gmail", "Send Email"]]);
+
+  test("proposes each matching Zap once, for its best use case", () => {
+    const suggestions = suggestZapLinks(
+      [
+        { _id: "uc1", architecture: [] },
+        { _id: "uc2", architecture: [plannedRouting] },
+      ],
+      [],
+      [routingZap, unrelatedZap]
+    );
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ useCaseId: "uc2", score: 1, target: { architectureIndex: 0 } });
+    expect(suggestions[0]!.zap.id).toBe("10");
+  });
+
+  test("leaves out Zaps already linked to any use case", () => {
+    const suggestions = suggestZapLinks(
+      [
+        { _id: "uc1", architecture: [{ type: "zap", name: "Existing", zapId: "10" }] },
+        { _id: "uc2", architecture: [plannedRouting] },
+      ],
+      [],
+      [routingZap]
+    );
+    expect(suggestions).toEqual([]);
+  });
+});
+
+describe("applyZapLink", () => {
+  const linked = zap("10", "HubSpot → Salesforce", [["HubSpot", "New Contact"]]);
+
+  test("fills in the planned item it matched, keeping its name", () => {
+    const [item] = applyZapLink([plannedRouting], linked, 0, 1000);
+    expect(item).toMatchObject({ name: "Lead Routing", zapId: "10", status: "active", zapDetails: { fetchedAt: 1000 } });
+    expect(item!.zapConfig).toEqual(plannedRouting.zapConfig);
+  });
+
+  test("appends when there's no planned item to fill", () => {
+    const architecture = applyZapLink([plannedRouting], { ...linked, isEnabled: false }, undefined, 1000);
+    expect(architecture).toHaveLength(2);
+    expect(architecture[1]).toMatchObject({ name: "HubSpot → Salesforce", zapId: "10", status: "paused" });
+  });
+});
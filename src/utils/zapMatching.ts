@@ -0,0 +1,234 @@
+// ============================================================
+// Zap matching — scores the account's existing Zaps against what
+// each use case is expected to automate (its pattern's zapBundle,
+// templates for its value items' archetypes, and planned Zap
+// architecture items) by app and action overlap, and proposes links
+// ============================================================
+
+import type { Archetype, ArchitectureItem } from "../types/roi";
+import { getTemplateForPattern, getTemplatesForArchetype } from "./zap-recommender";
+import type { ZapDetails } from "./zapier-api";
+
+// ============================================================
+// Types
+// ============================================================
+
+/** One expected step: app display name and action key or title */
+export interface ZapSignatureStep {
+  app: string;
+  action: string;
+}
+
+export interface ZapMatchTarget {
+  /** Template or architecture item title, shown as the reason for the match */
+  label: string;
+  source: "pattern" | "architecture";
+  steps: ZapSignatureStep[];
+  /** Planned architecture item the Zap would fill in, for source "architecture" */
+  architectureIndex?: number;
+}
+
+export interface ZapMatchScore {
+  /** 0–1: app overlap, then action overlap on the shared apps, then the trigger app */
+  score: number;
+  sharedApps: string[];
+}
+
+export interface ZapLinkSuggestion extends ZapMatchScore {
+  useCaseId: string;
+  zap: ZapDetails;
+  target: ZapMatchTarget;
+}
+
+interface MatchableUseCase {
+  _id: string;
+  patternId?: string;
+  architecture?: ArchitectureItem[];
+}
+
+/** Suggestions below this score aren't shown */
+export const MIN_MATCH_SCORE = 0.5;
+
+// ============================================================
+// Normalization
+// ============================================================
+
+// Built-in utilities appear in most Zaps and say nothing about what one does
+const UTILITY_APPS = new Set(["filter", "formatter", "delay", "paths", "looping", "storage", "digest", "code"]);
+
+const STOP_WORDS = new Set(["a", "an", "the", "in", "to", "of", "for", "on", "by", "and", "or", "with"]);
+
+function normalizeApp(app: string): string {
+  return app
+    .toLowerCase()
+    .replace(/\s+by zapier$/, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function actionTokens(action: string): Set<string> {
+  const words = action
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !STOP_WORDS.has(w));
+  return new Set(words);
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((x) => b.has(x)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+/** `App Name.action_key`, as stored in zapConfig steps; app names may contain dots */
+export function parseConfigAction(action: string): ZapSignatureStep {
+  const dot = action.lastIndexOf(".");
+  if (dot <= 0) return { app: action, action: "" };
+  return { app: action.slice(0, dot), action: action.slice(dot + 1) };
+}
+
+// ============================================================
+// Scoring
+// ============================================================
+
+/**
+ * How well a Zap's steps fit the expected steps. Needs two shared apps
+ * (or the one app a single-app target uses) to score at all.
+ */
+export function scoreZapAgainstTarget(zapSteps: ZapDetails["steps"], targetSteps: ZapSignatureStep[]): ZapMatchScore {
+  const target = targetSteps
+    .map((s) => ({ app: normalizeApp(s.app), label: s.app, tokens: actionTokens(s.action) }))
+    .filter((s) => s.app && !UTILITY_APPS.has(s.app));
+  const zap = zapSteps
+    .map((s) => ({ app: normalizeApp(s.appTitle), label: s.appTitle, tokens: actionTokens(s.actionTitle) }))
+    .filter((s) => s.app && !UTILITY_APPS.has(s.app));
+
+  const targetApps = new Set(target.map((s) => s.app));
+  const zapApps = new Set(zap.map((s) => s.app));
+  const shared = [...targetApps].filter((app) => zapApps.has(app));
+  if (shared.length === 0 || shared.length < Math.min(2, targetApps.size)) return { score: 0, sharedApps: [] };
+
+  const appScore = shared.length / new Set([...targetApps, ...zapApps]).size;
+
+  const sharedSteps = target.filter((s) => zapApps.has(s.app));
+  const actionScore =
+    sharedSteps.reduce(
+      (sum, step) => sum + Math.max(...zap.filter((z) => z.app === step.app).map((z) => overlap(step.tokens, z.tokens))),
+      0
+    ) / sharedSteps.length;
+
+  const triggerScore = target[0] && zap[0] && target[0].app === zap[0].app ? 1 : 0;
+
+  const score = 0.6 * appScore + 0.3 * actionScore + 0.1 * triggerScore;
+  const labels = new Map(target.map((s) => [s.app, s.label]));
+  return { score: Math.round(score * 100) / 100, sharedApps: shared.map((app) => labels.get(app)!) };
+}
+
+// ============================================================
+// Targets and suggestions
+// ============================================================
+
+/**
+ * What a use case is expected to automate: planned Zap architecture items
+ * (not yet linked to a Zap), its pattern's zapBundle, and the templates for
+ * the archetypes of its value items.
+ */
+export function buildMatchTargets(useCase: MatchableUseCase, archetypes: string[]): ZapMatchTarget[] {
+  const targets: ZapMatchTarget[] = [];
+  (useCase.architecture ?? []).forEach((item, index) => {
+    if (item.type !== "zap" || item.zapId || !item.zapConfig?.steps?.length) return;
+    targets.push({
+      label: item.name,
+      source: "architecture",
+      steps: item.zapConfig.steps.map((s) => parseConfigAction(s.action)),
+      architectureIndex: index,
+    });
+  });
+
+  const seen = new Set(targets.map((t) => t.label));
+  const templates = [
+    ...(useCase.patternId ? (getTemplateForPattern(useCase.patternId) ?? []) : []),
+    ...[...new Set(archetypes)].flatMap((a) => getTemplatesForArchetype(a as Archetype)),
+  ];
+  for (const template of templates) {
+    if (seen.has(template.title)) continue;
+    seen.add(template.title);
+    targets.push({ label: template.title, source: "pattern", steps: template.steps });
+  }
+  return targets;
+}
+
+/**
+ * Propose links for Zaps not yet linked to any of the use cases. Each Zap is
+ * proposed once, for its best-scoring use case and target; best first.
+ */
+export function suggestZapLinks(
+  useCases: MatchableUseCase[],
+  valueItems: Array<{ useCaseId?: string; archetype: string }>,
+  zaps: ZapDetails[],
+  minScore = MIN_MATCH_SCORE
+): ZapLinkSuggestion[] {
+  const linked = new Set(useCases.flatMap((uc) => (uc.architecture ?? []).flatMap((a) => a.zapId ?? [])));
+  const targetsByUseCase = useCases.map((uc) => ({
+    useCaseId: uc._id,
+    targets: buildMatchTargets(
+      uc,
+      valueItems.filter((vi) => vi.useCaseId === uc._id).map((vi) => vi.archetype)
+    ),
+  }));
+
+  const suggestions: ZapLinkSuggestion[] = [];
+  for (const zap of zaps) {
+    if (linked.has(zap.id)) continue;
+    let best: ZapLinkSuggestion | null = null;
+    for (const { useCaseId, targets } of targetsByUseCase) {
+      for (const target of targets) {
+        const match = scoreZapAgainstTarget(zap.steps, target.steps);
+        if (match.score >= minScore && (!best || match.score > best.score)) {
+          best = { ...match, useCaseId, zap, target };
+        }
+      }
+    }
+    if (best) suggestions.push(best);
+  }
+  return suggestions.sort((a, b) => b.score - a.score);
+}
+
+// ============================================================
+// Linking
+// ============================================================
+
+/** Architecture item for a Zap from the account, with its details cached */
+export function toLinkedZapItem(zap: ZapDetails, nowMs = Date.now()): ArchitectureItem {
+  return {
+    type: "zap",
+    name: zap.title,
+    zapId: zap.id,
+    status: zap.isEnabled ? "active" : "paused",
+    zapDetails: {
+      title: zap.title,
+      isEnabled: zap.isEnabled,
+      lastSuccessfulRun: zap.lastSuccessfulRun,
+      steps: zap.steps,
+      fetchedAt: nowMs,
+    },
+  };
+}
+
+/**
+ * Architecture after accepting a suggestion: the Zap fills in the planned
+ * item it matched (keeping its name and description) or is added at the end.
+ */
+export function applyZapLink(
+  architecture: ArchitectureItem[],
+  zap: ZapDetails,
+  architectureIndex?: number,
+  nowMs = Date.now()
+): ArchitectureItem[] {
+  const item = toLinkedZapItem(zap, nowMs);
+  const planned = architectureIndex !== undefined ? architecture[architectureIndex] : undefined;
+  if (!planned || planned.type !== "zap" || planned.zapId) return [...architecture, item];
+  return architecture.map((a, i) =>
+    i === architectureIndex ? { ...a, zapId: item.zapId, status: item.status, zapDetails: item.zapDetails } : a
+  );
+}
@@ -0,0 +1,77 @@
+import { test, expect, describe } from "bun:test";
+import {
+  ZAP_SYNC_BACKOFF_MS,
+  ZAP_SYNC_INTERVAL_MS,
+  nextSyncAt,
+  runsFetchSince,
+  syncBackoffDelay,
+  syncRunStatus,
+  type ZapSyncResult,
+} from "./zapSync";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("syncBackoffDelay", () => {
+  test("waits the normal interval without failures", () => {
+    expect(syncBackoffDelay(0)).toBe(ZAP_SYNC_INTERVAL_MS);
+  });
+
+  test("waits longer after each failure, up to the last step", () => {
+    expect(syncBackoffDelay(1)).toBe(ZAP_SYNC_BACKOFF_MS[0]!);
+    expect(syncBackoffDelay(3)).toBe(ZAP_SYNC_BACKOFF_MS[2]!);
+    expect(syncBackoffDelay(20)).toBe(ZAP_SYNC_BACKOFF_MS.at(-1)!);
+  });
+});
+
+describe("nextSyncAt", () => {
+  test("is due now when never synced", () => {
+    expect(nextSyncAt([])).toBe(0);
+  });
+
+  test("is an interval after the last successful or partial run", () => {
+    expect(nextSyncAt([{ status: "succeeded", startedAt: 1000 }])).toBe(1000 + ZAP_SYNC_INTERVAL_MS);
+    expect(nextSyncAt([{ status: "partial", startedAt: 1000 }])).toBe(1000 + ZAP_SYNC_INTERVAL_MS);
+  });
+
+  test("backs off by the failures in a row since the last success", () => {
+    const runs = [
+      { status: "failed" as const, startedAt: 10 * HOUR },
+      { status: "failed" as const, startedAt: 9 * HOUR },
+      { status: "succeeded" as const, startedAt: 8 * HOUR },
+      { status: "failed" as const, startedAt: 7 * HOUR },
+    ];
+    expect(nextSyncAt(runs)).toBe(10 * HOUR + syncBackoffDelay(2));
+  });
+
+  test("waits at least until the rate limit's retry time", () => {
+    const retryAt = 10 * HOUR + 2 * HOUR;
+    expect(nextSyncAt([{ status: "rate_limited", startedAt: 10 * HOUR, retryAt }])).toBe(retryAt);
+  });
+});
+
+describe("syncRunStatus", () => {
+  const result = (status: ZapSyncResult["status"]): ZapSyncResult => ({ zapId: "1", useCaseId: "uc", status });
+
+  test("succeeds when nothing failed, including when everything was fresh", () => {
+    expect(syncRunStatus([result("updated"), result("skipped")])).toBe("succeeded");
+    expect(syncRunStatus([])).toBe("succeeded");
+  });
+
+  test("is partial when some Zaps updated and others failed", () => {
+    expect(syncRunStatus([result("updated"), result("error")])).toBe("partial");
+  });
+
+  test("fails when no attempted Zap updated", () => {
+    expect(syncRunStatus([result("skipped"), result("error")])).toBe("failed");
+  });
+});
+
+describe("runsFetchSince", () => {
+  test("starts at the beginning of the last run's day", () => {
+    expect(runsFetchSince("2026-03-28T17:42:10Z")).toBe("2026-03-28T00:00:00Z");
+  });
+
+  test("fetches everything the first time", () => {
+    expect(runsFetchSince(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+// ============================================================
+// Zap sync scheduling — when each calculator's linked Zaps are next
+// synced from the Zapier API, how long to back off after failures
+// and rate limits, and how a sync run's outcome is summarized.
+// Used by the cron in convex/crons.ts.
+// ============================================================
+
+export type ZapSyncTrigger = "scheduled" | "manual";
+
+export type ZapSyncRunStatus = "succeeded" | "partial" | "failed" | "rate_limited";
+
+/** Per-Zap outcome of a sync */
+export interface ZapSyncResult {
+  zapId: string;
+  useCaseId: string;
+  status: "updated" | "skipped" | "error";
+  error?: string;
+}
+
+/** What scheduling needs from a stored sync run */
+export interface ZapSyncRunSummary {
+  status: ZapSyncRunStatus;
+  startedAt: number;
+  /** Earliest time the Zapier API said to try again, for rate_limited runs */
+  retryAt?: number;
+}
+
+/** Cached run data younger than this is fresh enough; also how often calculators are synced */
+export const ZAP_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Wait after 1, 2, 3 and 4+ failed runs in a row: 15 min, 1 h, 4 h, then 12 h
+export const ZAP_SYNC_BACKOFF_MS = [900_000, 3_600_000, 14_400_000, 43_200_000];
+
+/** Waited after a 429 that didn't say how long to wait */
+export const DEFAULT_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+
+/**
+ * Zapier API requests one cron run may make across all calculators. Each
+ * Zap costs at least two (details and a page of runs); what doesn't fit
+ * waits for the next run.
+ */
+export const ZAP_SYNC_REQUEST_BUDGET = 120;
+
+export const ZAP_SYNC_REQUESTS_PER_ZAP = 2;
+
+/** Delay before syncing again after `failures` failed runs in a row */
+export function syncBackoffDelay(failures: number): number {
+  if (failures <= 0) return ZAP_SYNC_INTERVAL_MS;
+  return ZAP_SYNC_BACKOFF_MS[Math.min(failures, ZAP_SYNC_BACKOFF_MS.length) - 1]!;
+}
+
+/**
+ * When a calculator is next due, from its sync runs newest first. Never
+ * synced is due now; failed and rate-limited runs in a row back off.
+ */
+export function nextSyncAt(runs: ZapSyncRunSummary[]): number {
+  const [latest] = runs;
+  if (!latest) return 0;
+  let failures = 0;
+  while (failures < runs.length && (runs[failures]!.status === "failed" || runs[failures]!.status === "rate_limited")) {
+    failures++;
+  }
+  return Math.max(latest.startedAt + syncBackoffDelay(failures), latest.retryAt ?? 0);
+}
+
+/** A run succeeded if no Zap failed, failed if every attempted Zap did */
+export function syncRunStatus(results: ZapSyncResult[]): Exclude<ZapSyncRunStatus, "rate_limited"> {
+  const errors = results.filter((r) => r.status === "error").length;
+  if (errors === 0) return "succeeded";
+  return results.some((r) => r.status === "updated") ? "partial" : "failed";
+}
+
+/**
+ * `from_date` for fetching a Zap's runs incrementally: the start of the UTC
+ * day of the last run seen, so every day fetched is complete. Everything the
+ * first time.
+ */
+export function runsFetchSince(lastRunAt: string | undefined): string | undefined {
+  return lastRunAt ? `${lastRunAt.slice(0, 10)}T00:00:00Z` : undefined;
+}
@@ -0,0 +1,169 @@
+import { test, expect, describe, afterAll } from "bun:test";
+import {
+  ZapierApiError,
+  fetchZapRuns,
+  parseRetryAfter,
+  parseZapListPage,
+  zapMatchesSearch,
+  type ZapRun,
+} from "./zapier-api";
+
+function rawZap(id: number, title: string, apps: string[] = []) {
+  return {
+    id,
+    title,
+    is_enabled: true,
+    steps: apps.map((app) => ({ action: { app: { title: app }, title: "Do thing", type: "write" } })),
+  };
+}
+
+describe("parseZapListPage", () => {
+  test("parses the Zaps and follows the next link", () => {
+    const page = parseZapListPage(
+      { data: [rawZap(1, "Lead routing", ["Salesforce", "Slack"])], links: { next: "https://api.zapier.com/v2/zaps?offset=51" } },
+      50,
+      50
+    );
+    expect(page.nextOffset).toBe(51);
+    expect(page.zaps[0]).toMatchObject({ id: "1", title: "Lead routing", isEnabled: true });
+    expect(page.zaps[0]!.steps.map((s) => s.appTitle)).toEqual(["Salesforce", "Slack"]);
+  });
+
+  test("stops when the next link is null", () => {
+    expect(parseZapListPage({ data: [rawZap(1, "A")], links: { next: null } }, 0, 1).nextOffset).toBeNull();
+  });
+
+  test("uses the total count when there are no links", () => {
+    expect(parseZapListPage({ data: [rawZap(1, "A"), rawZap(2, "B")], meta: { count: 5 } }, 0, 2).nextOffset).toBe(2);
+    expect(parseZapListPage({ data: [rawZap(5, "E")], meta: { count: 5 } }, 4, 2).nextOffset).toBeNull();
+  });
+
+  test("otherwise assumes more while pages come back full", () => {
+    expect(parseZapListPage({ data: [rawZap(1, "A"), rawZap(2, "B")] }, 0, 2).nextOffset).toBe(2);
+    expect(parseZapListPage({ data: [rawZap(3, "C")] }, 2, 2).nextOffset).toBeNull();
+    expect(parseZapListPage({ data: [] }, 0, 0).nextOffset).toBeNull();
+  });
+});
+
+describe("zapMatchesSearch", () => {
+  const [zap] = parseZapListPage({ data: [rawZap(4207, "New lead to CRM", ["HubSpot", "Google Sheets"])] }, 0, 50).zaps;
+
+  test("matches the title, an app or the ID, ignoring case", () => {
+    expect(zapMatchesSearch(zap!, "lead")).toBe(true);
+    expect(zapMatchesSearch(zap!, "google sheets")).toBe(true);
+    expect(zapMatchesSearch(zap!, "4207")).toBe(true);
+    expect(zapMatchesSearch(zap!, "  ")).toBe(true);
+  });
+
+  test("needs every word to match", () => {
+    expect(zapMatchesSearch(zap!, "hubspot lead")).toBe(true);
+    expect(zapMatchesSearch(zap!, "hubspot salesforce")).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("reads seconds or an HTTP date", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:00:00 GMT", now)).toBe(0);
+  });
+
+  test("is undefined when missing or unreadable", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+// ============================================================
+// fetchZapRuns, against a local fake of GET /v2/zap-runs
+// ============================================================
+
+/** Runs newest first, one a minute back from 2026-03-28T12:00Z */
+function fakeRuns(count: number): ZapRun[] {
+  const newest = Date.parse("2026-03-28T12:00:00Z");
+  return Array.from({ length: count }, (_, i) => {
+    const time = new Date(newest - i * 60_000).toISOString();
+    return { id: String(count - i), status: i % 10 === 0 ? "error" : "success", start_time: time, end_time: time };
+  });
+}
+
+// Pages with a `cursor` in links.next, filters on from_date, and rate limits when asked
+const fake = {
+  runs: [] as ZapRun[],
+  rateLimited: false,
+  requests: [] as URL[],
+};
+const server = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const url = new URL(req.url);
+    fake.requests.push(url);
+    if (req.headers.get("Authorization") !== "Bearer test-token") return new Response("", { status: 401 });
+    if (fake.rateLimited) return new Response("", { status: 429, headers: { "Retry-After": "30" } });
+
+    const from = url.searchParams.get("from_date");
+    const matching = fake.runs.filter((r) => !from || r.start_time! >= from);
+    const limit = Number(url.searchParams.get("limit"));
+    const cursor = Number(url.searchParams.get("cursor") ?? 0);
+    const next = new URLSearchParams(url.searchParams);
+    next.set("cursor", String(cursor + limit));
+    return Response.json({
+      data: matching.slice(cursor, cursor + limit),
+      // Absolute, as the real API returns them
+      links: { next: cursor + limit < matching.length ? `https://api.zapier.com/v2/zap-runs?${next}` : null },
+    });
+  },
+});
+const apiBase = `http://localhost:${server.port}`;
+
+afterAll(() => server.stop(true));
+
+function reset(runs: ZapRun[]) {
+  fake.runs = runs;
+  fake.rateLimited = false;
+  fake.requests = [];
+}
+
+describe("fetchZapRuns", () => {
+  test("follows the cursor through every page", async () => {
+    reset(fakeRuns(250));
+    const result = await fetchZapRuns("42", "test-token", { apiBase, pageSize: 100 });
+    expect(result.runs).toHaveLength(250);
+    expect(result.sampled).toBe(false);
+    expect(result.requests).toBe(3);
+    expect(result.lastRunAt).toBe("2026-03-28T12:00:00.000Z");
+    expect(fake.requests.map((u) => u.searchParams.get("cursor"))).toEqual([null, "100", "200"]);
+    expect(fake.requests.every((u) => u.searchParams.get("zap_id") === "42")).toBe(true);
+  });
+
+  test("fetches only runs from `since` on", async () => {
+    reset(fakeRuns(250));
+    const result = await fetchZapRuns("42", "test-token", { apiBase, since: "2026-03-28T11:00:00.000Z" });
+    expect(result.runs).toHaveLength(61);
+    expect(fake.requests[0]!.searchParams.get("from_date")).toBe("2026-03-28T11:00:00.000Z");
+  });
+
+  test("stops at the cap and flags the result as sampled", async () => {
+    reset(fakeRuns(250));
+    const result = await fetchZapRuns("42", "test-token", { apiBase, pageSize: 100, maxRuns: 150 });
+    expect(result.runs).toHaveLength(150);
+    expect(result.runs[0]!.id).toBe("250");
+    expect(result.sampled).toBe(true);
+    expect(result.requests).toBe(2);
+  });
+
+  test("isn't sampled when the last page ends exactly at the cap", async () => {
+    reset(fakeRuns(200));
+    const result = await fetchZapRuns("42", "test-token", { apiBase, pageSize: 100, maxRuns: 200 });
+    expect(result.sampled).toBe(false);
+  });
+
+  test("throws with the wait from Retry-After when rate limited", async () => {
+    reset(fakeRuns(10));
+    fake.rateLimited = true;
+    const error = await fetchZapRuns("42", "test-token", { apiBase }).catch((e) => e);
+    expect(error).toBeInstanceOf(ZapierApiError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 30_000 });
+  });
+});
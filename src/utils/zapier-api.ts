@@ -1,7 +1,7 @@
 // ============================================================
 // Zapier API Client for ROI Calculator V2
 // Wraps the Zapier REST API (v2) for fetching Zap details,
-// creating Zaps, and listing Zaps.
+// creating Zaps, and listing Zaps page by page.
 // ============================================================
 
 const ZAPIER_API_BASE = "https://api.zapier.com";
@@ -37,10 +37,19 @@ export interface ZapConfig {
   }>;
 }
 
-export interface ZapRunSummary {
-  totalRuns: number;
-  successfulRuns: number;
-  failedRuns: number;
+export interface ZapRun {
+  id?: string | number;
+  status?: string;
+  start_time?: string;
+  end_time?: string;
+}
+
+export interface ZapRunsFetch {
+  runs: ZapRun[];
+  /** More runs matched than the cap, so `runs` is only the newest of them */
+  sampled: boolean;
+  /** Pages requested, for rate limit budgets */
+  requests: number;
   lastRunAt?: string;
 }
 
@@ -53,12 +62,23 @@ export class ZapierApiError extends Error {
     message: string,
     public status: number,
     public body?: unknown,
+    /** From the Retry-After header of a 429 */
+    public retryAfterMs?: number,
   ) {
     super(message);
     this.name = "ZapierApiError";
   }
 }
 
+/** Milliseconds to wait from a Retry-After header (seconds or an HTTP date), or undefined */
+export function parseRetryAfter(header: string | null, nowMs = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - nowMs);
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     let body: unknown;
@@ -71,6 +91,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
       `Zapier API error: ${response.status} ${response.statusText}`,
       response.status,
       body,
+      parseRetryAfter(response.headers.get("Retry-After")),
     );
   }
   return response.json() as Promise<T>;
@@ -146,20 +167,28 @@ export async function createZap(
   };
 }
 
+export interface ZapListPage {
+  zaps: ZapDetails[];
+  /** Offset of the next page, or null on the last page */
+  nextOffset: number | null;
+}
+
 /**
- * List user's Zaps (for linking existing ones).
- * GET https://api.zapier.com/v2/zaps?expand=steps.action&limit=50
+ * List a page of the account's Zaps (for linking existing ones).
+ * GET https://api.zapier.com/v2/zaps?expand=steps.action&limit=50&offset=0
  * Requires Bearer token with 'zap' scope.
  */
 export async function listZaps(
   token: string,
   options?: { limit?: number; offset?: number; search?: string },
-): Promise<ZapDetails[]> {
+): Promise<ZapListPage> {
+  const limit = options?.limit ?? 50;
+  const offset = options?.offset ?? 0;
   const params = new URLSearchParams({
     "expand": "steps.action",
-    "limit": String(options?.limit ?? 50),
+    "limit": String(limit),
   });
-  if (options?.offset) params.set("offset", String(options.offset));
+  if (offset) params.set("offset", String(offset));
   if (options?.search) params.set("search", options.search);
 
   const url = `${ZAPIER_API_BASE}/v2/zaps?${params.toString()}`;
@@ -168,10 +197,8 @@ export async function listZaps(
     headers: authHeaders(token),
   });
 
-  const data = await handleResponse<{
-    data: Array<Record<string, unknown>>;
-  }>(response);
-  return data.data.map(parseZapDetails);
+  const data = await handleResponse<ZapListResponse>(response);
+  return parseZapListPage(data, offset, limit);
 }
 
 /**
@@ -207,57 +234,93 @@ export function generatePrefillUrl(config: ZapConfig): string {
   return `${ZAPIER_API_BASE}/v1/embed/${encodeURIComponent(triggerApp)}/create?${params.toString()}`;
 }
 
+/** Runs per zap-runs page */
+export const ZAP_RUNS_PAGE_SIZE = 100;
+
+/** Most runs fetched for one Zap in one go; past this the result is sampled */
+export const MAX_ZAP_RUNS = 2000;
+
+interface ZapRunsResponse {
+  data: ZapRun[];
+  links?: { next?: string | null };
+}
+
 /**
- * Fetch Zap run data for value realized dashboard.
+ * Fetch a Zap's runs for the value realized dashboard, newest first, following
+ * the cursor in `links.next` until the runs end or `maxRuns` is reached.
+ * `since` fetches only runs from that time on (`from_date`).
  * GET https://api.zapier.com/v2/zap-runs?zap_id={zapId}
  * Requires Bearer token with 'zap' scope.
  */
 export async function fetchZapRuns(
   zapId: string,
   token: string,
-  options?: { since?: string; limit?: number },
-): Promise<ZapRunSummary> {
+  options?: { since?: string; pageSize?: number; maxRuns?: number; apiBase?: string },
+): Promise<ZapRunsFetch> {
+  const apiBase = options?.apiBase ?? ZAPIER_API_BASE;
+  const maxRuns = options?.maxRuns ?? MAX_ZAP_RUNS;
   const params = new URLSearchParams({
     zap_id: zapId,
-    limit: String(options?.limit ?? 100),
+    limit: String(options?.pageSize ?? ZAP_RUNS_PAGE_SIZE),
   });
   if (options?.since) params.set("from_date", options.since);
 
-  const url = `${ZAPIER_API_BASE}/v2/zap-runs?${params.toString()}`;
-  const response = await fetch(url, {
-    method: "GET",
-    headers: authHeaders(token),
-  });
-
-  const data = await handleResponse<{
-    data: Array<{
-      status?: string;
-      end_time?: string;
-    }>;
-  }>(response);
+  const runs: ZapRun[] = [];
+  let requests = 0;
+  let query: URLSearchParams | null = params;
+  while (query) {
+    const response: Response = await fetch(`${apiBase}/v2/zap-runs?${query.toString()}`, {
+      method: "GET",
+      headers: authHeaders(token),
+    });
+    requests++;
+    const page: ZapRunsResponse = await handleResponse<ZapRunsResponse>(response);
+    runs.push(...(page.data ?? []));
+
+    // Only the next link's query is used, so the token never leaves apiBase
+    const next = page.links?.next;
+    query = next && (page.data ?? []).length > 0 ? new URL(next, apiBase).searchParams : null;
+    if (query && runs.length >= maxRuns) break;
+  }
 
-  const runs = data.data;
-  let successfulRuns = 0;
-  let failedRuns = 0;
+  const sampled = query !== null || runs.length > maxRuns;
+  const kept = runs.slice(0, maxRuns);
   let lastRunAt: string | undefined;
-
-  for (const run of runs) {
-    if (run.status === "success") {
-      successfulRuns++;
-    } else if (run.status === "error" || run.status === "failed") {
-      failedRuns++;
-    }
-    if (run.end_time && (!lastRunAt || run.end_time > lastRunAt)) {
-      lastRunAt = run.end_time;
-    }
+  for (const run of kept) {
+    if (run.end_time && (!lastRunAt || run.end_time > lastRunAt)) lastRunAt = run.end_time;
   }
+  return { runs: kept, sampled, requests, lastRunAt };
+}
 
-  return {
-    totalRuns: runs.length,
-    successfulRuns,
-    failedRuns,
-    lastRunAt,
-  };
+// ============================================================
+// Zap lists
+// ============================================================
+
+export interface ZapListResponse {
+  data: Array<Record<string, unknown>>;
+  links?: { next?: string | null };
+  meta?: { count?: number };
+}
+
+/**
+ * Parse a page of GET /v2/zaps. There is a next page when the API links one,
+ * when the total count says so, or (with neither) when the page came back full.
+ */
+export function parseZapListPage(body: ZapListResponse, offset: number, limit: number): ZapListPage {
+  const zaps = (body.data ?? []).map(parseZapDetails);
+  const end = offset + zaps.length;
+  let hasMore: boolean;
+  if (body.links && "next" in body.links) hasMore = Boolean(body.links.next);
+  else if (typeof body.meta?.count === "number") hasMore = end < body.meta.count;
+  else hasMore = zaps.length === limit;
+  return { zaps, nextOffset: hasMore && zaps.length > 0 ? end : null };
+}
+
+/** Case-insensitive match on the Zap title, its ID, or any step's app */
+export function zapMatchesSearch(zap: Pick<ZapDetails, "id" | "title" | "steps">, search: string): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [zap.id, zap.title, ...zap.steps.map((s) => s.appTitle)].join(" ").toLowerCase();
+  return terms.every((term) => haystack.includes(term));
 }
 
 // ============================================================